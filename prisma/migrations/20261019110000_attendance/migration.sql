@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "AttendanceStatus" AS ENUM ('PRESENT', 'LATE', 'ABSENT', 'ON_LEAVE', 'HALF_DAY');
+
+-- CreateEnum
+CREATE TYPE "AttendanceSource" AS ENUM ('SELF', 'LEADER', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "Shift" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "breakMinutes" INTEGER NOT NULL DEFAULT 0,
+    "graceMinutes" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Shift_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable (partitioned by range of "date"; Prisma cannot express this, so it is hand-written)
+CREATE TABLE "attendances" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "shiftId" TEXT,
+    "status" "AttendanceStatus" NOT NULL DEFAULT 'PRESENT',
+    "source" "AttendanceSource" NOT NULL DEFAULT 'SELF',
+    "checkInAt" TIMESTAMP(3),
+    "checkOutAt" TIMESTAMP(3),
+    "workMinutes" INTEGER,
+    "note" TEXT,
+    "recordedById" TEXT,
+    "factoryId" TEXT,
+    "lineId" TEXT,
+    "teamId" TEXT,
+    "groupId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendances_pkey" PRIMARY KEY ("id","date")
+) PARTITION BY RANGE ("date");
+
+-- Rows outside any weekly partition land here until PartitionJobService creates one
+CREATE TABLE "attendances_default" PARTITION OF "attendances" DEFAULT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Shift_code_key" ON "Shift"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendances_userId_date_key" ON "attendances"("userId", "date");
+
+-- CreateIndex
+CREATE INDEX "attendances_date_factoryId_idx" ON "attendances"("date", "factoryId");
+
+-- CreateIndex
+CREATE INDEX "attendances_date_lineId_idx" ON "attendances"("date", "lineId");
+
+-- CreateIndex
+CREATE INDEX "attendances_date_teamId_idx" ON "attendances"("date", "teamId");
+
+-- CreateIndex
+CREATE INDEX "attendances_date_groupId_idx" ON "attendances"("date", "groupId");
+
+-- AddForeignKey
+ALTER TABLE "attendances" ADD CONSTRAINT "attendances_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendances" ADD CONSTRAINT "attendances_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "Shift"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "ProductionRecordStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "ProductionRecord" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "shiftId" TEXT NOT NULL,
+    "productCode" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "targetQuantity" INTEGER NOT NULL,
+    "defectQuantity" INTEGER NOT NULL DEFAULT 0,
+    "efficiency" DOUBLE PRECISION,
+    "note" TEXT,
+    "status" "ProductionRecordStatus" NOT NULL DEFAULT 'PENDING',
+    "recordedById" TEXT NOT NULL,
+    "approvedById" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "rejectReason" TEXT,
+    "factoryId" TEXT,
+    "lineId" TEXT,
+    "teamId" TEXT,
+    "groupId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductionRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductionRecord_userId_date_shiftId_productCode_key" ON "ProductionRecord"("userId", "date", "shiftId", "productCode");
+
+-- CreateIndex
+CREATE INDEX "ProductionRecord_date_factoryId_idx" ON "ProductionRecord"("date", "factoryId");
+
+-- CreateIndex
+CREATE INDEX "ProductionRecord_date_lineId_idx" ON "ProductionRecord"("date", "lineId");
+
+-- CreateIndex
+CREATE INDEX "ProductionRecord_date_teamId_idx" ON "ProductionRecord"("date", "teamId");
+
+-- CreateIndex
+CREATE INDEX "ProductionRecord_date_groupId_idx" ON "ProductionRecord"("date", "groupId");
+
+-- CreateIndex
+CREATE INDEX "ProductionRecord_status_groupId_idx" ON "ProductionRecord"("status", "groupId");
+
+-- AddForeignKey
+ALTER TABLE "ProductionRecord" ADD CONSTRAINT "ProductionRecord_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductionRecord" ADD CONSTRAINT "ProductionRecord_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "Shift"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
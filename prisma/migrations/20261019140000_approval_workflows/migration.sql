@@ -0,0 +1,142 @@
+-- CreateEnum
+CREATE TYPE "ApprovalReviewType" AS ENUM ('SEQUENTIAL', 'PARALLEL');
+
+-- CreateEnum
+CREATE TYPE "ApprovalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "ApprovalActionType" AS ENUM ('SUBMITTED', 'APPROVED', 'REJECTED', 'DELEGATED', 'ESCALATED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "ApprovalWorkflow" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "entityType" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalWorkflow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalWorkflowStep" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "reviewType" "ApprovalReviewType" NOT NULL DEFAULT 'SEQUENTIAL',
+    "timeoutMinutes" INTEGER,
+    "escalateToRoleId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalWorkflowStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalInstance" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "subjectUserId" TEXT,
+    "requestedById" TEXT NOT NULL,
+    "status" "ApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "currentStage" INTEGER NOT NULL DEFAULT 0,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalInstance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalTask" (
+    "id" TEXT NOT NULL,
+    "instanceId" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "stage" INTEGER NOT NULL,
+    "roleId" TEXT NOT NULL,
+    "assigneeId" TEXT,
+    "status" "ApprovalStatus" NOT NULL DEFAULT 'PENDING',
+    "dueAt" TIMESTAMP(3),
+    "escalatedAt" TIMESTAMP(3),
+    "decidedById" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalAction" (
+    "id" TEXT NOT NULL,
+    "instanceId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "actorId" TEXT,
+    "action" "ApprovalActionType" NOT NULL,
+    "comment" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApprovalAction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalWorkflow_code_key" ON "ApprovalWorkflow"("code");
+
+-- CreateIndex
+CREATE INDEX "ApprovalWorkflow_entityType_isActive_idx" ON "ApprovalWorkflow"("entityType", "isActive");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApprovalWorkflowStep_workflowId_order_key" ON "ApprovalWorkflowStep"("workflowId", "order");
+
+-- CreateIndex
+CREATE INDEX "ApprovalInstance_entityType_entityId_idx" ON "ApprovalInstance"("entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "ApprovalInstance_status_idx" ON "ApprovalInstance"("status");
+
+-- CreateIndex
+CREATE INDEX "ApprovalTask_instanceId_stage_idx" ON "ApprovalTask"("instanceId", "stage");
+
+-- CreateIndex
+CREATE INDEX "ApprovalTask_status_roleId_idx" ON "ApprovalTask"("status", "roleId");
+
+-- CreateIndex
+CREATE INDEX "ApprovalTask_status_assigneeId_idx" ON "ApprovalTask"("status", "assigneeId");
+
+-- CreateIndex
+CREATE INDEX "ApprovalTask_status_dueAt_idx" ON "ApprovalTask"("status", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "ApprovalAction_instanceId_idx" ON "ApprovalAction"("instanceId");
+
+-- AddForeignKey
+ALTER TABLE "ApprovalWorkflowStep" ADD CONSTRAINT "ApprovalWorkflowStep_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "ApprovalWorkflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalWorkflowStep" ADD CONSTRAINT "ApprovalWorkflowStep_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalWorkflowStep" ADD CONSTRAINT "ApprovalWorkflowStep_escalateToRoleId_fkey" FOREIGN KEY ("escalateToRoleId") REFERENCES "Role"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalInstance" ADD CONSTRAINT "ApprovalInstance_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "ApprovalWorkflow"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalTask" ADD CONSTRAINT "ApprovalTask_instanceId_fkey" FOREIGN KEY ("instanceId") REFERENCES "ApprovalInstance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalTask" ADD CONSTRAINT "ApprovalTask_stepId_fkey" FOREIGN KEY ("stepId") REFERENCES "ApprovalWorkflowStep"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalTask" ADD CONSTRAINT "ApprovalTask_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalAction" ADD CONSTRAINT "ApprovalAction_instanceId_fkey" FOREIGN KEY ("instanceId") REFERENCES "ApprovalInstance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
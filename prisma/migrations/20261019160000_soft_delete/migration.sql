@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "LeaveType" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Shift" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "LeaveType_deletedAt_idx" ON "LeaveType"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Shift_deletedAt_idx" ON "Shift"("deletedAt");
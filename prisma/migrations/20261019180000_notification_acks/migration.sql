@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "NotificationDelivery" ADD COLUMN     "ackedAt" TIMESTAMP(3),
+ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastAttemptAt" TIMESTAMP(3);
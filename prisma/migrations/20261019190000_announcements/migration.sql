@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "AnnouncementStatus" AS ENUM ('SCHEDULED', 'PUBLISHED', 'EXPIRED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "Announcement" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "unitType" TEXT,
+    "unitId" TEXT,
+    "roleId" TEXT,
+    "status" "AnnouncementStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "publishAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "publishedAt" TIMESTAMP(3),
+    "recipientCount" INTEGER NOT NULL DEFAULT 0,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Announcement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AnnouncementRecipient" (
+    "id" TEXT NOT NULL,
+    "announcementId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "notificationId" TEXT,
+    "readAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AnnouncementRecipient_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Announcement_status_publishAt_idx" ON "Announcement"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "Announcement_status_expiresAt_idx" ON "Announcement"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "Announcement_createdById_idx" ON "Announcement"("createdById");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnnouncementRecipient_notificationId_key" ON "AnnouncementRecipient"("notificationId");
+
+-- CreateIndex
+CREATE INDEX "AnnouncementRecipient_userId_idx" ON "AnnouncementRecipient"("userId");
+
+-- CreateIndex
+CREATE INDEX "AnnouncementRecipient_announcementId_readAt_idx" ON "AnnouncementRecipient"("announcementId", "readAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnnouncementRecipient_announcementId_userId_key" ON "AnnouncementRecipient"("announcementId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "Announcement" ADD CONSTRAINT "Announcement_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnnouncementRecipient" ADD CONSTRAINT "AnnouncementRecipient_announcementId_fkey" FOREIGN KEY ("announcementId") REFERENCES "Announcement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnnouncementRecipient" ADD CONSTRAINT "AnnouncementRecipient_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnnouncementRecipient" ADD CONSTRAINT "AnnouncementRecipient_notificationId_fkey" FOREIGN KEY ("notificationId") REFERENCES "Notification"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- DropForeignKey
+ALTER TABLE "BiometricData" DROP CONSTRAINT "BiometricData_userId_fkey";
+
+-- DropTable
+DROP TABLE "BiometricData";
+
+-- DropEnum
+DROP TYPE "BiometricType";
+
+-- CreateTable
+CREATE TABLE "WebAuthnCredential" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "credentialId" TEXT NOT NULL,
+    "publicKey" BYTEA NOT NULL,
+    "signCount" BIGINT NOT NULL DEFAULT 0,
+    "transports" TEXT[],
+    "aaguid" TEXT,
+    "name" TEXT NOT NULL,
+    "backupEligible" BOOLEAN NOT NULL DEFAULT false,
+    "backedUp" BOOLEAN NOT NULL DEFAULT false,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebAuthnCredential_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebAuthnCredential_credentialId_key" ON "WebAuthnCredential"("credentialId");
+
+-- CreateIndex
+CREATE INDEX "WebAuthnCredential_userId_idx" ON "WebAuthnCredential"("userId");
+
+-- AddForeignKey
+ALTER TABLE "WebAuthnCredential" ADD CONSTRAINT "WebAuthnCredential_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
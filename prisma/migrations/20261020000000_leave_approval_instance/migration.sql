@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "LeaveRequest" ADD COLUMN     "approvalInstanceId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LeaveRequest_approvalInstanceId_key" ON "LeaveRequest"("approvalInstanceId");
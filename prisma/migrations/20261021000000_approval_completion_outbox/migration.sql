@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ApprovalInstance" ADD COLUMN     "completionHandledAt" TIMESTAMP(3);
+
+-- Instance đã kết thúc trước đó coi như đã xử lý, job không chạy lại
+UPDATE "ApprovalInstance" SET "completionHandledAt" = "completedAt" WHERE "completedAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ApprovalInstance_completionHandledAt_completedAt_idx" ON "ApprovalInstance"("completionHandledAt", "completedAt");
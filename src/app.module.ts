@@ -7,6 +7,15 @@ import { AppService } from './app.service';
 import { AuthModule } from './modules/auth/auth.module';
 import { RoleModule } from './modules/role/role.module';
 import { PermissionModule } from './modules/permission/permission.module';
+import { OrganizationModule } from './modules/organization/organization.module';
+import { AttendanceModule } from './modules/attendance/attendance.module';
+import { LeaveModule } from './modules/leave/leave.module';
+import { ProductionModule } from './modules/production/production.module';
+import { ApprovalModule } from './modules/approval/approval.module';
+import { AuditModule } from './modules/audit/audit.module';
+import { NotificationModule } from './modules/notification/notification.module';
+import { AnnouncementModule } from './modules/announcement/announcement.module';
+import { CronJobModule } from './modules/cron-job/cron-job.module';
 import { ShareModule } from './share/module';
 import { ConfigModule } from '@nestjs/config';
 import { RedisModule } from './common/redis';
@@ -16,6 +25,7 @@ import { SwaggerModule } from './common/swagger/swagger.module';
 import { SwaggerAuthGuard } from './share/guard/swagger-auth.guard';
 import { SwaggerModelInterceptor } from './common/interceptors/swagger-model.interceptor';
 import { SwaggerEnhancerMiddleware } from './common/middlewares/swagger-enhancer.middleware';
+import { RequestContextMiddleware } from './common/middlewares/request-context.middleware';
 
 @Module({
   imports: [
@@ -46,11 +56,22 @@ import { SwaggerEnhancerMiddleware } from './common/middlewares/swagger-enhancer
     // Core modules
     ShareModule,
     RedisModule,
+    AuditModule,
 
     // Feature modules
     AuthModule, // Thêm AuthModule mới
     RoleModule,
     PermissionModule,
+    OrganizationModule,
+    AttendanceModule,
+    LeaveModule,
+    ProductionModule,
+    ApprovalModule,
+    NotificationModule,
+    AnnouncementModule,
+
+    // Scheduled jobs
+    CronJobModule,
   ],
   controllers: [AppController],
   providers: [
@@ -75,5 +96,7 @@ export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     // Apply SwaggerEnhancerMiddleware to all routes
     consumer.apply(SwaggerEnhancerMiddleware).forRoutes('*');
+    // Giữ request trong AsyncLocalStorage cho audit log
+    consumer.apply(RequestContextMiddleware).forRoutes('*');
   }
 }
@@ -0,0 +1,11 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { runWithRequest } from '../utils/request-context';
+
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction) {
+    // Giữ request trong AsyncLocalStorage để service lấy IP/user agent khi cần
+    runWithRequest(req, next);
+  }
+}
@@ -6,3 +6,4 @@ export * from './redis-publisher.service';
 export * from './redis-health.service';
 export * from './redis.providers';
 export * from './redis-cache.service';
+export * from './redis-io.adapter';
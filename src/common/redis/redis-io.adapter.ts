@@ -0,0 +1,47 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import Redis from 'ioredis';
+import { ServerOptions } from 'socket.io';
+import { REDIS_CLIENT } from './redis.constants';
+
+/**
+ * Socket.IO adapter dùng Redis pub/sub để emit tới room (user:*, factory:*, ...)
+ * đến được socket nằm trên mọi instance, không chỉ instance hiện tại
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter> | null = null;
+
+  constructor(private readonly app: INestApplicationContext) {
+    super(app);
+  }
+
+  async connectToRedis(): Promise<void> {
+    const configService = this.app.get(ConfigService);
+    // Mock Redis không có pub/sub thật: giữ adapter in-memory (chạy 1 instance)
+    if (configService.get<string>('USE_MOCK_REDIS') === 'true') {
+      this.logger.warn('Mock Redis in use, Socket.IO stays single-node');
+      return;
+    }
+
+    // Adapter cần 2 kết nối riêng vì kết nối subscribe không gửi lệnh khác được
+    const client = this.app.get<Redis>(REDIS_CLIENT);
+    const pubClient = client.duplicate({ connectionName: 'socket_io_pub' });
+    const subClient = client.duplicate({ connectionName: 'socket_io_sub' });
+
+    this.adapterConstructor = createAdapter(pubClient, subClient, {
+      key: 'socket.io',
+    });
+    this.logger.log('Socket.IO Redis adapter connected');
+  }
+
+  createIOServer(port: number, options?: ServerOptions): any {
+    const server = super.createIOServer(port, options);
+    if (this.adapterConstructor) {
+      server.adapter(this.adapterConstructor);
+    }
+    return server;
+  }
+}
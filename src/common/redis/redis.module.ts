@@ -356,38 +356,15 @@ const services: Provider[] = [
 @Module({
   imports: [ConfigModule],
   providers: [
-    // Redis client provider (giữ nguyên)
-    {
-      provide: REDIS_CLIENT,
-      useFactory: (configService: ConfigService) => {
-        // Giữ nguyên phần tạo client
-      },
-      inject: [ConfigService],
-    },
-    
-    // Redis subscriber factory provider (giữ nguyên)
-    {
-      provide: REDIS_SUBSCRIBER_FACTORY,
-      useFactory: (configService: ConfigService) => {
-        // Giữ nguyên phần tạo factory
-      },
-      inject: [ConfigService],
-    },
-    
+    // Redis client và subscriber factory dùng chung (kể cả cho Socket.IO adapter)
+    redisProvider,
+    redisSubscriberFactoryProvider,
+
     // Các service providers
-    {
-      provide: REDIS_HEALTH_SERVICE,
-      useClass: RedisHealthService,
-    },
-    {
-      provide: REDIS_PUBLISHER,
-      useClass: RedisPublisher,
-    },
-    {
-      provide: REDIS_CACHE_SERVICE,
-      useClass: RedisCacheService,
-    },
-    
+    redisHealthProvider,
+    redisPublisherProvider,
+    ...services,
+
     // Thêm adapter cho event publisher
     {
       provide: EVENT_PUBLISHER,
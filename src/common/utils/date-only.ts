@@ -0,0 +1,54 @@
+/**
+ * Tiện ích cho cột kiểu DATE (@db.Date).
+ * Prisma đọc/ghi DATE dưới dạng Date lúc 00:00 UTC, còn ngày làm việc được tính
+ * theo giờ máy chủ (giờ nhà máy); các hàm dưới đây chuyển đổi giữa hai cách biểu diễn.
+ */
+
+// Ngày theo lịch địa phương của `at`, biểu diễn bằng 00:00 UTC
+export function toDateOnly(at: Date = new Date()): Date {
+  return new Date(Date.UTC(at.getFullYear(), at.getMonth(), at.getDate()));
+}
+
+// 'YYYY-MM-DD' -> 00:00 UTC của ngày đó
+export function parseDateOnly(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// 00:00 UTC -> 'YYYY-MM-DD'
+export function formatDateOnly(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result;
+}
+
+// Thời điểm `HH:mm` giờ địa phương của một ngày DATE
+export function atTimeOfDay(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    hours,
+    minutes,
+  );
+}
+
+// Thứ Hai đầu tuần (ISO) chứa ngày `date`
+export function startOfIsoWeek(date: Date): Date {
+  return addDays(date, -((date.getUTCDay() + 6) % 7));
+}
+
+// Năm và số tuần ISO; tuần cuối tháng 12 có thể thuộc tuần 1 năm sau
+export function isoWeek(date: Date): { year: number; week: number } {
+  // Thứ Năm của tuần quyết định năm
+  const thursday = addDays(startOfIsoWeek(date), 3);
+  const yearStart = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 1));
+  const week =
+    Math.floor((thursday.getTime() - yearStart.getTime()) / 86400000 / 7) + 1;
+  return { year: thursday.getUTCFullYear(), week };
+}
@@ -0,0 +1,67 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request } from 'express';
+import { Requester } from 'src/share/interface';
+
+export interface RequestContext {
+  ipAddress: string | null;
+  userAgent: string | null;
+  // Khóa thiết bị do client giữ: header X-Device-Id (app) hoặc cookie deviceId (web)
+  deviceKey?: string | null;
+  // User-Agent Client Hints (Sec-CH-UA-*, key bỏ tiền tố), chỉ trình duyệt Chromium gửi
+  clientHints?: Record<string, string>;
+}
+
+// Client hints dùng để nhận diện thiết bị
+const CLIENT_HINT_HEADERS = [
+  'sec-ch-ua-mobile',
+  'sec-ch-ua-platform',
+  'sec-ch-ua-platform-version',
+  'sec-ch-ua-model',
+];
+
+/**
+ * Lấy IP, user agent và thông tin thiết bị của client.
+ * IP lấy từ req.ip: Express chỉ đọc X-Forwarded-For qua các proxy trong 'trust proxy'
+ */
+export function extractRequestContext(req: Request): RequestContext {
+  const ipAddress = req.ip || req.socket?.remoteAddress || null;
+
+  const clientHints: Record<string, string> = {};
+  for (const header of CLIENT_HINT_HEADERS) {
+    const value = req.headers[header];
+    if (typeof value === 'string' && value) {
+      clientHints[header.replace('sec-ch-ua-', '')] = value;
+    }
+  }
+
+  const deviceHeader = req.headers['x-device-id'];
+  return {
+    ipAddress,
+    userAgent: req.headers['user-agent'] || null,
+    deviceKey:
+      (typeof deviceHeader === 'string' && deviceHeader) ||
+      req.cookies?.deviceId ||
+      null,
+    clientHints,
+  };
+}
+
+// Request đang xử lý, do RequestContextMiddleware gắn vào cho cả chuỗi async
+const requestStorage = new AsyncLocalStorage<
+  Request & { requester?: Requester }
+>();
+
+export function runWithRequest(req: Request, callback: () => void): void {
+  requestStorage.run(req, callback);
+}
+
+// IP/user agent của request hiện tại; null khi chạy ngoài HTTP (cron, subscriber)
+export function getCurrentRequestContext(): RequestContext | null {
+  const req = requestStorage.getStore();
+  return req ? extractRequestContext(req) : null;
+}
+
+// Requester do guard gắn vào request; chỉ có sau khi guard đã chạy
+export function getCurrentRequester(): Requester | null {
+  return requestStorage.getStore()?.requester ?? null;
+}
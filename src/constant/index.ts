@@ -30,4 +30,12 @@ export class HTTP_CONTROLLER {
   static readonly TEAM = 'team';
   static readonly GROUP = 'group';
   static readonly POSITION = 'position';
+  static readonly SHIFT = 'shift';
+  static readonly ATTENDANCE = 'attendance';
+  static readonly LEAVE_TYPE = 'leave-type';
+  static readonly LEAVE = 'leave';
+  static readonly PRODUCTION = 'production';
+  static readonly APPROVAL = 'approval';
+  static readonly AUDIT_LOG = 'audit-logs';
+  static readonly ANNOUNCEMENT = 'announcements';
 }
@@ -9,18 +9,80 @@ import {
   Post,
   Query,
   Request,
+  StreamableFile,
+  UploadedFile,
   UseGuards,
+  UseInterceptors,
 } from '@nestjs/common';
-import { AppError, ReqWithRequester } from '../../../share';
-import { ICrudService, PagingDTO } from '../interfaces/crud.interface';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Readable } from 'stream';
+import {
+  AppError,
+  IfMatch,
+  parseIfMatch,
+  ReqWithRequester,
+} from '../../../share';
+import {
+  CrudBulkItemResult,
+  CrudBulkResult,
+  ICrudService,
+} from '../interfaces/crud.interface';
 import {
   CrudControllerOptions,
   CrudEndpointType,
+  CrudTransferOptions,
 } from '../interfaces/crud-options.interface';
 import { RemoteAuthGuard } from '../../../share/guard';
 import { UuidZodValidationPipe } from '../../../share/pipes/uuid-validation.pipe';
+import { ZodValidationPipe } from '../../../share/pipes/zod-validation.pipe';
 import { CrudRolesGuard } from '../guards/crud-roles.guard';
+import {
+  CrudEndpoint,
+  CrudEndpointType as CrudEndpointKind,
+} from '../decorators/crud-roles.decorator';
+import { CrudCacheInterceptor } from '../interceptors/crud-cache.interceptor';
 import { CrudValidationPipe } from '../pipes/crud-validation.pipe';
+import {
+  CrudBulkCreateDTO,
+  crudBulkCreateDTOSchema,
+  CrudBulkDeleteDTO,
+  crudBulkDeleteDTOSchema,
+  CrudBulkUpdateDTO,
+  crudBulkUpdateDTOSchema,
+} from '../dto/crud-bulk.dto';
+import {
+  parseCrudListQuery,
+  parseCrudSelection,
+} from '../utils/crud-query.utils';
+import {
+  buildXlsx,
+  CRUD_FILE_CONTENT_TYPES,
+  CrudFileFormat,
+  CrudTableCell,
+  CSV_BOM,
+  parseCsv,
+  parseXlsx,
+  resolveFileFormat,
+  toCsvLine,
+} from '../utils/crud-file.utils';
+import {
+  columnHeader,
+  CrudImportIssue,
+  DEFAULT_CRUD_MAX_EXPORT_ROWS,
+  DEFAULT_CRUD_MAX_IMPORT_FILE_SIZE,
+  DEFAULT_CRUD_MAX_IMPORT_ROWS,
+  exportHeader,
+  readImportTable,
+  toExportRow,
+} from '../utils/crud-transfer.utils';
+
+const DEFAULT_BULK_MAX_ITEMS = 500;
+
+// Multer giữ file trong bộ nhớ: chặn cứng trước khi so với maxFileSize của module
+const CRUD_IMPORT_UPLOAD_LIMIT = 20 * 1024 * 1024;
+
+// Số dòng hợp lệ trả về trong bản xem trước của dry-run
+const IMPORT_PREVIEW_ROWS = 20;
 
 /**
  * Controller cơ sở với các thao tác CRUD
@@ -30,6 +92,8 @@ import { CrudValidationPipe } from '../pipes/crud-validation.pipe';
  * @template F - Filter DTO type
  */
 export abstract class BaseCrudController<T, C, U, F> {
+  protected readonly validationPipe: CrudValidationPipe;
+
   /**
    * Constructor
    * @param service CRUD service
@@ -38,7 +102,10 @@ export abstract class BaseCrudController<T, C, U, F> {
   constructor(
     protected readonly service: ICrudService<T, C, U>,
     protected readonly options: CrudControllerOptions<T, C, U, F>,
-  ) {}
+  ) {
+    // Pipe cần options (dtoValidation) nên được tạo theo từng controller
+    this.validationPipe = new CrudValidationPipe(options);
+  }
 
   /**
    * Tạo mới entity
@@ -46,14 +113,13 @@ export abstract class BaseCrudController<T, C, U, F> {
   @Post()
   @UseGuards(RemoteAuthGuard, CrudRolesGuard)
   @HttpCode(HttpStatus.CREATED)
-  async create(
-    @Body(new CrudValidationPipe()) dto: C,
-    @Request() req: ReqWithRequester,
-  ) {
+  async create(@Body() body: C, @Request() req: ReqWithRequester) {
     if (!this.isEndpointEnabled('create')) {
       throw AppError.from(new Error('Endpoint not available'), 404);
     }
 
+    const dto = await this.validateBody(body, 'create');
+
     try {
       const id = await this.service.createEntity(req.requester, dto);
       return {
@@ -72,38 +138,26 @@ export abstract class BaseCrudController<T, C, U, F> {
    * Lấy danh sách entity
    */
   @Get()
+  @CrudEndpoint(CrudEndpointKind.GET_ALL)
   @UseGuards(RemoteAuthGuard, CrudRolesGuard)
+  @UseInterceptors(CrudCacheInterceptor)
   @HttpCode(HttpStatus.OK)
-  async list(
-    @Query() filter: F,
-    @Query('page') page = 1,
-    @Query('limit') limit = 10,
-    @Query('sortBy') sortBy = 'createdAt',
-    @Query('sortOrder') sortOrder: 'asc' | 'desc' = 'desc',
-    @Request() req: ReqWithRequester,
-  ) {
+  async list(@Query() query: F, @Request() req: ReqWithRequester) {
     if (!this.isEndpointEnabled('getAll')) {
       throw AppError.from(new Error('Endpoint not available'), 404);
     }
 
     try {
-      // Cast and validate order to ensure it's 'asc' or 'desc'
-      const validOrder =
-        sortOrder && ['asc', 'desc'].includes(String(sortOrder).toLowerCase())
-          ? (String(sortOrder).toLowerCase() as 'asc' | 'desc')
-          : 'desc';
-
-      const pagination: PagingDTO = {
-        page: Number(page),
-        limit: Number(limit),
-        sortBy: String(sortBy),
-        sortOrder: validOrder,
-      };
+      const { conditions, pagination } = this.parseListQuery(
+        query,
+        this.options?.query?.defaultSort ?? '-createdAt',
+      );
 
       const result = await this.service.listEntities(
         req.requester,
-        filter,
+        conditions,
         pagination,
+        this.parseSelection(query),
       );
 
       return {
@@ -111,7 +165,7 @@ export abstract class BaseCrudController<T, C, U, F> {
         data: result.data,
         paging: result.paging,
         total: result.total,
-        filter,
+        filter: query,
       };
     } catch (error) {
       if (error instanceof AppError) {
@@ -121,14 +175,389 @@ export abstract class BaseCrudController<T, C, U, F> {
     }
   }
 
+  /**
+   * Đếm số lượng entity
+   * Khai báo trước `:id` để route `count` không bị bắt bởi `:id`
+   */
+  @Get('count')
+  @CrudEndpoint(CrudEndpointKind.COUNT)
+  @UseGuards(RemoteAuthGuard, CrudRolesGuard)
+  @UseInterceptors(CrudCacheInterceptor)
+  @HttpCode(HttpStatus.OK)
+  async count(@Query() query: F, @Request() req: ReqWithRequester) {
+    if (!this.isEndpointEnabled('count')) {
+      throw AppError.from(new Error('Endpoint not available'), 404);
+    }
+
+    try {
+      // Cùng DSL filter với danh sách; phần phân trang bị bỏ qua
+      const { conditions } = this.parseListQuery(query, '-createdAt');
+      const count = await this.service.countEntities(req.requester, conditions);
+      return { success: true, data: { count } };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(error, HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  /**
+   * Lấy danh sách entity trong thùng rác (chỉ khi bật xóa mềm)
+   * Khai báo trước `:id` để route `trash` không bị bắt bởi `:id`
+   */
+  @Get('trash')
+  @CrudEndpoint(CrudEndpointKind.TRASH)
+  @UseGuards(RemoteAuthGuard, CrudRolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async trash(@Query() query: F, @Request() req: ReqWithRequester) {
+    if (!this.isEndpointEnabled('trash')) {
+      throw AppError.from(new Error('Endpoint not available'), 404);
+    }
+
+    try {
+      const { conditions, pagination } = this.parseListQuery(
+        query,
+        '-deletedAt',
+      );
+
+      const result = await this.service.listDeletedEntities(
+        req.requester,
+        conditions,
+        pagination,
+        this.parseSelection(query),
+      );
+
+      return {
+        success: true,
+        data: result.data,
+        paging: result.paging,
+        total: result.total,
+        filter: query,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(error, HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  /**
+   * Export danh sách (cùng bộ lọc/sắp xếp với list) ra CSV hoặc XLSX.
+   * CSV được stream theo từng trang, XLSX phải dựng xong cả file mới gửi
+   */
+  @Get('export')
+  @CrudEndpoint(CrudEndpointKind.EXPORT)
+  @UseGuards(RemoteAuthGuard, CrudRolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async export(
+    @Query() query: F,
+    @Request() req: ReqWithRequester,
+  ): Promise<StreamableFile> {
+    const transfer = this.assertTransferEnabled('export');
+    const { format: formatParam, ...listQuery } = (query ?? {}) as Record<
+      string,
+      any
+    >;
+    const format = resolveFileFormat(formatParam ?? 'csv');
+
+    try {
+      const { conditions, pagination } = this.parseListQuery(
+        listQuery as F,
+        this.options?.query?.defaultSort ?? '-createdAt',
+      );
+      const selection = this.parseSelection(listQuery);
+      const limit = this.options?.query?.maxLimit ?? 100;
+
+      // Trang đầu lấy ngay để lỗi truy vấn vẫn trả JSON như list
+      const first = await this.service.listEntities(
+        req.requester,
+        conditions,
+        { ...pagination, page: 1, limit, cursor: undefined },
+        selection,
+      );
+      const maxRows = transfer.maxExportRows ?? DEFAULT_CRUD_MAX_EXPORT_ROWS;
+      if (first.total > maxRows) {
+        throw AppError.from(
+          new Error(
+            `Export has ${first.total} rows, more than the limit of ${maxRows}; narrow the filter`,
+          ),
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+
+      const service = this.service;
+      async function* pages() {
+        let page = first;
+        yield page.data;
+        while (page.paging.nextCursor && page.data.length > 0) {
+          page = await service.listEntities(
+            req.requester,
+            conditions,
+            { ...pagination, page: 1, limit, cursor: page.paging.nextCursor },
+            selection,
+          );
+          yield page.data;
+        }
+      }
+
+      const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+      const file = {
+        type: CRUD_FILE_CONTENT_TYPES[format],
+        disposition: `attachment; filename="${this.options.entityName}-${date}.${format}"`,
+      };
+      const toRow = (entity: T) =>
+        toExportRow(entity as Record<string, any>, transfer.columns);
+
+      if (format === 'csv') {
+        async function* csv() {
+          yield CSV_BOM + toCsvLine(exportHeader(transfer.columns));
+          for await (const data of pages()) {
+            yield data.map((entity) => toCsvLine(toRow(entity))).join('');
+          }
+        }
+        return new StreamableFile(Readable.from(csv()), file);
+      }
+
+      const rows: CrudTableCell[][] = [exportHeader(transfer.columns)];
+      for await (const data of pages()) {
+        rows.push(...data.map(toRow));
+      }
+      return new StreamableFile(buildXlsx(rows, this.options.entityName), file);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(error, HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  /**
+   * Import file CSV/XLSX (field `file` của multipart): mỗi dòng được validate
+   * như body của create. `dryRun=true` chỉ kiểm tra và trả bản xem trước,
+   * `atomic=true` thì một dòng lỗi là không ghi dòng nào
+   */
+  @Post('import')
+  @CrudEndpoint(CrudEndpointKind.IMPORT)
+  @UseGuards(RemoteAuthGuard, CrudRolesGuard)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: CRUD_IMPORT_UPLOAD_LIMIT } }),
+  )
+  @HttpCode(HttpStatus.OK)
+  async import(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() query: Record<string, any>,
+    @Request() req: ReqWithRequester,
+  ) {
+    const transfer = this.assertTransferEnabled('import');
+    if (!file) {
+      throw AppError.from(
+        new Error('No file uploaded (multipart field "file")'),
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    const maxFileSize =
+      transfer.maxFileSize ?? DEFAULT_CRUD_MAX_IMPORT_FILE_SIZE;
+    if (file.size > maxFileSize) {
+      throw AppError.from(
+        new Error(`File exceeds ${maxFileSize} bytes`),
+        HttpStatus.PAYLOAD_TOO_LARGE,
+      );
+    }
+    const dryRun = query?.dryRun === 'true';
+    const atomic = query?.atomic === 'true';
+
+    const maxRows = transfer.maxImportRows ?? DEFAULT_CRUD_MAX_IMPORT_ROWS;
+    const format: CrudFileFormat = resolveFileFormat(file.originalname);
+    const table =
+      format === 'csv'
+        ? parseCsv(file.buffer)
+        : parseXlsx(file.buffer, maxRows + 1);
+    const { total, rows, issues } = readImportTable(
+      table,
+      transfer.columns,
+      maxRows,
+    );
+
+    const valid: { row: number; dto: C }[] = [];
+    for (const { row, data } of rows) {
+      try {
+        valid.push({ row, dto: await this.validateBody(data as C, 'create') });
+      } catch (error) {
+        issues.push(...this.describeImportError(row, error, transfer));
+      }
+    }
+    issues.sort((a, b) => a.row - b.row);
+
+    if (dryRun) {
+      return {
+        success: true,
+        data: {
+          dryRun: true,
+          total,
+          valid: valid.length,
+          invalid: total - valid.length,
+          errors: issues,
+          preview: valid
+            .slice(0, IMPORT_PREVIEW_ROWS)
+            .map(({ row, dto }) => ({ row, data: dto })),
+        },
+      };
+    }
+
+    if (atomic && issues.length > 0) {
+      throw AppError.from(
+        new Error(
+          `Import rejected: ${total - valid.length} of ${total} rows are invalid`,
+        ),
+        HttpStatus.BAD_REQUEST,
+      ).withDetail('errors', issues);
+    }
+
+    const created: { row: number; id?: string }[] = [];
+    if (valid.length > 0) {
+      try {
+        const result = await this.service.bulkCreateEntities(
+          req.requester,
+          valid.map(({ dto }) => dto),
+          atomic,
+        );
+        for (const item of result.results) {
+          const row = valid[item.index].row;
+          if (item.success) {
+            created.push({ row, id: item.id });
+          } else {
+            issues.push({ row, message: item.error?.message ?? 'Failed' });
+          }
+        }
+      } catch (error) {
+        // atomic: service đã rollback, đổi chỉ số phần tử thành số dòng
+        if (error instanceof AppError) {
+          const results: CrudBulkItemResult[] =
+            error.toJSON().details.results ?? [];
+          const failed = results
+            .filter((item) => !item.success && item.error?.statusCode !== 424)
+            .map((item) => ({
+              row: valid[item.index].row,
+              message: item.error?.message ?? 'Failed',
+            }));
+          if (failed.length === 0) {
+            throw error;
+          }
+          throw AppError.from(
+            new Error(
+              `Import rolled back: row ${failed[0].row} failed: ${failed[0].message}`,
+            ),
+            error.getStatusCode(),
+          ).withDetail('errors', failed);
+        }
+        throw AppError.from(error, HttpStatus.BAD_REQUEST);
+      }
+    }
+    issues.sort((a, b) => a.row - b.row);
+
+    return {
+      success: true,
+      data: {
+        dryRun: false,
+        total,
+        created: created.length,
+        failed: total - created.length,
+        errors: issues,
+        results: created,
+      },
+    };
+  }
+
+  /**
+   * Tạo nhiều entity
+   */
+  @Post('bulk')
+  @CrudEndpoint(CrudEndpointKind.CREATE)
+  @UseGuards(RemoteAuthGuard, CrudRolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async bulkCreate(
+    @Body(new ZodValidationPipe(crudBulkCreateDTOSchema))
+    body: CrudBulkCreateDTO,
+    @Request() req: ReqWithRequester,
+  ) {
+    this.assertBulkEnabled('create', body.items.length);
+
+    const data = await this.runBulk(
+      body.items as unknown as C[],
+      body.atomic,
+      (item) => this.validateBody(item, 'create'),
+      (items) =>
+        this.service.bulkCreateEntities(req.requester, items, body.atomic),
+    );
+    return { success: true, data };
+  }
+
+  /**
+   * Cập nhật nhiều entity
+   */
+  @Patch('bulk')
+  @CrudEndpoint(CrudEndpointKind.UPDATE)
+  @UseGuards(RemoteAuthGuard, CrudRolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async bulkUpdate(
+    @Body(new ZodValidationPipe(crudBulkUpdateDTOSchema))
+    body: CrudBulkUpdateDTO,
+    @Request() req: ReqWithRequester,
+  ) {
+    this.assertBulkEnabled('update', body.items.length);
+    this.assertUniqueIds(body.items.map((item) => item.id));
+
+    const data = await this.runBulk(
+      body.items,
+      body.atomic,
+      async (item) => ({
+        id: item.id,
+        dto: await this.validateBody(item.data as unknown as U, 'update'),
+        version: parseIfMatch(item.version),
+      }),
+      (items) =>
+        this.service.bulkUpdateEntities(req.requester, items, body.atomic),
+    );
+    return { success: true, data };
+  }
+
+  /**
+   * Xóa nhiều entity
+   */
+  @Delete('bulk')
+  @CrudEndpoint(CrudEndpointKind.DELETE)
+  @UseGuards(RemoteAuthGuard, CrudRolesGuard)
+  @HttpCode(HttpStatus.OK)
+  async bulkDelete(
+    @Body(new ZodValidationPipe(crudBulkDeleteDTOSchema))
+    body: CrudBulkDeleteDTO,
+    @Request() req: ReqWithRequester,
+  ) {
+    this.assertBulkEnabled('delete', body.ids.length);
+    this.assertUniqueIds(body.ids);
+
+    const data = await this.runBulk(
+      body.ids,
+      body.atomic,
+      async (id) => id,
+      (ids) => this.service.bulkDeleteEntities(req.requester, ids, body.atomic),
+    );
+    return { success: true, data };
+  }
+
   /**
    * Lấy entity theo ID
    */
   @Get(':id')
+  @CrudEndpoint(CrudEndpointKind.GET_ONE)
   @UseGuards(RemoteAuthGuard, CrudRolesGuard)
+  @UseInterceptors(CrudCacheInterceptor)
   @HttpCode(HttpStatus.OK)
   async getById(
     @Param('id', UuidZodValidationPipe) id: string,
+    @Query() query: Record<string, any>,
     // @Request() req: ReqWithRequester,
   ) {
     if (!this.isEndpointEnabled('getOne')) {
@@ -136,7 +565,10 @@ export abstract class BaseCrudController<T, C, U, F> {
     }
 
     try {
-      const entity = await this.service.getEntity(id);
+      const entity = await this.service.getEntity(
+        id,
+        this.parseSelection(query),
+      );
       return { success: true, data: entity };
     } catch (error) {
       if (error instanceof AppError) {
@@ -154,15 +586,18 @@ export abstract class BaseCrudController<T, C, U, F> {
   @HttpCode(HttpStatus.OK)
   async update(
     @Param('id', UuidZodValidationPipe) id: string,
-    @Body(new CrudValidationPipe()) dto: U,
+    @Body() body: U,
     @Request() req: ReqWithRequester,
+    @IfMatch() expectedVersion?: Date,
   ) {
     if (!this.isEndpointEnabled('update')) {
       throw AppError.from(new Error('Endpoint not available'), 404);
     }
 
+    const dto = await this.validateBody(body, 'update');
+
     try {
-      await this.service.updateEntity(req.requester, id, dto);
+      await this.service.updateEntity(req.requester, id, dto, expectedVersion);
       return {
         success: true,
         message: `${this.options.entityName} updated successfully`,
@@ -204,19 +639,26 @@ export abstract class BaseCrudController<T, C, U, F> {
   }
 
   /**
-   * Đếm số lượng entity
+   * Khôi phục entity đã xóa mềm
    */
-  @Get('count')
+  @Post(':id/restore')
+  @CrudEndpoint(CrudEndpointKind.RESTORE)
   @UseGuards(RemoteAuthGuard, CrudRolesGuard)
   @HttpCode(HttpStatus.OK)
-  async count(@Query() filter: F, @Request() req: ReqWithRequester) {
-    if (!this.isEndpointEnabled('count')) {
+  async restore(
+    @Param('id', UuidZodValidationPipe) id: string,
+    @Request() req: ReqWithRequester,
+  ) {
+    if (!this.isEndpointEnabled('restore')) {
       throw AppError.from(new Error('Endpoint not available'), 404);
     }
 
     try {
-      const count = await this.service.countEntities(req.requester, filter);
-      return { success: true, data: { count } };
+      await this.service.restoreEntity(req.requester, id);
+      return {
+        success: true,
+        message: `${this.options.entityName} restored successfully`,
+      };
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -225,10 +667,215 @@ export abstract class BaseCrudController<T, C, U, F> {
     }
   }
 
+  /**
+   * Validate body theo dtoValidation của controller
+   */
+  protected async validateBody<D>(
+    value: D,
+    operation: 'create' | 'update',
+  ): Promise<D> {
+    return this.validationPipe.transform(value, {
+      type: 'body',
+      data: operation,
+    });
+  }
+
+  /**
+   * Validate từng phần tử rồi chuyển các phần tử hợp lệ cho service.
+   * Chỉ số trong kết quả luôn là vị trí trong mảng client gửi lên
+   */
+  protected async runBulk<I, D>(
+    items: I[],
+    atomic: boolean,
+    prepare: (item: I) => Promise<D>,
+    execute: (prepared: D[]) => Promise<CrudBulkResult>,
+  ): Promise<CrudBulkResult> {
+    const prepared: D[] = [];
+    const positions: number[] = [];
+    const rejected: CrudBulkItemResult[] = [];
+
+    for (const [index, item] of items.entries()) {
+      try {
+        prepared.push(await prepare(item));
+        positions.push(index);
+      } catch (error) {
+        rejected.push({
+          index,
+          success: false,
+          error: { message: this.describeBulkError(error), statusCode: 400 },
+        });
+      }
+    }
+
+    // atomic: một phần tử sai thì không ghi gì cả
+    if (atomic && rejected.length > 0) {
+      const first = rejected[0];
+      throw AppError.from(
+        new Error(
+          `Bulk request rejected: item ${first.index} is invalid: ${first.error?.message}`,
+        ),
+        HttpStatus.BAD_REQUEST,
+      ).withDetail(
+        'results',
+        items.map(
+          (_, index) =>
+            rejected.find((result) => result.index === index) ?? {
+              index,
+              success: false,
+              error: {
+                message: 'Not applied because another item is invalid',
+                statusCode: 424,
+              },
+            },
+        ),
+      );
+    }
+
+    let executed: CrudBulkItemResult[] = [];
+    if (prepared.length > 0) {
+      try {
+        const result = await execute(prepared);
+        executed = result.results.map((itemResult) => ({
+          ...itemResult,
+          index: positions[itemResult.index],
+        }));
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+        throw AppError.from(error, HttpStatus.BAD_REQUEST);
+      }
+    }
+
+    const results = [...executed, ...rejected].sort(
+      (a, b) => a.index - b.index,
+    );
+    const succeeded = results.filter((result) => result.success).length;
+    return {
+      atomic,
+      total: items.length,
+      succeeded,
+      failed: items.length - succeeded,
+      results,
+    };
+  }
+
+  /**
+   * Bulk dùng chung cấu hình bật/tắt và vai trò với endpoint đơn lẻ tương ứng
+   */
+  protected assertBulkEnabled(
+    endpoint: 'create' | 'update' | 'delete',
+    count: number,
+  ): void {
+    if (
+      !this.isEndpointEnabled(endpoint) ||
+      this.options?.bulk?.enabled === false
+    ) {
+      throw AppError.from(new Error('Endpoint not available'), 404);
+    }
+
+    const maxItems = this.options?.bulk?.maxItems ?? DEFAULT_BULK_MAX_ITEMS;
+    if (count > maxItems) {
+      throw AppError.from(
+        new Error(`Bulk request exceeds ${maxItems} items`),
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  // Cùng một id hai lần trong một request thì kết quả phụ thuộc thứ tự, từ chối luôn
+  protected assertUniqueIds(ids: string[]): void {
+    const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+    if (duplicates.length > 0) {
+      throw AppError.from(
+        new Error(
+          `Duplicate ids in bulk request: ${[...new Set(duplicates)].join(', ')}`,
+        ),
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * Import/export chỉ có khi module cấu hình `transfer`
+   */
+  protected assertTransferEnabled(
+    endpoint: 'export' | 'import',
+  ): CrudTransferOptions {
+    const transfer = this.options?.transfer;
+    if (!transfer || !this.isEndpointEnabled(endpoint)) {
+      throw AppError.from(new Error('Endpoint not available'), 404);
+    }
+    return transfer;
+  }
+
+  // Lỗi validate của một dòng import, field được đổi thành tiêu đề cột trong file
+  private describeImportError(
+    row: number,
+    error: any,
+    transfer: CrudTransferOptions,
+  ): CrudImportIssue[] {
+    const errors = error?.getResponse?.()?.errors;
+    if (!Array.isArray(errors) || errors.length === 0) {
+      return [{ row, message: error?.message ?? String(error) }];
+    }
+    return errors.map((err: { field: string; message: string }) => {
+      const field = err.field?.split('.')[0];
+      const column = transfer.columns.find((col) => col.field === field);
+      return {
+        row,
+        column: column ? columnHeader(column) : err.field || undefined,
+        message: err.message,
+      };
+    });
+  }
+
+  // Lỗi validate của CrudValidationPipe là BadRequestException kèm danh sách field
+  private describeBulkError(error: any): string {
+    const response = error?.getResponse?.();
+    if (Array.isArray(response?.errors) && response.errors.length > 0) {
+      return response.errors
+        .map((err: { field: string; message: string }) =>
+          err.field ? `${err.field}: ${err.message}` : err.message,
+        )
+        .join('; ');
+    }
+    return error?.message ?? String(error);
+  }
+
+  /**
+   * Parse filter/sort/cursor theo whitelist `query` của controller
+   */
+  protected parseListQuery(query: F, defaultSort: string) {
+    return parseCrudListQuery(
+      query as Record<string, any>,
+      this.options?.query,
+      defaultSort,
+    );
+  }
+
+  /**
+   * Parse `fields`/`include` theo allowlist `selection` của module
+   */
+  protected parseSelection(query: unknown) {
+    return parseCrudSelection(
+      query as Record<string, any>,
+      this.options?.selection,
+    );
+  }
+
   /**
    * Kiểm tra xem endpoint có được bật không
    */
   protected isEndpointEnabled(endpoint: string): boolean {
+    // Thùng rác và khôi phục chỉ có khi module bật xóa mềm
+    if (
+      (endpoint === 'restore' || endpoint === 'trash') &&
+      !this.options?.softDelete
+    ) {
+      return false;
+    }
+
     if (!this.options?.endpoints) {
       return true;
     }
@@ -241,6 +888,10 @@ export abstract class BaseCrudController<T, C, U, F> {
       'update',
       'delete',
       'count',
+      'restore',
+      'trash',
+      'export',
+      'import',
     ];
     if (validEndpoints.includes(endpoint)) {
       const endpointConfig =
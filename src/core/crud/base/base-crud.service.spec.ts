@@ -0,0 +1,212 @@
+import { AppError, Requester, UserRole } from '../../../share';
+import { BaseCrudService } from './base-crud.service';
+
+interface Item {
+  id: string;
+  code: string;
+  updatedAt: Date;
+}
+
+// Repository trong bộ nhớ; transaction khôi phục dữ liệu khi callback lỗi
+class ItemRepository {
+  items = new Map<string, Item>();
+  private sequence = 0;
+
+  async get(id: string) {
+    return this.items.get(id) ?? null;
+  }
+
+  async findByCond(conditions: Partial<Item>) {
+    return (
+      [...this.items.values()].find((item) => item.code === conditions.code) ??
+      null
+    );
+  }
+
+  async insert(dto: { code: string }) {
+    const id = `item-${++this.sequence}`;
+    this.items.set(id, { id, code: dto.code, updatedAt: new Date() });
+    return id;
+  }
+
+  async update(id: string, dto: Partial<Item>) {
+    this.items.set(id, { ...this.items.get(id)!, ...dto });
+  }
+
+  async delete(id: string) {
+    this.items.delete(id);
+  }
+
+  async transaction<R>(fn: () => Promise<R>) {
+    const snapshot = new Map(this.items);
+    try {
+      return await fn();
+    } catch (error) {
+      this.items = snapshot;
+      throw error;
+    }
+  }
+}
+
+class ItemService extends BaseCrudService<Item, any, any> {
+  protected getUniqueFields(): string[] {
+    return ['code'];
+  }
+}
+
+describe('BaseCrudService bulk operations', () => {
+  const admin = { sub: 'admin-1', role: UserRole.ADMIN } as Requester;
+  const auditLogger = { log: jest.fn() };
+  let repository: ItemRepository;
+  let service: ItemService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    repository = new ItemRepository();
+    service = Object.assign(new ItemService('Item', repository as any), {
+      auditLogger,
+    });
+    await repository.insert({ code: 'EXISTING' });
+  });
+
+  it('applies the valid items and reports the failed ones', async () => {
+    const result = await service.bulkCreateEntities(
+      admin,
+      [{ code: 'A' }, { code: 'EXISTING' }, { code: 'B' }],
+      false,
+    );
+
+    expect(result).toMatchObject({
+      atomic: false,
+      total: 3,
+      succeeded: 2,
+      failed: 1,
+    });
+    expect(result.results[1]).toEqual({
+      index: 1,
+      success: false,
+      error: {
+        message: "Item with code 'EXISTING' already exists",
+        statusCode: 400,
+      },
+    });
+    expect(repository.items.size).toBe(3);
+    expect(auditLogger.log).toHaveBeenCalledTimes(2);
+  });
+
+  it('rolls back every item when one fails in atomic mode', async () => {
+    const error = (await service
+      .bulkCreateEntities(
+        admin,
+        [{ code: 'A' }, { code: 'EXISTING' }, { code: 'B' }],
+        true,
+      )
+      .catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(400);
+    expect(error.message).toContain('Bulk create rolled back: item 1 failed');
+    expect(error.toJSON().details.results).toEqual([
+      {
+        index: 0,
+        success: false,
+        error: {
+          message: 'Not applied because item 1 failed',
+          statusCode: 424,
+        },
+      },
+      expect.objectContaining({ index: 1, success: false }),
+      expect.objectContaining({ index: 2, success: false }),
+    ]);
+    expect(repository.items.size).toBe(1);
+    expect(auditLogger.log).not.toHaveBeenCalled();
+  });
+
+  it('audits atomic items only after all of them were applied', async () => {
+    const result = await service.bulkCreateEntities(
+      admin,
+      [{ code: 'A' }, { code: 'B' }],
+      true,
+    );
+
+    expect(result).toMatchObject({ atomic: true, succeeded: 2, failed: 0 });
+    expect(auditLogger.log).toHaveBeenCalledTimes(2);
+    expect(auditLogger.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'CREATE', entityType: 'Item' }),
+    );
+  });
+
+  it('rejects updates made against a stale version', async () => {
+    const current = repository.items.get('item-1')!;
+
+    const result = await service.bulkUpdateEntities(
+      admin,
+      [
+        {
+          id: 'item-1',
+          dto: { code: 'NEW' },
+          version: new Date(current.updatedAt.getTime() - 1000),
+        },
+      ],
+      false,
+    );
+
+    expect(result.results[0]).toMatchObject({
+      success: false,
+      error: { statusCode: 412 },
+    });
+    expect(repository.items.get('item-1')!.code).toBe('EXISTING');
+  });
+
+  it('deletes the existing items and reports the missing ones', async () => {
+    const result = await service.bulkDeleteEntities(
+      admin,
+      ['item-1', 'item-9'],
+      false,
+    );
+
+    expect(result.results).toEqual([
+      { index: 0, id: 'item-1', success: true },
+      {
+        index: 1,
+        success: false,
+        error: { message: 'Item not found', statusCode: 404 },
+      },
+    ]);
+    expect(repository.items.size).toBe(0);
+    expect(auditLogger.log).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'DELETE', entityId: 'item-1' }),
+    );
+  });
+});
+
+describe('BaseCrudService cache invalidation', () => {
+  const admin = { sub: 'admin-1', role: UserRole.ADMIN } as Requester;
+  const cacheService = { set: jest.fn() };
+  let service: ItemService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = Object.assign(
+      new ItemService('Item', new ItemRepository() as any),
+      { cacheService },
+    );
+  });
+
+  it('bumps the entity tag after a write', async () => {
+    const id = await service.createEntity(admin, { code: 'A' });
+    await service.deleteEntity(admin, id);
+
+    expect(cacheService.set).toHaveBeenCalledTimes(2);
+    expect(cacheService.set).toHaveBeenCalledWith(
+      'crud:cache:tag:Item',
+      expect.any(String),
+      expect.any(Number),
+    );
+  });
+
+  it('keeps the cache when a bulk operation applied nothing', async () => {
+    await service.bulkDeleteEntities(admin, ['item-9'], false);
+
+    expect(cacheService.set).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,19 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { AppError, Paginated, Requester, UserRole } from '../../../share';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import {
+  AppError,
+  assertVersion,
+  Paginated,
+  Requester,
+  UserRole,
+} from '../../../share';
+import { REDIS_CACHE_SERVICE } from '../../../common/redis/redis.constants';
+import { RedisCacheService } from '../../../common/redis/redis-cache.service';
+import { AUDIT_LOGGER } from '../../../share/di-token';
+import { IAuditLogger } from '../../../share/interface';
+import {
+  CrudBulkItemResult,
+  CrudBulkResult,
+  CrudSelection,
   ICrudRepository,
   ICrudService,
   PagingDTO,
@@ -10,6 +23,10 @@ import {
   CrudControllerOptions,
   CrudEndpointType,
 } from '../interfaces/crud-options.interface';
+import { invalidateCrudCache } from '../utils/crud-cache.utils';
+
+// Bulk atomic chạy tuần tự nhiều phần tử trong một transaction
+const BULK_TRANSACTION_TIMEOUT_MS = 120_000;
 
 /**
  * Lớp Service cơ sở triển khai các thao tác CRUD chung
@@ -25,6 +42,16 @@ export abstract class BaseCrudService<T, C, U>
   // Tạo một bản sao có thể thay đổi của options
   private _options?: CrudControllerOptions<T, C, U>;
 
+  // Property injection để lớp con không phải khai báo lại trong constructor
+  @Optional()
+  @Inject(AUDIT_LOGGER)
+  protected readonly auditLogger?: IAuditLogger;
+
+  // Cache response của controller (CrudCacheInterceptor), mất hiệu lực khi ghi
+  @Optional()
+  @Inject(REDIS_CACHE_SERVICE)
+  protected readonly cacheService?: RedisCacheService;
+
   /**
    * Constructor
    * @param entityName Tên của entity
@@ -44,8 +71,8 @@ export abstract class BaseCrudService<T, C, U>
   /**
    * Lấy entity theo ID
    */
-  async getEntity(id: string): Promise<T> {
-    const entity = await this.repository.get(id);
+  async getEntity(id: string, selection?: CrudSelection): Promise<T> {
+    const entity = await this.repository.get(id, selection);
     if (!entity) {
       throw AppError.from(new Error(`${this.entityName} not found`), 404);
     }
@@ -66,10 +93,73 @@ export abstract class BaseCrudService<T, C, U>
     requester: Requester,
     conditions: any,
     pagination: PagingDTO,
+    selection?: CrudSelection,
+  ): Promise<Paginated<T>> {
+    return this.listWithHooks(
+      requester,
+      conditions,
+      pagination,
+      'read',
+      (cond, paging) => this.repository.list(cond, paging, selection),
+    );
+  }
+
+  /**
+   * Lấy danh sách entity trong thùng rác
+   */
+  async listDeletedEntities(
+    requester: Requester,
+    conditions: any,
+    pagination: PagingDTO,
+    selection?: CrudSelection,
+  ): Promise<Paginated<T>> {
+    return this.listWithHooks(
+      requester,
+      conditions,
+      pagination,
+      'trash',
+      (cond, paging) => this.repository.listDeleted(cond, paging, selection),
+    );
+  }
+
+  /**
+   * Khôi phục entity đã xóa mềm
+   */
+  async restoreEntity(requester: Requester, id: string): Promise<void> {
+    try {
+      // Entity đang trong thùng rác nên không kiểm tra quyền sở hữu qua repository.get
+      await this.checkPermission(requester, 'restore');
+
+      await this.repository.restore(id);
+      await this.invalidateCache();
+
+      const entity = await this.repository.get(id);
+
+      this.logEvent('Restored', id, requester);
+      await this.audit('RESTORE', id, requester, null, entity);
+    } catch (error) {
+      this.handleError(
+        error,
+        `Error restoring ${this.entityName} ${id}`,
+        error instanceof AppError ? error.getStatusCode() : 400,
+      );
+    }
+  }
+
+  /**
+   * Danh sách có phân trang, áp dụng hook beforeList/afterList
+   */
+  private async listWithHooks(
+    requester: Requester,
+    conditions: any,
+    pagination: PagingDTO,
+    action: 'read' | 'trash',
+    fetch: (conditions: any, pagination: PagingDTO) => Promise<Paginated<T>>,
   ): Promise<Paginated<T>> {
     try {
       // Apply default pagination values if not provided
-      const paging = {
+      const paging: PagingDTO = {
+        ...pagination,
         page: pagination.page || 1,
         limit: pagination.limit || 10,
         sortBy: pagination.sortBy || 'createdAt',
@@ -77,7 +167,7 @@ export abstract class BaseCrudService<T, C, U>
       };
 
       // Check permissions if needed
-      await this.checkPermission(requester, 'read');
+      await this.checkPermission(requester, action);
 
       // Apply hooks if available
       if (this._options?.hooks?.beforeList) {
@@ -91,10 +181,12 @@ export abstract class BaseCrudService<T, C, U>
         paging.limit = hookResult.pagination.limit || paging.limit;
         paging.sortBy = hookResult.pagination.sortBy || paging.sortBy;
         paging.sortOrder = hookResult.pagination.sortOrder || paging.sortOrder;
+        paging.sort = hookResult.pagination.sort || paging.sort;
+        paging.cursor = hookResult.pagination.cursor ?? paging.cursor;
       }
 
       // Get data from repository
-      let result = await this.repository.list(conditions, paging);
+      let result = await fetch(conditions, paging);
 
       // Apply after hook if available
       if (this._options?.hooks?.afterList) {
@@ -116,28 +208,12 @@ export abstract class BaseCrudService<T, C, U>
    */
   async createEntity(requester: Requester, dto: C): Promise<string> {
     try {
-      // Validate user permissions
-      await this.validateCreate(requester, dto);
-
-      // Apply before create hook if available
-      let processedDto = dto;
-      if (this._options?.hooks?.beforeCreate) {
-        processedDto = await this._options.hooks.beforeCreate(dto, requester);
-      }
-
-      // Create entity in repository
-      const id = await this.repository.insert(processedDto);
-
-      // Apply after create hook if available
-      if (this._options?.hooks?.afterCreate) {
-        const entity = await this.repository.get(id);
-        if (entity) {
-          await this._options.hooks.afterCreate(entity, id, requester);
-        }
-      }
+      const { id, entity } = await this.createOne(requester, dto);
+      await this.invalidateCache();
 
       // Log the event
       this.logEvent('Created', id, requester);
+      await this.audit('CREATE', id, requester, null, entity);
 
       return id;
     } catch (error) {
@@ -152,37 +228,24 @@ export abstract class BaseCrudService<T, C, U>
   /**
    * Cập nhật entity
    */
-  async updateEntity(requester: Requester, id: string, dto: U): Promise<void> {
+  async updateEntity(
+    requester: Requester,
+    id: string,
+    dto: U,
+    expectedVersion?: Date,
+  ): Promise<void> {
     try {
-      // Get existing entity
-      const entity = await this.getEntity(id);
-
-      // Validate permissions
-      await this.validateUpdate(requester, entity, dto);
-
-      // Apply before update hook if available
-      let processedDto = dto;
-      if (this._options?.hooks?.beforeUpdate) {
-        processedDto = await this._options.hooks.beforeUpdate(
-          id,
-          dto,
-          requester,
-        );
-      }
-
-      // Update entity
-      await this.repository.update(id, processedDto as unknown as Partial<T>);
-
-      // Apply after update hook if available
-      if (this._options?.hooks?.afterUpdate) {
-        const updatedEntity = await this.repository.get(id);
-        if (updatedEntity) {
-          await this._options.hooks.afterUpdate(updatedEntity, requester);
-        }
-      }
+      const { before, after } = await this.updateOne(
+        requester,
+        id,
+        dto,
+        expectedVersion,
+      );
+      await this.invalidateCache();
 
       // Log event
       this.logEvent('Updated', id, requester);
+      await this.audit('UPDATE', id, requester, before, after);
     } catch (error) {
       this.handleError(
         error,
@@ -197,36 +260,12 @@ export abstract class BaseCrudService<T, C, U>
    */
   async deleteEntity(requester: Requester, id: string): Promise<void> {
     try {
-      // Get existing entity
-      const entity = await this.getEntity(id);
-
-      // Validate permissions
-      await this.validateDelete(requester, entity);
-
-      // Apply before delete hook if available
-      if (this._options?.hooks?.beforeDelete) {
-        const shouldProceed = await this._options.hooks.beforeDelete(
-          id,
-          requester,
-        );
-        if (!shouldProceed) {
-          throw AppError.from(
-            new Error(`Delete operation cancelled by hook`),
-            400,
-          );
-        }
-      }
-
-      // Delete entity
-      await this.repository.delete(id);
-
-      // Apply after delete hook if available
-      if (this._options?.hooks?.afterDelete) {
-        await this._options.hooks.afterDelete(id, requester);
-      }
+      const entity = await this.deleteOne(requester, id);
+      await this.invalidateCache();
 
       // Log event
       this.logEvent('Deleted', id, requester);
+      await this.audit('DELETE', id, requester, entity, null);
     } catch (error) {
       this.handleError(
         error,
@@ -236,6 +275,294 @@ export abstract class BaseCrudService<T, C, U>
     }
   }
 
+  /**
+   * Tạo nhiều entity; mỗi phần tử đi qua cùng validate và hook như createEntity
+   */
+  async bulkCreateEntities(
+    requester: Requester,
+    items: C[],
+    atomic: boolean,
+  ): Promise<CrudBulkResult> {
+    return this.runBulk('create', requester, items, atomic, async (dto) => {
+      const { id, entity } = await this.createOne(requester, dto);
+      return {
+        id,
+        audit: () => this.audit('CREATE', id, requester, null, entity),
+      };
+    });
+  }
+
+  /**
+   * Cập nhật nhiều entity; mỗi phần tử đi qua cùng validate và hook như updateEntity
+   */
+  async bulkUpdateEntities(
+    requester: Requester,
+    items: { id: string; dto: U; version?: Date }[],
+    atomic: boolean,
+  ): Promise<CrudBulkResult> {
+    return this.runBulk(
+      'update',
+      requester,
+      items,
+      atomic,
+      async ({ id, dto, version }) => {
+        const { before, after } = await this.updateOne(
+          requester,
+          id,
+          dto,
+          version,
+        );
+        return {
+          id,
+          audit: () => this.audit('UPDATE', id, requester, before, after),
+        };
+      },
+    );
+  }
+
+  /**
+   * Xóa nhiều entity; mỗi phần tử đi qua cùng validate và hook như deleteEntity
+   */
+  async bulkDeleteEntities(
+    requester: Requester,
+    ids: string[],
+    atomic: boolean,
+  ): Promise<CrudBulkResult> {
+    return this.runBulk('delete', requester, ids, atomic, async (id) => {
+      const entity = await this.deleteOne(requester, id);
+      return {
+        id,
+        audit: () => this.audit('DELETE', id, requester, entity, null),
+      };
+    });
+  }
+
+  /**
+   * Validate, hook và ghi một entity mới (chưa log/audit)
+   */
+  protected async createOne(
+    requester: Requester,
+    dto: C,
+  ): Promise<{ id: string; entity: T | null }> {
+    // Validate user permissions
+    await this.validateCreate(requester, dto);
+
+    // Apply before create hook if available
+    let processedDto = dto;
+    if (this._options?.hooks?.beforeCreate) {
+      processedDto = await this._options.hooks.beforeCreate(dto, requester);
+    }
+
+    // Create entity in repository
+    const id = await this.repository.insert(processedDto);
+
+    // Apply after create hook if available
+    const entity = await this.repository.get(id);
+    if (entity && this._options?.hooks?.afterCreate) {
+      await this._options.hooks.afterCreate(entity, id, requester);
+    }
+
+    return { id, entity };
+  }
+
+  /**
+   * Validate, hook và cập nhật một entity (chưa log/audit)
+   */
+  protected async updateOne(
+    requester: Requester,
+    id: string,
+    dto: U,
+    expectedVersion?: Date,
+  ): Promise<{ before: T; after: T | null }> {
+    // Get existing entity
+    const entity = await this.getEntity(id);
+    assertVersion(
+      this.entityName,
+      (entity as { updatedAt?: Date }).updatedAt,
+      expectedVersion,
+    );
+
+    // Validate permissions
+    await this.validateUpdate(requester, entity, dto);
+
+    // Apply before update hook if available
+    let processedDto = dto;
+    if (this._options?.hooks?.beforeUpdate) {
+      processedDto = await this._options.hooks.beforeUpdate(id, dto, requester);
+    }
+
+    // Update entity
+    await this.repository.update(id, processedDto as unknown as Partial<T>, {
+      expectedUpdatedAt: expectedVersion,
+    });
+
+    // Apply after update hook if available
+    const updatedEntity = await this.repository.get(id);
+    if (updatedEntity && this._options?.hooks?.afterUpdate) {
+      await this._options.hooks.afterUpdate(updatedEntity, requester);
+    }
+
+    return { before: entity, after: updatedEntity };
+  }
+
+  /**
+   * Validate, hook và xóa một entity (chưa log/audit); trả về entity trước khi xóa
+   */
+  protected async deleteOne(requester: Requester, id: string): Promise<T> {
+    // Get existing entity
+    const entity = await this.getEntity(id);
+
+    // Validate permissions
+    await this.validateDelete(requester, entity);
+
+    // Apply before delete hook if available
+    if (this._options?.hooks?.beforeDelete) {
+      const shouldProceed = await this._options.hooks.beforeDelete(
+        id,
+        requester,
+      );
+      if (!shouldProceed) {
+        throw AppError.from(
+          new Error(`Delete operation cancelled by hook`),
+          400,
+        );
+      }
+    }
+
+    // Delete entity
+    await this.repository.delete(id);
+
+    // Apply after delete hook if available
+    if (this._options?.hooks?.afterDelete) {
+      await this._options.hooks.afterDelete(id, requester);
+    }
+
+    return entity;
+  }
+
+  /**
+   * Chạy thao tác bulk tuần tự theo thứ tự gửi lên.
+   * - partial: phần tử lỗi không ảnh hưởng phần tử khác
+   * - atomic: chạy trong một transaction, một phần tử lỗi thì rollback tất cả
+   *   và trả lỗi kèm kết quả từng phần tử trong details.results
+   * Audit chỉ ghi sau khi dữ liệu đã commit
+   */
+  private async runBulk<I>(
+    action: 'create' | 'update' | 'delete',
+    requester: Requester,
+    items: I[],
+    atomic: boolean,
+    perform: (item: I) => Promise<{ id: string; audit: () => Promise<void> }>,
+  ): Promise<CrudBulkResult> {
+    let results: CrudBulkItemResult[] = [];
+    let audits: (() => Promise<void>)[] = [];
+
+    const runItem = async (item: I, index: number) => {
+      const { id, audit } = await perform(item);
+      results.push({ index, id, success: true });
+      audits.push(audit);
+    };
+
+    if (atomic) {
+      let failure: { index: number; error: any } | null = null;
+      try {
+        await this.repository.transaction(
+          async () => {
+            // transaction() có thể chạy lại callback khi gặp lỗi tạm thời
+            results = [];
+            audits = [];
+            failure = null;
+            for (const [index, item] of items.entries()) {
+              try {
+                await runItem(item, index);
+              } catch (error) {
+                failure = { index, error };
+                throw error;
+              }
+            }
+          },
+          { timeout: BULK_TRANSACTION_TIMEOUT_MS },
+        );
+      } catch (error) {
+        const failed = failure ?? { index: -1, error };
+        const cause = this.toBulkError(failed.error);
+        this.logger.warn(
+          `Bulk ${action} ${this.entityName} rolled back at item ${failed.index}: ${cause.message}`,
+        );
+        throw AppError.from(
+          new Error(
+            failed.index >= 0
+              ? `Bulk ${action} rolled back: item ${failed.index} failed: ${cause.message}`
+              : `Bulk ${action} rolled back: ${cause.message}`,
+          ),
+          cause.statusCode,
+        ).withDetail(
+          'results',
+          items.map((_, index) =>
+            index === failed.index
+              ? { index, success: false, error: cause }
+              : {
+                  index,
+                  success: false,
+                  error: {
+                    message: `Not applied because item ${failed.index} failed`,
+                    statusCode: 424,
+                  },
+                },
+          ),
+        );
+      }
+    } else {
+      for (const [index, item] of items.entries()) {
+        try {
+          await runItem(item, index);
+        } catch (error) {
+          results.push({
+            index,
+            success: false,
+            error: this.toBulkError(error),
+          });
+        }
+      }
+    }
+
+    if (audits.length > 0) {
+      await this.invalidateCache();
+    }
+    for (const result of results) {
+      if (result.success && result.id) {
+        this.logEvent(`Bulk ${action}d`, result.id, requester);
+      }
+    }
+    for (const audit of audits) {
+      await audit();
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    return {
+      atomic,
+      total: items.length,
+      succeeded,
+      failed: items.length - succeeded,
+      results,
+    };
+  }
+
+  // Lỗi của một phần tử bulk, map status giống handleError của thao tác đơn lẻ
+  private toBulkError(error: any): { message: string; statusCode: number } {
+    if (error instanceof AppError) {
+      return { message: error.message, statusCode: error.getStatusCode() };
+    }
+    try {
+      this.handleError(error, `Error processing ${this.entityName}`);
+    } catch (mapped) {
+      if (mapped instanceof AppError) {
+        return { message: mapped.message, statusCode: mapped.getStatusCode() };
+      }
+    }
+    return { message: String(error?.message ?? error), statusCode: 400 };
+  }
+
   /**
    * Đếm số lượng entity
    */
@@ -447,7 +774,7 @@ export abstract class BaseCrudService<T, C, U>
    */
   protected async checkPermission(
     requester: Requester,
-    action: 'create' | 'read' | 'update' | 'delete',
+    action: 'create' | 'read' | 'update' | 'delete' | 'restore' | 'trash',
     entityId?: string,
   ): Promise<void> {
     const role = requester.role ?? UserRole.USER; // Fallback to USER role if undefined
@@ -511,7 +838,7 @@ export abstract class BaseCrudService<T, C, U>
    * Maps CRUD actions to endpoint types for permission checking
    */
   private mapActionToEndpoint(
-    action: 'create' | 'read' | 'update' | 'delete',
+    action: 'create' | 'read' | 'update' | 'delete' | 'restore' | 'trash',
   ): CrudEndpointType {
     switch (action) {
       case 'create':
@@ -522,6 +849,10 @@ export abstract class BaseCrudService<T, C, U>
         return 'update';
       case 'delete':
         return 'delete';
+      case 'restore':
+        return 'restore';
+      case 'trash':
+        return 'trash';
       default:
         return 'getAll';
     }
@@ -542,6 +873,33 @@ export abstract class BaseCrudService<T, C, U>
     );
   }
 
+  /**
+   * Làm mất cache response của entity sau khi ghi
+   */
+  protected async invalidateCache(): Promise<void> {
+    await invalidateCrudCache(this.cacheService, this.entityName);
+  }
+
+  /**
+   * Ghi audit log (before/after) nếu AuditModule được nạp
+   */
+  protected async audit(
+    action: 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE',
+    entityId: string,
+    requester: Requester,
+    before: T | null,
+    after: T | null,
+  ): Promise<void> {
+    await this.auditLogger?.log({
+      actor: requester,
+      action,
+      entityType: this.entityName,
+      entityId,
+      before,
+      after,
+    });
+  }
+
   /**
    * Xử lý lỗi thống nhất với context nâng cao
    * Enhanced with better error categorization and more context
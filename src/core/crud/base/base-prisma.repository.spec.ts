@@ -0,0 +1,147 @@
+import { Prisma } from '@prisma/client';
+import { AppError } from '../../../share';
+import { BasePrismaRepository } from './base-prisma.repository';
+
+class ItemRepository extends BasePrismaRepository<any, any, any> {
+  protected _toModel(data: any) {
+    return data;
+  }
+
+  protected _conditionsToWhereClause(conditions: any) {
+    return conditions;
+  }
+}
+
+const prismaError = (code: string) =>
+  new Prisma.PrismaClientKnownRequestError(code, {
+    code,
+    clientVersion: Prisma.prismaVersion.client,
+  });
+
+describe('BasePrismaRepository soft delete', () => {
+  const model = {
+    $name: 'Item',
+    fields: {},
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    count: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  // crudOptions được inject qua property nên gán trực tiếp
+  const createRepository = (softDelete?: object) =>
+    Object.assign(new ItemRepository('Item', model, {} as any), {
+      crudOptions: { softDelete },
+    });
+
+  let repository: ItemRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = createRepository({ retentionDays: 7 });
+    model.findFirst.mockResolvedValue({ id: 'item-1' });
+    model.findMany.mockResolvedValue([]);
+    model.count.mockResolvedValue(0);
+  });
+
+  it('moves deleted records to the trash instead of removing them', async () => {
+    await repository.delete('item-1');
+
+    expect(model.update).toHaveBeenCalledWith({
+      where: { id: 'item-1' },
+      data: { deletedAt: expect.any(Date) },
+    });
+    expect(model.delete).not.toHaveBeenCalled();
+  });
+
+  it('hides trashed records from get, list and count', async () => {
+    await repository.get('item-1');
+    await repository.list({ name: 'a' }, { page: 1, limit: 10 } as any);
+    await repository.count({ name: 'a' });
+
+    expect(model.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'item-1', deletedAt: null } }),
+    );
+    expect(model.count).toHaveBeenCalledWith({
+      where: { name: 'a', deletedAt: null },
+    });
+  });
+
+  it('lists only trashed records in the trash', async () => {
+    await repository.listDeleted({ name: 'a' }, { page: 1, limit: 10 } as any);
+
+    expect(model.count).toHaveBeenCalledWith({
+      where: { name: 'a', deletedAt: { not: null } },
+    });
+  });
+
+  it('does not delete a record that is already in the trash', async () => {
+    model.findFirst.mockResolvedValue(null);
+
+    const error = (await repository
+      .delete('item-1')
+      .catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(404);
+    expect(model.update).not.toHaveBeenCalled();
+  });
+
+  it('restores a trashed record only once', async () => {
+    model.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await repository.restore('item-1');
+    const error = (await repository
+      .restore('item-1')
+      .catch((e) => e)) as AppError;
+
+    expect(model.updateMany).toHaveBeenCalledWith({
+      where: { id: 'item-1', deletedAt: { not: null } },
+      data: { deletedAt: null },
+    });
+    expect(error.getStatusCode()).toBe(404);
+  });
+
+  it('reports a unique conflict when restoring over a newer record', async () => {
+    model.updateMany.mockRejectedValue(prismaError('P2002'));
+
+    const error = (await repository
+      .restore('item-1')
+      .catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(409);
+  });
+
+  it('purges old trashed records and skips ones still referenced', async () => {
+    const before = new Date('2026-10-01T00:00:00Z');
+    model.findMany.mockResolvedValue([{ id: 'item-1' }, { id: 'item-2' }]);
+    model.delete
+      .mockRejectedValueOnce(prismaError('P2003'))
+      .mockResolvedValueOnce({});
+
+    await expect(repository.purgeDeleted(before)).resolves.toBe(1);
+    expect(model.findMany).toHaveBeenCalledWith({
+      where: { deletedAt: { lt: before } },
+      select: { id: true },
+    });
+  });
+
+  it('keeps hard delete and rejects trash actions when soft delete is off', async () => {
+    repository = createRepository();
+
+    await repository.delete('item-1');
+    const error = (await repository
+      .restore('item-1')
+      .catch((e) => e)) as AppError;
+
+    expect(model.delete).toHaveBeenCalledWith({ where: { id: 'item-1' } });
+    expect(model.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'item-1' } }),
+    );
+    expect(error.getStatusCode()).toBe(400);
+    await expect(repository.purgeDeleted(new Date())).resolves.toBe(0);
+  });
+});
@@ -1,7 +1,30 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { AppError, Paginated } from '../../../share';
-import { ICrudRepository, PagingDTO } from '../interfaces/crud.interface';
-import { PrismaClient } from '@prisma/client';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+import { AppError, Paginated, preconditionFailed } from '../../../share';
+import {
+  CrudSelection,
+  ICrudRepository,
+  PagingDTO,
+} from '../interfaces/crud.interface';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { CRUD_OPTIONS } from '../decorators/crud-endpoint.decorator';
+import {
+  CrudControllerOptions,
+  SoftDeleteOptions,
+} from '../interfaces/crud-options.interface';
+import {
+  cursorToWhere,
+  encodeCursor,
+  filtersToWhere,
+  pickSelected,
+  resolveSort,
+  selectionToPrismaArgs,
+  sortToOrderBy,
+} from '../utils/crud-query.utils';
+
+// Transaction client của transaction() đang chạy, dùng chung cho mọi repository
+// trong cùng chuỗi async (vd. hook afterCreate ghi sang bảng khác)
+const transactionStorage = new AsyncLocalStorage<any>();
 
 /**
  * Lớp Repository cơ sở cho Prisma, triển khai các thao tác CRUD cơ bản
@@ -15,7 +38,13 @@ export abstract class BasePrismaRepository<T, C, U>
 {
   protected readonly logger: Logger;
   protected readonly entityName: string;
-  protected readonly prismaModel: any;
+  private readonly _prismaModel: any;
+  private _nullableFields?: ReadonlySet<string>;
+
+  // Property injection để lớp con không phải khai báo lại trong constructor
+  @Optional()
+  @Inject(CRUD_OPTIONS)
+  private readonly crudOptions?: CrudControllerOptions;
 
   /**
    * Constructor
@@ -29,26 +58,81 @@ export abstract class BasePrismaRepository<T, C, U>
     protected readonly prisma: PrismaClient,
   ) {
     this.entityName = entityName;
-    this.prismaModel = prismaModel;
+    this._prismaModel = prismaModel;
     this.logger = new Logger(`${entityName}Repository`);
   }
 
+  /**
+   * Model Prisma tương ứng; bên trong transaction() là model của transaction client
+   */
+  protected get prismaModel(): any {
+    const tx = transactionStorage.getStore();
+    const name: string | undefined = this._prismaModel?.$name;
+    if (!tx || !name) {
+      return this._prismaModel;
+    }
+    return (
+      tx[name.charAt(0).toLowerCase() + name.slice(1)] ?? this._prismaModel
+    );
+  }
+
+  /**
+   * Các cột scalar có thể null của model, để sắp xếp và cursor xử lý null
+   */
+  private get nullableFields(): ReadonlySet<string> {
+    if (!this._nullableFields) {
+      const model = Prisma.dmmf.datamodel.models.find(
+        (item) => item.name === this._prismaModel?.$name,
+      );
+      this._nullableFields = new Set(
+        (model?.fields || [])
+          .filter((field) => field.kind === 'scalar' && !field.isRequired)
+          .map((field) => field.name),
+      );
+    }
+    return this._nullableFields;
+  }
+
   /**
    * Chuyển đổi từ Prisma model sang domain model
    * Phương thức này cần được triển khai bởi các lớp con
    */
   protected abstract _toModel(data: any): T;
 
+  /**
+   * Bản ghi đã chọn field chỉ có một phần cột nên không qua _toModel;
+   * lớp con có _toModel biến đổi dữ liệu thì override cả phương thức này
+   */
+  protected _toSelectedModel(data: any, selection?: CrudSelection): T {
+    return selection?.fields
+      ? (pickSelected(data, selection) as T)
+      : this._toModel(data);
+  }
+
   /**
    * Chuyển đổi từ điều kiện tìm kiếm sang Prisma where clause
    * Phương thức này cần được triển khai bởi các lớp con
    */
   protected abstract _conditionsToWhereClause(conditions: any): any;
 
+  /**
+   * Tùy chọn xóa mềm của module; null = xóa cứng
+   */
+  get softDeleteOptions(): SoftDeleteOptions | null {
+    return this.crudOptions?.softDelete ?? null;
+  }
+
+  /**
+   * Thêm điều kiện loại bỏ bản ghi đã xóa mềm
+   */
+  protected _activeWhere(where: any): any {
+    return this.softDeleteOptions ? { ...where, deletedAt: null } : where;
+  }
+
   /**
    * Lấy entity theo ID
    */
-  async get(id: string): Promise<T | null> {
+  async get(id: string, selection?: CrudSelection): Promise<T | null> {
     try {
       if (!id) {
         this.logger.warn(
@@ -57,11 +141,12 @@ export abstract class BasePrismaRepository<T, C, U>
         return null;
       }
 
-      const data = await this.prismaModel.findUnique({
-        where: { id },
+      const data = await this.prismaModel.findFirst({
+        where: this._activeWhere({ id }),
+        ...selectionToPrismaArgs(selection, this.crudOptions?.selection),
       });
 
-      return data ? this._toModel(data) : null;
+      return data ? this._toSelectedModel(data, selection) : null;
     } catch (error) {
       this.logger.error(
         `Error fetching ${this.entityName} ${id}: ${error.message}`,
@@ -86,7 +171,9 @@ export abstract class BasePrismaRepository<T, C, U>
         return null;
       }
 
-      const whereClause = this._conditionsToWhereClause(conditions);
+      const whereClause = this._activeWhere(
+        this._conditionsToWhereClause(conditions),
+      );
       const data = await this.prismaModel.findFirst({
         where: whereClause,
       });
@@ -109,38 +196,118 @@ export abstract class BasePrismaRepository<T, C, U>
   /**
    * Lấy danh sách entity với phân trang
    */
-  async list(conditions: any, pagination: PagingDTO): Promise<Paginated<T>> {
+  async list(
+    conditions: any,
+    pagination: PagingDTO,
+    selection?: CrudSelection,
+  ): Promise<Paginated<T>> {
+    return this._paginate(
+      this._activeWhere(this._listWhere(conditions || {})),
+      pagination,
+      selection,
+    );
+  }
+
+  /**
+   * Lấy danh sách entity trong thùng rác (đã xóa mềm)
+   */
+  async listDeleted(
+    conditions: any,
+    pagination: PagingDTO,
+    selection?: CrudSelection,
+  ): Promise<Paginated<T>> {
+    this._assertSoftDelete();
+    return this._paginate(
+      {
+        ...this._listWhere(conditions || {}),
+        deletedAt: { not: null },
+      },
+      pagination,
+      selection,
+    );
+  }
+
+  /**
+   * Where của endpoint danh sách: điều kiện cũ của lớp con
+   * cộng với DSL `filter` đã được controller validate
+   */
+  protected _listWhere(conditions: any): any {
+    const { filter, ...rest } = conditions;
+    const where = this._conditionsToWhereClause(rest);
+    if (!Array.isArray(filter) || filter.length === 0) {
+      return where;
+    }
+    return { ...where, AND: [...(where.AND || []), ...filtersToWhere(filter)] };
+  }
+
+  /**
+   * Truy vấn phân trang theo where clause đã dựng sẵn.
+   * Có cursor thì lấy tiếp sau cursor (keyset), không thì theo page;
+   * cả hai đều trả về `paging.nextCursor`
+   */
+  protected async _paginate(
+    whereClause: any,
+    pagination: PagingDTO,
+    selection?: CrudSelection,
+  ): Promise<Paginated<T>> {
     try {
       // Validate pagination parameters
-      const page = Math.max(1, pagination.page || 1);
-      const limit = Math.min(100, Math.max(1, pagination.limit || 10));
-      const sortBy = pagination.sortBy || 'createdAt';
-      const sortOrder = pagination.sortOrder || 'desc';
+      const page = pagination.cursor ? 1 : Math.max(1, pagination.page || 1);
+      const limit = Math.min(
+        this.crudOptions?.query?.maxLimit ?? 100,
+        Math.max(1, pagination.limit || 10),
+      );
+      const sort = resolveSort(pagination);
 
-      const whereClause = this._conditionsToWhereClause(conditions || {});
+      const nullableFields = this.nullableFields;
+
+      const pageWhere = pagination.cursor
+        ? {
+            AND: [
+              whereClause,
+              cursorToWhere(pagination.cursor, sort, nullableFields),
+            ],
+          }
+        : whereClause;
 
       // Run count and data queries in parallel for efficiency
-      const [total, data] = await Promise.all([
+      // Lấy dư một bản ghi để biết còn trang sau hay không
+      const [total, rows] = await Promise.all([
         this.prismaModel.count({ where: whereClause }),
         this.prismaModel.findMany({
-          where: whereClause,
-          orderBy: { [sortBy]: sortOrder },
-          skip: (page - 1) * limit,
-          take: limit,
+          where: pageWhere,
+          orderBy: sortToOrderBy(sort, nullableFields),
+          skip: pagination.cursor ? 0 : (page - 1) * limit,
+          take: limit + 1,
+          // Field sort luôn được lấy để dựng cursor, bỏ đi trước khi trả về
+          ...selectionToPrismaArgs(
+            selection,
+            this.crudOptions?.selection,
+            sort.map((item) => item.field),
+          ),
         }),
       ]);
 
+      const data = rows.slice(0, limit);
+      const nextCursor =
+        rows.length > limit ? encodeCursor(sort, data[data.length - 1]) : null;
+
       // Return in Paginated format
       return {
-        data: data.map((item: any) => this._toModel(item)),
+        data: data.map((item: any) => this._toSelectedModel(item, selection)),
         paging: {
           page,
           limit,
           total,
+          nextCursor,
         },
         total,
       };
     } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
       this.logger.error(
         `Error listing ${this.entityName}s: ${error.message}`,
         error.stack,
@@ -175,6 +342,18 @@ export abstract class BasePrismaRepository<T, C, U>
         `Error inserting ${this.entityName}: ${error.message}`,
         error.stack,
       );
+      // Bản ghi trong thùng rác vẫn giữ giá trị unique cho tới khi bị xóa hẳn
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw AppError.from(
+          new Error(
+            `${this.entityName} with the same unique fields already exists${this.softDeleteOptions ? ' (it may be in the trash)' : ''}`,
+          ),
+          409,
+        );
+      }
       throw AppError.from(
         new Error(`Failed to insert ${this.entityName}: ${error.message}`),
         500,
@@ -185,7 +364,11 @@ export abstract class BasePrismaRepository<T, C, U>
   /**
    * Cập nhật entity
    */
-  async update(id: string, dto: Partial<T>): Promise<void> {
+  async update(
+    id: string,
+    dto: Partial<T>,
+    options?: { expectedUpdatedAt?: Date },
+  ): Promise<void> {
     try {
       if (!id) {
         throw new Error(
@@ -200,8 +383,8 @@ export abstract class BasePrismaRepository<T, C, U>
       }
 
       // Check if entity exists
-      const exists = await this.prismaModel.findUnique({
-        where: { id },
+      const exists = await this.prismaModel.findFirst({
+        where: this._activeWhere({ id }),
         select: { id: true },
       });
 
@@ -216,12 +399,15 @@ export abstract class BasePrismaRepository<T, C, U>
       const updateData = this._prepareUpdateData(dto);
 
       // Always include updatedAt if the model has it
-      if ('updatedAt' in this.prismaModel.fields) {
+      const versioned = 'updatedAt' in this.prismaModel.fields;
+      if (versioned) {
         updateData.updatedAt = new Date();
       }
 
+      // Ghi có điều kiện: bản ghi bị sửa sau khi client đọc thì không khớp
+      const expected = versioned ? options?.expectedUpdatedAt : undefined;
       await this.prismaModel.update({
-        where: { id },
+        where: { id, ...(expected && { updatedAt: expected }) },
         data: updateData,
       });
     } catch (error) {
@@ -229,6 +415,16 @@ export abstract class BasePrismaRepository<T, C, U>
         throw error;
       }
 
+      if (error.code === 'P2025' && options?.expectedUpdatedAt) {
+        const current = await this.prismaModel.findUnique({
+          where: { id },
+          select: { updatedAt: true },
+        });
+        if (current) {
+          throw preconditionFailed(this.entityName, current.updatedAt);
+        }
+      }
+
       this.logger.error(
         `Error updating ${this.entityName} ${id}: ${error.message}`,
         error.stack,
@@ -252,8 +448,8 @@ export abstract class BasePrismaRepository<T, C, U>
       }
 
       // Check if entity exists
-      const exists = await this.prismaModel.findUnique({
-        where: { id },
+      const exists = await this.prismaModel.findFirst({
+        where: this._activeWhere({ id }),
         select: { id: true },
       });
 
@@ -264,6 +460,15 @@ export abstract class BasePrismaRepository<T, C, U>
         );
       }
 
+      if (this.softDeleteOptions) {
+        // Xóa mềm: chuyển vào thùng rác, cron sẽ xóa hẳn sau retentionDays
+        await this.prismaModel.update({
+          where: { id },
+          data: { deletedAt: new Date() },
+        });
+        return;
+      }
+
       await this.prismaModel.delete({
         where: { id },
       });
@@ -288,7 +493,7 @@ export abstract class BasePrismaRepository<T, C, U>
    */
   async count(conditions: any): Promise<number> {
     try {
-      const whereClause = this._conditionsToWhereClause(conditions || {});
+      const whereClause = this._activeWhere(this._listWhere(conditions || {}));
       return await this.prismaModel.count({ where: whereClause });
     } catch (error) {
       this.logger.error(
@@ -302,13 +507,104 @@ export abstract class BasePrismaRepository<T, C, U>
     }
   }
 
+  /**
+   * Khôi phục entity từ thùng rác
+   */
+  async restore(id: string): Promise<void> {
+    this._assertSoftDelete();
+    try {
+      // Guard bằng deletedAt để hai request khôi phục đồng thời không cùng thành công
+      const { count } = await this.prismaModel.updateMany({
+        where: { id, deletedAt: { not: null } },
+        data: { deletedAt: null },
+      });
+
+      if (count === 0) {
+        throw AppError.from(
+          new Error(`Deleted ${this.entityName} with ID ${id} not found`),
+          404,
+        );
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      this.logger.error(
+        `Error restoring ${this.entityName} ${id}: ${error.message}`,
+        error.stack,
+      );
+      // Khôi phục có thể đụng unique constraint với bản ghi tạo sau khi xóa
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw AppError.from(
+          new Error(
+            `Cannot restore ${this.entityName}: a record with the same unique fields exists`,
+          ),
+          409,
+        );
+      }
+      throw AppError.from(
+        new Error(`Failed to restore ${this.entityName}: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  /**
+   * Xóa hẳn các entity đã xóa mềm trước thời điểm `before`.
+   * Xóa từng bản ghi để bản ghi còn bị tham chiếu (P2003) không chặn cả lô
+   */
+  async purgeDeleted(before: Date): Promise<number> {
+    if (!this.softDeleteOptions) {
+      return 0;
+    }
+
+    const rows: { id: string }[] = await this.prismaModel.findMany({
+      where: { deletedAt: { lt: before } },
+      select: { id: true },
+    });
+
+    let purged = 0;
+    for (const { id } of rows) {
+      try {
+        await this.prismaModel.delete({ where: { id } });
+        purged++;
+      } catch (error) {
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          (error.code === 'P2003' || error.code === 'P2025')
+        ) {
+          this.logger.warn(
+            `Skip purging ${this.entityName} ${id}: ${error.message}`,
+          );
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return purged;
+  }
+
+  private _assertSoftDelete(): void {
+    if (!this.softDeleteOptions) {
+      throw AppError.from(
+        new Error(`Soft delete is not enabled for ${this.entityName}`),
+        400,
+      );
+    }
+  }
+
   /**
    * Chuẩn bị dữ liệu cho thao tác tạo mới
    * Phương thức này có thể được override bởi các lớp con
    */
   protected _prepareCreateData(entity: any): any {
     // Add timestamps by default if the model supports them
-    const data = { ...entity };
+    const data = this._pickModelFields(entity);
 
     if ('createdAt' in this.prismaModel.fields && !data.createdAt) {
       data.createdAt = new Date();
@@ -329,7 +625,7 @@ export abstract class BasePrismaRepository<T, C, U>
     // Filter out undefined values
     const updateData: any = {};
 
-    Object.entries(dto).forEach(([key, value]) => {
+    Object.entries(this._pickModelFields(dto)).forEach(([key, value]) => {
       if (value !== undefined) {
         updateData[key] = value;
       }
@@ -338,6 +634,21 @@ export abstract class BasePrismaRepository<T, C, U>
     return updateData;
   }
 
+  /**
+   * Bỏ các field không có trong model Prisma
+   * (vd. createdBy/updatedBy do hook mặc định của service thêm vào)
+   */
+  protected _pickModelFields(data: any): any {
+    const fields = this.prismaModel?.fields;
+    if (!fields) {
+      return { ...data };
+    }
+
+    return Object.fromEntries(
+      Object.entries(data || {}).filter(([key]) => key in fields),
+    );
+  }
+
   /**
    * Thực hiện transaction
    */
@@ -353,6 +664,12 @@ export abstract class BasePrismaRepository<T, C, U>
         | 'Serializable';
     },
   ): Promise<R> {
+    // Đã ở trong transaction (bulk gọi lồng nhau): dùng luôn transaction hiện tại
+    const current = transactionStorage.getStore();
+    if (current) {
+      return callback(current);
+    }
+
     const maxRetries = options?.maxRetries || 3;
     const timeout = options?.timeout || 30000; // 30 seconds default
     const isolationLevel = options?.isolationLevel || 'ReadCommitted';
@@ -370,7 +687,7 @@ export abstract class BasePrismaRepository<T, C, U>
           // Execute the transaction with the specified isolation level
           const result = await this.prisma.$transaction(
             async (tx: any) => {
-              return await callback(tx);
+              return await transactionStorage.run(tx, () => callback(tx));
             },
             {
               isolationLevel,
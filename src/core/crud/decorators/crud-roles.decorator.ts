@@ -16,6 +16,10 @@ export enum CrudEndpointType {
   UPDATE = 'update',
   DELETE = 'delete',
   COUNT = 'count',
+  RESTORE = 'restore',
+  TRASH = 'trash',
+  EXPORT = 'export',
+  IMPORT = 'import',
 }
 
 /**
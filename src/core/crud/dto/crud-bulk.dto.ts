@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+// Nội dung từng phần tử được validate riêng bằng dtoValidation của controller
+const bulkItemSchema = z.record(z.any());
+
+const atomicSchema = z.boolean().optional().default(false);
+
+export const crudBulkCreateDTOSchema = z.object({
+  items: z.array(bulkItemSchema).min(1, 'items không được để trống'),
+  atomic: atomicSchema,
+});
+
+export type CrudBulkCreateDTO = z.infer<typeof crudBulkCreateDTOSchema>;
+
+export const crudBulkUpdateDTOSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        id: z.string().uuid('id không hợp lệ'),
+        data: bulkItemSchema,
+        // updatedAt client đã đọc, tương đương header If-Match của PATCH /:id
+        version: z.string().optional(),
+      }),
+    )
+    .min(1, 'items không được để trống'),
+  atomic: atomicSchema,
+});
+
+export type CrudBulkUpdateDTO = z.infer<typeof crudBulkUpdateDTOSchema>;
+
+export const crudBulkDeleteDTOSchema = z.object({
+  ids: z
+    .array(z.string().uuid('id không hợp lệ'))
+    .min(1, 'ids không được để trống'),
+  atomic: atomicSchema,
+});
+
+export type CrudBulkDeleteDTO = z.infer<typeof crudBulkDeleteDTOSchema>;
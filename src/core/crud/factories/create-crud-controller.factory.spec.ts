@@ -0,0 +1,60 @@
+import { RequestMethod } from '@nestjs/common';
+import { METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import { createCrudController } from './create-crud-controller.factory';
+
+// share/guard kéo theo EntityAccessGuard chưa biên dịch được (IUserService thiếu
+// canAccessEntity); controller chỉ cần class RemoteAuthGuard để gắn metadata
+jest.mock('../../../share/guard', () => ({
+  RemoteAuthGuard: class RemoteAuthGuard {},
+}));
+
+describe('createCrudController route order', () => {
+  const controller = createCrudController({
+    service: 'ITEM_SERVICE',
+    controllerOptions: {
+      entityName: 'Item',
+      selection: { fields: ['name'] },
+    },
+  });
+
+  // Nest đăng ký route theo thứ tự method của lớp con
+  const routes = Object.getOwnPropertyNames(controller.prototype)
+    .map((method) => controller.prototype[method])
+    .filter((handler) => Reflect.hasMetadata(METHOD_METADATA, handler))
+    .map(
+      (handler) =>
+        `${RequestMethod[Reflect.getMetadata(METHOD_METADATA, handler)]} ${Reflect.getMetadata(PATH_METADATA, handler)}`,
+    );
+
+  it('registers static GET routes before GET :id', () => {
+    const getById = routes.indexOf('GET :id');
+
+    expect(getById).toBeGreaterThan(-1);
+    for (const path of ['count', 'trash', 'export']) {
+      expect(routes.indexOf(`GET ${path}`)).toBeGreaterThan(-1);
+      expect(routes.indexOf(`GET ${path}`)).toBeLessThan(getById);
+    }
+  });
+
+  it('registers bulk routes before the :id routes of the same method', () => {
+    expect(routes.indexOf('PATCH bulk')).toBeLessThan(
+      routes.indexOf('PATCH :id'),
+    );
+    expect(routes.indexOf('DELETE bulk')).toBeLessThan(
+      routes.indexOf('DELETE :id'),
+    );
+  });
+
+  it('documents the selection query on the entity routes', () => {
+    const queries = (method: string) =>
+      (
+        Reflect.getMetadata(
+          'swagger/apiParameters',
+          controller.prototype[method],
+        ) ?? []
+      ).map((param: { name: string }) => param.name);
+
+    expect(queries('getById')).toContain('fields');
+    expect(queries('list')).toContain('fields');
+  });
+});
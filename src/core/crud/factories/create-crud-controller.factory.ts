@@ -1,10 +1,30 @@
 import { Controller, Type, Inject } from '@nestjs/common';
-import { ApiTags } from '@nestjs/swagger';
+import { METHOD_METADATA } from '@nestjs/common/constants';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiHeader,
+  ApiOkResponse,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiTags,
+} from '@nestjs/swagger';
 import { BaseCrudController } from '../base/base-crud.controller';
-import { CRUD_OPTIONS } from '../decorators/crud-endpoint.decorator';
+import {
+  CRUD_OPTIONS,
+  CrudController,
+} from '../decorators/crud-endpoint.decorator';
 import { CrudControllerOptions } from '../interfaces/crud-options.interface';
 import { ICrudService } from '../interfaces/crud.interface';
+import { CRUD_FILE_CONTENT_TYPES } from '../utils/crud-file.utils';
 import { Logger } from '@nestjs/common';
+import {
+  createEndpointDescription,
+  createEntityResponseSchema,
+  createListQueryDocs,
+  createSelectionQueryDocs,
+} from '../utils/crud.utils';
 
 /**
  * Factory function để tạo controller class
@@ -15,6 +35,8 @@ export function createCrudController<T, C, U, F = any>(options: {
   service: string | symbol;
   controllerOptions: CrudControllerOptions<T, C, U, F>;
   path?: string;
+  /** Model Zod của entity, dùng cho schema response trên Swagger */
+  modelType?: unknown;
 }): Type<BaseCrudController<T, C, U, F>> {
   const { service, controllerOptions } = options;
   const logger = new Logger('CrudControllerFactory');
@@ -25,8 +47,10 @@ export function createCrudController<T, C, U, F = any>(options: {
     controllerOptions.entityName,
   ];
 
+  // CrudRolesGuard đọc options từ metadata của class
   @Controller(controllerPath)
   @ApiTags(...apiTags)
+  @CrudController(controllerOptions)
   class ControllerClass extends BaseCrudController<T, C, U, F> {
     constructor(
       @Inject(service) crudService: ICrudService<T, C, U>,
@@ -37,5 +61,361 @@ export function createCrudController<T, C, U, F = any>(options: {
     }
   }
 
+  inheritRoutes(ControllerClass);
+
+  const entity = createEntityResponseSchema(
+    options.modelType,
+    controllerOptions.selection,
+  );
+  const selectionDocs = createSelectionQueryDocs(controllerOptions.selection);
+  const listResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      data: { type: 'array', items: entity },
+      paging: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer' },
+          limit: { type: 'integer' },
+          total: { type: 'integer' },
+          nextCursor: { type: 'string', nullable: true },
+        },
+      },
+      total: { type: 'integer' },
+    },
+  };
+
+  documentEndpoint(ControllerClass, 'list', [
+    ApiOperation({
+      summary: createEndpointDescription(
+        'getAll',
+        controllerOptions.entityName,
+        controllerOptions,
+      ),
+    }),
+    ...[
+      ...createListQueryDocs(
+        controllerOptions,
+        controllerOptions.query?.defaultSort ?? '-createdAt',
+      ),
+      ...selectionDocs,
+    ].map((query) => ApiQuery(query)),
+    ApiOkResponse({ schema: listResponse }),
+  ]);
+  documentEndpoint(ControllerClass, 'trash', [
+    ApiOperation({
+      summary: createEndpointDescription(
+        'trash',
+        controllerOptions.entityName,
+        controllerOptions,
+      ),
+    }),
+    ...[
+      ...createListQueryDocs(controllerOptions, '-deletedAt'),
+      ...selectionDocs,
+    ].map((query) => ApiQuery(query)),
+    ApiOkResponse({ schema: listResponse }),
+  ]);
+  documentEndpoint(ControllerClass, 'getById', [
+    ApiOperation({
+      summary: createEndpointDescription(
+        'getOne',
+        controllerOptions.entityName,
+        controllerOptions,
+      ),
+    }),
+    ...selectionDocs.map((query) => ApiQuery(query)),
+    ApiOkResponse({
+      schema: {
+        type: 'object',
+        properties: { success: { type: 'boolean' }, data: entity },
+      },
+    }),
+  ]);
+
+  documentEndpoint(ControllerClass, 'update', [
+    ApiHeader({
+      name: 'If-Match',
+      required: false,
+      description:
+        'ETag của GET /:id hoặc updatedAt đã đọc (ISO hoặc epoch ms); bản ghi đã bị sửa sau đó thì trả 412 kèm details.currentVersion',
+    }),
+  ]);
+
+  const bulkResponse = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      data: {
+        type: 'object',
+        properties: {
+          atomic: { type: 'boolean' },
+          total: { type: 'integer' },
+          succeeded: { type: 'integer' },
+          failed: { type: 'integer' },
+          results: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                index: { type: 'integer' },
+                id: { type: 'string' },
+                success: { type: 'boolean' },
+                error: {
+                  type: 'object',
+                  properties: {
+                    message: { type: 'string' },
+                    statusCode: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+  const atomic = {
+    type: 'boolean',
+    default: false,
+    description:
+      'true: tất cả hoặc không gì cả (lỗi trả kết quả từng phần tử trong details.results)',
+  };
+  const { entityName } = controllerOptions;
+
+  documentEndpoint(ControllerClass, 'bulkCreate', [
+    ApiOperation({ summary: `Bulk create ${entityName}` }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['items'],
+        properties: {
+          items: { type: 'array', items: { type: 'object' } },
+          atomic,
+        },
+      },
+    }),
+    ApiOkResponse({ schema: bulkResponse }),
+  ]);
+  documentEndpoint(ControllerClass, 'bulkUpdate', [
+    ApiOperation({ summary: `Bulk update ${entityName}` }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['items'],
+        properties: {
+          items: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'data'],
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                data: { type: 'object' },
+                version: {
+                  type: 'string',
+                  description: 'updatedAt đã đọc, như If-Match',
+                },
+              },
+            },
+          },
+          atomic,
+        },
+      },
+    }),
+    ApiOkResponse({ schema: bulkResponse }),
+  ]);
+  documentEndpoint(ControllerClass, 'bulkDelete', [
+    ApiOperation({ summary: `Bulk delete ${entityName}` }),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['ids'],
+        properties: {
+          ids: { type: 'array', items: { type: 'string', format: 'uuid' } },
+          atomic,
+        },
+      },
+    }),
+    ApiOkResponse({ schema: bulkResponse }),
+  ]);
+
+  const { transfer } = controllerOptions;
+  if (transfer) {
+    const columns = transfer.columns
+      .map((column) =>
+        column.readonly
+          ? `${column.header ?? column.field} (chỉ export)`
+          : (column.header ?? column.field),
+      )
+      .join(', ');
+    const issues = {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          row: { type: 'integer', description: 'Số dòng trong file' },
+          column: { type: 'string' },
+          message: { type: 'string' },
+        },
+      },
+    };
+
+    // Export lấy hết mọi trang, tham số phân trang không có tác dụng
+    const exportQueryDocs = createListQueryDocs(
+      controllerOptions,
+      controllerOptions.query?.defaultSort ?? '-createdAt',
+    ).filter(
+      (query) =>
+        !['page', 'limit', 'cursor'].includes(
+          (query as { name?: string }).name ?? '',
+        ),
+    );
+
+    documentEndpoint(ControllerClass, 'export', [
+      ApiOperation({
+        summary: createEndpointDescription(
+          'export',
+          entityName,
+          controllerOptions,
+        ),
+        description: `Cột: ${columns}`,
+      }),
+      ApiQuery({
+        name: 'format',
+        required: false,
+        enum: ['csv', 'xlsx'],
+        description: 'Mặc định csv',
+      }),
+      ...[...exportQueryDocs, ...selectionDocs].map((query) => ApiQuery(query)),
+      ApiProduces(CRUD_FILE_CONTENT_TYPES.csv, CRUD_FILE_CONTENT_TYPES.xlsx),
+    ]);
+    documentEndpoint(ControllerClass, 'import', [
+      ApiOperation({
+        summary: createEndpointDescription(
+          'import',
+          entityName,
+          controllerOptions,
+        ),
+        description: `Dòng đầu là tiêu đề. Cột: ${columns}`,
+      }),
+      ApiConsumes('multipart/form-data'),
+      ApiBody({
+        schema: {
+          type: 'object',
+          required: ['file'],
+          properties: { file: { type: 'string', format: 'binary' } },
+        },
+      }),
+      ApiQuery({
+        name: 'dryRun',
+        required: false,
+        type: Boolean,
+        description: 'Chỉ validate, trả lỗi theo dòng/cột và bản xem trước',
+      }),
+      ApiQuery({
+        name: 'atomic',
+        required: false,
+        type: Boolean,
+        description: 'Một dòng lỗi thì không ghi dòng nào',
+      }),
+      ApiOkResponse({
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                dryRun: { type: 'boolean' },
+                total: { type: 'integer' },
+                created: { type: 'integer' },
+                failed: { type: 'integer' },
+                valid: { type: 'integer' },
+                invalid: { type: 'integer' },
+                errors: issues,
+                preview: { type: 'array', items: { type: 'object' } },
+                results: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      row: { type: 'integer' },
+                      id: { type: 'string' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      }),
+    ]);
+  }
+
   return ControllerClass;
 }
+
+/**
+ * Khai báo lại mọi route của lớp cơ sở trên lớp con, giữ nguyên thứ tự.
+ * Metadata route (path, guard, http code) nằm trên function của lớp cơ sở,
+ * dùng chung cho mọi controller: mỗi controller cần method riêng để gắn
+ * Swagger của entity mình mà không lan sang entity khác. Nest quét method
+ * của lớp con trước lớp cha nên phải chép đủ và đúng thứ tự, nếu không
+ * `GET /:id` sẽ được đăng ký trước `GET /count`
+ */
+function inheritRoutes(target: Type<any>): void {
+  const prototype = BaseCrudController.prototype as any;
+  for (const method of Object.getOwnPropertyNames(prototype)) {
+    const base = prototype[method];
+    if (
+      typeof base !== 'function' ||
+      !Reflect.hasMetadata(METHOD_METADATA, base)
+    ) {
+      continue;
+    }
+
+    const own = {
+      [method](...args: any[]) {
+        return base.apply(this, args);
+      },
+    }[method];
+    for (const key of Reflect.getMetadataKeys(base)) {
+      Reflect.defineMetadata(key, Reflect.getMetadata(key, base), own);
+    }
+
+    Object.defineProperty(target.prototype, method, {
+      value: own,
+      writable: true,
+      configurable: true,
+      enumerable: false,
+    });
+  }
+}
+
+/**
+ * Gắn decorator Swagger lên route đã được inheritRoutes khai báo lại
+ */
+function documentEndpoint(
+  target: Type<any>,
+  method:
+    | 'list'
+    | 'trash'
+    | 'getById'
+    | 'update'
+    | 'bulkCreate'
+    | 'bulkUpdate'
+    | 'bulkDelete'
+    | 'export'
+    | 'import',
+  decorators: MethodDecorator[],
+): void {
+  const descriptor = Object.getOwnPropertyDescriptor(
+    target.prototype,
+    method,
+  ) as PropertyDescriptor;
+  for (const decorator of decorators) {
+    decorator(target.prototype, method, descriptor);
+  }
+}
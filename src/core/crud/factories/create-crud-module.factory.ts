@@ -1,8 +1,15 @@
 import { DynamicModule, Provider, Logger } from '@nestjs/common';
 import { CRUD_OPTIONS } from '../decorators/crud-endpoint.decorator';
-import { CrudModuleOptions } from '../interfaces/crud-options.interface';
+import {
+  CrudControllerOptions,
+  CrudModuleOptions,
+  SoftDeleteOptions,
+} from '../interfaces/crud-options.interface';
 import { createCrudController } from './create-crud-controller.factory';
 
+// Số ngày mặc định giữ bản ghi trong thùng rác
+const DEFAULT_SOFT_DELETE_RETENTION_DAYS = 30;
+
 /**
  * Factory function để tạo CRUD module
  * @param options Tùy chọn cấu hình module
@@ -14,6 +21,7 @@ export function createCrudModule<T, C, U, F = any>(
   const {
     moduleName,
     path,
+    modelType,
     createDtoType,
     updateDtoType,
     filterDtoType,
@@ -22,6 +30,8 @@ export function createCrudModule<T, C, U, F = any>(
     serviceToken,
     repositoryToken,
     controllerOptions,
+    softDelete,
+    selection,
     imports = [],
     providers = [],
     exports = [],
@@ -30,32 +40,89 @@ export function createCrudModule<T, C, U, F = any>(
   const logger = new Logger('CrudModuleFactory');
   logger.log(`Creating CRUD module for entity: ${moduleName}`);
 
-  // Prepare controller options
-  const finalControllerOptions = controllerOptions || {
-    entityName: moduleName,
-    endpoints: {
-      getAll: { enabled: true },
-      getOne: { enabled: true },
-      create: { enabled: true },
-      update: { enabled: true },
-      delete: { enabled: true },
-      count: { enabled: true },
-    },
-    dtoValidation: {
-      createDtoClass: createDtoType,
-      updateDtoClass: updateDtoType,
-      filterDtoClass: filterDtoType,
-    },
-    swagger: {
-      tags: [moduleName],
-    },
+  const defaultDtoValidation = {
+    createDtoClass: createDtoType,
+    updateDtoClass: updateDtoType,
+    filterDtoClass: filterDtoType,
   };
 
+  // Prepare controller options
+  const finalControllerOptions = controllerOptions
+    ? {
+        ...controllerOptions,
+        dtoValidation: controllerOptions.dtoValidation || defaultDtoValidation,
+        selection,
+      }
+    : {
+        entityName: moduleName,
+        endpoints: {
+          getAll: { enabled: true },
+          getOne: { enabled: true },
+          create: { enabled: true },
+          update: { enabled: true },
+          delete: { enabled: true },
+          count: { enabled: true },
+        },
+        dtoValidation: {
+          createDtoClass: createDtoType,
+          updateDtoClass: updateDtoType,
+          filterDtoClass: filterDtoType,
+        },
+        swagger: {
+          tags: [moduleName],
+        },
+        selection,
+      };
+
+  // Bật xóa mềm: thùng rác/khôi phục mặc định dùng chung vai trò với delete,
+  // tránh mở cho mọi người dùng khi module quên cấu hình
+  const softDeleteOptions = normalizeSoftDelete(softDelete);
+  const softDeleteCrudOptions: CrudControllerOptions<T, C, U, F> =
+    softDeleteOptions
+      ? {
+          ...finalControllerOptions,
+          softDelete: softDeleteOptions,
+          endpoints: finalControllerOptions.endpoints && {
+            ...finalControllerOptions.endpoints,
+            restore: finalControllerOptions.endpoints.restore ?? {
+              enabled: true,
+              roles: finalControllerOptions.endpoints.delete?.roles,
+            },
+            trash: finalControllerOptions.endpoints.trash ?? {
+              enabled: true,
+              roles: finalControllerOptions.endpoints.delete?.roles,
+            },
+          },
+        }
+      : finalControllerOptions;
+
+  // Import/export: mặc định export theo vai trò getAll, import theo create
+  // vì import thực chất là tạo hàng loạt
+  const endpoints = softDeleteCrudOptions.endpoints;
+  const crudOptions: CrudControllerOptions<T, C, U, F> =
+    softDeleteCrudOptions.transfer && endpoints
+      ? {
+          ...softDeleteCrudOptions,
+          endpoints: {
+            ...endpoints,
+            export: endpoints.export ?? {
+              enabled: true,
+              roles: endpoints.getAll?.roles,
+            },
+            import: endpoints.import ?? {
+              enabled: true,
+              roles: endpoints.create?.roles,
+            },
+          },
+        }
+      : softDeleteCrudOptions;
+
   // Tạo controller từ factory
   const CrudControllerClass = createCrudController<T, C, U, F>({
     service: serviceToken,
-    controllerOptions: finalControllerOptions,
+    controllerOptions: crudOptions,
     path: path,
+    modelType,
   });
 
   // Define providers
@@ -71,7 +138,7 @@ export function createCrudModule<T, C, U, F = any>(
     // Thêm options vào providers để có thể inject
     {
       provide: CRUD_OPTIONS,
-      useValue: finalControllerOptions,
+      useValue: crudOptions,
     },
     ...providers,
   ];
@@ -99,3 +166,17 @@ export function createCrudModule<T, C, U, F = any>(
 
   return dynamicModule;
 }
+
+function normalizeSoftDelete(
+  softDelete: boolean | SoftDeleteOptions | undefined,
+): SoftDeleteOptions | null {
+  if (!softDelete) {
+    return null;
+  }
+
+  const options = softDelete === true ? {} : softDelete;
+  return {
+    ...options,
+    retentionDays: options.retentionDays ?? DEFAULT_SOFT_DELETE_RETENTION_DAYS,
+  };
+}
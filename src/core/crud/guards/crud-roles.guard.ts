@@ -138,8 +138,17 @@ export class CrudRolesGuard implements CanActivate {
 
   // Add a type guard to check if a string is a valid endpoint type
   private isValidEndpointType(endpoint: string): endpoint is CrudEndpointType {
-    return ['getAll', 'getOne', 'create', 'update', 'delete', 'count'].includes(
-      endpoint,
-    );
+    return [
+      'getAll',
+      'getOne',
+      'create',
+      'update',
+      'delete',
+      'count',
+      'restore',
+      'trash',
+      'export',
+      'import',
+    ].includes(endpoint);
   }
 }
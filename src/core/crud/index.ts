@@ -7,6 +7,9 @@ export * from './base/base-crud.controller';
 export * from './interfaces/crud.interface';
 export * from './interfaces/crud-options.interface';
 
+// DTOs
+export * from './dto/crud-bulk.dto';
+
 // Decorators
 export * from './decorators/crud-endpoint.decorator';
 export * from './decorators/crud-roles.decorator';
@@ -18,8 +21,15 @@ export * from './factories/create-crud-module.factory';
 // Guards
 export * from './guards/crud-roles.guard';
 
+// Interceptors
+export * from './interceptors/crud-cache.interceptor';
+
 // Pipes
 export * from './pipes/crud-validation.pipe';
 
 // Utils
 export * from './utils/crud.utils';
+export * from './utils/crud-query.utils';
+export * from './utils/crud-cache.utils';
+export * from './utils/crud-file.utils';
+export * from './utils/crud-transfer.utils';
@@ -0,0 +1,244 @@
+import { lastValueFrom, of } from 'rxjs';
+import { AppError, parseIfMatch } from '../../../share';
+import { BasePrismaRepository } from '../base/base-prisma.repository';
+import { CRUD_OPTIONS } from '../decorators/crud-endpoint.decorator';
+import { createCrudETag, invalidateCrudCache } from '../utils/crud-cache.utils';
+import { CrudCacheInterceptor } from './crud-cache.interceptor';
+
+class ItemRepository extends BasePrismaRepository<any, any, any> {
+  protected _toModel(data: any) {
+    return data;
+  }
+
+  protected _conditionsToWhereClause(conditions: any) {
+    return conditions;
+  }
+}
+
+// Cache trong bộ nhớ; giá trị đi qua JSON như khi lưu Redis
+class FakeCache {
+  values = new Map<string, string>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = this.values.get(key);
+    return value === undefined ? null : (JSON.parse(value) as T);
+  }
+
+  async set(key: string, value: unknown) {
+    this.values.set(key, JSON.stringify(value));
+  }
+
+  generateCacheKey(prefix: string, params: unknown) {
+    return `${prefix}:${JSON.stringify(params)}`;
+  }
+}
+
+describe('CrudCacheInterceptor ETag and If-Match round-trip', () => {
+  const current = new Date('2026-10-19T08:00:00.000Z');
+  const model = {
+    $name: 'Item',
+    fields: { updatedAt: {} },
+    findFirst: jest.fn().mockResolvedValue({ id: 'item-1' }),
+    findUnique: jest.fn().mockResolvedValue({ updatedAt: current }),
+    update: jest.fn(),
+  };
+  const repository = new ItemRepository('Item', model, {} as any);
+
+  const getOne = async (cache: FakeCache | undefined, enabled: boolean) => {
+    const options = {
+      entityName: 'Item',
+      endpoints: { getOne: { cache: { enabled } } },
+    };
+    const reflector = {
+      get: (key: unknown) => (key === CRUD_OPTIONS ? options : 'getOne'),
+    };
+    const headers: Record<string, string> = {};
+    const context = {
+      getClass: () => class {},
+      getHandler: () => () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({ headers: {}, path: '/items/item-1', query: {} }),
+        getResponse: () => ({
+          setHeader: (name: string, value: string) => (headers[name] = value),
+        }),
+      }),
+    };
+    const interceptor = new CrudCacheInterceptor(
+      reflector as any,
+      cache as any,
+    );
+    const body = { success: true, data: { id: 'item-1', updatedAt: current } };
+
+    const result$ = await interceptor.intercept(context as any, {
+      handle: () => of(body),
+    });
+    await lastValueFrom(result$);
+    return headers.ETag;
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('issues an ETag that If-Match reads back as updatedAt', async () => {
+    const etag = await getOne(undefined, false);
+
+    expect(etag).toMatch(/^W\/"2026-10-19T08:00:00\.000Z~[\w-]+"$/);
+    expect(parseIfMatch(etag)).toEqual(current);
+  });
+
+  it('serves the same versioned ETag from the cache', async () => {
+    const cache = new FakeCache();
+
+    const miss = await getOne(cache, true);
+    const hit = await getOne(cache, true);
+
+    expect(hit).toBe(miss);
+    expect(parseIfMatch(hit)).toEqual(current);
+  });
+
+  it('updates with the ETag from GET and rejects it once the record changed', async () => {
+    const etag = await getOne(undefined, false);
+
+    await repository.update(
+      'item-1',
+      { name: 'x' },
+      { expectedUpdatedAt: parseIfMatch(etag) },
+    );
+    expect(model.update).toHaveBeenCalledWith({
+      where: { id: 'item-1', updatedAt: current },
+      data: expect.objectContaining({ updatedAt: expect.any(Date) }),
+    });
+
+    // Lần PATCH thứ hai dùng lại ETag cũ: bản ghi đã đổi updatedAt
+    const changed = new Date('2026-10-19T08:05:00.000Z');
+    model.findUnique.mockResolvedValueOnce({ updatedAt: changed });
+    model.update.mockRejectedValueOnce(
+      Object.assign(new Error('Record to update not found'), {
+        code: 'P2025',
+      }),
+    );
+
+    const error = (await repository
+      .update(
+        'item-1',
+        { name: 'y' },
+        { expectedUpdatedAt: parseIfMatch(etag) },
+      )
+      .catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(412);
+    expect(error.toJSON().details).toMatchObject({
+      currentVersion: changed.toISOString(),
+    });
+  });
+
+  it('falls back to a content ETag for lists', () => {
+    const etag = createCrudETag({
+      success: true,
+      data: [{ id: 'item-1', updatedAt: current }],
+    });
+
+    expect(etag).toMatch(/^W\/"[\w-]+"$/);
+    expect(() => parseIfMatch(etag)).toThrow(
+      'If-Match must be the ETag or updatedAt of the record',
+    );
+  });
+});
+
+describe('CrudCacheInterceptor caching', () => {
+  const options = {
+    entityName: 'Line',
+    endpoints: {
+      getAll: { cache: { enabled: true, tags: ['Factory'] } },
+    },
+  };
+  const reflector = {
+    get: (key: unknown) => (key === CRUD_OPTIONS ? options : 'getAll'),
+  };
+
+  let cache: FakeCache;
+  let interceptor: CrudCacheInterceptor;
+  let handle: jest.Mock;
+
+  const request = async (
+    requester: object,
+    headers: Record<string, string> = {},
+  ) => {
+    const responseHeaders: Record<string, string> = {};
+    const context = {
+      getClass: () => class {},
+      getHandler: () => () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => ({
+          headers,
+          path: '/lines',
+          query: { page: '1' },
+          requester,
+        }),
+        getResponse: () => ({
+          setHeader: (name: string, value: string) =>
+            (responseHeaders[name] = value),
+        }),
+      }),
+    };
+    const result$ = await interceptor.intercept(context as any, { handle });
+    const body = await lastValueFrom(result$);
+    return { body, status: responseHeaders['X-Cache'], responseHeaders };
+  };
+
+  const worker = { sub: 'worker-1' };
+
+  beforeEach(() => {
+    cache = new FakeCache();
+    interceptor = new CrudCacheInterceptor(reflector as any, cache as any);
+    let call = 0;
+    handle = jest.fn(() => of({ success: true, data: [{ call: ++call }] }));
+  });
+
+  it('serves repeated reads from the cache with the same ETag', async () => {
+    const miss = await request(worker);
+    const hit = await request(worker);
+
+    expect(miss.status).toBe('MISS');
+    expect(hit.status).toBe('HIT');
+    expect(hit.body).toEqual(miss.body);
+    expect(hit.responseHeaders.ETag).toBe(miss.responseHeaders.ETag);
+    expect(hit.responseHeaders['Cache-Control']).toBe('private, no-cache');
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a separate entry per requester', async () => {
+    await request(worker);
+    const other = await request({ sub: 'worker-2' });
+
+    expect(other.status).toBe('MISS');
+    expect(handle).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads again after a write invalidated the entity tag', async () => {
+    await request(worker);
+    await invalidateCrudCache(cache as any, 'Line');
+
+    const after = await request(worker);
+
+    expect(after.status).toBe('MISS');
+    expect(after.body).toEqual({ success: true, data: [{ call: 2 }] });
+  });
+
+  it('reads again after a write to a related entity tag', async () => {
+    await request(worker);
+    await invalidateCrudCache(cache as any, 'Factory');
+
+    expect((await request(worker)).status).toBe('MISS');
+  });
+
+  it('bypasses the cache on Cache-Control: no-cache but stores the result', async () => {
+    await request(worker);
+
+    const bypass = await request(worker, { 'cache-control': 'no-cache' });
+    const next = await request(worker);
+
+    expect(bypass.status).toBe('BYPASS');
+    expect(next.status).toBe('HIT');
+    expect(next.body).toEqual(bypass.body);
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  NestInterceptor,
+  Optional,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import { Observable, of } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { REDIS_CACHE_SERVICE } from '../../../common/redis/redis.constants';
+import { RedisCacheService } from '../../../common/redis/redis-cache.service';
+import { CRUD_OPTIONS } from '../decorators/crud-endpoint.decorator';
+import {
+  CrudControllerOptions,
+  CrudEndpointType,
+} from '../interfaces/crud-options.interface';
+import {
+  CRUD_CACHE_PREFIX,
+  DEFAULT_CRUD_CACHE_TTL,
+  createCrudETag,
+  getCrudCacheVersion,
+} from '../utils/crud-cache.utils';
+
+export const CRUD_CACHE_STATUS_HEADER = 'X-Cache';
+
+interface CachedResponse {
+  etag: string;
+  body: unknown;
+}
+
+/**
+ * Cache response của getAll/getOne/count theo `endpoints.<endpoint>.cache`.
+ * Khóa gồm entity, endpoint, phiên bản tag, requester và query; ghi trên entity
+ * (BaseCrudService) đổi phiên bản tag nên response cũ không còn được đọc.
+ * Luôn trả ETag (kể cả khi không bật cache); `If-None-Match` khớp thì Express
+ * tự trả 304, ETag của getOne gửi lại được qua `If-Match`
+ */
+@Injectable()
+export class CrudCacheInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    @Optional()
+    @Inject(REDIS_CACHE_SERVICE)
+    private readonly cache?: RedisCacheService,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<any>> {
+    const options = this.reflector.get<CrudControllerOptions>(
+      CRUD_OPTIONS,
+      context.getClass(),
+    );
+    const endpoint = this.reflector.get<CrudEndpointType>(
+      'crud:endpoint',
+      context.getHandler(),
+    );
+    const cacheOptions = endpoint && options?.endpoints?.[endpoint]?.cache;
+    if (!options) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+    // Không cache vẫn trả ETag của mình, không để Express tự sinh ETag mà If-Match không đọc được
+    if (!this.cache || !cacheOptions?.enabled) {
+      return next
+        .handle()
+        .pipe(tap((body) => response.setHeader('ETag', createCrudETag(body))));
+    }
+
+    const tags = [options.entityName, ...(cacheOptions.tags ?? [])];
+    const key = await this.buildKey(
+      options.entityName,
+      endpoint,
+      tags,
+      request,
+    );
+
+    // Client luôn phải hỏi lại server, dùng ETag để khỏi tải lại body
+    response.setHeader('Cache-Control', 'private, no-cache');
+
+    // `Cache-Control: no-cache` từ client: bỏ qua cache nhưng vẫn ghi lại kết quả mới
+    const bypass = /no-cache|no-store/.test(
+      request.headers['cache-control'] ?? '',
+    );
+    if (!bypass) {
+      const cached = await this.cache.get<CachedResponse>(key);
+      if (cached) {
+        response.setHeader('ETag', cached.etag);
+        response.setHeader(CRUD_CACHE_STATUS_HEADER, 'HIT');
+        return of(cached.body);
+      }
+    }
+
+    return next.handle().pipe(
+      tap((body) => {
+        const etag = createCrudETag(body);
+        response.setHeader('ETag', etag);
+        response.setHeader(
+          CRUD_CACHE_STATUS_HEADER,
+          bypass ? 'BYPASS' : 'MISS',
+        );
+        void this.cache!.set(
+          key,
+          { etag, body },
+          cacheOptions.ttl ?? DEFAULT_CRUD_CACHE_TTL,
+        );
+      }),
+    );
+  }
+
+  // Response phụ thuộc requester (quyền, phạm vi tổ chức) nên khóa theo từng requester
+  private async buildKey(
+    entityName: string,
+    endpoint: CrudEndpointType,
+    tags: string[],
+    request: any,
+  ): Promise<string> {
+    const version = await getCrudCacheVersion(this.cache!, tags);
+    const variant = this.cache!.generateCacheKey(endpoint, {
+      path: request.path,
+      query: request.query,
+      requester: request.requester,
+    });
+    const hash = createHash('sha1').update(variant).digest('base64url');
+    return `${CRUD_CACHE_PREFIX}:${entityName}:${endpoint}:${version}:${hash}`;
+  }
+}
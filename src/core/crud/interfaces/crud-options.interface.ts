@@ -10,7 +10,11 @@ export type CrudEndpointType =
   | 'create'
   | 'update'
   | 'delete'
-  | 'count';
+  | 'count'
+  | 'restore'
+  | 'trash'
+  | 'export'
+  | 'import';
 export interface CrudEndpointOptions {
   /** Bật/tắt endpoint này */
   enabled?: boolean;
@@ -20,13 +24,142 @@ export interface CrudEndpointOptions {
   description?: string;
   /** Ví dụ cho Swagger */
   examples?: Record<string, any>;
-  /** Tùy chọn cache */
+  /** Tùy chọn cache response (chỉ getAll/getOne/count), cần RedisModule */
   cache?: {
     enabled?: boolean;
+    /** Thời gian sống (giây), mặc định 60 */
     ttl?: number;
+    /**
+     * Entity khác mà response phụ thuộc (vd. quan hệ include);
+     * ghi trên các entity này cũng làm mất cache
+     */
+    tags?: string[];
   };
 }
 
+/**
+ * Tùy chọn xóa mềm: model phải có cột `deletedAt DateTime?`
+ */
+export interface SoftDeleteOptions {
+  /** Số ngày giữ bản ghi trong thùng rác trước khi cron xóa hẳn (mặc định 30) */
+  retentionDays?: number;
+}
+
+/**
+ * Toán tử lọc của DSL `filter[field][op]=value` trên endpoint danh sách
+ */
+export type CrudFilterOperator =
+  | 'eq'
+  | 'in'
+  | 'gte'
+  | 'lte'
+  | 'contains'
+  | 'between';
+
+/** Kiểu giá trị để ép kiểu từ query string */
+export type CrudFilterValueType =
+  | 'string'
+  | 'uuid'
+  | 'number'
+  | 'boolean'
+  | 'date';
+
+/**
+ * Một field được phép lọc
+ */
+export interface CrudFilterFieldOptions {
+  /** Kiểu giá trị (mặc định string) */
+  type?: CrudFilterValueType;
+  /** Các toán tử được phép */
+  operators: CrudFilterOperator[];
+  /**
+   * Đường dẫn Prisma nếu khác tên field, dùng cho lọc theo quan hệ
+   * (vd. `line.factoryId`, `members.some.userId`)
+   */
+  path?: string;
+  /** Giá trị hợp lệ (enum), hiển thị trên Swagger */
+  enum?: string[];
+  /** Mô tả cho Swagger */
+  description?: string;
+}
+
+/**
+ * Whitelist lọc/sắp xếp cho endpoint danh sách và thùng rác
+ */
+export interface CrudQueryOptions {
+  /** Các field được lọc, key là tên dùng trên query string */
+  filters?: Record<string, CrudFilterFieldOptions>;
+  /** Các field được sắp xếp (mặc định chỉ id, createdAt) */
+  sortable?: string[];
+  /** Sắp xếp mặc định của danh sách, cú pháp như `sort`; thùng rác luôn là `-deletedAt` */
+  defaultSort?: string;
+  /** Số bản ghi tối đa mỗi trang (mặc định 100) */
+  maxLimit?: number;
+}
+
+/**
+ * Một quan hệ được mở rộng qua `?include=`
+ */
+export interface CrudIncludeOptions {
+  /** Field của quan hệ được trả về; chỉ khai báo field an toàn để lộ ra */
+  fields: string[];
+  /** Quan hệ một-nhiều: số bản ghi tối đa được nhúng */
+  take?: number;
+}
+
+/**
+ * Allowlist cho `?fields=` và `?include=` trên các endpoint đọc
+ */
+export interface CrudSelectionOptions {
+  /** Field được chọn qua `?fields=`; `id` luôn được trả về */
+  fields: string[];
+  /** Quan hệ được mở rộng, key là tên quan hệ hoặc đường dẫn `line.factory` */
+  include?: Record<string, CrudIncludeOptions>;
+}
+
+/**
+ * Tùy chọn các endpoint bulk (`POST|PATCH|DELETE /bulk`);
+ * vai trò dùng chung với create/update/delete
+ */
+export interface CrudBulkOptions {
+  /** Bật/tắt (mặc định bật) */
+  enabled?: boolean;
+  /** Số phần tử tối đa mỗi request (mặc định 500) */
+  maxItems?: number;
+}
+
+/** Kiểu dữ liệu của một cột import/export */
+export type CrudTransferColumnType = 'string' | 'number' | 'boolean' | 'date';
+
+/**
+ * Một cột của file import/export
+ */
+export interface CrudTransferColumn {
+  /** Field của entity (và của DTO tạo mới khi import) */
+  field: string;
+  /** Tiêu đề cột trong file (mặc định là tên field) */
+  header?: string;
+  /** Kiểu để ép giá trị ô khi import (mặc định string) */
+  type?: CrudTransferColumnType;
+  /** Chỉ export, bỏ qua khi import (vd. id, createdAt) */
+  readonly?: boolean;
+}
+
+/**
+ * Import/export CSV, XLSX (`GET /export`, `POST /import`);
+ * vai trò mặc định theo getAll (export) và create (import)
+ */
+export interface CrudTransferOptions {
+  /** Các cột theo thứ tự trong file */
+  columns: CrudTransferColumn[];
+  /** Số dòng export tối đa (mặc định 50.000) */
+  maxExportRows?: number;
+  /** Số dòng dữ liệu import tối đa mỗi file (mặc định 1.000) */
+  maxImportRows?: number;
+  /** Dung lượng file import tối đa, byte (mặc định 5MB) */
+  maxFileSize?: number;
+}
+
 /**
  * Interface cho việc cấu hình CRUD controller
  * @template T - Entity type
@@ -55,6 +188,24 @@ export interface CrudControllerOptions<T = any, C = any, U = any, F = any> {
   /** Hooks lifecycle */
   hooks?: ICrudHooks<T, C, U>;
 
+  /**
+   * Whitelist cho DSL lọc/sắp xếp; field không khai báo bị từ chối (400).
+   * Không cấu hình: chỉ nhận sortBy/sortOrder như trước
+   */
+  query?: CrudQueryOptions;
+
+  /** Endpoint bulk */
+  bulk?: CrudBulkOptions;
+
+  /** Import/export file; không cấu hình thì hai endpoint trả 404 */
+  transfer?: CrudTransferOptions;
+
+  /** Allowlist fields/include; do createCrudModule điền từ CrudModuleOptions.selection */
+  selection?: CrudSelectionOptions;
+
+  /** Xóa mềm; do createCrudModule điền từ CrudModuleOptions.softDelete */
+  softDelete?: SoftDeleteOptions;
+
   /** Tên các DTO class để validate */
   dtoValidation?: {
     createDtoClass?: any;
@@ -94,6 +245,18 @@ export interface CrudModuleOptions<T, C, U, F = any> {
   /** Tùy chọn controller */
   controllerOptions?: CrudControllerOptions<T, C, U, F>;
 
+  /**
+   * Bật xóa mềm: DELETE chỉ gán deletedAt, thêm endpoint
+   * `POST /:id/restore` và `GET /trash`, cron xóa hẳn sau retentionDays
+   */
+  softDelete?: boolean | SoftDeleteOptions;
+
+  /**
+   * Cho phép `?fields=` (sparse fieldset) và `?include=` (nhúng quan hệ)
+   * trên danh sách, thùng rác và lấy theo ID; không khai báo thì từ chối (400)
+   */
+  selection?: CrudSelectionOptions;
+
   /** Các module phụ thuộc */
   imports?: any[];
 
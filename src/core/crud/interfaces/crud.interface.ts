@@ -1,4 +1,34 @@
 import { Paginated, Requester } from '../../../share';
+import { CrudFilterOperator } from './crud-options.interface';
+
+/**
+ * Một field sắp xếp
+ */
+export interface CrudSortField {
+  field: string;
+  order: 'asc' | 'desc';
+}
+
+/**
+ * Điều kiện lọc đã parse và validate theo whitelist
+ */
+export interface CrudFilterCondition {
+  /** Tên field trên query string */
+  field: string;
+  /** Đường dẫn Prisma (field hoặc `relation.field`) */
+  path: string;
+  operator: CrudFilterOperator;
+  value: unknown;
+}
+
+/**
+ * Field và quan hệ client yêu cầu, đã validate theo allowlist
+ */
+export interface CrudSelection {
+  /** Không có: trả về mọi field */
+  fields?: string[];
+  include?: string[];
+}
 
 /**
  * Interface định nghĩa cấu trúc cho pagination và sorting
@@ -8,6 +38,32 @@ export interface PagingDTO {
   limit: number;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  /** Sắp xếp nhiều field; có thì bỏ qua sortBy/sortOrder */
+  sort?: CrudSortField[];
+  /** Cursor mờ từ `paging.nextCursor`; có thì bỏ qua page */
+  cursor?: string;
+}
+
+/**
+ * Kết quả của một phần tử trong thao tác bulk
+ */
+export interface CrudBulkItemResult {
+  /** Vị trí trong mảng gửi lên */
+  index: number;
+  id?: string;
+  success: boolean;
+  error?: { message: string; statusCode: number };
+}
+
+/**
+ * Kết quả thao tác bulk; atomic = tất cả hoặc không gì cả
+ */
+export interface CrudBulkResult {
+  atomic: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: CrudBulkItemResult[];
 }
 
 /**
@@ -20,7 +76,7 @@ export interface ICrudService<T, C, U> {
   /**
    * Lấy entity theo ID
    */
-  getEntity(id: string): Promise<T>;
+  getEntity(id: string, selection?: CrudSelection): Promise<T>;
 
   /**
    * Tìm entity theo điều kiện
@@ -34,6 +90,7 @@ export interface ICrudService<T, C, U> {
     requester: Requester,
     conditions: any,
     pagination: PagingDTO,
+    selection?: CrudSelection,
   ): Promise<Paginated<T>>;
 
   /**
@@ -42,9 +99,15 @@ export interface ICrudService<T, C, U> {
   createEntity(requester: Requester, dto: C): Promise<string>;
 
   /**
-   * Cập nhật entity
+   * Cập nhật entity; có expectedVersion (updatedAt client đã đọc) thì
+   * trả 412 nếu bản ghi đã bị sửa sau đó
    */
-  updateEntity(requester: Requester, id: string, dto: U): Promise<void>;
+  updateEntity(
+    requester: Requester,
+    id: string,
+    dto: U,
+    expectedVersion?: Date,
+  ): Promise<void>;
 
   /**
    * Xóa entity
@@ -55,6 +118,48 @@ export interface ICrudService<T, C, U> {
    * Đếm số lượng entity theo điều kiện
    */
   countEntities(requester: Requester, conditions: any): Promise<number>;
+
+  /**
+   * Khôi phục entity đã xóa mềm
+   */
+  restoreEntity(requester: Requester, id: string): Promise<void>;
+
+  /**
+   * Tạo nhiều entity, kết quả theo từng phần tử
+   */
+  bulkCreateEntities(
+    requester: Requester,
+    items: C[],
+    atomic: boolean,
+  ): Promise<CrudBulkResult>;
+
+  /**
+   * Cập nhật nhiều entity, kết quả theo từng phần tử
+   */
+  bulkUpdateEntities(
+    requester: Requester,
+    items: { id: string; dto: U; version?: Date }[],
+    atomic: boolean,
+  ): Promise<CrudBulkResult>;
+
+  /**
+   * Xóa nhiều entity, kết quả theo từng phần tử
+   */
+  bulkDeleteEntities(
+    requester: Requester,
+    ids: string[],
+    atomic: boolean,
+  ): Promise<CrudBulkResult>;
+
+  /**
+   * Lấy danh sách entity trong thùng rác
+   */
+  listDeletedEntities(
+    requester: Requester,
+    conditions: any,
+    pagination: PagingDTO,
+    selection?: CrudSelection,
+  ): Promise<Paginated<T>>;
 }
 
 /**
@@ -67,7 +172,7 @@ export interface ICrudRepository<T, C, U> {
   /**
    * Lấy entity theo ID
    */
-  get(id: string): Promise<T | null>;
+  get(id: string, selection?: CrudSelection): Promise<T | null>;
 
   /**
    * Tìm entity theo điều kiện
@@ -77,7 +182,11 @@ export interface ICrudRepository<T, C, U> {
   /**
    * Lấy danh sách entity với phân trang
    */
-  list(conditions: any, pagination: PagingDTO): Promise<Paginated<T>>;
+  list(
+    conditions: any,
+    pagination: PagingDTO,
+    selection?: CrudSelection,
+  ): Promise<Paginated<T>>;
 
   /**
    * Tạo mới entity
@@ -85,9 +194,13 @@ export interface ICrudRepository<T, C, U> {
   insert(entity: any): Promise<string>;
 
   /**
-   * Cập nhật entity
+   * Cập nhật entity; có expectedUpdatedAt thì chỉ ghi khi updatedAt còn khớp (412 nếu không)
    */
-  update(id: string, dto: Partial<T>): Promise<void>;
+  update(
+    id: string,
+    dto: Partial<T>,
+    options?: { expectedUpdatedAt?: Date },
+  ): Promise<void>;
 
   /**
    * Xóa entity
@@ -98,6 +211,34 @@ export interface ICrudRepository<T, C, U> {
    * Đếm số lượng entity theo điều kiện
    */
   count(conditions: any): Promise<number>;
+
+  /**
+   * Lấy danh sách entity đã xóa mềm
+   */
+  listDeleted(
+    conditions: any,
+    pagination: PagingDTO,
+    selection?: CrudSelection,
+  ): Promise<Paginated<T>>;
+
+  /**
+   * Khôi phục entity đã xóa mềm
+   */
+  restore(id: string): Promise<void>;
+
+  /**
+   * Xóa hẳn các entity đã xóa mềm trước thời điểm `before`, trả về số bản ghi đã xóa
+   */
+  purgeDeleted(before: Date): Promise<number>;
+
+  /**
+   * Chạy callback trong một transaction; các thao tác của repository
+   * bên trong callback đều dùng transaction đó
+   */
+  transaction<R>(
+    callback: (tx: any) => Promise<R>,
+    options?: { timeout?: number },
+  ): Promise<R>;
 }
 
 /**
@@ -0,0 +1,63 @@
+import { createHash } from 'crypto';
+import { RedisCacheService } from '../../../common/redis/redis-cache.service';
+import { entityETag } from '../../../share/concurrency';
+
+export const CRUD_CACHE_PREFIX = 'crud:cache';
+
+// TTL mặc định (giây) khi endpoint bật cache mà không khai báo ttl
+export const DEFAULT_CRUD_CACHE_TTL = 60;
+
+// Phiên bản tag phải sống lâu hơn mọi entry dùng nó
+const TAG_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const tagKey = (tag: string) => `${CRUD_CACHE_PREFIX}:tag:${tag}`;
+
+/**
+ * Phiên bản hiện tại của các tag, ghép vào khóa cache.
+ * Invalidate chỉ đổi phiên bản nên không cần quét/xóa khóa, entry cũ tự hết hạn
+ */
+export async function getCrudCacheVersion(
+  cache: RedisCacheService,
+  tags: string[],
+): Promise<string> {
+  const versions = await Promise.all(
+    tags.map((tag) => cache.get<string>(tagKey(tag))),
+  );
+  return versions.map((version) => version ?? '0').join('.');
+}
+
+/**
+ * Làm mất hiệu lực mọi response đã cache gắn với các tag (tên entity)
+ */
+export async function invalidateCrudCache(
+  cache: RedisCacheService | undefined,
+  ...tags: string[]
+): Promise<void> {
+  if (!cache) {
+    return;
+  }
+  const version = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  await Promise.all(
+    tags.map((tag) => cache.set(tagKey(tag), version, TAG_TTL_SECONDS)),
+  );
+}
+
+/**
+ * Weak ETag theo nội dung body; response một bản ghi có updatedAt thì ETag
+ * mang luôn phiên bản để gửi lại nguyên văn qua If-Match
+ */
+export function createCrudETag(body: unknown): string {
+  const hash = createHash('sha1')
+    .update(JSON.stringify(body) ?? '')
+    .digest('base64url');
+  const updatedAt = (body as { data?: { updatedAt?: unknown } } | null)?.data
+    ?.updatedAt;
+  // Body lấy từ cache đã qua JSON nên updatedAt có thể là chuỗi ISO
+  const version =
+    updatedAt instanceof Date || typeof updatedAt === 'string'
+      ? new Date(updatedAt)
+      : null;
+  return version && !Number.isNaN(version.getTime())
+    ? entityETag(version, hash)
+    : `W/"${hash}"`;
+}
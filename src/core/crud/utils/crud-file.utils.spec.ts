@@ -0,0 +1,154 @@
+import { crc32 } from 'zlib';
+import { AppError } from '../../../share';
+import {
+  buildXlsx,
+  parseCsv,
+  parseXlsx,
+  resolveFileFormat,
+  toCsvLine,
+} from './crud-file.utils';
+
+// Zip không nén (method 0) để dựng file XLSX tùy ý trong test
+function storedZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [path, content] of Object.entries(files)) {
+    const name = Buffer.from(path);
+    const data = Buffer.from(content);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length / 2, 8);
+  end.writeUInt16LE(centrals.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const sheet = (rows: string, sharedStrings?: string) =>
+  storedZip({
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${rows}</sheetData></worksheet>`,
+    ...(sharedStrings && { 'xl/sharedStrings.xml': sharedStrings }),
+  });
+
+const expectBadRequest = (fn: () => unknown, message: RegExp) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(400);
+    expect(error.message).toMatch(message);
+    return;
+  }
+  throw new Error('Expected a 400 AppError');
+};
+
+describe('crud-file utils', () => {
+  describe('resolveFileFormat', () => {
+    it('reads the format from a file name', () => {
+      expect(resolveFileFormat('users.XLSX')).toBe('xlsx');
+      expect(resolveFileFormat('csv')).toBe('csv');
+    });
+
+    it('rejects other formats', () => {
+      expectBadRequest(() => resolveFileFormat('users.xls'), /csv and xlsx/);
+    });
+  });
+
+  describe('CSV', () => {
+    it('quotes special characters and neutralises formulas', () => {
+      expect(toCsvLine(['a,b', 'say "hi"', '=SUM(A1)', 3, null])).toBe(
+        '"a,b","say ""hi""",\'=SUM(A1),3,\r\n',
+      );
+    });
+
+    it('round-trips through parseCsv', () => {
+      const text =
+        toCsvLine(['name', 'note']) +
+        toCsvLine(['Nguyễn Văn A', 'line\nbreak']);
+      expect(parseCsv(Buffer.from(`﻿${text}`))).toEqual([
+        ['name', 'note'],
+        ['Nguyễn Văn A', 'line\nbreak'],
+      ]);
+    });
+
+    it('detects semicolon delimiters', () => {
+      expect(parseCsv(Buffer.from('a;b\n1;2'))).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('rejects an unterminated quoted value', () => {
+      expectBadRequest(() => parseCsv(Buffer.from('a\n"open')), /unterminated/);
+    });
+  });
+
+  describe('XLSX', () => {
+    it('round-trips a workbook built by buildXlsx', () => {
+      const rows = [
+        ['name', 'age', 'active'],
+        ['<Trần & Lê>', 30, true],
+        [null, 1.5, false],
+      ];
+      expect(parseXlsx(buildXlsx(rows), 10)).toEqual([
+        ['name', 'age', 'active'],
+        ['<Trần & Lê>', 30, true],
+        [null, 1.5, false],
+      ]);
+    });
+
+    it('reads shared strings and keeps gaps between cells', () => {
+      const file = sheet(
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+          '<row r="3"><c r="B3"><v>7</v></c></row>',
+        '<sst><si><t>x</t></si><si><r><t>y</t></r><r><t>z</t></r></si></sst>',
+      );
+      expect(parseXlsx(file, 10)).toEqual([['x', null, 'yz'], [], [null, 7]]);
+    });
+
+    it('rejects row references beyond the row limit before allocating', () => {
+      const file = sheet(
+        '<row r="100000000"><c r="A100000000"><v>1</v></c></row>',
+      );
+      expectBadRequest(() => parseXlsx(file, 101), /exceeds 100 data rows/);
+    });
+
+    it('rejects column references beyond the sheet limit', () => {
+      expectBadRequest(
+        () =>
+          parseXlsx(sheet('<row r="1"><c r="ZZZZZ1"><v>1</v></c></row>'), 10),
+        /out of range/,
+      );
+      expectBadRequest(
+        () => parseXlsx(sheet('<row r="1"><c r="XFE1"><v>1</v></c></row>'), 10),
+        /out of range/,
+      );
+    });
+
+    it('rejects non-zip content', () => {
+      expectBadRequest(
+        () => parseXlsx(Buffer.from('not a zip'), 10),
+        /Invalid XLSX file/,
+      );
+    });
+  });
+});
@@ -0,0 +1,480 @@
+import { crc32, deflateRawSync, inflateRawSync } from 'zlib';
+import { AppError } from '../../../share';
+
+/**
+ * Đọc/ghi bảng dữ liệu dạng CSV và XLSX cho import/export CRUD.
+ * XLSX chỉ dùng phần tối thiểu của định dạng (một sheet, không style),
+ * tự đóng gói zip bằng zlib nên không cần thư viện ngoài
+ */
+
+export type CrudFileFormat = 'csv' | 'xlsx';
+
+export type CrudTableCell = string | number | boolean | null;
+
+/** Bảng dữ liệu, dòng đầu là tiêu đề */
+export type CrudTable = CrudTableCell[][];
+
+export const CRUD_FILE_CONTENT_TYPES: Record<CrudFileFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Giới hạn dữ liệu giải nén của một file XLSX, chặn zip bomb
+const MAX_XLSX_ENTRY_SIZE = 50 * 1024 * 1024;
+// Số cột tối đa của một sheet Excel (XFD)
+const MAX_XLSX_COLUMNS = 16384;
+
+const invalidFile = (message: string) => AppError.from(new Error(message), 400);
+
+/**
+ * Định dạng file theo tham số `format` hoặc tên file upload
+ */
+export function resolveFileFormat(value: string | undefined): CrudFileFormat {
+  const format = value?.toLowerCase().split('.').pop();
+  if (format === 'csv' || format === 'xlsx') {
+    return format;
+  }
+  throw invalidFile('Only csv and xlsx files are supported');
+}
+
+// ===== CSV =====
+
+// Ô bắt đầu bằng các ký tự này bị Excel hiểu là công thức (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// BOM để Excel nhận đúng UTF-8 (tiếng Việt)
+export const CSV_BOM = '﻿';
+
+/**
+ * Một dòng CSV theo RFC 4180, kết thúc bằng CRLF
+ */
+export function toCsvLine(cells: CrudTableCell[]): string {
+  return (
+    cells
+      .map((cell) => {
+        if (cell === null || cell === undefined) {
+          return '';
+        }
+        let text = String(cell);
+        if (typeof cell === 'string' && FORMULA_PREFIX.test(text)) {
+          text = `'${text}`;
+        }
+        return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
+
+/**
+ * Parse CSV; dấu phân cách (`,` `;` hoặc tab) đoán theo dòng tiêu đề
+ * vì Excel theo locale vi-VN lưu CSV bằng `;`
+ */
+export function parseCsv(buffer: Buffer): CrudTable {
+  const text = buffer.toString('utf8').replace(/^﻿/, '');
+  const delimiter = detectDelimiter(text);
+
+  const rows: CrudTable = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw invalidFile(`CSV has an unterminated quoted value`);
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: header.split(delimiter).length,
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+// ===== XLSX =====
+
+const SPREADSHEET_NS =
+  'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS =
+  'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/**
+ * Workbook một sheet; chuỗi ghi dạng inline nên không cần sharedStrings
+ */
+export function buildXlsx(rows: CrudTable, sheetName = 'Sheet1'): Buffer {
+  const sheetData = rows
+    .map(
+      (cells, r) =>
+        `<row r="${r + 1}">${cells
+          .map((cell, c) => xlsxCell(cell, `${columnName(c)}${r + 1}`))
+          .join('')}</row>`,
+    )
+    .join('');
+  // Tên sheet tối đa 31 ký tự, không chứa []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+
+  return zip({
+    '[Content_Types].xml':
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+    '_rels/.rels':
+      `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>',
+    'xl/workbook.xml':
+      `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+      `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels':
+      `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      '</Relationships>',
+    'xl/worksheets/sheet1.xml': `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetData}</sheetData></worksheet>`,
+  });
+}
+
+/**
+ * Đọc sheet đầu tiên của workbook. Chỉ số dòng/cột lấy từ thuộc tính `r`
+ * trong file nên phải chặn trước khi cấp phát, `maxRows` tính cả dòng tiêu đề
+ */
+export function parseXlsx(buffer: Buffer, maxRows: number): CrudTable {
+  const archive = unzip(buffer);
+  const read = (path: string) => archive.get(path)?.toString('utf8');
+
+  const sharedStrings = [
+    ...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+  ].map((match) => richText(match[1]));
+
+  const sheet = read(firstSheetPath(read));
+  if (!sheet) {
+    throw invalidFile('XLSX file has no worksheet');
+  }
+
+  const rows: CrudTable = [];
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+  for (const [, rowAttrs, rowBody = ''] of sheet.matchAll(rowPattern)) {
+    const rowIndex = Number(attribute(rowAttrs, 'r') ?? rows.length + 1) - 1;
+    if (!Number.isInteger(rowIndex) || rowIndex < 0) {
+      throw invalidFile('Invalid XLSX file: bad row reference');
+    }
+    if (rowIndex >= maxRows) {
+      throw invalidFile(`File exceeds ${maxRows - 1} data rows`);
+    }
+    const cells: CrudTableCell[] = [];
+    for (const [, cellAttrs, cellBody = ''] of rowBody.matchAll(cellPattern)) {
+      const ref = attribute(cellAttrs, 'r');
+      const column = ref ? columnIndex(ref) : cells.length;
+      if (column >= MAX_XLSX_COLUMNS) {
+        throw invalidFile(`Invalid XLSX file: cell ${ref} is out of range`);
+      }
+      cells[column] = cellValue(
+        attribute(cellAttrs, 't'),
+        cellBody,
+        sharedStrings,
+      );
+    }
+    rows[rowIndex] = Array.from(cells, (cell) => cell ?? null);
+  }
+  return Array.from(rows, (row) => row ?? []);
+}
+
+function firstSheetPath(read: (path: string) => string | undefined): string {
+  const workbook = read('xl/workbook.xml') ?? '';
+  const sheet = workbook.match(/<sheet\b[^>]*>/)?.[0] ?? '';
+  const relationId = sheet.match(/\br:id="([^"]+)"/)?.[1];
+  const relations = read('xl/_rels/workbook.xml.rels') ?? '';
+  const relation = [...relations.matchAll(/<Relationship\b[^>]*>/g)]
+    .map((match) => match[0])
+    .find((tag) => attribute(tag, 'Id') === relationId);
+  const target = relation && attribute(relation, 'Target');
+  if (!target) {
+    return 'xl/worksheets/sheet1.xml';
+  }
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+function cellValue(
+  type: string | undefined,
+  body: string,
+  sharedStrings: string[],
+): CrudTableCell {
+  if (type === 'inlineStr') {
+    return richText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '');
+  }
+  const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  if (raw === undefined) {
+    return null;
+  }
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(raw)] ?? null;
+    case 'b':
+      return raw === '1';
+    case 'str':
+      return decodeXml(raw);
+    case 'e':
+      return null;
+    default:
+      return Number(raw);
+  }
+}
+
+// Ghép các đoạn <t> của rich text, bỏ phần phiên âm (rPh)
+function richText(xml: string): string {
+  return [
+    ...xml
+      .replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+      .matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g),
+  ]
+    .map((match) => decodeXml(match[1]))
+    .join('');
+}
+
+function xlsxCell(cell: CrudTableCell, ref: string): string {
+  if (cell === null || cell === undefined || cell === '') {
+    return '';
+  }
+  if (typeof cell === 'number' && Number.isFinite(cell)) {
+    return `<c r="${ref}"><v>${cell}</v></c>`;
+  }
+  if (typeof cell === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// "AB12" -> 27; quá 3 chữ cái thì chắc chắn vượt MAX_XLSX_COLUMNS
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  if (letters.length > 3) {
+    return MAX_XLSX_COLUMNS;
+  }
+  return (
+    [...letters].reduce(
+      (index, char) => index * 26 + char.charCodeAt(0) - 64,
+      0,
+    ) - 1
+  );
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  const value = attrs.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+  return value === undefined ? undefined : decodeXml(value);
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      // Ký tự điều khiển không hợp lệ trong XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  );
+}
+
+function decodeXml(text: string): string {
+  return text.replace(
+    /&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi,
+    (entity, name: string) => {
+      switch (name.toLowerCase()) {
+        case 'amp':
+          return '&';
+        case 'lt':
+          return '<';
+        case 'gt':
+          return '>';
+        case 'quot':
+          return '"';
+        case 'apos':
+          return "'";
+        default:
+          return String.fromCodePoint(
+            name[1].toLowerCase() === 'x'
+              ? parseInt(name.slice(2), 16)
+              : parseInt(name.slice(1), 10),
+          );
+      }
+    },
+  );
+}
+
+// ===== ZIP (chỉ phần XLSX cần: deflate, không zip64, không mã hóa) =====
+
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [path, content] of Object.entries(files)) {
+    const name = Buffer.from(path, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const checksum = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // tên file UTF-8
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(0, 10); // giờ
+    local.writeUInt16LE(0x21, 12); // ngày 1980-01-01
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// Giải nén lười: chỉ inflate file được đọc
+function unzip(buffer: Buffer): { get(path: string): Buffer | undefined } {
+  try {
+    let end = -1;
+    for (
+      let i = buffer.length - 22;
+      i >= Math.max(0, buffer.length - 22 - 0xffff);
+      i--
+    ) {
+      if (buffer.readUInt32LE(i) === 0x06054b50) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) {
+      throw new Error('missing end of central directory');
+    }
+
+    const entries = new Map<string, () => Buffer>();
+    let pointer = buffer.readUInt32LE(end + 16);
+    for (let i = 0; i < buffer.readUInt16LE(end + 10); i++) {
+      if (buffer.readUInt32LE(pointer) !== 0x02014b50) {
+        throw new Error('corrupt central directory');
+      }
+      const method = buffer.readUInt16LE(pointer + 10);
+      const compressedSize = buffer.readUInt32LE(pointer + 20);
+      const nameLength = buffer.readUInt16LE(pointer + 28);
+      const extraLength = buffer.readUInt16LE(pointer + 30);
+      const commentLength = buffer.readUInt16LE(pointer + 32);
+      const localOffset = buffer.readUInt32LE(pointer + 42);
+      const name = buffer.toString(
+        'utf8',
+        pointer + 46,
+        pointer + 46 + nameLength,
+      );
+
+      entries.set(name, () => {
+        const start =
+          localOffset +
+          30 +
+          buffer.readUInt16LE(localOffset + 26) +
+          buffer.readUInt16LE(localOffset + 28);
+        const raw = buffer.subarray(start, start + compressedSize);
+        if (method === 0) {
+          return raw;
+        }
+        if (method !== 8) {
+          throw new Error(`unsupported compression method ${method}`);
+        }
+        return inflateRawSync(raw, { maxOutputLength: MAX_XLSX_ENTRY_SIZE });
+      });
+      pointer += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return {
+      get: (path) => {
+        const entry = entries.get(path);
+        try {
+          return entry?.();
+        } catch (error) {
+          throw invalidFile(`Invalid XLSX file: ${error.message}`);
+        }
+      },
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw invalidFile(`Invalid XLSX file: ${error.message}`);
+  }
+}
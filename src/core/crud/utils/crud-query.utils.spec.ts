@@ -0,0 +1,239 @@
+import { AppError } from '../../../share';
+import {
+  CrudQueryOptions,
+  CrudSelectionOptions,
+} from '../interfaces/crud-options.interface';
+import {
+  cursorToWhere,
+  encodeCursor,
+  filtersToWhere,
+  parseCrudListQuery,
+  parseCrudSelection,
+  pickSelected,
+  resolveSort,
+  selectionToPrismaArgs,
+  sortToOrderBy,
+} from './crud-query.utils';
+
+const badRequest = (fn: () => unknown): AppError => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(AppError);
+    expect((error as AppError).getStatusCode()).toBe(400);
+    return error as AppError;
+  }
+  throw new Error('Expected a 400 error');
+};
+
+describe('parseCrudListQuery', () => {
+  const options: CrudQueryOptions = {
+    sortable: ['name', 'createdAt', 'deletedAt'],
+    filters: {
+      status: { operators: ['eq', 'in'], enum: ['ACTIVE', 'INACTIVE'] },
+      factoryId: { type: 'uuid', operators: ['eq'], path: 'line.factoryId' },
+      quantity: { type: 'number', operators: ['gte', 'between'] },
+      name: { operators: ['contains'] },
+    },
+  };
+
+  it('parses filters, sort and paging', () => {
+    const { conditions, pagination } = parseCrudListQuery(
+      {
+        filter: {
+          status: { in: 'ACTIVE,INACTIVE' },
+          quantity: { between: '1,10' },
+          factoryId: '6f1c1a56-2f3e-4a3c-9f5e-1b2c3d4e5f60',
+        },
+        sort: '-createdAt,name',
+        limit: '500',
+        legacy: 'kept',
+      },
+      options,
+      '-createdAt',
+    );
+
+    expect(conditions.legacy).toBe('kept');
+    expect(filtersToWhere(conditions.filter)).toEqual([
+      { status: { in: ['ACTIVE', 'INACTIVE'] } },
+      { quantity: { gte: 1, lte: 10 } },
+      {
+        line: {
+          factoryId: { equals: '6f1c1a56-2f3e-4a3c-9f5e-1b2c3d4e5f60' },
+        },
+      },
+    ]);
+    expect(pagination).toMatchObject({
+      limit: 100,
+      sort: [
+        { field: 'createdAt', order: 'desc' },
+        { field: 'name', order: 'asc' },
+      ],
+    });
+  });
+
+  it('rejects fields, operators and values outside the whitelist', () => {
+    const parse = (query: Record<string, any>) => () =>
+      parseCrudListQuery(query, options, '-createdAt');
+
+    badRequest(parse({ filter: { password: 'x' } }));
+    badRequest(parse({ filter: { status: { contains: 'ACT' } } }));
+    badRequest(parse({ filter: { status: 'DELETED' } }));
+    badRequest(parse({ filter: { factoryId: 'not-a-uuid' } }));
+    badRequest(parse({ filter: { quantity: { gte: 'many' } } }));
+    badRequest(parse({ filter: { quantity: { between: '1' } } }));
+    badRequest(parse({ sort: 'password' }));
+    badRequest(parse({ sort: 'name,-name' }));
+  });
+
+  it('only allows sorting by id and createdAt when the module sets no whitelist', () => {
+    const parse = (sort: string) =>
+      parseCrudListQuery({ sort }, undefined, '-updatedAt');
+
+    expect(parse('-createdAt,id').pagination.sort).toHaveLength(2);
+    expect(badRequest(() => parse('password')).message).toContain(
+      'Allowed fields: id, createdAt',
+    );
+    // Sort mặc định của module không phải do client gửi nên không bị chặn
+    expect(
+      parseCrudListQuery({}, undefined, '-updatedAt').pagination.sort,
+    ).toEqual([{ field: 'updatedAt', order: 'desc' }]);
+  });
+});
+
+describe('cursor pagination', () => {
+  const sort = resolveSort({
+    page: 1,
+    limit: 10,
+    sort: [{ field: 'deletedAt', order: 'desc' }],
+  });
+  const nullable = new Set(['deletedAt']);
+
+  it('keeps null values last in either direction', () => {
+    expect(sortToOrderBy(sort, nullable)).toEqual([
+      { deletedAt: { sort: 'desc', nulls: 'last' } },
+      { id: 'desc' },
+    ]);
+  });
+
+  it('continues after a non-null value into the null rows', () => {
+    const at = '2026-10-01T00:00:00.000Z';
+    const cursor = encodeCursor(sort, { id: 'b', deletedAt: at });
+
+    expect(cursorToWhere(cursor, sort, nullable)).toEqual({
+      OR: [
+        { AND: [{ OR: [{ deletedAt: { lt: at } }, { deletedAt: null }] }] },
+        { deletedAt: at, id: { lt: 'b' } },
+      ],
+    });
+  });
+
+  it('only walks the tiebreaker once the cursor reached the null rows', () => {
+    const cursor = encodeCursor(sort, { id: 'b', deletedAt: null });
+
+    expect(cursorToWhere(cursor, sort, nullable)).toEqual({
+      OR: [{ deletedAt: null, id: { lt: 'b' } }],
+    });
+  });
+
+  it('rejects cursors that are malformed or belong to another sort', () => {
+    const other = resolveSort({
+      page: 1,
+      limit: 10,
+      sort: [{ field: 'name', order: 'desc' }],
+    });
+
+    badRequest(() => cursorToWhere('not-json', sort));
+    expect(
+      badRequest(() =>
+        cursorToWhere(encodeCursor(other, { id: 'b', name: 'x' }), sort),
+      ).message,
+    ).toBe('Cursor does not match the requested sort');
+  });
+});
+
+describe('field selection', () => {
+  const options: CrudSelectionOptions = {
+    fields: ['name', 'code', 'createdAt'],
+    include: {
+      line: { fields: ['name'] },
+      'line.factory': { fields: ['name', 'code'] },
+      members: { fields: ['userId'], take: 50 },
+    },
+  };
+
+  it('parses fields and includes from the allowlist', () => {
+    expect(
+      parseCrudSelection(
+        { fields: 'name, id,name', include: 'line.factory' },
+        options,
+      ),
+    ).toEqual({ fields: ['name', 'id'], include: ['line.factory'] });
+    expect(parseCrudSelection({}, undefined)).toEqual({});
+  });
+
+  it('rejects fields and relations outside the allowlist', () => {
+    expect(
+      badRequest(() => parseCrudSelection({ fields: 'password' }, options))
+        .message,
+    ).toContain('Field "password" cannot be selected');
+    expect(
+      badRequest(() => parseCrudSelection({ include: 'users' }, options))
+        .message,
+    ).toContain('Relation "users" cannot be included');
+    badRequest(() => parseCrudSelection({ fields: 'name' }, undefined));
+  });
+
+  it('selects only the chosen fields plus the ones the query needs', () => {
+    expect(
+      selectionToPrismaArgs({ fields: ['name'] }, options, ['createdAt']),
+    ).toEqual({ select: { id: true, name: true, createdAt: true } });
+  });
+
+  it('nests included relations and limits to-many ones', () => {
+    expect(
+      selectionToPrismaArgs({ include: ['line.factory', 'members'] }, options),
+    ).toEqual({
+      include: {
+        // line không được include riêng nên chỉ lấy id
+        line: {
+          select: {
+            id: true,
+            factory: { select: { id: true, name: true, code: true } },
+          },
+        },
+        members: { select: { id: true, userId: true }, take: 50 },
+      },
+    });
+  });
+
+  it('keeps included relations inside a sparse select', () => {
+    expect(
+      selectionToPrismaArgs(
+        { fields: ['code'], include: ['line', 'line.factory'] },
+        options,
+      ),
+    ).toEqual({
+      select: {
+        id: true,
+        code: true,
+        line: {
+          select: {
+            id: true,
+            name: true,
+            factory: { select: { id: true, name: true, code: true } },
+          },
+        },
+      },
+    });
+  });
+
+  it('drops fields fetched only for internal use', () => {
+    expect(
+      pickSelected(
+        { id: '1', name: 'A', createdAt: 'x', line: { id: 'l' } },
+        { fields: ['name'], include: ['line.factory'] },
+      ),
+    ).toEqual({ id: '1', name: 'A', line: { id: 'l' } });
+  });
+});
@@ -0,0 +1,512 @@
+import { AppError } from '../../../share';
+import {
+  CrudFilterCondition,
+  CrudSelection,
+  CrudSortField,
+  PagingDTO,
+} from '../interfaces/crud.interface';
+import {
+  CrudFilterFieldOptions,
+  CrudFilterOperator,
+  CrudQueryOptions,
+  CrudSelectionOptions,
+} from '../interfaces/crud-options.interface';
+
+// Các key của query string không phải điều kiện lọc cũ
+const RESERVED_QUERY_KEYS = new Set([
+  'page',
+  'limit',
+  'sortBy',
+  'sortOrder',
+  'sort',
+  'cursor',
+  'filter',
+  'fields',
+  'include',
+]);
+
+const DEFAULT_MAX_LIMIT = 100;
+const MAX_SORT_FIELDS = 5;
+const MAX_IN_VALUES = 100;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Field luôn được thêm cuối để thứ tự (và cursor) ổn định
+export const CURSOR_TIEBREAKER = 'id';
+
+// Module không khai báo `sortable` thì chỉ cho sắp xếp theo các field này
+export const DEFAULT_SORTABLE_FIELDS = [CURSOR_TIEBREAKER, 'createdAt'];
+
+const badRequest = (message: string) => AppError.from(new Error(message), 400);
+
+/**
+ * Parse query string của endpoint danh sách:
+ * `filter[field][op]=value`, `sort=-createdAt,name`, `cursor`, `page`, `limit`.
+ * Các key còn lại giữ nguyên làm điều kiện lọc cũ của repository
+ */
+export const parseCrudListQuery = (
+  query: Record<string, any>,
+  options: CrudQueryOptions | undefined,
+  defaultSort: string,
+): { conditions: Record<string, any>; pagination: PagingDTO } => {
+  const conditions: Record<string, any> = {};
+  for (const [key, value] of Object.entries(query || {})) {
+    if (!RESERVED_QUERY_KEYS.has(key)) conditions[key] = value;
+  }
+
+  const filters = parseFilters(query?.filter, options);
+  if (filters.length > 0) {
+    conditions.filter = filters;
+  }
+
+  const sort = parseSort(query, options, defaultSort);
+  const maxLimit = options?.maxLimit ?? DEFAULT_MAX_LIMIT;
+  const cursor = singleValue('cursor', query?.cursor);
+
+  return {
+    conditions,
+    pagination: {
+      page: Math.max(1, Number(query?.page) || 1),
+      limit: Math.min(maxLimit, Math.max(1, Number(query?.limit) || 10)),
+      sortBy: sort[0].field,
+      sortOrder: sort[0].order,
+      sort,
+      ...(cursor && { cursor }),
+    },
+  };
+};
+
+/**
+ * Chuẩn hóa danh sách sắp xếp từ PagingDTO (sort hoặc sortBy/sortOrder cũ)
+ * và thêm field phụ để thứ tự luôn xác định
+ */
+export const resolveSort = (pagination: PagingDTO): CrudSortField[] => {
+  const sort: CrudSortField[] = pagination.sort?.length
+    ? [...pagination.sort]
+    : [
+        {
+          field: pagination.sortBy || 'createdAt',
+          order: pagination.sortOrder || 'desc',
+        },
+      ];
+
+  if (!sort.some((item) => item.field === CURSOR_TIEBREAKER)) {
+    sort.push({
+      field: CURSOR_TIEBREAKER,
+      order: sort[sort.length - 1].order,
+    });
+  }
+  return sort;
+};
+
+/**
+ * Cursor mờ: base64url của giá trị các field sắp xếp ở bản ghi cuối trang,
+ * kèm chữ ký sort để không dùng nhầm cursor của kiểu sắp xếp khác
+ */
+export const encodeCursor = (sort: CrudSortField[], row: any): string =>
+  Buffer.from(
+    JSON.stringify({
+      s: sortSignature(sort),
+      v: sort.map((item) => row[item.field] ?? null),
+    }),
+  ).toString('base64url');
+
+/**
+ * Prisma orderBy cho `sort`; field có thể null luôn xếp null cuối cùng
+ * (cả khi giảm dần) để cursorToWhere biết null đứng sau mọi giá trị
+ */
+export const sortToOrderBy = (
+  sort: CrudSortField[],
+  nullableFields: ReadonlySet<string> = new Set(),
+): Record<string, any>[] =>
+  sort.map((item) => ({
+    [item.field]: nullableFields.has(item.field)
+      ? { sort: item.order, nulls: 'last' }
+      : item.order,
+  }));
+
+/**
+ * Điều kiện where lấy các bản ghi đứng sau cursor theo thứ tự `sort`
+ * (cùng `nullableFields` đã dùng cho sortToOrderBy)
+ */
+export const cursorToWhere = (
+  cursor: string,
+  sort: CrudSortField[],
+  nullableFields: ReadonlySet<string> = new Set(),
+): any => {
+  let decoded: { s?: unknown; v?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw badRequest('Invalid cursor');
+  }
+
+  if (
+    !decoded ||
+    !Array.isArray(decoded.v) ||
+    decoded.v.length !== sort.length
+  ) {
+    throw badRequest('Invalid cursor');
+  }
+  if (decoded.s !== sortSignature(sort)) {
+    throw badRequest('Cursor does not match the requested sort');
+  }
+
+  const values = decoded.v;
+  // (a > x) OR (a = x AND b > y) OR ... ; với nulls last, sau x còn có các
+  // bản ghi a = null, còn sau null thì không còn gì ở field đó
+  const branches = sort
+    .map((item, index) => {
+      const value = values[index];
+      if (value === null) return null;
+      const branch: Record<string, any> = {};
+      for (let i = 0; i < index; i++) {
+        branch[sort[i].field] = values[i];
+      }
+      const after = { [item.order === 'asc' ? 'gt' : 'lt']: value };
+      if (nullableFields.has(item.field)) {
+        branch.AND = [
+          { OR: [{ [item.field]: after }, { [item.field]: null }] },
+        ];
+      } else {
+        branch[item.field] = after;
+      }
+      return branch;
+    })
+    .filter((branch) => branch !== null);
+
+  return { OR: branches };
+};
+
+/**
+ * Chuyển điều kiện lọc đã validate sang Prisma where (ghép bằng AND)
+ */
+export const filtersToWhere = (filters: CrudFilterCondition[]): any[] =>
+  filters.map((filter) => {
+    let clause: any = operatorClause(filter.operator, filter.value);
+    // `line.factoryId` -> { line: { factoryId: clause } }
+    for (const segment of filter.path.split('.').reverse()) {
+      clause = { [segment]: clause };
+    }
+    return clause;
+  });
+
+/**
+ * Parse `?fields=a,b` và `?include=rel,rel.child` theo allowlist của module
+ */
+export const parseCrudSelection = (
+  query: Record<string, any>,
+  options: CrudSelectionOptions | undefined,
+): CrudSelection => {
+  const fields = splitList('fields', query?.fields);
+  const include = splitList('include', query?.include);
+  if (fields.length === 0 && include.length === 0) {
+    return {};
+  }
+  if (!options) {
+    throw badRequest('Field selection is not supported for this resource');
+  }
+
+  for (const field of fields) {
+    if (field !== 'id' && !options.fields.includes(field)) {
+      throw badRequest(
+        `Field "${field}" cannot be selected. Allowed fields: ${options.fields.join(', ')}`,
+      );
+    }
+  }
+
+  const allowedIncludes = Object.keys(options.include || {});
+  for (const relation of include) {
+    if (!allowedIncludes.includes(relation)) {
+      throw badRequest(
+        `Relation "${relation}" cannot be included${allowedIncludes.length ? `. Allowed relations: ${allowedIncludes.join(', ')}` : ''}`,
+      );
+    }
+  }
+
+  return {
+    ...(fields.length > 0 && { fields: [...new Set(fields)] }),
+    ...(include.length > 0 && { include: [...new Set(include)] }),
+  };
+};
+
+/**
+ * Tham số `select`/`include` của Prisma cho selection đã validate.
+ * `required` là các field repository cần dù client không chọn (vd. field sort cho cursor)
+ */
+export const selectionToPrismaArgs = (
+  selection: CrudSelection | undefined,
+  options: CrudSelectionOptions | undefined,
+  required: string[] = [],
+): { select?: Record<string, any>; include?: Record<string, any> } => {
+  const relations: Record<string, any> = {};
+
+  // Sắp xếp để `line` được dựng trước `line.factory`
+  for (const path of [...(selection?.include || [])].sort()) {
+    const spec = options?.include?.[path];
+    if (!spec) continue;
+
+    let level = relations;
+    const segments = path.split('.');
+    segments.forEach((segment, index) => {
+      // Quan hệ cha không được include riêng thì chỉ lấy id
+      level[segment] = level[segment] || { select: { id: true } };
+      if (index === segments.length - 1) {
+        for (const field of spec.fields) level[segment].select[field] = true;
+        if (spec.take) level[segment].take = spec.take;
+      }
+      level = level[segment].select;
+    });
+  }
+
+  if (selection?.fields) {
+    const select: Record<string, any> = { id: true };
+    for (const field of [...selection.fields, ...required]) {
+      select[field] = true;
+    }
+    return { select: { ...select, ...relations } };
+  }
+
+  return Object.keys(relations).length > 0 ? { include: relations } : {};
+};
+
+/**
+ * Bỏ các field chỉ lấy thêm cho nội bộ (theo `required`) khỏi bản ghi trả về
+ */
+export const pickSelected = (
+  row: Record<string, any>,
+  selection: CrudSelection,
+): Record<string, any> => {
+  const keys = new Set([
+    'id',
+    ...(selection.fields || []),
+    ...(selection.include || []).map((path) => path.split('.')[0]),
+  ]);
+  return Object.fromEntries(
+    Object.entries(row).filter(([key]) => keys.has(key)),
+  );
+};
+
+function operatorClause(operator: CrudFilterOperator, value: any): any {
+  switch (operator) {
+    case 'eq':
+      return { equals: value };
+    case 'in':
+      return { in: value };
+    case 'gte':
+      return { gte: value };
+    case 'lte':
+      return { lte: value };
+    case 'contains':
+      return { contains: value, mode: 'insensitive' };
+    case 'between':
+      return { gte: value[0], lte: value[1] };
+  }
+}
+
+function parseFilters(
+  raw: unknown,
+  options: CrudQueryOptions | undefined,
+): CrudFilterCondition[] {
+  if (raw === undefined || raw === '') return [];
+  if (!isRecord(raw)) {
+    throw badRequest('Invalid filter, expected filter[field][operator]=value');
+  }
+
+  const allowed = options?.filters || {};
+  const result: CrudFilterCondition[] = [];
+
+  for (const [field, spec] of Object.entries(raw)) {
+    const fieldOptions = Object.prototype.hasOwnProperty.call(allowed, field)
+      ? allowed[field]
+      : undefined;
+    if (!fieldOptions) {
+      const names = Object.keys(allowed);
+      throw badRequest(
+        `Filtering by "${field}" is not allowed${names.length ? `. Allowed fields: ${names.join(', ')}` : ''}`,
+      );
+    }
+
+    // filter[field]=value là viết tắt của filter[field][eq]=value
+    const entries = isRecord(spec) ? Object.entries(spec) : [['eq', spec]];
+    for (const [operator, value] of entries) {
+      if (!fieldOptions.operators.includes(operator as CrudFilterOperator)) {
+        throw badRequest(
+          `Operator "${operator}" is not allowed on "${field}". Allowed operators: ${fieldOptions.operators.join(', ')}`,
+        );
+      }
+      result.push({
+        field,
+        path: fieldOptions.path || field,
+        operator: operator as CrudFilterOperator,
+        value: parseFilterValue(
+          field,
+          operator as CrudFilterOperator,
+          value,
+          fieldOptions,
+        ),
+      });
+    }
+  }
+
+  return result;
+}
+
+function parseFilterValue(
+  field: string,
+  operator: CrudFilterOperator,
+  raw: unknown,
+  options: CrudFilterFieldOptions,
+): unknown {
+  const list = (Array.isArray(raw) ? raw : String(raw ?? '').split(','))
+    .map((item) => String(item).trim())
+    .filter((item) => item !== '');
+
+  switch (operator) {
+    case 'in':
+      if (list.length === 0 || list.length > MAX_IN_VALUES) {
+        throw badRequest(
+          `Filter "${field}[in]" expects 1 to ${MAX_IN_VALUES} comma-separated values`,
+        );
+      }
+      return list.map((item) => coerceValue(field, item, options));
+
+    case 'between':
+      if (list.length !== 2) {
+        throw badRequest(
+          `Filter "${field}[between]" expects two comma-separated values`,
+        );
+      }
+      return list.map((item) => coerceValue(field, item, options));
+
+    case 'contains':
+      if ((options.type ?? 'string') !== 'string') {
+        throw badRequest(`Filter "${field}[contains]" requires a text field`);
+      }
+      return coerceValue(field, singleValue(`filter[${field}]`, raw), options);
+
+    default:
+      return coerceValue(field, singleValue(`filter[${field}]`, raw), options);
+  }
+}
+
+function coerceValue(
+  field: string,
+  value: string | undefined,
+  options: CrudFilterFieldOptions,
+): unknown {
+  if (value === undefined || value === '') {
+    throw badRequest(`Filter "${field}" requires a value`);
+  }
+
+  if (options.enum && !options.enum.includes(value)) {
+    throw badRequest(
+      `Invalid value for "${field}". Allowed values: ${options.enum.join(', ')}`,
+    );
+  }
+
+  switch (options.type ?? 'string') {
+    case 'uuid':
+      if (!UUID_PATTERN.test(value)) {
+        throw badRequest(`Filter "${field}" expects a UUID`);
+      }
+      return value;
+    case 'number': {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) {
+        throw badRequest(`Filter "${field}" expects a number`);
+      }
+      return parsed;
+    }
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') {
+        throw badRequest(`Filter "${field}" expects true or false`);
+      }
+      return value === 'true';
+    case 'date': {
+      const parsed = new Date(value);
+      if (Number.isNaN(parsed.getTime())) {
+        throw badRequest(`Filter "${field}" expects an ISO date`);
+      }
+      return parsed;
+    }
+    default:
+      return value;
+  }
+}
+
+function parseSort(
+  query: Record<string, any> | undefined,
+  options: CrudQueryOptions | undefined,
+  defaultSort: string,
+): CrudSortField[] {
+  let expression = singleValue('sort', query?.sort);
+
+  // Tương thích ngược với sortBy/sortOrder
+  if (!expression && query?.sortBy) {
+    const order = String(query.sortOrder || 'desc').toLowerCase();
+    expression = `${order === 'asc' ? '' : '-'}${singleValue('sortBy', query.sortBy)}`;
+  }
+
+  const explicit = !!expression;
+  expression = expression || defaultSort;
+  const sortable = options?.sortable ?? DEFAULT_SORTABLE_FIELDS;
+
+  const sort: CrudSortField[] = [];
+  for (const part of expression.split(',')) {
+    const token = part.trim();
+    if (!token) continue;
+
+    const desc = token.startsWith('-');
+    const field = desc || token.startsWith('+') ? token.slice(1) : token;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(field)) {
+      throw badRequest(`Invalid sort field "${field}"`);
+    }
+    // Chỉ kiểm tra whitelist với sort do client gửi lên
+    if (explicit && !sortable.includes(field)) {
+      throw badRequest(
+        `Sorting by "${field}" is not allowed. Allowed fields: ${sortable.join(', ')}`,
+      );
+    }
+    if (sort.some((item) => item.field === field)) {
+      throw badRequest(`Duplicate sort field "${field}"`);
+    }
+    sort.push({ field, order: desc ? 'desc' : 'asc' });
+  }
+
+  if (sort.length === 0) {
+    throw badRequest('Sort must contain at least one field');
+  }
+  if (sort.length > MAX_SORT_FIELDS) {
+    throw badRequest(`Sort supports at most ${MAX_SORT_FIELDS} fields`);
+  }
+  return sort;
+}
+
+function sortSignature(sort: CrudSortField[]): string {
+  return sort
+    .map((item) => `${item.order === 'desc' ? '-' : ''}${item.field}`)
+    .join(',');
+}
+
+function singleValue(name: string, value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value) || isRecord(value)) {
+    throw badRequest(`Query parameter "${name}" must be a single value`);
+  }
+  return String(value);
+}
+
+function splitList(name: string, value: unknown): string[] {
+  const raw = singleValue(name, value);
+  if (!raw) return [];
+  return raw
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,196 @@
+import { AppError } from '../../../share';
+import {
+  CrudTransferColumn,
+  CrudTransferColumnType,
+} from '../interfaces/crud-options.interface';
+import { CrudTable, CrudTableCell } from './crud-file.utils';
+
+export const DEFAULT_CRUD_MAX_EXPORT_ROWS = 50_000;
+export const DEFAULT_CRUD_MAX_IMPORT_ROWS = 1_000;
+export const DEFAULT_CRUD_MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+// Ngày 1900-01-00 của Excel tính theo epoch Unix (serial 25569 = 1970-01-01)
+const EXCEL_EPOCH_OFFSET = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Một lỗi của file import; row là số dòng trong file (tiêu đề là dòng 1)
+ */
+export interface CrudImportIssue {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+/**
+ * Một dòng dữ liệu đã đọc, chưa validate theo DTO
+ */
+export interface CrudImportRow {
+  row: number;
+  data: Record<string, any>;
+}
+
+const badRequest = (message: string) => AppError.from(new Error(message), 400);
+
+export const columnHeader = (column: CrudTransferColumn): string =>
+  column.header ?? column.field;
+
+/**
+ * Dòng tiêu đề của file export
+ */
+export function exportHeader(columns: CrudTransferColumn[]): string[] {
+  return columns.map(columnHeader);
+}
+
+/**
+ * Một entity thành một dòng; field lồng nhau dùng đường dẫn `line.name`
+ */
+export function toExportRow(
+  entity: Record<string, any>,
+  columns: CrudTransferColumn[],
+): CrudTableCell[] {
+  return columns.map((column) => {
+    const value = column.field
+      .split('.')
+      .reduce((current, key) => current?.[key], entity as any);
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return value;
+  });
+}
+
+/**
+ * Đọc bảng import theo cấu hình cột: khớp tiêu đề (không phân biệt hoa thường),
+ * ép kiểu từng ô. Ô không ép được kiểu thành lỗi của dòng đó,
+ * tiêu đề sai thì từ chối cả file
+ */
+export function readImportTable(
+  table: CrudTable,
+  columns: CrudTransferColumn[],
+  maxRows: number,
+): { total: number; rows: CrudImportRow[]; issues: CrudImportIssue[] } {
+  const [header = [], ...body] = table;
+  const byHeader = new Map(
+    columns.map((column) => [normalizeHeader(columnHeader(column)), column]),
+  );
+
+  const mapping: (CrudTransferColumn | null)[] = [];
+  const seen = new Set<string>();
+  for (const cell of header) {
+    const name = normalizeHeader(String(cell ?? ''));
+    if (!name) {
+      mapping.push(null);
+      continue;
+    }
+    const column = byHeader.get(name);
+    if (!column) {
+      throw badRequest(
+        `Unknown column "${cell}"; expected: ${exportHeader(columns).join(', ')}`,
+      );
+    }
+    if (seen.has(name)) {
+      throw badRequest(`Duplicate column "${cell}"`);
+    }
+    seen.add(name);
+    // Cột chỉ đọc (id, createdAt...) có trong file export, import bỏ qua
+    mapping.push(column.readonly ? null : column);
+  }
+  if (!mapping.some(Boolean)) {
+    throw badRequest('File has no importable columns');
+  }
+
+  const rows: CrudImportRow[] = [];
+  const issues: CrudImportIssue[] = [];
+  // Số dòng dữ liệu, không tính dòng trống
+  let count = 0;
+  for (const [index, cells] of body.entries()) {
+    if (cells.every(isBlank)) {
+      continue;
+    }
+    if (++count > maxRows) {
+      throw badRequest(`File exceeds ${maxRows} data rows`);
+    }
+
+    const row = index + 2;
+    const data: Record<string, any> = {};
+    let valid = true;
+    for (const [position, column] of mapping.entries()) {
+      const cell = cells[position];
+      if (!column || isBlank(cell)) {
+        continue;
+      }
+      try {
+        data[column.field] = coerceCell(
+          cell as Exclude<CrudTableCell, null>,
+          column.type ?? 'string',
+        );
+      } catch (error) {
+        valid = false;
+        issues.push({
+          row,
+          column: columnHeader(column),
+          message: error.message,
+        });
+      }
+    }
+    if (valid) {
+      rows.push({ row, data });
+    }
+  }
+
+  return { total: count, rows, issues };
+}
+
+// Ô trống bị bỏ qua: field không có trong DTO thay vì chuỗi rỗng
+function isBlank(cell: CrudTableCell | undefined): boolean {
+  return cell === null || cell === undefined || String(cell).trim() === '';
+}
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function coerceCell(
+  cell: Exclude<CrudTableCell, null>,
+  type: CrudTransferColumnType,
+): any {
+  const text = String(cell).trim();
+  switch (type) {
+    case 'number': {
+      const value = typeof cell === 'number' ? cell : Number(text);
+      if (text === '' || !Number.isFinite(value)) {
+        throw new Error(`Expected a number, got "${text}"`);
+      }
+      return value;
+    }
+    case 'boolean': {
+      if (typeof cell === 'boolean') {
+        return cell;
+      }
+      const normalized = text.toLowerCase();
+      if (['true', '1', 'yes', 'x'].includes(normalized)) return true;
+      if (['false', '0', 'no', ''].includes(normalized)) return false;
+      throw new Error(`Expected true/false, got "${text}"`);
+    }
+    case 'date': {
+      // XLSX lưu ngày dạng số serial
+      const value =
+        typeof cell === 'number'
+          ? new Date(Math.round((cell - EXCEL_EPOCH_OFFSET) * MS_PER_DAY))
+          : new Date(text);
+      if (Number.isNaN(value.getTime())) {
+        throw new Error(`Expected a date, got "${text}"`);
+      }
+      return value;
+    }
+    default:
+      return typeof cell === 'string' ? cell.trim() : String(cell);
+  }
+}
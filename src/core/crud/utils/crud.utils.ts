@@ -3,9 +3,13 @@ import { PagingDTO } from '../interfaces/crud.interface';
 import {
   CrudControllerOptions,
   CrudEndpointType,
+  CrudFilterOperator,
+  CrudSelectionOptions,
 } from '../interfaces/crud-options.interface';
 import { Type } from '@nestjs/common';
-import { ZodSchema } from 'zod';
+import { ApiQueryOptions } from '@nestjs/swagger';
+import { z, ZodSchema, ZodTypeAny } from 'zod';
+import { DEFAULT_SORTABLE_FIELDS } from './crud-query.utils';
 
 /**
  * Tạo response định dạng chuẩn với pagination
@@ -77,11 +81,206 @@ export const createEndpointDescription = (
       return `Delete an ${entityName}`;
     case 'count':
       return `Count ${entityName} based on filters`;
+    case 'restore':
+      return `Restore a deleted ${entityName}`;
+    case 'trash':
+      return `Get list of deleted ${entityName}`;
+    case 'export':
+      return `Export ${entityName} list as CSV or XLSX`;
+    case 'import':
+      return `Import ${entityName} from a CSV or XLSX file`;
     default:
       return `Operation on ${entityName}`;
   }
 };
 
+// Mô tả giá trị mong đợi của từng toán tử lọc
+const FILTER_OPERATOR_HINTS: Record<CrudFilterOperator, string> = {
+  eq: 'equals',
+  in: 'one of comma-separated values',
+  gte: 'greater than or equal',
+  lte: 'less than or equal',
+  contains: 'contains text (case-insensitive)',
+  between: 'two comma-separated values, inclusive',
+};
+
+/**
+ * Tạo danh sách query param cho Swagger của endpoint danh sách/thùng rác
+ * từ whitelist `query` của controller
+ */
+export const createListQueryDocs = (
+  options: CrudControllerOptions,
+  defaultSort: string,
+): ApiQueryOptions[] => {
+  const query = options.query;
+  const maxLimit = query?.maxLimit ?? 100;
+  const sortable = query?.sortable ?? DEFAULT_SORTABLE_FIELDS;
+
+  const docs: ApiQueryOptions[] = [
+    {
+      name: 'limit',
+      required: false,
+      type: Number,
+      description: `Page size (1-${maxLimit}, default 10)`,
+    },
+    {
+      name: 'page',
+      required: false,
+      type: Number,
+      description: 'Page number, ignored when cursor is set',
+    },
+    {
+      name: 'cursor',
+      required: false,
+      type: String,
+      description:
+        'Opaque cursor from paging.nextCursor; must be used with the same sort',
+    },
+    {
+      name: 'sort',
+      required: false,
+      type: String,
+      description: `Comma-separated fields, prefix "-" for descending. Allowed: ${sortable.join(', ')}. Default: ${defaultSort}`,
+    },
+  ];
+
+  for (const [field, spec] of Object.entries(query?.filters || {})) {
+    for (const operator of spec.operators) {
+      docs.push({
+        name: `filter[${field}][${operator}]`,
+        required: false,
+        type: String,
+        ...(spec.enum && operator === 'eq' && { enum: spec.enum }),
+        description: [
+          spec.description,
+          `${spec.type ?? 'string'}: ${FILTER_OPERATOR_HINTS[operator]}`,
+        ]
+          .filter(Boolean)
+          .join(' - '),
+      });
+    }
+  }
+
+  return docs;
+};
+
+/**
+ * Query param `fields`/`include` cho Swagger từ allowlist `selection`
+ */
+export const createSelectionQueryDocs = (
+  selection?: CrudSelectionOptions,
+): ApiQueryOptions[] => {
+  if (!selection) return [];
+
+  const docs: ApiQueryOptions[] = [
+    {
+      name: 'fields',
+      required: false,
+      type: String,
+      description: `Comma-separated fields to return (id is always included). Allowed: ${selection.fields.join(', ')}`,
+    },
+  ];
+  const relations = Object.keys(selection.include || {});
+  if (relations.length > 0) {
+    docs.push({
+      name: 'include',
+      required: false,
+      type: String,
+      description: `Comma-separated relations to embed. Allowed: ${relations.join(', ')}`,
+    });
+  }
+  return docs;
+};
+
+/**
+ * Schema OpenAPI của entity trả về từ endpoint đọc: field lấy kiểu từ
+ * model Zod, quan hệ theo allowlist include. Không field nào bắt buộc
+ * vì client có thể chỉ chọn một phần qua `?fields=`
+ */
+export const createEntityResponseSchema = (
+  modelType: unknown,
+  selection?: CrudSelectionOptions,
+): Record<string, any> => {
+  const shape: Record<string, ZodTypeAny> =
+    modelType instanceof z.ZodObject ? modelType.shape : {};
+  const fields = selection
+    ? ['id', ...selection.fields.filter((field) => field !== 'id')]
+    : Object.keys(shape);
+
+  const properties: Record<string, any> = {};
+  for (const field of fields) {
+    properties[field] = shape[field] ? zodToOpenApi(shape[field]) : {};
+  }
+
+  for (const [path, spec] of Object.entries(selection?.include || {}).sort()) {
+    const segments = path.split('.');
+    let level = properties;
+    segments.forEach((segment, index) => {
+      if (!level[segment]) {
+        level[segment] = { type: 'object', properties: {} };
+      }
+      const node =
+        level[segment].type === 'array' ? level[segment].items : level[segment];
+      if (index === segments.length - 1) {
+        node.description = `Included with ?include=${path}`;
+        for (const field of spec.fields) {
+          node.properties[field] = node.properties[field] || {};
+        }
+        if (spec.take) {
+          level[segment] = { type: 'array', items: node };
+        }
+      }
+      level = node.properties;
+    });
+  }
+
+  return { type: 'object', properties };
+};
+
+// Chuyển kiểu Zod cơ bản sang OpenAPI; kiểu không nhận ra để trống (any)
+function zodToOpenApi(schema: ZodTypeAny): Record<string, any> {
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodDefault ||
+    schema instanceof z.ZodEffects
+  ) {
+    const inner =
+      schema instanceof z.ZodEffects
+        ? schema.innerType()
+        : schema instanceof z.ZodDefault
+          ? schema.removeDefault()
+          : schema.unwrap();
+    return zodToOpenApi(inner);
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { ...zodToOpenApi(schema.unwrap()), nullable: true };
+  }
+  if (schema instanceof z.ZodString) {
+    return schema.isUUID
+      ? { type: 'string', format: 'uuid' }
+      : { type: 'string' };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? 'integer' : 'number' };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodDate) {
+    return { type: 'string', format: 'date-time' };
+  }
+  if (schema instanceof z.ZodEnum || schema instanceof z.ZodNativeEnum) {
+    return { type: 'string', enum: Object.values(schema.enum) };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToOpenApi(schema.element) };
+  }
+  if (schema instanceof z.ZodObject) {
+    return createEntityResponseSchema(schema);
+  }
+  return {};
+}
+
 /**
  * Xác định xem endpoint có được bật không
  */
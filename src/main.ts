@@ -1,14 +1,20 @@
 // src/main.ts
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import cookieParser from 'cookie-parser';
 import { ZodExceptionFilter } from './lib/zod-exception.filter';
 import { Logger } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { RedisIoAdapter } from './common/redis/redis-io.adapter';
+import { config as appConfig } from './share/config';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // req.ip chỉ lấy từ X-Forwarded-For khi request đi qua proxy tin cậy
+  app.set('trust proxy', appConfig.trustProxy);
 
   // Sử dụng middleware
   app.use(cookieParser());
@@ -31,6 +37,11 @@ async function bootstrap() {
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH', 'HEAD'],
   });
 
+  // WebSocket qua Redis adapter để gateway chạy được nhiều replica
+  const redisIoAdapter = new RedisIoAdapter(app);
+  await redisIoAdapter.connectToRedis();
+  app.useWebSocketAdapter(redisIoAdapter);
+
   // API prefix
   app.setGlobalPrefix('api/v1');
 
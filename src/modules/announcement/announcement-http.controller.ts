@@ -0,0 +1,165 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { HTTP_CONTROLLER } from 'src/constant';
+import { ReqWithRequester, UserRole } from 'src/share';
+import { RemoteAuthGuard, Roles, RolesGuard } from 'src/share/guard';
+import { ZodValidationPipe } from 'src/share/pipes/zod-validation.pipe';
+import { ANNOUNCEMENT_SERVICE } from './announcement.di-token';
+import {
+  AnnouncementCondDTO,
+  announcementCondDTOSchema,
+  AnnouncementCreateDTO,
+  announcementCreateDTOSchema,
+  AnnouncementInboxCondDTO,
+  announcementInboxCondDTOSchema,
+  AnnouncementReceiptCondDTO,
+  announcementReceiptCondDTOSchema,
+  AnnouncementUpdateDTO,
+  announcementUpdateDTOSchema,
+} from './announcement.dto';
+import { IAnnouncementService } from './announcement.port';
+
+// Ai được đăng announcement; phạm vi cụ thể do service kiểm tra
+const PUBLISHER_ROLES = [
+  UserRole.ADMIN,
+  UserRole.SUPER_ADMIN,
+  UserRole.FACTORY_MANAGER,
+  UserRole.LINE_MANAGER,
+  UserRole.TEAM_LEADER,
+  UserRole.GROUP_LEADER,
+];
+
+@ApiTags('Announcement')
+@ApiBearerAuth()
+@Controller(HTTP_CONTROLLER.ANNOUNCEMENT)
+@UseGuards(RemoteAuthGuard, RolesGuard)
+export class AnnouncementHttpController {
+  constructor(
+    @Inject(ANNOUNCEMENT_SERVICE)
+    private readonly announcementService: IAnnouncementService,
+  ) {}
+
+  @Post()
+  @Roles(...PUBLISHER_ROLES)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Announce to a unit and/or role, now or at a scheduled time',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Unit is outside of your management scope',
+  })
+  async create(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(announcementCreateDTOSchema))
+    dto: AnnouncementCreateDTO,
+  ) {
+    const data = await this.announcementService.create(req.requester, dto);
+    return { success: true, data };
+  }
+
+  @Get()
+  @Roles(...PUBLISHER_ROLES)
+  @ApiOperation({ summary: 'List announcements you created (admin: all)' })
+  async list(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(announcementCondDTOSchema))
+    cond: AnnouncementCondDTO,
+  ) {
+    const result = await this.announcementService.list(req.requester, cond);
+    return { success: true, ...result };
+  }
+
+  @Get('inbox')
+  @ApiOperation({ summary: 'List active announcements addressed to you' })
+  async listInbox(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(announcementInboxCondDTOSchema))
+    cond: AnnouncementInboxCondDTO,
+  ) {
+    const result = await this.announcementService.listInbox(
+      req.requester,
+      cond,
+    );
+    return { success: true, ...result };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an announcement' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Not found' })
+  async get(@Request() req: ReqWithRequester, @Param('id') id: string) {
+    const data = await this.announcementService.get(req.requester, id);
+    return { success: true, data };
+  }
+
+  @Patch(':id')
+  @Roles(...PUBLISHER_ROLES)
+  @ApiOperation({ summary: 'Edit a scheduled announcement' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Announcement is no longer scheduled',
+  })
+  async update(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(announcementUpdateDTOSchema))
+    dto: AnnouncementUpdateDTO,
+  ) {
+    const data = await this.announcementService.update(req.requester, id, dto);
+    return { success: true, data };
+  }
+
+  @Post(':id/cancel')
+  @Roles(...PUBLISHER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a scheduled announcement or withdraw a published one',
+  })
+  async cancel(@Request() req: ReqWithRequester, @Param('id') id: string) {
+    const data = await this.announcementService.cancel(req.requester, id);
+    return { success: true, data };
+  }
+
+  @Post(':id/read')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark an announcement as read' })
+  async markRead(@Request() req: ReqWithRequester, @Param('id') id: string) {
+    await this.announcementService.markRead(req.requester, id);
+    return { success: true };
+  }
+
+  @Get(':id/receipts')
+  @Roles(...PUBLISHER_ROLES)
+  @ApiOperation({ summary: 'List read receipts of an announcement' })
+  async listReceipts(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Query(new ZodValidationPipe(announcementReceiptCondDTOSchema))
+    cond: AnnouncementReceiptCondDTO,
+  ) {
+    const result = await this.announcementService.listReceipts(
+      req.requester,
+      id,
+      cond,
+    );
+    return { success: true, ...result };
+  }
+}
@@ -0,0 +1 @@
+export const ANNOUNCEMENT_SERVICE = Symbol('ANNOUNCEMENT_SERVICE');
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { OrgUnitType } from '../organization/organization.model';
+import { AnnouncementStatus } from './announcement.model';
+
+const contentSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, 'Tiêu đề không được để trống')
+    .max(200, 'Tiêu đề tối đa 200 ký tự'),
+  content: z
+    .string()
+    .trim()
+    .min(1, 'Nội dung không được để trống')
+    .max(5000, 'Nội dung tối đa 5000 ký tự'),
+  // Bỏ trống = đăng ngay
+  publishAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional().nullable(),
+});
+
+export const announcementCreateDTOSchema = contentSchema
+  .extend({
+    // Bỏ trống đơn vị = toàn bộ phạm vi quản lý của người đăng
+    unitType: z.nativeEnum(OrgUnitType).optional(),
+    unitId: z.string().uuid('Unit ID không hợp lệ').optional(),
+    roleId: z.string().optional(),
+  })
+  .refine((dto) => !dto.unitType === !dto.unitId, {
+    message: 'unitType và unitId phải đi cùng nhau',
+    path: ['unitId'],
+  })
+  .refine(
+    (dto) => !dto.expiresAt || dto.expiresAt > (dto.publishAt ?? new Date()),
+    {
+      message: 'Thời điểm hết hạn phải sau thời điểm đăng',
+      path: ['expiresAt'],
+    },
+  );
+
+export type AnnouncementCreateDTO = z.infer<typeof announcementCreateDTOSchema>;
+
+// Chỉ sửa được khi chưa đăng; đổi đối tượng nhận thì hủy và tạo lại
+export const announcementUpdateDTOSchema = contentSchema
+  .partial()
+  .refine(
+    (dto) => !dto.expiresAt || !dto.publishAt || dto.expiresAt > dto.publishAt,
+    {
+      message: 'Thời điểm hết hạn phải sau thời điểm đăng',
+      path: ['expiresAt'],
+    },
+  );
+
+export type AnnouncementUpdateDTO = z.infer<typeof announcementUpdateDTOSchema>;
+
+export const announcementCondDTOSchema = z.object({
+  status: z.nativeEnum(AnnouncementStatus).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type AnnouncementCondDTO = z.infer<typeof announcementCondDTOSchema>;
+
+export const announcementInboxCondDTOSchema = z.object({
+  unreadOnly: z
+    .union([z.boolean(), z.enum(['true', 'false'])])
+    .transform((v) => v === true || v === 'true')
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type AnnouncementInboxCondDTO = z.infer<
+  typeof announcementInboxCondDTOSchema
+>;
+
+export const announcementReceiptCondDTOSchema = z.object({
+  read: z
+    .union([z.boolean(), z.enum(['true', 'false'])])
+    .transform((v) => v === true || v === 'true')
+    .optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type AnnouncementReceiptCondDTO = z.infer<
+  typeof announcementReceiptCondDTOSchema
+>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { OrgUnitType } from '../organization/organization.model';
+
+// Giá trị trùng với enum AnnouncementStatus trong schema.prisma
+export enum AnnouncementStatus {
+  SCHEDULED = 'SCHEDULED',
+  PUBLISHED = 'PUBLISHED',
+  EXPIRED = 'EXPIRED',
+  CANCELLED = 'CANCELLED',
+}
+
+// Announcement model
+export const announcementSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string().min(1, 'Tiêu đề không được để trống'),
+  content: z.string().min(1, 'Nội dung không được để trống'),
+  unitType: z.nativeEnum(OrgUnitType).nullable(),
+  unitId: z.string().nullable(),
+  roleId: z.string().nullable(),
+  status: z.nativeEnum(AnnouncementStatus),
+  publishAt: z.date(),
+  expiresAt: z.date().nullable(),
+  publishedAt: z.date().nullable(),
+  recipientCount: z.number().int().nonnegative(),
+  createdById: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Announcement = z.infer<typeof announcementSchema> & {
+  // Chỉ có khi người xem là người tạo/admin
+  readCount?: number;
+  // Chỉ có khi người xem là người nhận
+  readAt?: Date | null;
+};
+
+// Read receipt của một người nhận
+export interface AnnouncementReceipt {
+  userId: string;
+  name: string | null;
+  email: string;
+  readAt: Date | null;
+}
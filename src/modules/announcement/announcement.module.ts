@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ShareModule } from 'src/share/module';
+import { NotificationModule } from '../notification/notification.module';
+import { OrganizationModule } from '../organization/organization.module';
+import { AnnouncementHttpController } from './announcement-http.controller';
+import { ANNOUNCEMENT_SERVICE } from './announcement.di-token';
+import { AnnouncementService } from './announcement.service';
+
+@Module({
+  imports: [ShareModule, OrganizationModule, NotificationModule],
+  controllers: [AnnouncementHttpController],
+  providers: [
+    {
+      provide: ANNOUNCEMENT_SERVICE,
+      useClass: AnnouncementService,
+    },
+  ],
+  exports: [ANNOUNCEMENT_SERVICE],
+})
+export class AnnouncementModule {}
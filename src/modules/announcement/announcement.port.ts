@@ -0,0 +1,47 @@
+import { Paginated, Requester } from 'src/share';
+import {
+  AnnouncementCondDTO,
+  AnnouncementCreateDTO,
+  AnnouncementInboxCondDTO,
+  AnnouncementReceiptCondDTO,
+  AnnouncementUpdateDTO,
+} from './announcement.dto';
+import { Announcement, AnnouncementReceipt } from './announcement.model';
+
+export interface IAnnouncementService {
+  // Trưởng đơn vị chỉ gửi được cho đơn vị nằm trong phạm vi quản lý của mình
+  create(
+    requester: Requester,
+    dto: AnnouncementCreateDTO,
+  ): Promise<Announcement>;
+  // Chỉ sửa được khi còn SCHEDULED
+  update(
+    requester: Requester,
+    id: string,
+    dto: AnnouncementUpdateDTO,
+  ): Promise<Announcement>;
+  // Hủy lịch đăng, hoặc thu hồi announcement đã đăng
+  cancel(requester: Requester, id: string): Promise<Announcement>;
+
+  get(requester: Requester, id: string): Promise<Announcement>;
+  // Announcement do mình tạo (admin: tất cả)
+  list(
+    requester: Requester,
+    cond: AnnouncementCondDTO,
+  ): Promise<Paginated<Announcement>>;
+  // Announcement mình nhận được, đang hiệu lực
+  listInbox(
+    requester: Requester,
+    cond: AnnouncementInboxCondDTO,
+  ): Promise<Paginated<Announcement>>;
+  markRead(requester: Requester, id: string): Promise<void>;
+  listReceipts(
+    requester: Requester,
+    id: string,
+    cond: AnnouncementReceiptCondDTO,
+  ): Promise<Paginated<AnnouncementReceipt>>;
+
+  // Job: đăng announcement đến giờ và hết hạn announcement quá hạn
+  publishDue(): Promise<number>;
+  expireDue(): Promise<number>;
+}
@@ -0,0 +1,346 @@
+import { NotificationType } from '@prisma/client';
+import { AppError, Requester, UserRole } from '../../share';
+import { OrgUnitType } from '../organization/organization.model';
+import { AnnouncementStatus } from './announcement.model';
+import { AnnouncementService } from './announcement.service';
+
+describe('AnnouncementService', () => {
+  const prisma = {
+    announcement: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    announcementRecipient: {
+      createMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+    },
+    user: { findMany: jest.fn() },
+    role: { findUnique: jest.fn() },
+    notification: { deleteMany: jest.fn(), updateMany: jest.fn() },
+    $transaction: jest.fn((operations: Promise<unknown>[]) =>
+      Promise.all(operations),
+    ),
+  };
+  const organizationService = {
+    getScopeFilter: jest.fn(),
+    isWithinScope: jest.fn(),
+    resolvePath: jest.fn(),
+  };
+  const dispatcher = { dispatch: jest.fn() };
+  const gateway = { sendToUnit: jest.fn() };
+  const service = new AnnouncementService(
+    prisma as any,
+    organizationService as any,
+    dispatcher as any,
+    gateway as any,
+  );
+
+  const leader = { sub: 'leader-1', role: UserRole.TEAM_LEADER } as Requester;
+  const worker = { sub: 'worker-1', role: UserRole.WORKER } as Requester;
+  const now = new Date('2026-10-19T08:00:00.000Z');
+  const row = (overrides: object = {}) => ({
+    id: 'announcement-1',
+    title: 'Safety drill',
+    content: 'Drill at 10:00',
+    unitType: OrgUnitType.TEAM,
+    unitId: 'team-1',
+    roleId: null,
+    status: AnnouncementStatus.SCHEDULED,
+    publishAt: now,
+    expiresAt: null,
+    publishedAt: null,
+    recipientCount: 0,
+    createdById: 'leader-1',
+    ...overrides,
+  });
+  const dto = { title: 'Safety drill', content: 'Drill at 10:00' };
+  const errorOf = async (promise: Promise<unknown>) =>
+    (await promise.catch((e) => e)) as AppError;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(now);
+    organizationService.getScopeFilter.mockReturnValue({ teamId: 'team-1' });
+    organizationService.isWithinScope.mockResolvedValue(true);
+    prisma.announcement.create.mockImplementation(({ data }) =>
+      row({ ...data }),
+    );
+    prisma.announcement.findUnique.mockResolvedValue(row());
+    prisma.announcement.updateMany.mockResolvedValue({ count: 1 });
+    prisma.announcementRecipient.count.mockResolvedValue(0);
+    prisma.user.findMany.mockResolvedValue([
+      { id: 'worker-1' },
+      { id: 'worker-2' },
+    ]);
+    dispatcher.dispatch.mockImplementation(async ({ userId }) => ({
+      notification: { id: `notification-${userId}` },
+    }));
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('create', () => {
+    it('publishes at once to the unit the leader manages', async () => {
+      await service.create(leader, dto as any);
+
+      expect(prisma.announcement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          unitType: OrgUnitType.TEAM,
+          unitId: 'team-1',
+          publishAt: now,
+        }),
+      });
+      expect(prisma.user.findMany).toHaveBeenCalledWith({
+        where: { isActive: true, orgMembership: { teamId: 'team-1' } },
+        select: { id: true },
+      });
+      expect(prisma.announcementRecipient.createMany).toHaveBeenCalledWith({
+        data: [
+          { announcementId: 'announcement-1', userId: 'worker-1' },
+          { announcementId: 'announcement-1', userId: 'worker-2' },
+        ],
+        skipDuplicates: true,
+      });
+      expect(dispatcher.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'worker-1',
+          type: NotificationType.SYSTEM,
+          data: { kind: 'announcement', announcementId: 'announcement-1' },
+        }),
+      );
+      expect(prisma.announcementRecipient.update).toHaveBeenCalledWith({
+        where: {
+          announcementId_userId: {
+            announcementId: 'announcement-1',
+            userId: 'worker-2',
+          },
+        },
+        data: { notificationId: 'notification-worker-2' },
+      });
+      expect(gateway.sendToUnit).toHaveBeenCalledWith(
+        OrgUnitType.TEAM,
+        'team-1',
+        'announcement:published',
+        expect.objectContaining({ id: 'announcement-1' }),
+      );
+    });
+
+    it('keeps a future announcement scheduled', async () => {
+      const publishAt = new Date('2026-10-20T08:00:00.000Z');
+
+      await service.create(leader, { ...dto, publishAt } as any);
+
+      expect(prisma.announcement.updateMany).not.toHaveBeenCalled();
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('rejects a unit outside of the leader scope', async () => {
+      organizationService.isWithinScope.mockResolvedValue(false);
+
+      const error = await errorOf(
+        service.create(leader, {
+          ...dto,
+          unitType: OrgUnitType.TEAM,
+          unitId: 'team-2',
+        } as any),
+      );
+
+      expect(error.getStatusCode()).toBe(403);
+      expect(prisma.announcement.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects requesters who do not manage any unit', async () => {
+      organizationService.getScopeFilter.mockReturnValue(null);
+
+      const error = await errorOf(service.create(worker, dto as any));
+
+      expect(error.getStatusCode()).toBe(403);
+    });
+
+    it('rejects an expiry in the past', async () => {
+      const error = await errorOf(
+        service.create(leader, { ...dto, expiresAt: now } as any),
+      );
+
+      expect(error.getStatusCode()).toBe(400);
+    });
+  });
+
+  describe('publishing', () => {
+    it('publishes each due announcement only once across replicas', async () => {
+      prisma.announcement.findMany.mockResolvedValue([
+        { id: 'announcement-1' },
+      ]);
+      prisma.announcement.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.publishDue()).resolves.toBe(0);
+
+      expect(prisma.announcement.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'announcement-1',
+          status: AnnouncementStatus.SCHEDULED,
+          publishAt: { lte: now },
+        },
+        data: { status: AnnouncementStatus.PUBLISHED, publishedAt: now },
+      });
+      expect(prisma.user.findMany).not.toHaveBeenCalled();
+    });
+
+    it('targets a role without a unit-wide banner', async () => {
+      prisma.announcement.findMany.mockResolvedValue([
+        { id: 'announcement-1' },
+      ]);
+      prisma.announcement.findUnique.mockResolvedValue(
+        row({ roleId: 'role-qc' }),
+      );
+
+      await expect(service.publishDue()).resolves.toBe(1);
+
+      expect(prisma.user.findMany).toHaveBeenCalledWith({
+        where: {
+          isActive: true,
+          orgMembership: { teamId: 'team-1' },
+          userRoles: { some: { roleId: 'role-qc' } },
+        },
+        select: { id: true },
+      });
+      expect(gateway.sendToUnit).not.toHaveBeenCalled();
+    });
+
+    it('keeps notifying the others when one recipient fails', async () => {
+      prisma.announcement.findMany.mockResolvedValue([
+        { id: 'announcement-1' },
+      ]);
+      dispatcher.dispatch.mockRejectedValueOnce(new Error('db down'));
+
+      await expect(service.publishDue()).resolves.toBe(1);
+
+      expect(dispatcher.dispatch).toHaveBeenCalledTimes(2);
+      expect(prisma.announcementRecipient.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('expires announcements and withdraws their notifications', async () => {
+      prisma.announcement.findMany.mockResolvedValue([
+        { id: 'announcement-1', status: AnnouncementStatus.PUBLISHED },
+        { id: 'announcement-2', status: AnnouncementStatus.PUBLISHED },
+      ]);
+      prisma.announcement.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await expect(service.expireDue()).resolves.toBe(1);
+
+      expect(prisma.notification.deleteMany).toHaveBeenCalledTimes(1);
+      expect(prisma.notification.deleteMany).toHaveBeenCalledWith({
+        where: { announcementRecipient: { announcementId: 'announcement-1' } },
+      });
+    });
+  });
+
+  describe('management', () => {
+    it('only edits announcements that are still scheduled', async () => {
+      prisma.announcement.findUnique.mockResolvedValue(
+        row({ status: AnnouncementStatus.PUBLISHED }),
+      );
+
+      const error = await errorOf(
+        service.update(leader, 'announcement-1', { title: 'New' } as any),
+      );
+
+      expect(error.getStatusCode()).toBe(409);
+      expect(prisma.announcement.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('cancels and withdraws the notifications of the recipients', async () => {
+      prisma.announcement.findUnique.mockResolvedValue(
+        row({ status: AnnouncementStatus.PUBLISHED }),
+      );
+
+      await service.cancel(leader, 'announcement-1');
+
+      expect(prisma.announcement.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'announcement-1',
+          status: {
+            in: [AnnouncementStatus.SCHEDULED, AnnouncementStatus.PUBLISHED],
+          },
+        },
+        data: { status: AnnouncementStatus.CANCELLED },
+      });
+      expect(prisma.notification.deleteMany).toHaveBeenCalled();
+    });
+
+    it('forbids managing an announcement of someone else', async () => {
+      const error = await errorOf(
+        service.cancel(
+          { sub: 'leader-2', role: UserRole.TEAM_LEADER } as Requester,
+          'announcement-1',
+        ),
+      );
+
+      expect(error.getStatusCode()).toBe(403);
+    });
+  });
+
+  describe('recipients', () => {
+    it('hides announcements from users who did not receive them', async () => {
+      prisma.announcement.findUnique.mockResolvedValue(
+        row({ status: AnnouncementStatus.PUBLISHED }),
+      );
+      prisma.announcementRecipient.findUnique.mockResolvedValue(null);
+
+      const error = await errorOf(service.get(worker, 'announcement-1'));
+
+      expect(error.getStatusCode()).toBe(404);
+    });
+
+    it('hides cancelled announcements from recipients', async () => {
+      prisma.announcement.findUnique.mockResolvedValue(
+        row({ status: AnnouncementStatus.CANCELLED }),
+      );
+      prisma.announcementRecipient.findUnique.mockResolvedValue({
+        readAt: null,
+      });
+
+      const error = await errorOf(service.get(worker, 'announcement-1'));
+
+      expect(error.getStatusCode()).toBe(404);
+    });
+
+    it('records the read receipt and reads the notification', async () => {
+      prisma.announcementRecipient.findFirst.mockResolvedValue({
+        id: 'recipient-1',
+        readAt: null,
+      });
+
+      await service.markRead(worker, 'announcement-1');
+
+      expect(prisma.announcementRecipient.updateMany).toHaveBeenCalledWith({
+        where: { id: 'recipient-1', readAt: null },
+        data: { readAt: now },
+      });
+      expect(prisma.notification.updateMany).toHaveBeenCalledWith({
+        where: { announcementRecipient: { id: 'recipient-1' } },
+        data: { isRead: true },
+      });
+    });
+
+    it('keeps the first read time', async () => {
+      prisma.announcementRecipient.findFirst.mockResolvedValue({
+        id: 'recipient-1',
+        readAt: new Date('2026-10-18T08:00:00.000Z'),
+      });
+
+      await service.markRead(worker, 'announcement-1');
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
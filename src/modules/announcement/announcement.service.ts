@@ -0,0 +1,632 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  Announcement as AnnouncementRow,
+  NotificationType,
+  Prisma,
+} from '@prisma/client';
+import { AppError, Paginated, Requester, UserRole } from 'src/share';
+import { PrismaService } from 'src/share/prisma.service';
+import { NotificationGateway } from '../notification/notification.gateway';
+import { NOTIFICATION_DISPATCHER } from '../notification/notification.di-token';
+import { INotificationDispatcher } from '../notification/notification.port';
+import { ORGANIZATION_SERVICE } from '../organization/organization.di-token';
+import { OrgPath, OrgUnitType } from '../organization/organization.model';
+import { IOrganizationService } from '../organization/organization.port';
+import {
+  AnnouncementCondDTO,
+  AnnouncementCreateDTO,
+  AnnouncementInboxCondDTO,
+  AnnouncementReceiptCondDTO,
+  AnnouncementUpdateDTO,
+} from './announcement.dto';
+import {
+  Announcement,
+  AnnouncementReceipt,
+  AnnouncementStatus,
+} from './announcement.model';
+import { IAnnouncementService } from './announcement.port';
+
+// Cột trong OrgMembership tương ứng với từng cấp đơn vị
+const UNIT_FIELD: Record<OrgUnitType, keyof OrgPath> = {
+  [OrgUnitType.FACTORY]: 'factoryId',
+  [OrgUnitType.LINE]: 'lineId',
+  [OrgUnitType.TEAM]: 'teamId',
+  [OrgUnitType.GROUP]: 'groupId',
+};
+
+const FIELD_UNIT = Object.fromEntries(
+  Object.entries(UNIT_FIELD).map(([unitType, field]) => [field, unitType]),
+) as Record<keyof OrgPath, OrgUnitType>;
+
+// Số người nhận xử lý song song khi publish
+const PUBLISH_CHUNK_SIZE = 50;
+// Số announcement xử lý mỗi lần job chạy
+const JOB_BATCH_SIZE = 20;
+
+@Injectable()
+export class AnnouncementService implements IAnnouncementService {
+  private readonly logger = new Logger(AnnouncementService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(ORGANIZATION_SERVICE)
+    private readonly organizationService: IOrganizationService,
+    @Inject(NOTIFICATION_DISPATCHER)
+    private readonly dispatcher: INotificationDispatcher,
+    private readonly notificationGateway: NotificationGateway,
+  ) {}
+
+  async create(
+    requester: Requester,
+    dto: AnnouncementCreateDTO,
+  ): Promise<Announcement> {
+    try {
+      const target = await this.resolveTarget(requester, dto);
+
+      if (dto.roleId) {
+        const role = await this.prisma.role.findUnique({
+          where: { id: dto.roleId },
+          select: { id: true },
+        });
+        if (!role) {
+          throw AppError.from(new Error('Role not found'), 404).withDetail(
+            'roleId',
+            dto.roleId,
+          );
+        }
+      }
+
+      const now = new Date();
+      if (dto.expiresAt && dto.expiresAt <= now) {
+        throw AppError.from(
+          new Error('Expiry time must be in the future'),
+          400,
+        );
+      }
+
+      const row = await this.prisma.announcement.create({
+        data: {
+          title: dto.title,
+          content: dto.content,
+          unitType: target?.unitType ?? null,
+          unitId: target?.unitId ?? null,
+          roleId: dto.roleId ?? null,
+          publishAt: dto.publishAt ?? now,
+          expiresAt: dto.expiresAt ?? null,
+          createdById: requester.sub,
+        },
+      });
+
+      this.logger.log(
+        `Announcement ${row.id} created by ${requester.sub} for ${target ? `${target.unitType} ${target.unitId}` : 'all units'}`,
+      );
+
+      if (row.publishAt <= now) {
+        await this.publish(row.id);
+      }
+
+      return this.get(requester, row.id);
+    } catch (error) {
+      this.logger.error(
+        `Create announcement error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to create announcement: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async update(
+    requester: Requester,
+    id: string,
+    dto: AnnouncementUpdateDTO,
+  ): Promise<Announcement> {
+    try {
+      const existing = await this.getOwned(requester, id);
+      if (existing.status !== AnnouncementStatus.SCHEDULED) {
+        throw AppError.from(
+          new Error('Only scheduled announcements can be edited'),
+          409,
+        );
+      }
+
+      const publishAt = dto.publishAt ?? existing.publishAt;
+      const expiresAt =
+        dto.expiresAt === undefined ? existing.expiresAt : dto.expiresAt;
+      if (expiresAt && (expiresAt <= publishAt || expiresAt <= new Date())) {
+        throw AppError.from(
+          new Error('Expiry time must be after publish time and in the future'),
+          400,
+        );
+      }
+
+      // Có thể job vừa đăng xong: chỉ sửa khi vẫn còn SCHEDULED
+      const { count } = await this.prisma.announcement.updateMany({
+        where: { id, status: AnnouncementStatus.SCHEDULED },
+        data: {
+          title: dto.title,
+          content: dto.content,
+          publishAt: dto.publishAt,
+          expiresAt: dto.expiresAt,
+        },
+      });
+      if (count === 0) {
+        throw AppError.from(
+          new Error('Announcement was published or cancelled meanwhile'),
+          409,
+        );
+      }
+
+      if (publishAt <= new Date()) {
+        await this.publish(id);
+      }
+
+      return this.get(requester, id);
+    } catch (error) {
+      this.logger.error(
+        `Update announcement error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to update announcement: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async cancel(requester: Requester, id: string): Promise<Announcement> {
+    try {
+      await this.getOwned(requester, id);
+
+      const { count } = await this.prisma.announcement.updateMany({
+        where: {
+          id,
+          status: {
+            in: [AnnouncementStatus.SCHEDULED, AnnouncementStatus.PUBLISHED],
+          },
+        },
+        data: { status: AnnouncementStatus.CANCELLED },
+      });
+      if (count === 0) {
+        throw AppError.from(
+          new Error('Announcement is already expired or cancelled'),
+          409,
+        );
+      }
+
+      // Thu hồi: xóa thông báo của người nhận, giữ read receipt
+      await this.withdrawNotifications(id);
+
+      this.logger.log(`Announcement ${id} cancelled by ${requester.sub}`);
+
+      return this.get(requester, id);
+    } catch (error) {
+      this.logger.error(
+        `Cancel announcement error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to cancel announcement: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async get(requester: Requester, id: string): Promise<Announcement> {
+    const row = await this.findOrThrow(id);
+
+    if (this.canManage(requester, row)) {
+      const readCount = await this.prisma.announcementRecipient.count({
+        where: { announcementId: id, readAt: { not: null } },
+      });
+      return { ...this.toModel(row), readCount };
+    }
+
+    // Người nhận chỉ thấy announcement đang hiệu lực
+    const recipient = await this.prisma.announcementRecipient.findUnique({
+      where: {
+        announcementId_userId: { announcementId: id, userId: requester.sub },
+      },
+      select: { readAt: true },
+    });
+    if (!recipient || row.status !== AnnouncementStatus.PUBLISHED) {
+      throw AppError.from(new Error('Announcement not found'), 404);
+    }
+    return { ...this.toModel(row), readAt: recipient.readAt };
+  }
+
+  async list(
+    requester: Requester,
+    cond: AnnouncementCondDTO,
+  ): Promise<Paginated<Announcement>> {
+    try {
+      const where: Prisma.AnnouncementWhereInput = {};
+      if (!this.isAdmin(requester)) {
+        where.createdById = requester.sub;
+      }
+      if (cond.status) where.status = cond.status;
+
+      const { page, limit } = cond;
+      const [total, rows] = await Promise.all([
+        this.prisma.announcement.count({ where }),
+        this.prisma.announcement.findMany({
+          where,
+          orderBy: [{ publishAt: 'desc' }, { id: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      return {
+        data: rows.map((row) => this.toModel(row)),
+        paging: { page, limit, total },
+        total,
+      };
+    } catch (error) {
+      this.logger.error(`List announcements error: ${error.message}`);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to list announcements: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async listInbox(
+    requester: Requester,
+    cond: AnnouncementInboxCondDTO,
+  ): Promise<Paginated<Announcement>> {
+    try {
+      const where: Prisma.AnnouncementRecipientWhereInput = {
+        userId: requester.sub,
+        announcement: { status: AnnouncementStatus.PUBLISHED },
+      };
+      if (cond.unreadOnly) where.readAt = null;
+
+      const { page, limit } = cond;
+      const [total, rows] = await Promise.all([
+        this.prisma.announcementRecipient.count({ where }),
+        this.prisma.announcementRecipient.findMany({
+          where,
+          include: { announcement: true },
+          orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      return {
+        data: rows.map((row) => ({
+          ...this.toModel(row.announcement),
+          readAt: row.readAt,
+        })),
+        paging: { page, limit, total },
+        total,
+      };
+    } catch (error) {
+      this.logger.error(`List announcement inbox error: ${error.message}`);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to list announcements: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async markRead(requester: Requester, id: string): Promise<void> {
+    const recipient = await this.prisma.announcementRecipient.findFirst({
+      where: {
+        announcementId: id,
+        userId: requester.sub,
+        announcement: { status: AnnouncementStatus.PUBLISHED },
+      },
+    });
+    if (!recipient) {
+      throw AppError.from(new Error('Announcement not found'), 404);
+    }
+    if (recipient.readAt) {
+      return;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.announcementRecipient.updateMany({
+        where: { id: recipient.id, readAt: null },
+        data: { readAt: new Date() },
+      }),
+      this.prisma.notification.updateMany({
+        where: { announcementRecipient: { id: recipient.id } },
+        data: { isRead: true },
+      }),
+    ]);
+  }
+
+  async listReceipts(
+    requester: Requester,
+    id: string,
+    cond: AnnouncementReceiptCondDTO,
+  ): Promise<Paginated<AnnouncementReceipt>> {
+    await this.getOwned(requester, id);
+
+    const where: Prisma.AnnouncementRecipientWhereInput = {
+      announcementId: id,
+    };
+    if (cond.read !== undefined) {
+      where.readAt = cond.read ? { not: null } : null;
+    }
+
+    const { page, limit } = cond;
+    const [total, rows] = await Promise.all([
+      this.prisma.announcementRecipient.count({ where }),
+      this.prisma.announcementRecipient.findMany({
+        where,
+        include: { user: { select: { name: true, email: true } } },
+        orderBy: [{ readAt: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return {
+      data: rows.map((row) => ({
+        userId: row.userId,
+        name: row.user.name,
+        email: row.user.email,
+        readAt: row.readAt,
+      })),
+      paging: { page, limit, total },
+      total,
+    };
+  }
+
+  async publishDue(): Promise<number> {
+    const due = await this.prisma.announcement.findMany({
+      where: {
+        status: AnnouncementStatus.SCHEDULED,
+        publishAt: { lte: new Date() },
+      },
+      select: { id: true },
+      orderBy: { publishAt: 'asc' },
+      take: JOB_BATCH_SIZE,
+    });
+
+    let published = 0;
+    for (const { id } of due) {
+      try {
+        if (await this.publish(id)) published++;
+      } catch (error) {
+        this.logger.error(
+          `Publish announcement ${id} error: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+    return published;
+  }
+
+  async expireDue(): Promise<number> {
+    const due = await this.prisma.announcement.findMany({
+      where: {
+        status: {
+          in: [AnnouncementStatus.SCHEDULED, AnnouncementStatus.PUBLISHED],
+        },
+        expiresAt: { lte: new Date() },
+      },
+      select: { id: true, status: true },
+      take: JOB_BATCH_SIZE,
+    });
+
+    let expired = 0;
+    for (const { id, status } of due) {
+      const { count } = await this.prisma.announcement.updateMany({
+        where: { id, status },
+        data: { status: AnnouncementStatus.EXPIRED },
+      });
+      if (count === 0) continue;
+
+      await this.withdrawNotifications(id);
+      expired++;
+    }
+    return expired;
+  }
+
+  // ===== Helpers =====
+
+  /**
+   * Đăng một announcement: chốt danh sách người nhận, tạo Notification cho từng người
+   * (theo cài đặt kênh của họ). Trả về false nếu đã có instance khác đăng.
+   */
+  private async publish(id: string): Promise<boolean> {
+    const now = new Date();
+    const { count } = await this.prisma.announcement.updateMany({
+      where: {
+        id,
+        status: AnnouncementStatus.SCHEDULED,
+        publishAt: { lte: now },
+      },
+      data: { status: AnnouncementStatus.PUBLISHED, publishedAt: now },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    const announcement = await this.findOrThrow(id);
+    const users = await this.prisma.user.findMany({
+      where: this.recipientFilter(announcement),
+      select: { id: true },
+    });
+
+    await this.prisma.announcementRecipient.createMany({
+      data: users.map((user) => ({ announcementId: id, userId: user.id })),
+      skipDuplicates: true,
+    });
+    await this.prisma.announcement.update({
+      where: { id },
+      data: { recipientCount: users.length },
+    });
+
+    for (let i = 0; i < users.length; i += PUBLISH_CHUNK_SIZE) {
+      await Promise.all(
+        users
+          .slice(i, i + PUBLISH_CHUNK_SIZE)
+          .map((user) => this.notifyRecipient(announcement, user.id)),
+      );
+    }
+
+    // Banner realtime cho cả đơn vị; khi lọc theo vai trò chỉ người nhận mới được biết
+    if (announcement.unitType && announcement.unitId && !announcement.roleId) {
+      this.notificationGateway.sendToUnit(
+        announcement.unitType as OrgUnitType,
+        announcement.unitId,
+        'announcement:published',
+        { id, title: announcement.title, expiresAt: announcement.expiresAt },
+      );
+    }
+
+    this.logger.log(
+      `Announcement ${id} published to ${users.length} recipient(s)`,
+    );
+    return true;
+  }
+
+  private async notifyRecipient(
+    announcement: AnnouncementRow,
+    userId: string,
+  ): Promise<void> {
+    try {
+      const { notification } = await this.dispatcher.dispatch({
+        userId,
+        title: announcement.title,
+        content: announcement.content,
+        type: NotificationType.SYSTEM,
+        data: { kind: 'announcement', announcementId: announcement.id },
+      });
+      if (notification) {
+        await this.prisma.announcementRecipient.update({
+          where: {
+            announcementId_userId: { announcementId: announcement.id, userId },
+          },
+          data: { notificationId: notification.id },
+        });
+      }
+    } catch (error) {
+      // Một người nhận lỗi không chặn những người còn lại
+      this.logger.warn(
+        `Notify announcement ${announcement.id} to user ${userId} failed: ${error.message}`,
+      );
+    }
+  }
+
+  private async withdrawNotifications(announcementId: string): Promise<void> {
+    await this.prisma.notification.deleteMany({
+      where: { announcementRecipient: { announcementId } },
+    });
+  }
+
+  private recipientFilter(
+    announcement: AnnouncementRow,
+  ): Prisma.UserWhereInput {
+    const where: Prisma.UserWhereInput = { isActive: true };
+    if (announcement.unitType && announcement.unitId) {
+      const field = UNIT_FIELD[announcement.unitType as OrgUnitType];
+      where.orgMembership = { [field]: announcement.unitId };
+    }
+    if (announcement.roleId) {
+      where.userRoles = { some: { roleId: announcement.roleId } };
+    }
+    return where;
+  }
+
+  /**
+   * Đơn vị nhận announcement. Bỏ trống: admin gửi toàn hệ thống,
+   * trưởng đơn vị gửi cho toàn bộ đơn vị mình quản lý.
+   */
+  private async resolveTarget(
+    requester: Requester,
+    dto: AnnouncementCreateDTO,
+  ): Promise<{ unitType: OrgUnitType; unitId: string } | null> {
+    if (dto.unitType && dto.unitId) {
+      // resolvePath báo 404 nếu đơn vị không tồn tại
+      await this.organizationService.resolvePath(dto.unitType, dto.unitId);
+      if (
+        !(await this.organizationService.isWithinScope(
+          requester,
+          dto.unitType,
+          dto.unitId,
+        ))
+      ) {
+        throw AppError.from(
+          new Error('Unit is outside of your management scope'),
+          403,
+        );
+      }
+      return { unitType: dto.unitType, unitId: dto.unitId };
+    }
+
+    const filter = this.organizationService.getScopeFilter(requester);
+    if (!filter) {
+      throw AppError.from(
+        new Error('You do not manage any unit to announce to'),
+        403,
+      );
+    }
+
+    const [field, unitId] = Object.entries(filter)[0] ?? [];
+    if (!field || !unitId) {
+      return null;
+    }
+    return { unitType: FIELD_UNIT[field as keyof OrgPath], unitId };
+  }
+
+  // Người tạo hoặc admin mới được sửa/hủy/xem read receipt
+  private async getOwned(
+    requester: Requester,
+    id: string,
+  ): Promise<AnnouncementRow> {
+    const row = await this.findOrThrow(id);
+    if (!this.canManage(requester, row)) {
+      throw AppError.from(
+        new Error('You cannot manage this announcement'),
+        403,
+      );
+    }
+    return row;
+  }
+
+  private canManage(requester: Requester, row: AnnouncementRow): boolean {
+    return this.isAdmin(requester) || row.createdById === requester.sub;
+  }
+
+  private async findOrThrow(id: string): Promise<AnnouncementRow> {
+    const row = await this.prisma.announcement.findUnique({ where: { id } });
+    if (!row) {
+      throw AppError.from(new Error('Announcement not found'), 404);
+    }
+    return row;
+  }
+
+  private isAdmin(requester: Requester): boolean {
+    return (
+      requester.role === UserRole.ADMIN ||
+      requester.role === UserRole.SUPER_ADMIN
+    );
+  }
+
+  private toModel(row: AnnouncementRow): Announcement {
+    return row as Announcement;
+  }
+}
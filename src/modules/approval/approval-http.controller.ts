@@ -0,0 +1,241 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { z } from 'zod';
+import { HTTP_CONTROLLER } from 'src/constant';
+import { ReqWithRequester, UserRole } from 'src/share';
+import { RemoteAuthGuard, Roles, RolesGuard } from 'src/share/guard';
+import { ZodValidationPipe } from 'src/share/pipes/zod-validation.pipe';
+import { APPROVAL_SERVICE } from './approval.di-token';
+import {
+  ApprovalDecisionDTO,
+  approvalDecisionDTOSchema,
+  ApprovalDelegateDTO,
+  approvalDelegateDTOSchema,
+  ApprovalInstanceCondDTO,
+  approvalInstanceCondDTOSchema,
+  ApprovalRejectDTO,
+  approvalRejectDTOSchema,
+  ApprovalStartDTO,
+  approvalStartDTOSchema,
+  ApprovalStepsReplaceDTO,
+  approvalStepsReplaceDTOSchema,
+  ApprovalWorkflowCondDTO,
+  approvalWorkflowCondDTOSchema,
+  ApprovalWorkflowCreateDTO,
+  approvalWorkflowCreateDTOSchema,
+  ApprovalWorkflowUpdateDTO,
+  approvalWorkflowUpdateDTOSchema,
+} from './approval.dto';
+import { IApprovalService } from './approval.port';
+
+const pagingQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+@ApiTags('Approval')
+@ApiBearerAuth()
+@Controller(HTTP_CONTROLLER.APPROVAL)
+@UseGuards(RemoteAuthGuard, RolesGuard)
+export class ApprovalHttpController {
+  constructor(
+    @Inject(APPROVAL_SERVICE)
+    private readonly approvalService: IApprovalService,
+  ) {}
+
+  // ===== Workflow definitions =====
+
+  @Post('workflows')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Define an approval workflow with ordered steps' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Code exists' })
+  async createWorkflow(
+    @Body(new ZodValidationPipe(approvalWorkflowCreateDTOSchema))
+    dto: ApprovalWorkflowCreateDTO,
+  ) {
+    const data = await this.approvalService.createWorkflow(dto);
+    return { success: true, data };
+  }
+
+  @Get('workflows')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'List approval workflows' })
+  async listWorkflows(
+    @Query(new ZodValidationPipe(approvalWorkflowCondDTOSchema))
+    cond: ApprovalWorkflowCondDTO,
+  ) {
+    const data = await this.approvalService.listWorkflows(cond);
+    return { success: true, data };
+  }
+
+  @Get('workflows/:id')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Get an approval workflow with its steps' })
+  async getWorkflow(@Param('id') id: string) {
+    const data = await this.approvalService.getWorkflow(id);
+    return { success: true, data };
+  }
+
+  @Patch('workflows/:id')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Rename or (de)activate an approval workflow' })
+  async updateWorkflow(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(approvalWorkflowUpdateDTOSchema))
+    dto: ApprovalWorkflowUpdateDTO,
+  ) {
+    const data = await this.approvalService.updateWorkflow(id, dto);
+    return { success: true, data };
+  }
+
+  @Put('workflows/:id/steps')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Replace the steps of an unused workflow' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Workflow already has approvals',
+  })
+  async replaceSteps(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(approvalStepsReplaceDTOSchema))
+    dto: ApprovalStepsReplaceDTO,
+  ) {
+    const data = await this.approvalService.replaceSteps(id, dto);
+    return { success: true, data };
+  }
+
+  // ===== Instances =====
+
+  @Post('instances')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Submit an entity for approval' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Entity is submitted by its own module, or the subject is outside your scope',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Entity already has a pending approval',
+  })
+  async start(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(approvalStartDTOSchema)) dto: ApprovalStartDTO,
+  ) {
+    const data = await this.approvalService.start(req.requester, dto);
+    return { success: true, data };
+  }
+
+  @Get('instances')
+  @ApiOperation({ summary: 'List approvals you are involved in' })
+  async listInstances(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(approvalInstanceCondDTOSchema))
+    cond: ApprovalInstanceCondDTO,
+  ) {
+    const result = await this.approvalService.listInstances(
+      req.requester,
+      cond,
+    );
+    return { success: true, ...result };
+  }
+
+  @Get('instances/:id')
+  @ApiOperation({ summary: 'Get an approval with its tasks and audit trail' })
+  async getInstance(@Request() req: ReqWithRequester, @Param('id') id: string) {
+    const data = await this.approvalService.getInstance(req.requester, id);
+    return { success: true, data };
+  }
+
+  @Post('instances/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Withdraw a pending approval' })
+  async cancel(@Request() req: ReqWithRequester, @Param('id') id: string) {
+    const data = await this.approvalService.cancel(req.requester, id);
+    return { success: true, data };
+  }
+
+  // ===== Tasks =====
+
+  @Get('tasks/me')
+  @ApiOperation({ summary: 'List approval tasks awaiting you' })
+  async listMyTasks(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(pagingQuerySchema))
+    query: z.infer<typeof pagingQuerySchema>,
+  ) {
+    const result = await this.approvalService.listMyTasks(
+      req.requester,
+      query.page,
+      query.limit,
+    );
+    return { success: true, ...result };
+  }
+
+  @Post('tasks/:id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve an approval task' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Task is not assigned to you',
+  })
+  async approve(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(approvalDecisionDTOSchema))
+    dto: ApprovalDecisionDTO,
+  ) {
+    const data = await this.approvalService.approve(req.requester, id, dto);
+    return { success: true, data };
+  }
+
+  @Post('tasks/:id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject an approval task' })
+  async reject(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(approvalRejectDTOSchema))
+    dto: ApprovalRejectDTO,
+  ) {
+    const data = await this.approvalService.reject(req.requester, id, dto);
+    return { success: true, data };
+  }
+
+  @Post('tasks/:id/delegate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delegate an approval task to another user' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'The delegate lacks the task role or the management scope',
+  })
+  async delegate(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(approvalDelegateDTOSchema))
+    dto: ApprovalDelegateDTO,
+  ) {
+    const data = await this.approvalService.delegate(req.requester, id, dto);
+    return { success: true, data };
+  }
+}
@@ -0,0 +1 @@
+export const APPROVAL_SERVICE = Symbol('APPROVAL_SERVICE');
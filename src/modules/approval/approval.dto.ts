@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { ApprovalReviewType, ApprovalStatus } from './approval.model';
+
+const entityTypeSchema = z
+  .string()
+  .regex(/^[A-Z][A-Z0-9_]*$/, 'Loại đối tượng phải viết hoa, dạng SNAKE_CASE')
+  .max(50);
+
+export const approvalStepDTOSchema = z.object({
+  // Tên vai trò (Role.name), vd. TEAM_LEADER
+  role: z.string().trim().min(1, 'Vai trò không được để trống'),
+  reviewType: z.nativeEnum(ApprovalReviewType).optional(),
+  timeoutMinutes: z
+    .number()
+    .int()
+    .min(5)
+    .max(60 * 24 * 30)
+    .optional()
+    .nullable(),
+  escalateToRole: z.string().trim().min(1).optional().nullable(),
+});
+
+export type ApprovalStepDTO = z.infer<typeof approvalStepDTOSchema>;
+
+// Thứ tự các bước là thứ tự trong mảng
+const approvalStepsSchema = z
+  .array(approvalStepDTOSchema)
+  .min(1, 'Quy trình cần ít nhất một bước')
+  .max(20, 'Quy trình tối đa 20 bước');
+
+export const approvalWorkflowCreateDTOSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Mã quy trình không được để trống')
+    .max(50, 'Mã quy trình tối đa 50 ký tự'),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Tên quy trình không được để trống')
+    .max(200, 'Tên quy trình tối đa 200 ký tự'),
+  description: z.string().max(1000).optional().nullable(),
+  entityType: entityTypeSchema,
+  isActive: z.boolean().optional(),
+  steps: approvalStepsSchema,
+});
+
+export type ApprovalWorkflowCreateDTO = z.infer<
+  typeof approvalWorkflowCreateDTOSchema
+>;
+
+export const approvalWorkflowUpdateDTOSchema = approvalWorkflowCreateDTOSchema
+  .pick({ name: true, description: true, isActive: true })
+  .partial();
+
+export type ApprovalWorkflowUpdateDTO = z.infer<
+  typeof approvalWorkflowUpdateDTOSchema
+>;
+
+export const approvalStepsReplaceDTOSchema = z.object({
+  steps: approvalStepsSchema,
+});
+
+export type ApprovalStepsReplaceDTO = z.infer<
+  typeof approvalStepsReplaceDTOSchema
+>;
+
+export const approvalWorkflowCondDTOSchema = z.object({
+  entityType: z.string().optional(),
+  isActive: z
+    .union([z.boolean(), z.enum(['true', 'false'])])
+    .transform((v) => v === true || v === 'true')
+    .optional(),
+});
+
+export type ApprovalWorkflowCondDTO = z.infer<
+  typeof approvalWorkflowCondDTOSchema
+>;
+
+export const approvalStartDTOSchema = z.object({
+  entityType: entityTypeSchema,
+  entityId: z.string().min(1, 'Entity ID không được để trống'),
+  subjectUserId: z.string().optional(),
+  // Bỏ trống = quy trình đang hoạt động mới nhất của entityType
+  workflowCode: z.string().optional(),
+});
+
+export type ApprovalStartDTO = z.infer<typeof approvalStartDTOSchema>;
+
+export const approvalDecisionDTOSchema = z.object({
+  comment: z.string().max(1000).optional(),
+});
+
+export type ApprovalDecisionDTO = z.infer<typeof approvalDecisionDTOSchema>;
+
+export const approvalRejectDTOSchema = z.object({
+  comment: z
+    .string()
+    .trim()
+    .min(1, 'Lý do từ chối không được để trống')
+    .max(1000),
+});
+
+export type ApprovalRejectDTO = z.infer<typeof approvalRejectDTOSchema>;
+
+export const approvalDelegateDTOSchema = z.object({
+  userId: z.string().min(1, 'User ID không được để trống'),
+  comment: z.string().max(1000).optional(),
+});
+
+export type ApprovalDelegateDTO = z.infer<typeof approvalDelegateDTOSchema>;
+
+export const approvalInstanceCondDTOSchema = z.object({
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  status: z.nativeEnum(ApprovalStatus).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ApprovalInstanceCondDTO = z.infer<
+  typeof approvalInstanceCondDTOSchema
+>;
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+
+// Giá trị trùng với các enum trong schema.prisma
+export enum ApprovalReviewType {
+  SEQUENTIAL = 'SEQUENTIAL',
+  PARALLEL = 'PARALLEL',
+}
+
+export enum ApprovalStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED',
+}
+
+export enum ApprovalActionType {
+  SUBMITTED = 'SUBMITTED',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  DELEGATED = 'DELEGATED',
+  ESCALATED = 'ESCALATED',
+  CANCELLED = 'CANCELLED',
+}
+
+// Các loại đối tượng đã biết; entityType vẫn là chuỗi tự do để module khác gắn vào
+export const ApprovalEntityType = {
+  LEAVE_REQUEST: 'LEAVE_REQUEST',
+  PRODUCTION_RECORD: 'PRODUCTION_RECORD',
+  ROLE_CHANGE: 'ROLE_CHANGE',
+} as const;
+
+// ApprovalWorkflowStep model
+export const approvalWorkflowStepSchema = z.object({
+  id: z.string().uuid(),
+  workflowId: z.string().uuid(),
+  roleId: z.string(),
+  order: z.number().int(),
+  reviewType: z.nativeEnum(ApprovalReviewType),
+  timeoutMinutes: z.number().int().nullable(),
+  escalateToRoleId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ApprovalWorkflowStep = z.infer<
+  typeof approvalWorkflowStepSchema
+> & {
+  role?: { name: string };
+  escalateToRole?: { name: string } | null;
+};
+
+// ApprovalWorkflow model
+export const approvalWorkflowSchema = z.object({
+  id: z.string().uuid(),
+  code: z.string().min(1, 'Mã quy trình không được để trống'),
+  name: z.string().min(1, 'Tên quy trình không được để trống'),
+  description: z.string().nullable(),
+  entityType: z.string(),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ApprovalWorkflow = z.infer<typeof approvalWorkflowSchema> & {
+  steps?: ApprovalWorkflowStep[];
+};
+
+// ApprovalTask model
+export const approvalTaskSchema = z.object({
+  id: z.string().uuid(),
+  instanceId: z.string().uuid(),
+  stepId: z.string().uuid(),
+  stage: z.number().int(),
+  roleId: z.string(),
+  assigneeId: z.string().nullable(),
+  status: z.nativeEnum(ApprovalStatus),
+  dueAt: z.date().nullable(),
+  escalatedAt: z.date().nullable(),
+  decidedById: z.string().nullable(),
+  decidedAt: z.date().nullable(),
+  comment: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ApprovalTask = z.infer<typeof approvalTaskSchema> & {
+  role?: { name: string };
+  instance?: ApprovalInstance;
+};
+
+// ApprovalAction model (nhật ký quyết định)
+export const approvalActionSchema = z.object({
+  id: z.string().uuid(),
+  instanceId: z.string().uuid(),
+  taskId: z.string().uuid().nullable(),
+  actorId: z.string().nullable(),
+  action: z.nativeEnum(ApprovalActionType),
+  comment: z.string().nullable(),
+  metadata: z.unknown().nullable(),
+  createdAt: z.date(),
+});
+
+export type ApprovalAction = z.infer<typeof approvalActionSchema>;
+
+// ApprovalInstance model
+export const approvalInstanceSchema = z.object({
+  id: z.string().uuid(),
+  workflowId: z.string().uuid(),
+  entityType: z.string(),
+  entityId: z.string(),
+  subjectUserId: z.string().nullable(),
+  requestedById: z.string(),
+  status: z.nativeEnum(ApprovalStatus),
+  currentStage: z.number().int(),
+  completedAt: z.date().nullable(),
+  completionHandledAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ApprovalInstance = z.infer<typeof approvalInstanceSchema> & {
+  tasks?: ApprovalTask[];
+  actions?: ApprovalAction[];
+};
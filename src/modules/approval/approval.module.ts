@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { RedisModule } from 'src/common/redis';
+import { ShareModule } from 'src/share/module';
+import { OrganizationModule } from '../organization/organization.module';
+import { ApprovalHttpController } from './approval-http.controller';
+import { APPROVAL_SERVICE } from './approval.di-token';
+import { ApprovalService } from './approval.service';
+
+// Module khác import ApprovalModule để start() quy trình và đăng ký completion handler
+@Module({
+  imports: [ShareModule, RedisModule, OrganizationModule],
+  controllers: [ApprovalHttpController],
+  providers: [
+    {
+      provide: APPROVAL_SERVICE,
+      useClass: ApprovalService,
+    },
+  ],
+  exports: [APPROVAL_SERVICE],
+})
+export class ApprovalModule {}
@@ -0,0 +1,89 @@
+import { Paginated, Requester } from 'src/share';
+import {
+  ApprovalDecisionDTO,
+  ApprovalDelegateDTO,
+  ApprovalInstanceCondDTO,
+  ApprovalRejectDTO,
+  ApprovalStartDTO,
+  ApprovalStepsReplaceDTO,
+  ApprovalWorkflowCondDTO,
+  ApprovalWorkflowCreateDTO,
+  ApprovalWorkflowUpdateDTO,
+} from './approval.dto';
+import {
+  ApprovalInstance,
+  ApprovalTask,
+  ApprovalWorkflow,
+} from './approval.model';
+
+// Module sở hữu đối tượng đăng ký handler cho entityType của mình
+export interface ApprovalEntityHandler {
+  // Quyền gửi duyệt qua API chung; bỏ trống = chỉ module sở hữu gửi được (qua submit)
+  canStart?: (requester: Requester, dto: ApprovalStartDTO) => Promise<boolean>;
+  // Cập nhật đối tượng khi instance kết thúc (duyệt, từ chối hoặc hủy).
+  // Lỗi thì job chạy lại nên phải idempotent
+  onCompleted: (instance: ApprovalInstance) => Promise<void>;
+}
+
+export interface IApprovalService {
+  // Định nghĩa quy trình
+  createWorkflow(dto: ApprovalWorkflowCreateDTO): Promise<ApprovalWorkflow>;
+  updateWorkflow(
+    id: string,
+    dto: ApprovalWorkflowUpdateDTO,
+  ): Promise<ApprovalWorkflow>;
+  replaceSteps(
+    id: string,
+    dto: ApprovalStepsReplaceDTO,
+  ): Promise<ApprovalWorkflow>;
+  getWorkflow(id: string): Promise<ApprovalWorkflow>;
+  listWorkflows(cond: ApprovalWorkflowCondDTO): Promise<ApprovalWorkflow[]>;
+
+  // Vận hành
+  hasActiveWorkflow(entityType: string): Promise<boolean>;
+  // Gửi duyệt qua API: kiểm tra quyền của requester với đối tượng
+  start(requester: Requester, dto: ApprovalStartDTO): Promise<ApprovalInstance>;
+  // Module sở hữu gửi duyệt đối tượng của mình sau khi đã tự kiểm tra quyền
+  submit(
+    requester: Requester,
+    dto: ApprovalStartDTO,
+  ): Promise<ApprovalInstance>;
+  approve(
+    requester: Requester,
+    taskId: string,
+    dto: ApprovalDecisionDTO,
+  ): Promise<ApprovalInstance>;
+  reject(
+    requester: Requester,
+    taskId: string,
+    dto: ApprovalRejectDTO,
+  ): Promise<ApprovalInstance>;
+  delegate(
+    requester: Requester,
+    taskId: string,
+    dto: ApprovalDelegateDTO,
+  ): Promise<ApprovalTask>;
+  cancel(requester: Requester, instanceId: string): Promise<ApprovalInstance>;
+
+  getInstance(requester: Requester, id: string): Promise<ApprovalInstance>;
+  listInstances(
+    requester: Requester,
+    cond: ApprovalInstanceCondDTO,
+  ): Promise<Paginated<ApprovalInstance>>;
+  // Task đang chờ requester (theo vai trò hoặc được ủy quyền)
+  listMyTasks(
+    requester: Requester,
+    page: number,
+    limit: number,
+  ): Promise<Paginated<ApprovalTask>>;
+
+  // Chuyển các task quá hạn lên vai trò escalation; trả về số task đã chuyển
+  escalateOverdue(now?: Date): Promise<number>;
+  // Chạy lại handler của các instance đã kết thúc mà handler chưa chạy xong; trả về số đã xử lý
+  retryCompletionHandlers(now?: Date): Promise<number>;
+
+  registerEntityHandler(
+    entityType: string,
+    handler: ApprovalEntityHandler,
+  ): void;
+}
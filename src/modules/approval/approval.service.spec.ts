@@ -0,0 +1,291 @@
+import { AppError, Requester, UserRole } from '../../share';
+import { ApprovalStatus } from './approval.model';
+import { ApprovalService } from './approval.service';
+
+describe('ApprovalService authorization', () => {
+  const prisma = {
+    user: { findUnique: jest.fn() },
+    approvalTask: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const organizationService = {
+    isUserWithinScope: jest.fn(),
+    getMembership: jest.fn(),
+  };
+  let service: ApprovalService;
+
+  const worker = { sub: 'worker-1', role: UserRole.WORKER } as Requester;
+  const teamLeader = {
+    sub: 'leader-1',
+    role: UserRole.TEAM_LEADER,
+    teamId: 'team-1',
+  } as Requester;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ApprovalService(
+      prisma as any,
+      organizationService as any,
+      {} as any,
+    );
+    jest
+      .spyOn(service, 'submit')
+      .mockResolvedValue({ id: 'instance-1' } as any);
+  });
+
+  const expectForbidden = async (promise: Promise<unknown>) => {
+    const error = (await promise.catch((e) => e)) as AppError;
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(403);
+  };
+
+  describe('start', () => {
+    it('leaves entity types owned by a module to that module', async () => {
+      service.registerEntityHandler('LEAVE_REQUEST', {
+        onCompleted: jest.fn(),
+      });
+
+      await expectForbidden(
+        service.start(worker, {
+          entityType: 'LEAVE_REQUEST',
+          entityId: 'leave-1',
+          subjectUserId: 'worker-1',
+        }),
+      );
+      expect(service.submit).not.toHaveBeenCalled();
+    });
+
+    it('asks the owning module whether the requester may submit', async () => {
+      const canStart = jest.fn().mockResolvedValue(true);
+      service.registerEntityHandler('OVERTIME', {
+        canStart,
+        onCompleted: jest.fn(),
+      });
+      const dto = { entityType: 'OVERTIME', entityId: 'ot-1' };
+
+      await service.start(worker, dto);
+
+      expect(canStart).toHaveBeenCalledWith(worker, dto);
+      expect(service.submit).toHaveBeenCalledWith(worker, dto);
+    });
+
+    it('only lets users submit for themselves or people they manage', async () => {
+      organizationService.isUserWithinScope.mockResolvedValue(false);
+
+      await expectForbidden(
+        service.start(worker, {
+          entityType: 'EXPENSE',
+          entityId: 'expense-1',
+          subjectUserId: 'someone-else',
+        }),
+      );
+      await expectForbidden(
+        service.start(worker, { entityType: 'EXPENSE', entityId: 'expense-1' }),
+      );
+
+      await service.start(worker, {
+        entityType: 'EXPENSE',
+        entityId: 'expense-1',
+        subjectUserId: 'worker-1',
+      });
+      expect(service.submit).toHaveBeenCalledTimes(1);
+    });
+
+    it('lets administrators submit anything', async () => {
+      await service.start(
+        { sub: 'admin-1', role: UserRole.ADMIN },
+        {
+          entityType: 'EXPENSE',
+          entityId: 'expense-1',
+        },
+      );
+      expect(service.submit).toHaveBeenCalled();
+    });
+  });
+
+  describe('delegate', () => {
+    const task = {
+      id: 'task-1',
+      instanceId: 'instance-1',
+      roleId: 'role-team-leader',
+      assigneeId: null,
+      status: ApprovalStatus.PENDING,
+      role: { name: UserRole.TEAM_LEADER },
+      instance: {
+        status: ApprovalStatus.PENDING,
+        requestedById: 'worker-1',
+        subjectUserId: 'worker-1',
+      },
+    };
+
+    beforeEach(() => {
+      prisma.approvalTask.findUnique.mockResolvedValue(task);
+      // Người ủy quyền là trưởng team quản lý worker-1
+      organizationService.isUserWithinScope.mockImplementation(
+        async (requester: Requester) => requester.teamId === 'team-1',
+      );
+      jest
+        .spyOn(service as any, 'getRoleIds')
+        .mockResolvedValue(['role-team-leader']);
+    });
+
+    it('rejects a delegate without the task role', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        isActive: true,
+        userRoles: [{ roleId: 'role-worker', role: { name: UserRole.WORKER } }],
+      });
+
+      await expectForbidden(
+        service.delegate(teamLeader, 'task-1', { userId: 'worker-2' }),
+      );
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects a delegate who does not manage the subject', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        isActive: true,
+        userRoles: [
+          { roleId: 'role-team-leader', role: { name: UserRole.TEAM_LEADER } },
+        ],
+      });
+      organizationService.getMembership.mockResolvedValue({
+        factoryId: 'factory-1',
+        lineId: 'line-1',
+        teamId: 'team-2',
+        groupId: null,
+      });
+
+      await expectForbidden(
+        service.delegate(teamLeader, 'task-1', { userId: 'leader-2' }),
+      );
+      expect(organizationService.isUserWithinScope).toHaveBeenLastCalledWith(
+        expect.objectContaining({ sub: 'leader-2', teamId: 'team-2' }),
+        'worker-1',
+      );
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('hands the task to another leader of the same team', async () => {
+      prisma.user.findUnique.mockResolvedValue({
+        isActive: true,
+        userRoles: [
+          { roleId: 'role-team-leader', role: { name: UserRole.TEAM_LEADER } },
+        ],
+      });
+      organizationService.getMembership.mockResolvedValue({
+        factoryId: 'factory-1',
+        lineId: 'line-1',
+        teamId: 'team-1',
+        groupId: null,
+      });
+      prisma.$transaction.mockResolvedValue({
+        ...task,
+        assigneeId: 'leader-3',
+      });
+      jest
+        .spyOn(service as any, 'publishRequested')
+        .mockResolvedValue(undefined);
+
+      const updated = await service.delegate(teamLeader, 'task-1', {
+        userId: 'leader-3',
+      });
+
+      expect(updated.assigneeId).toBe('leader-3');
+    });
+  });
+});
+
+describe('ApprovalService completion handlers', () => {
+  const prisma = {
+    approvalInstance: { findMany: jest.fn(), updateMany: jest.fn() },
+  };
+  const eventPublisher = { publish: jest.fn() };
+  const onCompleted = jest.fn();
+  let service: ApprovalService;
+
+  const instance = {
+    id: 'instance-1',
+    entityType: 'LEAVE_REQUEST',
+    entityId: 'leave-1',
+    status: ApprovalStatus.APPROVED,
+    requestedById: 'worker-1',
+    subjectUserId: 'worker-1',
+    completedAt: new Date('2026-10-01T08:00:00Z'),
+    completionHandledAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ApprovalService(
+      prisma as any,
+      {} as any,
+      eventPublisher as any,
+    );
+    service.registerEntityHandler('LEAVE_REQUEST', { onCompleted });
+    prisma.approvalInstance.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  const complete = () =>
+    (service as any).complete(instance, 'leader-1') as Promise<void>;
+
+  it('marks the instance handled once the handler succeeds', async () => {
+    onCompleted.mockResolvedValue(undefined);
+
+    await complete();
+
+    expect(onCompleted).toHaveBeenCalledWith(instance);
+    expect(prisma.approvalInstance.updateMany).toHaveBeenCalledWith({
+      where: { id: 'instance-1', completionHandledAt: null },
+      data: { completionHandledAt: expect.any(Date) },
+    });
+    expect(eventPublisher.publish).toHaveBeenCalled();
+  });
+
+  it('leaves a failed handler pending for the retry job', async () => {
+    onCompleted.mockRejectedValue(new Error('db down'));
+
+    await complete();
+
+    expect(prisma.approvalInstance.updateMany).not.toHaveBeenCalled();
+    expect(eventPublisher.publish).toHaveBeenCalled();
+  });
+
+  it('re-runs handlers of settled instances that were never handled', async () => {
+    const now = new Date('2026-10-01T09:00:00Z');
+    prisma.approvalInstance.findMany.mockResolvedValue([
+      instance,
+      { ...instance, id: 'instance-2', entityId: 'leave-2' },
+    ]);
+    onCompleted
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('still failing'));
+
+    const handled = await service.retryCompletionHandlers(now);
+
+    expect(handled).toBe(1);
+    expect(prisma.approvalInstance.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: { not: ApprovalStatus.PENDING },
+          completionHandledAt: null,
+          completedAt: { lte: new Date('2026-10-01T08:55:00Z') },
+        },
+      }),
+    );
+    expect(prisma.approvalInstance.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.approvalInstance.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'instance-1', completionHandledAt: null },
+      }),
+    );
+  });
+
+  it('marks entity types without a handler as handled', async () => {
+    prisma.approvalInstance.findMany.mockResolvedValue([
+      { ...instance, entityType: 'OVERTIME' },
+    ]);
+
+    await expect(service.retryCompletionHandlers()).resolves.toBe(1);
+    expect(onCompleted).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,1254 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { AppError, Paginated, Requester, UserRole } from 'src/share';
+import { EVENT_PUBLISHER } from 'src/share/di-token';
+import {
+  ApprovalCompletedPayload,
+  ApprovalEvent,
+  ApprovalRequestedPayload,
+  EvtApprovalCompleted,
+  EvtApprovalRequested,
+} from 'src/share/event';
+import { IEventPublisher } from 'src/share/interface';
+import { PrismaService } from 'src/share/prisma.service';
+import { ORGANIZATION_SERVICE } from '../organization/organization.di-token';
+import { IOrganizationService } from '../organization/organization.port';
+import {
+  ApprovalDecisionDTO,
+  ApprovalDelegateDTO,
+  ApprovalInstanceCondDTO,
+  ApprovalRejectDTO,
+  ApprovalStartDTO,
+  ApprovalStepDTO,
+  ApprovalStepsReplaceDTO,
+  ApprovalWorkflowCondDTO,
+  ApprovalWorkflowCreateDTO,
+  ApprovalWorkflowUpdateDTO,
+} from './approval.dto';
+import {
+  ApprovalActionType,
+  ApprovalInstance,
+  ApprovalReviewType,
+  ApprovalStatus,
+  ApprovalTask,
+  ApprovalWorkflow,
+} from './approval.model';
+import { ApprovalEntityHandler, IApprovalService } from './approval.port';
+
+type Tx = Prisma.TransactionClient;
+
+const WORKFLOW_INCLUDE = {
+  steps: {
+    orderBy: { order: 'asc' },
+    include: {
+      role: { select: { name: true } },
+      escalateToRole: { select: { name: true } },
+    },
+  },
+} satisfies Prisma.ApprovalWorkflowInclude;
+
+const INSTANCE_INCLUDE = {
+  tasks: {
+    orderBy: [{ stage: 'asc' }, { createdAt: 'asc' }],
+    include: { role: { select: { name: true } } },
+  },
+  actions: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.ApprovalInstanceInclude;
+
+const TASK_INCLUDE = {
+  role: { select: { name: true } },
+  step: true,
+  instance: true,
+} satisfies Prisma.ApprovalTaskInclude;
+
+type TaskRow = Prisma.ApprovalTaskGetPayload<{ include: typeof TASK_INCLUDE }>;
+
+type StepRow = Prisma.ApprovalWorkflowStepGetPayload<object>;
+
+// Thời gian chờ trước khi job chạy lại handler của instance vừa kết thúc
+const COMPLETION_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Vai trò gắn với một cấp đơn vị: chỉ trưởng đơn vị của người được duyệt mới duyệt được
+const SCOPED_ROLES: string[] = [
+  UserRole.FACTORY_MANAGER,
+  UserRole.LINE_MANAGER,
+  UserRole.TEAM_LEADER,
+  UserRole.GROUP_LEADER,
+];
+
+@Injectable()
+export class ApprovalService implements IApprovalService {
+  private readonly logger = new Logger(ApprovalService.name);
+  private readonly entityHandlers = new Map<string, ApprovalEntityHandler>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(ORGANIZATION_SERVICE)
+    private readonly organizationService: IOrganizationService,
+    @Inject(EVENT_PUBLISHER)
+    private readonly eventPublisher: IEventPublisher,
+  ) {}
+
+  registerEntityHandler(
+    entityType: string,
+    handler: ApprovalEntityHandler,
+  ): void {
+    if (this.entityHandlers.has(entityType)) {
+      this.logger.warn(`Overriding approval handler for ${entityType}`);
+    }
+    this.entityHandlers.set(entityType, handler);
+  }
+
+  // ===== Workflow definitions =====
+
+  async createWorkflow(
+    dto: ApprovalWorkflowCreateDTO,
+  ): Promise<ApprovalWorkflow> {
+    try {
+      const existing = await this.prisma.approvalWorkflow.findUnique({
+        where: { code: dto.code },
+        select: { id: true },
+      });
+      if (existing) {
+        throw AppError.from(
+          new Error(`Workflow with code ${dto.code} already exists`),
+          409,
+        );
+      }
+
+      const steps = await this.resolveSteps(dto.steps);
+
+      return (await this.prisma.approvalWorkflow.create({
+        data: {
+          code: dto.code,
+          name: dto.name,
+          description: dto.description ?? null,
+          entityType: dto.entityType,
+          isActive: dto.isActive ?? true,
+          steps: { create: steps },
+        },
+        include: WORKFLOW_INCLUDE,
+      })) as ApprovalWorkflow;
+    } catch (error) {
+      this.logger.error(`Create workflow error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to create workflow: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async updateWorkflow(
+    id: string,
+    dto: ApprovalWorkflowUpdateDTO,
+  ): Promise<ApprovalWorkflow> {
+    try {
+      await this.getWorkflow(id);
+      return (await this.prisma.approvalWorkflow.update({
+        where: { id },
+        data: dto,
+        include: WORKFLOW_INCLUDE,
+      })) as ApprovalWorkflow;
+    } catch (error) {
+      this.logger.error(`Update workflow error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to update workflow: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async replaceSteps(
+    id: string,
+    dto: ApprovalStepsReplaceDTO,
+  ): Promise<ApprovalWorkflow> {
+    try {
+      await this.getWorkflow(id);
+
+      // Task cũ tham chiếu tới bước nên quy trình đã dùng thì phải tạo phiên bản mới
+      const used = await this.prisma.approvalInstance.count({
+        where: { workflowId: id },
+      });
+      if (used > 0) {
+        throw AppError.from(
+          new Error(
+            'Workflow is already in use; deactivate it and create a new one instead',
+          ),
+          409,
+        );
+      }
+
+      const steps = await this.resolveSteps(dto.steps);
+
+      return (await this.prisma.$transaction(async (tx) => {
+        await tx.approvalWorkflowStep.deleteMany({ where: { workflowId: id } });
+        return tx.approvalWorkflow.update({
+          where: { id },
+          data: { steps: { create: steps } },
+          include: WORKFLOW_INCLUDE,
+        });
+      })) as ApprovalWorkflow;
+    } catch (error) {
+      this.logger.error(
+        `Replace workflow steps error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to replace workflow steps: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async getWorkflow(id: string): Promise<ApprovalWorkflow> {
+    const workflow = await this.prisma.approvalWorkflow.findUnique({
+      where: { id },
+      include: WORKFLOW_INCLUDE,
+    });
+    if (!workflow) {
+      throw AppError.from(new Error('Workflow not found'), 404);
+    }
+    return workflow as ApprovalWorkflow;
+  }
+
+  async listWorkflows(
+    cond: ApprovalWorkflowCondDTO,
+  ): Promise<ApprovalWorkflow[]> {
+    const where: Prisma.ApprovalWorkflowWhereInput = {};
+    if (cond.entityType) where.entityType = cond.entityType;
+    if (cond.isActive !== undefined) where.isActive = cond.isActive;
+
+    return (await this.prisma.approvalWorkflow.findMany({
+      where,
+      include: WORKFLOW_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    })) as ApprovalWorkflow[];
+  }
+
+  // ===== Instances =====
+
+  async hasActiveWorkflow(entityType: string): Promise<boolean> {
+    const count = await this.prisma.approvalWorkflow.count({
+      where: { entityType, isActive: true, steps: { some: {} } },
+    });
+    return count > 0;
+  }
+
+  async start(
+    requester: Requester,
+    dto: ApprovalStartDTO,
+  ): Promise<ApprovalInstance> {
+    await this.assertCanStart(requester, dto);
+    return this.submit(requester, dto);
+  }
+
+  async submit(
+    requester: Requester,
+    dto: ApprovalStartDTO,
+  ): Promise<ApprovalInstance> {
+    try {
+      const workflow = await this.prisma.approvalWorkflow.findFirst({
+        where: {
+          entityType: dto.entityType,
+          isActive: true,
+          ...(dto.workflowCode && { code: dto.workflowCode }),
+        },
+        include: { steps: { orderBy: { order: 'asc' } } },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (!workflow || workflow.steps.length === 0) {
+        throw AppError.from(
+          new Error(`No active workflow for ${dto.entityType}`),
+          404,
+        );
+      }
+
+      const running = await this.prisma.approvalInstance.findFirst({
+        where: {
+          entityType: dto.entityType,
+          entityId: dto.entityId,
+          status: ApprovalStatus.PENDING,
+        },
+        select: { id: true },
+      });
+      if (running) {
+        throw AppError.from(
+          new Error('This entity already has a pending approval'),
+          409,
+        ).withDetail('instanceId', running.id);
+      }
+
+      const { instance, tasks } = await this.prisma.$transaction(async (tx) => {
+        const instance = await tx.approvalInstance.create({
+          data: {
+            workflowId: workflow.id,
+            entityType: dto.entityType,
+            entityId: dto.entityId,
+            subjectUserId: dto.subjectUserId ?? null,
+            requestedById: requester.sub,
+          },
+        });
+
+        await tx.approvalAction.create({
+          data: {
+            instanceId: instance.id,
+            actorId: requester.sub,
+            action: ApprovalActionType.SUBMITTED,
+          },
+        });
+
+        const tasks = await this.openStage(tx, instance.id, workflow.steps, 0);
+        return { instance, tasks };
+      });
+
+      await this.publishRequested(tasks, instance, requester.sub);
+
+      return this.findInstance(instance.id);
+    } catch (error) {
+      this.logger.error(`Start approval error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to start approval: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async approve(
+    requester: Requester,
+    taskId: string,
+    dto: ApprovalDecisionDTO,
+  ): Promise<ApprovalInstance> {
+    try {
+      const task = await this.getPendingTask(taskId);
+      await this.assertCanDecide(requester, task);
+
+      const { completed, opened } = await this.prisma.$transaction(
+        async (tx) => {
+          await this.lockInstance(tx, task.instanceId);
+          await this.claimTask(tx, task.id, {
+            status: ApprovalStatus.APPROVED,
+            decidedById: requester.sub,
+            decidedAt: new Date(),
+            comment: dto.comment ?? null,
+          });
+          await tx.approvalAction.create({
+            data: {
+              instanceId: task.instanceId,
+              taskId: task.id,
+              actorId: requester.sub,
+              action: ApprovalActionType.APPROVED,
+              comment: dto.comment ?? null,
+            },
+          });
+
+          // Stage song song chỉ xong khi mọi task trong stage đã duyệt
+          const remaining = await tx.approvalTask.count({
+            where: {
+              instanceId: task.instanceId,
+              stage: task.stage,
+              status: ApprovalStatus.PENDING,
+            },
+          });
+          if (remaining > 0) {
+            return { completed: false, opened: [] as TaskRow[] };
+          }
+
+          const steps = await tx.approvalWorkflowStep.findMany({
+            where: { workflowId: task.instance.workflowId },
+            orderBy: { order: 'asc' },
+          });
+          const opened = await this.openStage(
+            tx,
+            task.instanceId,
+            steps,
+            task.stage + 1,
+          );
+          if (opened.length > 0) {
+            await tx.approvalInstance.update({
+              where: { id: task.instanceId },
+              data: { currentStage: task.stage + 1 },
+            });
+            return { completed: false, opened };
+          }
+
+          await tx.approvalInstance.update({
+            where: { id: task.instanceId },
+            data: { status: ApprovalStatus.APPROVED, completedAt: new Date() },
+          });
+          return { completed: true, opened };
+        },
+      );
+
+      const instance = await this.findInstance(task.instanceId);
+      await this.publishRequested(opened, instance, requester.sub);
+      if (completed) {
+        await this.complete(instance, requester.sub);
+      }
+
+      return instance;
+    } catch (error) {
+      this.logger.error(`Approve task error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to approve task: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async reject(
+    requester: Requester,
+    taskId: string,
+    dto: ApprovalRejectDTO,
+  ): Promise<ApprovalInstance> {
+    try {
+      const task = await this.getPendingTask(taskId);
+      await this.assertCanDecide(requester, task);
+
+      await this.prisma.$transaction(async (tx) => {
+        await this.lockInstance(tx, task.instanceId);
+        await this.claimTask(tx, task.id, {
+          status: ApprovalStatus.REJECTED,
+          decidedById: requester.sub,
+          decidedAt: new Date(),
+          comment: dto.comment,
+        });
+        await tx.approvalAction.create({
+          data: {
+            instanceId: task.instanceId,
+            taskId: task.id,
+            actorId: requester.sub,
+            action: ApprovalActionType.REJECTED,
+            comment: dto.comment,
+          },
+        });
+
+        // Một người từ chối là cả instance bị từ chối
+        await this.closeInstance(tx, task.instanceId, ApprovalStatus.REJECTED);
+      });
+
+      const instance = await this.findInstance(task.instanceId);
+      await this.complete(instance, requester.sub);
+
+      return instance;
+    } catch (error) {
+      this.logger.error(`Reject task error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to reject task: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async delegate(
+    requester: Requester,
+    taskId: string,
+    dto: ApprovalDelegateDTO,
+  ): Promise<ApprovalTask> {
+    try {
+      const task = await this.getPendingTask(taskId);
+      await this.assertCanDecide(requester, task);
+
+      if (dto.userId === requester.sub) {
+        throw AppError.from(new Error('Cannot delegate to yourself'), 400);
+      }
+      if (
+        dto.userId === task.instance.requestedById ||
+        dto.userId === task.instance.subjectUserId
+      ) {
+        throw AppError.from(
+          new Error('Cannot delegate to the requester of this approval'),
+          400,
+        );
+      }
+
+      await this.assertCanReceiveDelegation(dto.userId, task);
+
+      const updated = await this.prisma.$transaction(async (tx) => {
+        await this.claimTask(tx, task.id, { assigneeId: dto.userId });
+        await tx.approvalAction.create({
+          data: {
+            instanceId: task.instanceId,
+            taskId: task.id,
+            actorId: requester.sub,
+            action: ApprovalActionType.DELEGATED,
+            comment: dto.comment ?? null,
+            metadata: {
+              fromUserId: task.assigneeId,
+              toUserId: dto.userId,
+            },
+          },
+        });
+        return tx.approvalTask.findUniqueOrThrow({
+          where: { id: task.id },
+          include: TASK_INCLUDE,
+        });
+      });
+
+      await this.publishRequested([updated], updated.instance, requester.sub);
+
+      return updated as ApprovalTask;
+    } catch (error) {
+      this.logger.error(`Delegate task error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to delegate task: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async cancel(
+    requester: Requester,
+    instanceId: string,
+  ): Promise<ApprovalInstance> {
+    try {
+      const instance = await this.findInstance(instanceId);
+      if (
+        instance.requestedById !== requester.sub &&
+        !this.isAdmin(requester)
+      ) {
+        throw AppError.from(
+          new Error('Only the requester can cancel this approval'),
+          403,
+        );
+      }
+      if (instance.status !== ApprovalStatus.PENDING) {
+        throw AppError.from(
+          new Error('Approval has already been completed'),
+          409,
+        ).withDetail('status', instance.status);
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        await this.lockInstance(tx, instanceId);
+        await tx.approvalAction.create({
+          data: {
+            instanceId,
+            actorId: requester.sub,
+            action: ApprovalActionType.CANCELLED,
+          },
+        });
+        await this.closeInstance(tx, instanceId, ApprovalStatus.CANCELLED);
+      });
+
+      const cancelled = await this.findInstance(instanceId);
+      await this.complete(cancelled, requester.sub);
+
+      return cancelled;
+    } catch (error) {
+      this.logger.error(`Cancel approval error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to cancel approval: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async getInstance(
+    requester: Requester,
+    id: string,
+  ): Promise<ApprovalInstance> {
+    const instance = await this.findInstance(id);
+    if (!(await this.canView(requester, instance))) {
+      throw AppError.from(
+        new Error('You are not allowed to view this approval'),
+        403,
+      );
+    }
+    return instance;
+  }
+
+  async listInstances(
+    requester: Requester,
+    cond: ApprovalInstanceCondDTO,
+  ): Promise<Paginated<ApprovalInstance>> {
+    try {
+      const where: Prisma.ApprovalInstanceWhereInput = {};
+      if (cond.entityType) where.entityType = cond.entityType;
+      if (cond.entityId) where.entityId = cond.entityId;
+      if (cond.status) where.status = cond.status;
+
+      // Ngoài admin, chỉ thấy instance mình gửi, mình được duyệt hoặc mình đã tham gia
+      const scopedWhere: Prisma.ApprovalInstanceWhereInput = this.isAdmin(
+        requester,
+      )
+        ? where
+        : {
+            AND: [
+              where,
+              {
+                OR: [
+                  { requestedById: requester.sub },
+                  { subjectUserId: requester.sub },
+                  { tasks: { some: { assigneeId: requester.sub } } },
+                  { tasks: { some: { decidedById: requester.sub } } },
+                ],
+              },
+            ],
+          };
+
+      const { page, limit } = cond;
+      const [total, rows] = await Promise.all([
+        this.prisma.approvalInstance.count({ where: scopedWhere }),
+        this.prisma.approvalInstance.findMany({
+          where: scopedWhere,
+          include: INSTANCE_INCLUDE,
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      return {
+        data: rows as ApprovalInstance[],
+        paging: { page, limit, total },
+        total,
+      };
+    } catch (error) {
+      this.logger.error(`List approvals error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to list approvals: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async listMyTasks(
+    requester: Requester,
+    page: number,
+    limit: number,
+  ): Promise<Paginated<ApprovalTask>> {
+    const roleIds = await this.getRoleIds(requester);
+
+    const where: Prisma.ApprovalTaskWhereInput = {
+      status: ApprovalStatus.PENDING,
+      instance: {
+        status: ApprovalStatus.PENDING,
+        requestedById: { not: requester.sub },
+      },
+      OR: [
+        { assigneeId: requester.sub },
+        { assigneeId: null, roleId: { in: roleIds } },
+      ],
+    };
+
+    const [total, rows] = await Promise.all([
+      this.prisma.approvalTask.count({ where }),
+      this.prisma.approvalTask.findMany({
+        where,
+        include: { role: { select: { name: true } }, instance: true },
+        orderBy: [{ dueAt: 'asc' }, { createdAt: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return {
+      data: rows as ApprovalTask[],
+      paging: { page, limit, total },
+      total,
+    };
+  }
+
+  async escalateOverdue(now: Date = new Date()): Promise<number> {
+    const overdue = await this.prisma.approvalTask.findMany({
+      where: {
+        status: ApprovalStatus.PENDING,
+        escalatedAt: null,
+        dueAt: { lte: now },
+        instance: { status: ApprovalStatus.PENDING },
+      },
+      include: TASK_INCLUDE,
+      take: 500,
+    });
+    if (overdue.length === 0) {
+      return 0;
+    }
+
+    const adminRole = await this.prisma.role.upsert({
+      where: { name: UserRole.ADMIN },
+      create: { name: UserRole.ADMIN },
+      update: {},
+    });
+
+    let escalated = 0;
+    for (const task of overdue) {
+      try {
+        const targetRoleId = task.step.escalateToRoleId ?? adminRole.id;
+
+        const updated = await this.prisma.$transaction(async (tx) => {
+          // Chỉ chuyển một lần; task đã được quyết định trong lúc chạy thì bỏ qua
+          const { count } = await tx.approvalTask.updateMany({
+            where: {
+              id: task.id,
+              status: ApprovalStatus.PENDING,
+              escalatedAt: null,
+            },
+            data: {
+              roleId: targetRoleId,
+              assigneeId: null,
+              escalatedAt: now,
+              dueAt: null,
+            },
+          });
+          if (count === 0) {
+            return null;
+          }
+
+          await tx.approvalAction.create({
+            data: {
+              instanceId: task.instanceId,
+              taskId: task.id,
+              action: ApprovalActionType.ESCALATED,
+              metadata: {
+                fromRoleId: task.roleId,
+                fromAssigneeId: task.assigneeId,
+                toRoleId: targetRoleId,
+              },
+            },
+          });
+
+          return tx.approvalTask.findUniqueOrThrow({
+            where: { id: task.id },
+            include: TASK_INCLUDE,
+          });
+        });
+
+        if (updated) {
+          escalated++;
+          await this.publishRequested([updated], updated.instance, 'system');
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to escalate approval task ${task.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    this.logger.log(`Escalated ${escalated} overdue approval task(s)`);
+    return escalated;
+  }
+
+  async retryCompletionHandlers(now: Date = new Date()): Promise<number> {
+    // Bỏ qua instance vừa kết thúc: request gốc có thể vẫn đang chạy handler
+    const pending = await this.prisma.approvalInstance.findMany({
+      where: {
+        status: { not: ApprovalStatus.PENDING },
+        completionHandledAt: null,
+        completedAt: {
+          lte: new Date(now.getTime() - COMPLETION_RETRY_DELAY_MS),
+        },
+      },
+      include: INSTANCE_INCLUDE,
+      orderBy: { completedAt: 'asc' },
+      take: 100,
+    });
+
+    let handled = 0;
+    for (const instance of pending) {
+      if (await this.runCompletionHandler(instance as ApprovalInstance)) {
+        handled++;
+      }
+    }
+
+    if (pending.length > 0) {
+      this.logger.log(
+        `Re-ran ${handled}/${pending.length} approval completion handler(s)`,
+      );
+    }
+    return handled;
+  }
+
+  // ===== Helpers =====
+
+  private isAdmin(requester: Requester): boolean {
+    return (
+      requester.role === UserRole.ADMIN ||
+      requester.role === UserRole.SUPER_ADMIN
+    );
+  }
+
+  // Vai trò trong token cộng với mọi vai trò được gán cho user
+  private async getRoleIds(requester: Requester): Promise<string[]> {
+    const [assigned, tokenRole] = await Promise.all([
+      this.prisma.userRole.findMany({
+        where: { userId: requester.sub },
+        select: { roleId: true },
+      }),
+      requester.role
+        ? this.prisma.role.findUnique({
+            where: { name: requester.role },
+            select: { id: true },
+          })
+        : null,
+    ]);
+
+    const roleIds = new Set(assigned.map((r) => r.roleId));
+    if (tokenRole) {
+      roleIds.add(tokenRole.id);
+    }
+    return [...roleIds];
+  }
+
+  private async assertCanStart(
+    requester: Requester,
+    dto: ApprovalStartDTO,
+  ): Promise<void> {
+    const handler = this.entityHandlers.get(dto.entityType);
+    if (handler) {
+      if (!handler.canStart || !(await handler.canStart(requester, dto))) {
+        throw AppError.from(
+          new Error(`You are not allowed to submit this ${dto.entityType}`),
+          403,
+        );
+      }
+      return;
+    }
+
+    // entityType không có module sở hữu: chỉ gửi cho chính mình hoặc người mình quản lý
+    if (this.isAdmin(requester)) {
+      return;
+    }
+    if (!dto.subjectUserId) {
+      throw AppError.from(
+        new Error('Only administrators can submit approvals without a subject'),
+        403,
+      );
+    }
+    if (
+      dto.subjectUserId !== requester.sub &&
+      !(await this.organizationService.isUserWithinScope(
+        requester,
+        dto.subjectUserId,
+      ))
+    ) {
+      throw AppError.from(
+        new Error('User belongs to a unit outside of your management scope'),
+        403,
+      );
+    }
+  }
+
+  // Người nhận ủy quyền phải tự duyệt được task: có vai trò của task và quản lý người được duyệt
+  private async assertCanReceiveDelegation(
+    userId: string,
+    task: TaskRow,
+  ): Promise<void> {
+    const delegate = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        isActive: true,
+        userRoles: {
+          select: { roleId: true, role: { select: { name: true } } },
+        },
+      },
+    });
+    if (!delegate || !delegate.isActive) {
+      throw AppError.from(new Error('User not found'), 404);
+    }
+
+    const roleNames = delegate.userRoles.map((r) => r.role.name);
+    if (
+      roleNames.includes(UserRole.ADMIN) ||
+      roleNames.includes(UserRole.SUPER_ADMIN)
+    ) {
+      return;
+    }
+
+    if (!delegate.userRoles.some((r) => r.roleId === task.roleId)) {
+      throw AppError.from(
+        new Error(`The delegate must have the ${task.role.name} role`),
+        403,
+      );
+    }
+
+    const { subjectUserId } = task.instance;
+    if (!SCOPED_ROLES.includes(task.role.name) || !subjectUserId) {
+      return;
+    }
+    const membership = await this.organizationService.getMembership(userId);
+    const delegateAsRequester: Requester = {
+      sub: userId,
+      role: task.role.name as UserRole,
+      factoryId: membership?.factoryId,
+      lineId: membership?.lineId ?? undefined,
+      teamId: membership?.teamId ?? undefined,
+      groupId: membership?.groupId ?? undefined,
+    };
+    if (
+      !(await this.organizationService.isUserWithinScope(
+        delegateAsRequester,
+        subjectUserId,
+      ))
+    ) {
+      throw AppError.from(
+        new Error('The delegate does not manage the user of this approval'),
+        403,
+      );
+    }
+  }
+
+  private async assertCanDecide(
+    requester: Requester,
+    task: TaskRow,
+  ): Promise<void> {
+    const { instance } = task;
+    if (
+      instance.requestedById === requester.sub ||
+      instance.subjectUserId === requester.sub
+    ) {
+      throw AppError.from(
+        new Error('You cannot decide on your own approval'),
+        403,
+      );
+    }
+
+    if (this.isAdmin(requester)) {
+      return;
+    }
+
+    // Task đã ủy quyền thì chỉ người được ủy quyền xử lý
+    if (task.assigneeId) {
+      if (task.assigneeId !== requester.sub) {
+        throw AppError.from(
+          new Error('This task has been delegated to another user'),
+          403,
+        );
+      }
+      return;
+    }
+
+    const roleIds = await this.getRoleIds(requester);
+    if (!roleIds.includes(task.roleId)) {
+      throw AppError.from(
+        new Error(`This task requires the ${task.role.name} role`),
+        403,
+      );
+    }
+
+    if (
+      SCOPED_ROLES.includes(task.role.name) &&
+      instance.subjectUserId &&
+      !(await this.organizationService.isUserWithinScope(
+        requester,
+        instance.subjectUserId,
+      ))
+    ) {
+      throw AppError.from(
+        new Error('User belongs to a unit outside of your management scope'),
+        403,
+      );
+    }
+  }
+
+  private async canView(
+    requester: Requester,
+    instance: ApprovalInstance,
+  ): Promise<boolean> {
+    if (
+      this.isAdmin(requester) ||
+      instance.requestedById === requester.sub ||
+      instance.subjectUserId === requester.sub
+    ) {
+      return true;
+    }
+
+    const tasks = instance.tasks ?? [];
+    if (
+      tasks.some(
+        (t) =>
+          t.assigneeId === requester.sub || t.decidedById === requester.sub,
+      )
+    ) {
+      return true;
+    }
+
+    const roleIds = await this.getRoleIds(requester);
+    return tasks.some((t) => roleIds.includes(t.roleId));
+  }
+
+  private async resolveSteps(
+    steps: ApprovalStepDTO[],
+  ): Promise<Prisma.ApprovalWorkflowStepCreateWithoutWorkflowInput[]> {
+    const names = [
+      ...new Set(
+        steps.flatMap((s) =>
+          s.escalateToRole ? [s.role, s.escalateToRole] : [s.role],
+        ),
+      ),
+    ];
+    const roleIds = await this.resolveRoles(names);
+
+    return steps.map((step, index) => ({
+      role: { connect: { id: roleIds.get(step.role) } },
+      // Bước đầu tiên luôn mở stage đầu
+      order: index + 1,
+      reviewType:
+        index === 0
+          ? ApprovalReviewType.SEQUENTIAL
+          : (step.reviewType ?? ApprovalReviewType.SEQUENTIAL),
+      timeoutMinutes: step.timeoutMinutes ?? null,
+      ...(step.escalateToRole && {
+        escalateToRole: { connect: { id: roleIds.get(step.escalateToRole) } },
+      }),
+    }));
+  }
+
+  // Role.name -> Role.id; vai trò hệ thống (UserRole) chưa có bản ghi thì tạo mới
+  private async resolveRoles(names: string[]): Promise<Map<string, string>> {
+    const roles = await this.prisma.role.findMany({
+      where: { name: { in: names } },
+      select: { id: true, name: true },
+    });
+    const ids = new Map(roles.map((r) => [r.name, r.id]));
+
+    const systemRoles = Object.values(UserRole) as string[];
+    const unknown: string[] = [];
+    for (const name of names) {
+      if (ids.has(name)) continue;
+      if (!systemRoles.includes(name)) {
+        unknown.push(name);
+        continue;
+      }
+      const role = await this.prisma.role.upsert({
+        where: { name },
+        create: { name },
+        update: {},
+      });
+      ids.set(name, role.id);
+    }
+
+    if (unknown.length > 0) {
+      throw AppError.from(new Error('Unknown roles'), 400).withDetail(
+        'roles',
+        unknown,
+      );
+    }
+    return ids;
+  }
+
+  // Stage = dãy bước liên tiếp, bước PARALLEL nhập vào stage của bước trước
+  private stageOf(steps: StepRow[]): Map<string, number> {
+    const stages = new Map<string, number>();
+    let stage = -1;
+    for (const step of steps) {
+      if (stage < 0 || step.reviewType !== ApprovalReviewType.PARALLEL) {
+        stage++;
+      }
+      stages.set(step.id, stage);
+    }
+    return stages;
+  }
+
+  private async openStage(
+    tx: Tx,
+    instanceId: string,
+    steps: StepRow[],
+    stage: number,
+  ): Promise<TaskRow[]> {
+    const stages = this.stageOf(steps);
+    const now = Date.now();
+
+    const tasks: TaskRow[] = [];
+    for (const step of steps.filter((s) => stages.get(s.id) === stage)) {
+      tasks.push(
+        await tx.approvalTask.create({
+          data: {
+            instanceId,
+            stepId: step.id,
+            stage,
+            roleId: step.roleId,
+            dueAt: step.timeoutMinutes
+              ? new Date(now + step.timeoutMinutes * 60 * 1000)
+              : null,
+          },
+          include: TASK_INCLUDE,
+        }),
+      );
+    }
+    return tasks;
+  }
+
+  // Khóa dòng instance để các quyết định song song trên cùng instance chạy tuần tự;
+  // nếu không, hai task cuối của một stage có thể cùng thấy stage chưa xong
+  private async lockInstance(tx: Tx, instanceId: string): Promise<void> {
+    const { count } = await tx.approvalInstance.updateMany({
+      where: { id: instanceId, status: ApprovalStatus.PENDING },
+      data: { updatedAt: new Date() },
+    });
+    if (count === 0) {
+      throw AppError.from(
+        new Error('Approval has already been completed'),
+        409,
+      );
+    }
+  }
+
+  private async claimTask(
+    tx: Tx,
+    taskId: string,
+    data: Prisma.ApprovalTaskUncheckedUpdateManyInput,
+  ): Promise<void> {
+    const { count } = await tx.approvalTask.updateMany({
+      where: { id: taskId, status: ApprovalStatus.PENDING },
+      data,
+    });
+    if (count === 0) {
+      throw AppError.from(
+        new Error('Approval task was modified concurrently'),
+        409,
+      );
+    }
+  }
+
+  private async closeInstance(
+    tx: Tx,
+    instanceId: string,
+    status: ApprovalStatus,
+  ): Promise<void> {
+    const now = new Date();
+    await tx.approvalTask.updateMany({
+      where: { instanceId, status: ApprovalStatus.PENDING },
+      data: { status: ApprovalStatus.CANCELLED, decidedAt: now },
+    });
+    await tx.approvalInstance.update({
+      where: { id: instanceId },
+      data: { status, completedAt: now },
+    });
+  }
+
+  private async getPendingTask(taskId: string): Promise<TaskRow> {
+    const task = await this.prisma.approvalTask.findUnique({
+      where: { id: taskId },
+      include: TASK_INCLUDE,
+    });
+    if (!task) {
+      throw AppError.from(new Error('Approval task not found'), 404);
+    }
+    if (
+      task.status !== ApprovalStatus.PENDING ||
+      task.instance.status !== ApprovalStatus.PENDING
+    ) {
+      throw AppError.from(
+        new Error('Approval task has already been decided'),
+        409,
+      ).withDetail('status', task.status);
+    }
+    return task;
+  }
+
+  private async findInstance(id: string): Promise<ApprovalInstance> {
+    const instance = await this.prisma.approvalInstance.findUnique({
+      where: { id },
+      include: INSTANCE_INCLUDE,
+    });
+    if (!instance) {
+      throw AppError.from(new Error('Approval not found'), 404);
+    }
+    return instance as ApprovalInstance;
+  }
+
+  // Gọi handler của module sở hữu đối tượng rồi phát event hoàn tất
+  private async complete(
+    instance: ApprovalInstance,
+    senderId: string,
+  ): Promise<void> {
+    await this.runCompletionHandler(instance);
+
+    const payload: ApprovalCompletedPayload = {
+      instanceId: instance.id,
+      entityType: instance.entityType,
+      entityId: instance.entityId,
+      status: instance.status,
+      requestedById: instance.requestedById,
+      subjectUserId: instance.subjectUserId,
+    };
+    await this.publish(EvtApprovalCompleted, payload, senderId);
+  }
+
+  // Handler lỗi thì để completionHandledAt = null cho retryCompletionHandlers chạy lại
+  private async runCompletionHandler(
+    instance: ApprovalInstance,
+  ): Promise<boolean> {
+    const handler = this.entityHandlers.get(instance.entityType);
+    try {
+      if (handler) {
+        await handler.onCompleted(instance);
+      }
+      await this.prisma.approvalInstance.updateMany({
+        where: { id: instance.id, completionHandledAt: null },
+        data: { completionHandledAt: new Date() },
+      });
+      return true;
+    } catch (error) {
+      this.logger.error(
+        `Approval completion handler for ${instance.entityType} failed: ${error.message}`,
+        error.stack,
+      );
+      return false;
+    }
+  }
+
+  private async publishRequested(
+    tasks: TaskRow[],
+    instance: Pick<ApprovalInstance, 'id' | 'entityType' | 'entityId'>,
+    senderId: string,
+  ): Promise<void> {
+    for (const task of tasks) {
+      const payload: ApprovalRequestedPayload = {
+        instanceId: instance.id,
+        taskId: task.id,
+        entityType: instance.entityType,
+        entityId: instance.entityId,
+        role: task.role.name,
+        assigneeId: task.assigneeId,
+        dueAt: task.dueAt?.toISOString() ?? null,
+      };
+      await this.publish(EvtApprovalRequested, payload, senderId);
+    }
+  }
+
+  private async publish(
+    eventName: string,
+    payload: ApprovalRequestedPayload | ApprovalCompletedPayload,
+    senderId: string,
+  ): Promise<void> {
+    try {
+      await this.eventPublisher.publish(
+        new ApprovalEvent(eventName, payload, { senderId }),
+      );
+    } catch (error) {
+      // Quyết định đã lưu; lỗi phát event không được làm hỏng request
+      this.logger.warn(
+        `Failed to publish ${eventName} for ${payload.instanceId}: ${error.message}`,
+      );
+    }
+  }
+}
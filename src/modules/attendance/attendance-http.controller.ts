@@ -0,0 +1,129 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { HTTP_CONTROLLER } from 'src/constant';
+import { ReqWithRequester, UserRole } from 'src/share';
+import { RemoteAuthGuard, Roles, RolesGuard } from 'src/share/guard';
+import { ZodValidationPipe } from 'src/share/pipes/zod-validation.pipe';
+import { ATTENDANCE_SERVICE } from './attendance.di-token';
+import {
+  AttendanceCondDTO,
+  attendanceCondDTOSchema,
+  BulkAttendanceDTO,
+  bulkAttendanceDTOSchema,
+  CheckInDTO,
+  checkInDTOSchema,
+  CheckOutDTO,
+  checkOutDTOSchema,
+} from './attendance.dto';
+import { IAttendanceService } from './attendance.port';
+
+@ApiTags('Attendance')
+@ApiBearerAuth()
+@Controller(HTTP_CONTROLLER.ATTENDANCE)
+@UseGuards(RemoteAuthGuard, RolesGuard)
+export class AttendanceHttpController {
+  constructor(
+    @Inject(ATTENDANCE_SERVICE)
+    private readonly attendanceService: IAttendanceService,
+  ) {}
+
+  @Post('check-in')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Check in for today' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Checked in' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Already checked in',
+  })
+  async checkIn(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(checkInDTOSchema)) dto: CheckInDTO,
+  ) {
+    const data = await this.attendanceService.checkIn(req.requester, dto);
+    return { success: true, data };
+  }
+
+  @Post('check-out')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Check out of the current open attendance' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Checked out' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'No open check-in' })
+  async checkOut(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(checkOutDTOSchema)) dto: CheckOutDTO,
+  ) {
+    const data = await this.attendanceService.checkOut(req.requester, dto);
+    return { success: true, data };
+  }
+
+  @Post('bulk')
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.SUPER_ADMIN,
+    UserRole.FACTORY_MANAGER,
+    UserRole.LINE_MANAGER,
+    UserRole.TEAM_LEADER,
+    UserRole.GROUP_LEADER,
+  )
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Record attendance for members of your unit' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Attendance recorded; users on leave that day are skipped',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Some users are outside of your management scope',
+  })
+  async bulkUpsert(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(bulkAttendanceDTOSchema))
+    dto: BulkAttendanceDTO,
+  ) {
+    const data = await this.attendanceService.bulkUpsert(req.requester, dto);
+    return { success: true, data };
+  }
+
+  @Get('me')
+  @ApiOperation({ summary: 'List your own attendance' })
+  async listMine(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(attendanceCondDTOSchema))
+    cond: AttendanceCondDTO,
+  ) {
+    const result = await this.attendanceService.list(req.requester, {
+      ...cond,
+      userId: req.requester.sub,
+    });
+    return { success: true, ...result };
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List attendance within your management scope',
+  })
+  async list(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(attendanceCondDTOSchema))
+    cond: AttendanceCondDTO,
+  ) {
+    const result = await this.attendanceService.list(req.requester, cond);
+    return { success: true, ...result };
+  }
+}
@@ -0,0 +1,3 @@
+export const SHIFT_REPOSITORY = Symbol('SHIFT_REPOSITORY');
+export const SHIFT_SERVICE = Symbol('SHIFT_SERVICE');
+export const ATTENDANCE_SERVICE = Symbol('ATTENDANCE_SERVICE');
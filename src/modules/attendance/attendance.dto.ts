@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { AttendanceStatus } from './attendance.model';
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Giờ phải có dạng HH:mm');
+
+// Ngày dạng YYYY-MM-DD, hiểu theo giờ nhà máy
+const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Ngày phải có dạng YYYY-MM-DD');
+
+// ===== Shift =====
+export const shiftCreateDTOSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Mã ca không được để trống')
+    .max(50, 'Mã ca tối đa 50 ký tự'),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Tên ca không được để trống')
+    .max(200, 'Tên ca tối đa 200 ký tự'),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+  breakMinutes: z.number().int().min(0).max(480).optional(),
+  graceMinutes: z.number().int().min(0).max(240).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type ShiftCreateDTO = z.infer<typeof shiftCreateDTOSchema>;
+
+export const shiftUpdateDTOSchema = shiftCreateDTOSchema.partial();
+
+export type ShiftUpdateDTO = z.infer<typeof shiftUpdateDTOSchema>;
+
+export const shiftCondDTOSchema = z.object({
+  code: z.string().optional(),
+  name: z.string().optional(),
+  isActive: z
+    .union([z.boolean(), z.enum(['true', 'false'])])
+    .transform((v) => v === true || v === 'true')
+    .optional(),
+});
+
+export type ShiftCondDTO = z.infer<typeof shiftCondDTOSchema>;
+
+// ===== Attendance =====
+export const checkInDTOSchema = z.object({
+  shiftId: z.string().uuid('Shift ID không hợp lệ').optional(),
+  note: z.string().max(500).optional(),
+});
+
+export type CheckInDTO = z.infer<typeof checkInDTOSchema>;
+
+export const checkOutDTOSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+export type CheckOutDTO = z.infer<typeof checkOutDTOSchema>;
+
+export const attendanceEntryDTOSchema = z.object({
+  userId: z.string().min(1, 'User ID không được để trống'),
+  status: z.nativeEnum(AttendanceStatus),
+  shiftId: z.string().uuid('Shift ID không hợp lệ').optional().nullable(),
+  checkInAt: z.coerce.date().optional().nullable(),
+  checkOutAt: z.coerce.date().optional().nullable(),
+  note: z.string().max(500).optional().nullable(),
+});
+
+export type AttendanceEntryDTO = z.infer<typeof attendanceEntryDTOSchema>;
+
+// Trưởng đơn vị nhập chấm công cho nhiều người trong cùng một ngày
+export const bulkAttendanceDTOSchema = z
+  .object({
+    date: dateOnlySchema,
+    entries: z
+      .array(attendanceEntryDTOSchema)
+      .min(1, 'Danh sách chấm công không được để trống')
+      .max(500, 'Tối đa 500 bản ghi mỗi lần'),
+  })
+  .refine(
+    (dto) =>
+      new Set(dto.entries.map((e) => e.userId)).size === dto.entries.length,
+    { message: 'Mỗi user chỉ được xuất hiện một lần', path: ['entries'] },
+  );
+
+export type BulkAttendanceDTO = z.infer<typeof bulkAttendanceDTOSchema>;
+
+export const attendanceCondDTOSchema = z.object({
+  userId: z.string().optional(),
+  from: dateOnlySchema.optional(),
+  to: dateOnlySchema.optional(),
+  status: z.nativeEnum(AttendanceStatus).optional(),
+  shiftId: z.string().optional(),
+  factoryId: z.string().optional(),
+  lineId: z.string().optional(),
+  teamId: z.string().optional(),
+  groupId: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type AttendanceCondDTO = z.infer<typeof attendanceCondDTOSchema>;
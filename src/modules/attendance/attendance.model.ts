@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+// Giá trị trùng với enum AttendanceStatus trong schema.prisma
+export enum AttendanceStatus {
+  PRESENT = 'PRESENT',
+  LATE = 'LATE',
+  ABSENT = 'ABSENT',
+  ON_LEAVE = 'ON_LEAVE',
+  HALF_DAY = 'HALF_DAY',
+}
+
+export enum AttendanceSource {
+  SELF = 'SELF',
+  LEADER = 'LEADER',
+  SYSTEM = 'SYSTEM',
+}
+
+// Shift model
+export const shiftSchema = z.object({
+  id: z.string().uuid(),
+  code: z.string().min(1, 'Mã ca không được để trống'),
+  name: z.string().min(1, 'Tên ca không được để trống'),
+  startTime: z.string(),
+  endTime: z.string(),
+  breakMinutes: z.number().int().nonnegative(),
+  graceMinutes: z.number().int().nonnegative(),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  deletedAt: z.date().nullable(),
+});
+
+export type Shift = z.infer<typeof shiftSchema>;
+
+// Attendance model
+export const attendanceSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string(),
+  date: z.date(),
+  shiftId: z.string().uuid().nullable(),
+  status: z.nativeEnum(AttendanceStatus),
+  source: z.nativeEnum(AttendanceSource),
+  checkInAt: z.date().nullable(),
+  checkOutAt: z.date().nullable(),
+  workMinutes: z.number().int().nullable(),
+  note: z.string().nullable(),
+  recordedById: z.string().nullable(),
+  factoryId: z.string().nullable(),
+  lineId: z.string().nullable(),
+  teamId: z.string().nullable(),
+  groupId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Attendance = z.infer<typeof attendanceSchema>;
@@ -0,0 +1,114 @@
+import { Module } from '@nestjs/common';
+import { RedisModule } from 'src/common/redis';
+import { HTTP_CONTROLLER } from 'src/constant';
+import { createCrudModule } from 'src/core/crud/factories/create-crud-module.factory';
+import { UserRole } from 'src/share';
+import { ShareModule } from 'src/share/module';
+import { OrganizationModule } from '../organization/organization.module';
+import { AttendanceHttpController } from './attendance-http.controller';
+import {
+  ATTENDANCE_SERVICE,
+  SHIFT_REPOSITORY,
+  SHIFT_SERVICE,
+} from './attendance.di-token';
+import {
+  shiftCondDTOSchema,
+  shiftCreateDTOSchema,
+  shiftUpdateDTOSchema,
+} from './attendance.dto';
+import { shiftSchema } from './attendance.model';
+import { AttendanceService } from './attendance.service';
+import { ShiftService } from './shift-crud.service';
+import { ShiftPrismaRepository } from './shift-prisma.repo';
+
+const ADMIN_ROLES = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+@Module({
+  imports: [
+    ShareModule,
+    RedisModule,
+    OrganizationModule,
+    createCrudModule({
+      moduleName: 'Shift',
+      path: HTTP_CONTROLLER.SHIFT,
+      modelType: shiftSchema,
+      createDtoType: shiftCreateDTOSchema,
+      updateDtoType: shiftUpdateDTOSchema,
+      filterDtoType: shiftCondDTOSchema,
+      serviceClass: ShiftService,
+      repositoryClass: ShiftPrismaRepository,
+      serviceToken: SHIFT_SERVICE,
+      repositoryToken: SHIFT_REPOSITORY,
+      controllerOptions: {
+        entityName: 'Shift',
+        endpoints: {
+          getAll: { enabled: true },
+          getOne: { enabled: true },
+          count: { enabled: true },
+          create: { enabled: true, roles: ADMIN_ROLES },
+          update: { enabled: true, roles: ADMIN_ROLES },
+          delete: { enabled: true, roles: ADMIN_ROLES },
+        },
+        query: {
+          filters: {
+            code: { operators: ['eq', 'in', 'contains'] },
+            name: { operators: ['eq', 'contains'] },
+            isActive: { type: 'boolean', operators: ['eq'] },
+            breakMinutes: { type: 'number', operators: ['eq', 'gte', 'lte'] },
+            graceMinutes: { type: 'number', operators: ['eq', 'gte', 'lte'] },
+            createdAt: { type: 'date', operators: ['gte', 'lte', 'between'] },
+            deletedAt: { type: 'date', operators: ['gte', 'lte', 'between'] },
+          },
+          sortable: [
+            'code',
+            'name',
+            'startTime',
+            'createdAt',
+            'updatedAt',
+            'deletedAt',
+          ],
+          defaultSort: 'code',
+        },
+        transfer: {
+          columns: [
+            { field: 'id', readonly: true },
+            { field: 'code' },
+            { field: 'name' },
+            // HH:mm; ô kiểu giờ của Excel phải định dạng text
+            { field: 'startTime' },
+            { field: 'endTime' },
+            { field: 'breakMinutes', type: 'number' },
+            { field: 'graceMinutes', type: 'number' },
+            { field: 'isActive', type: 'boolean' },
+          ],
+        },
+        swagger: { tags: ['Shifts'] },
+      },
+      softDelete: true,
+      selection: {
+        fields: [
+          'code',
+          'name',
+          'startTime',
+          'endTime',
+          'breakMinutes',
+          'graceMinutes',
+          'isActive',
+          'createdAt',
+          'updatedAt',
+          'deletedAt',
+        ],
+      },
+      imports: [ShareModule],
+    }),
+  ],
+  controllers: [AttendanceHttpController],
+  providers: [
+    {
+      provide: ATTENDANCE_SERVICE,
+      useClass: AttendanceService,
+    },
+  ],
+  exports: [ATTENDANCE_SERVICE],
+})
+export class AttendanceModule {}
@@ -0,0 +1,40 @@
+import { Paginated, Requester } from 'src/share';
+import {
+  AttendanceCondDTO,
+  BulkAttendanceDTO,
+  CheckInDTO,
+  CheckOutDTO,
+} from './attendance.dto';
+import { Attendance } from './attendance.model';
+
+export interface BulkAttendanceResult {
+  date: string;
+  saved: number;
+  // Người đang nghỉ phép (ON_LEAVE) trong ngày, dòng của họ bị bỏ qua
+  skipped: string[];
+}
+
+// CRUD ca làm việc do createCrudModule đảm nhiệm; service này lo nghiệp vụ chấm công
+export interface IAttendanceService {
+  checkIn(requester: Requester, dto: CheckInDTO): Promise<Attendance>;
+  checkOut(requester: Requester, dto: CheckOutDTO): Promise<Attendance>;
+  bulkUpsert(
+    requester: Requester,
+    dto: BulkAttendanceDTO,
+  ): Promise<BulkAttendanceResult>;
+  list(
+    requester: Requester,
+    cond: AttendanceCondDTO,
+  ): Promise<Paginated<Attendance>>;
+
+  // Dùng cho cron: tạo bản ghi ABSENT cho người chưa chấm công trong ngày
+  markAbsentees(date: Date): Promise<number>;
+
+  // Dùng cho nghỉ phép: đánh dấu/gỡ ON_LEAVE, không đụng tới ngày đã check-in
+  markOnLeave(
+    userId: string,
+    dates: Date[],
+    recordedById: string,
+  ): Promise<number>;
+  clearOnLeave(userId: string, dates: Date[]): Promise<number>;
+}
@@ -0,0 +1,409 @@
+import { AppError, Requester, UserRole } from '../../share';
+import { AttendanceStatus } from './attendance.model';
+import { AttendanceService } from './attendance.service';
+
+describe('AttendanceService.bulkUpsert', () => {
+  const tx = {
+    attendance: { findMany: jest.fn(), upsert: jest.fn() },
+  };
+  const prisma = {
+    orgMembership: { findMany: jest.fn() },
+    $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  };
+  const organizationService = { getScopeFilter: jest.fn() };
+  const eventPublisher = { publish: jest.fn() };
+  const service = new AttendanceService(
+    prisma as any,
+    organizationService as any,
+    eventPublisher as any,
+  );
+
+  const leader = {
+    sub: 'leader-1',
+    role: UserRole.TEAM_LEADER,
+    teamId: 'team-1',
+  } as Requester;
+  const membership = (userId: string) => ({
+    userId,
+    factoryId: 'factory-1',
+    lineId: 'line-1',
+    teamId: 'team-1',
+    groupId: null,
+  });
+  const dto = {
+    date: '2026-10-01',
+    entries: [
+      { userId: 'worker-1', status: AttendanceStatus.PRESENT },
+      { userId: 'worker-2', status: AttendanceStatus.ABSENT },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    organizationService.getScopeFilter.mockReturnValue({ teamId: 'team-1' });
+    prisma.orgMembership.findMany.mockResolvedValue([
+      membership('worker-1'),
+      membership('worker-2'),
+    ]);
+    tx.attendance.findMany.mockResolvedValue([]);
+    tx.attendance.upsert.mockImplementation(({ create }) => ({
+      ...create,
+      shift: null,
+    }));
+  });
+
+  it('records every entry for members of the unit', async () => {
+    const result = await service.bulkUpsert(leader, dto);
+
+    expect(result).toEqual({ date: '2026-10-01', saved: 2, skipped: [] });
+    expect(tx.attendance.upsert).toHaveBeenCalledTimes(2);
+    expect(eventPublisher.publish).toHaveBeenCalledTimes(2);
+  });
+
+  const bulkError = async (body: object, requester = leader) =>
+    (await service
+      .bulkUpsert(requester, body as any)
+      .catch((e) => e)) as AppError;
+
+  it('rejects a future date', async () => {
+    const error = await bulkError({ ...dto, date: '2999-01-01' });
+
+    expect(error.getStatusCode()).toBe(400);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects requesters who do not manage any unit', async () => {
+    organizationService.getScopeFilter.mockReturnValue(null);
+
+    const error = await bulkError(dto);
+
+    expect(error.getStatusCode()).toBe(403);
+  });
+
+  it('rejects users outside of the leader unit', async () => {
+    prisma.orgMembership.findMany.mockResolvedValue([
+      membership('worker-1'),
+      { ...membership('worker-2'), teamId: 'team-2' },
+    ]);
+
+    const error = await bulkError(dto);
+
+    expect(error.getStatusCode()).toBe(403);
+    expect(error.toJSON().details).toMatchObject({ userIds: ['worker-2'] });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects a check-out before the check-in', async () => {
+    const error = await bulkError({
+      date: '2026-10-01',
+      entries: [
+        {
+          userId: 'worker-1',
+          status: AttendanceStatus.PRESENT,
+          checkInAt: new Date('2026-10-01T08:00:00Z'),
+          checkOutAt: new Date('2026-10-01T07:00:00Z'),
+        },
+      ],
+    });
+
+    expect(error.getStatusCode()).toBe(400);
+    expect(error.toJSON().details).toMatchObject({ userId: 'worker-1' });
+  });
+
+  it('skips users already marked ON_LEAVE for the day', async () => {
+    tx.attendance.findMany.mockResolvedValue([{ userId: 'worker-2' }]);
+
+    const result = await service.bulkUpsert(leader, dto);
+
+    expect(tx.attendance.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: { in: ['worker-1', 'worker-2'] },
+        date: new Date('2026-10-01T00:00:00.000Z'),
+        status: AttendanceStatus.ON_LEAVE,
+      },
+      select: { userId: true },
+    });
+    expect(result).toEqual({
+      date: '2026-10-01',
+      saved: 1,
+      skipped: ['worker-2'],
+    });
+    expect(tx.attendance.upsert).toHaveBeenCalledTimes(1);
+    expect(tx.attendance.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId_date: {
+            userId: 'worker-1',
+            date: new Date('2026-10-01T00:00:00.000Z'),
+          },
+        },
+      }),
+    );
+  });
+});
+
+describe('AttendanceService check-in and check-out', () => {
+  const prisma = {
+    shift: { findUnique: jest.fn() },
+    attendance: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  const organizationService = { getMembership: jest.fn() };
+  const eventPublisher = { publish: jest.fn() };
+  const service = new AttendanceService(
+    prisma as any,
+    organizationService as any,
+    eventPublisher as any,
+  );
+
+  const worker = { sub: 'worker-1', role: UserRole.WORKER } as Requester;
+  // Ca 08:00-17:00 nghỉ trưa 60 phút, cho phép muộn 10 phút
+  const shift = {
+    id: 'shift-1',
+    code: 'DAY',
+    startTime: '08:00',
+    endTime: '17:00',
+    breakMinutes: 60,
+    graceMinutes: 10,
+    isActive: true,
+    deletedAt: null,
+  };
+  // Giờ địa phương: ngày làm việc tính theo giờ nhà máy
+  const at = (hours: number, minutes = 0) =>
+    new Date(2026, 9, 1, hours, minutes);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    prisma.shift.findUnique.mockResolvedValue(shift);
+    prisma.attendance.findUnique.mockResolvedValue(null);
+    prisma.attendance.upsert.mockImplementation(({ create }) => ({
+      ...create,
+      shift: { code: shift.code },
+    }));
+    prisma.attendance.update.mockImplementation(({ data }) => ({
+      userId: 'worker-1',
+      date: new Date('2026-10-01T00:00:00Z'),
+      shift: { code: shift.code },
+      ...data,
+    }));
+    organizationService.getMembership.mockResolvedValue(null);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('checks in as PRESENT within the grace period', async () => {
+    jest.setSystemTime(at(8, 10));
+
+    const attendance = await service.checkIn(worker, { shiftId: 'shift-1' });
+
+    expect(attendance.status).toBe(AttendanceStatus.PRESENT);
+    expect(attendance.date).toEqual(new Date('2026-10-01T00:00:00Z'));
+  });
+
+  it('checks in as LATE after the grace period', async () => {
+    jest.setSystemTime(at(8, 11));
+
+    const attendance = await service.checkIn(worker, { shiftId: 'shift-1' });
+
+    expect(attendance.status).toBe(AttendanceStatus.LATE);
+  });
+
+  it('rejects a second check-in on the same day', async () => {
+    jest.setSystemTime(at(9));
+    prisma.attendance.findUnique.mockResolvedValue({ checkInAt: at(8) });
+
+    const error = (await service
+      .checkIn(worker, {})
+      .catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(409);
+    expect(prisma.attendance.upsert).not.toHaveBeenCalled();
+  });
+
+  it('overwrites an ABSENT or ON_LEAVE record when the worker shows up', async () => {
+    jest.setSystemTime(at(8));
+    prisma.attendance.findUnique.mockResolvedValue({
+      status: AttendanceStatus.ON_LEAVE,
+      checkInAt: null,
+    });
+
+    const attendance = await service.checkIn(worker, {});
+
+    expect(attendance.status).toBe(AttendanceStatus.PRESENT);
+    expect(prisma.attendance.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ checkInAt: at(8) }),
+      }),
+    );
+  });
+
+  it('rejects a check-out without an open check-in', async () => {
+    jest.setSystemTime(at(17));
+    prisma.attendance.findFirst.mockResolvedValue(null);
+
+    const error = (await service
+      .checkOut(worker, {})
+      .catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(409);
+  });
+
+  it('computes work minutes without the break on check-out', async () => {
+    jest.setSystemTime(at(17));
+    prisma.attendance.findFirst.mockResolvedValue({
+      id: 'attendance-1',
+      date: new Date('2026-10-01T00:00:00Z'),
+      status: AttendanceStatus.PRESENT,
+      checkInAt: at(8),
+      note: null,
+      shift,
+    });
+
+    const attendance = await service.checkOut(worker, {});
+
+    expect(attendance.workMinutes).toBe(480);
+    expect(attendance.status).toBe(AttendanceStatus.PRESENT);
+  });
+
+  it('counts less than half a shift as HALF_DAY', async () => {
+    jest.setSystemTime(at(11));
+    prisma.attendance.findFirst.mockResolvedValue({
+      id: 'attendance-1',
+      date: new Date('2026-10-01T00:00:00Z'),
+      status: AttendanceStatus.LATE,
+      checkInAt: at(8, 30),
+      note: null,
+      shift,
+    });
+
+    const attendance = await service.checkOut(worker, {});
+
+    expect(attendance.workMinutes).toBe(90);
+    expect(attendance.status).toBe(AttendanceStatus.HALF_DAY);
+  });
+});
+
+describe('AttendanceService system records', () => {
+  const prisma = {
+    orgMembership: { findMany: jest.fn() },
+    attendance: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      upsert: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  const organizationService = {
+    getMembership: jest.fn(),
+    getScopeFilter: jest.fn(),
+  };
+  const eventPublisher = { publish: jest.fn() };
+  const service = new AttendanceService(
+    prisma as any,
+    organizationService as any,
+    eventPublisher as any,
+  );
+
+  const day = (value: string) => new Date(`${value}T00:00:00Z`);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    organizationService.getMembership.mockResolvedValue(null);
+    prisma.attendance.upsert.mockImplementation(({ create }) => ({
+      ...create,
+      shift: null,
+    }));
+    prisma.$transaction.mockImplementation((fn: (tx: unknown) => unknown) =>
+      fn(prisma),
+    );
+  });
+
+  it('marks leave days but keeps days the worker already checked in', async () => {
+    prisma.attendance.findMany.mockResolvedValue([{ date: day('2026-10-02') }]);
+
+    const count = await service.markOnLeave(
+      'worker-1',
+      [day('2026-10-01'), day('2026-10-02'), day('2026-10-03')],
+      'leader-1',
+    );
+
+    expect(count).toBe(2);
+    expect(prisma.attendance.upsert).toHaveBeenCalledTimes(2);
+    expect(prisma.attendance.upsert).not.toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId_date: { userId: 'worker-1', date: day('2026-10-02') },
+        },
+      }),
+    );
+    expect(prisma.attendance.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({
+          status: AttendanceStatus.ON_LEAVE,
+        }),
+      }),
+    );
+  });
+
+  it('creates ABSENT records only for members without attendance', async () => {
+    prisma.orgMembership.findMany.mockResolvedValue([
+      {
+        userId: 'worker-1',
+        factoryId: 'factory-1',
+        lineId: null,
+        teamId: null,
+        groupId: null,
+      },
+    ]);
+    prisma.attendance.createMany.mockResolvedValue({ count: 1 });
+
+    const count = await service.markAbsentees(day('2026-10-01'));
+
+    expect(count).toBe(1);
+    expect(prisma.orgMembership.findMany).toHaveBeenCalledWith({
+      where: {
+        user: {
+          isActive: true,
+          attendances: { none: { date: day('2026-10-01') } },
+        },
+      },
+    });
+    expect(prisma.attendance.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          userId: 'worker-1',
+          status: AttendanceStatus.ABSENT,
+          factoryId: 'factory-1',
+        }),
+      ],
+      skipDuplicates: true,
+    });
+    expect(eventPublisher.publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('limits workers without a unit to their own attendance', async () => {
+    organizationService.getScopeFilter.mockReturnValue(null);
+    prisma.attendance.count.mockResolvedValue(0);
+    prisma.attendance.findMany.mockResolvedValue([]);
+
+    await service.list(
+      { sub: 'worker-1', role: UserRole.WORKER } as Requester,
+      {
+        page: 1,
+        limit: 20,
+      } as any,
+    );
+
+    expect(prisma.attendance.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { AND: [{}, { userId: 'worker-1' }] },
+      }),
+    );
+  });
+});
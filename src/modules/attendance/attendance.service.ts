@@ -0,0 +1,611 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  addDays,
+  atTimeOfDay,
+  formatDateOnly,
+  parseDateOnly,
+  toDateOnly,
+} from 'src/common/utils/date-only';
+import { AppError, Paginated, Requester } from 'src/share';
+import { EVENT_PUBLISHER } from 'src/share/di-token';
+import { AttendanceEvent, EvtAttendanceUpdated } from 'src/share/event';
+import { IEventPublisher } from 'src/share/interface';
+import { PrismaService } from 'src/share/prisma.service';
+import { ORGANIZATION_SERVICE } from '../organization/organization.di-token';
+import { OrgPath } from '../organization/organization.model';
+import { IOrganizationService } from '../organization/organization.port';
+import {
+  AttendanceCondDTO,
+  AttendanceEntryDTO,
+  BulkAttendanceDTO,
+  CheckInDTO,
+  CheckOutDTO,
+} from './attendance.dto';
+import {
+  Attendance,
+  AttendanceSource,
+  AttendanceStatus,
+  Shift,
+} from './attendance.model';
+import { BulkAttendanceResult, IAttendanceService } from './attendance.port';
+
+const ATTENDANCE_INCLUDE = {
+  shift: { select: { code: true } },
+} satisfies Prisma.AttendanceInclude;
+
+type AttendanceRow = Prisma.AttendanceGetPayload<{
+  include: typeof ATTENDANCE_INCLUDE;
+}>;
+
+// Người chưa được gán đơn vị vẫn chấm công được, chỉ không có snapshot đơn vị
+type OrgSnapshot = { [K in keyof OrgPath]: string | null };
+
+const EMPTY_ORG_PATH: OrgSnapshot = {
+  factoryId: null,
+  lineId: null,
+  teamId: null,
+  groupId: null,
+};
+
+@Injectable()
+export class AttendanceService implements IAttendanceService {
+  private readonly logger = new Logger(AttendanceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(ORGANIZATION_SERVICE)
+    private readonly organizationService: IOrganizationService,
+    @Inject(EVENT_PUBLISHER)
+    private readonly eventPublisher: IEventPublisher,
+  ) {}
+
+  async checkIn(requester: Requester, dto: CheckInDTO): Promise<Attendance> {
+    try {
+      const now = new Date();
+      const date = toDateOnly(now);
+      const userId = requester.sub;
+
+      const shift = dto.shiftId ? await this.getActiveShift(dto.shiftId) : null;
+
+      const existing = await this.prisma.attendance.findUnique({
+        where: { userId_date: { userId, date } },
+      });
+      if (existing?.checkInAt) {
+        throw AppError.from(new Error('Already checked in today'), 409);
+      }
+
+      const status =
+        shift && now > this.lateThreshold(date, shift)
+          ? AttendanceStatus.LATE
+          : AttendanceStatus.PRESENT;
+      const orgPath = await this.getOrgSnapshot(userId);
+
+      // Bản ghi ABSENT/ON_LEAVE tạo trước đó bị ghi đè khi người lao động thực sự có mặt
+      const data = {
+        shiftId: shift?.id ?? null,
+        status,
+        source: AttendanceSource.SELF,
+        checkInAt: now,
+        checkOutAt: null,
+        workMinutes: null,
+        note: dto.note ?? null,
+        recordedById: userId,
+        ...orgPath,
+      };
+
+      const attendance = await this.prisma.attendance.upsert({
+        where: { userId_date: { userId, date } },
+        create: { userId, date, ...data },
+        update: data,
+        include: ATTENDANCE_INCLUDE,
+      });
+
+      await this.publishUpdated(attendance, requester.sub);
+
+      return this.toModel(attendance);
+    } catch (error) {
+      this.logger.error(`Check-in error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to check in: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async checkOut(requester: Requester, dto: CheckOutDTO): Promise<Attendance> {
+    try {
+      const now = new Date();
+
+      // Ca đêm check-out sang ngày hôm sau nên tìm cả bản ghi của ngày trước
+      const open = await this.prisma.attendance.findFirst({
+        where: {
+          userId: requester.sub,
+          date: { gte: addDays(toDateOnly(now), -1) },
+          checkInAt: { not: null },
+          checkOutAt: null,
+        },
+        include: { shift: true },
+        orderBy: { checkInAt: 'desc' },
+      });
+
+      if (!open || !open.checkInAt) {
+        throw AppError.from(new Error('No open check-in found'), 409);
+      }
+
+      const workMinutes = this.computeWorkMinutes(
+        open.checkInAt,
+        now,
+        open.shift,
+      );
+
+      const attendance = await this.prisma.attendance.update({
+        where: { id_date: { id: open.id, date: open.date } },
+        data: {
+          checkOutAt: now,
+          workMinutes,
+          status: this.resolveStatusOnCheckOut(
+            open.status as AttendanceStatus,
+            workMinutes,
+            open.shift,
+          ),
+          note: dto.note ?? open.note,
+        },
+        include: ATTENDANCE_INCLUDE,
+      });
+
+      await this.publishUpdated(attendance, requester.sub);
+
+      return this.toModel(attendance);
+    } catch (error) {
+      this.logger.error(`Check-out error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to check out: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async bulkUpsert(
+    requester: Requester,
+    dto: BulkAttendanceDTO,
+  ): Promise<BulkAttendanceResult> {
+    try {
+      const date = parseDateOnly(dto.date);
+      if (date > toDateOnly()) {
+        throw AppError.from(
+          new Error('Cannot record attendance for a future date'),
+          400,
+        );
+      }
+
+      const scope = this.organizationService.getScopeFilter(requester);
+      if (!scope) {
+        throw AppError.from(
+          new Error('You do not manage any organization unit'),
+          403,
+        );
+      }
+
+      const userIds = dto.entries.map((e) => e.userId);
+      const memberships = await this.prisma.orgMembership.findMany({
+        where: { userId: { in: userIds } },
+      });
+      const pathByUser = new Map<string, OrgPath>(
+        memberships.map((m) => [
+          m.userId,
+          {
+            factoryId: m.factoryId,
+            lineId: m.lineId,
+            teamId: m.teamId,
+            groupId: m.groupId,
+          },
+        ]),
+      );
+
+      // Trưởng đơn vị chỉ được nhập cho người trong đơn vị mình quản lý
+      const isAdminScope = Object.keys(scope).length === 0;
+      const outOfScope = userIds.filter((userId) => {
+        const path = pathByUser.get(userId);
+        if (!path) {
+          return !isAdminScope;
+        }
+        return Object.entries(scope).some(
+          ([field, id]) => path[field as keyof OrgPath] !== id,
+        );
+      });
+      if (outOfScope.length > 0) {
+        throw AppError.from(
+          new Error('Some users are outside of your management scope'),
+          403,
+        ).withDetail('userIds', outOfScope);
+      }
+
+      if (isAdminScope) {
+        const existingUsers = await this.prisma.user.count({
+          where: { id: { in: userIds } },
+        });
+        if (existingUsers !== userIds.length) {
+          throw AppError.from(new Error('Some users do not exist'), 404);
+        }
+      }
+
+      const shifts = await this.loadShifts(dto.entries);
+
+      for (const entry of dto.entries) {
+        if (
+          entry.checkInAt &&
+          entry.checkOutAt &&
+          entry.checkOutAt <= entry.checkInAt
+        ) {
+          throw AppError.from(
+            new Error('checkOutAt must be after checkInAt'),
+            400,
+          ).withDetail('userId', entry.userId);
+        }
+      }
+
+      const { saved, skipped } = await this.prisma.$transaction(async (tx) => {
+        // Ngày nghỉ phép đã duyệt do module nghỉ phép quản lý, trưởng đơn vị không ghi đè
+        const onLeave = await tx.attendance.findMany({
+          where: {
+            userId: { in: userIds },
+            date,
+            status: AttendanceStatus.ON_LEAVE,
+          },
+          select: { userId: true },
+        });
+        const onLeaveUsers = new Set(onLeave.map((a) => a.userId));
+
+        const rows = await Promise.all(
+          dto.entries
+            .filter((entry) => !onLeaveUsers.has(entry.userId))
+            .map((entry) => {
+              const shift = entry.shiftId ? shifts.get(entry.shiftId)! : null;
+              const data = {
+                shiftId: shift?.id ?? null,
+                status: entry.status,
+                source: AttendanceSource.LEADER,
+                checkInAt: entry.checkInAt ?? null,
+                checkOutAt: entry.checkOutAt ?? null,
+                workMinutes:
+                  entry.checkInAt && entry.checkOutAt
+                    ? this.computeWorkMinutes(
+                        entry.checkInAt,
+                        entry.checkOutAt,
+                        shift,
+                      )
+                    : null,
+                note: entry.note ?? null,
+                recordedById: requester.sub,
+                ...(pathByUser.get(entry.userId) ?? EMPTY_ORG_PATH),
+              };
+
+              return tx.attendance.upsert({
+                where: { userId_date: { userId: entry.userId, date } },
+                create: { userId: entry.userId, date, ...data },
+                update: data,
+                include: ATTENDANCE_INCLUDE,
+              });
+            }),
+        );
+        return { saved: rows, skipped: [...onLeaveUsers] };
+      });
+
+      for (const attendance of saved) {
+        await this.publishUpdated(attendance, requester.sub);
+      }
+
+      this.logger.log(
+        `Recorded ${saved.length} attendance entries for ${dto.date} by ${requester.sub}` +
+          (skipped.length ? `, skipped ${skipped.length} on leave` : ''),
+      );
+
+      return { date: dto.date, saved: saved.length, skipped };
+    } catch (error) {
+      this.logger.error(`Bulk attendance error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to record attendance: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async list(
+    requester: Requester,
+    cond: AttendanceCondDTO,
+  ): Promise<Paginated<Attendance>> {
+    try {
+      const where: Prisma.AttendanceWhereInput = {};
+      if (cond.userId) where.userId = cond.userId;
+      if (cond.status) where.status = cond.status;
+      if (cond.shiftId) where.shiftId = cond.shiftId;
+      if (cond.factoryId) where.factoryId = cond.factoryId;
+      if (cond.lineId) where.lineId = cond.lineId;
+      if (cond.teamId) where.teamId = cond.teamId;
+      if (cond.groupId) where.groupId = cond.groupId;
+      if (cond.from || cond.to) {
+        where.date = {
+          ...(cond.from && { gte: parseDateOnly(cond.from) }),
+          ...(cond.to && { lte: parseDateOnly(cond.to) }),
+        };
+      }
+
+      // Người không quản lý đơn vị nào chỉ xem được chấm công của chính mình
+      const scope = this.organizationService.getScopeFilter(requester);
+      const scopedWhere: Prisma.AttendanceWhereInput = {
+        AND: [where, scope ?? { userId: requester.sub }],
+      };
+
+      const { page, limit } = cond;
+      const [total, rows] = await Promise.all([
+        this.prisma.attendance.count({ where: scopedWhere }),
+        this.prisma.attendance.findMany({
+          where: scopedWhere,
+          include: ATTENDANCE_INCLUDE,
+          orderBy: [{ date: 'desc' }, { userId: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      return {
+        data: rows.map((row) => this.toModel(row)),
+        paging: { page, limit, total },
+        total,
+      };
+    } catch (error) {
+      this.logger.error(`List attendance error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to list attendance: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async markAbsentees(date: Date): Promise<number> {
+    // Chỉ tính người lao động đang hoạt động và đã được gán vào cây tổ chức
+    const absentees = await this.prisma.orgMembership.findMany({
+      where: {
+        user: {
+          isActive: true,
+          attendances: { none: { date } },
+        },
+      },
+    });
+
+    if (absentees.length === 0) {
+      return 0;
+    }
+
+    const { count } = await this.prisma.attendance.createMany({
+      data: absentees.map((m) => ({
+        userId: m.userId,
+        date,
+        status: AttendanceStatus.ABSENT,
+        source: AttendanceSource.SYSTEM,
+        factoryId: m.factoryId,
+        lineId: m.lineId,
+        teamId: m.teamId,
+        groupId: m.groupId,
+      })),
+      skipDuplicates: true,
+    });
+
+    for (const m of absentees) {
+      await this.publishEvent({
+        userId: m.userId,
+        date: formatDateOnly(date),
+        shift: '',
+        status: AttendanceStatus.ABSENT,
+      });
+    }
+
+    return count;
+  }
+
+  async markOnLeave(
+    userId: string,
+    dates: Date[],
+    recordedById: string,
+  ): Promise<number> {
+    if (dates.length === 0) {
+      return 0;
+    }
+
+    const worked = await this.prisma.attendance.findMany({
+      where: { userId, date: { in: dates }, checkInAt: { not: null } },
+      select: { date: true },
+    });
+    const workedDays = new Set(worked.map((a) => a.date.getTime()));
+    const leaveDates = dates.filter((d) => !workedDays.has(d.getTime()));
+
+    const orgPath = await this.getOrgSnapshot(userId);
+    const data = {
+      status: AttendanceStatus.ON_LEAVE,
+      source: AttendanceSource.SYSTEM,
+      recordedById,
+      ...orgPath,
+    };
+
+    const saved = await this.prisma.$transaction((tx) =>
+      Promise.all(
+        leaveDates.map((date) =>
+          tx.attendance.upsert({
+            where: { userId_date: { userId, date } },
+            create: { userId, date, ...data },
+            update: data,
+            include: ATTENDANCE_INCLUDE,
+          }),
+        ),
+      ),
+    );
+
+    for (const attendance of saved) {
+      await this.publishUpdated(attendance, recordedById);
+    }
+
+    return saved.length;
+  }
+
+  async clearOnLeave(userId: string, dates: Date[]): Promise<number> {
+    if (dates.length === 0) {
+      return 0;
+    }
+
+    const { count } = await this.prisma.attendance.deleteMany({
+      where: {
+        userId,
+        date: { in: dates },
+        status: AttendanceStatus.ON_LEAVE,
+        checkInAt: null,
+      },
+    });
+
+    return count;
+  }
+
+  // ===== Helpers =====
+
+  private async getActiveShift(shiftId: string): Promise<Shift> {
+    const shift = await this.prisma.shift.findUnique({
+      where: { id: shiftId },
+    });
+    if (!shift || !shift.isActive || shift.deletedAt) {
+      throw AppError.from(new Error('Shift not found'), 404).withDetail(
+        'shiftId',
+        shiftId,
+      );
+    }
+    return shift;
+  }
+
+  private async loadShifts(
+    entries: AttendanceEntryDTO[],
+  ): Promise<Map<string, Shift>> {
+    const shiftIds = [
+      ...new Set(entries.map((e) => e.shiftId).filter(Boolean)),
+    ] as string[];
+    if (shiftIds.length === 0) {
+      return new Map();
+    }
+
+    const shifts = await this.prisma.shift.findMany({
+      where: { id: { in: shiftIds }, deletedAt: null },
+    });
+    const missing = shiftIds.filter((id) => !shifts.some((s) => s.id === id));
+    if (missing.length > 0) {
+      throw AppError.from(new Error('Shift not found'), 404).withDetail(
+        'shiftIds',
+        missing,
+      );
+    }
+
+    return new Map(shifts.map((s) => [s.id, s]));
+  }
+
+  private async getOrgSnapshot(userId: string): Promise<OrgSnapshot> {
+    const membership = await this.organizationService.getMembership(userId);
+    if (!membership) {
+      return EMPTY_ORG_PATH;
+    }
+    return {
+      factoryId: membership.factoryId,
+      lineId: membership.lineId,
+      teamId: membership.teamId,
+      groupId: membership.groupId,
+    };
+  }
+
+  private lateThreshold(date: Date, shift: Shift): Date {
+    const start = atTimeOfDay(date, shift.startTime);
+    return new Date(start.getTime() + shift.graceMinutes * 60 * 1000);
+  }
+
+  private shiftMinutes(shift: Shift): number {
+    const [startH, startM] = shift.startTime.split(':').map(Number);
+    const [endH, endM] = shift.endTime.split(':').map(Number);
+    let minutes = endH * 60 + endM - (startH * 60 + startM);
+    // Ca đêm kết thúc vào ngày hôm sau
+    if (minutes <= 0) {
+      minutes += 24 * 60;
+    }
+    return minutes - shift.breakMinutes;
+  }
+
+  private computeWorkMinutes(
+    checkInAt: Date,
+    checkOutAt: Date,
+    shift: Shift | null,
+  ): number {
+    const elapsed = Math.round(
+      (checkOutAt.getTime() - checkInAt.getTime()) / 60000,
+    );
+    return Math.max(0, elapsed - (shift?.breakMinutes ?? 0));
+  }
+
+  // Làm chưa đủ nửa ca thì tính là nửa ngày
+  private resolveStatusOnCheckOut(
+    current: AttendanceStatus,
+    workMinutes: number,
+    shift: Shift | null,
+  ): AttendanceStatus {
+    if (shift && workMinutes < this.shiftMinutes(shift) / 2) {
+      return AttendanceStatus.HALF_DAY;
+    }
+    return current;
+  }
+
+  private async publishUpdated(
+    attendance: AttendanceRow,
+    senderId: string,
+  ): Promise<void> {
+    await this.publishEvent(
+      {
+        userId: attendance.userId,
+        date: formatDateOnly(attendance.date),
+        shift: attendance.shift?.code ?? '',
+        status: attendance.status,
+      },
+      senderId,
+    );
+  }
+
+  private async publishEvent(
+    payload: {
+      userId: string;
+      date: string;
+      shift: string;
+      status: string;
+    },
+    senderId?: string,
+  ): Promise<void> {
+    try {
+      await this.eventPublisher.publish(
+        new AttendanceEvent(EvtAttendanceUpdated, payload, { senderId }),
+      );
+    } catch (error) {
+      // Chấm công đã lưu; lỗi phát event không được làm hỏng request
+      this.logger.warn(
+        `Failed to publish ${EvtAttendanceUpdated} for ${payload.userId}: ${error.message}`,
+      );
+    }
+  }
+
+  // Giữ lại mã ca (shift.code) trong kết quả trả về cho client
+  private toModel(row: AttendanceRow): Attendance {
+    return row as Attendance;
+  }
+}
@@ -0,0 +1,47 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { BaseCrudService } from 'src/core/crud/base/base-crud.service';
+import { CRUD_OPTIONS } from 'src/core/crud/decorators/crud-endpoint.decorator';
+import { CrudControllerOptions } from 'src/core/crud/interfaces/crud-options.interface';
+import { ICrudRepository } from 'src/core/crud/interfaces/crud.interface';
+import { AppError } from 'src/share';
+import { SHIFT_REPOSITORY } from './attendance.di-token';
+import { ShiftCreateDTO, ShiftUpdateDTO } from './attendance.dto';
+import { Shift } from './attendance.model';
+
+@Injectable()
+export class ShiftService extends BaseCrudService<
+  Shift,
+  ShiftCreateDTO,
+  ShiftUpdateDTO
+> {
+  constructor(
+    @Inject(SHIFT_REPOSITORY)
+    repository: ICrudRepository<Shift, ShiftCreateDTO, ShiftUpdateDTO>,
+    @Optional() @Inject(CRUD_OPTIONS) options?: CrudControllerOptions,
+  ) {
+    super('Shift', repository, options);
+  }
+
+  protected async checkDuplicates(dto: ShiftCreateDTO): Promise<void> {
+    await this.assertCodeAvailable(dto.code);
+  }
+
+  protected async validateFieldConstraints(
+    dto: ShiftUpdateDTO,
+    existingEntity: Shift,
+  ): Promise<void> {
+    if (dto.code && dto.code !== existingEntity.code) {
+      await this.assertCodeAvailable(dto.code);
+    }
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    const existing = await this.repository.findByCond({ code });
+    if (existing) {
+      throw AppError.from(
+        new Error(`Shift with code '${code}' already exists`),
+        409,
+      );
+    }
+  }
+}
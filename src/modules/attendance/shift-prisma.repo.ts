@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { BasePrismaRepository } from 'src/core/crud/base/base-prisma.repository';
+import { PrismaService } from 'src/share/prisma.service';
+import { ShiftCreateDTO, ShiftUpdateDTO } from './attendance.dto';
+import { Shift } from './attendance.model';
+
+@Injectable()
+export class ShiftPrismaRepository extends BasePrismaRepository<
+  Shift,
+  ShiftCreateDTO,
+  ShiftUpdateDTO
+> {
+  constructor(prisma: PrismaService) {
+    super('Shift', prisma.shift, prisma);
+  }
+
+  protected _toModel(data: any): Shift {
+    return { ...data } as Shift;
+  }
+
+  protected _conditionsToWhereClause(conditions: any): any {
+    const where: Record<string, any> = {};
+
+    if (conditions.id) where.id = conditions.id;
+    if (conditions.code) where.code = conditions.code;
+    if (conditions.name) {
+      where.name = {
+        contains: conditions.name,
+        mode: Prisma.QueryMode.insensitive,
+      };
+    }
+    if (conditions.isActive !== undefined) {
+      where.isActive =
+        conditions.isActive === true || conditions.isActive === 'true';
+    }
+
+    return where;
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  Inject,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { HTTP_CONTROLLER } from 'src/constant';
+import { UserRole } from 'src/share';
+import { RemoteAuthGuard, Roles, RolesGuard } from 'src/share/guard';
+import { ZodValidationPipe } from 'src/share/pipes/zod-validation.pipe';
+import { AUDIT_SERVICE } from './audit.di-token';
+import { AuditLogCondDTO, auditLogCondDTOSchema } from './audit.dto';
+import { IAuditService } from './audit.port';
+
+@ApiTags('Audit Log')
+@ApiBearerAuth()
+@Controller(HTTP_CONTROLLER.AUDIT_LOG)
+@UseGuards(RemoteAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+export class AuditHttpController {
+  constructor(
+    @Inject(AUDIT_SERVICE)
+    private readonly auditService: IAuditService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List audit log entries, newest first' })
+  async list(
+    @Query(new ZodValidationPipe(auditLogCondDTOSchema))
+    cond: AuditLogCondDTO,
+  ) {
+    const result = await this.auditService.list(cond);
+    return { success: true, ...result };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an audit log entry' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Not found' })
+  async get(@Param('id') id: string) {
+    const data = await this.auditService.get(id);
+    return { success: true, data };
+  }
+}
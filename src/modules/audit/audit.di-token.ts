@@ -0,0 +1 @@
+export const AUDIT_SERVICE = Symbol('AUDIT_SERVICE');
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const auditLogCondDTOSchema = z
+  .object({
+    actorId: z.string().optional(),
+    action: z.string().trim().toUpperCase().optional(),
+    entityType: z.string().trim().optional(),
+    entityId: z.string().optional(),
+    // Thời điểm dạng ISO 8601
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  })
+  .refine((dto) => !dto.from || !dto.to || dto.to >= dto.from, {
+    message: 'Thời điểm kết thúc phải sau thời điểm bắt đầu',
+    path: ['to'],
+  });
+
+export type AuditLogCondDTO = z.infer<typeof auditLogCondDTOSchema>;
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+// Hành động được ghi audit; CRUD dùng chung cho mọi module tạo bởi createCrudModule
+export enum AuditAction {
+  CREATE = 'CREATE',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  RESTORE = 'RESTORE',
+  LOGIN = 'LOGIN',
+  LOGIN_FAILED = 'LOGIN_FAILED',
+  SOCIAL_LOGIN = 'SOCIAL_LOGIN',
+  REGISTER = 'REGISTER',
+  LOGOUT = 'LOGOUT',
+  PASSWORD_RESET_REQUEST = 'PASSWORD_RESET_REQUEST',
+  PASSWORD_RESET = 'PASSWORD_RESET',
+  PASSWORD_CHANGE = 'PASSWORD_CHANGE',
+  ROLE_ASSIGN = 'ROLE_ASSIGN',
+  ROLE_REMOVE = 'ROLE_REMOVE',
+  ACCOUNT_UNLOCK = 'ACCOUNT_UNLOCK',
+  SESSIONS_REVOKE = 'SESSIONS_REVOKE',
+  SESSION_REVOKE = 'SESSION_REVOKE',
+  REAUTHENTICATE = 'REAUTHENTICATE',
+  DEVICE_UPDATE = 'DEVICE_UPDATE',
+  DEVICE_REVOKE = 'DEVICE_REVOKE',
+  LOGIN_REPORT = 'LOGIN_REPORT',
+  PASSKEY_REGISTER = 'PASSKEY_REGISTER',
+  PASSKEY_REMOVE = 'PASSKEY_REMOVE',
+  TWO_FACTOR_RESET = 'TWO_FACTOR_RESET',
+}
+
+// AuditLog model
+export const auditLogSchema = z.object({
+  id: z.string().uuid(),
+  actorId: z.string().nullable(),
+  actorRole: z.string().nullable(),
+  action: z.string(),
+  entityType: z.string(),
+  entityId: z.string().nullable(),
+  before: z.unknown().nullable(),
+  after: z.unknown().nullable(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  metadata: z.unknown().nullable(),
+  createdAt: z.date(),
+});
+
+export type AuditLog = z.infer<typeof auditLogSchema>;
@@ -0,0 +1,25 @@
+import { Global, Module } from '@nestjs/common';
+import { AUDIT_LOGGER } from 'src/share/di-token';
+import { ShareModule } from 'src/share/module';
+import { AuditHttpController } from './audit-http.controller';
+import { AUDIT_SERVICE } from './audit.di-token';
+import { AuditService } from './audit.service';
+
+// Global để mọi module CRUD và auth inject AUDIT_LOGGER mà không cần import
+@Global()
+@Module({
+  imports: [ShareModule],
+  controllers: [AuditHttpController],
+  providers: [
+    {
+      provide: AUDIT_SERVICE,
+      useClass: AuditService,
+    },
+    {
+      provide: AUDIT_LOGGER,
+      useExisting: AUDIT_SERVICE,
+    },
+  ],
+  exports: [AUDIT_SERVICE, AUDIT_LOGGER],
+})
+export class AuditModule {}
@@ -0,0 +1,9 @@
+import { Paginated } from 'src/share';
+import { IAuditLogger } from 'src/share/interface';
+import { AuditLogCondDTO } from './audit.dto';
+import { AuditLog } from './audit.model';
+
+export interface IAuditService extends IAuditLogger {
+  list(cond: AuditLogCondDTO): Promise<Paginated<AuditLog>>;
+  get(id: string): Promise<AuditLog>;
+}
@@ -0,0 +1,154 @@
+import { Prisma } from '@prisma/client';
+import { runWithRequest } from 'src/common/utils/request-context';
+import { AppError, Requester, UserRole } from 'src/share';
+import { AuditAction } from './audit.model';
+import { AuditService } from './audit.service';
+
+describe('AuditService', () => {
+  const prisma = {
+    auditLog: {
+      create: jest.fn(),
+      count: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  };
+  const service = new AuditService(prisma as any);
+
+  const admin = { sub: 'admin-1', role: UserRole.ADMIN } as Requester;
+  const written = () => prisma.auditLog.create.mock.calls[0][0].data;
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('records the actor and entity of an action', async () => {
+    await service.log({
+      actor: admin,
+      action: AuditAction.CREATE,
+      entityType: 'Shift',
+      entityId: 'shift-1',
+      after: { code: 'DAY' },
+    });
+
+    expect(written()).toMatchObject({
+      actorId: 'admin-1',
+      actorRole: UserRole.ADMIN,
+      action: AuditAction.CREATE,
+      entityType: 'Shift',
+      entityId: 'shift-1',
+      before: Prisma.JsonNull,
+      after: { code: 'DAY' },
+      ipAddress: null,
+      userAgent: null,
+    });
+  });
+
+  it('redacts secrets at any depth', async () => {
+    await service.log({
+      action: AuditAction.CREATE,
+      entityType: 'User',
+      after: {
+        email: 'worker@example.com',
+        password: 'hash',
+        profile: { twoFactorSecret: 'secret' },
+      },
+      metadata: { tokens: [{ refreshToken: 'token' }] },
+    });
+
+    expect(written().after).toEqual({
+      email: 'worker@example.com',
+      password: '[REDACTED]',
+      profile: { twoFactorSecret: '[REDACTED]' },
+    });
+    expect(written().metadata).toEqual({
+      tokens: [{ refreshToken: '[REDACTED]' }],
+    });
+  });
+
+  it('keeps only the changed fields of an update', async () => {
+    await service.log({
+      action: AuditAction.UPDATE,
+      entityType: 'Shift',
+      entityId: 'shift-1',
+      before: {
+        code: 'DAY',
+        graceMinutes: 5,
+        note: 'old',
+        updatedAt: new Date('2026-10-01T00:00:00Z'),
+      },
+      after: {
+        code: 'DAY',
+        graceMinutes: 10,
+        updatedAt: new Date('2026-10-02T00:00:00Z'),
+      },
+    });
+
+    expect(written().before).toEqual({ graceMinutes: 5, note: 'old' });
+    expect(written().after).toEqual({ graceMinutes: 10, note: null });
+  });
+
+  it('takes the IP and user agent from the current request', async () => {
+    const req = {
+      ip: '10.0.0.7',
+      headers: { 'user-agent': 'jest' },
+      socket: {},
+    };
+
+    await new Promise<void>((resolve, reject) =>
+      runWithRequest(req as any, () => {
+        service
+          .log({ action: AuditAction.LOGOUT, entityType: 'User' })
+          .then(resolve, reject);
+      }),
+    );
+
+    expect(written()).toMatchObject({
+      ipAddress: '10.0.0.7',
+      userAgent: 'jest',
+    });
+  });
+
+  it('never fails the caller when the write fails', async () => {
+    prisma.auditLog.create.mockRejectedValueOnce(new Error('db down'));
+
+    await expect(
+      service.log({ action: AuditAction.DELETE, entityType: 'Shift' }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('filters the list by actor, entity and time range', async () => {
+    prisma.auditLog.count.mockResolvedValue(0);
+    prisma.auditLog.findMany.mockResolvedValue([]);
+    const from = new Date('2026-10-01T00:00:00Z');
+    const to = new Date('2026-10-02T00:00:00Z');
+
+    await service.list({
+      actorId: 'admin-1',
+      entityType: 'Shift',
+      entityId: 'shift-1',
+      from,
+      to,
+      page: 2,
+      limit: 10,
+    });
+
+    expect(prisma.auditLog.findMany).toHaveBeenCalledWith({
+      where: {
+        actorId: 'admin-1',
+        entityType: 'Shift',
+        entityId: 'shift-1',
+        createdAt: { gte: from, lte: to },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      skip: 10,
+      take: 10,
+    });
+  });
+
+  it('returns 404 for an unknown entry', async () => {
+    prisma.auditLog.findUnique.mockResolvedValue(null);
+
+    const error = (await service.get('log-1').catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(404);
+  });
+});
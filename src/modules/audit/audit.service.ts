@@ -0,0 +1,180 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AuditLog as AuditLogRow, Prisma } from '@prisma/client';
+import { getCurrentRequestContext } from 'src/common/utils/request-context';
+import { AppError, Paginated } from 'src/share';
+import { AuditEntry } from 'src/share/interface';
+import { PrismaService } from 'src/share/prisma.service';
+import { AuditLogCondDTO } from './audit.dto';
+import { AuditAction, AuditLog } from './audit.model';
+import { IAuditService } from './audit.port';
+
+// Field không bao giờ được lưu vào audit log
+const SENSITIVE_KEYS = new Set([
+  'password',
+  'salt',
+  'twoFactorSecret',
+  'twoFactorBackupCodes',
+  'resetToken',
+  'verifyCode',
+  'token',
+  'refreshToken',
+  'accessToken',
+  'secret',
+]);
+
+const REDACTED = '[REDACTED]';
+
+// Field thay đổi mỗi lần ghi, không có ý nghĩa khi so sánh
+const DIFF_IGNORED_KEYS = new Set(['updatedAt']);
+
+@Injectable()
+export class AuditService implements IAuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async log(entry: AuditEntry): Promise<void> {
+    try {
+      let before = this.sanitize(entry.before);
+      let after = this.sanitize(entry.after);
+
+      // Với UPDATE chỉ giữ các field thực sự thay đổi
+      if (entry.action === AuditAction.UPDATE && this.isRecord(before)) {
+        ({ before, after } = this.diff(
+          before,
+          this.isRecord(after) ? after : {},
+        ));
+      }
+
+      const context = getCurrentRequestContext();
+
+      await this.prisma.auditLog.create({
+        data: {
+          actorId: entry.actor?.sub ?? null,
+          actorRole: entry.actor?.role ?? null,
+          action: entry.action,
+          entityType: entry.entityType,
+          entityId: entry.entityId ?? null,
+          before: this.toJson(before),
+          after: this.toJson(after),
+          ipAddress: entry.ipAddress ?? context?.ipAddress ?? null,
+          userAgent: entry.userAgent ?? context?.userAgent ?? null,
+          metadata: this.toJson(this.sanitize(entry.metadata)),
+        },
+      });
+    } catch (error) {
+      // Không throw: mất một dòng audit tốt hơn làm hỏng nghiệp vụ chính
+      this.logger.error(
+        `Write audit log error (${entry.action} ${entry.entityType}:${entry.entityId ?? '-'}): ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async list(cond: AuditLogCondDTO): Promise<Paginated<AuditLog>> {
+    try {
+      const where: Prisma.AuditLogWhereInput = {};
+      if (cond.actorId) where.actorId = cond.actorId;
+      if (cond.action) where.action = cond.action;
+      if (cond.entityType) where.entityType = cond.entityType;
+      if (cond.entityId) where.entityId = cond.entityId;
+      if (cond.from || cond.to) {
+        where.createdAt = {
+          ...(cond.from && { gte: cond.from }),
+          ...(cond.to && { lte: cond.to }),
+        };
+      }
+
+      const { page, limit } = cond;
+      const [total, rows] = await Promise.all([
+        this.prisma.auditLog.count({ where }),
+        this.prisma.auditLog.findMany({
+          where,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      return {
+        data: rows.map((row) => this.toModel(row)),
+        paging: { page, limit, total },
+        total,
+      };
+    } catch (error) {
+      this.logger.error(`List audit logs error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to list audit logs: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async get(id: string): Promise<AuditLog> {
+    const row = await this.prisma.auditLog.findUnique({ where: { id } });
+    if (!row) {
+      throw AppError.from(new Error('Audit log not found'), 404);
+    }
+    return this.toModel(row);
+  }
+
+  // Chuyển về JSON thuần (Date -> ISO string) và che các field nhạy cảm
+  private sanitize(value: unknown): unknown {
+    if (value === undefined || value === null) return null;
+    const plain = JSON.parse(JSON.stringify(value));
+    return this.redact(plain);
+  }
+
+  private redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+    if (this.isRecord(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, val]) => [
+          key,
+          SENSITIVE_KEYS.has(key) ? REDACTED : this.redact(val),
+        ]),
+      );
+    }
+    return value;
+  }
+
+  private diff(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+  ): { before: Record<string, unknown>; after: Record<string, unknown> } {
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+      if (DIFF_IGNORED_KEYS.has(key)) continue;
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changedBefore[key] = before[key] ?? null;
+        changedAfter[key] = after[key] ?? null;
+      }
+    }
+
+    return { before: changedBefore, after: changedAfter };
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private toJson(
+    value: unknown,
+  ): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+    return value === null || value === undefined
+      ? Prisma.JsonNull
+      : (value as Prisma.InputJsonValue);
+  }
+
+  private toModel(row: AuditLogRow): AuditLog {
+    return row as AuditLog;
+  }
+}
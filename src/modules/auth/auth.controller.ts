@@ -1,18 +1,28 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
   HttpCode,
   HttpStatus,
   Param,
+  Patch,
   Post,
+  Query,
+  Req,
   Request,
   Res,
   UseGuards,
 } from '@nestjs/common';
-import { Response } from 'express';
-import { ReqWithRequester } from '../../share';
-import { RemoteAuthGuard } from '../../share/guard';
+import { Request as ExpressRequest, Response } from 'express';
+import {
+  ErrRefreshTokenReused,
+  ErrSessionRevoked,
+  ReqWithRequester,
+  UserRole,
+} from '../../share';
+import { RemoteAuthGuard, Roles, RolesGuard } from '../../share/guard';
+import { extractRequestContext } from '../../common/utils/request-context';
 import { Public } from '../../common/decorators/public.decorator';
 import { ZodValidationPipe } from '../../share/pipes/zod-validation.pipe';
 import {
@@ -24,6 +34,10 @@ import {
   PasswordResetConfirmDto,
   ChangePasswordDto,
   RefreshTokenDto,
+  UpdateDeviceDto,
+  ReportLoginDto,
+  PasskeyLoginDto,
+  ReauthenticateDto,
   loginDtoSchema,
   registerDtoSchema,
   socialLoginDtoSchema,
@@ -32,10 +46,25 @@ import {
   passwordResetConfirmDtoSchema,
   changePasswordDtoSchema,
   refreshTokenDtoSchema,
+  updateDeviceDtoSchema,
+  reportLoginDtoSchema,
+  passkeyLoginDtoSchema,
+  reauthenticateDtoSchema,
 } from './auth.dto';
-import { IAuthService } from './auth.port';
+import {
+  AuthResult,
+  IAuthService,
+  IDeviceService,
+  IPasskeyService,
+  ISocialNonceService,
+} from './auth.port';
 import { Inject } from '@nestjs/common';
-import { AUTH_SERVICE } from './auth.di-token';
+import {
+  AUTH_SERVICE,
+  DEVICE_SERVICE,
+  PASSKEY_SERVICE,
+  SOCIAL_NONCE_SERVICE,
+} from './auth.di-token';
 import {
   ApiTags,
   ApiOperation,
@@ -43,13 +72,24 @@ import {
   ApiBearerAuth,
   ApiBody,
   ApiCookieAuth,
+  ApiParam,
+  ApiQuery,
 } from '@nestjs/swagger';
 
+// Refresh cookie chỉ gửi kèm các route /auth (refresh-token, logout) dưới global prefix
+const REFRESH_TOKEN_COOKIE_PATH = '/api/v1/auth';
+// Khóa thiết bị giữ lâu hơn phiên đăng nhập để nhận ra thiết bị quen
+const DEVICE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60 * 1000;
+
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthHttpController {
   constructor(
     @Inject(AUTH_SERVICE) private readonly authService: IAuthService,
+    @Inject(DEVICE_SERVICE) private readonly deviceService: IDeviceService,
+    @Inject(PASSKEY_SERVICE) private readonly passkeyService: IPasskeyService,
+    @Inject(SOCIAL_NONCE_SERVICE)
+    private readonly socialNonceService: ISocialNonceService,
   ) {}
 
   @Public()
@@ -62,11 +102,24 @@ export class AuthHttpController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Invalid credentials',
   })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Account disabled, or a risky sign-in for an account without 2FA',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many failed attempts, login temporarily locked',
+  })
   async login(
     @Body(new ZodValidationPipe(loginDtoSchema)) dto: LoginDto,
+    @Req() req: ExpressRequest,
     @Res({ passthrough: true }) res: Response,
   ) {
-    const result = await this.authService.login(dto);
+    const result = await this.authService.login(
+      dto,
+      extractRequestContext(req),
+    );
 
     // If 2FA is required, don't set cookies
     if (result.requiresTwoFactor) {
@@ -93,9 +146,10 @@ export class AuthHttpController {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
-      path: '/auth/refresh', // Only sent to refresh endpoint
+      path: REFRESH_TOKEN_COOKIE_PATH, // Only sent to auth endpoints
       maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
     });
+    this.setDeviceCookie(res, result);
 
     return {
       success: true,
@@ -104,6 +158,7 @@ export class AuthHttpController {
         refreshToken: result.refreshToken,
         expiresIn: result.expiresIn,
         user: result.user,
+        device: result.device,
       },
     };
   }
@@ -118,12 +173,20 @@ export class AuthHttpController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Invalid credentials or 2FA code',
   })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many failed attempts, login temporarily locked',
+  })
   async loginWith2FA(
     @Body(new ZodValidationPipe(twoFactorLoginDtoSchema))
     dto: TwoFactorLoginDto,
+    @Req() req: ExpressRequest,
     @Res({ passthrough: true }) res: Response,
   ) {
-    const result = await this.authService.loginWith2FA(dto);
+    const result = await this.authService.loginWith2FA(
+      dto,
+      extractRequestContext(req),
+    );
 
     // Set cookies for web clients
     res.cookie('accessToken', result.accessToken, {
@@ -137,9 +200,10 @@ export class AuthHttpController {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
-      path: '/auth/refresh',
+      path: REFRESH_TOKEN_COOKIE_PATH,
       maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
     });
+    this.setDeviceCookie(res, result);
 
     return {
       success: true,
@@ -148,10 +212,26 @@ export class AuthHttpController {
         refreshToken: result.refreshToken,
         expiresIn: result.expiresIn,
         user: result.user,
+        device: result.device,
       },
     };
   }
 
+  @Public()
+  @Post('social-login/nonce')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Issue a single-use nonce to pass to the social provider',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Nonce issued' })
+  async getSocialLoginNonce() {
+    const nonce = await this.socialNonceService.issue();
+    return {
+      success: true,
+      data: nonce,
+    };
+  }
+
   @Public()
   @Post('social-login')
   @HttpCode(HttpStatus.OK)
@@ -159,17 +239,120 @@ export class AuthHttpController {
   @ApiBody({ type: SocialLoginDto })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Social login successful',
+    description:
+      'Social login successful, or requiresTwoFactor when the request must be repeated with twoFactorCode',
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
-    description: 'Invalid token',
+    description: 'Invalid token, nonce or 2FA code',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Account disabled, or a risky sign-in for an account without 2FA',
   })
   async socialLogin(
     @Body(new ZodValidationPipe(socialLoginDtoSchema)) dto: SocialLoginDto,
+    @Req() req: ExpressRequest,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const result = await this.authService.socialLogin(
+      dto,
+      extractRequestContext(req),
+    );
+
+    // If 2FA is required, don't set cookies
+    if (result.requiresTwoFactor) {
+      return {
+        success: true,
+        requiresTwoFactor: true,
+        user: {
+          id: result.user.id,
+          email: result.user.email,
+          isTwoFactorEnabled: true,
+        },
+      };
+    }
+
+    // Set cookies for web clients
+    res.cookie('accessToken', result.accessToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+      maxAge: result.expiresIn * 1000,
+    });
+
+    res.cookie('refreshToken', result.refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+      path: REFRESH_TOKEN_COOKIE_PATH,
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    });
+    this.setDeviceCookie(res, result);
+
+    return {
+      success: true,
+      data: {
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+        expiresIn: result.expiresIn,
+        user: result.user,
+        device: result.device,
+      },
+    };
+  }
+
+  @Public()
+  @Post('passkey/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get WebAuthn options for navigator.credentials.get()',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Challenge issued' })
+  async getPasskeyLoginOptions() {
+    const options = await this.passkeyService.generateAuthenticationOptions();
+    return {
+      success: true,
+      data: options,
+    };
+  }
+
+  @Public()
+  @Post('passkey/login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Login with a passkey' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        challengeId: { type: 'string' },
+        rememberMe: { type: 'boolean' },
+        credential: {
+          type: 'object',
+          description: 'PublicKeyCredential.toJSON() from the browser',
+        },
+      },
+      required: ['challengeId', 'credential'],
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Passkey login successful',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid passkey assertion or expired challenge',
+  })
+  async loginWithPasskey(
+    @Body(new ZodValidationPipe(passkeyLoginDtoSchema)) dto: PasskeyLoginDto,
+    @Req() req: ExpressRequest,
     @Res({ passthrough: true }) res: Response,
   ) {
-    const result = await this.authService.socialLogin(dto);
+    const result = await this.authService.loginWithPasskey(
+      dto,
+      extractRequestContext(req),
+    );
 
     // Set cookies for web clients
     res.cookie('accessToken', result.accessToken, {
@@ -183,9 +366,10 @@ export class AuthHttpController {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
-      path: '/auth/refresh',
+      path: REFRESH_TOKEN_COOKIE_PATH,
       maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
     });
+    this.setDeviceCookie(res, result);
 
     return {
       success: true,
@@ -194,6 +378,7 @@ export class AuthHttpController {
         refreshToken: result.refreshToken,
         expiresIn: result.expiresIn,
         user: result.user,
+        device: result.device,
       },
     };
   }
@@ -235,7 +420,8 @@ export class AuthHttpController {
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
-    description: 'Invalid refresh token',
+    description:
+      'Invalid refresh token, reuse detected (details.reason = refresh_token_reused) or session revoked (details.reason = session_revoked)',
   })
   async refreshToken(
     @Body(new ZodValidationPipe(refreshTokenDtoSchema)) dto: RefreshTokenDto,
@@ -252,7 +438,17 @@ export class AuthHttpController {
       };
     }
 
-    const result = await this.authService.refreshToken({ refreshToken });
+    let result: AuthResult;
+    try {
+      result = await this.authService.refreshToken({ refreshToken });
+    } catch (error) {
+      // The family has been revoked, drop the stale cookies as well
+      if (error === ErrRefreshTokenReused || error === ErrSessionRevoked) {
+        res.clearCookie('accessToken');
+        res.clearCookie('refreshToken', { path: REFRESH_TOKEN_COOKIE_PATH });
+      }
+      throw error;
+    }
 
     // Set new cookies
     res.cookie('accessToken', result.accessToken, {
@@ -266,7 +462,7 @@ export class AuthHttpController {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
-      path: '/auth/refresh',
+      path: REFRESH_TOKEN_COOKIE_PATH,
       maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
     });
 
@@ -304,7 +500,7 @@ export class AuthHttpController {
 
     // Clear cookies
     res.clearCookie('accessToken');
-    res.clearCookie('refreshToken', { path: '/auth/refresh' });
+    res.clearCookie('refreshToken', { path: REFRESH_TOKEN_COOKIE_PATH });
 
     return {
       success: true,
@@ -388,6 +584,49 @@ export class AuthHttpController {
     };
   }
 
+  @Post('reauthenticate')
+  @UseGuards(RemoteAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm password or 2FA code before a sensitive action',
+    description:
+      'Required before registering or removing a passkey unless the session was created recently',
+  })
+  @ApiBearerAuth()
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        password: { type: 'string' },
+        twoFactorCode: {
+          type: 'string',
+          description: 'TOTP code or backup code',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Session re-authenticated',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid credentials',
+  })
+  async reauthenticate(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(reauthenticateDtoSchema))
+    dto: ReauthenticateDto,
+  ) {
+    const result = await this.authService.reauthenticate(
+      req.requester.sub,
+      req.requester.sid,
+      dto,
+      extractRequestContext(req),
+    );
+    return { success: true, data: result };
+  }
+
   @Public()
   @Get('verify-email/:token')
   @HttpCode(HttpStatus.OK)
@@ -447,6 +686,7 @@ export class AuthHttpController {
   async getSessions(@Request() req: ReqWithRequester) {
     const sessions = await this.authService.getActiveSessions(
       req.requester.sub,
+      req.requester.sid,
     );
     return {
       success: true,
@@ -454,11 +694,47 @@ export class AuthHttpController {
     };
   }
 
+  @Delete('sessions/:id')
+  @UseGuards(RemoteAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke a single session' })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Session revoked' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Session not found',
+  })
+  async revokeSession(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    await this.authService.revokeSession(req.requester.sub, id);
+
+    // Thu hồi chính session đang dùng = đăng xuất
+    if (id === req.requester.sid) {
+      res.clearCookie('accessToken');
+      res.clearCookie('refreshToken', { path: REFRESH_TOKEN_COOKIE_PATH });
+    }
+
+    return {
+      success: true,
+      message: 'Session has been revoked successfully.',
+    };
+  }
+
   @Post('revoke-all-sessions')
   @UseGuards(RemoteAuthGuard)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Revoke all user sessions' })
   @ApiBearerAuth()
+  @ApiQuery({
+    name: 'exceptCurrent',
+    required: false,
+    type: Boolean,
+    description: 'Keep the session making this request signed in',
+  })
   @ApiResponse({ status: HttpStatus.OK, description: 'All sessions revoked' })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
@@ -467,16 +743,171 @@ export class AuthHttpController {
   async revokeAllSessions(
     @Request() req: ReqWithRequester,
     @Res({ passthrough: true }) res: Response,
+    @Query('exceptCurrent') exceptCurrent?: string,
   ) {
-    await this.authService.revokeAllUserSessions(req.requester.sub);
+    const keepCurrent = exceptCurrent === 'true' && !!req.requester.sid;
+    await this.authService.revokeAllUserSessions(req.requester.sub, {
+      exceptSessionId: keepCurrent ? req.requester.sid : null,
+    });
+
+    if (keepCurrent) {
+      return {
+        success: true,
+        message: 'All other sessions have been revoked successfully.',
+      };
+    }
 
     // Clear cookies
     res.clearCookie('accessToken');
-    res.clearCookie('refreshToken', { path: '/auth/refresh' });
+    res.clearCookie('refreshToken', { path: REFRESH_TOKEN_COOKIE_PATH });
 
     return {
       success: true,
       message: 'All sessions have been revoked successfully.',
     };
   }
+
+  @Public()
+  @Post('not-me')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Report a sign-in from a login alert and sign out everywhere',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { token: { type: 'string' } },
+      required: ['token'],
+    },
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'All sessions revoked' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired link',
+  })
+  async reportUnrecognizedLogin(
+    @Body(new ZodValidationPipe(reportLoginDtoSchema)) dto: ReportLoginDto,
+    @Req() req: ExpressRequest,
+  ) {
+    await this.authService.reportUnrecognizedLogin(
+      dto.token,
+      extractRequestContext(req),
+    );
+
+    return {
+      success: true,
+      message:
+        'All sessions have been signed out. Please change your password.',
+    };
+  }
+
+  @Get('devices')
+  @UseGuards(RemoteAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'List devices that have signed in to the account' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: HttpStatus.OK, description: 'Devices retrieved' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Not authenticated',
+  })
+  async getDevices(@Request() req: ReqWithRequester) {
+    const devices = await this.deviceService.listDevices(
+      req.requester.sub,
+      extractRequestContext(req),
+    );
+    return {
+      success: true,
+      data: { devices },
+    };
+  }
+
+  @Patch('devices/:id')
+  @UseGuards(RemoteAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Rename a device or change its trusted state' })
+  @ApiBearerAuth()
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        deviceName: { type: 'string', maxLength: 100 },
+        isTrusted: { type: 'boolean' },
+      },
+    },
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Device updated' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Device not found',
+  })
+  async updateDevice(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(updateDeviceDtoSchema)) dto: UpdateDeviceDto,
+  ) {
+    const device = await this.deviceService.updateDevice(
+      req.requester.sub,
+      id,
+      dto,
+      extractRequestContext(req),
+    );
+    return {
+      success: true,
+      data: device,
+    };
+  }
+
+  @Delete('devices/:id')
+  @UseGuards(RemoteAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove a device and sign out its sessions' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: HttpStatus.OK, description: 'Device revoked' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Device not found',
+  })
+  async revokeDevice(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+  ) {
+    await this.deviceService.revokeDevice(req.requester.sub, id);
+
+    return {
+      success: true,
+      message: 'Device has been revoked successfully.',
+    };
+  }
+
+  @Post('users/:userId/unlock')
+  @UseGuards(RemoteAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Clear login lockout for a user (admin)' })
+  @ApiBearerAuth()
+  @ApiResponse({ status: HttpStatus.OK, description: 'Account unlocked' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'User not found' })
+  async unlockAccount(@Param('userId') userId: string) {
+    await this.authService.unlockAccount(userId);
+
+    return {
+      success: true,
+      message: 'Account has been unlocked successfully.',
+    };
+  }
+
+  // Khóa thiết bị chỉ trả về khi vừa cấp mới; web giữ trong cookie, app lưu lại và gửi X-Device-Id
+  private setDeviceCookie(res: Response, result: AuthResult) {
+    if (!result.device?.key) {
+      return;
+    }
+    res.cookie('deviceId', result.device.key, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: process.env.NODE_ENV === 'production' ? 'none' : 'lax',
+      path: REFRESH_TOKEN_COOKIE_PATH,
+      maxAge: DEVICE_COOKIE_MAX_AGE,
+    });
+  }
 }
@@ -1,2 +1,11 @@
 export const AUTH_SERVICE = Symbol('AUTH_SERVICE');
 export const TOKEN_SERVICE = Symbol('TOKEN_SERVICE');
+export const SOCIAL_TOKEN_VERIFIERS = Symbol('SOCIAL_TOKEN_VERIFIERS');
+export const JWKS_PROVIDER = Symbol('JWKS_PROVIDER');
+export const LOGIN_ATTEMPT_SERVICE = Symbol('LOGIN_ATTEMPT_SERVICE');
+export const DEVICE_SERVICE = Symbol('DEVICE_SERVICE');
+export const GEOIP_LOOKUP = Symbol('GEOIP_LOOKUP');
+export const LOGIN_RISK_SERVICE = Symbol('LOGIN_RISK_SERVICE');
+export const SESSION_SERVICE = Symbol('SESSION_SERVICE');
+export const PASSKEY_SERVICE = Symbol('PASSKEY_SERVICE');
+export const SOCIAL_NONCE_SERVICE = Symbol('SOCIAL_NONCE_SERVICE');
@@ -32,6 +32,13 @@ export type RegisterDto = z.infer<typeof registerDtoSchema>;
 export const socialLoginDtoSchema = z.object({
   provider: z.nativeEnum(AuthProvider),
   token: z.string(),
+  // Nonce lấy từ POST /auth/social-login/nonce và đã gửi cho nhà cung cấp
+  nonce: z.string().min(1).max(512),
+  // Gửi lại cùng ID token khi lần trước trả về requiresTwoFactor
+  twoFactorCode: z
+    .string()
+    .min(6, 'Two factor code must be at least 6 characters')
+    .optional(),
 });
 
 export type SocialLoginDto = z.infer<typeof socialLoginDtoSchema>;
@@ -43,6 +50,8 @@ export const twoFactorLoginDtoSchema = z.object({
   twoFactorCode: z
     .string()
     .min(6, 'Two factor code must be at least 6 characters'),
+  // Tin cậy thiết bị này: các lần đăng nhập sau được bỏ qua 2FA trong thời hạn
+  trustDevice: z.boolean().optional().default(false),
 });
 
 export type TwoFactorLoginDto = z.infer<typeof twoFactorLoginDtoSchema>;
@@ -100,3 +109,90 @@ export const refreshTokenDtoSchema = z.object({
 });
 
 export type RefreshTokenDto = z.infer<typeof refreshTokenDtoSchema>;
+
+// Update device DTO
+export const updateDeviceDtoSchema = z
+  .object({
+    deviceName: z
+      .string()
+      .trim()
+      .min(1, 'Device name is required')
+      .max(100, 'Device name must be at most 100 characters')
+      .optional(),
+    isTrusted: z.boolean().optional(),
+  })
+  .refine(
+    (data) => data.deviceName !== undefined || data.isTrusted !== undefined,
+    { message: 'Nothing to update' },
+  );
+
+export type UpdateDeviceDto = z.infer<typeof updateDeviceDtoSchema>;
+
+// Report unrecognized login DTO
+export const reportLoginDtoSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+export type ReportLoginDto = z.infer<typeof reportLoginDtoSchema>;
+
+// Re-authenticate DTO: mật khẩu hoặc mã 2FA (TOTP/backup code)
+export const reauthenticateDtoSchema = z
+  .object({
+    password: z.string().min(1, 'Password is required').optional(),
+    twoFactorCode: z
+      .string()
+      .min(6, 'Two factor code must be at least 6 characters')
+      .optional(),
+  })
+  .refine(
+    (data) => data.password !== undefined || data.twoFactorCode !== undefined,
+    { message: 'Password or two factor code is required' },
+  );
+
+export type ReauthenticateDto = z.infer<typeof reauthenticateDtoSchema>;
+
+// Passkey (WebAuthn) DTOs: credential là PublicKeyCredential.toJSON() của trình duyệt
+const base64UrlSchema = z
+  .string()
+  .min(1)
+  .regex(/^[A-Za-z0-9_-]+$/, 'Must be base64url encoded');
+
+export const passkeyRegistrationDtoSchema = z.object({
+  challengeId: z.string().min(1, 'Challenge ID is required'),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Passkey name is required')
+    .max(100, 'Passkey name must be at most 100 characters')
+    .optional(),
+  credential: z.object({
+    id: base64UrlSchema,
+    type: z.literal('public-key'),
+    response: z.object({
+      clientDataJSON: base64UrlSchema,
+      attestationObject: base64UrlSchema,
+      transports: z.array(z.string()).optional(),
+    }),
+  }),
+});
+
+export type PasskeyRegistrationDto = z.infer<
+  typeof passkeyRegistrationDtoSchema
+>;
+
+export const passkeyLoginDtoSchema = z.object({
+  challengeId: z.string().min(1, 'Challenge ID is required'),
+  rememberMe: z.boolean().optional().default(false),
+  credential: z.object({
+    id: base64UrlSchema,
+    type: z.literal('public-key'),
+    response: z.object({
+      clientDataJSON: base64UrlSchema,
+      authenticatorData: base64UrlSchema,
+      signature: base64UrlSchema,
+      userHandle: base64UrlSchema.nullable().optional(),
+    }),
+  }),
+});
+
+export type PasskeyLoginDto = z.infer<typeof passkeyLoginDtoSchema>;
@@ -1,15 +1,45 @@
-import { Module } from '@nestjs/common';
+import { Global, Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { TokenService } from './token.service';
 import { PrismaService } from '../../share/prisma.service';
 import { UserModule } from '../user/user.module';
-import { AUTH_SERVICE, TOKEN_SERVICE } from './auth.di-token';
+import {
+  AUTH_SERVICE,
+  DEVICE_SERVICE,
+  GEOIP_LOOKUP,
+  JWKS_PROVIDER,
+  LOGIN_ATTEMPT_SERVICE,
+  LOGIN_RISK_SERVICE,
+  PASSKEY_SERVICE,
+  SESSION_SERVICE,
+  SOCIAL_NONCE_SERVICE,
+  SOCIAL_TOKEN_VERIFIERS,
+  TOKEN_SERVICE,
+} from './auth.di-token';
 import { EmailModule } from '../email/email.module';
+import { OrganizationModule } from '../organization/organization.module';
 import { RedisModule } from '../../common/redis';
 import { AuthHttpController } from './auth.controller';
+import {
+  createDefaultSocialVerifiers,
+  HttpJwksProvider,
+} from './social-token.verifier';
+import { IJwksProvider } from './auth.port';
+import { LoginAttemptService } from './login-attempt.service';
+import { DeviceService } from './device.service';
+import { createGeoIpLookup } from './geoip.lookup';
+import { LoginRiskService } from './login-risk.service';
+import { SessionService } from './session.service';
+import { PasskeyService } from './passkey.service';
+import { PasskeyHttpController } from './passkey-http.controller';
+import { SocialNonceService } from './social-nonce.service';
+import { SESSION_VALIDATOR } from '../../share/di-token';
+import { config } from '../../share/config';
 
+// Global để RemoteAuthGuard ở mọi module luôn inject được SESSION_VALIDATOR
+@Global()
 @Module({
   imports: [
     JwtModule.registerAsync({
@@ -23,8 +53,9 @@ import { AuthHttpController } from './auth.controller';
     UserModule,
     EmailModule,
     RedisModule,
+    OrganizationModule,
   ],
-  controllers: [AuthHttpController],
+  controllers: [AuthHttpController, PasskeyHttpController],
   providers: [
     {
       provide: AUTH_SERVICE,
@@ -34,8 +65,52 @@ import { AuthHttpController } from './auth.controller';
       provide: TOKEN_SERVICE,
       useClass: TokenService,
     },
+    {
+      provide: LOGIN_ATTEMPT_SERVICE,
+      useClass: LoginAttemptService,
+    },
+    {
+      provide: DEVICE_SERVICE,
+      useClass: DeviceService,
+    },
+    {
+      provide: LOGIN_RISK_SERVICE,
+      useClass: LoginRiskService,
+    },
+    {
+      provide: SESSION_SERVICE,
+      useClass: SessionService,
+    },
+    // Guard xác thực kiểm tra session của access token qua token này
+    {
+      provide: SESSION_VALIDATOR,
+      useExisting: SESSION_SERVICE,
+    },
+    {
+      provide: PASSKEY_SERVICE,
+      useClass: PasskeyService,
+    },
+    {
+      provide: SOCIAL_NONCE_SERVICE,
+      useClass: SocialNonceService,
+    },
+    {
+      provide: GEOIP_LOOKUP,
+      useFactory: () => createGeoIpLookup(config.geoip.databasePath),
+    },
+    {
+      provide: JWKS_PROVIDER,
+      useFactory: () => new HttpJwksProvider(config.oauth.jwksCacheTtl),
+    },
+    {
+      // Override JWKS_PROVIDER (vd. StaticJwksProvider) trong test
+      provide: SOCIAL_TOKEN_VERIFIERS,
+      useFactory: (jwksProvider: IJwksProvider) =>
+        createDefaultSocialVerifiers(jwksProvider),
+      inject: [JWKS_PROVIDER],
+    },
     PrismaService,
   ],
-  exports: [AUTH_SERVICE, TOKEN_SERVICE],
+  exports: [AUTH_SERVICE, TOKEN_SERVICE, SESSION_VALIDATOR],
 })
 export class AuthModule {}
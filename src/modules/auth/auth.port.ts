@@ -1,4 +1,5 @@
 // src/modules/auth/auth.port.ts
+import type { JsonWebKey as CryptoJsonWebKey } from 'crypto';
 import {
   LoginDto,
   RegisterDto,
@@ -8,14 +9,30 @@ import {
   PasswordResetConfirmDto,
   ChangePasswordDto,
   RefreshTokenDto,
+  UpdateDeviceDto,
+  PasskeyLoginDto,
+  PasskeyRegistrationDto,
+  ReauthenticateDto,
 } from './auth.dto';
-import { TokenPayload, UserRole } from './auth.types';
+import { AuthProvider, TokenPayload, UserRole } from './auth.types';
+import { RequestContext } from '../../common/utils/request-context';
 
 export interface IAuthService {
   // Login methods
-  login(dto: LoginDto): Promise<AuthResult>;
-  loginWith2FA(dto: TwoFactorLoginDto): Promise<AuthResult>;
-  socialLogin(dto: SocialLoginDto): Promise<AuthResult>;
+  login(dto: LoginDto, context?: RequestContext): Promise<AuthResult>;
+  loginWith2FA(
+    dto: TwoFactorLoginDto,
+    context?: RequestContext,
+  ): Promise<AuthResult>;
+  socialLogin(
+    dto: SocialLoginDto,
+    context?: RequestContext,
+  ): Promise<AuthResult>;
+  // Passkey đã xác minh người dùng nên thay thế cả mật khẩu lẫn 2FA
+  loginWithPasskey(
+    dto: PasskeyLoginDto,
+    context?: RequestContext,
+  ): Promise<AuthResult>;
 
   // Registration
   register(dto: RegisterDto): Promise<{ userId: string }>;
@@ -24,6 +41,13 @@ export interface IAuthService {
   requestPasswordReset(dto: PasswordResetRequestDto): Promise<void>;
   resetPassword(dto: PasswordResetConfirmDto): Promise<void>;
   changePassword(userId: string, dto: ChangePasswordDto): Promise<void>;
+  // Xác nhận lại mật khẩu hoặc mã 2FA trước thao tác nhạy cảm
+  reauthenticate(
+    userId: string,
+    sessionId: string | null | undefined,
+    dto: ReauthenticateDto,
+    context?: RequestContext,
+  ): Promise<{ expiresIn: number }>;
 
   // Email verification
   sendVerificationEmail(userId: string): Promise<void>;
@@ -35,31 +59,94 @@ export interface IAuthService {
   revokeToken(token: string): Promise<void>;
 
   // Session management
-  revokeAllUserSessions(userId: string): Promise<void>;
-  getActiveSessions(userId: string): Promise<Session[]>;
+  revokeAllUserSessions(
+    userId: string,
+    options?: { exceptSessionId?: string | null },
+  ): Promise<void>;
+  revokeSession(userId: string, sessionId: string): Promise<void>;
+  getActiveSessions(
+    userId: string,
+    currentSessionId?: string | null,
+  ): Promise<Session[]>;
 
   // Role management
   assignRole(userId: string, role: UserRole): Promise<void>;
   removeRole(userId: string, role: UserRole): Promise<void>;
+
+  // Login lockout
+  unlockAccount(userId: string): Promise<void>;
+
+  // Link "không phải tôi" trong email cảnh báo: thu hồi mọi phiên đăng nhập
+  reportUnrecognizedLogin(
+    token: string,
+    context?: RequestContext,
+  ): Promise<void>;
 }
 
 export interface ITokenService {
   generateTokens(
     payload: TokenPayload,
+    options?: GenerateTokensOptions,
   ): Promise<{ accessToken: string; refreshToken: string }>;
   verifyAccessToken(token: string): Promise<TokenPayload | null>;
   verifyRefreshToken(token: string): Promise<TokenPayload | null>;
+  consumeRefreshToken(token: string): Promise<RefreshTokenGrant>;
   revokeToken(token: string): Promise<void>;
   revokeAllUserTokens(userId: string): Promise<void>;
 }
 
+export interface GenerateTokensOptions {
+  // Session gắn với refresh token family
+  sessionId?: string | null;
+  // Tiếp tục family cũ khi xoay vòng token; bỏ trống để tạo family mới
+  familyId?: string;
+}
+
+// Kết quả tiêu thụ một refresh token hợp lệ (token đã bị đánh dấu đã dùng)
+export interface RefreshTokenGrant {
+  payload: TokenPayload;
+  familyId: string;
+  sessionId: string | null;
+}
+
 export interface Session {
   id: string;
   userId: string;
+  deviceId: string | null;
   deviceInfo: string;
   ipAddress: string;
   lastActive: Date;
+  createdAt: Date;
   expiresAt: Date;
+  // Session của access token đang gửi request
+  current: boolean;
+}
+
+// Phạm vi thu hồi; bỏ trống sessionIds và deviceId = mọi session của user
+export interface SessionRevokeFilter {
+  sessionIds?: string[];
+  deviceId?: string;
+  // Giữ lại session này (thường là session hiện tại)
+  exceptSessionId?: string | null;
+}
+
+export interface ISessionService {
+  // Session chưa bị thu hồi và chưa hết hạn; cache ngắn trong Redis
+  isActive(sessionId: string): Promise<boolean>;
+  // Ghi lastUsedAt/IP, tối đa một lần mỗi config.session.touchIntervalSeconds
+  touch(sessionId: string, context?: RequestContext | null): Promise<void>;
+  listSessions(
+    userId: string,
+    currentSessionId?: string | null,
+  ): Promise<Session[]>;
+  // 404 khi session không thuộc user
+  revokeSession(userId: string, sessionId: string): Promise<void>;
+  // Xóa session kèm refresh token; trả số session bị thu hồi
+  revokeSessions(userId: string, filter?: SessionRevokeFilter): Promise<number>;
+  // Đánh dấu vừa nhập mật khẩu/2FA trong session này
+  markAuthenticated(sessionId: string): Promise<void>;
+  // Đăng nhập hoặc xác thực lại trong config.session.reauthWindowSeconds
+  isRecentlyAuthenticated(sessionId: string): Promise<boolean>;
 }
 
 export interface AuthResult {
@@ -75,4 +162,242 @@ export interface AuthResult {
     role: UserRole;
   };
   requiresTwoFactor?: boolean;
+  // Thiết bị vừa đăng nhập; key chỉ có khi server vừa cấp khóa thiết bị mới
+  device?: { id: string; key: string | null; isTrusted: boolean };
+}
+
+// Danh tính đã được xác minh từ ID token của nhà cung cấp OAuth/OIDC
+export interface SocialIdentity {
+  provider: AuthProvider;
+  providerAccountId: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  image: string | null;
+}
+
+export interface SocialVerifyOptions {
+  // Nonce client đã gửi cho nhà cung cấp khi xin ID token
+  nonce?: string;
+}
+
+export interface SocialNonce {
+  nonce: string;
+  expiresIn: number;
+}
+
+// Nonce social login do server cấp, lưu Redis và chỉ dùng được một lần
+export interface ISocialNonceService {
+  issue(): Promise<SocialNonce>;
+  // Xóa nonce; trả về số ms còn lại, null nếu nonce không do server cấp hoặc đã dùng
+  consume(nonce: string): Promise<number | null>;
+  // Trả lại nonce đã consume khi luồng còn dang dở (chờ mã 2FA)
+  restore(nonce: string, ttlMs: number): Promise<void>;
+}
+
+export interface ISocialTokenVerifier {
+  readonly provider: AuthProvider;
+  verify(
+    idToken: string,
+    options?: SocialVerifyOptions,
+  ): Promise<SocialIdentity>;
+}
+
+// Nguồn khóa công khai (JWKS) dùng để kiểm tra chữ ký ID token
+export interface JsonWebKey extends CryptoJsonWebKey {
+  kid?: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+}
+
+export interface IJwksProvider {
+  getSigningKey(jwksUri: string, kid?: string): Promise<JsonWebKey>;
+}
+
+export interface LoginFailureResult {
+  // Lần thất bại này vừa kích hoạt khóa tài khoản hoặc IP
+  locked: boolean;
+  lockedUntil: Date | null;
+}
+
+export interface ILoginAttemptService {
+  assertNotLocked(email: string, ipAddress: string | null): Promise<void>;
+  recordFailure(
+    email: string,
+    ipAddress: string | null,
+  ): Promise<LoginFailureResult>;
+  recordSuccess(email: string): Promise<void>;
+  unlock(email: string): Promise<void>;
+}
+
+// Kết quả ghi nhận thiết bị khi đăng nhập thành công
+export interface DeviceRegistration {
+  deviceId: string;
+  // Khóa mới cấp (client chưa có hoặc khóa không khớp thiết bị); null = giữ khóa cũ
+  deviceKey: string | null;
+  isTrusted: boolean;
+}
+
+export interface DeviceInfo {
+  id: string;
+  deviceName: string | null;
+  deviceType: string;
+  browserInfo: string | null;
+  osInfo: string | null;
+  ipAddress: string | null;
+  isTrusted: boolean;
+  // Hết hạn bỏ qua 2FA; null khi không tin cậy
+  trustedUntil: Date | null;
+  lastActive: Date;
+  activeSessions: number;
+  // Thiết bị đang gửi request
+  current: boolean;
+  createdAt: Date;
+}
+
+export interface IDeviceService {
+  // Thiết bị của request đã từng đăng nhập tài khoản này
+  isKnown(userId: string, context?: RequestContext): Promise<boolean>;
+  // Thiết bị của request được tin cậy và còn trong thời hạn bỏ qua 2FA
+  isTrusted(userId: string, context?: RequestContext): Promise<boolean>;
+  registerLogin(
+    userId: string,
+    context?: RequestContext,
+    options?: { trust?: boolean },
+  ): Promise<DeviceRegistration>;
+  listDevices(userId: string, context?: RequestContext): Promise<DeviceInfo[]>;
+  updateDevice(
+    userId: string,
+    deviceId: string,
+    dto: UpdateDeviceDto,
+    context?: RequestContext,
+  ): Promise<DeviceInfo>;
+  // Xóa thiết bị và mọi phiên đăng nhập của nó
+  revokeDevice(userId: string, deviceId: string): Promise<void>;
+}
+
+export interface GeoLocation {
+  // Mã ISO 3166-1 alpha-2
+  country: string | null;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// Tra vị trí theo IP từ cơ sở dữ liệu offline; null khi không có dữ liệu
+export interface IGeoIpLookup {
+  lookup(ipAddress: string): GeoLocation | null;
+}
+
+export type LoginRiskReason =
+  | 'new_device'
+  | 'new_network'
+  | 'new_country'
+  | 'impossible_travel'
+  | 'unusual_hour';
+
+export interface LoginRiskAssessment {
+  score: number;
+  reasons: LoginRiskReason[];
+  location: GeoLocation | null;
+  // Gửi email + thông báo SECURITY sau khi đăng nhập
+  shouldAlert: boolean;
+  // Bắt buộc 2FA kể cả trên thiết bị tin cậy (user chưa bật 2FA thì chỉ cảnh báo)
+  requiresStepUp: boolean;
+}
+
+export interface LoginRiskUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+export interface ILoginRiskService {
+  // So lần đăng nhập này với lịch sử của user; không ghi gì
+  evaluate(
+    userId: string,
+    context?: RequestContext,
+  ): Promise<LoginRiskAssessment>;
+  // Lưu vào lịch sử và gửi cảnh báo khi assessment.shouldAlert
+  recordLogin(
+    user: LoginRiskUser,
+    assessment: LoginRiskAssessment,
+    context?: RequestContext,
+    deviceId?: string | null,
+  ): Promise<void>;
+  // Dùng token "không phải tôi" (một lần); trả userId, null khi sai hoặc hết hạn
+  consumeReportToken(token: string): Promise<string | null>;
+}
+
+// Passkey (WebAuthn)
+export interface PasskeyInfo {
+  id: string;
+  name: string;
+  transports: string[];
+  // Passkey đồng bộ giữa các thiết bị qua trình quản lý mật khẩu
+  backedUp: boolean;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface PasskeyDescriptor {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+// Tham số cho navigator.credentials.create(); challengeId gửi lại khi xác minh
+export interface PasskeyCreationOptions {
+  challengeId: string;
+  publicKey: {
+    rp: { id: string; name: string };
+    user: { id: string; name: string; displayName: string };
+    challenge: string;
+    pubKeyCredParams: { type: 'public-key'; alg: number }[];
+    timeout: number;
+    attestation: 'none';
+    authenticatorSelection: {
+      residentKey: 'required';
+      requireResidentKey: true;
+      userVerification: 'required';
+    };
+    excludeCredentials: PasskeyDescriptor[];
+  };
+}
+
+// Tham số cho navigator.credentials.get(); không gửi allowCredentials (discoverable)
+export interface PasskeyRequestOptions {
+  challengeId: string;
+  publicKey: {
+    rpId: string;
+    challenge: string;
+    timeout: number;
+    userVerification: 'required';
+  };
+}
+
+export interface IPasskeyService {
+  // Đăng ký/xóa passkey yêu cầu session vừa xác thực lại (403 nếu không)
+  generateRegistrationOptions(
+    userId: string,
+    sessionId: string | null | undefined,
+  ): Promise<PasskeyCreationOptions>;
+  verifyRegistration(
+    userId: string,
+    sessionId: string | null | undefined,
+    dto: PasskeyRegistrationDto,
+    context?: RequestContext,
+  ): Promise<PasskeyInfo>;
+  generateAuthenticationOptions(): Promise<PasskeyRequestOptions>;
+  // Trả về user sở hữu passkey; 401 khi chữ ký/challenge không hợp lệ
+  verifyAuthentication(
+    dto: PasskeyLoginDto,
+  ): Promise<{ userId: string; passkeyId: string }>;
+  listPasskeys(userId: string): Promise<PasskeyInfo[]>;
+  removePasskey(
+    userId: string,
+    sessionId: string | null | undefined,
+    passkeyId: string,
+  ): Promise<void>;
 }
@@ -0,0 +1,283 @@
+import * as bcrypt from 'bcrypt';
+import { AppError } from '../../share';
+import { AuthService } from './auth.service';
+import { AuthProvider } from './auth.types';
+
+describe('AuthService.socialLogin risk step-up', () => {
+  const user = {
+    id: 'user-1',
+    name: 'User',
+    email: 'user@example.com',
+    isActive: true,
+    isVerified: true,
+    isTwoFactorEnabled: false,
+    userRoles: [],
+  };
+  const prisma = {
+    user: { findFirst: jest.fn() },
+    account: { update: jest.fn() },
+    session: { create: jest.fn() },
+  };
+  const verifier = {
+    provider: AuthProvider.GOOGLE,
+    verify: jest.fn().mockResolvedValue({
+      provider: AuthProvider.GOOGLE,
+      providerAccountId: 'google-1',
+      email: 'user@example.com',
+      emailVerified: true,
+      name: null,
+      image: null,
+    }),
+  };
+  const userService = { verify2FA: jest.fn() };
+  const tokenService = {
+    generateTokens: jest
+      .fn()
+      .mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' }),
+  };
+  const loginAttemptService = {
+    assertNotLocked: jest.fn(),
+    recordFailure: jest.fn().mockResolvedValue({ locked: false }),
+    recordSuccess: jest.fn(),
+  };
+  const deviceService = { isTrusted: jest.fn() };
+  const loginRiskService = { evaluate: jest.fn(), recordLogin: jest.fn() };
+  const socialNonceService = { consume: jest.fn(), restore: jest.fn() };
+  const service = new AuthService(
+    userService as any,
+    tokenService as any,
+    {} as any,
+    prisma as any,
+    [verifier],
+    loginAttemptService as any,
+    {} as any,
+    { log: jest.fn() } as any,
+    deviceService as any,
+    loginRiskService as any,
+    {} as any,
+    {} as any,
+    socialNonceService as any,
+  );
+
+  const risky = { score: 80, reasons: ['new_country'], requiresStepUp: true };
+  const dto = {
+    provider: AuthProvider.GOOGLE,
+    token: 'id-token',
+    nonce: 'nonce-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.user.findFirst.mockResolvedValue(user);
+    loginRiskService.evaluate.mockResolvedValue({
+      score: 0,
+      reasons: [],
+      requiresStepUp: false,
+    });
+    deviceService.isTrusted.mockResolvedValue(false);
+    socialNonceService.consume.mockResolvedValue(60_000);
+    jest.spyOn(service as any, 'buildTokenPayload').mockResolvedValue({});
+    jest.spyOn(service as any, 'registerDevice').mockResolvedValue(null);
+    jest.spyOn(service as any, 'createSession').mockResolvedValue('session-1');
+  });
+
+  const loginError = async (body: object = dto) =>
+    (await service.socialLogin(body as any).catch((e) => e)) as AppError;
+
+  it('signs in a low-risk login directly', async () => {
+    const result = await service.socialLogin(dto);
+
+    expect(result.accessToken).toBe('access');
+    expect(result.requiresTwoFactor).toBeUndefined();
+    expect(verifier.verify).toHaveBeenCalledWith('id-token', {
+      nonce: 'nonce-1',
+    });
+    expect(socialNonceService.consume).toHaveBeenCalledWith('nonce-1');
+  });
+
+  it('rejects a nonce that was not issued or was already used', async () => {
+    socialNonceService.consume.mockResolvedValue(null);
+
+    const error = await loginError();
+
+    expect(error.getStatusCode()).toBe(401);
+    expect(error.message).toContain('Invalid or expired nonce');
+    expect(prisma.user.findFirst).not.toHaveBeenCalled();
+    expect(tokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('rejects a risky login for an account without 2FA', async () => {
+    loginRiskService.evaluate.mockResolvedValue(risky);
+
+    const error = await loginError();
+
+    expect(error.getStatusCode()).toBe(403);
+    expect(error.toJSON().details).toMatchObject({
+      reason: 'step_up_required',
+    });
+    expect(tokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('fails the login instead of issuing tokens without a session', async () => {
+    jest.spyOn(service as any, 'createSession').mockRestore();
+    prisma.session.create.mockRejectedValue(new Error('db down'));
+
+    const error = await loginError();
+
+    expect(error.getStatusCode()).toBe(500);
+    expect(error.message).toContain('Failed to create session');
+    expect(tokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  describe('with 2FA enabled', () => {
+    beforeEach(() => {
+      prisma.user.findFirst.mockResolvedValue({
+        ...user,
+        isTwoFactorEnabled: true,
+      });
+    });
+
+    it('asks for a 2FA code on a risky login even from a trusted device', async () => {
+      loginRiskService.evaluate.mockResolvedValue(risky);
+      deviceService.isTrusted.mockResolvedValue(true);
+
+      const result = await service.socialLogin(dto);
+
+      expect(result).toMatchObject({
+        requiresTwoFactor: true,
+        accessToken: '',
+      });
+      // Cùng ID token được gửi lại kèm mã 2FA nên nonce phải còn dùng được
+      expect(socialNonceService.restore).toHaveBeenCalledWith(
+        'nonce-1',
+        60_000,
+      );
+      expect(deviceService.isTrusted).not.toHaveBeenCalled();
+      expect(tokenService.generateTokens).not.toHaveBeenCalled();
+    });
+
+    it('skips 2FA on a trusted device when the login is not risky', async () => {
+      deviceService.isTrusted.mockResolvedValue(true);
+
+      const result = await service.socialLogin(dto);
+
+      expect(result.accessToken).toBe('access');
+      expect(userService.verify2FA).not.toHaveBeenCalled();
+    });
+
+    it('signs in once the 2FA code is valid', async () => {
+      loginRiskService.evaluate.mockResolvedValue(risky);
+      userService.verify2FA.mockResolvedValue(true);
+
+      const result = await service.socialLogin({
+        ...dto,
+        twoFactorCode: '123456',
+      });
+
+      expect(userService.verify2FA).toHaveBeenCalledWith('user-1', '123456');
+      expect(loginAttemptService.recordSuccess).toHaveBeenCalledWith(
+        'user@example.com',
+      );
+      expect(result.accessToken).toBe('access');
+    });
+
+    it('counts a wrong 2FA code as a failed login', async () => {
+      userService.verify2FA.mockResolvedValue(false);
+
+      const error = await loginError({ ...dto, twoFactorCode: '000000' });
+
+      expect(error.getStatusCode()).toBe(401);
+      expect(loginAttemptService.recordFailure).toHaveBeenCalledWith(
+        'user@example.com',
+        null,
+      );
+      expect(tokenService.generateTokens).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('AuthService.login risk step-up', () => {
+  const user = {
+    id: 'user-1',
+    name: 'User',
+    email: 'user@example.com',
+    password: bcrypt.hashSync('correct-password', 4),
+    isActive: true,
+    isVerified: true,
+    isTwoFactorEnabled: false,
+    userRoles: [],
+  };
+  const prisma = { user: { findUnique: jest.fn() } };
+  const tokenService = {
+    generateTokens: jest
+      .fn()
+      .mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' }),
+  };
+  const loginAttemptService = {
+    assertNotLocked: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
+  const deviceService = { isTrusted: jest.fn().mockResolvedValue(false) };
+  const loginRiskService = { evaluate: jest.fn(), recordLogin: jest.fn() };
+  const service = new AuthService(
+    {} as any,
+    tokenService as any,
+    {} as any,
+    prisma as any,
+    [],
+    loginAttemptService as any,
+    {} as any,
+    { log: jest.fn() } as any,
+    deviceService as any,
+    loginRiskService as any,
+    {} as any,
+    {} as any,
+    {} as any,
+  );
+
+  const risky = { score: 80, reasons: ['new_country'], requiresStepUp: true };
+  const dto = { email: 'user@example.com', password: 'correct-password' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.user.findUnique.mockResolvedValue(user);
+    loginRiskService.evaluate.mockResolvedValue(risky);
+    jest.spyOn(service as any, 'buildTokenPayload').mockResolvedValue({});
+    jest.spyOn(service as any, 'registerDevice').mockResolvedValue(null);
+    jest.spyOn(service as any, 'createSession').mockResolvedValue('session-1');
+  });
+
+  it('rejects a risky password login for an account without 2FA', async () => {
+    const error = (await service.login(dto as any).catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(403);
+    expect(error.toJSON().details).toMatchObject({
+      reason: 'step_up_required',
+    });
+    expect(tokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('asks for a 2FA code on a risky password login when 2FA is enabled', async () => {
+    prisma.user.findUnique.mockResolvedValue({
+      ...user,
+      isTwoFactorEnabled: true,
+    });
+
+    const result = await service.login(dto as any);
+
+    expect(result).toMatchObject({ requiresTwoFactor: true, accessToken: '' });
+    expect(tokenService.generateTokens).not.toHaveBeenCalled();
+  });
+
+  it('signs in a low-risk password login directly', async () => {
+    loginRiskService.evaluate.mockResolvedValue({
+      score: 0,
+      reasons: [],
+      requiresStepUp: false,
+    });
+
+    const result = await service.login(dto as any);
+
+    expect(result.accessToken).toBe('access');
+  });
+});
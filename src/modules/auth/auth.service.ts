@@ -1,5 +1,20 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
-import { IAuthService, ITokenService, Session, AuthResult } from './auth.port';
+import {
+  IAuthService,
+  ITokenService,
+  Session,
+  AuthResult,
+  ISocialTokenVerifier,
+  SocialIdentity,
+  ILoginAttemptService,
+  IDeviceService,
+  DeviceRegistration,
+  ILoginRiskService,
+  IPasskeyService,
+  ISessionService,
+  ISocialNonceService,
+  LoginRiskAssessment,
+} from './auth.port';
 import {
   LoginDto,
   RegisterDto,
@@ -9,18 +24,50 @@ import {
   PasswordResetConfirmDto,
   ChangePasswordDto,
   RefreshTokenDto,
+  PasskeyLoginDto,
+  ReauthenticateDto,
 } from './auth.dto';
 import { TokenPayload, UserRole, AuthProvider } from './auth.types';
 import { AppError } from '../../share';
+import { config } from '../../share/config';
 import { IUserService } from '../user/user.port';
 import * as bcrypt from 'bcrypt';
 import { randomBytes } from 'crypto';
-import { TOKEN_SERVICE } from './auth.di-token';
+import {
+  DEVICE_SERVICE,
+  LOGIN_ATTEMPT_SERVICE,
+  LOGIN_RISK_SERVICE,
+  PASSKEY_SERVICE,
+  SESSION_SERVICE,
+  SOCIAL_NONCE_SERVICE,
+  SOCIAL_TOKEN_VERIFIERS,
+  TOKEN_SERVICE,
+} from './auth.di-token';
 import { USER_SERVICE } from '../user/user.di-token';
 import { PrismaService } from '../../share/prisma.service';
 import { CreateUserDto } from '../user/user.dto';
 import { IEmailService } from '../email/email.port';
 import { EMAIL_SERVICE } from '../email/email.di-token';
+import {
+  getCurrentRequester,
+  RequestContext,
+} from '../../common/utils/request-context';
+import { ORGANIZATION_SERVICE } from '../organization/organization.di-token';
+import { IOrganizationService } from '../organization/organization.port';
+import { AUDIT_LOGGER } from '../../share/di-token';
+import { IAuditLogger, Requester } from '../../share/interface';
+import { AuditAction } from '../audit/audit.model';
+
+// Thứ tự ưu tiên khi user có nhiều vai trò (cao nhất trước)
+const ROLE_PRIORITY: UserRole[] = [
+  UserRole.SUPER_ADMIN,
+  UserRole.ADMIN,
+  UserRole.FACTORY_MANAGER,
+  UserRole.LINE_MANAGER,
+  UserRole.TEAM_LEADER,
+  UserRole.GROUP_LEADER,
+  UserRole.WORKER,
+];
 
 @Injectable()
 export class AuthService implements IAuthService {
@@ -31,10 +78,29 @@ export class AuthService implements IAuthService {
     @Inject(TOKEN_SERVICE) private readonly tokenService: ITokenService,
     @Inject(EMAIL_SERVICE) private readonly emailService: IEmailService,
     private readonly prisma: PrismaService,
+    @Inject(SOCIAL_TOKEN_VERIFIERS)
+    private readonly socialVerifiers: ISocialTokenVerifier[],
+    @Inject(LOGIN_ATTEMPT_SERVICE)
+    private readonly loginAttemptService: ILoginAttemptService,
+    @Inject(ORGANIZATION_SERVICE)
+    private readonly organizationService: IOrganizationService,
+    @Inject(AUDIT_LOGGER) private readonly auditLogger: IAuditLogger,
+    @Inject(DEVICE_SERVICE) private readonly deviceService: IDeviceService,
+    @Inject(LOGIN_RISK_SERVICE)
+    private readonly loginRiskService: ILoginRiskService,
+    @Inject(SESSION_SERVICE) private readonly sessionService: ISessionService,
+    @Inject(PASSKEY_SERVICE) private readonly passkeyService: IPasskeyService,
+    @Inject(SOCIAL_NONCE_SERVICE)
+    private readonly socialNonceService: ISocialNonceService,
   ) {}
 
-  async login(dto: LoginDto): Promise<AuthResult> {
+  async login(dto: LoginDto, context?: RequestContext): Promise<AuthResult> {
     try {
+      await this.loginAttemptService.assertNotLocked(
+        dto.email,
+        context?.ipAddress ?? null,
+      );
+
       // Find the user
       const user = await this.prisma.user.findUnique({
         where: { email: dto.email },
@@ -46,6 +112,7 @@ export class AuthService implements IAuthService {
       });
 
       if (!user) {
+        await this.handleFailedLogin(dto.email, null, context);
         throw AppError.from(new Error('Invalid email or password'), 401);
       }
 
@@ -56,6 +123,7 @@ export class AuthService implements IAuthService {
 
       const isPasswordValid = await bcrypt.compare(dto.password, user.password);
       if (!isPasswordValid) {
+        await this.handleFailedLogin(dto.email, user, context);
         throw AppError.from(new Error('Invalid email or password'), 401);
       }
 
@@ -64,8 +132,15 @@ export class AuthService implements IAuthService {
         throw AppError.from(new Error('Account is disabled'), 403);
       }
 
-      // Check if 2FA is enabled
-      if (user.isTwoFactorEnabled) {
+      // Check if 2FA is enabled; thiết bị tin cậy còn hạn được bỏ qua,
+      // trừ khi lần đăng nhập này có rủi ro cao (step-up)
+      const risk = await this.loginRiskService.evaluate(user.id, context);
+      this.assertCanStepUp(user, risk, 'password');
+      const trustedDevice =
+        user.isTwoFactorEnabled &&
+        !risk.requiresStepUp &&
+        (await this.deviceService.isTrusted(user.id, context));
+      if (user.isTwoFactorEnabled && !trustedDevice) {
         return {
           accessToken: '',
           refreshToken: '',
@@ -83,22 +158,33 @@ export class AuthService implements IAuthService {
       }
 
       // Generate tokens
-      const payload: TokenPayload = {
-        sub: user.id,
-        email: user.email,
-        role: this.getUserRole(user),
-      };
-
-      const { accessToken, refreshToken } =
-        await this.tokenService.generateTokens(payload);
+      const payload = await this.buildTokenPayload(user);
 
-      // Create or update session
-      await this.createSession(user.id, dto.rememberMe);
+      // Create session first so the refresh token family can be bound to it
+      const device = await this.registerDevice(user.id, context);
+      const sessionId = await this.createSession(
+        user.id,
+        dto.rememberMe,
+        device,
+        context,
+      );
 
-      // Update last login
-      await this.prisma.user.update({
-        where: { id: user.id },
-        data: { lastUsedAt: new Date() },
+      const { accessToken, refreshToken } =
+        await this.tokenService.generateTokens(payload, { sessionId });
+
+      await this.loginAttemptService.recordSuccess(dto.email);
+      await this.loginRiskService.recordLogin(
+        user,
+        risk,
+        context,
+        device?.deviceId,
+      );
+      await this.audit(AuditAction.LOGIN, user.id, { sub: user.id }, context, {
+        sessionId,
+        deviceId: device?.deviceId,
+        riskScore: risk.score,
+        riskReasons: risk.reasons,
+        ...(trustedDevice && { twoFactor: 'trusted_device' }),
       });
 
       return {
@@ -113,6 +199,7 @@ export class AuthService implements IAuthService {
           isTwoFactorEnabled: user.isTwoFactorEnabled,
           role: this.getUserRole(user),
         },
+        device: this.toAuthDevice(device),
       };
     } catch (error) {
       this.logger.error(`Login error: ${error.message}`, error.stack);
@@ -123,8 +210,16 @@ export class AuthService implements IAuthService {
     }
   }
 
-  async loginWith2FA(dto: TwoFactorLoginDto): Promise<AuthResult> {
+  async loginWith2FA(
+    dto: TwoFactorLoginDto,
+    context?: RequestContext,
+  ): Promise<AuthResult> {
     try {
+      await this.loginAttemptService.assertNotLocked(
+        dto.email,
+        context?.ipAddress ?? null,
+      );
+
       // First validate regular credentials
       const user = await this.prisma.user.findUnique({
         where: { email: dto.email },
@@ -135,12 +230,14 @@ export class AuthService implements IAuthService {
         },
       });
 
-      if (!user) {
+      if (!user || !user.password) {
+        await this.handleFailedLogin(dto.email, user, context);
         throw AppError.from(new Error('Invalid email or password'), 401);
       }
 
       const isPasswordValid = await bcrypt.compare(dto.password, user.password);
       if (!isPasswordValid) {
+        await this.handleFailedLogin(dto.email, user, context);
         throw AppError.from(new Error('Invalid email or password'), 401);
       }
 
@@ -155,26 +252,47 @@ export class AuthService implements IAuthService {
         dto.twoFactorCode,
       );
       if (!isValid) {
+        await this.handleFailedLogin(dto.email, user, context);
         throw AppError.from(new Error('Invalid 2FA code'), 401);
       }
 
+      await this.loginAttemptService.recordSuccess(dto.email);
+
       // Generate tokens
-      const payload: TokenPayload = {
-        sub: user.id,
-        email: user.email,
-        role: this.getUserRole(user),
-      };
+      const payload = await this.buildTokenPayload(user);
 
-      const { accessToken, refreshToken } =
-        await this.tokenService.generateTokens(payload);
+      // Đánh giá trước khi ghi nhận thiết bị để còn nhận ra thiết bị lạ
+      const risk = await this.loginRiskService.evaluate(user.id, context);
 
-      // Create or update session
-      await this.createSession(user.id, true);
+      // Create session first so the refresh token family can be bound to it
+      const device = await this.registerDevice(
+        user.id,
+        context,
+        dto.trustDevice,
+      );
+      const sessionId = await this.createSession(
+        user.id,
+        true,
+        device,
+        context,
+      );
 
-      // Update last login
-      await this.prisma.user.update({
-        where: { id: user.id },
-        data: { lastUsedAt: new Date() },
+      const { accessToken, refreshToken } =
+        await this.tokenService.generateTokens(payload, { sessionId });
+
+      await this.loginRiskService.recordLogin(
+        user,
+        risk,
+        context,
+        device?.deviceId,
+      );
+      await this.audit(AuditAction.LOGIN, user.id, { sub: user.id }, context, {
+        sessionId,
+        deviceId: device?.deviceId,
+        riskScore: risk.score,
+        riskReasons: risk.reasons,
+        twoFactor: true,
+        ...(dto.trustDevice && { trustDevice: true }),
       });
 
       return {
@@ -189,6 +307,7 @@ export class AuthService implements IAuthService {
           isTwoFactorEnabled: user.isTwoFactorEnabled,
           role: this.getUserRole(user),
         },
+        device: this.toAuthDevice(device),
       };
     } catch (error) {
       this.logger.error(`2FA login error: ${error.message}`, error.stack);
@@ -199,26 +318,31 @@ export class AuthService implements IAuthService {
     }
   }
 
-  async socialLogin(dto: SocialLoginDto): Promise<AuthResult> {
+  async socialLogin(
+    dto: SocialLoginDto,
+    context?: RequestContext,
+  ): Promise<AuthResult> {
     try {
-      // Validate the social token (this would typically call the provider's API)
-      // This is a simplified example - in a real app, you'd verify with the actual provider
-      const socialUserInfo = await this.validateSocialToken(
+      // Verify the ID token against the provider's JWKS
+      const identity = await this.validateSocialToken(
         dto.provider,
         dto.token,
+        dto.nonce,
       );
 
-      if (!socialUserInfo) {
-        throw AppError.from(new Error('Invalid social token'), 401);
+      // Nonce chỉ dùng một lần: ID token bị lộ không phát lại được
+      const nonceTtl = await this.socialNonceService.consume(dto.nonce);
+      if (nonceTtl === null) {
+        throw AppError.from(new Error('Invalid or expired nonce'), 401);
       }
 
-      // Find or create user
+      // Find a user already linked to this provider identity
       let user = await this.prisma.user.findFirst({
         where: {
           accounts: {
             some: {
-              provider: dto.provider,
-              providerAccountId: socialUserInfo.id,
+              provider: identity.provider,
+              providerAccountId: identity.providerAccountId,
             },
           },
         },
@@ -229,10 +353,9 @@ export class AuthService implements IAuthService {
         },
       });
 
-      // If no user found, check if the email exists
-      if (!user && socialUserInfo.email) {
-        user = await this.prisma.user.findUnique({
-          where: { email: socialUserInfo.email },
+      if (!user && identity.email) {
+        const existing = await this.prisma.user.findUnique({
+          where: { email: identity.email },
           include: {
             userRoles: {
               include: { role: true },
@@ -240,38 +363,38 @@ export class AuthService implements IAuthService {
           },
         });
 
-        // If user exists, link the account
-        if (user) {
-          await this.prisma.account.create({
-            data: {
-              userId: user.id,
-              type: 'oauth',
-              provider: dto.provider,
-              providerAccountId: socialUserInfo.id,
-              accessToken: dto.token,
-            },
-          });
+        if (existing) {
+          // Only link to an existing account when the provider vouches for the email
+          if (!identity.emailVerified) {
+            throw AppError.from(
+              new Error(
+                'Email is already registered; sign in and link the provider manually',
+              ),
+              409,
+            );
+          }
+
+          await this.linkSocialAccount(existing.id, identity, dto.token);
+          user = existing;
         }
       }
 
-      // If still no user, create a new one
       if (!user) {
+        if (!identity.email) {
+          throw AppError.from(
+            new Error('Provider did not return an email address'),
+            400,
+          );
+        }
+
         const userId = await this.userService.createUser({
-          name: socialUserInfo.name,
-          email: socialUserInfo.email,
-          image: socialUserInfo.image,
+          name: identity.name,
+          email: identity.email,
+          image: identity.image,
           password: null, // Social login doesn't need a password
         });
 
-        await this.prisma.account.create({
-          data: {
-            userId,
-            type: 'oauth',
-            provider: dto.provider,
-            providerAccountId: socialUserInfo.id,
-            accessToken: dto.token,
-          },
-        });
+        await this.linkSocialAccount(userId, identity, dto.token);
 
         user = await this.prisma.user.findUnique({
           where: { id: userId },
@@ -281,6 +404,21 @@ export class AuthService implements IAuthService {
             },
           },
         });
+      } else {
+        // Keep the latest ID token on the linked account
+        await this.prisma.account.update({
+          where: {
+            provider_providerAccountId: {
+              provider: identity.provider,
+              providerAccountId: identity.providerAccountId,
+            },
+          },
+          data: { idToken: dto.token },
+        });
+      }
+
+      if (!user) {
+        throw AppError.from(new Error('Failed to load social user'), 500);
       }
 
       // Check if user is active
@@ -288,24 +426,87 @@ export class AuthService implements IAuthService {
         throw AppError.from(new Error('Account is disabled'), 403);
       }
 
+      // Social login không có mật khẩu nên mã 2FA được gửi kèm ID token;
+      // thiết bị tin cậy được bỏ qua 2FA trừ khi lần đăng nhập này có rủi ro cao
+      const risk = await this.loginRiskService.evaluate(user.id, context);
+      this.assertCanStepUp(user, risk, 'social');
+
+      const trustedDevice =
+        user.isTwoFactorEnabled &&
+        !risk.requiresStepUp &&
+        (await this.deviceService.isTrusted(user.id, context));
+      const twoFactorRequired = user.isTwoFactorEnabled && !trustedDevice;
+      if (twoFactorRequired) {
+        if (!dto.twoFactorCode) {
+          // Client gửi lại cùng ID token kèm mã 2FA nên trả nonce lại cho lần đó
+          await this.socialNonceService.restore(dto.nonce, nonceTtl);
+          return {
+            accessToken: '',
+            refreshToken: '',
+            expiresIn: 0,
+            user: {
+              id: user.id,
+              name: user.name,
+              email: user.email,
+              isVerified: user.isVerified || identity.emailVerified,
+              isTwoFactorEnabled: user.isTwoFactorEnabled,
+              role: this.getUserRole(user),
+            },
+            requiresTwoFactor: true,
+          };
+        }
+
+        await this.loginAttemptService.assertNotLocked(
+          user.email,
+          context?.ipAddress ?? null,
+        );
+        const isValid = await this.userService.verify2FA(
+          user.id,
+          dto.twoFactorCode,
+        );
+        if (!isValid) {
+          await this.handleFailedLogin(user.email, user, context);
+          throw AppError.from(new Error('Invalid 2FA code'), 401);
+        }
+        await this.loginAttemptService.recordSuccess(user.email);
+      }
+
       // Generate tokens
-      const payload: TokenPayload = {
-        sub: user.id,
-        email: user.email,
-        role: this.getUserRole(user),
-      };
+      const payload = await this.buildTokenPayload(user);
 
-      const { accessToken, refreshToken } =
-        await this.tokenService.generateTokens(payload);
+      // Create session first so the refresh token family can be bound to it
+      const device = await this.registerDevice(user.id, context);
+      const sessionId = await this.createSession(
+        user.id,
+        true,
+        device,
+        context,
+      );
 
-      // Create or update session
-      await this.createSession(user.id, true);
+      const { accessToken, refreshToken } =
+        await this.tokenService.generateTokens(payload, { sessionId });
 
-      // Update last login
-      await this.prisma.user.update({
-        where: { id: user.id },
-        data: { lastUsedAt: new Date() },
-      });
+      await this.loginRiskService.recordLogin(
+        user,
+        risk,
+        context,
+        device?.deviceId,
+      );
+      await this.audit(
+        AuditAction.SOCIAL_LOGIN,
+        user.id,
+        { sub: user.id },
+        context,
+        {
+          sessionId,
+          deviceId: device?.deviceId,
+          riskScore: risk.score,
+          riskReasons: risk.reasons,
+          provider: identity.provider,
+          ...(twoFactorRequired && { twoFactor: true }),
+          ...(trustedDevice && { twoFactor: 'trusted_device' }),
+        },
+      );
 
       return {
         accessToken,
@@ -315,10 +516,11 @@ export class AuthService implements IAuthService {
           id: user.id,
           name: user.name,
           email: user.email,
-          isVerified: true, // Social logins are considered verified
+          isVerified: user.isVerified || identity.emailVerified,
           isTwoFactorEnabled: user.isTwoFactorEnabled,
           role: this.getUserRole(user),
         },
+        device: this.toAuthDevice(device),
       };
     } catch (error) {
       this.logger.error(`Social login error: ${error.message}`, error.stack);
@@ -332,6 +534,88 @@ export class AuthService implements IAuthService {
     }
   }
 
+  async loginWithPasskey(
+    dto: PasskeyLoginDto,
+    context?: RequestContext,
+  ): Promise<AuthResult> {
+    try {
+      // Chữ ký passkey không đoán được nên không qua khóa đăng nhập theo mật khẩu
+      const { userId, passkeyId } =
+        await this.passkeyService.verifyAuthentication(dto);
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        include: {
+          userRoles: {
+            include: { role: true },
+          },
+        },
+      });
+
+      if (!user || !user.isActive) {
+        throw AppError.from(new Error('Account is disabled'), 403);
+      }
+
+      // Generate tokens
+      const payload = await this.buildTokenPayload(user);
+
+      // Passkey đã xác minh người dùng trên thiết bị (tương đương 2FA): chỉ cảnh báo, không step-up
+      const risk = await this.loginRiskService.evaluate(user.id, context);
+
+      // Create session first so the refresh token family can be bound to it
+      const device = await this.registerDevice(user.id, context);
+      const sessionId = await this.createSession(
+        user.id,
+        dto.rememberMe,
+        device,
+        context,
+      );
+
+      const { accessToken, refreshToken } =
+        await this.tokenService.generateTokens(payload, { sessionId });
+
+      await this.loginAttemptService.recordSuccess(user.email);
+      await this.loginRiskService.recordLogin(
+        user,
+        risk,
+        context,
+        device?.deviceId,
+      );
+      await this.audit(AuditAction.LOGIN, user.id, { sub: user.id }, context, {
+        sessionId,
+        deviceId: device?.deviceId,
+        riskScore: risk.score,
+        riskReasons: risk.reasons,
+        method: 'passkey',
+        passkeyId,
+      });
+
+      return {
+        accessToken,
+        refreshToken,
+        expiresIn: 3600, // 1 hour
+        user: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          isVerified: user.isVerified,
+          isTwoFactorEnabled: user.isTwoFactorEnabled,
+          role: this.getUserRole(user),
+        },
+        device: this.toAuthDevice(device),
+      };
+    } catch (error) {
+      this.logger.error(`Passkey login error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Passkey login failed: ${error.message}`),
+        500,
+      );
+    }
+  }
+
   async register(dto: RegisterDto): Promise<{ userId: string }> {
     try {
       // Check if email already exists
@@ -351,6 +635,7 @@ export class AuthService implements IAuthService {
         name: dto.name,
         email: dto.email,
         password: hashedPassword,
+        image: null,
       };
 
       const userId = await this.userService.createUser(createUserDto);
@@ -365,6 +650,8 @@ export class AuthService implements IAuthService {
         verifyCode,
       );
 
+      await this.audit(AuditAction.REGISTER, userId, { sub: userId });
+
       return { userId };
     } catch (error) {
       this.logger.error(`Registration error: ${error.message}`, error.stack);
@@ -409,6 +696,8 @@ export class AuthService implements IAuthService {
         user.name,
         resetToken,
       );
+
+      await this.audit(AuditAction.PASSWORD_RESET_REQUEST, user.id, null);
     } catch (error) {
       this.logger.error(
         `Password reset request error: ${error.message}`,
@@ -451,6 +740,8 @@ export class AuthService implements IAuthService {
 
       // Revoke all existing sessions for security
       await this.revokeAllUserSessions(user.id);
+
+      await this.audit(AuditAction.PASSWORD_RESET, user.id, null);
     } catch (error) {
       this.logger.error(`Password reset error: ${error.message}`, error.stack);
       if (error instanceof AppError) {
@@ -474,6 +765,10 @@ export class AuthService implements IAuthService {
         throw AppError.from(new Error('User not found'), 404);
       }
 
+      if (!user.password) {
+        throw AppError.from(new Error('Account requires social login'), 400);
+      }
+
       // Verify current password
       const isCurrentPasswordValid = await bcrypt.compare(
         dto.currentPassword,
@@ -494,6 +789,8 @@ export class AuthService implements IAuthService {
 
       // For security, revoke all other sessions
       await this.revokeAllUserSessions(userId);
+
+      await this.audit(AuditAction.PASSWORD_CHANGE, userId, { sub: userId });
     } catch (error) {
       this.logger.error(`Change password error: ${error.message}`, error.stack);
       if (error instanceof AppError) {
@@ -506,6 +803,86 @@ export class AuthService implements IAuthService {
     }
   }
 
+  async reauthenticate(
+    userId: string,
+    sessionId: string | null | undefined,
+    dto: ReauthenticateDto,
+    context?: RequestContext,
+  ): Promise<{ expiresIn: number }> {
+    try {
+      // Đánh dấu theo session nên token không gắn session thì không xác thực lại được
+      if (!sessionId) {
+        throw AppError.from(
+          new Error(
+            'Re-authentication requires a session, please log in again',
+          ),
+          401,
+        );
+      }
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          password: true,
+          isActive: true,
+          isTwoFactorEnabled: true,
+        },
+      });
+      if (!user || !user.isActive) {
+        throw AppError.from(new Error('User not found'), 404);
+      }
+
+      // Dùng chung bộ đếm khóa với đăng nhập để không dò mật khẩu qua đây được
+      await this.loginAttemptService.assertNotLocked(
+        user.email,
+        context?.ipAddress ?? null,
+      );
+
+      let method: 'password' | 'two_factor' | null = null;
+      if (
+        dto.password &&
+        user.password &&
+        (await bcrypt.compare(dto.password, user.password))
+      ) {
+        method = 'password';
+      } else if (
+        dto.twoFactorCode &&
+        user.isTwoFactorEnabled &&
+        (await this.userService.verify2FA(user.id, dto.twoFactorCode))
+      ) {
+        method = 'two_factor';
+      }
+
+      if (!method) {
+        await this.handleFailedLogin(user.email, user, context);
+        throw AppError.from(new Error('Invalid credentials'), 401);
+      }
+
+      await this.sessionService.markAuthenticated(sessionId);
+      await this.audit(
+        AuditAction.REAUTHENTICATE,
+        user.id,
+        undefined,
+        context,
+        { sessionId, method },
+      );
+
+      return { expiresIn: config.session.reauthWindowSeconds };
+    } catch (error) {
+      this.logger.error(`Re-authenticate error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Re-authentication failed: ${error.message}`),
+        500,
+      );
+    }
+  }
+
   async sendVerificationEmail(userId: string): Promise<void> {
     try {
       const user = await this.prisma.user.findUnique({
@@ -564,13 +941,9 @@ export class AuthService implements IAuthService {
 
   async refreshToken(dto: RefreshTokenDto): Promise<AuthResult> {
     try {
-      // Verify the refresh token
-      const payload = await this.tokenService.verifyRefreshToken(
-        dto.refreshToken,
-      );
-      if (!payload) {
-        throw AppError.from(new Error('Invalid refresh token'), 401);
-      }
+      // Burn the presented token; reuse of a burned token revokes its family
+      const { payload, familyId, sessionId } =
+        await this.tokenService.consumeRefreshToken(dto.refreshToken);
 
       // Get the user
       const user = await this.prisma.user.findUnique({
@@ -587,17 +960,18 @@ export class AuthService implements IAuthService {
       }
 
       // Generate new tokens
-      const newPayload: TokenPayload = {
-        sub: user.id,
-        email: user.email,
-        role: this.getUserRole(user),
-      };
+      // Membership có thể đã đổi kể từ lần đăng nhập trước nên phải đọc lại
+      const newPayload = await this.buildTokenPayload(user);
 
       const { accessToken, refreshToken } =
-        await this.tokenService.generateTokens(newPayload);
+        await this.tokenService.generateTokens(newPayload, {
+          familyId,
+          sessionId,
+        });
 
-      // Revoke the old refresh token
-      await this.tokenService.revokeToken(dto.refreshToken);
+      if (sessionId) {
+        await this.sessionService.touch(sessionId);
+      }
 
       return {
         accessToken,
@@ -629,18 +1003,43 @@ export class AuthService implements IAuthService {
   }
 
   async revokeToken(token: string): Promise<void> {
+    // Đọc chủ token trước khi thu hồi; refresh token không verify được thì bỏ qua
+    const payload = await this.tokenService
+      .verifyAccessToken(token)
+      .catch(() => null);
+
     await this.tokenService.revokeToken(token);
+
+    if (payload) {
+      // Đăng xuất kết thúc luôn session gắn với access token
+      if (payload.sid) {
+        await this.sessionService.revokeSessions(payload.sub, {
+          sessionIds: [payload.sid],
+        });
+      }
+      await this.audit(AuditAction.LOGOUT, payload.sub, { sub: payload.sub });
+    }
   }
 
-  async revokeAllUserSessions(userId: string): Promise<void> {
+  async revokeAllUserSessions(
+    userId: string,
+    options?: { exceptSessionId?: string | null },
+  ): Promise<void> {
     try {
-      // Delete all sessions for this user
-      await this.prisma.session.deleteMany({
-        where: { userId },
+      const exceptSessionId = options?.exceptSessionId ?? null;
+
+      // Xóa session kèm refresh token; giữ lại session hiện tại nếu được yêu cầu
+      const count = await this.sessionService.revokeSessions(userId, {
+        exceptSessionId,
       });
 
-      // Revoke all tokens
-      await this.tokenService.revokeAllUserTokens(userId);
+      await this.audit(
+        AuditAction.SESSIONS_REVOKE,
+        userId,
+        undefined,
+        undefined,
+        { sessions: count, ...(exceptSessionId && { exceptSessionId }) },
+      );
     } catch (error) {
       this.logger.error(
         `Revoke all sessions error: ${error.message}`,
@@ -656,29 +1055,68 @@ export class AuthService implements IAuthService {
     }
   }
 
-  async getActiveSessions(userId: string): Promise<Session[]> {
+  async reportUnrecognizedLogin(
+    token: string,
+    context?: RequestContext,
+  ): Promise<void> {
     try {
-      const sessions = await this.prisma.session.findMany({
-        where: {
-          userId,
-          isActive: true,
-          expiresAt: { gt: new Date() },
-        },
-        include: {
-          device: true,
-        },
+      const userId = await this.loginRiskService.consumeReportToken(token);
+      if (!userId) {
+        throw AppError.from(new Error('Invalid or expired link'), 400);
+      }
+
+      await this.revokeAllUserSessions(userId);
+      // Thiết bị lạ có thể đã được đánh dấu tin cậy để bỏ qua 2FA
+      await this.prisma.device.updateMany({
+        where: { userId, isTrusted: true },
+        data: { isTrusted: false, trustedAt: null },
       });
 
-      return sessions.map((session) => ({
-        id: session.id,
-        userId: session.userId,
-        deviceInfo: session.device
-          ? `${session.device.deviceName} (${session.device.deviceType})`
-          : 'Unknown device',
-        ipAddress: session.ipAddress || 'Unknown',
-        lastActive: session.lastUsedAt,
-        expiresAt: session.expiresAt,
-      }));
+      await this.audit(AuditAction.LOGIN_REPORT, userId, null, context);
+    } catch (error) {
+      this.logger.error(
+        `Report unrecognized login error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to report login: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    try {
+      await this.sessionService.revokeSession(userId, sessionId);
+
+      await this.audit(
+        AuditAction.SESSION_REVOKE,
+        userId,
+        undefined,
+        undefined,
+        { sessionId },
+      );
+    } catch (error) {
+      this.logger.error(`Revoke session error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to revoke session: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async getActiveSessions(
+    userId: string,
+    currentSessionId?: string | null,
+  ): Promise<Session[]> {
+    try {
+      return await this.sessionService.listSessions(userId, currentSessionId);
     } catch (error) {
       this.logger.error(
         `Get active sessions error: ${error.message}`,
@@ -724,6 +1162,10 @@ export class AuthService implements IAuthService {
           roleId: dbRole.id,
         },
       });
+
+      await this.audit(AuditAction.ROLE_ASSIGN, userId, undefined, undefined, {
+        role,
+      });
     } catch (error) {
       this.logger.error(`Assign role error: ${error.message}`, error.stack);
       if (error instanceof AppError) {
@@ -748,12 +1190,22 @@ export class AuthService implements IAuthService {
       }
 
       // Remove role
-      await this.prisma.userRole.deleteMany({
+      const { count } = await this.prisma.userRole.deleteMany({
         where: {
           userId,
           roleId: dbRole.id,
         },
       });
+
+      if (count > 0) {
+        await this.audit(
+          AuditAction.ROLE_REMOVE,
+          userId,
+          undefined,
+          undefined,
+          { role },
+        );
+      }
     } catch (error) {
       this.logger.error(`Remove role error: ${error.message}`, error.stack);
       if (error instanceof AppError) {
@@ -767,29 +1219,110 @@ export class AuthService implements IAuthService {
   }
 
   // Helper methods
+
+  /**
+   * Ghi audit cho hành động trên tài khoản userId.
+   * actor undefined = lấy requester của request hiện tại (admin thao tác hộ)
+   */
+  private async audit(
+    action: AuditAction,
+    userId: string | null,
+    actor?: Requester | null,
+    context?: RequestContext,
+    metadata?: Record<string, unknown>,
+  ): Promise<void> {
+    await this.auditLogger.log({
+      actor: actor === undefined ? getCurrentRequester() : actor,
+      action,
+      entityType: 'User',
+      entityId: userId,
+      ipAddress: context?.ipAddress,
+      userAgent: context?.userAgent,
+      metadata,
+    });
+  }
+
   private getUserRole(user: any): UserRole {
     if (!user.userRoles || user.userRoles.length === 0) {
       return UserRole.USER; // Default role
     }
 
-    // Find the highest priority role (SUPER_ADMIN > ADMIN > USER)
-    const roles = user.userRoles.map((ur) => ur.role.name);
+    // Find the highest priority role
+    const roles = user.userRoles.map(
+      (ur: { role: { name: UserRole } }) => ur.role.name,
+    );
+
+    return ROLE_PRIORITY.find((role) => roles.includes(role)) ?? UserRole.USER;
+  }
+
+  private async buildTokenPayload(user: any): Promise<TokenPayload> {
+    const membership = await this.organizationService.getMembership(user.id);
+
+    return {
+      sub: user.id,
+      email: user.email,
+      role: this.getUserRole(user),
+      factoryId: membership?.factoryId ?? undefined,
+      lineId: membership?.lineId ?? undefined,
+      teamId: membership?.teamId ?? undefined,
+      groupId: membership?.groupId ?? undefined,
+    };
+  }
 
-    if (roles.includes(UserRole.SUPER_ADMIN)) {
-      return UserRole.SUPER_ADMIN;
+  // Ghi nhận thiết bị đăng nhập; lỗi chỉ log, không chặn đăng nhập
+  private async registerDevice(
+    userId: string,
+    context?: RequestContext,
+    trust = false,
+  ): Promise<DeviceRegistration | null> {
+    try {
+      return await this.deviceService.registerLogin(userId, context, {
+        trust,
+      });
+    } catch (error) {
+      this.logger.error(`Register device error: ${error.message}`, error.stack);
+      return null;
     }
+  }
 
-    if (roles.includes(UserRole.ADMIN)) {
-      return UserRole.ADMIN;
+  // Đăng nhập rủi ro cao mà không có yếu tố thứ hai để step-up: chặn, người dùng đăng nhập bằng passkey
+  private assertCanStepUp(
+    user: { id: string; isTwoFactorEnabled: boolean },
+    risk: LoginRiskAssessment,
+    method: 'password' | 'social',
+  ): void {
+    if (!risk.requiresStepUp || user.isTwoFactorEnabled) {
+      return;
     }
+    this.logger.warn(
+      `Blocked risky ${method} login for user ${user.id}: ${risk.reasons.join(', ')}`,
+    );
+    throw AppError.from(
+      new Error(
+        'This sign-in looks unusual; sign in with a passkey or enable 2FA',
+      ),
+      403,
+    ).withDetail('reason', 'step_up_required');
+  }
 
-    return UserRole.USER;
+  private toAuthDevice(
+    device: DeviceRegistration | null,
+  ): AuthResult['device'] {
+    return device
+      ? {
+          id: device.deviceId,
+          key: device.deviceKey,
+          isTrusted: device.isTrusted,
+        }
+      : undefined;
   }
 
   private async createSession(
     userId: string,
     rememberMe: boolean,
-  ): Promise<void> {
+    device?: DeviceRegistration | null,
+    context?: RequestContext,
+  ): Promise<string> {
     try {
       // Generate expiry date (24 hours or 30 days if remember me)
       const expiresAt = new Date();
@@ -800,59 +1333,128 @@ export class AuthService implements IAuthService {
       }
 
       // Create session
-      await this.prisma.session.create({
+      const session = await this.prisma.session.create({
         data: {
           userId,
           token: randomBytes(32).toString('hex'),
+          deviceId: device?.deviceId ?? null,
+          ipAddress: context?.ipAddress ?? null,
           expiresAt,
           isActive: true,
           lastUsedAt: new Date(),
         },
       });
+
+      return session.id;
     } catch (error) {
       this.logger.error(`Create session error: ${error.message}`, error.stack);
-      // Non-critical error, just log it
+      // Access token bắt buộc gắn session, không tạo được thì đăng nhập thất bại
+      throw AppError.from(
+        new Error(`Failed to create session: ${error.message}`),
+        500,
+      );
     }
   }
 
+  async unlockAccount(userId: string): Promise<void> {
+    try {
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true },
+      });
+
+      if (!user) {
+        throw AppError.from(new Error('User not found'), 404);
+      }
+
+      await this.loginAttemptService.unlock(user.email);
+
+      await this.audit(AuditAction.ACCOUNT_UNLOCK, userId);
+    } catch (error) {
+      this.logger.error(`Unlock account error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to unlock account: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  private async handleFailedLogin(
+    email: string,
+    user: { id: string; email: string; name: string | null } | null,
+    context?: RequestContext,
+  ): Promise<void> {
+    const { locked } = await this.loginAttemptService.recordFailure(
+      email,
+      context?.ipAddress ?? null,
+    );
+
+    await this.audit(
+      AuditAction.LOGIN_FAILED,
+      user?.id ?? null,
+      null,
+      context,
+      { email, locked },
+    );
+
+    // Chỉ báo cho chủ tài khoản khi vừa bị khóa, không gửi ở mọi lần sai
+    if (locked && user) {
+      this.emailService
+        .sendLoginAttemptNotificationEmail(
+          user.email,
+          user.name,
+          context?.userAgent || 'Unknown device',
+          context?.ipAddress || 'Unknown location',
+          new Date(),
+        )
+        .catch((error) =>
+          this.logger.error(
+            `Failed to send login attempt notification: ${error.message}`,
+            error.stack,
+          ),
+        );
+    }
+  }
+
+  private async linkSocialAccount(
+    userId: string,
+    identity: SocialIdentity,
+    idToken: string,
+  ): Promise<void> {
+    await this.prisma.account.upsert({
+      where: {
+        provider_providerAccountId: {
+          provider: identity.provider,
+          providerAccountId: identity.providerAccountId,
+        },
+      },
+      create: {
+        userId,
+        type: 'oidc',
+        provider: identity.provider,
+        providerAccountId: identity.providerAccountId,
+        idToken,
+      },
+      update: { idToken },
+    });
+  }
+
   private async validateSocialToken(
     provider: AuthProvider,
     token: string,
-  ): Promise<any> {
-    // This is a simplified example - in a real app, you would verify with the actual provider
-    // For now, we'll just return a mock user based on the provider
-    switch (provider) {
-      case AuthProvider.GOOGLE:
-        // In a real app, you would call Google's API to validate the token
-        return {
-          id: 'google-user-id',
-          name: 'Google User',
-          email: 'google.user@example.com',
-          image: 'https://example.com/google-avatar.jpg',
-        };
-      case AuthProvider.FACEBOOK:
-        return {
-          id: 'facebook-user-id',
-          name: 'Facebook User',
-          email: 'facebook.user@example.com',
-          image: 'https://example.com/facebook-avatar.jpg',
-        };
-      case AuthProvider.APPLE:
-        return {
-          id: 'apple-user-id',
-          name: 'Apple User',
-          email: 'apple.user@example.com',
-          image: null,
-        };
-      case AuthProvider.GITHUB:
-        return {
-          id: 'github-user-id',
-          name: 'GitHub User',
-          email: 'github.user@example.com',
-          image: 'https://example.com/github-avatar.jpg',
-        };
-      default:
-        return null;
+    nonce: string,
+  ): Promise<SocialIdentity> {
+    const verifier = this.socialVerifiers.find((v) => v.provider === provider);
+    if (!verifier) {
+      throw AppError.from(
+        new Error(`Social login with ${provider} is not supported`),
+        400,
+      );
     }
+
+    return verifier.verify(token, { nonce });
   }
 }
@@ -1,8 +1,7 @@
-export enum UserRole {
-  USER = 'USER',
-  ADMIN = 'ADMIN',
-  SUPER_ADMIN = 'SUPER_ADMIN',
-}
+// Dùng chung enum vai trò với toàn hệ thống (gồm các vai trò theo cấp tổ chức)
+import { UserRole } from '../../share/interface';
+
+export { UserRole };
 
 export enum UserStatus {
   PENDING_ACTIVATION = 'PENDING_ACTIVATION',
@@ -25,4 +24,18 @@ export interface TokenPayload {
   email?: string;
   role?: UserRole;
   roleId?: string;
+  // Phạm vi tổ chức lấy từ OrgMembership
+  factoryId?: string;
+  lineId?: string;
+  teamId?: string;
+  groupId?: string;
+  // Session của access token; session bị thu hồi thì token bị từ chối ngay
+  sid?: string;
+}
+
+// Claims của refresh token: fid = family, jti = định danh token trong family
+export interface RefreshTokenPayload extends TokenPayload {
+  type: 'refresh';
+  fid: string;
+  jti: string;
 }
@@ -0,0 +1,335 @@
+import { createHash } from 'crypto';
+import { RequestContext } from '../../common/utils/request-context';
+import { AppError } from '../../share';
+import { config } from '../../share/config';
+import { AuditAction } from '../audit/audit.model';
+import { DeviceService, parseDevice } from './device.service';
+
+const CHROME_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1';
+
+const DEVICE_KEY = 'device-key-0123456789';
+const hash = (key: string) => createHash('sha256').update(key).digest('hex');
+
+describe('parseDevice', () => {
+  it('describes a desktop browser from the User-Agent', () => {
+    expect(parseDevice({ ipAddress: null, userAgent: CHROME_WINDOWS })).toEqual(
+      {
+        deviceType: 'desktop',
+        deviceName: 'Chrome on Windows',
+        browserInfo: 'Chrome 124',
+        osInfo: 'Windows',
+      },
+    );
+  });
+
+  it('describes a phone from the User-Agent', () => {
+    expect(parseDevice({ ipAddress: null, userAgent: SAFARI_IPHONE })).toEqual({
+      deviceType: 'mobile',
+      deviceName: 'Safari on iOS',
+      browserInfo: 'Safari 17',
+      osInfo: 'iOS 17',
+    });
+  });
+
+  it('prefers client hints over the reduced User-Agent', () => {
+    const windows = parseDevice({
+      ipAddress: null,
+      userAgent: CHROME_WINDOWS,
+      clientHints: { platform: '"Windows"', 'platform-version': '"15.0.0"' },
+    });
+    const android = parseDevice({
+      ipAddress: null,
+      userAgent: CHROME_WINDOWS,
+      clientHints: {
+        mobile: '?1',
+        model: '"Pixel 8"',
+        platform: '"Android"',
+        'platform-version': '"14.0.0"',
+      },
+    });
+
+    expect(windows.osInfo).toBe('Windows 11');
+    expect(android).toMatchObject({
+      deviceType: 'mobile',
+      deviceName: 'Pixel 8',
+      osInfo: 'Android 14',
+    });
+  });
+});
+
+describe('DeviceService', () => {
+  const prisma = {
+    device: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+  const auditLogger = { log: jest.fn() };
+  const sessionService = { revokeSessions: jest.fn() };
+  const service = new DeviceService(
+    prisma as any,
+    auditLogger as any,
+    sessionService as any,
+  );
+
+  const now = new Date('2026-10-19T08:00:00.000Z');
+  const windowMs = config.trustedDevice.windowDays * 24 * 60 * 60 * 1000;
+  const context = (overrides: Partial<RequestContext> = {}) => ({
+    ipAddress: '10.0.0.1',
+    userAgent: CHROME_WINDOWS,
+    deviceKey: DEVICE_KEY,
+    ...overrides,
+  });
+  const device = (overrides: object = {}) => ({
+    id: 'device-1',
+    userId: 'user-1',
+    deviceId: hash(DEVICE_KEY),
+    deviceName: 'Chrome on Windows',
+    deviceType: 'desktop',
+    browserInfo: 'Chrome 123',
+    osInfo: 'Windows',
+    ipAddress: '10.0.0.1',
+    isTrusted: false,
+    trustedAt: null,
+    lastActive: now,
+    createdAt: now,
+    ...overrides,
+  });
+  const errorOf = async (promise: Promise<unknown>) =>
+    (await promise.catch((e) => e)) as AppError;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(now);
+    prisma.device.findUnique.mockResolvedValue(null);
+    prisma.device.upsert.mockImplementation(({ create }) => ({
+      id: 'device-1',
+      isTrusted: false,
+      trustedAt: null,
+      ...create,
+    }));
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  describe('registerLogin', () => {
+    it('issues a new key when the request has none and stores only its hash', async () => {
+      const registration = await service.registerLogin(
+        'user-1',
+        context({ deviceKey: null }),
+      );
+
+      expect(registration.deviceKey).toEqual(expect.any(String));
+      expect(prisma.device.findUnique).not.toHaveBeenCalled();
+      expect(prisma.device.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId_deviceId: {
+              userId: 'user-1',
+              deviceId: hash(registration.deviceKey!),
+            },
+          },
+          create: expect.objectContaining({
+            deviceName: 'Chrome on Windows',
+            deviceType: 'desktop',
+            ipAddress: '10.0.0.1',
+            lastActive: now,
+          }),
+        }),
+      );
+    });
+
+    it('ignores a malformed key from the client', async () => {
+      const registration = await service.registerLogin(
+        'user-1',
+        context({ deviceKey: 'short' }),
+      );
+
+      expect(registration.deviceKey).toEqual(expect.any(String));
+      expect(prisma.device.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('keeps the key of a known device after a browser update', async () => {
+      prisma.device.findUnique.mockResolvedValue(device());
+
+      const registration = await service.registerLogin('user-1', context());
+
+      expect(registration.deviceKey).toBeNull();
+      expect(prisma.device.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId_deviceId: { userId: 'user-1', deviceId: hash(DEVICE_KEY) },
+          },
+          update: expect.objectContaining({ browserInfo: 'Chrome 124' }),
+        }),
+      );
+    });
+
+    it('issues a new key when a known key shows up on another device', async () => {
+      prisma.device.findUnique.mockResolvedValue(device());
+
+      const registration = await service.registerLogin(
+        'user-1',
+        context({ userAgent: SAFARI_IPHONE }),
+      );
+
+      expect(registration.deviceKey).toEqual(expect.any(String));
+      expect(prisma.device.upsert.mock.calls[0][0].create.deviceId).not.toBe(
+        hash(DEVICE_KEY),
+      );
+    });
+
+    it('trusts the device when asked to', async () => {
+      const registration = await service.registerLogin('user-1', context(), {
+        trust: true,
+      });
+
+      expect(prisma.device.upsert.mock.calls[0][0].update).toMatchObject({
+        isTrusted: true,
+        trustedAt: now,
+      });
+      expect(registration).toEqual({
+        deviceId: 'device-1',
+        deviceKey: null,
+        isTrusted: true,
+      });
+    });
+  });
+
+  describe('trust', () => {
+    it('trusts a device only within the trust window', async () => {
+      prisma.device.findUnique
+        .mockResolvedValueOnce(
+          device({
+            isTrusted: true,
+            trustedAt: new Date(now.getTime() - windowMs + 1000),
+          }),
+        )
+        .mockResolvedValueOnce(
+          device({
+            isTrusted: true,
+            trustedAt: new Date(now.getTime() - windowMs),
+          }),
+        );
+
+      await expect(service.isTrusted('user-1', context())).resolves.toBe(true);
+      await expect(service.isTrusted('user-1', context())).resolves.toBe(false);
+    });
+
+    it('does not trust a key copied to another device', async () => {
+      prisma.device.findUnique.mockResolvedValue(
+        device({ isTrusted: true, trustedAt: now }),
+      );
+
+      await expect(
+        service.isTrusted('user-1', context({ userAgent: SAFARI_IPHONE })),
+      ).resolves.toBe(false);
+      await expect(
+        service.isKnown('user-1', context({ userAgent: SAFARI_IPHONE })),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('management', () => {
+    it('lists the devices and marks the current one', async () => {
+      prisma.device.findMany.mockResolvedValue([
+        { ...device(), _count: { sessions: 2 } },
+        {
+          ...device({
+            id: 'device-2',
+            deviceId: hash('other-device-key-0000'),
+          }),
+          _count: { sessions: 0 },
+        },
+      ]);
+
+      const devices = await service.listDevices('user-1', context());
+
+      expect(prisma.device.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-1' },
+          orderBy: { lastActive: 'desc' },
+        }),
+      );
+      expect(devices.map((d) => [d.id, d.current, d.activeSessions])).toEqual([
+        ['device-1', true, 2],
+        ['device-2', false, 0],
+      ]);
+    });
+
+    it('clears the trust date when a device is untrusted', async () => {
+      prisma.device.findFirst.mockResolvedValue(
+        device({ isTrusted: true, trustedAt: now }),
+      );
+      prisma.device.update.mockResolvedValue({
+        ...device(),
+        _count: { sessions: 1 },
+      });
+
+      const info = await service.updateDevice('user-1', 'device-1', {
+        isTrusted: false,
+      });
+
+      expect(prisma.device.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'device-1' },
+          data: { isTrusted: false, trustedAt: null },
+        }),
+      );
+      expect(info).toMatchObject({ isTrusted: false, trustedUntil: null });
+      expect(auditLogger.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.DEVICE_UPDATE,
+          entityType: 'Device',
+          entityId: 'device-1',
+          metadata: { userId: 'user-1', isTrusted: false },
+        }),
+      );
+    });
+
+    it('does not touch a device of another user', async () => {
+      prisma.device.findFirst.mockResolvedValue(null);
+
+      const error = await errorOf(
+        service.updateDevice('user-2', 'device-1', { deviceName: 'Mine' }),
+      );
+
+      expect(error.getStatusCode()).toBe(404);
+      expect(prisma.device.findFirst).toHaveBeenCalledWith({
+        where: { id: 'device-1', userId: 'user-2' },
+      });
+      expect(prisma.device.update).not.toHaveBeenCalled();
+    });
+
+    it('signs out the sessions of a revoked device', async () => {
+      prisma.device.findFirst.mockResolvedValue(device());
+      sessionService.revokeSessions.mockResolvedValue(3);
+
+      await service.revokeDevice('user-1', 'device-1');
+
+      expect(sessionService.revokeSessions).toHaveBeenCalledWith('user-1', {
+        deviceId: 'device-1',
+      });
+      expect(prisma.device.delete).toHaveBeenCalledWith({
+        where: { id: 'device-1' },
+      });
+      expect(auditLogger.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.DEVICE_REVOKE,
+          metadata: {
+            userId: 'user-1',
+            deviceName: 'Chrome on Windows',
+            sessions: 3,
+          },
+        }),
+      );
+    });
+  });
+});
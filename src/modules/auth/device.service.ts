@@ -0,0 +1,393 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Device } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import {
+  getCurrentRequester,
+  RequestContext,
+} from '../../common/utils/request-context';
+import { AppError } from '../../share';
+import { config } from '../../share/config';
+import { AUDIT_LOGGER } from '../../share/di-token';
+import { IAuditLogger } from '../../share/interface';
+import { PrismaService } from '../../share/prisma.service';
+import { AuditAction } from '../audit/audit.model';
+import { UpdateDeviceDto } from './auth.dto';
+import { SESSION_SERVICE } from './auth.di-token';
+import {
+  DeviceInfo,
+  DeviceRegistration,
+  IDeviceService,
+  ISessionService,
+} from './auth.port';
+
+// Khóa do client gửi lên; chuỗi lạ bị bỏ qua và cấp khóa mới
+const DEVICE_KEY_PATTERN = /^[A-Za-z0-9_.:-]{16,200}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ParsedDevice {
+  deviceType: 'mobile' | 'tablet' | 'desktop';
+  deviceName: string | null;
+  browserInfo: string | null;
+  osInfo: string | null;
+}
+
+/**
+ * Nhận diện thiết bị từ User-Agent, client hints (nếu có) được ưu tiên
+ * vì trình duyệt Chromium đã rút gọn User-Agent
+ */
+export function parseDevice(context?: RequestContext | null): ParsedDevice {
+  const ua = context?.userAgent ?? '';
+  const hints = context?.clientHints ?? {};
+  const unquote = (value?: string) => value?.replace(/"/g, '').trim() || null;
+
+  const browser =
+    matchVersion(ua, /Edg(?:e|A|iOS)?\/(\d+)/, 'Edge') ??
+    matchVersion(ua, /(?:OPR|Opera)\/(\d+)/, 'Opera') ??
+    matchVersion(ua, /SamsungBrowser\/(\d+)/, 'Samsung Internet') ??
+    matchVersion(ua, /(?:Firefox|FxiOS)\/(\d+)/, 'Firefox') ??
+    matchVersion(ua, /(?:Chrome|CriOS)\/(\d+)/, 'Chrome') ??
+    (/Safari\//.test(ua) ? matchVersion(ua, /Version\/(\d+)/, 'Safari') : null);
+
+  const platform = unquote(hints['platform']);
+  const platformVersion = unquote(hints['platform-version']);
+  let os: string | null;
+  if (platform) {
+    // Windows 11 báo platform-version từ 13 trở lên
+    const major = parseInt(platformVersion ?? '', 10);
+    os =
+      platform === 'Windows' && major > 0
+        ? `Windows ${major >= 13 ? 11 : 10}`
+        : [platform, platformVersion?.split('.')[0]].filter(Boolean).join(' ');
+  } else if (/iPad/.test(ua)) {
+    os = matchVersion(ua, /OS (\d+)[_.]/, 'iPadOS') ?? 'iPadOS';
+  } else if (/iPhone|iPod/.test(ua)) {
+    os = matchVersion(ua, /OS (\d+)[_.]/, 'iOS') ?? 'iOS';
+  } else {
+    os =
+      matchVersion(ua, /Android (\d+)/, 'Android') ??
+      (/Windows/.test(ua) ? 'Windows' : null) ??
+      (/CrOS/.test(ua) ? 'ChromeOS' : null) ??
+      (/Mac OS X|Macintosh/.test(ua) ? 'macOS' : null) ??
+      (/Linux/.test(ua) ? 'Linux' : null);
+  }
+
+  let deviceType: ParsedDevice['deviceType'];
+  if (hints['mobile'] === '?1') {
+    deviceType = 'mobile';
+  } else if (
+    /iPad|Tablet/.test(ua) ||
+    (/Android/.test(ua) && !/Mobi/.test(ua))
+  ) {
+    deviceType = 'tablet';
+  } else if (/Mobi|iPhone|iPod|Android/.test(ua)) {
+    deviceType = 'mobile';
+  } else {
+    deviceType = 'desktop';
+  }
+
+  const model = unquote(hints['model']);
+  const family = (info: string | null) => info && versionless(info);
+  return {
+    deviceType,
+    deviceName:
+      model ??
+      ([family(browser), family(os)].filter(Boolean).join(' on ') || null),
+    browserInfo: browser,
+    osInfo: os,
+  };
+}
+
+function matchVersion(ua: string, pattern: RegExp, name: string) {
+  const match = ua.match(pattern);
+  return match ? `${name} ${match[1]}` : null;
+}
+
+// "Chrome 124" -> "Chrome"; so khớp theo họ vì phiên bản đổi sau mỗi lần cập nhật
+function versionless(info: string): string {
+  return info.replace(/\s[\d.]+$/, '');
+}
+
+/**
+ * Sổ thiết bị của người dùng. Thiết bị được nhận theo khóa client giữ
+ * (cookie/header), chỉ lưu hash của khóa; User-Agent và client hints
+ * dùng để mô tả thiết bị và phát hiện khóa bị chép sang máy khác
+ */
+@Injectable()
+export class DeviceService implements IDeviceService {
+  private readonly logger = new Logger(DeviceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(AUDIT_LOGGER) private readonly auditLogger: IAuditLogger,
+    @Inject(SESSION_SERVICE) private readonly sessionService: ISessionService,
+  ) {}
+
+  async isKnown(userId: string, context?: RequestContext): Promise<boolean> {
+    return (await this.findByKey(userId, context)) !== null;
+  }
+
+  async isTrusted(userId: string, context?: RequestContext): Promise<boolean> {
+    const device = await this.findByKey(userId, context);
+    return !!device && this.trustedUntil(device) !== null;
+  }
+
+  async registerLogin(
+    userId: string,
+    context?: RequestContext,
+    options?: { trust?: boolean },
+  ): Promise<DeviceRegistration> {
+    const parsed = parseDevice(context);
+    const requestHash = this.keyHash(context);
+    const known = requestHash
+      ? await this.findByHash(userId, requestHash)
+      : null;
+    // Không có khóa hợp lệ, hoặc khóa đang gắn với máy khác (bị chép cookie): cấp khóa mới
+    const deviceKey =
+      !requestHash || (known && !this.sameDevice(known, parsed))
+        ? randomBytes(32).toString('base64url')
+        : null;
+    const keyHash = deviceKey
+      ? this.hashKey(deviceKey)
+      : (requestHash as string);
+
+    const now = new Date();
+    const data = {
+      deviceType: parsed.deviceType,
+      browserInfo: parsed.browserInfo,
+      osInfo: parsed.osInfo,
+      ipAddress: context?.ipAddress ?? null,
+      lastActive: now,
+      ...(options?.trust && { isTrusted: true, trustedAt: now }),
+    };
+
+    const device = await this.prisma.device.upsert({
+      where: { userId_deviceId: { userId, deviceId: keyHash } },
+      create: {
+        userId,
+        deviceId: keyHash,
+        deviceName: parsed.deviceName,
+        ...data,
+      },
+      update: data,
+    });
+
+    return {
+      deviceId: device.id,
+      deviceKey,
+      isTrusted: this.trustedUntil(device) !== null,
+    };
+  }
+
+  async listDevices(
+    userId: string,
+    context?: RequestContext,
+  ): Promise<DeviceInfo[]> {
+    try {
+      const devices = await this.prisma.device.findMany({
+        where: { userId },
+        orderBy: { lastActive: 'desc' },
+        include: {
+          _count: {
+            select: {
+              sessions: {
+                where: { isActive: true, expiresAt: { gt: new Date() } },
+              },
+            },
+          },
+        },
+      });
+
+      const currentHash = this.keyHash(context);
+      return devices.map((device) =>
+        this.toDeviceInfo(
+          device,
+          device._count.sessions,
+          !!currentHash && device.deviceId === currentHash,
+        ),
+      );
+    } catch (error) {
+      this.logger.error(`List devices error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to list devices: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async updateDevice(
+    userId: string,
+    deviceId: string,
+    dto: UpdateDeviceDto,
+    context?: RequestContext,
+  ): Promise<DeviceInfo> {
+    try {
+      const device = await this.getOwnDevice(userId, deviceId);
+
+      const updated = await this.prisma.device.update({
+        where: { id: device.id },
+        data: {
+          ...(dto.deviceName !== undefined && { deviceName: dto.deviceName }),
+          ...(dto.isTrusted !== undefined && {
+            isTrusted: dto.isTrusted,
+            trustedAt: dto.isTrusted ? new Date() : null,
+          }),
+        },
+        include: {
+          _count: {
+            select: {
+              sessions: {
+                where: { isActive: true, expiresAt: { gt: new Date() } },
+              },
+            },
+          },
+        },
+      });
+
+      await this.audit(AuditAction.DEVICE_UPDATE, device, {
+        ...(dto.deviceName !== undefined && { deviceName: dto.deviceName }),
+        ...(dto.isTrusted !== undefined && { isTrusted: dto.isTrusted }),
+      });
+
+      return this.toDeviceInfo(
+        updated,
+        updated._count.sessions,
+        !!updated.deviceId && updated.deviceId === this.keyHash(context),
+      );
+    } catch (error) {
+      this.logger.error(`Update device error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to update device: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async revokeDevice(userId: string, deviceId: string): Promise<void> {
+    try {
+      const device = await this.getOwnDevice(userId, deviceId);
+
+      const sessionCount = await this.sessionService.revokeSessions(userId, {
+        deviceId: device.id,
+      });
+      await this.prisma.device.delete({ where: { id: device.id } });
+
+      await this.audit(AuditAction.DEVICE_REVOKE, device, {
+        deviceName: device.deviceName,
+        sessions: sessionCount,
+      });
+    } catch (error) {
+      this.logger.error(`Revoke device error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to revoke device: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  // Helper methods
+
+  /**
+   * Thiết bị của userId ứng với khóa trong request; khóa đúng nhưng hệ điều hành,
+   * trình duyệt hoặc loại thiết bị khác đi thì coi như không tìm thấy
+   */
+  private async findByKey(
+    userId: string,
+    context?: RequestContext,
+  ): Promise<Device | null> {
+    const hash = this.keyHash(context);
+    const device = hash ? await this.findByHash(userId, hash) : null;
+    return device && this.sameDevice(device, parseDevice(context))
+      ? device
+      : null;
+  }
+
+  private findByHash(userId: string, deviceId: string) {
+    return this.prisma.device.findUnique({
+      where: { userId_deviceId: { userId, deviceId } },
+    });
+  }
+
+  private sameDevice(device: Device, parsed: ParsedDevice): boolean {
+    const family = (info: string | null) => (info ? versionless(info) : null);
+    return (
+      device.deviceType === parsed.deviceType &&
+      family(device.osInfo) === family(parsed.osInfo) &&
+      family(device.browserInfo) === family(parsed.browserInfo)
+    );
+  }
+
+  private trustedUntil(device: Device): Date | null {
+    if (!device.isTrusted || !device.trustedAt) {
+      return null;
+    }
+    const until = new Date(
+      device.trustedAt.getTime() + config.trustedDevice.windowDays * DAY_MS,
+    );
+    return until > new Date() ? until : null;
+  }
+
+  private async getOwnDevice(userId: string, deviceId: string) {
+    const device = await this.prisma.device.findFirst({
+      where: { id: deviceId, userId },
+    });
+    if (!device) {
+      throw AppError.from(new Error('Device not found'), 404);
+    }
+    return device;
+  }
+
+  private toDeviceInfo(
+    device: Device,
+    activeSessions: number,
+    current: boolean,
+  ): DeviceInfo {
+    return {
+      id: device.id,
+      deviceName: device.deviceName,
+      deviceType: device.deviceType,
+      browserInfo: device.browserInfo,
+      osInfo: device.osInfo,
+      ipAddress: device.ipAddress,
+      isTrusted: device.isTrusted,
+      trustedUntil: this.trustedUntil(device),
+      lastActive: device.lastActive,
+      activeSessions,
+      current,
+      createdAt: device.createdAt,
+    };
+  }
+
+  // Hash khóa thiết bị của request; null khi không có hoặc không hợp lệ
+  private keyHash(context?: RequestContext): string | null {
+    const key = context?.deviceKey;
+    return key && DEVICE_KEY_PATTERN.test(key) ? this.hashKey(key) : null;
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private async audit(
+    action: AuditAction,
+    device: Device,
+    metadata: Record<string, unknown>,
+  ): Promise<void> {
+    await this.auditLogger.log({
+      actor: getCurrentRequester(),
+      action,
+      entityType: 'Device',
+      entityId: device.id,
+      metadata: { userId: device.userId, ...metadata },
+    });
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  createGeoIpLookup,
+  MmdbGeoIpLookup,
+  NullGeoIpLookup,
+  parseIp,
+} from './geoip.lookup';
+
+// Bộ mã hóa MMDB tối thiểu để dựng file test: string, double, uint32, map, pointer
+type MmdbValue =
+  | string
+  | number
+  | { pointer: number }
+  | { [key: string]: MmdbValue };
+
+function encode(value: MmdbValue): Buffer {
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value);
+    return Buffer.concat([Buffer.from([(2 << 5) | bytes.length]), bytes]);
+  }
+  if (typeof value === 'number') {
+    if (Number.isInteger(value)) {
+      const bytes = Buffer.alloc(5);
+      bytes[0] = (6 << 5) | 4;
+      bytes.writeUInt32BE(value, 1);
+      return bytes;
+    }
+    const bytes = Buffer.alloc(9);
+    bytes[0] = (3 << 5) | 8;
+    bytes.writeDoubleBE(value, 1);
+    return bytes;
+  }
+  if (typeof value.pointer === 'number') {
+    return Buffer.from([(1 << 5) | (value.pointer >> 8), value.pointer & 0xff]);
+  }
+  const entries = Object.entries(value);
+  return Buffer.concat([
+    Buffer.from([(7 << 5) | entries.length]),
+    ...entries.flatMap(([key, item]) => [encode(key), encode(item)]),
+  ]);
+}
+
+interface Network {
+  ip: string;
+  prefix: number;
+  record: MmdbValue;
+}
+
+function buildMmdb(
+  networks: Network[],
+  options: { ipVersion: 4 | 6; recordSize: 24 | 28 },
+  shared: MmdbValue[] = [],
+): Buffer {
+  // Dữ liệu dùng chung đặt đầu data section để record trỏ tới bằng pointer
+  const chunks = shared.map(encode);
+  const offsets: number[] = [];
+  let offset = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  for (const network of networks) {
+    const chunk = encode(network.record);
+    offsets.push(offset);
+    chunks.push(chunk);
+    offset += chunk.length;
+  }
+
+  // Cây nhị phân: -1 là chưa có dữ liệu, -(2 + i) là record thứ i
+  const nodes: number[][] = [[-1, -1]];
+  networks.forEach((network, index) => {
+    let ip = parseIp(network.ip)!;
+    let prefix = network.prefix;
+    if (options.ipVersion === 6 && ip.length === 4) {
+      ip = Buffer.concat([Buffer.alloc(12), ip]);
+      prefix += 96;
+    }
+    let node = 0;
+    for (let bit = 0; bit < prefix; bit++) {
+      const side = (ip[bit >> 3] >> (7 - (bit & 7))) & 1;
+      if (bit === prefix - 1) {
+        nodes[node][side] = -(2 + index);
+      } else {
+        if (nodes[node][side] < 0) {
+          nodes.push([-1, -1]);
+          nodes[node][side] = nodes.length - 1;
+        }
+        node = nodes[node][side];
+      }
+    }
+  });
+
+  const nodeCount = nodes.length;
+  const resolve = (value: number) =>
+    value === -1
+      ? nodeCount
+      : value < 0
+        ? nodeCount + 16 + offsets[-value - 2]
+        : value;
+  const nodeBytes = options.recordSize === 24 ? 6 : 7;
+  const tree = Buffer.alloc(nodeCount * nodeBytes);
+  nodes.forEach(([left, right], index) => {
+    const [l, r] = [resolve(left), resolve(right)];
+    const at = index * nodeBytes;
+    if (options.recordSize === 24) {
+      tree.writeUIntBE(l, at, 3);
+      tree.writeUIntBE(r, at + 3, 3);
+    } else {
+      tree.writeUIntBE(l & 0xffffff, at, 3);
+      tree[at + 3] = ((l >> 24) << 4) | (r >> 24);
+      tree.writeUIntBE(r & 0xffffff, at + 4, 3);
+    }
+  });
+
+  return Buffer.concat([
+    tree,
+    Buffer.alloc(16),
+    ...chunks,
+    Buffer.from('abcdef4d61784d696e642e636f6d', 'hex'),
+    encode({
+      node_count: nodeCount,
+      record_size: options.recordSize,
+      ip_version: options.ipVersion,
+    }),
+  ]);
+}
+
+const hanoi = {
+  country: { iso_code: 'VN' },
+  city: { names: { en: 'Hanoi' } },
+  location: { latitude: 21.0245, longitude: 105.8412 },
+};
+
+describe('parseIp', () => {
+  it('parses IPv4, IPv6 and IPv4-mapped addresses', () => {
+    expect(parseIp('10.1.2.3')).toEqual(Buffer.from([10, 1, 2, 3]));
+    expect(parseIp('::ffff:10.1.2.3')).toEqual(Buffer.from([10, 1, 2, 3]));
+    expect(parseIp('2001:db8::1')?.toString('hex')).toBe(
+      '20010db8000000000000000000000001',
+    );
+    expect(parseIp('fe80::1%eth0')?.length).toBe(16);
+    expect(parseIp('unknown')).toBeNull();
+  });
+});
+
+describe('MmdbGeoIpLookup', () => {
+  it('finds the city of an IPv4 address', () => {
+    const lookup = new MmdbGeoIpLookup(
+      buildMmdb([{ ip: '1.2.3.0', prefix: 24, record: hanoi }], {
+        ipVersion: 4,
+        recordSize: 24,
+      }),
+    );
+
+    expect(lookup.lookup('1.2.3.4')).toEqual({
+      country: 'VN',
+      city: 'Hanoi',
+      latitude: 21.0245,
+      longitude: 105.8412,
+    });
+    expect(lookup.lookup('1.2.4.1')).toBeNull();
+    expect(lookup.lookup('2001:db8::1')).toBeNull();
+    expect(lookup.lookup('not-an-ip')).toBeNull();
+  });
+
+  it('walks IPv4 through the ::/96 subtree of an IPv6 database', () => {
+    const lookup = new MmdbGeoIpLookup(
+      buildMmdb(
+        [
+          { ip: '1.2.3.0', prefix: 24, record: hanoi },
+          {
+            ip: '2001:db8::',
+            prefix: 32,
+            // Không có country: dùng registered_country, dữ liệu chung qua pointer
+            record: { registered_country: { pointer: 0 } },
+          },
+        ],
+        { ipVersion: 6, recordSize: 28 },
+        [{ iso_code: 'JP' }],
+      ),
+    );
+
+    expect(lookup.lookup('::ffff:1.2.3.4')?.city).toBe('Hanoi');
+    expect(lookup.lookup('1.2.3.200')?.country).toBe('VN');
+    expect(lookup.lookup('2001:db8:1::5')).toEqual({
+      country: 'JP',
+      city: null,
+      latitude: null,
+      longitude: null,
+    });
+    expect(lookup.lookup('2001:db9::1')).toBeNull();
+  });
+
+  it('rejects files without MMDB metadata', () => {
+    expect(() => new MmdbGeoIpLookup(Buffer.from('not a database'))).toThrow(
+      'metadata not found',
+    );
+  });
+
+  it('falls back to no location when the database cannot be loaded', () => {
+    expect(createGeoIpLookup('')).toBeInstanceOf(NullGeoIpLookup);
+    expect(createGeoIpLookup('/nonexistent/GeoLite2-City.mmdb')).toBeInstanceOf(
+      NullGeoIpLookup,
+    );
+  });
+});
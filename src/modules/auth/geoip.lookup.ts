@@ -0,0 +1,302 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { isIP } from 'net';
+import { GeoLocation, IGeoIpLookup } from './auth.port';
+
+// "\xAB\xCD\xEFMaxMind.com": phần metadata nằm sau marker cuối cùng của file
+const METADATA_MARKER = Buffer.from('abcdef4d61784d696e642e636f6d', 'hex');
+// Data section cách search tree 16 byte 0
+const DATA_SECTION_SEPARATOR = 16;
+
+/**
+ * IP dạng byte (4 byte IPv4, 16 byte IPv6); IPv4-mapped (::ffff:a.b.c.d) quy về IPv4.
+ * null khi không phải IP hợp lệ
+ */
+export function parseIp(ipAddress: string): Buffer | null {
+  const ip = ipAddress
+    .trim()
+    .replace(/%.*$/, '')
+    .replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+  const version = isIP(ip);
+  if (version === 4) {
+    return Buffer.from(ip.split('.').map(Number));
+  }
+  if (version !== 6) {
+    return null;
+  }
+
+  const groups = (part: string): number[] =>
+    part
+      ? part.split(':').flatMap((group) => {
+          if (!group.includes('.')) {
+            return [parseInt(group, 16)];
+          }
+          const [a, b, c, d] = group.split('.').map(Number);
+          return [(a << 8) | b, (c << 8) | d];
+        })
+      : [];
+  const [headPart, tailPart] = ip.split('::');
+  const head = groups(headPart);
+  const tail = tailPart === undefined ? [] : groups(tailPart);
+  const all = [
+    ...head,
+    ...new Array(8 - head.length - tail.length).fill(0),
+    ...tail,
+  ];
+
+  const bytes = Buffer.alloc(16);
+  all.forEach((group, index) => bytes.writeUInt16BE(group, index * 2));
+  return bytes;
+}
+
+/**
+ * Đọc cơ sở dữ liệu định dạng MaxMind DB (.mmdb) nạp sẵn trong bộ nhớ,
+ * dùng được với GeoLite2-City, DB-IP City Lite và các file cùng cấu trúc
+ */
+export class MmdbGeoIpLookup implements IGeoIpLookup {
+  private readonly nodeCount: number;
+  private readonly recordSize: number;
+  private readonly ipVersion: number;
+  private readonly data: MmdbDecoder;
+  // Node bắt đầu của IPv4 trong cây IPv6 (::/96)
+  private readonly ipv4Start: number;
+
+  constructor(private readonly db: Buffer) {
+    const markerAt = db.lastIndexOf(METADATA_MARKER);
+    if (markerAt < 0) {
+      throw new Error('Invalid MMDB file: metadata not found');
+    }
+    const metadata = new MmdbDecoder(
+      db,
+      markerAt + METADATA_MARKER.length,
+    ).decode(0).value;
+
+    this.nodeCount = metadata?.node_count;
+    this.recordSize = metadata?.record_size;
+    this.ipVersion = metadata?.ip_version;
+    if (
+      !Number.isInteger(this.nodeCount) ||
+      ![24, 28, 32].includes(this.recordSize)
+    ) {
+      throw new Error('Invalid MMDB file: unsupported metadata');
+    }
+
+    const treeSize = ((this.recordSize * 2) / 8) * this.nodeCount;
+    this.data = new MmdbDecoder(db, treeSize + DATA_SECTION_SEPARATOR);
+
+    let node = 0;
+    if (this.ipVersion === 6) {
+      for (let bit = 0; bit < 96 && node < this.nodeCount; bit++) {
+        node = this.readRecord(node, 0);
+      }
+    }
+    this.ipv4Start = node;
+  }
+
+  static fromFile(path: string): MmdbGeoIpLookup {
+    return new MmdbGeoIpLookup(readFileSync(path));
+  }
+
+  lookup(ipAddress: string): GeoLocation | null {
+    const ip = parseIp(ipAddress);
+    if (!ip || (ip.length === 16 && this.ipVersion === 4)) {
+      return null;
+    }
+
+    let node = ip.length === 4 ? this.ipv4Start : 0;
+    for (let bit = 0; bit < ip.length * 8 && node < this.nodeCount; bit++) {
+      node = this.readRecord(node, (ip[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    // node == nodeCount: không có dữ liệu cho dải IP này
+    if (node <= this.nodeCount) {
+      return null;
+    }
+
+    const record = this.data.decode(
+      node - this.nodeCount - DATA_SECTION_SEPARATOR,
+    ).value;
+    return toGeoLocation(record);
+  }
+
+  private readRecord(node: number, bit: number): number {
+    const db = this.db;
+    switch (this.recordSize) {
+      case 24:
+        return db.readUIntBE(node * 6 + bit * 3, 3);
+      case 28: {
+        const offset = node * 7;
+        // Byte giữa chứa 4 bit cao của cả hai record
+        const middle = db[offset + 3];
+        return bit === 0
+          ? ((middle & 0xf0) << 20) | db.readUIntBE(offset, 3)
+          : ((middle & 0x0f) << 24) | db.readUIntBE(offset + 4, 3);
+      }
+      default:
+        return db.readUInt32BE(node * 8 + bit * 4);
+    }
+  }
+}
+
+// Không cấu hình file GeoIP: mọi IP đều không rõ vị trí
+export class NullGeoIpLookup implements IGeoIpLookup {
+  lookup(): GeoLocation | null {
+    return null;
+  }
+}
+
+export function createGeoIpLookup(databasePath: string): IGeoIpLookup {
+  if (!databasePath) {
+    return new NullGeoIpLookup();
+  }
+  try {
+    return MmdbGeoIpLookup.fromFile(databasePath);
+  } catch (error) {
+    // Thiếu file GeoIP không được chặn khởi động; chỉ mất tín hiệu vị trí
+    new Logger('GeoIpLookup').warn(
+      `Cannot load GeoIP database ${databasePath}: ${error.message}`,
+    );
+    return new NullGeoIpLookup();
+  }
+}
+
+function toGeoLocation(record: any): GeoLocation | null {
+  if (!record || typeof record !== 'object') {
+    return null;
+  }
+  return {
+    country:
+      record.country?.iso_code ?? record.registered_country?.iso_code ?? null,
+    city: record.city?.names?.en ?? null,
+    latitude: record.location?.latitude ?? null,
+    longitude: record.location?.longitude ?? null,
+  };
+}
+
+/**
+ * Giải mã data section của MMDB; offset tính từ đầu section (base)
+ */
+class MmdbDecoder {
+  constructor(
+    private readonly db: Buffer,
+    private readonly base: number,
+  ) {}
+
+  decode(offset: number): { value: any; next: number } {
+    const db = this.db;
+    let position = this.base + offset;
+    const control = db[position++];
+    let type = control >> 5;
+
+    // Pointer: giá trị nằm ở offset khác trong data section
+    if (type === 1) {
+      const size = (control >> 3) & 0x3;
+      const high = control & 0x7;
+      let pointer: number;
+      switch (size) {
+        case 0:
+          pointer = (high << 8) | db[position];
+          break;
+        case 1:
+          pointer = ((high << 16) | db.readUInt16BE(position)) + 2048;
+          break;
+        case 2:
+          pointer = high * 0x1000000 + db.readUIntBE(position, 3) + 526336;
+          break;
+        default:
+          pointer = db.readUInt32BE(position);
+      }
+      position += size + 1;
+      return { value: this.decode(pointer).value, next: position - this.base };
+    }
+
+    if (type === 0) {
+      type = 7 + db[position++];
+    }
+
+    let size = control & 0x1f;
+    if (size === 29) {
+      size = 29 + db[position++];
+    } else if (size === 30) {
+      size = 285 + db.readUInt16BE(position);
+      position += 2;
+    } else if (size === 31) {
+      size = 65821 + db.readUIntBE(position, 3);
+      position += 3;
+    }
+
+    let value: any;
+    switch (type) {
+      case 2: // utf8 string
+        value = db.toString('utf8', position, position + size);
+        position += size;
+        break;
+      case 3: // double
+        value = db.readDoubleBE(position);
+        position += 8;
+        break;
+      case 4: // bytes
+        value = db.subarray(position, position + size);
+        position += size;
+        break;
+      case 5: // uint16
+      case 6: // uint32
+      case 8: // int32
+      case 9: // uint64
+      case 10: // uint128
+        value = this.readUnsigned(position, size);
+        if (type === 8 && size === 4) {
+          value = db.readInt32BE(position);
+        }
+        position += size;
+        break;
+      case 7: {
+        // map
+        value = {};
+        let next = position - this.base;
+        for (let index = 0; index < size; index++) {
+          const key = this.decode(next);
+          const entry = this.decode(key.next);
+          value[key.value] = entry.value;
+          next = entry.next;
+        }
+        return { value, next };
+      }
+      case 11: {
+        // array
+        value = [];
+        let next = position - this.base;
+        for (let index = 0; index < size; index++) {
+          const entry = this.decode(next);
+          value.push(entry.value);
+          next = entry.next;
+        }
+        return { value, next };
+      }
+      case 14: // boolean: giá trị nằm trong size
+        value = size !== 0;
+        break;
+      case 15: // float
+        value = db.readFloatBE(position);
+        position += 4;
+        break;
+      default:
+        throw new Error(`Invalid MMDB file: unknown data type ${type}`);
+    }
+
+    return { value, next: position - this.base };
+  }
+
+  private readUnsigned(position: number, size: number): number | bigint {
+    if (size === 0) {
+      return 0;
+    }
+    if (size <= 6) {
+      return this.db.readUIntBE(position, size);
+    }
+    let value = BigInt(0);
+    for (let index = 0; index < size; index++) {
+      value = (value << BigInt(8)) | BigInt(this.db[position + index]);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,132 @@
+import { AppError } from '../../share';
+import { config } from '../../share/config';
+import { LoginAttemptService } from './login-attempt.service';
+
+// Redis trong bộ nhớ, chỉ gồm các lệnh LoginAttemptService dùng
+class FakeRedis {
+  values = new Map<string, number>();
+  expiries = new Map<string, number>();
+
+  async incr(key: string) {
+    const value = (this.values.get(key) ?? 0) + 1;
+    this.values.set(key, value);
+    return value;
+  }
+
+  async expire(key: string, seconds: number) {
+    this.expiries.set(key, seconds);
+    return 1;
+  }
+
+  async ttl(key: string) {
+    return this.values.has(key) ? (this.expiries.get(key) ?? -1) : -2;
+  }
+
+  async del(...keys: string[]) {
+    keys.forEach((key) => {
+      this.values.delete(key);
+      this.expiries.delete(key);
+    });
+    return keys.length;
+  }
+
+  multi() {
+    const commands: (() => Promise<unknown>)[] = [];
+    const chain = {
+      set: (key: string, _value: string, _ex: string, seconds: number) => {
+        commands.push(async () => {
+          this.values.set(key, 1);
+          this.expiries.set(key, seconds);
+        });
+        return chain;
+      },
+      del: (key: string) => {
+        commands.push(() => this.del(key));
+        return chain;
+      },
+      exec: () => Promise.all(commands.map((command) => command())),
+    };
+    return chain;
+  }
+}
+
+describe('LoginAttemptService', () => {
+  const { accountThreshold, baseLockSeconds } = config.loginLockout;
+  let redis: FakeRedis;
+  let service: LoginAttemptService;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    service = new LoginAttemptService(redis as any);
+  });
+
+  const fail = async (times: number, email = 'User@Example.com') => {
+    let result = { locked: false, lockedUntil: null as Date | null };
+    for (let i = 0; i < times; i++) {
+      result = await service.recordFailure(email, '10.0.0.1');
+    }
+    return result;
+  };
+
+  const lockError = async (email: string) =>
+    (await service
+      .assertNotLocked(email, '10.0.0.2')
+      .catch((e) => e)) as AppError;
+
+  it('locks the account once the threshold is reached', async () => {
+    expect((await fail(accountThreshold - 1)).locked).toBe(false);
+    await expect(
+      service.assertNotLocked('user@example.com', null),
+    ).resolves.toBeUndefined();
+
+    const result = await fail(1);
+    expect(result.locked).toBe(true);
+
+    const error = await lockError(' user@example.com ');
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(429);
+    expect(error.toJSON().details).toMatchObject({
+      retryAfter: baseLockSeconds,
+    });
+  });
+
+  it('doubles the lock duration on consecutive lockouts', async () => {
+    await fail(accountThreshold);
+    await service.unlock('user@example.com');
+    // unlock xóa cả bậc khóa, nên khóa lại bắt đầu từ thời gian cơ bản
+    await fail(accountThreshold);
+    await redis.del('auth:login:lock:account:user@example.com');
+    await fail(accountThreshold);
+
+    expect(await redis.ttl('auth:login:lock:account:user@example.com')).toBe(
+      baseLockSeconds * 2,
+    );
+  });
+
+  it('resets the account counter after a successful login', async () => {
+    await fail(accountThreshold - 1);
+    await service.recordSuccess('user@example.com');
+
+    expect((await fail(1)).locked).toBe(false);
+  });
+
+  it('fails open consistently when Redis is unavailable', async () => {
+    const broken = new Error('connection lost');
+    const brokenRedis = {
+      ttl: jest.fn().mockRejectedValue(broken),
+      incr: jest.fn().mockRejectedValue(broken),
+      del: jest.fn().mockRejectedValue(broken),
+    };
+    const brokenService = new LoginAttemptService(brokenRedis as any);
+
+    await expect(
+      brokenService.assertNotLocked('user@example.com', '10.0.0.1'),
+    ).resolves.toBeUndefined();
+    await expect(
+      brokenService.recordFailure('user@example.com', '10.0.0.1'),
+    ).resolves.toEqual({ locked: false, lockedUntil: null });
+    await expect(
+      brokenService.recordSuccess('user@example.com'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../common/redis/redis.constants';
+import { AppError } from '../../share';
+import { config } from '../../share/config';
+import { ILoginAttemptService, LoginFailureResult } from './auth.port';
+
+type LockScope = 'account' | 'ip';
+
+/**
+ * Đếm số lần đăng nhập sai theo tài khoản và theo IP trong Redis.
+ * Vượt ngưỡng sẽ bị khóa tạm thời; mỗi lần khóa liên tiếp thời gian khóa tăng gấp đôi.
+ * Redis lỗi thì bỏ qua lockout (ghi log) thay vì chặn toàn bộ luồng đăng nhập.
+ */
+@Injectable()
+export class LoginAttemptService implements ILoginAttemptService {
+  private readonly logger = new Logger(LoginAttemptService.name);
+  private readonly PREFIX = 'auth:login:';
+  // Bậc khóa được giữ lại một ngày để backoff không bị reset ngay sau khi hết khóa
+  private readonly LEVEL_TTL = 24 * 60 * 60;
+
+  constructor(@Inject(REDIS_CLIENT) private readonly redisClient: Redis) {}
+
+  async assertNotLocked(
+    email: string,
+    ipAddress: string | null,
+  ): Promise<void> {
+    const checks: [LockScope, string][] = [['account', this.normalize(email)]];
+    if (ipAddress) {
+      checks.push(['ip', ipAddress]);
+    }
+
+    for (const [scope, id] of checks) {
+      let ttl: number;
+      try {
+        ttl = await this.redisClient.ttl(this.key('lock', scope, id));
+      } catch (error) {
+        this.logger.error(
+          `Check login lock error: ${error.message}`,
+          error.stack,
+        );
+        return;
+      }
+      if (ttl > 0) {
+        throw AppError.from(
+          new Error('Too many failed login attempts. Please try again later.'),
+          429,
+        )
+          .withDetail('retryAfter', ttl)
+          .withDetail('lockedUntil', new Date(Date.now() + ttl * 1000));
+      }
+    }
+  }
+
+  async recordFailure(
+    email: string,
+    ipAddress: string | null,
+  ): Promise<LoginFailureResult> {
+    try {
+      const { accountThreshold, ipThreshold } = config.loginLockout;
+
+      const accountLock = await this.registerFailure(
+        'account',
+        this.normalize(email),
+        accountThreshold,
+      );
+      const ipLock = ipAddress
+        ? await this.registerFailure('ip', ipAddress, ipThreshold)
+        : null;
+
+      const lockedUntil = accountLock || ipLock;
+      return { locked: !!lockedUntil, lockedUntil };
+    } catch (error) {
+      this.logger.error(
+        `Record login failure error: ${error.message}`,
+        error.stack,
+      );
+      return { locked: false, lockedUntil: null };
+    }
+  }
+
+  async recordSuccess(email: string): Promise<void> {
+    const id = this.normalize(email);
+    try {
+      // Bộ đếm theo IP không reset để tránh dùng một tài khoản hợp lệ xóa dấu vết dò mật khẩu
+      await this.redisClient.del(
+        this.key('fail', 'account', id),
+        this.key('level', 'account', id),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Record login success error: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async unlock(email: string): Promise<void> {
+    const id = this.normalize(email);
+    await this.redisClient.del(
+      this.key('fail', 'account', id),
+      this.key('level', 'account', id),
+      this.key('lock', 'account', id),
+    );
+    this.logger.log(`Login lockout cleared for ${id}`);
+  }
+
+  private async registerFailure(
+    scope: LockScope,
+    id: string,
+    threshold: number,
+  ): Promise<Date | null> {
+    const { windowSeconds, baseLockSeconds, maxLockSeconds } =
+      config.loginLockout;
+    const failKey = this.key('fail', scope, id);
+
+    const count = await this.redisClient.incr(failKey);
+    if (count === 1) {
+      await this.redisClient.expire(failKey, windowSeconds);
+    }
+
+    if (count < threshold) {
+      return null;
+    }
+
+    const levelKey = this.key('level', scope, id);
+    const level = await this.redisClient.incr(levelKey);
+    await this.redisClient.expire(levelKey, this.LEVEL_TTL);
+
+    const lockSeconds = Math.min(
+      baseLockSeconds * Math.pow(2, level - 1),
+      maxLockSeconds,
+    );
+
+    await this.redisClient
+      .multi()
+      .set(this.key('lock', scope, id), '1', 'EX', lockSeconds)
+      .del(failKey)
+      .exec();
+
+    this.logger.warn(`Login locked for ${scope} ${id} for ${lockSeconds}s`);
+    return new Date(Date.now() + lockSeconds * 1000);
+  }
+
+  private key(kind: 'fail' | 'lock' | 'level', scope: LockScope, id: string) {
+    return `${this.PREFIX}${kind}:${scope}:${id}`;
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
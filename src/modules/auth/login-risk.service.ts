@@ -0,0 +1,337 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { LoginEvent } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { RequestContext } from '../../common/utils/request-context';
+import { config } from '../../share/config';
+import { EVENT_PUBLISHER } from '../../share/di-token';
+import {
+  EvtSuspiciousLogin,
+  SecurityEvent,
+  SuspiciousLoginPayload,
+} from '../../share/event';
+import { IEventPublisher } from '../../share/interface';
+import { PrismaService } from '../../share/prisma.service';
+import { EMAIL_SERVICE } from '../email/email.di-token';
+import { IEmailService } from '../email/email.port';
+import { DEVICE_SERVICE, GEOIP_LOOKUP } from './auth.di-token';
+import {
+  GeoLocation,
+  IDeviceService,
+  IGeoIpLookup,
+  ILoginRiskService,
+  LoginRiskAssessment,
+  LoginRiskReason,
+  LoginRiskUser,
+} from './auth.port';
+import { parseDevice } from './device.service';
+import { parseIp } from './geoip.lookup';
+
+// Điểm của từng dấu hiệu; cộng dồn rồi so với ngưỡng cảnh báo / step-up trong config
+const RISK_WEIGHTS: Record<LoginRiskReason, number> = {
+  new_device: 20,
+  new_network: 10,
+  new_country: 30,
+  impossible_travel: 50,
+  unusual_hour: 10,
+};
+
+// GeoIP chỉ chính xác ở mức thành phố; khoảng cách ngắn hơn không xét impossible travel
+const MIN_TRAVEL_KM = 500;
+const EARTH_RADIUS_KM = 6371;
+const HOUR_MS = 60 * 60 * 1000;
+
+const NO_RISK: LoginRiskAssessment = {
+  score: 0,
+  reasons: [],
+  location: null,
+  shouldAlert: false,
+  requiresStepUp: false,
+};
+
+/**
+ * Mạng của IP: /24 với IPv4, /48 với IPv6 (một nhà mạng/văn phòng thường
+ * đổi IP trong cùng dải)
+ */
+export function networkPrefix(ipAddress: string | null): string | null {
+  const ip = ipAddress ? parseIp(ipAddress) : null;
+  if (!ip) {
+    return null;
+  }
+  return ip.length === 4
+    ? `${ip[0]}.${ip[1]}.${ip[2]}.0/24`
+    : `${ip.subarray(0, 6).toString('hex')}/48`;
+}
+
+/**
+ * Đánh giá rủi ro đăng nhập bằng cách so với lịch sử đăng nhập của user:
+ * thiết bị lạ, dải IP/quốc gia mới, di chuyển bất khả thi, giờ bất thường
+ */
+@Injectable()
+export class LoginRiskService implements ILoginRiskService {
+  private readonly logger = new Logger(LoginRiskService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(GEOIP_LOOKUP) private readonly geoIp: IGeoIpLookup,
+    @Inject(DEVICE_SERVICE) private readonly deviceService: IDeviceService,
+    @Inject(EMAIL_SERVICE) private readonly emailService: IEmailService,
+    @Inject(EVENT_PUBLISHER) private readonly eventPublisher: IEventPublisher,
+  ) {}
+
+  async evaluate(
+    userId: string,
+    context?: RequestContext,
+  ): Promise<LoginRiskAssessment> {
+    try {
+      const ipAddress = context?.ipAddress ?? null;
+      const location = ipAddress ? this.geoIp.lookup(ipAddress) : null;
+
+      const history = await this.prisma.loginEvent.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: config.loginRisk.historySize,
+      });
+      // Lần đăng nhập đầu tiên: chưa có gì để so sánh
+      if (history.length === 0) {
+        return { ...NO_RISK, location };
+      }
+
+      const now = new Date();
+      const reasons: LoginRiskReason[] = [];
+
+      if (!(await this.deviceService.isKnown(userId, context))) {
+        reasons.push('new_device');
+      }
+
+      const prefix = networkPrefix(ipAddress);
+      const knownPrefixes = history
+        .map((event) => networkPrefix(event.ipAddress))
+        .filter(Boolean);
+      if (
+        prefix &&
+        knownPrefixes.length > 0 &&
+        !knownPrefixes.includes(prefix)
+      ) {
+        reasons.push('new_network');
+      }
+
+      const knownCountries = history
+        .map((event) => event.country)
+        .filter(Boolean);
+      if (
+        location?.country &&
+        knownCountries.length > 0 &&
+        !knownCountries.includes(location.country)
+      ) {
+        reasons.push('new_country');
+      }
+
+      if (this.isImpossibleTravel(history, location, now)) {
+        reasons.push('impossible_travel');
+      }
+
+      if (this.isUnusualHour(history, now)) {
+        reasons.push('unusual_hour');
+      }
+
+      const score = reasons.reduce(
+        (total, reason) => total + RISK_WEIGHTS[reason],
+        0,
+      );
+      return {
+        score,
+        reasons,
+        location,
+        shouldAlert: score >= config.loginRisk.alertScore,
+        requiresStepUp: score >= config.loginRisk.stepUpScore,
+      };
+    } catch (error) {
+      // Lỗi đánh giá không được chặn đăng nhập
+      this.logger.error(
+        `Evaluate login risk error: ${error.message}`,
+        error.stack,
+      );
+      return NO_RISK;
+    }
+  }
+
+  async recordLogin(
+    user: LoginRiskUser,
+    assessment: LoginRiskAssessment,
+    context?: RequestContext,
+    deviceId?: string | null,
+  ): Promise<void> {
+    try {
+      const reportToken = assessment.shouldAlert
+        ? randomBytes(32).toString('base64url')
+        : null;
+      const location = assessment.location;
+
+      const event = await this.prisma.loginEvent.create({
+        data: {
+          userId: user.id,
+          deviceId: deviceId ?? null,
+          ipAddress: context?.ipAddress ?? null,
+          country: location?.country ?? null,
+          city: location?.city ?? null,
+          latitude: location?.latitude ?? null,
+          longitude: location?.longitude ?? null,
+          riskScore: assessment.score,
+          riskReasons: assessment.reasons,
+          ...(reportToken && {
+            reportTokenHash: this.hashToken(reportToken),
+            reportTokenExpires: new Date(
+              Date.now() + config.loginRisk.reportTokenHours * HOUR_MS,
+            ),
+          }),
+        },
+      });
+
+      if (reportToken) {
+        await this.alert(user, event, assessment, context, reportToken);
+      }
+    } catch (error) {
+      this.logger.error(`Record login error: ${error.message}`, error.stack);
+    }
+  }
+
+  async consumeReportToken(token: string): Promise<string | null> {
+    const event = await this.prisma.loginEvent.findUnique({
+      where: { reportTokenHash: this.hashToken(token) },
+    });
+    if (
+      !event ||
+      event.reportedAt ||
+      !event.reportTokenExpires ||
+      event.reportTokenExpires <= new Date()
+    ) {
+      return null;
+    }
+
+    // Chỉ một request dùng được token
+    const { count } = await this.prisma.loginEvent.updateMany({
+      where: { id: event.id, reportedAt: null },
+      data: { reportedAt: new Date(), reportTokenHash: null },
+    });
+    return count === 1 ? event.userId : null;
+  }
+
+  // Helper methods
+
+  private isImpossibleTravel(
+    history: LoginEvent[],
+    location: GeoLocation | null,
+    now: Date,
+  ): boolean {
+    if (location?.latitude == null || location?.longitude == null) {
+      return false;
+    }
+    const previous = history.find(
+      (event) => event.latitude !== null && event.longitude !== null,
+    );
+    if (!previous) {
+      return false;
+    }
+
+    const distance = this.distanceKm(
+      previous.latitude as number,
+      previous.longitude as number,
+      location.latitude,
+      location.longitude,
+    );
+    if (distance < MIN_TRAVEL_KM) {
+      return false;
+    }
+    // Tối thiểu 1 phút để không chia cho 0
+    const hours = Math.max(
+      (now.getTime() - previous.createdAt.getTime()) / HOUR_MS,
+      1 / 60,
+    );
+    return distance / hours > config.loginRisk.maxTravelSpeedKmh;
+  }
+
+  // Không lần đăng nhập nào trước đây rơi vào khoảng ±1 giờ quanh giờ hiện tại
+  private isUnusualHour(history: LoginEvent[], now: Date): boolean {
+    if (history.length < config.loginRisk.minHourHistory) {
+      return false;
+    }
+    const hour = now.getUTCHours();
+    return !history.some((event) => {
+      const diff = Math.abs(event.createdAt.getUTCHours() - hour);
+      return Math.min(diff, 24 - diff) <= 1;
+    });
+  }
+
+  private distanceKm(
+    lat1: number,
+    lon1: number,
+    lat2: number,
+    lon2: number,
+  ): number {
+    const rad = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = rad(lat2 - lat1);
+    const dLon = rad(lon2 - lon1);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+
+  // Email kèm link "không phải tôi" + thông báo SECURITY trong app
+  private async alert(
+    user: LoginRiskUser,
+    event: LoginEvent,
+    assessment: LoginRiskAssessment,
+    context: RequestContext | undefined,
+    reportToken: string,
+  ): Promise<void> {
+    const device = parseDevice(context).deviceName ?? 'Unknown device';
+    const location = this.describeLocation(
+      assessment.location,
+      event.ipAddress,
+    );
+
+    await this.emailService.sendLoginNotificationEmail(
+      user.email,
+      user.name,
+      device,
+      location,
+      event.createdAt,
+      reportToken,
+    );
+
+    const payload: SuspiciousLoginPayload = {
+      userId: user.id,
+      loginEventId: event.id,
+      device,
+      location,
+      ipAddress: event.ipAddress,
+      reasons: assessment.reasons,
+      riskScore: assessment.score,
+    };
+    try {
+      await this.eventPublisher.publish(
+        new SecurityEvent(EvtSuspiciousLogin, payload, { senderId: user.id }),
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to publish ${EvtSuspiciousLogin} for ${event.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private describeLocation(
+    location: GeoLocation | null,
+    ipAddress: string | null,
+  ): string {
+    const place = [location?.city, location?.country]
+      .filter(Boolean)
+      .join(', ');
+    const ip = ipAddress ?? 'unknown IP';
+    return place ? `${place} (${ip})` : `Unknown location (${ip})`;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
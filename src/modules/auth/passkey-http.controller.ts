@@ -0,0 +1,140 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ReqWithRequester } from '../../share';
+import { RemoteAuthGuard } from '../../share/guard';
+import { ZodValidationPipe } from '../../share/pipes/zod-validation.pipe';
+import { extractRequestContext } from '../../common/utils/request-context';
+import {
+  PasskeyRegistrationDto,
+  passkeyRegistrationDtoSchema,
+} from './auth.dto';
+import { IPasskeyService } from './auth.port';
+import { PASSKEY_SERVICE } from './auth.di-token';
+
+// Quản lý passkey của chính user đăng nhập; đăng nhập bằng passkey nằm ở /auth/passkey
+@ApiTags('Passkeys')
+@Controller('users/me/passkeys')
+@UseGuards(RemoteAuthGuard)
+@ApiBearerAuth()
+export class PasskeyHttpController {
+  constructor(
+    @Inject(PASSKEY_SERVICE) private readonly passkeyService: IPasskeyService,
+  ) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'List passkeys of the current user' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Passkeys retrieved' })
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Unauthorized' })
+  async listPasskeys(@Request() req: ReqWithRequester) {
+    const passkeys = await this.passkeyService.listPasskeys(req.requester.sub);
+    return { success: true, data: { passkeys } };
+  }
+
+  @Post('options')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get WebAuthn options for navigator.credentials.create()',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Challenge issued' })
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Unauthorized' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Re-authentication required (POST /auth/reauthenticate)',
+  })
+  async getRegistrationOptions(@Request() req: ReqWithRequester) {
+    const options = await this.passkeyService.generateRegistrationOptions(
+      req.requester.sub,
+      req.requester.sid,
+    );
+    return { success: true, data: options };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Register a new passkey' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        challengeId: { type: 'string' },
+        name: { type: 'string', maxLength: 100 },
+        credential: {
+          type: 'object',
+          description: 'PublicKeyCredential.toJSON() from the browser',
+        },
+      },
+      required: ['challengeId', 'credential'],
+    },
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Passkey added' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid attestation or expired challenge',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Re-authentication required (POST /auth/reauthenticate)',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Passkey is already registered',
+  })
+  async registerPasskey(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(passkeyRegistrationDtoSchema))
+    dto: PasskeyRegistrationDto,
+  ) {
+    const passkey = await this.passkeyService.verifyRegistration(
+      req.requester.sub,
+      req.requester.sid,
+      dto,
+      extractRequestContext(req),
+    );
+    return { success: true, data: passkey };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove a passkey' })
+  @ApiParam({ name: 'id', description: 'Passkey ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Passkey removed' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Re-authentication required (POST /auth/reauthenticate)',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Passkey not found',
+  })
+  async removePasskey(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+  ) {
+    await this.passkeyService.removePasskey(
+      req.requester.sub,
+      req.requester.sid,
+      id,
+    );
+    return { success: true, message: 'Passkey has been removed successfully.' };
+  }
+}
@@ -0,0 +1,86 @@
+import { AppError } from '../../share';
+import { PasskeyService } from './passkey.service';
+
+describe('PasskeyService re-authentication', () => {
+  const prisma = {
+    user: {
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'user-1',
+        email: 'a@example.com',
+        name: 'A',
+        isActive: true,
+      }),
+    },
+    webAuthnCredential: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findFirst: jest.fn().mockResolvedValue({
+        id: 'passkey-1',
+        userId: 'user-1',
+        name: 'Laptop',
+      }),
+      delete: jest.fn().mockResolvedValue(undefined),
+    },
+  };
+  const redis = { set: jest.fn().mockResolvedValue('OK') };
+  const auditLogger = { log: jest.fn().mockResolvedValue(undefined) };
+  const sessionService = { isRecentlyAuthenticated: jest.fn() };
+  const emailService = { sendPasskeyAddedEmail: jest.fn() };
+
+  const service = new PasskeyService(
+    prisma as any,
+    redis as any,
+    auditLogger as any,
+    sessionService as any,
+    emailService as any,
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  const expectForbidden = async (promise: Promise<unknown>) => {
+    const error = (await promise.catch((e) => e)) as AppError;
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(403);
+  };
+
+  it('refuses to start registration without a session', async () => {
+    await expectForbidden(service.generateRegistrationOptions('user-1', null));
+    expect(sessionService.isRecentlyAuthenticated).not.toHaveBeenCalled();
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+
+  it('refuses registration and removal when the session is not fresh', async () => {
+    sessionService.isRecentlyAuthenticated.mockResolvedValue(false);
+
+    await expectForbidden(
+      service.generateRegistrationOptions('user-1', 'session-1'),
+    );
+    await expectForbidden(
+      service.verifyRegistration('user-1', 'session-1', {
+        challengeId: 'challenge',
+        credential: {} as any,
+      }),
+    );
+    await expectForbidden(
+      service.removePasskey('user-1', 'session-1', 'passkey-1'),
+    );
+    expect(sessionService.isRecentlyAuthenticated).toHaveBeenCalledWith(
+      'session-1',
+    );
+    expect(prisma.webAuthnCredential.delete).not.toHaveBeenCalled();
+  });
+
+  it('allows management right after re-authentication', async () => {
+    sessionService.isRecentlyAuthenticated.mockResolvedValue(true);
+
+    const options = await service.generateRegistrationOptions(
+      'user-1',
+      'session-1',
+    );
+    expect(options.challengeId).toEqual(expect.any(String));
+
+    await service.removePasskey('user-1', 'session-1', 'passkey-1');
+    expect(prisma.webAuthnCredential.delete).toHaveBeenCalledWith({
+      where: { id: 'passkey-1' },
+    });
+  });
+});
@@ -0,0 +1,442 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { WebAuthnCredential } from '@prisma/client';
+import { randomBytes, randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../common/redis/redis.constants';
+import {
+  getCurrentRequester,
+  RequestContext,
+} from '../../common/utils/request-context';
+import { AppError } from '../../share';
+import { config } from '../../share/config';
+import { AUDIT_LOGGER } from '../../share/di-token';
+import { IAuditLogger } from '../../share/interface';
+import { PrismaService } from '../../share/prisma.service';
+import { AuditAction } from '../audit/audit.model';
+import { EMAIL_SERVICE } from '../email/email.di-token';
+import { IEmailService } from '../email/email.port';
+import { SESSION_SERVICE } from './auth.di-token';
+import { PasskeyLoginDto, PasskeyRegistrationDto } from './auth.dto';
+import {
+  IPasskeyService,
+  ISessionService,
+  PasskeyCreationOptions,
+  PasskeyInfo,
+  PasskeyRequestOptions,
+} from './auth.port';
+import { parseDevice } from './device.service';
+import {
+  SUPPORTED_ALGORITHMS,
+  toBase64Url,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  WebAuthnExpectation,
+} from './webauthn.verifier';
+
+const CHALLENGE_PREFIX = 'webauthn:challenge:';
+
+interface StoredChallenge {
+  type: 'registration' | 'authentication';
+  challenge: string;
+  userId?: string;
+}
+
+/**
+ * Đăng ký và đăng nhập bằng passkey (WebAuthn). Challenge lưu trong Redis,
+ * dùng một lần và hết hạn sau config.webauthn.challengeTtlSeconds
+ */
+@Injectable()
+export class PasskeyService implements IPasskeyService {
+  private readonly logger = new Logger(PasskeyService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(REDIS_CLIENT) private readonly redisClient: Redis,
+    @Inject(AUDIT_LOGGER) private readonly auditLogger: IAuditLogger,
+    @Inject(SESSION_SERVICE) private readonly sessionService: ISessionService,
+    @Inject(EMAIL_SERVICE) private readonly emailService: IEmailService,
+  ) {}
+
+  async generateRegistrationOptions(
+    userId: string,
+    sessionId: string | null | undefined,
+  ): Promise<PasskeyCreationOptions> {
+    try {
+      await this.assertRecentlyAuthenticated(sessionId);
+
+      const user = await this.prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, name: true, isActive: true },
+      });
+      if (!user || !user.isActive) {
+        throw AppError.from(new Error('User not found'), 404);
+      }
+
+      const existing = await this.prisma.webAuthnCredential.findMany({
+        where: { userId },
+        select: { credentialId: true, transports: true },
+      });
+
+      const { challengeId, challenge } = await this.createChallenge({
+        type: 'registration',
+        userId,
+      });
+
+      return {
+        challengeId,
+        publicKey: {
+          rp: { id: config.webauthn.rpId, name: config.webauthn.rpName },
+          user: {
+            id: this.userHandle(user.id),
+            name: user.email,
+            displayName: user.name || user.email,
+          },
+          challenge,
+          pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({
+            type: 'public-key' as const,
+            alg,
+          })),
+          timeout: config.webauthn.challengeTtlSeconds * 1000,
+          attestation: 'none',
+          authenticatorSelection: {
+            residentKey: 'required',
+            requireResidentKey: true,
+            userVerification: 'required',
+          },
+          // Không cho đăng ký lại passkey đã có trên cùng authenticator
+          excludeCredentials: existing.map((credential) => ({
+            type: 'public-key' as const,
+            id: credential.credentialId,
+            transports: credential.transports,
+          })),
+        },
+      };
+    } catch (error) {
+      this.logger.error(
+        `Generate passkey registration options error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to start passkey registration: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async verifyRegistration(
+    userId: string,
+    sessionId: string | null | undefined,
+    dto: PasskeyRegistrationDto,
+    context?: RequestContext,
+  ): Promise<PasskeyInfo> {
+    try {
+      await this.assertRecentlyAuthenticated(sessionId);
+
+      const stored = await this.consumeChallenge(dto.challengeId);
+      if (
+        !stored ||
+        stored.type !== 'registration' ||
+        stored.userId !== userId
+      ) {
+        throw AppError.from(new Error('Invalid or expired challenge'), 400);
+      }
+
+      const verified = verifyRegistrationResponse(
+        dto.credential.response,
+        this.expectation(stored.challenge),
+      );
+      if (verified.credentialId !== dto.credential.id) {
+        throw AppError.from(new Error('Credential ID mismatch'), 400);
+      }
+
+      const duplicate = await this.prisma.webAuthnCredential.findUnique({
+        where: { credentialId: verified.credentialId },
+        select: { id: true },
+      });
+      if (duplicate) {
+        throw AppError.from(new Error('Passkey is already registered'), 409);
+      }
+
+      const credential = await this.prisma.webAuthnCredential.create({
+        data: {
+          userId,
+          credentialId: verified.credentialId,
+          publicKey: verified.publicKey,
+          signCount: verified.signCount,
+          transports: dto.credential.response.transports ?? [],
+          aaguid: verified.aaguid,
+          name: dto.name ?? this.defaultName(context),
+          backupEligible: verified.backupEligible,
+          backedUp: verified.backedUp,
+        },
+      });
+
+      await this.audit(AuditAction.PASSKEY_REGISTER, credential, {
+        name: credential.name,
+        backedUp: credential.backedUp,
+      });
+      this.notifyPasskeyAdded(credential, context);
+
+      return this.toPasskeyInfo(credential);
+    } catch (error) {
+      this.logger.error(
+        `Verify passkey registration error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to register passkey: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async generateAuthenticationOptions(): Promise<PasskeyRequestOptions> {
+    try {
+      const { challengeId, challenge } = await this.createChallenge({
+        type: 'authentication',
+      });
+
+      return {
+        challengeId,
+        publicKey: {
+          rpId: config.webauthn.rpId,
+          challenge,
+          timeout: config.webauthn.challengeTtlSeconds * 1000,
+          userVerification: 'required',
+        },
+      };
+    } catch (error) {
+      this.logger.error(
+        `Generate passkey authentication options error: ${error.message}`,
+        error.stack,
+      );
+      throw AppError.from(
+        new Error(`Failed to start passkey login: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async verifyAuthentication(
+    dto: PasskeyLoginDto,
+  ): Promise<{ userId: string; passkeyId: string }> {
+    const stored = await this.consumeChallenge(dto.challengeId);
+    if (!stored || stored.type !== 'authentication') {
+      throw AppError.from(new Error('Invalid or expired challenge'), 401);
+    }
+
+    const credential = await this.prisma.webAuthnCredential.findUnique({
+      where: { credentialId: dto.credential.id },
+    });
+    if (!credential) {
+      throw AppError.from(new Error('Passkey not recognized'), 401);
+    }
+    // userHandle do authenticator trả về phải khớp chủ credential
+    const userHandle = dto.credential.response.userHandle;
+    if (userHandle && userHandle !== this.userHandle(credential.userId)) {
+      throw AppError.from(new Error('Passkey not recognized'), 401);
+    }
+
+    const verified = verifyAuthenticationResponse(
+      dto.credential.response,
+      {
+        publicKey: Buffer.from(credential.publicKey),
+        signCount: Number(credential.signCount),
+      },
+      this.expectation(stored.challenge),
+    );
+
+    // signCount đổi giữa lúc đọc và lúc ghi = passkey vừa được dùng ở request khác
+    const { count } = await this.prisma.webAuthnCredential.updateMany({
+      where: { id: credential.id, signCount: credential.signCount },
+      data: {
+        signCount: verified.signCount,
+        backedUp: verified.backedUp,
+        lastUsedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      throw AppError.from(new Error('Passkey sign counter mismatch'), 401);
+    }
+
+    return { userId: credential.userId, passkeyId: credential.id };
+  }
+
+  async listPasskeys(userId: string): Promise<PasskeyInfo[]> {
+    try {
+      const credentials = await this.prisma.webAuthnCredential.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      });
+      return credentials.map((credential) => this.toPasskeyInfo(credential));
+    } catch (error) {
+      this.logger.error(`List passkeys error: ${error.message}`, error.stack);
+      throw AppError.from(
+        new Error(`Failed to list passkeys: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async removePasskey(
+    userId: string,
+    sessionId: string | null | undefined,
+    passkeyId: string,
+  ): Promise<void> {
+    try {
+      await this.assertRecentlyAuthenticated(sessionId);
+
+      const credential = await this.prisma.webAuthnCredential.findFirst({
+        where: { id: passkeyId, userId },
+      });
+      if (!credential) {
+        throw AppError.from(new Error('Passkey not found'), 404);
+      }
+
+      await this.prisma.webAuthnCredential.delete({
+        where: { id: credential.id },
+      });
+
+      await this.audit(AuditAction.PASSKEY_REMOVE, credential, {
+        name: credential.name,
+      });
+    } catch (error) {
+      this.logger.error(`Remove passkey error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to remove passkey: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  // Helper methods
+
+  // Access token bị lộ không đủ để thêm passkey (= chiếm tài khoản lâu dài)
+  private async assertRecentlyAuthenticated(
+    sessionId: string | null | undefined,
+  ): Promise<void> {
+    if (
+      !sessionId ||
+      !(await this.sessionService.isRecentlyAuthenticated(sessionId))
+    ) {
+      throw AppError.from(
+        new Error(
+          'Recent authentication required, confirm your password or 2FA code first',
+        ),
+        403,
+      );
+    }
+  }
+
+  // Không chặn việc đăng ký khi gửi email lỗi
+  private notifyPasskeyAdded(
+    credential: WebAuthnCredential,
+    context?: RequestContext,
+  ): void {
+    this.prisma.user
+      .findUnique({
+        where: { id: credential.userId },
+        select: { email: true, name: true },
+      })
+      .then((user) =>
+        user
+          ? this.emailService.sendPasskeyAddedEmail(
+              user.email,
+              user.name,
+              credential.name,
+              context?.userAgent || 'Unknown device',
+              credential.createdAt,
+            )
+          : undefined,
+      )
+      .catch((error) =>
+        this.logger.error(
+          `Failed to send passkey notification: ${error.message}`,
+          error.stack,
+        ),
+      );
+  }
+
+  private async createChallenge(
+    data: Omit<StoredChallenge, 'challenge'>,
+  ): Promise<{ challengeId: string; challenge: string }> {
+    const challengeId = randomUUID();
+    const challenge = toBase64Url(randomBytes(32));
+    await this.redisClient.set(
+      `${CHALLENGE_PREFIX}${challengeId}`,
+      JSON.stringify({ ...data, challenge }),
+      'EX',
+      config.webauthn.challengeTtlSeconds,
+    );
+    return { challengeId, challenge };
+  }
+
+  // Đọc và xóa trong cùng transaction để challenge chỉ dùng được một lần
+  private async consumeChallenge(
+    challengeId: string,
+  ): Promise<StoredChallenge | null> {
+    const key = `${CHALLENGE_PREFIX}${challengeId}`;
+    const result = await this.redisClient.multi().get(key).del(key).exec();
+    const [error, value] = result?.[0] ?? [];
+    if (error || typeof value !== 'string') {
+      return null;
+    }
+    try {
+      return JSON.parse(value) as StoredChallenge;
+    } catch {
+      return null;
+    }
+  }
+
+  private expectation(challenge: string): WebAuthnExpectation {
+    return {
+      challenge,
+      origins: config.webauthn.origins,
+      rpId: config.webauthn.rpId,
+      requireUserVerification: true,
+    };
+  }
+
+  // WebAuthn user.id: không chứa email/tên, chỉ là id nội bộ
+  private userHandle(userId: string): string {
+    return toBase64Url(Buffer.from(userId, 'utf8'));
+  }
+
+  private defaultName(context?: RequestContext): string {
+    return parseDevice(context).deviceName ?? 'Passkey';
+  }
+
+  private toPasskeyInfo(credential: WebAuthnCredential): PasskeyInfo {
+    return {
+      id: credential.id,
+      name: credential.name,
+      transports: credential.transports,
+      backedUp: credential.backedUp,
+      createdAt: credential.createdAt,
+      lastUsedAt: credential.lastUsedAt,
+    };
+  }
+
+  private async audit(
+    action: AuditAction,
+    credential: WebAuthnCredential,
+    metadata: Record<string, unknown>,
+  ): Promise<void> {
+    await this.auditLogger.log({
+      actor: getCurrentRequester(),
+      action,
+      entityType: 'WebAuthnCredential',
+      entityId: credential.id,
+      metadata: { userId: credential.userId, ...metadata },
+    });
+  }
+}
@@ -0,0 +1,250 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../common/redis/redis.constants';
+import { RequestContext } from '../../common/utils/request-context';
+import { AppError } from '../../share';
+import { config } from '../../share/config';
+import { EVENT_PUBLISHER } from '../../share/di-token';
+import {
+  EvtSessionRevoked,
+  SecurityEvent,
+  SessionRevokedPayload,
+} from '../../share/event';
+import { IEventPublisher, ISessionValidator } from '../../share/interface';
+import { PrismaService } from '../../share/prisma.service';
+import { ISessionService, Session, SessionRevokeFilter } from './auth.port';
+
+const STATE_PREFIX = 'session:state:';
+const TOUCH_PREFIX = 'session:touch:';
+const REAUTH_PREFIX = 'session:reauth:';
+// Session còn hoạt động chỉ cache ngắn; session đã thu hồi giữ đến khi access token cuối hết hạn
+const ACTIVE_STATE_TTL = 60;
+const REVOKED_STATE_TTL = 3600;
+
+/**
+ * Phiên đăng nhập: access token mang `sid` nên thu hồi session là token
+ * bị từ chối ngay, không phải chờ hết hạn
+ */
+@Injectable()
+export class SessionService implements ISessionService, ISessionValidator {
+  private readonly logger = new Logger(SessionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(REDIS_CLIENT) private readonly redisClient: Redis,
+    @Inject(EVENT_PUBLISHER) private readonly eventPublisher: IEventPublisher,
+  ) {}
+
+  async isActive(sessionId: string): Promise<boolean> {
+    const cached = await this.redisClient
+      .get(`${STATE_PREFIX}${sessionId}`)
+      .catch((error) => {
+        this.logger.error(`Read session state error: ${error.message}`);
+        return null;
+      });
+    if (cached !== null) {
+      return cached === '1';
+    }
+
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { isActive: true, expiresAt: true },
+    });
+    const active =
+      !!session && session.isActive && session.expiresAt > new Date();
+    await this.cacheState(sessionId, active);
+    return active;
+  }
+
+  async touch(
+    sessionId: string,
+    context?: RequestContext | null,
+  ): Promise<void> {
+    try {
+      // Chỉ request đầu tiên trong mỗi khoảng được ghi DB
+      const acquired = await this.redisClient.set(
+        `${TOUCH_PREFIX}${sessionId}`,
+        '1',
+        'EX',
+        config.session.touchIntervalSeconds,
+        'NX',
+      );
+      if (acquired !== 'OK') {
+        return;
+      }
+
+      await this.prisma.session.updateMany({
+        where: { id: sessionId, isActive: true },
+        data: {
+          lastUsedAt: new Date(),
+          ...(context?.ipAddress && { ipAddress: context.ipAddress }),
+        },
+      });
+    } catch (error) {
+      // Không critical, chỉ log
+      this.logger.error(`Touch session error: ${error.message}`, error.stack);
+    }
+  }
+
+  async validate(
+    sessionId: string,
+    context?: RequestContext | null,
+  ): Promise<boolean> {
+    if (!(await this.isActive(sessionId))) {
+      return false;
+    }
+    await this.touch(sessionId, context);
+    return true;
+  }
+
+  async listSessions(
+    userId: string,
+    currentSessionId?: string | null,
+  ): Promise<Session[]> {
+    const sessions = await this.prisma.session.findMany({
+      where: {
+        userId,
+        isActive: true,
+        expiresAt: { gt: new Date() },
+      },
+      include: {
+        device: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userId: session.userId,
+      deviceId: session.deviceId,
+      deviceInfo: session.device
+        ? `${session.device.deviceName} (${session.device.deviceType})`
+        : 'Unknown device',
+      ipAddress: session.ipAddress || 'Unknown',
+      lastActive: session.lastUsedAt,
+      createdAt: session.createdAt,
+      expiresAt: session.expiresAt,
+      current: !!currentSessionId && session.id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const count = await this.revokeSessions(userId, {
+      sessionIds: [sessionId],
+    });
+    if (count === 0) {
+      throw AppError.from(new Error('Session not found'), 404);
+    }
+  }
+
+  async revokeSessions(
+    userId: string,
+    filter: SessionRevokeFilter = {},
+  ): Promise<number> {
+    const sessionIds = await this.prisma.$transaction(async (tx) => {
+      const sessions = await tx.session.findMany({
+        where: {
+          userId,
+          ...(filter.sessionIds && { id: { in: filter.sessionIds } }),
+          ...(filter.deviceId && { deviceId: filter.deviceId }),
+        },
+        select: { id: true },
+      });
+      const ids = sessions
+        .map((session) => session.id)
+        .filter((id) => id !== filter.exceptSessionId);
+
+      // Thu hồi theo cả user thì gồm cả refresh token không gắn session
+      const userWide = !filter.sessionIds && !filter.deviceId;
+      let tokenScope: Prisma.RefreshTokenWhereInput = {
+        sessionId: { in: ids },
+      };
+      if (userWide) {
+        tokenScope = filter.exceptSessionId
+          ? {
+              OR: [
+                { sessionId: null },
+                { sessionId: { not: filter.exceptSessionId } },
+              ],
+            }
+          : {};
+      }
+
+      // Session bị xóa thì refresh token chỉ mất liên kết (SetNull), phải thu hồi trước
+      await tx.refreshToken.updateMany({
+        where: { userId, revokedAt: null, ...tokenScope },
+        data: { revokedAt: new Date() },
+      });
+      await tx.session.deleteMany({ where: { id: { in: ids } } });
+
+      return ids;
+    });
+
+    await Promise.all(sessionIds.map((id) => this.cacheState(id, false)));
+    if (sessionIds.length > 0) {
+      await this.publishRevoked(userId, sessionIds);
+    }
+    return sessionIds.length;
+  }
+
+  async markAuthenticated(sessionId: string): Promise<void> {
+    await this.redisClient.set(
+      `${REAUTH_PREFIX}${sessionId}`,
+      '1',
+      'EX',
+      config.session.reauthWindowSeconds,
+    );
+  }
+
+  async isRecentlyAuthenticated(sessionId: string): Promise<boolean> {
+    if (await this.redisClient.exists(`${REAUTH_PREFIX}${sessionId}`)) {
+      return this.isActive(sessionId);
+    }
+
+    // Session vừa tạo = vừa đăng nhập; refresh token không làm mới createdAt
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { isActive: true, expiresAt: true, createdAt: true },
+    });
+    return (
+      !!session &&
+      session.isActive &&
+      session.expiresAt > new Date() &&
+      Date.now() - session.createdAt.getTime() <
+        config.session.reauthWindowSeconds * 1000
+    );
+  }
+
+  // Helper methods
+
+  private async cacheState(sessionId: string, active: boolean): Promise<void> {
+    try {
+      await this.redisClient.set(
+        `${STATE_PREFIX}${sessionId}`,
+        active ? '1' : '0',
+        'EX',
+        active ? ACTIVE_STATE_TTL : REVOKED_STATE_TTL,
+      );
+    } catch (error) {
+      this.logger.error(`Cache session state error: ${error.message}`);
+    }
+  }
+
+  private async publishRevoked(
+    userId: string,
+    sessionIds: string[],
+  ): Promise<void> {
+    const payload: SessionRevokedPayload = { userId, sessionIds };
+    try {
+      await this.eventPublisher.publish(
+        new SecurityEvent(EvtSessionRevoked, payload, { senderId: userId }),
+      );
+    } catch (error) {
+      // Socket vẫn bị chặn ở message kế tiếp vì WsJwtGuard kiểm tra lại session
+      this.logger.warn(
+        `Failed to publish ${EvtSessionRevoked} for user ${userId}: ${error.message}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { config } from '../../share/config';
+import { SocialNonceService } from './social-nonce.service';
+
+// Redis trong bộ nhớ, chỉ gồm các lệnh SocialNonceService dùng
+class FakeRedis {
+  expiries = new Map<string, number>();
+
+  async set(
+    key: string,
+    _value: string,
+    unit: string,
+    ttl: number,
+    nx?: string,
+  ) {
+    if (nx === 'NX' && this.expiries.has(key)) {
+      return null;
+    }
+    this.expiries.set(key, unit === 'EX' ? ttl * 1000 : ttl);
+    return 'OK';
+  }
+
+  multi() {
+    const commands: (() => number)[] = [];
+    const chain = {
+      pttl: (key: string) => {
+        commands.push(() => this.expiries.get(key) ?? -2);
+        return chain;
+      },
+      del: (key: string) => {
+        commands.push(() => (this.expiries.delete(key) ? 1 : 0));
+        return chain;
+      },
+      exec: async () => commands.map((command) => [null, command()]),
+    };
+    return chain;
+  }
+}
+
+describe('SocialNonceService', () => {
+  let redis: FakeRedis;
+  let service: SocialNonceService;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    service = new SocialNonceService(redis as any);
+  });
+
+  it('issues a random nonce that expires after the configured TTL', async () => {
+    const first = await service.issue();
+    const second = await service.issue();
+
+    expect(first.nonce).not.toBe(second.nonce);
+    expect(first.expiresIn).toBe(config.oauth.nonceTtlSeconds);
+    expect(redis.expiries.get(`auth:social-nonce:${first.nonce}`)).toBe(
+      config.oauth.nonceTtlSeconds * 1000,
+    );
+  });
+
+  it('consumes a nonce only once', async () => {
+    const { nonce } = await service.issue();
+
+    await expect(service.consume(nonce)).resolves.toBe(
+      config.oauth.nonceTtlSeconds * 1000,
+    );
+    await expect(service.consume(nonce)).resolves.toBeNull();
+  });
+
+  it('rejects a nonce the server never issued', async () => {
+    await expect(service.consume('client-made-up')).resolves.toBeNull();
+  });
+
+  it('restores a consumed nonce with its remaining lifetime', async () => {
+    const { nonce } = await service.issue();
+    const ttl = await service.consume(nonce);
+
+    await service.restore(nonce, ttl!);
+
+    await expect(service.consume(nonce)).resolves.toBe(ttl);
+  });
+});
@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import Redis from 'ioredis';
+import { REDIS_CLIENT } from '../../common/redis/redis.constants';
+import { config } from '../../share/config';
+import { ISocialNonceService, SocialNonce } from './auth.port';
+
+const NONCE_PREFIX = 'auth:social-nonce:';
+
+/**
+ * Nonce client gửi cho nhà cung cấp khi xin ID token. Server cấp và consume
+ * nên một ID token bị lộ không phát lại được
+ */
+@Injectable()
+export class SocialNonceService implements ISocialNonceService {
+  constructor(@Inject(REDIS_CLIENT) private readonly redisClient: Redis) {}
+
+  async issue(): Promise<SocialNonce> {
+    const nonce = randomBytes(32).toString('base64url');
+    await this.redisClient.set(
+      `${NONCE_PREFIX}${nonce}`,
+      '1',
+      'EX',
+      config.oauth.nonceTtlSeconds,
+    );
+    return { nonce, expiresIn: config.oauth.nonceTtlSeconds };
+  }
+
+  // Đọc thời hạn và xóa trong cùng transaction để nonce chỉ dùng được một lần
+  async consume(nonce: string): Promise<number | null> {
+    const key = `${NONCE_PREFIX}${nonce}`;
+    const result = await this.redisClient.multi().pttl(key).del(key).exec();
+    const [, ttl] = result?.[0] ?? [];
+    const [, deleted] = result?.[1] ?? [];
+    if (deleted !== 1 || typeof ttl !== 'number' || ttl <= 0) {
+      return null;
+    }
+    return ttl;
+  }
+
+  async restore(nonce: string, ttlMs: number): Promise<void> {
+    await this.redisClient.set(
+      `${NONCE_PREFIX}${nonce}`,
+      '1',
+      'PX',
+      ttlMs,
+      'NX',
+    );
+  }
+}
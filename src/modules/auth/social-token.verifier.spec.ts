@@ -0,0 +1,125 @@
+import { generateKeyPairSync } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { AppError } from '../../share';
+import { JsonWebKey } from './auth.port';
+import { AuthProvider } from './auth.types';
+import { OidcTokenVerifier, StaticJwksProvider } from './social-token.verifier';
+
+describe('OidcTokenVerifier', () => {
+  const signingKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = {
+    ...signingKey.publicKey.export({ format: 'jwk' }),
+    kid: 'key-1',
+    use: 'sig',
+  } as JsonWebKey;
+
+  const verifier = new OidcTokenVerifier(
+    {
+      provider: AuthProvider.GOOGLE,
+      issuers: ['https://accounts.google.com'],
+      audiences: ['client-1'],
+      jwksUri: 'https://example.com/jwks',
+      clockToleranceSeconds: 0,
+    },
+    new StaticJwksProvider([jwk]),
+  );
+
+  const sign = (
+    claims: Record<string, unknown> = {},
+    options: jwt.SignOptions = {},
+    key = signingKey.privateKey,
+  ) =>
+    jwt.sign(
+      {
+        sub: 'google-user-1',
+        email: 'user@example.com',
+        email_verified: true,
+        exp: Math.floor(Date.now() / 1000) + 300,
+        ...claims,
+      },
+      key,
+      {
+        algorithm: 'RS256',
+        keyid: 'key-1',
+        issuer: 'https://accounts.google.com',
+        audience: 'client-1',
+        ...options,
+      },
+    );
+
+  const rejection = async (token: string, nonce?: string) => {
+    const error = (await verifier
+      .verify(token, { nonce })
+      .catch((e) => e)) as AppError;
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(401);
+    return error.message;
+  };
+
+  it('returns the identity of a valid token', async () => {
+    await expect(
+      verifier.verify(sign({ nonce: 'n-1' }), { nonce: 'n-1' }),
+    ).resolves.toEqual({
+      provider: AuthProvider.GOOGLE,
+      providerAccountId: 'google-user-1',
+      email: 'user@example.com',
+      emailVerified: true,
+      name: null,
+      image: null,
+    });
+  });
+
+  it('rejects a token signed by another key', async () => {
+    expect(await rejection(sign({}, {}, otherKey.privateKey))).toContain(
+      'invalid signature',
+    );
+  });
+
+  it('rejects a token from another issuer', async () => {
+    expect(
+      await rejection(sign({}, { issuer: 'https://evil.example.com' })),
+    ).toContain('jwt issuer invalid');
+  });
+
+  it('rejects a token issued for another client', async () => {
+    expect(await rejection(sign({}, { audience: 'client-2' }))).toContain(
+      'jwt audience invalid',
+    );
+  });
+
+  it('rejects an expired token', async () => {
+    const exp = Math.floor(Date.now() / 1000) - 60;
+    expect(await rejection(sign({ exp }))).toContain('jwt expired');
+  });
+
+  it('rejects a token without an expiry', async () => {
+    const token = jwt.sign({ sub: 'google-user-1' }, signingKey.privateKey, {
+      algorithm: 'RS256',
+      keyid: 'key-1',
+      issuer: 'https://accounts.google.com',
+      audience: 'client-1',
+    });
+    expect(await rejection(token)).toBe('ID token has no expiry');
+  });
+
+  it('rejects a nonce that does not match', async () => {
+    const token = sign({ nonce: 'n-1' });
+
+    expect(await rejection(token, 'n-2')).toContain('nonce mismatch');
+    // Token gắn nonce mà client không gửi nonce cũng bị từ chối
+    expect(await rejection(token)).toContain('nonce mismatch');
+    expect(await rejection(sign(), 'n-1')).toContain('nonce mismatch');
+  });
+
+  it('rejects algorithms outside the allowlist and unknown keys', async () => {
+    const hmac = jwt.sign({ sub: 'x' }, 'shared-secret', {
+      algorithm: 'HS256',
+      keyid: 'key-1',
+    });
+    expect(await rejection(hmac)).toContain('Unsupported token algorithm');
+    expect(await rejection(sign({}, { keyid: 'key-2' }))).toBe(
+      'Signing key not found',
+    );
+  });
+});
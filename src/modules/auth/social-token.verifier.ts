@@ -0,0 +1,242 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { createPublicKey, timingSafeEqual } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { AppError } from '../../share';
+import { config } from '../../share/config';
+import {
+  IJwksProvider,
+  ISocialTokenVerifier,
+  JsonWebKey,
+  SocialIdentity,
+  SocialVerifyOptions,
+} from './auth.port';
+import { AuthProvider } from './auth.types';
+
+/**
+ * Lấy JWKS qua HTTP và cache trong bộ nhớ theo từng URI.
+ * Khi gặp `kid` chưa biết sẽ tải lại một lần để xử lý việc nhà cung cấp xoay khóa.
+ */
+@Injectable()
+export class HttpJwksProvider implements IJwksProvider {
+  private readonly logger = new Logger(HttpJwksProvider.name);
+  private readonly cache = new Map<
+    string,
+    { keys: JsonWebKey[]; expiresAt: number }
+  >();
+
+  constructor(private readonly ttlSeconds: number = 3600) {}
+
+  async getSigningKey(jwksUri: string, kid?: string): Promise<JsonWebKey> {
+    let keys = await this.getKeys(jwksUri, false);
+    let key = this.findKey(keys, kid);
+
+    if (!key) {
+      keys = await this.getKeys(jwksUri, true);
+      key = this.findKey(keys, kid);
+    }
+
+    if (!key) {
+      throw AppError.from(new Error('Signing key not found'), 401);
+    }
+
+    return key;
+  }
+
+  private async getKeys(
+    jwksUri: string,
+    forceRefresh: boolean,
+  ): Promise<JsonWebKey[]> {
+    const cached = this.cache.get(jwksUri);
+    if (!forceRefresh && cached && cached.expiresAt > Date.now()) {
+      return cached.keys;
+    }
+
+    try {
+      const { data } = await axios.get(jwksUri, { timeout: 5000 });
+      const keys: JsonWebKey[] = Array.isArray(data?.keys) ? data.keys : [];
+      this.cache.set(jwksUri, {
+        keys,
+        expiresAt: Date.now() + this.ttlSeconds * 1000,
+      });
+      return keys;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch JWKS from ${jwksUri}: ${error.message}`,
+        error.stack,
+      );
+      if (cached) {
+        return cached.keys;
+      }
+      throw AppError.from(
+        new Error('Unable to fetch provider signing keys'),
+        503,
+      );
+    }
+  }
+
+  private findKey(keys: JsonWebKey[], kid?: string): JsonWebKey | undefined {
+    const signingKeys = keys.filter((k) => !k.use || k.use === 'sig');
+    if (!kid) {
+      return signingKeys.length === 1 ? signingKeys[0] : undefined;
+    }
+    return signingKeys.find((k) => k.kid === kid);
+  }
+}
+
+/**
+ * JWKS cố định trong bộ nhớ, dùng cho môi trường test hoặc IdP nội bộ
+ */
+export class StaticJwksProvider implements IJwksProvider {
+  constructor(private readonly keys: JsonWebKey[]) {}
+
+  async getSigningKey(_jwksUri: string, kid?: string): Promise<JsonWebKey> {
+    const key = kid
+      ? this.keys.find((k) => k.kid === kid)
+      : this.keys.length === 1
+        ? this.keys[0]
+        : undefined;
+
+    if (!key) {
+      throw AppError.from(new Error('Signing key not found'), 401);
+    }
+
+    return key;
+  }
+}
+
+export interface OidcProviderConfig {
+  provider: AuthProvider;
+  issuers: string[];
+  audiences: string[];
+  jwksUri: string;
+  algorithms?: jwt.Algorithm[];
+  clockToleranceSeconds?: number;
+}
+
+/**
+ * Xác minh ID token OIDC: chữ ký theo JWKS, issuer, audience và thời hạn
+ */
+export class OidcTokenVerifier implements ISocialTokenVerifier {
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly providerConfig: OidcProviderConfig,
+    private readonly jwksProvider: IJwksProvider,
+  ) {
+    this.logger = new Logger(`OidcTokenVerifier:${providerConfig.provider}`);
+  }
+
+  get provider(): AuthProvider {
+    return this.providerConfig.provider;
+  }
+
+  async verify(
+    idToken: string,
+    options: SocialVerifyOptions = {},
+  ): Promise<SocialIdentity> {
+    const algorithms = this.providerConfig.algorithms || ['RS256'];
+
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw AppError.from(new Error('Malformed ID token'), 401);
+    }
+
+    const alg = decoded.header.alg as jwt.Algorithm;
+    if (!algorithms.includes(alg)) {
+      throw AppError.from(
+        new Error(`Unsupported token algorithm: ${decoded.header.alg}`),
+        401,
+      );
+    }
+
+    const jwk = await this.jwksProvider.getSigningKey(
+      this.providerConfig.jwksUri,
+      decoded.header.kid,
+    );
+
+    let claims: jwt.JwtPayload;
+    try {
+      const publicKey = createPublicKey({ key: jwk, format: 'jwk' });
+      claims = jwt.verify(idToken, publicKey, {
+        algorithms: [alg],
+        issuer: this.providerConfig.issuers as [string, ...string[]],
+        audience: this.providerConfig.audiences as [string, ...string[]],
+        clockTolerance: this.providerConfig.clockToleranceSeconds ?? 60,
+      }) as jwt.JwtPayload;
+    } catch (error) {
+      this.logger.warn(`ID token rejected: ${error.message}`);
+      throw AppError.from(new Error(`Invalid ID token: ${error.message}`), 401);
+    }
+
+    if (!claims.sub) {
+      throw AppError.from(new Error('ID token has no subject'), 401);
+    }
+
+    if (typeof claims.exp !== 'number') {
+      throw AppError.from(new Error('ID token has no expiry'), 401);
+    }
+
+    // Token gắn nonce chỉ dùng được cùng đúng nonce đó, chống phát lại token bị lộ
+    if (
+      (options.nonce !== undefined || claims.nonce !== undefined) &&
+      !this.nonceMatches(claims.nonce, options.nonce)
+    ) {
+      this.logger.warn('ID token rejected: nonce mismatch');
+      throw AppError.from(new Error('Invalid ID token: nonce mismatch'), 401);
+    }
+
+    return {
+      provider: this.provider,
+      providerAccountId: String(claims.sub),
+      email: typeof claims.email === 'string' ? claims.email : null,
+      // Apple trả email_verified dạng chuỗi "true"
+      emailVerified:
+        claims.email_verified === true || claims.email_verified === 'true',
+      name: typeof claims.name === 'string' ? claims.name : null,
+      image: typeof claims.picture === 'string' ? claims.picture : null,
+    };
+  }
+
+  private nonceMatches(claimed: unknown, expected?: string): boolean {
+    if (typeof claimed !== 'string' || !expected) {
+      return false;
+    }
+    const a = Buffer.from(claimed);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
+
+/**
+ * Tạo danh sách verifier từ cấu hình; nhà cung cấp chưa khai báo client ID sẽ bị bỏ qua.
+ * GitHub không phát hành ID token OIDC nên không có verifier mặc định.
+ */
+export function createDefaultSocialVerifiers(
+  jwksProvider: IJwksProvider,
+): ISocialTokenVerifier[] {
+  const providers: OidcProviderConfig[] = [
+    {
+      provider: AuthProvider.GOOGLE,
+      issuers: ['https://accounts.google.com', 'accounts.google.com'],
+      audiences: config.oauth.google.clientIds,
+      jwksUri: config.oauth.google.jwksUri,
+    },
+    {
+      provider: AuthProvider.APPLE,
+      issuers: ['https://appleid.apple.com'],
+      audiences: config.oauth.apple.clientIds,
+      jwksUri: config.oauth.apple.jwksUri,
+    },
+    {
+      provider: AuthProvider.FACEBOOK,
+      issuers: ['https://www.facebook.com', 'https://facebook.com'],
+      audiences: config.oauth.facebook.clientIds,
+      jwksUri: config.oauth.facebook.jwksUri,
+    },
+  ];
+
+  return providers
+    .filter((p) => p.audiences.length > 0)
+    .map((p) => new OidcTokenVerifier(p, jwksProvider));
+}
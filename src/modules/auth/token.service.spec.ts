@@ -0,0 +1,296 @@
+import { JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { ErrRefreshTokenReused, ErrSessionRevoked } from '../../share';
+import { TokenService } from './token.service';
+
+describe('TokenService.consumeRefreshToken', () => {
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const prisma = {
+    refreshToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const sessionService = {
+    isActive: jest.fn(),
+    revokeSessions: jest.fn().mockResolvedValue(1),
+  };
+  const service = new TokenService(
+    jwtService,
+    prisma as any,
+    {} as any,
+    sessionService as any,
+  );
+
+  let refreshToken: string;
+  let storedToken: Record<string, unknown>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    ({ refreshToken } = await service.generateTokens(
+      { sub: 'user-1' },
+      { familyId: 'family-1', sessionId: 'session-1' },
+    ));
+    storedToken = {
+      id: 'token-1',
+      tokenHash: createHash('sha256').update(refreshToken).digest('hex'),
+      familyId: 'family-1',
+      userId: 'user-1',
+      sessionId: 'session-1',
+      usedAt: null,
+      revokedAt: null,
+    };
+    prisma.refreshToken.findUnique.mockResolvedValue(storedToken);
+    prisma.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+    sessionService.isActive.mockResolvedValue(true);
+  });
+
+  const expectFamilyRevoked = () => {
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { familyId: 'family-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(sessionService.revokeSessions).toHaveBeenCalledWith('user-1', {
+      sessionIds: ['session-1'],
+    });
+  };
+
+  it('burns the token and keeps the family and session', async () => {
+    const grant = await service.consumeRefreshToken(refreshToken);
+
+    expect(grant).toEqual({
+      payload: expect.objectContaining({ sub: 'user-1' }),
+      familyId: 'family-1',
+      sessionId: 'session-1',
+    });
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 'token-1', usedAt: null, revokedAt: null },
+      data: { usedAt: expect.any(Date) },
+    });
+    expect(sessionService.revokeSessions).not.toHaveBeenCalled();
+  });
+
+  it('revokes the whole family when a used token is replayed', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue({
+      ...storedToken,
+      usedAt: new Date(),
+    });
+
+    await expect(service.consumeRefreshToken(refreshToken)).rejects.toBe(
+      ErrRefreshTokenReused,
+    );
+    expectFamilyRevoked();
+  });
+
+  it('revokes the family when a concurrent refresh burned the token first', async () => {
+    prisma.refreshToken.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(service.consumeRefreshToken(refreshToken)).rejects.toBe(
+      ErrRefreshTokenReused,
+    );
+    expectFamilyRevoked();
+  });
+
+  it('rejects and revokes the family once its session is no longer active', async () => {
+    sessionService.isActive.mockResolvedValue(false);
+
+    await expect(service.consumeRefreshToken(refreshToken)).rejects.toBe(
+      ErrSessionRevoked,
+    );
+    expect(sessionService.isActive).toHaveBeenCalledWith('session-1');
+    expect(prisma.refreshToken.updateMany).not.toHaveBeenCalledWith(
+      expect.objectContaining({ data: { usedAt: expect.any(Date) } }),
+    );
+    expectFamilyRevoked();
+  });
+
+  it('rejects and revokes the family of a token not bound to a session', async () => {
+    prisma.refreshToken.findUnique.mockResolvedValue({
+      ...storedToken,
+      sessionId: null,
+    });
+
+    await expect(service.consumeRefreshToken(refreshToken)).rejects.toBe(
+      ErrSessionRevoked,
+    );
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { familyId: 'family-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('rejects an access token presented as a refresh token', async () => {
+    const { accessToken } = await service.generateTokens({ sub: 'user-1' });
+
+    await expect(service.consumeRefreshToken(accessToken)).rejects.toThrow(
+      'Invalid refresh token',
+    );
+  });
+});
+
+describe('TokenService.verifyAccessToken', () => {
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const prisma = { refreshToken: { create: jest.fn() } };
+  const redisClient = { exists: jest.fn() };
+  const sessionService = { isActive: jest.fn() };
+  const service = new TokenService(
+    jwtService,
+    prisma as any,
+    redisClient as any,
+    sessionService as any,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redisClient.exists.mockResolvedValue(0);
+    sessionService.isActive.mockResolvedValue(true);
+  });
+
+  it('accepts an access token bound to an active session', async () => {
+    const { accessToken } = await service.generateTokens(
+      { sub: 'user-1' },
+      { sessionId: 'session-1' },
+    );
+
+    await expect(service.verifyAccessToken(accessToken)).resolves.toEqual(
+      expect.objectContaining({ sub: 'user-1', sid: 'session-1' }),
+    );
+    expect(sessionService.isActive).toHaveBeenCalledWith('session-1');
+  });
+
+  it('rejects a refresh token presented as an access token', async () => {
+    const { refreshToken } = await service.generateTokens(
+      { sub: 'user-1', sid: 'session-1' },
+      { sessionId: 'session-1' },
+    );
+
+    await expect(service.verifyAccessToken(refreshToken)).resolves.toBeNull();
+  });
+
+  it('rejects an access token without a session', async () => {
+    const { accessToken } = await service.generateTokens({ sub: 'user-1' });
+
+    await expect(service.verifyAccessToken(accessToken)).resolves.toBeNull();
+    expect(sessionService.isActive).not.toHaveBeenCalled();
+  });
+
+  it('rejects an access token whose session was revoked', async () => {
+    const { accessToken } = await service.generateTokens(
+      { sub: 'user-1' },
+      { sessionId: 'session-1' },
+    );
+    sessionService.isActive.mockResolvedValue(false);
+
+    await expect(service.verifyAccessToken(accessToken)).resolves.toBeNull();
+  });
+
+  it('rejects a blacklisted access token', async () => {
+    const { accessToken } = await service.generateTokens(
+      { sub: 'user-1' },
+      { sessionId: 'session-1' },
+    );
+    redisClient.exists.mockResolvedValue(1);
+
+    await expect(service.verifyAccessToken(accessToken)).resolves.toBeNull();
+  });
+});
+
+describe('TokenService refresh token families', () => {
+  type StoredToken = {
+    id: string;
+    tokenHash: string;
+    familyId: string;
+    userId: string;
+    sessionId: string | null;
+    usedAt: Date | null;
+    revokedAt: Date | null;
+  };
+
+  // Bảng RefreshToken trong bộ nhớ, chỉ gồm các truy vấn TokenService dùng
+  let tokens: StoredToken[];
+  const matches = (token: StoredToken, where: Record<string, unknown>) =>
+    Object.entries(where).every(
+      ([field, value]) => token[field as keyof StoredToken] === value,
+    );
+  const prisma = {
+    refreshToken: {
+      create: jest.fn(async ({ data }) => {
+        tokens.push({
+          id: `token-${tokens.length + 1}`,
+          usedAt: null,
+          revokedAt: null,
+          ...data,
+        });
+      }),
+      findUnique: jest.fn(
+        async ({ where }) =>
+          tokens.find((token) => token.tokenHash === where.tokenHash) ?? null,
+      ),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const matched = tokens.filter((token) => matches(token, where));
+        matched.forEach((token) => Object.assign(token, data));
+        return { count: matched.length };
+      }),
+    },
+  };
+  const sessionService = {
+    isActive: jest.fn().mockResolvedValue(true),
+    revokeSessions: jest.fn().mockResolvedValue(1),
+  };
+  const service = new TokenService(
+    new JwtService({ secret: 'test-secret' }),
+    prisma as any,
+    {} as any,
+    sessionService as any,
+  );
+
+  // Một lần refresh: đốt token cũ rồi cấp token mới trong cùng family
+  const rotate = async (refreshToken: string) => {
+    const grant = await service.consumeRefreshToken(refreshToken);
+    return service.generateTokens(grant.payload, {
+      familyId: grant.familyId,
+      sessionId: grant.sessionId,
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tokens = [];
+  });
+
+  it('revokes every token of the family when an old token is replayed', async () => {
+    const login = await service.generateTokens(
+      { sub: 'user-1' },
+      { sessionId: 'session-1' },
+    );
+    const other = await service.generateTokens(
+      { sub: 'user-1' },
+      { sessionId: 'session-2' },
+    );
+    const first = await rotate(login.refreshToken);
+    const second = await rotate(first.refreshToken);
+
+    // Kẻ gian dùng lại token đã bị đốt ở lần refresh đầu tiên
+    await expect(service.consumeRefreshToken(login.refreshToken)).rejects.toBe(
+      ErrRefreshTokenReused,
+    );
+
+    const family = tokens.filter(
+      (token) => token.familyId === tokens[0].familyId,
+    );
+    expect(family).toHaveLength(3);
+    family.forEach((token) => expect(token.revokedAt).toBeInstanceOf(Date));
+    expect(sessionService.revokeSessions).toHaveBeenCalledWith('user-1', {
+      sessionIds: ['session-1'],
+    });
+
+    // Token mới nhất của family cũng chết; family của session khác không bị ảnh hưởng
+    await expect(
+      service.consumeRefreshToken(second.refreshToken),
+    ).rejects.toThrow('Invalid refresh token');
+    await expect(rotate(other.refreshToken)).resolves.toEqual(
+      expect.objectContaining({ refreshToken: expect.any(String) }),
+    );
+  });
+});
@@ -1,12 +1,23 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
-import { ITokenService } from './auth.port';
-import { TokenPayload } from './auth.types';
+import {
+  GenerateTokensOptions,
+  ISessionService,
+  ITokenService,
+  RefreshTokenGrant,
+} from './auth.port';
+import { RefreshTokenPayload, TokenPayload } from './auth.types';
 import { PrismaService } from '../../share/prisma.service';
 import { Inject } from '@nestjs/common';
 import { REDIS_CLIENT } from '../../common/redis/redis.constants';
 import Redis from 'ioredis';
-import { AppError } from '../../share';
+import {
+  AppError,
+  ErrRefreshTokenReused,
+  ErrSessionRevoked,
+} from '../../share';
+import { createHash, randomUUID } from 'crypto';
+import { SESSION_SERVICE } from './auth.di-token';
 
 @Injectable()
 export class TokenService implements ITokenService {
@@ -19,29 +30,40 @@ export class TokenService implements ITokenService {
     private readonly jwtService: JwtService,
     private readonly prisma: PrismaService,
     @Inject(REDIS_CLIENT) private readonly redisClient: Redis,
+    @Inject(SESSION_SERVICE) private readonly sessionService: ISessionService,
   ) {}
 
   async generateTokens(
     payload: TokenPayload,
+    options?: GenerateTokensOptions,
   ): Promise<{ accessToken: string; refreshToken: string }> {
     try {
-      // Generate access token
+      // Generate access token, bound to the session so revoking it takes effect at once
+      const sessionId = options?.sessionId ?? undefined;
       const accessToken = await this.jwtService.signAsync(
-        { ...payload },
+        { ...payload, ...(sessionId && { sid: sessionId }) },
         { expiresIn: this.ACCESS_TOKEN_EXPIRY },
       );
 
-      // Generate refresh token
-      const refreshToken = await this.jwtService.signAsync(
-        { ...payload, type: 'refresh' },
-        { expiresIn: this.REFRESH_TOKEN_EXPIRY },
-      );
+      // Generate refresh token, continuing the family on rotation
+      const familyId = options?.familyId || randomUUID();
+      const refreshClaims: RefreshTokenPayload = {
+        ...payload,
+        type: 'refresh',
+        fid: familyId,
+        jti: randomUUID(),
+      };
+      const refreshToken = await this.jwtService.signAsync(refreshClaims, {
+        expiresIn: this.REFRESH_TOKEN_EXPIRY,
+      });
 
-      // Store refresh token in database for revocation
+      // Store only the hash so a database leak does not expose usable tokens
       await this.prisma.refreshToken.create({
         data: {
-          token: refreshToken,
+          tokenHash: this.hashToken(refreshToken),
+          familyId,
           userId: payload.sub,
+          sessionId: options?.sessionId ?? null,
           expiresAt: this.getExpiryDate(this.REFRESH_TOKEN_EXPIRY),
         },
       });
@@ -65,7 +87,19 @@ export class TokenService implements ITokenService {
       }
 
       // Verify token
-      const payload = await this.jwtService.verifyAsync<TokenPayload>(token);
+      const payload = await this.jwtService.verifyAsync<
+        TokenPayload | RefreshTokenPayload
+      >(token);
+
+      // Refresh token ký cùng secret, không được dùng thay access token
+      if ('type' in payload && payload.type === 'refresh') {
+        return null;
+      }
+
+      // Access token luôn gắn session; session bị thu hồi thì token hết hiệu lực
+      if (!payload.sid || !(await this.sessionService.isActive(payload.sid))) {
+        return null;
+      }
       return payload;
     } catch (error) {
       this.logger.debug(`Invalid access token: ${error.message}`);
@@ -75,34 +109,85 @@ export class TokenService implements ITokenService {
 
   async verifyRefreshToken(token: string): Promise<TokenPayload | null> {
     try {
-      // Check if token exists in database
+      const payload = await this.decodeRefreshToken(token);
+      if (!payload) {
+        return null;
+      }
+
+      // Check if token exists in database and is still usable
       const storedToken = await this.prisma.refreshToken.findFirst({
         where: {
-          token,
+          tokenHash: this.hashToken(token),
           expiresAt: { gt: new Date() },
-          revoked: false,
+          usedAt: null,
+          revokedAt: null,
         },
       });
 
-      if (!storedToken) {
-        return null;
-      }
-
-      // Verify token
-      const payload = await this.jwtService.verifyAsync<TokenPayload>(token);
-
-      // Check if it's a refresh token
-      if (payload.type !== 'refresh') {
-        return null;
-      }
-
-      return payload;
+      return storedToken ? payload : null;
     } catch (error) {
       this.logger.debug(`Invalid refresh token: ${error.message}`);
       return null;
     }
   }
 
+  async consumeRefreshToken(token: string): Promise<RefreshTokenGrant> {
+    const payload = await this.decodeRefreshToken(token);
+    if (!payload) {
+      throw AppError.from(new Error('Invalid refresh token'), 401);
+    }
+
+    const storedToken = await this.prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(token) },
+    });
+
+    if (!storedToken || storedToken.revokedAt) {
+      throw AppError.from(new Error('Invalid refresh token'), 401);
+    }
+
+    if (storedToken.usedAt) {
+      this.logger.warn(
+        `Refresh token reuse detected for family ${storedToken.familyId}`,
+      );
+      await this.revokeFamily(storedToken);
+      throw ErrRefreshTokenReused;
+    }
+
+    // Session đã đăng xuất/bị thu hồi/hết hạn (hoặc token không gắn session) thì family chết theo
+    if (
+      !storedToken.sessionId ||
+      !(await this.sessionService.isActive(storedToken.sessionId))
+    ) {
+      await this.revokeFamily(storedToken);
+      throw ErrSessionRevoked;
+    }
+
+    // Conditional update so two concurrent refreshes cannot both win
+    const { count } = await this.prisma.refreshToken.updateMany({
+      where: { id: storedToken.id, usedAt: null, revokedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      this.logger.warn(
+        `Refresh token reuse detected for family ${storedToken.familyId}`,
+      );
+      await this.revokeFamily(storedToken);
+      throw ErrRefreshTokenReused;
+    }
+
+    return {
+      payload: {
+        sub: payload.sub,
+        email: payload.email,
+        role: payload.role,
+        roleId: payload.roleId,
+      },
+      familyId: storedToken.familyId,
+      sessionId: storedToken.sessionId,
+    };
+  }
+
   async revokeToken(token: string): Promise<void> {
     try {
       // Try to decode token without verification to get expiry
@@ -126,15 +211,16 @@ export class TokenService implements ITokenService {
         expiryInSeconds,
       );
 
-      // If it's a refresh token, revoke it in the database
+      // If it's a refresh token, revoke its whole family in the database
       if (
         decoded &&
         typeof decoded === 'object' &&
-        decoded.type === 'refresh'
+        decoded.type === 'refresh' &&
+        decoded.fid
       ) {
         await this.prisma.refreshToken.updateMany({
-          where: { token },
-          data: { revoked: true },
+          where: { familyId: decoded.fid, revokedAt: null },
+          data: { revokedAt: new Date() },
         });
       }
     } catch (error) {
@@ -149,9 +235,9 @@ export class TokenService implements ITokenService {
       await this.prisma.refreshToken.updateMany({
         where: {
           userId,
-          revoked: false,
+          revokedAt: null,
         },
-        data: { revoked: true },
+        data: { revokedAt: new Date() },
       });
 
       // We can't directly revoke all access tokens, as they are stateless
@@ -170,6 +256,51 @@ export class TokenService implements ITokenService {
   }
 
   // Helper methods
+  private async decodeRefreshToken(
+    token: string,
+  ): Promise<RefreshTokenPayload | null> {
+    try {
+      const payload =
+        await this.jwtService.verifyAsync<RefreshTokenPayload>(token);
+
+      // Check if it's a refresh token issued with a family
+      if (payload.type !== 'refresh' || !payload.fid) {
+        return null;
+      }
+
+      return payload;
+    } catch (error) {
+      this.logger.debug(`Invalid refresh token: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async revokeFamily({
+    familyId,
+    userId,
+    sessionId,
+  }: {
+    familyId: string;
+    userId: string;
+    sessionId: string | null;
+  }): Promise<void> {
+    await this.prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    // Thu hồi cả session để access token đang lưu hành bị từ chối ngay
+    if (sessionId) {
+      await this.sessionService.revokeSessions(userId, {
+        sessionIds: [sessionId],
+      });
+    }
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
   private async isTokenBlacklisted(token: string): Promise<boolean> {
     try {
       const exists = await this.redisClient.exists(
@@ -0,0 +1,369 @@
+import { createHash, generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { AppError } from '../../share';
+import {
+  toBase64Url,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  WebAuthnExpectation,
+} from './webauthn.verifier';
+
+// CBOR encoder tối thiểu (số nguyên, byte string, text, map) để dựng dữ liệu authenticator
+type CborValue = number | string | Buffer | Map<CborValue, CborValue>;
+
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) {
+    return Buffer.from([(major << 5) | length]);
+  }
+  if (length < 0x100) {
+    return Buffer.from([(major << 5) | 24, length]);
+  }
+  const head = Buffer.alloc(3);
+  head[0] = (major << 5) | 25;
+  head.writeUInt16BE(length, 1);
+  return head;
+}
+
+function cbor(value: CborValue): Buffer {
+  if (typeof value === 'number') {
+    return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const text = Buffer.from(value, 'utf8');
+    return Buffer.concat([cborHead(3, text.length), text]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([cborHead(2, value.length), value]);
+  }
+  return Buffer.concat([
+    cborHead(5, value.size),
+    ...[...value].flatMap(([key, item]) => [cbor(key), cbor(item)]),
+  ]);
+}
+
+const RP_ID = 'example.com';
+const ORIGIN = 'https://example.com';
+const CHALLENGE = toBase64Url(Buffer.from('challenge-bytes'));
+const FLAGS_UP_UV = 0x01 | 0x04;
+
+const expected: WebAuthnExpectation = {
+  challenge: CHALLENGE,
+  origins: [ORIGIN],
+  rpId: RP_ID,
+  requireUserVerification: true,
+};
+
+interface TestAuthenticator {
+  privateKey: KeyObject;
+  coseKey: Buffer;
+  hash: string | null;
+}
+
+function ecAuthenticator(): TestAuthenticator {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const coseKey = cbor(
+    new Map<CborValue, CborValue>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x as string, 'base64url')],
+      [-3, Buffer.from(jwk.y as string, 'base64url')],
+    ]),
+  );
+  return { privateKey, coseKey, hash: 'sha256' };
+}
+
+function ed25519Authenticator(): TestAuthenticator {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  const jwk = publicKey.export({ format: 'jwk' });
+  const coseKey = cbor(
+    new Map<CborValue, CborValue>([
+      [1, 1],
+      [3, -8],
+      [-1, 6],
+      [-2, Buffer.from(jwk.x as string, 'base64url')],
+    ]),
+  );
+  return { privateKey, coseKey, hash: null };
+}
+
+function rsaAuthenticator(): TestAuthenticator {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const coseKey = cbor(
+    new Map<CborValue, CborValue>([
+      [1, 3],
+      [3, -257],
+      [-1, Buffer.from(jwk.n as string, 'base64url')],
+      [-2, Buffer.from(jwk.e as string, 'base64url')],
+    ]),
+  );
+  return { privateKey, coseKey, hash: 'sha256' };
+}
+
+function clientData(type: string, overrides: Record<string, unknown> = {}) {
+  return toBase64Url(
+    Buffer.from(
+      JSON.stringify({
+        type,
+        challenge: CHALLENGE,
+        origin: ORIGIN,
+        ...overrides,
+      }),
+    ),
+  );
+}
+
+function authData(
+  flags: number,
+  signCount: number,
+  attested?: { credentialId: Buffer; coseKey: Buffer },
+  rpId = RP_ID,
+): Buffer {
+  const header = Buffer.alloc(37);
+  createHash('sha256').update(rpId).digest().copy(header, 0);
+  header[32] = flags | (attested ? 0x40 : 0);
+  header.writeUInt32BE(signCount, 33);
+  if (!attested) {
+    return header;
+  }
+  const idLength = Buffer.alloc(2);
+  idLength.writeUInt16BE(attested.credentialId.length);
+  return Buffer.concat([
+    header,
+    Buffer.alloc(16), // aaguid
+    idLength,
+    attested.credentialId,
+    attested.coseKey,
+  ]);
+}
+
+function attestation(
+  authenticator: TestAuthenticator,
+  options: { flags?: number; clientData?: string; rpId?: string } = {},
+) {
+  const credentialId = Buffer.from('credential-1');
+  const data = authData(
+    options.flags ?? FLAGS_UP_UV,
+    0,
+    { credentialId, coseKey: authenticator.coseKey },
+    options.rpId,
+  );
+  return {
+    clientDataJSON: options.clientData ?? clientData('webauthn.create'),
+    attestationObject: toBase64Url(
+      cbor(
+        new Map<CborValue, CborValue>([
+          ['fmt', 'none'],
+          ['attStmt', new Map()],
+          ['authData', data],
+        ]),
+      ),
+    ),
+  };
+}
+
+function assertion(
+  authenticator: TestAuthenticator,
+  signCount: number,
+  options: { clientData?: string; flags?: number } = {},
+) {
+  const clientDataJSON = options.clientData ?? clientData('webauthn.get');
+  const data = authData(options.flags ?? FLAGS_UP_UV, signCount);
+  const signature = sign(
+    authenticator.hash,
+    Buffer.concat([
+      data,
+      createHash('sha256')
+        .update(Buffer.from(clientDataJSON, 'base64url'))
+        .digest(),
+    ]),
+    authenticator.privateKey,
+  );
+  return {
+    clientDataJSON,
+    authenticatorData: toBase64Url(data),
+    signature: toBase64Url(signature),
+  };
+}
+
+const expectAppError = (fn: () => unknown, status: number, message: RegExp) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(status);
+    expect(error.message).toMatch(message);
+    return;
+  }
+  throw new Error(`Expected a ${status} AppError`);
+};
+
+describe('webauthn verifier', () => {
+  describe.each([
+    ['ES256', ecAuthenticator],
+    ['EdDSA', ed25519Authenticator],
+    ['RS256', rsaAuthenticator],
+  ])('%s', (_, createAuthenticator) => {
+    const authenticator = createAuthenticator();
+
+    it('registers and then authenticates with the stored key', () => {
+      const registered = verifyRegistrationResponse(
+        attestation(authenticator),
+        expected,
+      );
+      expect(registered.credentialId).toBe(
+        toBase64Url(Buffer.from('credential-1')),
+      );
+      expect(registered.aaguid).toBeNull();
+      expect(registered.publicKey.equals(authenticator.coseKey)).toBe(true);
+
+      const verified = verifyAuthenticationResponse(
+        assertion(authenticator, 5),
+        { publicKey: registered.publicKey, signCount: 0 },
+        expected,
+      );
+      expect(verified.signCount).toBe(5);
+    });
+  });
+
+  describe('registration', () => {
+    const authenticator = ecAuthenticator();
+
+    it('rejects a wrong challenge, origin or ceremony type', () => {
+      expectAppError(
+        () =>
+          verifyRegistrationResponse(
+            attestation(authenticator, {
+              clientData: clientData('webauthn.create', { challenge: 'other' }),
+            }),
+            expected,
+          ),
+        400,
+        /Challenge mismatch/,
+      );
+      expectAppError(
+        () =>
+          verifyRegistrationResponse(
+            attestation(authenticator, {
+              clientData: clientData('webauthn.create', {
+                origin: 'https://evil.test',
+              }),
+            }),
+            expected,
+          ),
+        400,
+        /not allowed/,
+      );
+      expectAppError(
+        () =>
+          verifyRegistrationResponse(
+            attestation(authenticator, {
+              clientData: clientData('webauthn.get'),
+            }),
+            expected,
+          ),
+        400,
+        /ceremony type/,
+      );
+    });
+
+    it('rejects another relying party or missing user verification', () => {
+      expectAppError(
+        () =>
+          verifyRegistrationResponse(
+            attestation(authenticator, { rpId: 'evil.test' }),
+            expected,
+          ),
+        400,
+        /Relying party ID mismatch/,
+      );
+      expectAppError(
+        () =>
+          verifyRegistrationResponse(
+            attestation(authenticator, { flags: 0x01 }),
+            expected,
+          ),
+        400,
+        /User verification/,
+      );
+    });
+
+    it('rejects malformed attestation objects', () => {
+      expectAppError(
+        () =>
+          verifyRegistrationResponse(
+            {
+              clientDataJSON: clientData('webauthn.create'),
+              attestationObject: toBase64Url(Buffer.from([0xff, 0x00])),
+            },
+            expected,
+          ),
+        400,
+        /Invalid attestation object/,
+      );
+    });
+  });
+
+  describe('authentication', () => {
+    const authenticator = ecAuthenticator();
+    const credential = { publicKey: authenticator.coseKey, signCount: 5 };
+
+    it('rejects a signature from another key', () => {
+      expectAppError(
+        () =>
+          verifyAuthenticationResponse(
+            assertion(ecAuthenticator(), 6),
+            credential,
+            expected,
+          ),
+        401,
+        /Invalid passkey signature/,
+      );
+    });
+
+    it('rejects tampered client data', () => {
+      const response = assertion(authenticator, 6);
+      expectAppError(
+        () =>
+          verifyAuthenticationResponse(
+            {
+              ...response,
+              clientDataJSON: clientData('webauthn.get', { extra: 1 }),
+            },
+            credential,
+            expected,
+          ),
+        401,
+        /Invalid passkey signature/,
+      );
+    });
+
+    it('rejects a sign counter that did not increase (cloned authenticator)', () => {
+      expectAppError(
+        () =>
+          verifyAuthenticationResponse(
+            assertion(authenticator, 5),
+            credential,
+            expected,
+          ),
+        401,
+        /did not increase/,
+      );
+    });
+
+    it('accepts authenticators that always report a zero counter', () => {
+      expect(
+        verifyAuthenticationResponse(
+          assertion(authenticator, 0),
+          { publicKey: authenticator.coseKey, signCount: 0 },
+          expected,
+        ).signCount,
+      ).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,430 @@
+import { createHash, createPublicKey, KeyObject, verify } from 'crypto';
+import { AppError } from '../../share';
+
+// COSE algorithm: ES256, EdDSA, RS256 (thứ tự ưu tiên gửi cho trình duyệt)
+export const SUPPORTED_ALGORITHMS = [-7, -8, -257];
+
+// Bit cờ trong authenticatorData
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_DATA = 0x40;
+
+// Khóa trong COSE_Key
+const COSE_KTY = 1;
+const COSE_ALG = 3;
+const COSE_CRV = -1;
+const COSE_X = -2;
+const COSE_Y = -3;
+const COSE_RSA_N = -1;
+const COSE_RSA_E = -2;
+
+export interface WebAuthnExpectation {
+  challenge: string;
+  origins: string[];
+  rpId: string;
+  // Bắt buộc xác minh người dùng (vân tay, khuôn mặt, PIN) trên authenticator
+  requireUserVerification: boolean;
+}
+
+export interface AttestationResponse {
+  clientDataJSON: string;
+  attestationObject: string;
+}
+
+export interface AssertionResponse {
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: Buffer;
+  signCount: number;
+  aaguid: string | null;
+  backupEligible: boolean;
+  backedUp: boolean;
+}
+
+export interface VerifiedAuthentication {
+  signCount: number;
+  backedUp: boolean;
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  aaguid?: Buffer;
+  credentialId?: Buffer;
+  publicKey?: Buffer;
+}
+
+/**
+ * Kiểm tra kết quả navigator.credentials.create() theo WebAuthn Level 2 (§7.1).
+ * Đăng ký với attestation "none": không tin vào nhà sản xuất authenticator nên
+ * attStmt không được kiểm tra, chỉ lấy public key trong authenticatorData
+ */
+export function verifyRegistrationResponse(
+  response: AttestationResponse,
+  expected: WebAuthnExpectation,
+): VerifiedRegistration {
+  verifyClientData(response.clientDataJSON, 'webauthn.create', expected, 400);
+
+  let attestation: Map<unknown, unknown>;
+  try {
+    attestation = decodeCbor(fromBase64Url(response.attestationObject));
+  } catch {
+    throw invalid('Invalid attestation object', 400);
+  }
+  const authDataBytes = attestation?.get?.('authData');
+  if (!Buffer.isBuffer(authDataBytes)) {
+    throw invalid('Invalid attestation object', 400);
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes, 400);
+  verifyAuthenticatorFlags(authData, expected, 400);
+  if (!authData.credentialId || !authData.publicKey) {
+    throw invalid('Attested credential data is missing', 400);
+  }
+  // Từ chối sớm thuật toán không hỗ trợ thay vì lưu key không dùng được
+  toPublicKey(authData.publicKey, 400);
+
+  const aaguid = authData.aaguid?.toString('hex') ?? '';
+  return {
+    credentialId: toBase64Url(authData.credentialId),
+    publicKey: authData.publicKey,
+    signCount: authData.signCount,
+    // AAGUID toàn 0 = authenticator không tiết lộ model
+    aaguid: /^0*$/.test(aaguid) ? null : aaguid,
+    backupEligible: (authData.flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+    backedUp: (authData.flags & FLAG_BACKED_UP) !== 0,
+  };
+}
+
+/**
+ * Kiểm tra kết quả navigator.credentials.get() (§7.2) với public key đã lưu.
+ * signCount giảm hoặc đứng yên (khi khác 0) là dấu hiệu authenticator bị sao chép
+ */
+export function verifyAuthenticationResponse(
+  response: AssertionResponse,
+  credential: { publicKey: Buffer; signCount: number },
+  expected: WebAuthnExpectation,
+): VerifiedAuthentication {
+  const clientDataBytes = verifyClientData(
+    response.clientDataJSON,
+    'webauthn.get',
+    expected,
+    401,
+  );
+
+  const authDataBytes = fromBase64Url(response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes, 401);
+  verifyAuthenticatorFlags(authData, expected, 401);
+
+  const { key, algorithm } = toPublicKey(credential.publicKey, 401);
+  const signedData = Buffer.concat([
+    authDataBytes,
+    createHash('sha256').update(clientDataBytes).digest(),
+  ]);
+  let valid = false;
+  try {
+    valid = verify(
+      algorithm === -8 ? null : 'sha256',
+      signedData,
+      key,
+      fromBase64Url(response.signature),
+    );
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw invalid('Invalid passkey signature', 401);
+  }
+
+  if (
+    (authData.signCount !== 0 || credential.signCount !== 0) &&
+    authData.signCount <= credential.signCount
+  ) {
+    throw invalid('Passkey sign counter did not increase', 401);
+  }
+
+  return {
+    signCount: authData.signCount,
+    backedUp: (authData.flags & FLAG_BACKED_UP) !== 0,
+  };
+}
+
+export function toBase64Url(value: Buffer): string {
+  return value.toString('base64url');
+}
+
+export function fromBase64Url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+// Helper functions
+
+function invalid(message: string, status: number): AppError {
+  return AppError.from(new Error(message), status);
+}
+
+// Trả về bytes gốc của clientDataJSON để băm khi kiểm tra chữ ký
+function verifyClientData(
+  clientDataJSON: string,
+  type: 'webauthn.create' | 'webauthn.get',
+  expected: WebAuthnExpectation,
+  status: number,
+): Buffer {
+  const bytes = fromBase64Url(clientDataJSON);
+  let clientData: any;
+  try {
+    clientData = JSON.parse(bytes.toString('utf8'));
+  } catch {
+    throw invalid('Invalid client data', status);
+  }
+
+  if (clientData?.type !== type) {
+    throw invalid('Unexpected WebAuthn ceremony type', status);
+  }
+  if (clientData.challenge !== expected.challenge) {
+    throw invalid('Challenge mismatch', status);
+  }
+  if (!expected.origins.includes(clientData.origin)) {
+    throw invalid(`Origin ${clientData.origin} is not allowed`, status);
+  }
+  // Không hỗ trợ gọi từ iframe khác origin
+  if (clientData.crossOrigin === true) {
+    throw invalid('Cross-origin WebAuthn requests are not allowed', status);
+  }
+  return bytes;
+}
+
+function verifyAuthenticatorFlags(
+  authData: AuthenticatorData,
+  expected: WebAuthnExpectation,
+  status: number,
+): void {
+  const rpIdHash = createHash('sha256').update(expected.rpId).digest();
+  if (!authData.rpIdHash.equals(rpIdHash)) {
+    throw invalid('Relying party ID mismatch', status);
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw invalid('User presence was not confirmed', status);
+  }
+  if (
+    expected.requireUserVerification &&
+    !(authData.flags & FLAG_USER_VERIFIED)
+  ) {
+    throw invalid('User verification was not performed', status);
+  }
+}
+
+// rpIdHash (32) | flags (1) | signCount (4) | [aaguid (16) | len (2) | credentialId | COSE_Key]
+function parseAuthenticatorData(
+  data: Buffer,
+  status: number,
+): AuthenticatorData {
+  if (data.length < 37) {
+    throw invalid('Invalid authenticator data', status);
+  }
+  const authData: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: data[32],
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (authData.flags & FLAG_ATTESTED_DATA) {
+    try {
+      const idLength = data.readUInt16BE(53);
+      const keyStart = 55 + idLength;
+      authData.aaguid = data.subarray(37, 53);
+      authData.credentialId = data.subarray(55, keyStart);
+      // COSE_Key không có độ dài riêng; phải giải mã để biết điểm kết thúc
+      const { next } = new CborDecoder(data, keyStart).decode();
+      authData.publicKey = data.subarray(keyStart, next);
+    } catch {
+      throw invalid('Invalid authenticator data', status);
+    }
+  }
+  return authData;
+}
+
+function toPublicKey(
+  coseKey: Buffer,
+  status: number,
+): { key: KeyObject; algorithm: number } {
+  let cose: Map<number, any>;
+  try {
+    cose = decodeCbor(coseKey);
+  } catch {
+    throw invalid('Invalid credential public key', status);
+  }
+
+  const algorithm = cose.get(COSE_ALG);
+  const kty = cose.get(COSE_KTY);
+  const b64 = (value: unknown) => toBase64Url(value as Buffer);
+  let jwk: Record<string, string> | null = null;
+
+  if (algorithm === -7 && kty === 2 && cose.get(COSE_CRV) === 1) {
+    jwk = {
+      kty: 'EC',
+      crv: 'P-256',
+      x: b64(cose.get(COSE_X)),
+      y: b64(cose.get(COSE_Y)),
+    };
+  } else if (algorithm === -8 && kty === 1 && cose.get(COSE_CRV) === 6) {
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: b64(cose.get(COSE_X)) };
+  } else if (algorithm === -257 && kty === 3) {
+    jwk = {
+      kty: 'RSA',
+      n: b64(cose.get(COSE_RSA_N)),
+      e: b64(cose.get(COSE_RSA_E)),
+    };
+  }
+  if (!jwk) {
+    throw invalid('Unsupported passkey algorithm', status);
+  }
+
+  try {
+    return { key: createPublicKey({ key: jwk, format: 'jwk' }), algorithm };
+  } catch {
+    throw invalid('Invalid credential public key', status);
+  }
+}
+
+function decodeCbor(data: Buffer): any {
+  return new CborDecoder(data, 0).decode().value;
+}
+
+/**
+ * Bộ giải mã CBOR (RFC 8949) tối thiểu cho attestationObject và COSE_Key:
+ * map giữ nguyên khóa số nên trả về Map, tag được bỏ qua
+ */
+class CborDecoder {
+  constructor(
+    private readonly data: Buffer,
+    private position: number,
+  ) {}
+
+  decode(): { value: any; next: number } {
+    const value = this.readItem();
+    return { value, next: this.position };
+  }
+
+  private readItem(): any {
+    const initial = this.readByte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      return this.readSimple(info);
+    }
+    if (info === 31) {
+      throw new Error('Indefinite-length CBOR items are not supported');
+    }
+    const length = this.readLength(info);
+
+    switch (major) {
+      case 0: // unsigned int
+        return length;
+      case 1: // negative int
+        return -1 - length;
+      case 2: // bytes
+        return this.readBytes(length);
+      case 3: // text
+        return this.readBytes(length).toString('utf8');
+      case 4: {
+        // array
+        const items: any[] = [];
+        for (let index = 0; index < length; index++) {
+          items.push(this.readItem());
+        }
+        return items;
+      }
+      case 5: {
+        // map
+        const map = new Map<any, any>();
+        for (let index = 0; index < length; index++) {
+          const key = this.readItem();
+          map.set(key, this.readItem());
+        }
+        return map;
+      }
+      default:
+        // tag: chỉ lấy giá trị bên trong
+        return this.readItem();
+    }
+  }
+
+  private readLength(info: number): number {
+    if (info < 24) {
+      return info;
+    }
+    switch (info) {
+      case 24:
+        return this.readByte();
+      case 25:
+        return this.readBytes(2).readUInt16BE(0);
+      case 26:
+        return this.readBytes(4).readUInt32BE(0);
+      case 27: {
+        const value = this.readBytes(8).readBigUInt64BE(0);
+        if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+          throw new Error('CBOR integer too large');
+        }
+        return Number(value);
+      }
+      default:
+        throw new Error(`Invalid CBOR length ${info}`);
+    }
+  }
+
+  private readSimple(info: number): any {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+      case 23:
+        return null;
+      case 25:
+        return this.readHalfFloat(this.readBytes(2).readUInt16BE(0));
+      case 26:
+        return this.readBytes(4).readFloatBE(0);
+      case 27:
+        return this.readBytes(8).readDoubleBE(0);
+      default:
+        throw new Error(`Unsupported CBOR simple value ${info}`);
+    }
+  }
+
+  private readHalfFloat(half: number): number {
+    const exponent = (half >> 10) & 0x1f;
+    const fraction = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) {
+      return sign * 2 ** -14 * (fraction / 1024);
+    }
+    if (exponent === 31) {
+      return fraction ? NaN : sign * Infinity;
+    }
+    return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+  }
+
+  private readByte(): number {
+    return this.readBytes(1)[0];
+  }
+
+  private readBytes(length: number): Buffer {
+    if (this.position + length > this.data.length) {
+      throw new Error('Unexpected end of CBOR data');
+    }
+    const bytes = this.data.subarray(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+}
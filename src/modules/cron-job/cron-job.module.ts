@@ -1,20 +1,46 @@
 // src/modules/cron-job/cron-job.module.ts
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { ScheduleModule } from '@nestjs/schedule';
 import { AttendanceJobService } from './services/attendance-job.service';
 import { PartitionJobService } from './services/partition-job.service';
 import { CleanupJobService } from './services/cleanup-job.service';
+import { ApprovalJobService } from './services/approval-job.service';
+import { SoftDeletePurgeJobService } from './services/soft-delete-purge-job.service';
+import { NotificationJobService } from './services/notification-job.service';
+import { AnnouncementJobService } from './services/announcement-job.service';
+import { TwoFactorMigrationJobService } from './services/two-factor-migration-job.service';
 import { PrismaService } from '../../share/prisma.service';
 import { RedisModule } from '../../common/redis';
 import { ConfigModule } from '@nestjs/config';
+import { AttendanceModule } from '../attendance/attendance.module';
+import { ApprovalModule } from '../approval/approval.module';
+import { NotificationModule } from '../notification/notification.module';
+import { AnnouncementModule } from '../announcement/announcement.module';
+import { UserModule } from '../user/user.module';
 
 @Module({
-  imports: [ScheduleModule.forRoot(), RedisModule, ConfigModule],
+  imports: [
+    ScheduleModule.forRoot(),
+    DiscoveryModule,
+    RedisModule,
+    ConfigModule,
+    AttendanceModule,
+    ApprovalModule,
+    NotificationModule,
+    AnnouncementModule,
+    UserModule,
+  ],
   providers: [
     PrismaService,
     AttendanceJobService,
     PartitionJobService,
     CleanupJobService,
+    ApprovalJobService,
+    SoftDeletePurgeJobService,
+    NotificationJobService,
+    AnnouncementJobService,
+    TwoFactorMigrationJobService,
   ],
 })
 export class CronJobModule {}
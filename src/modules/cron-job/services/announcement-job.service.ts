@@ -0,0 +1,33 @@
+// src/modules/cron-job/services/announcement-job.service.ts
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ANNOUNCEMENT_SERVICE } from '../../announcement/announcement.di-token';
+import { IAnnouncementService } from '../../announcement/announcement.port';
+
+@Injectable()
+export class AnnouncementJobService {
+  private readonly logger = new Logger(AnnouncementJobService.name);
+
+  constructor(
+    @Inject(ANNOUNCEMENT_SERVICE)
+    private readonly announcementService: IAnnouncementService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async publishAndExpire() {
+    try {
+      const published = await this.announcementService.publishDue();
+      const expired = await this.announcementService.expireDue();
+      if (published > 0 || expired > 0) {
+        this.logger.log(
+          `Announcements: ${published} published, ${expired} expired`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error processing scheduled announcements: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
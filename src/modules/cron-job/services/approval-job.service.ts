@@ -0,0 +1,40 @@
+// src/modules/cron-job/services/approval-job.service.ts
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { APPROVAL_SERVICE } from '../../approval/approval.di-token';
+import { IApprovalService } from '../../approval/approval.port';
+
+@Injectable()
+export class ApprovalJobService {
+  private readonly logger = new Logger(ApprovalJobService.name);
+
+  constructor(
+    @Inject(APPROVAL_SERVICE)
+    private readonly approvalService: IApprovalService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async escalateOverdueTasks() {
+    try {
+      await this.approvalService.escalateOverdue();
+    } catch (error) {
+      this.logger.error(
+        `Error escalating overdue approval tasks: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  // Outbox: instance đã kết thúc nhưng handler (vd. cập nhật đơn nghỉ) lỗi thì chạy lại
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async retryCompletionHandlers() {
+    try {
+      await this.approvalService.retryCompletionHandlers();
+    } catch (error) {
+      this.logger.error(
+        `Error retrying approval completion handlers: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
@@ -41,6 +41,24 @@ export class CleanupJobService {
     }
   }
 
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async cleanupExpiredRefreshTokens() {
+    this.logger.log('Cleaning up expired refresh tokens');
+    try {
+      // Token đã dùng phải được giữ tới khi hết hạn để còn phát hiện reuse
+      const result = await this.prisma.refreshToken.deleteMany({
+        where: { expiresAt: { lt: new Date() } },
+      });
+
+      this.logger.log(`Deleted ${result.count} expired refresh tokens`);
+    } catch (error) {
+      this.logger.error(
+        `Error cleaning up refresh tokens: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
   @Cron(CronExpression.EVERY_HOUR)
   async cleanupRedisCache() {
     this.logger.log('Cleaning up expired Redis keys');
@@ -89,9 +107,10 @@ export class CleanupJobService {
       ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90);
 
       // Lấy danh sách người dùng đã xóa mềm
+      // User chưa có cột status; tài khoản bị vô hiệu hóa (isActive = false) được coi là đã xóa
       const deletedUsers = await this.prisma.user.findMany({
         where: {
-          // status: 'DELETED',
+          isActive: false,
           updatedAt: { lt: ninetyDaysAgo },
         },
         select: { id: true },
@@ -107,7 +126,7 @@ export class CleanupJobService {
         const userIds = deletedUsers.map((user) => user.id);
 
         // Xóa các dữ liệu liên quan
-        await tx.biometricData.deleteMany({
+        await tx.webAuthnCredential.deleteMany({
           where: { userId: { in: userIds } },
         });
         await tx.device.deleteMany({ where: { userId: { in: userIds } } });
@@ -0,0 +1,26 @@
+// src/modules/cron-job/services/notification-job.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { NotificationService } from '../../notification/notification.service';
+
+@Injectable()
+export class NotificationJobService {
+  private readonly logger = new Logger(NotificationJobService.name);
+
+  constructor(private readonly notificationService: NotificationService) {}
+
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async retryUnacknowledged() {
+    try {
+      const retried = await this.notificationService.retryUnacknowledged();
+      if (retried > 0) {
+        this.logger.debug(`Re-sent ${retried} unacknowledged notification(s)`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error retrying unacknowledged notifications: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { PartitionJobService } from './partition-job.service';
+
+describe('PartitionJobService', () => {
+  const statements: string[] = [];
+  const tx = {
+    $executeRawUnsafe: jest.fn(async (sql: string) => {
+      statements.push(sql.replace(/\s+/g, ' ').trim());
+      return sql.includes('DELETE') ? 3 : 0;
+    }),
+  };
+  const prisma = {
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  };
+  const service = new PartitionJobService(prisma as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    statements.length = 0;
+  });
+
+  it('moves rows out of the default partition before attaching the week', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ exists: false }]);
+
+    await service['createWeekPartition'](new Date('2026-10-26'));
+
+    expect(statements).toEqual([
+      'LOCK TABLE "attendances_default" IN ACCESS EXCLUSIVE MODE;',
+      'CREATE TABLE "attendances_2026_w44" (LIKE "attendances" INCLUDING DEFAULTS INCLUDING CONSTRAINTS);',
+      'WITH moved AS ( DELETE FROM "attendances_default" WHERE "date" >= \'2026-10-26\' AND "date" < \'2026-11-02\' RETURNING * ) INSERT INTO "attendances_2026_w44" SELECT * FROM moved;',
+      'ALTER TABLE "attendances" ATTACH PARTITION "attendances_2026_w44" FOR VALUES FROM (\'2026-10-26\') TO (\'2026-11-02\');',
+    ]);
+  });
+
+  it('skips weeks that already have a partition', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ exists: true }]);
+
+    await service['createWeekPartition'](new Date('2026-10-26'));
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('prepares the current week and the weeks ahead on startup', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ exists: true }]);
+
+    await service.onApplicationBootstrap();
+
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(5);
+  });
+});
@@ -1,50 +1,103 @@
 // src/modules/cron-job/services/partition-job.service.ts
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../../../share/prisma.service';
+import {
+  addDays,
+  formatDateOnly,
+  isoWeek,
+  toDateOnly,
+} from '../../../common/utils/date-only';
+
+// Số tuần tạo partition trước, để dữ liệu nhập trước (vd. nghỉ phép đã duyệt) có chỗ
+const WEEKS_AHEAD = 4;
+const DEFAULT_PARTITION = 'attendances_default';
 
 @Injectable()
-export class PartitionJobService {
+export class PartitionJobService implements OnApplicationBootstrap {
   private readonly logger = new Logger(PartitionJobService.name);
 
   constructor(private readonly prisma: PrismaService) {}
 
+  // Đảm bảo tuần hiện tại và các tuần tới đã có partition ngay khi khởi động,
+  // tránh dữ liệu rơi vào partition mặc định nếu triển khai giữa tuần
+  async onApplicationBootstrap() {
+    await this.createUpcomingPartitions();
+  }
+
   @Cron(CronExpression.EVERY_WEEK)
   async createNextWeekPartition() {
-    this.logger.log('Creating next week partition');
+    this.logger.log('Creating upcoming week partitions');
+    await this.createUpcomingPartitions();
+  }
+
+  private async createUpcomingPartitions() {
+    const thisWeekStart = addDays(this.getNextWeekStart(), -7);
+    for (let week = 0; week <= WEEKS_AHEAD; week++) {
+      await this.createWeekPartition(addDays(thisWeekStart, week * 7));
+    }
+  }
+
+  private async createWeekPartition(weekStart: Date) {
     try {
-      // Tính toán ngày bắt đầu và kết thúc cho partition tuần tiếp theo
-      const nextWeekStart = this.getNextWeekStart();
-      const nextWeekEnd = new Date(nextWeekStart);
-      nextWeekEnd.setDate(nextWeekEnd.getDate() + 7);
-
-      // Format dates for PostgreSQL
-      const startDateStr = nextWeekStart.toISOString().split('T')[0];
-      const endDateStr = nextWeekEnd.toISOString().split('T')[0];
-
-      // Tạo tên partition cho tuần tiếp theo
-      const year = nextWeekStart.getFullYear();
-      const weekNumber = this.getISOWeek(nextWeekStart);
-      const partitionName = `attendances_${year}_w${weekNumber}`;
-
-      // Thực thi SQL để tạo partition
-      await this.prisma.$executeRawUnsafe(`
-        CREATE TABLE IF NOT EXISTS ${partitionName} PARTITION OF attendances
-        FOR VALUES FROM ('${startDateStr}') TO ('${endDateStr}');
-      `);
+      // Tính toán ngày bắt đầu và kết thúc cho partition của tuần
+      const weekEnd = addDays(weekStart, 7);
+
+      // Cột "date" lưu ngày theo giờ nhà máy nên biên partition cũng là ngày lịch
+      const startDateStr = formatDateOnly(weekStart);
+      const endDateStr = formatDateOnly(weekEnd);
+
+      // Tạo tên partition theo năm ISO (tuần cuối tháng 12 có thể thuộc tuần 1 năm sau)
+      const { year, week } = isoWeek(weekStart);
+      const partitionName = `attendances_${year}_w${week}`;
+
+      const [{ exists }] = await this.prisma.$queryRaw<{ exists: boolean }[]>`
+        SELECT to_regclass(${`"${partitionName}"`}) IS NOT NULL AS "exists";
+      `;
+      if (exists) {
+        return;
+      }
+
+      // Dòng của tuần này có thể đã rơi vào partition mặc định; khi đó CREATE ... PARTITION OF
+      // thất bại. Tạo bảng rời, chuyển các dòng đó sang rồi mới gắn vào bảng cha
+      const moved = await this.prisma.$transaction(async (tx) => {
+        await tx.$executeRawUnsafe(
+          `LOCK TABLE "${DEFAULT_PARTITION}" IN ACCESS EXCLUSIVE MODE;`,
+        );
+        await tx.$executeRawUnsafe(`
+          CREATE TABLE "${partitionName}"
+          (LIKE "attendances" INCLUDING DEFAULTS INCLUDING CONSTRAINTS);
+        `);
+        const count = await tx.$executeRawUnsafe(`
+          WITH moved AS (
+            DELETE FROM "${DEFAULT_PARTITION}"
+            WHERE "date" >= '${startDateStr}' AND "date" < '${endDateStr}'
+            RETURNING *
+          )
+          INSERT INTO "${partitionName}" SELECT * FROM moved;
+        `);
+        await tx.$executeRawUnsafe(`
+          ALTER TABLE "attendances" ATTACH PARTITION "${partitionName}"
+          FOR VALUES FROM ('${startDateStr}') TO ('${endDateStr}');
+        `);
+        return count;
+      });
 
       this.logger.log(
-        `Created partition ${partitionName} for dates ${startDateStr} to ${endDateStr}`,
+        `Created partition ${partitionName} for dates ${startDateStr} to ${endDateStr}` +
+          (moved > 0
+            ? `, moved ${moved} row(s) from ${DEFAULT_PARTITION}`
+            : ''),
       );
     } catch (error) {
       this.logger.error(
-        `Error creating next week partition: ${error.message}`,
+        `Error creating week partition: ${error.message}`,
         error.stack,
       );
     }
   }
 
-  @Cron(CronExpression.EVERY_MONTH)
+  @Cron(CronExpression.EVERY_1ST_DAY_OF_MONTH_AT_MIDNIGHT)
   async cleanupOldPartitions() {
     this.logger.log('Cleaning up old partitions');
     try {
@@ -55,7 +108,7 @@ export class PartitionJobService {
       // Lấy danh sách các partition cũ
       const result = await this.prisma.$queryRaw`
         SELECT tablename FROM pg_tables
-        WHERE tablename LIKE 'attendances_%'
+        WHERE tablename LIKE 'attendances\_%'
           AND tableowner = current_user;
       `;
 
@@ -67,7 +120,7 @@ export class PartitionJobService {
         const match = tablename.match(/attendances_(\d{4})_w(\d{1,2})/);
         if (!match) continue;
 
-        const [_, yearStr, weekStr] = match;
+        const [, yearStr, weekStr] = match;
         const year = parseInt(yearStr, 10);
         const week = parseInt(weekStr, 10);
 
@@ -93,35 +146,13 @@ export class PartitionJobService {
   }
 
   // Helper methods
+  // Thứ Hai tuần tới, dạng ngày DATE (00:00 UTC)
   private getNextWeekStart(): Date {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
+    const today = toDateOnly();
+    const dayOfWeek = today.getUTCDay();
     const daysUntilNextMonday = dayOfWeek === 0 ? 1 : 8 - dayOfWeek;
 
-    const nextMonday = new Date(today);
-    nextMonday.setDate(today.getDate() + daysUntilNextMonday);
-    nextMonday.setHours(0, 0, 0, 0);
-
-    return nextMonday;
-  }
-
-  private getISOWeek(date: Date): number {
-    const d = new Date(date);
-    d.setHours(0, 0, 0, 0);
-    // Thursday in current week decides the year
-    d.setDate(d.getDate() + 3 - ((d.getDay() + 6) % 7));
-    // January 4 is always in week 1
-    const week1 = new Date(d.getFullYear(), 0, 4);
-    // Adjust to Thursday in week 1 and count number of weeks from date to week 1
-    return (
-      1 +
-      Math.round(
-        ((d.getTime() - week1.getTime()) / 86400000 -
-          3 +
-          ((week1.getDay() + 6) % 7)) /
-          7,
-      )
-    );
+    return addDays(today, daysUntilNextMonday);
   }
 
   private getDateFromWeek(year: number, week: number): Date {
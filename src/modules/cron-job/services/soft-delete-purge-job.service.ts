@@ -0,0 +1,47 @@
+// src/modules/cron-job/services/soft-delete-purge-job.service.ts
+import { Injectable, Logger } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { BasePrismaRepository } from '../../../core/crud/base/base-prisma.repository';
+
+@Injectable()
+export class SoftDeletePurgeJobService {
+  private readonly logger = new Logger(SoftDeletePurgeJobService.name);
+
+  constructor(private readonly discoveryService: DiscoveryService) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async purgeSoftDeleted() {
+    // Repository của mọi CRUD module bật softDelete, tự tìm qua DI container
+    const repositories = this.discoveryService
+      .getProviders()
+      .map((wrapper) => wrapper.instance)
+      .filter(
+        (
+          instance,
+        ): instance is BasePrismaRepository<unknown, unknown, unknown> =>
+          instance instanceof BasePrismaRepository &&
+          instance.softDeleteOptions !== null,
+      );
+
+    for (const repository of new Set(repositories)) {
+      const { retentionDays = 30 } = repository.softDeleteOptions!;
+      const before = new Date();
+      before.setDate(before.getDate() - retentionDays);
+
+      try {
+        const count = await repository.purgeDeleted(before);
+        if (count > 0) {
+          this.logger.log(
+            `Purged ${count} ${repository.constructor.name} records deleted before ${before.toISOString()}`,
+          );
+        }
+      } catch (error) {
+        this.logger.error(
+          `Error purging soft-deleted records in ${repository.constructor.name}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+  }
+}
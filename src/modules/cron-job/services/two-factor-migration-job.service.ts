@@ -0,0 +1,44 @@
+// src/modules/cron-job/services/two-factor-migration-job.service.ts
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { USER_SERVICE } from '../../user/user.di-token';
+import { IUserService } from '../../user/user.port';
+
+@Injectable()
+export class TwoFactorMigrationJobService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(TwoFactorMigrationJobService.name);
+
+  constructor(
+    @Inject(USER_SERVICE)
+    private readonly userService: IUserService,
+  ) {}
+
+  // Mã hóa secret plain text ngay sau khi triển khai, không đợi user đăng nhập lại
+  async onApplicationBootstrap() {
+    await this.migrateCredentials();
+  }
+
+  // Chạy lại hằng ngày để bắt các secret còn dùng khóa cũ sau khi xoay khóa
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async migrateCredentials() {
+    try {
+      const { secretsEncrypted, backupCodesHashed } =
+        await this.userService.migrate2FACredentials();
+      if (secretsEncrypted > 0 || backupCodesHashed > 0) {
+        this.logger.log(
+          `Migrated 2FA credentials: ${secretsEncrypted} secrets encrypted, ${backupCodesHashed} backup code sets hashed`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error migrating 2FA credentials: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+}
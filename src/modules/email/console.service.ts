@@ -52,12 +52,43 @@ export class ConsoleEmailService implements IEmailService {
     `);
   }
 
+  async sendTwoFactorResetEmail(
+    to: string,
+    name: string | null,
+    time: Date,
+  ): Promise<void> {
+    this.logger.log(`
+      [Email] 2FA Reset Email
+      To: ${to}
+      Name: ${name || 'User'}
+      Time: ${time.toISOString()}
+    `);
+  }
+
+  async sendPasskeyAddedEmail(
+    to: string,
+    name: string | null,
+    passkeyName: string,
+    device: string,
+    time: Date,
+  ): Promise<void> {
+    this.logger.log(`
+      [Email] Passkey Added Email
+      To: ${to}
+      Name: ${name || 'User'}
+      Passkey: ${passkeyName}
+      Device: ${device}
+      Time: ${time.toISOString()}
+    `);
+  }
+
   async sendLoginNotificationEmail(
     to: string,
     name: string | null,
     device: string,
     location: string,
     time: Date,
+    reportToken?: string | null,
   ): Promise<void> {
     this.logger.log(`
       [Email] Login Notification Email
@@ -66,6 +97,7 @@ export class ConsoleEmailService implements IEmailService {
       Device: ${device}
       Location: ${location}
       Time: ${time.toLocaleString()}
+      Report Token: ${reportToken || '-'}
     `);
   }
 
@@ -85,4 +117,19 @@ export class ConsoleEmailService implements IEmailService {
       Time: ${time.toLocaleString()}
     `);
   }
+
+  async sendNotificationEmail(
+    to: string,
+    name: string | null,
+    title: string,
+    content: string,
+  ): Promise<void> {
+    this.logger.log(`
+      [Email] Notification Email
+      To: ${to}
+      Name: ${name || 'User'}
+      Title: ${title}
+      Content: ${content}
+    `);
+  }
 }
@@ -15,12 +15,28 @@ export interface IEmailService {
     name: string | null,
     codes: string[],
   ): Promise<void>;
+  // Admin đã reset 2FA: báo cho user để thiết lập lại hoặc phản hồi nếu không yêu cầu
+  sendTwoFactorResetEmail(
+    to: string,
+    name: string | null,
+    time: Date,
+  ): Promise<void>;
+  // Passkey mới được thêm: passkey đăng nhập không cần mật khẩu nên luôn báo cho user
+  sendPasskeyAddedEmail(
+    to: string,
+    name: string | null,
+    passkeyName: string,
+    device: string,
+    time: Date,
+  ): Promise<void>;
+  // reportToken: kèm link "không phải tôi" để thu hồi mọi phiên đăng nhập
   sendLoginNotificationEmail(
     to: string,
     name: string | null,
     device: string,
     location: string,
     time: Date,
+    reportToken?: string | null,
   ): Promise<void>;
   sendLoginAttemptNotificationEmail(
     to: string,
@@ -29,4 +45,11 @@ export interface IEmailService {
     location: string,
     time: Date,
   ): Promise<void>;
+  // Khác các hàm trên: throw khi gửi lỗi để ghi nhận trạng thái gửi của thông báo
+  sendNotificationEmail(
+    to: string,
+    name: string | null,
+    title: string,
+    content: string,
+  ): Promise<void>;
 }
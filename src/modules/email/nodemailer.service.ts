@@ -114,12 +114,57 @@ export class NodemailerService implements IEmailService {
     );
   }
 
+  async sendTwoFactorResetEmail(
+    to: string,
+    name: string | null,
+    time: Date,
+  ): Promise<void> {
+    const context = {
+      appName: this.appName,
+      name: name || 'User',
+      time: time.toLocaleString(),
+      accountSettingsUrl: `${this.appUrl}/account/security`,
+    };
+
+    await this.sendEmail(
+      to,
+      `Two-factor authentication was reset on your ${this.appName} account`,
+      '2fa-reset',
+      context,
+    );
+  }
+
+  async sendPasskeyAddedEmail(
+    to: string,
+    name: string | null,
+    passkeyName: string,
+    device: string,
+    time: Date,
+  ): Promise<void> {
+    const context = {
+      appName: this.appName,
+      name: name || 'User',
+      passkeyName,
+      device,
+      time: time.toLocaleString(),
+      accountSettingsUrl: `${this.appUrl}/account/security`,
+    };
+
+    await this.sendEmail(
+      to,
+      `A passkey was added to your ${this.appName} account`,
+      'passkey-added',
+      context,
+    );
+  }
+
   async sendLoginNotificationEmail(
     to: string,
     name: string | null,
     device: string,
     location: string,
     time: Date,
+    reportToken?: string | null,
   ): Promise<void> {
     const context = {
       appName: this.appName,
@@ -128,6 +173,9 @@ export class NodemailerService implements IEmailService {
       location,
       time: time.toLocaleString(),
       accountSettingsUrl: `${this.appUrl}/account/security`,
+      notMeUrl: reportToken
+        ? `${this.appUrl}/auth/not-me?token=${encodeURIComponent(reportToken)}`
+        : null,
     };
 
     await this.sendEmail(
@@ -162,6 +210,23 @@ export class NodemailerService implements IEmailService {
     );
   }
 
+  async sendNotificationEmail(
+    to: string,
+    name: string | null,
+    title: string,
+    content: string,
+  ): Promise<void> {
+    const context = {
+      appName: this.appName,
+      name: name || 'User',
+      title,
+      content,
+      notificationsUrl: `${this.appUrl}/notifications`,
+    };
+
+    await this.deliverEmail(to, title, 'notification', context);
+  }
+
   // Helper methods
   private async sendEmail(
     to: string,
@@ -170,34 +235,43 @@ export class NodemailerService implements IEmailService {
     context: any,
   ): Promise<void> {
     try {
-      const compiledTemplate = this.getTemplate(template);
-      if (!compiledTemplate) {
-        throw new Error(`Email template '${template}' not found`);
-      }
+      await this.deliverEmail(to, subject, template, context);
+    } catch (error) {
+      this.logger.error(`Failed to send email: ${error.message}`, error.stack);
+      // Don't throw, just log - email failures shouldn't break application flow
+    }
+  }
 
-      const html = compiledTemplate(context);
+  private async deliverEmail(
+    to: string,
+    subject: string,
+    template: string,
+    context: any,
+  ): Promise<void> {
+    const compiledTemplate = this.getTemplate(template);
+    if (!compiledTemplate) {
+      throw new Error(`Email template '${template}' not found`);
+    }
 
-      const mailOptions = {
-        from: this.fromEmail,
-        to,
-        subject,
-        html,
-      };
+    const html = compiledTemplate(context);
 
-      const info = await this.transporter.sendMail(mailOptions);
+    const mailOptions = {
+      from: this.fromEmail,
+      to,
+      subject,
+      html,
+    };
 
-      if (
-        this.configService.get<string>('EMAIL_USE_TEST_ACCOUNT', 'false') ===
-        'true'
-      ) {
-        this.logger.log(`Preview URL: ${nodemailer.getTestMessageUrl(info)}`);
-      }
+    const info = await this.transporter.sendMail(mailOptions);
 
-      this.logger.log(`Email sent: ${info.messageId}`);
-    } catch (error) {
-      this.logger.error(`Failed to send email: ${error.message}`, error.stack);
-      // Don't throw, just log - email failures shouldn't break application flow
+    if (
+      this.configService.get<string>('EMAIL_USE_TEST_ACCOUNT', 'false') ===
+      'true'
+    ) {
+      this.logger.log(`Preview URL: ${nodemailer.getTestMessageUrl(info)}`);
     }
+
+    this.logger.log(`Email sent: ${info.messageId}`);
   }
 
   private async createTestTransporter(): Promise<void> {
@@ -302,8 +376,11 @@ export class NodemailerService implements IEmailService {
     this.createDefaultTemplate('password-reset');
     this.createDefaultTemplate('welcome');
     this.createDefaultTemplate('2fa-backup-codes');
+    this.createDefaultTemplate('2fa-reset');
+    this.createDefaultTemplate('passkey-added');
     this.createDefaultTemplate('login-notification');
     this.createDefaultTemplate('login-attempt');
+    this.createDefaultTemplate('notification');
   }
 
   private createDefaultTemplate(name: string): void {
@@ -424,6 +501,51 @@ export class NodemailerService implements IEmailService {
   <p>Please store these codes in a safe place. They can be used to access your account if you lose your authentication device.</p>
   <p>Thanks,<br>The {{appName}} Team</p>
 </body>
+</html>`;
+
+      case '2fa-reset':
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Two-Factor Authentication Reset</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h2 style="color: #D32F2F;">Two-Factor Authentication Was Reset</h2>
+  <p>Hello {{name}},</p>
+  <p>An administrator reset two-factor authentication on your {{appName}} account at {{time}}. Your authenticator app and backup codes no longer work, and trusted devices will need to verify again.</p>
+  <p>Please set up two-factor authentication again as soon as possible.</p>
+  <p>
+    <a href="{{accountSettingsUrl}}" style="display: inline-block; background-color: #4CAF50; color: white; text-decoration: none; padding: 10px 20px; border-radius: 5px; font-weight: bold;">Security Settings</a>
+  </p>
+  <p>If you did not ask for this, contact your administrator immediately.</p>
+  <p>Thanks,<br>The {{appName}} Team</p>
+</body>
+</html>`;
+
+      case 'passkey-added':
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>Passkey Added</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h2>A Passkey Was Added to Your Account</h2>
+  <p>Hello {{name}},</p>
+  <p>A new passkey was added to your {{appName}} account. It can be used to sign in without your password.</p>
+  <p><strong>Passkey:</strong> {{passkeyName}}</p>
+  <p><strong>Device:</strong> {{device}}</p>
+  <p><strong>Time:</strong> {{time}}</p>
+  <p>If this was you, you can ignore this email.</p>
+  <p>If you did not add this passkey, remove it and change your password immediately:</p>
+  <p>
+    <a href="{{accountSettingsUrl}}" style="display: inline-block; background-color: #D32F2F; color: white; text-decoration: none; padding: 10px 20px; border-radius: 5px; font-weight: bold;">Security Settings</a>
+  </p>
+  <p>Thanks,<br>The {{appName}} Team</p>
+</body>
 </html>`;
 
       case 'login-notification':
@@ -441,7 +563,14 @@ export class NodemailerService implements IEmailService {
   <p><strong>Device:</strong> {{device}}</p>
   <p><strong>Location:</strong> {{location}}</p>
   <p><strong>Time:</strong> {{time}}</p>
-  <p>If this was you, you can ignore this email. If you don't recognize this activity, please secure your account by:</p>
+  <p>If this was you, you can ignore this email.</p>
+  {{#if notMeUrl}}
+  <p>
+    <a href="{{notMeUrl}}" style="display: inline-block; background-color: #D32F2F; color: white; text-decoration: none; padding: 10px 20px; border-radius: 5px; font-weight: bold;">This wasn't me</a>
+  </p>
+  <p>This signs your account out on every device.</p>
+  {{/if}}
+  <p>If you don't recognize this activity, please secure your account by:</p>
   <ol>
     <li>Changing your password immediately</li>
     <li>Enabling two-factor authentication if you haven't already</li>
@@ -480,6 +609,25 @@ export class NodemailerService implements IEmailService {
   </p>
   <p>Thanks,<br>The {{appName}} Team</p>
 </body>
+</html>`;
+
+      case 'notification':
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>{{title}}</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h2>{{title}}</h2>
+  <p>Hello {{name}},</p>
+  <p>{{content}}</p>
+  <p>
+    <a href="{{notificationsUrl}}" style="display: inline-block; background-color: #4CAF50; color: white; text-decoration: none; padding: 10px 20px; border-radius: 5px; font-weight: bold;">View Notifications</a>
+  </p>
+  <p>Thanks,<br>The {{appName}} Team</p>
+</body>
 </html>`;
 
       default:
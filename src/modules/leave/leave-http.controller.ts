@@ -0,0 +1,231 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Param,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { z } from 'zod';
+import { HTTP_CONTROLLER } from 'src/constant';
+import { ReqWithRequester, UserRole } from 'src/share';
+import { RemoteAuthGuard, Roles, RolesGuard } from 'src/share/guard';
+import { ZodValidationPipe } from 'src/share/pipes/zod-validation.pipe';
+import { LEAVE_SERVICE } from './leave.di-token';
+import {
+  LeaveBalanceUpsertDTO,
+  leaveBalanceUpsertDTOSchema,
+  LeaveDecisionDTO,
+  leaveDecisionDTOSchema,
+  LeaveRejectDTO,
+  leaveRejectDTOSchema,
+  LeaveRequestCondDTO,
+  leaveRequestCondDTOSchema,
+  LeaveRequestCreateDTO,
+  leaveRequestCreateDTOSchema,
+} from './leave.dto';
+import { ILeaveService } from './leave.port';
+
+const pagingQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const yearQuerySchema = z.object({
+  year: z.coerce
+    .number()
+    .int()
+    .min(2000)
+    .max(2100)
+    .default(() => new Date().getFullYear()),
+});
+
+@ApiTags('Leave')
+@ApiBearerAuth()
+@Controller(HTTP_CONTROLLER.LEAVE)
+@UseGuards(RemoteAuthGuard, RolesGuard)
+export class LeaveHttpController {
+  constructor(
+    @Inject(LEAVE_SERVICE)
+    private readonly leaveService: ILeaveService,
+  ) {}
+
+  @Post('requests')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Submit a leave request' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Request submitted' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Insufficient leave balance',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Overlaps an existing leave request',
+  })
+  async createRequest(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(leaveRequestCreateDTOSchema))
+    dto: LeaveRequestCreateDTO,
+  ) {
+    const data = await this.leaveService.createRequest(req.requester, dto);
+    return { success: true, data };
+  }
+
+  @Get('requests/me')
+  @ApiOperation({ summary: 'List your own leave requests' })
+  async listMine(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(leaveRequestCondDTOSchema))
+    cond: LeaveRequestCondDTO,
+  ) {
+    const result = await this.leaveService.listRequests(req.requester, {
+      ...cond,
+      userId: req.requester.sub,
+    });
+    return { success: true, ...result };
+  }
+
+  @Get('requests/pending')
+  @ApiOperation({ summary: 'List leave requests awaiting your approval' })
+  async listPending(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(pagingQuerySchema))
+    query: z.infer<typeof pagingQuerySchema>,
+  ) {
+    const result = await this.leaveService.listPendingApprovals(
+      req.requester,
+      query.page,
+      query.limit,
+    );
+    return { success: true, ...result };
+  }
+
+  @Get('requests')
+  @ApiOperation({
+    summary: 'List leave requests within your management scope',
+  })
+  async listRequests(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(leaveRequestCondDTOSchema))
+    cond: LeaveRequestCondDTO,
+  ) {
+    const result = await this.leaveService.listRequests(req.requester, cond);
+    return { success: true, ...result };
+  }
+
+  @Get('requests/:id')
+  @ApiOperation({ summary: 'Get a leave request with its approval history' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Not found' })
+  async getRequest(@Request() req: ReqWithRequester, @Param('id') id: string) {
+    const data = await this.leaveService.getRequest(req.requester, id);
+    return { success: true, data };
+  }
+
+  @Post('requests/:id/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve the current step of a leave request',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Request is not awaiting your approval',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Request has already been decided',
+  })
+  async approve(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(leaveDecisionDTOSchema)) dto: LeaveDecisionDTO,
+  ) {
+    const data = await this.leaveService.approve(req.requester, id, dto);
+    return { success: true, data };
+  }
+
+  @Post('requests/:id/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a leave request' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Request is not awaiting your approval',
+  })
+  async reject(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(leaveRejectDTOSchema)) dto: LeaveRejectDTO,
+  ) {
+    const data = await this.leaveService.reject(req.requester, id, dto);
+    return { success: true, data };
+  }
+
+  @Post('requests/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a pending request or an approved one not yet started',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Request can no longer be cancelled',
+  })
+  async cancel(@Request() req: ReqWithRequester, @Param('id') id: string) {
+    const data = await this.leaveService.cancel(req.requester, id);
+    return { success: true, data };
+  }
+
+  @Get('balances/me')
+  @ApiOperation({ summary: 'Get your leave balances for a year' })
+  async getMyBalances(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(yearQuerySchema))
+    query: z.infer<typeof yearQuerySchema>,
+  ) {
+    const data = await this.leaveService.getBalances(
+      req.requester,
+      req.requester.sub,
+      query.year,
+    );
+    return { success: true, data };
+  }
+
+  @Get('balances/:userId')
+  @ApiOperation({
+    summary: 'Get leave balances of a user within your management scope',
+  })
+  async getBalances(
+    @Request() req: ReqWithRequester,
+    @Param('userId') userId: string,
+    @Query(new ZodValidationPipe(yearQuerySchema))
+    query: z.infer<typeof yearQuerySchema>,
+  ) {
+    const data = await this.leaveService.getBalances(
+      req.requester,
+      userId,
+      query.year,
+    );
+    return { success: true, data };
+  }
+
+  @Put('balances')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Set the entitled days of a leave balance' })
+  async upsertBalance(
+    @Body(new ZodValidationPipe(leaveBalanceUpsertDTOSchema))
+    dto: LeaveBalanceUpsertDTO,
+  ) {
+    const data = await this.leaveService.upsertBalance(dto);
+    return { success: true, data };
+  }
+}
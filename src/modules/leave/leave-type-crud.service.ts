@@ -0,0 +1,66 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { BaseCrudService } from 'src/core/crud/base/base-crud.service';
+import { CRUD_OPTIONS } from 'src/core/crud/decorators/crud-endpoint.decorator';
+import { CrudControllerOptions } from 'src/core/crud/interfaces/crud-options.interface';
+import { ICrudRepository } from 'src/core/crud/interfaces/crud.interface';
+import { AppError } from 'src/share';
+import { PrismaService } from 'src/share/prisma.service';
+import { LEAVE_TYPE_REPOSITORY } from './leave.di-token';
+import { LeaveTypeCreateDTO, LeaveTypeUpdateDTO } from './leave.dto';
+import { LeaveType } from './leave.model';
+
+@Injectable()
+export class LeaveTypeService extends BaseCrudService<
+  LeaveType,
+  LeaveTypeCreateDTO,
+  LeaveTypeUpdateDTO
+> {
+  constructor(
+    @Inject(LEAVE_TYPE_REPOSITORY)
+    repository: ICrudRepository<
+      LeaveType,
+      LeaveTypeCreateDTO,
+      LeaveTypeUpdateDTO
+    >,
+    private readonly prisma: PrismaService,
+    @Optional() @Inject(CRUD_OPTIONS) options?: CrudControllerOptions,
+  ) {
+    super('LeaveType', repository, options);
+  }
+
+  protected async checkDuplicates(dto: LeaveTypeCreateDTO): Promise<void> {
+    await this.assertCodeAvailable(dto.code);
+  }
+
+  protected async validateFieldConstraints(
+    dto: LeaveTypeUpdateDTO,
+    existingEntity: LeaveType,
+  ): Promise<void> {
+    if (dto.code && dto.code !== existingEntity.code) {
+      await this.assertCodeAvailable(dto.code);
+    }
+  }
+
+  // Loại nghỉ đã có đơn thì chỉ được vô hiệu hóa (isActive = false), không được xóa
+  protected async checkRelatedEntities(entity: LeaveType): Promise<void> {
+    const requests = await this.prisma.leaveRequest.count({
+      where: { leaveTypeId: entity.id },
+    });
+    if (requests > 0) {
+      throw AppError.from(
+        new Error('Cannot delete a leave type that has leave requests'),
+        409,
+      ).withDetail('requests', requests);
+    }
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    const existing = await this.repository.findByCond({ code });
+    if (existing) {
+      throw AppError.from(
+        new Error(`Leave type with code '${code}' already exists`),
+        409,
+      );
+    }
+  }
+}
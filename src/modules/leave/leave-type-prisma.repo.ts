@@ -0,0 +1,40 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { BasePrismaRepository } from 'src/core/crud/base/base-prisma.repository';
+import { PrismaService } from 'src/share/prisma.service';
+import { LeaveTypeCreateDTO, LeaveTypeUpdateDTO } from './leave.dto';
+import { LeaveType } from './leave.model';
+
+@Injectable()
+export class LeaveTypePrismaRepository extends BasePrismaRepository<
+  LeaveType,
+  LeaveTypeCreateDTO,
+  LeaveTypeUpdateDTO
+> {
+  constructor(prisma: PrismaService) {
+    super('LeaveType', prisma.leaveType, prisma);
+  }
+
+  protected _toModel(data: any): LeaveType {
+    return { ...data } as LeaveType;
+  }
+
+  protected _conditionsToWhereClause(conditions: any): any {
+    const where: Record<string, any> = {};
+
+    if (conditions.id) where.id = conditions.id;
+    if (conditions.code) where.code = conditions.code;
+    if (conditions.name) {
+      where.name = {
+        contains: conditions.name,
+        mode: Prisma.QueryMode.insensitive,
+      };
+    }
+    if (conditions.isActive !== undefined) {
+      where.isActive =
+        conditions.isActive === true || conditions.isActive === 'true';
+    }
+
+    return where;
+  }
+}
@@ -0,0 +1,3 @@
+export const LEAVE_TYPE_REPOSITORY = Symbol('LEAVE_TYPE_REPOSITORY');
+export const LEAVE_TYPE_SERVICE = Symbol('LEAVE_TYPE_SERVICE');
+export const LEAVE_SERVICE = Symbol('LEAVE_SERVICE');
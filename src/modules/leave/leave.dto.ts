@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { LeaveStatus } from './leave.model';
+
+// Ngày dạng YYYY-MM-DD, hiểu theo giờ nhà máy
+const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Ngày phải có dạng YYYY-MM-DD');
+
+// ===== Leave type =====
+export const leaveTypeCreateDTOSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Mã loại nghỉ không được để trống')
+    .max(50, 'Mã loại nghỉ tối đa 50 ký tự'),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Tên loại nghỉ không được để trống')
+    .max(200, 'Tên loại nghỉ tối đa 200 ký tự'),
+  description: z.string().max(1000).optional().nullable(),
+  annualQuota: z.number().min(0).max(366).optional().nullable(),
+  isPaid: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type LeaveTypeCreateDTO = z.infer<typeof leaveTypeCreateDTOSchema>;
+
+export const leaveTypeUpdateDTOSchema = leaveTypeCreateDTOSchema.partial();
+
+export type LeaveTypeUpdateDTO = z.infer<typeof leaveTypeUpdateDTOSchema>;
+
+export const leaveTypeCondDTOSchema = z.object({
+  code: z.string().optional(),
+  name: z.string().optional(),
+  isActive: z
+    .union([z.boolean(), z.enum(['true', 'false'])])
+    .transform((v) => v === true || v === 'true')
+    .optional(),
+});
+
+export type LeaveTypeCondDTO = z.infer<typeof leaveTypeCondDTOSchema>;
+
+// ===== Leave request =====
+export const leaveRequestCreateDTOSchema = z
+  .object({
+    leaveTypeId: z.string().uuid('Leave type ID không hợp lệ'),
+    startDate: dateOnlySchema,
+    endDate: dateOnlySchema,
+    // Chỉ áp dụng khi nghỉ trong một ngày
+    halfDay: z.boolean().optional(),
+    reason: z.string().max(1000).optional(),
+  })
+  .refine((dto) => dto.endDate >= dto.startDate, {
+    message: 'Ngày kết thúc phải sau hoặc bằng ngày bắt đầu',
+    path: ['endDate'],
+  })
+  .refine((dto) => !dto.halfDay || dto.startDate === dto.endDate, {
+    message: 'Nghỉ nửa ngày chỉ áp dụng cho một ngày',
+    path: ['halfDay'],
+  });
+
+export type LeaveRequestCreateDTO = z.infer<typeof leaveRequestCreateDTOSchema>;
+
+export const leaveDecisionDTOSchema = z.object({
+  comment: z.string().max(1000).optional(),
+});
+
+export type LeaveDecisionDTO = z.infer<typeof leaveDecisionDTOSchema>;
+
+// Từ chối phải có lý do để người lao động biết
+export const leaveRejectDTOSchema = z.object({
+  comment: z
+    .string()
+    .trim()
+    .min(1, 'Lý do từ chối không được để trống')
+    .max(1000),
+});
+
+export type LeaveRejectDTO = z.infer<typeof leaveRejectDTOSchema>;
+
+export const leaveRequestCondDTOSchema = z.object({
+  userId: z.string().optional(),
+  leaveTypeId: z.string().optional(),
+  status: z.nativeEnum(LeaveStatus).optional(),
+  from: dateOnlySchema.optional(),
+  to: dateOnlySchema.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type LeaveRequestCondDTO = z.infer<typeof leaveRequestCondDTOSchema>;
+
+// ===== Leave balance =====
+export const leaveBalanceUpsertDTOSchema = z.object({
+  userId: z.string().min(1, 'User ID không được để trống'),
+  leaveTypeId: z.string().uuid('Leave type ID không hợp lệ'),
+  year: z.number().int().min(2000).max(2100),
+  entitled: z.number().min(0).max(366),
+});
+
+export type LeaveBalanceUpsertDTO = z.infer<typeof leaveBalanceUpsertDTOSchema>;
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+// Giá trị trùng với enum LeaveStatus trong schema.prisma
+export enum LeaveStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  CANCELLED = 'CANCELLED',
+}
+
+// entityType của đơn nghỉ trong module approval
+export const LEAVE_APPROVAL_ENTITY = 'LEAVE_REQUEST';
+
+// LeaveType model
+export const leaveTypeSchema = z.object({
+  id: z.string().uuid(),
+  code: z.string().min(1, 'Mã loại nghỉ không được để trống'),
+  name: z.string().min(1, 'Tên loại nghỉ không được để trống'),
+  description: z.string().nullable(),
+  annualQuota: z.number().nonnegative().nullable(),
+  isPaid: z.boolean(),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  deletedAt: z.date().nullable(),
+});
+
+export type LeaveType = z.infer<typeof leaveTypeSchema>;
+
+// LeaveBalance model
+export const leaveBalanceSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string(),
+  leaveTypeId: z.string().uuid(),
+  year: z.number().int(),
+  entitled: z.number(),
+  used: z.number(),
+  pending: z.number(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type LeaveBalance = z.infer<typeof leaveBalanceSchema>;
+
+// LeaveApproval model
+export const leaveApprovalSchema = z.object({
+  id: z.string().uuid(),
+  leaveRequestId: z.string().uuid(),
+  approverId: z.string(),
+  level: z.number().int(),
+  decision: z.nativeEnum(LeaveStatus),
+  comment: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export type LeaveApproval = z.infer<typeof leaveApprovalSchema>;
+
+// LeaveRequest model
+export const leaveRequestSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string(),
+  leaveTypeId: z.string().uuid(),
+  startDate: z.date(),
+  endDate: z.date(),
+  halfDay: z.boolean(),
+  days: z.number(),
+  reason: z.string().nullable(),
+  status: z.nativeEnum(LeaveStatus),
+  approvalChain: z.array(z.string()),
+  currentLevel: z.number().int(),
+  currentApproverId: z.string().nullable(),
+  decidedAt: z.date().nullable(),
+  approvalInstanceId: z.string().uuid().nullable(),
+  factoryId: z.string().nullable(),
+  lineId: z.string().nullable(),
+  teamId: z.string().nullable(),
+  groupId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type LeaveRequest = z.infer<typeof leaveRequestSchema> & {
+  approvals?: LeaveApproval[];
+};
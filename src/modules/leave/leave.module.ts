@@ -0,0 +1,111 @@
+import { Module } from '@nestjs/common';
+import { RedisModule } from 'src/common/redis';
+import { HTTP_CONTROLLER } from 'src/constant';
+import { createCrudModule } from 'src/core/crud/factories/create-crud-module.factory';
+import { UserRole } from 'src/share';
+import { ShareModule } from 'src/share/module';
+import { ApprovalModule } from '../approval/approval.module';
+import { AttendanceModule } from '../attendance/attendance.module';
+import { OrganizationModule } from '../organization/organization.module';
+import { LeaveHttpController } from './leave-http.controller';
+import {
+  LEAVE_SERVICE,
+  LEAVE_TYPE_REPOSITORY,
+  LEAVE_TYPE_SERVICE,
+} from './leave.di-token';
+import {
+  leaveTypeCondDTOSchema,
+  leaveTypeCreateDTOSchema,
+  leaveTypeUpdateDTOSchema,
+} from './leave.dto';
+import { leaveTypeSchema } from './leave.model';
+import { LeaveService } from './leave.service';
+import { LeaveTypeService } from './leave-type-crud.service';
+import { LeaveTypePrismaRepository } from './leave-type-prisma.repo';
+
+const ADMIN_ROLES = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+@Module({
+  imports: [
+    ShareModule,
+    RedisModule,
+    OrganizationModule,
+    AttendanceModule,
+    ApprovalModule,
+    createCrudModule({
+      moduleName: 'LeaveType',
+      path: HTTP_CONTROLLER.LEAVE_TYPE,
+      modelType: leaveTypeSchema,
+      createDtoType: leaveTypeCreateDTOSchema,
+      updateDtoType: leaveTypeUpdateDTOSchema,
+      filterDtoType: leaveTypeCondDTOSchema,
+      serviceClass: LeaveTypeService,
+      repositoryClass: LeaveTypePrismaRepository,
+      serviceToken: LEAVE_TYPE_SERVICE,
+      repositoryToken: LEAVE_TYPE_REPOSITORY,
+      controllerOptions: {
+        entityName: 'LeaveType',
+        endpoints: {
+          getAll: { enabled: true },
+          getOne: { enabled: true },
+          count: { enabled: true },
+          create: { enabled: true, roles: ADMIN_ROLES },
+          update: { enabled: true, roles: ADMIN_ROLES },
+          delete: { enabled: true, roles: ADMIN_ROLES },
+        },
+        query: {
+          filters: {
+            code: { operators: ['eq', 'in', 'contains'] },
+            name: { operators: ['eq', 'contains'] },
+            isActive: { type: 'boolean', operators: ['eq'] },
+            isPaid: { type: 'boolean', operators: ['eq'] },
+            annualQuota: {
+              type: 'number',
+              operators: ['eq', 'gte', 'lte', 'between'],
+            },
+            createdAt: { type: 'date', operators: ['gte', 'lte', 'between'] },
+            deletedAt: { type: 'date', operators: ['gte', 'lte', 'between'] },
+          },
+          sortable: ['code', 'name', 'createdAt', 'updatedAt', 'deletedAt'],
+          defaultSort: 'code',
+        },
+        transfer: {
+          columns: [
+            { field: 'id', readonly: true },
+            { field: 'code' },
+            { field: 'name' },
+            { field: 'description' },
+            { field: 'annualQuota', type: 'number' },
+            { field: 'isPaid', type: 'boolean' },
+            { field: 'isActive', type: 'boolean' },
+          ],
+        },
+        swagger: { tags: ['Leave Types'] },
+      },
+      softDelete: true,
+      selection: {
+        fields: [
+          'code',
+          'name',
+          'description',
+          'annualQuota',
+          'isPaid',
+          'isActive',
+          'createdAt',
+          'updatedAt',
+          'deletedAt',
+        ],
+      },
+      imports: [ShareModule],
+    }),
+  ],
+  controllers: [LeaveHttpController],
+  providers: [
+    {
+      provide: LEAVE_SERVICE,
+      useClass: LeaveService,
+    },
+  ],
+  exports: [LEAVE_SERVICE],
+})
+export class LeaveModule {}
@@ -0,0 +1,47 @@
+import { Paginated, Requester } from 'src/share';
+import {
+  LeaveBalanceUpsertDTO,
+  LeaveDecisionDTO,
+  LeaveRejectDTO,
+  LeaveRequestCondDTO,
+  LeaveRequestCreateDTO,
+} from './leave.dto';
+import { LeaveBalance, LeaveRequest } from './leave.model';
+
+// CRUD loại nghỉ do createCrudModule đảm nhiệm; service này lo đơn nghỉ và số dư
+export interface ILeaveService {
+  createRequest(
+    requester: Requester,
+    dto: LeaveRequestCreateDTO,
+  ): Promise<LeaveRequest>;
+  approve(
+    requester: Requester,
+    id: string,
+    dto: LeaveDecisionDTO,
+  ): Promise<LeaveRequest>;
+  reject(
+    requester: Requester,
+    id: string,
+    dto: LeaveRejectDTO,
+  ): Promise<LeaveRequest>;
+  cancel(requester: Requester, id: string): Promise<LeaveRequest>;
+
+  getRequest(requester: Requester, id: string): Promise<LeaveRequest>;
+  listRequests(
+    requester: Requester,
+    cond: LeaveRequestCondDTO,
+  ): Promise<Paginated<LeaveRequest>>;
+  // Đơn đang chờ chính requester duyệt
+  listPendingApprovals(
+    requester: Requester,
+    page: number,
+    limit: number,
+  ): Promise<Paginated<LeaveRequest>>;
+
+  getBalances(
+    requester: Requester,
+    userId: string,
+    year: number,
+  ): Promise<LeaveBalance[]>;
+  upsertBalance(dto: LeaveBalanceUpsertDTO): Promise<LeaveBalance>;
+}
@@ -0,0 +1,253 @@
+import { AppError, Requester, UserRole } from '../../share';
+import { EvtLeaveApproved } from '../../share/event';
+import { ApprovalActionType, ApprovalStatus } from '../approval/approval.model';
+import { ApprovalEntityHandler } from '../approval/approval.port';
+import { LEAVE_APPROVAL_ENTITY, LeaveStatus } from './leave.model';
+import { LeaveService } from './leave.service';
+
+describe('LeaveService with an approval workflow', () => {
+  const request = {
+    id: 'leave-1',
+    userId: 'worker-1',
+    leaveTypeId: 'type-1',
+    startDate: new Date('2026-10-20'),
+    endDate: new Date('2026-10-21'),
+    days: 2,
+    status: LeaveStatus.PENDING,
+    currentLevel: 0,
+    approvalChain: [],
+    currentApproverId: null,
+    approvalInstanceId: 'instance-1',
+    leaveType: { code: 'ANNUAL' },
+    approvals: [],
+  };
+  const tx = {
+    leaveRequest: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest.fn(),
+    },
+    leaveBalance: { updateMany: jest.fn() },
+  };
+  const prisma = {
+    leaveRequest: { findUnique: jest.fn() },
+    $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  };
+  const attendanceService = { markOnLeave: jest.fn() };
+  const eventPublisher = { publish: jest.fn() };
+  const approvalService = {
+    registerEntityHandler: jest.fn(),
+    cancel: jest.fn(),
+  };
+  const service = new LeaveService(
+    prisma as any,
+    {} as any,
+    attendanceService as any,
+    eventPublisher as any,
+    approvalService as any,
+  );
+  service.onModuleInit();
+  const handler: ApprovalEntityHandler =
+    approvalService.registerEntityHandler.mock.calls[0][1];
+
+  const completed = (status: ApprovalStatus) =>
+    ({
+      id: 'instance-1',
+      entityType: LEAVE_APPROVAL_ENTITY,
+      entityId: 'leave-1',
+      requestedById: 'worker-1',
+      status,
+      actions: [
+        { action: ApprovalActionType.SUBMITTED, actorId: 'worker-1' },
+        {
+          action: ApprovalActionType.APPROVED,
+          actorId: 'leader-1',
+          comment: 'ok',
+        },
+      ],
+    }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.leaveRequest.findUnique.mockResolvedValue(request);
+  });
+
+  it('registers leave requests without public submission', () => {
+    // Không có canStart: chỉ createRequest được gửi đơn nghỉ đi duyệt
+    expect(handler.canStart).toBeUndefined();
+  });
+
+  it('approves the leave request once its workflow is approved', async () => {
+    tx.leaveRequest.findUniqueOrThrow.mockResolvedValue({
+      ...request,
+      status: LeaveStatus.APPROVED,
+    });
+
+    await handler.onCompleted(completed(ApprovalStatus.APPROVED));
+
+    expect(tx.leaveRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'leave-1', status: LeaveStatus.PENDING, currentLevel: 0 },
+      data: expect.objectContaining({ status: LeaveStatus.APPROVED }),
+    });
+    expect(tx.leaveBalance.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { pending: { increment: -2 }, used: { increment: 2 } },
+      }),
+    );
+    expect(attendanceService.markOnLeave).toHaveBeenCalledWith(
+      'worker-1',
+      expect.any(Array),
+      'leader-1',
+    );
+    expect(eventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({ eventName: EvtLeaveApproved }),
+    );
+  });
+
+  it('ignores completions for requests already closed on the leave side', async () => {
+    prisma.leaveRequest.findUnique.mockResolvedValue({
+      ...request,
+      status: LeaveStatus.CANCELLED,
+    });
+
+    await handler.onCompleted(completed(ApprovalStatus.CANCELLED));
+
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses direct decisions on workflow-driven requests', async () => {
+    const admin = { sub: 'admin-1', role: UserRole.ADMIN } as Requester;
+
+    const error = (await service
+      .approve(admin, 'leave-1', {})
+      .catch((e) => e)) as AppError;
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(409);
+  });
+});
+
+describe('LeaveService.createRequest', () => {
+  const tx = {
+    $executeRaw: jest.fn(),
+    leaveType: { findUniqueOrThrow: jest.fn() },
+    leaveRequest: { findFirst: jest.fn(), create: jest.fn() },
+    leaveBalance: {
+      upsert: jest.fn(),
+      update: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+  };
+  const prisma = {
+    leaveType: { findUnique: jest.fn() },
+    $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  };
+  const approvalService = {
+    registerEntityHandler: jest.fn(),
+    hasActiveWorkflow: jest.fn().mockResolvedValue(false),
+  };
+  const service = new LeaveService(
+    prisma as any,
+    { getMembership: jest.fn().mockResolvedValue(null) } as any,
+    {} as any,
+    { publish: jest.fn() } as any,
+    approvalService as any,
+  );
+  const worker = { sub: 'worker-1', role: UserRole.WORKER } as Requester;
+  const dto = {
+    leaveTypeId: 'type-1',
+    startDate: '2026-10-20',
+    endDate: '2026-10-21',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(service as any, 'buildApprovalChain').mockResolvedValue([]);
+    prisma.leaveType.findUnique.mockResolvedValue({
+      id: 'type-1',
+      isActive: true,
+      deletedAt: null,
+      annualQuota: 12,
+    });
+    tx.leaveType.findUniqueOrThrow.mockResolvedValue({ annualQuota: 12 });
+    tx.leaveBalance.upsert.mockResolvedValue({ id: 'balance-1' });
+    tx.leaveRequest.findFirst.mockResolvedValue(null);
+    tx.leaveRequest.create.mockResolvedValue({
+      id: 'leave-1',
+      userId: 'worker-1',
+      startDate: new Date('2026-10-20'),
+      endDate: new Date('2026-10-21'),
+      days: 2,
+      status: LeaveStatus.PENDING,
+      approvalChain: [],
+      currentApproverId: null,
+      leaveType: { code: 'ANNUAL' },
+      approvals: [],
+    });
+    tx.$executeRaw.mockResolvedValue(1);
+  });
+
+  const createError = async () =>
+    (await service.createRequest(worker, dto).catch((e) => e)) as AppError;
+
+  it('locks the requester before checking overlaps and reserving balance', async () => {
+    await service.createRequest(worker, dto);
+
+    const [lockSql, lockKey] = tx.$executeRaw.mock.calls[0];
+    expect(lockSql.join('?')).toContain('pg_advisory_xact_lock');
+    expect(lockKey).toBe('leave:worker-1');
+    expect(tx.$executeRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      tx.leaveRequest.findFirst.mock.invocationCallOrder[0],
+    );
+
+    // Giữ chỗ có điều kiện: used + pending + days <= entitled
+    const [reserveSql, ...values] = tx.$executeRaw.mock.calls[1];
+    expect(reserveSql.join('?')).toContain('<= "entitled"');
+    expect(values).toEqual([2, 'balance-1', 2]);
+    expect(tx.leaveRequest.create).toHaveBeenCalled();
+  });
+
+  it('rejects when the balance ran out before the reservation was written', async () => {
+    tx.$executeRaw.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+    tx.leaveBalance.findUniqueOrThrow.mockResolvedValue({
+      entitled: 12,
+      used: 10,
+      pending: 1,
+    });
+
+    const error = await createError();
+
+    expect(error.getStatusCode()).toBe(400);
+    expect(error.toJSON().details).toMatchObject({
+      available: 1,
+      requested: 2,
+    });
+    expect(tx.leaveRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects an overlapping request seen under the lock', async () => {
+    tx.leaveRequest.findFirst.mockResolvedValue({ id: 'leave-0' });
+
+    const error = await createError();
+
+    expect(error.getStatusCode()).toBe(409);
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(tx.leaveRequest.create).not.toHaveBeenCalled();
+  });
+
+  it('does not cap leave types without a quota', async () => {
+    prisma.leaveType.findUnique.mockResolvedValue({
+      id: 'type-1',
+      isActive: true,
+      deletedAt: null,
+      annualQuota: null,
+    });
+
+    await service.createRequest(worker, dto);
+
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(tx.leaveBalance.update).toHaveBeenCalledWith({
+      where: { id: 'balance-1' },
+      data: { pending: { increment: 2 } },
+    });
+  });
+});
@@ -0,0 +1,982 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  addDays,
+  formatDateOnly,
+  parseDateOnly,
+  toDateOnly,
+} from 'src/common/utils/date-only';
+import { AppError, Paginated, Requester, UserRole } from 'src/share';
+import { EVENT_PUBLISHER } from 'src/share/di-token';
+import {
+  EvtLeaveApproved,
+  EvtLeaveCancelled,
+  EvtLeaveRejected,
+  EvtLeaveRequested,
+  LeaveEvent,
+  LeaveEventPayload,
+} from 'src/share/event';
+import { IEventPublisher } from 'src/share/interface';
+import { PrismaService } from 'src/share/prisma.service';
+import { APPROVAL_SERVICE } from '../approval/approval.di-token';
+import {
+  ApprovalActionType,
+  ApprovalInstance,
+  ApprovalStatus,
+} from '../approval/approval.model';
+import { IApprovalService } from '../approval/approval.port';
+import { ATTENDANCE_SERVICE } from '../attendance/attendance.di-token';
+import { IAttendanceService } from '../attendance/attendance.port';
+import { ORGANIZATION_SERVICE } from '../organization/organization.di-token';
+import { IOrganizationService } from '../organization/organization.port';
+import {
+  LeaveBalanceUpsertDTO,
+  LeaveDecisionDTO,
+  LeaveRejectDTO,
+  LeaveRequestCondDTO,
+  LeaveRequestCreateDTO,
+} from './leave.dto';
+import {
+  LEAVE_APPROVAL_ENTITY,
+  LeaveBalance,
+  LeaveRequest,
+  LeaveStatus,
+} from './leave.model';
+import { ILeaveService } from './leave.port';
+
+type Tx = Prisma.TransactionClient;
+
+const LEAVE_REQUEST_INCLUDE = {
+  leaveType: { select: { code: true } },
+  approvals: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.LeaveRequestInclude;
+
+type LeaveRequestRow = Prisma.LeaveRequestGetPayload<{
+  include: typeof LEAVE_REQUEST_INCLUDE;
+}>;
+
+// Kết quả instance duyệt chung -> trạng thái đơn nghỉ
+const APPROVAL_OUTCOME: Partial<Record<ApprovalStatus, LeaveStatus>> = {
+  [ApprovalStatus.APPROVED]: LeaveStatus.APPROVED,
+  [ApprovalStatus.REJECTED]: LeaveStatus.REJECTED,
+  [ApprovalStatus.CANCELLED]: LeaveStatus.CANCELLED,
+};
+
+const DECISION_ACTIONS: string[] = [
+  ApprovalActionType.APPROVED,
+  ApprovalActionType.REJECTED,
+  ApprovalActionType.CANCELLED,
+];
+
+@Injectable()
+export class LeaveService implements ILeaveService, OnModuleInit {
+  private readonly logger = new Logger(LeaveService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(ORGANIZATION_SERVICE)
+    private readonly organizationService: IOrganizationService,
+    @Inject(ATTENDANCE_SERVICE)
+    private readonly attendanceService: IAttendanceService,
+    @Inject(EVENT_PUBLISHER)
+    private readonly eventPublisher: IEventPublisher,
+    @Inject(APPROVAL_SERVICE)
+    private readonly approvalService: IApprovalService,
+  ) {}
+
+  // Đơn nghỉ chỉ được gửi duyệt từ createRequest, không qua API approval chung
+  onModuleInit(): void {
+    this.approvalService.registerEntityHandler(LEAVE_APPROVAL_ENTITY, {
+      onCompleted: (instance) => this.onApprovalCompleted(instance),
+    });
+  }
+
+  async createRequest(
+    requester: Requester,
+    dto: LeaveRequestCreateDTO,
+  ): Promise<LeaveRequest> {
+    try {
+      const userId = requester.sub;
+      const startDate = parseDateOnly(dto.startDate);
+      const endDate = parseDateOnly(dto.endDate);
+
+      if (startDate.getUTCFullYear() !== endDate.getUTCFullYear()) {
+        throw AppError.from(
+          new Error('A leave request cannot span two calendar years'),
+          400,
+        );
+      }
+
+      const workingDays = this.workingDays(startDate, endDate);
+      if (workingDays.length === 0) {
+        throw AppError.from(
+          new Error('The requested period has no working days'),
+          400,
+        );
+      }
+      const days = dto.halfDay ? 0.5 : workingDays.length;
+
+      const leaveType = await this.prisma.leaveType.findUnique({
+        where: { id: dto.leaveTypeId },
+      });
+      if (!leaveType || !leaveType.isActive || leaveType.deletedAt) {
+        throw AppError.from(new Error('Leave type not found'), 404);
+      }
+
+      const membership = await this.organizationService.getMembership(userId);
+      // Có quy trình duyệt chung cho đơn nghỉ thì dùng nó thay cho chuỗi trưởng đơn vị
+      const useWorkflow = await this.approvalService.hasActiveWorkflow(
+        LEAVE_APPROVAL_ENTITY,
+      );
+      const approvalChain = useWorkflow
+        ? []
+        : await this.buildApprovalChain(userId);
+
+      const request = await this.prisma.$transaction(async (tx) => {
+        // Khóa theo user đến hết transaction để hai đơn gửi cùng lúc không cùng lọt kiểm tra trùng lịch
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`leave:${userId}`}))`;
+
+        const overlapping = await tx.leaveRequest.findFirst({
+          where: {
+            userId,
+            status: { in: [LeaveStatus.PENDING, LeaveStatus.APPROVED] },
+            startDate: { lte: endDate },
+            endDate: { gte: startDate },
+          },
+          select: { id: true },
+        });
+        if (overlapping) {
+          throw AppError.from(
+            new Error('You already have a leave request in this period'),
+            409,
+          ).withDetail('leaveRequestId', overlapping.id);
+        }
+
+        const balance = await this.getOrCreateBalance(
+          tx,
+          userId,
+          leaveType.id,
+          startDate.getUTCFullYear(),
+        );
+
+        // annualQuota = null nghĩa là không giới hạn (vd. nghỉ không lương)
+        if (leaveType.annualQuota === null) {
+          await tx.leaveBalance.update({
+            where: { id: balance.id },
+            data: { pending: { increment: days } },
+          });
+        } else {
+          // Chỉ giữ chỗ khi còn đủ số dư tại thời điểm ghi, không dựa vào số dư đã đọc
+          const reserved = await tx.$executeRaw`
+            UPDATE "LeaveBalance"
+            SET "pending" = "pending" + ${days}, "updatedAt" = NOW()
+            WHERE "id" = ${balance.id}
+              AND "used" + "pending" + ${days} <= "entitled"
+          `;
+          if (reserved === 0) {
+            const current = await tx.leaveBalance.findUniqueOrThrow({
+              where: { id: balance.id },
+            });
+            throw AppError.from(new Error('Insufficient leave balance'), 400)
+              .withDetail(
+                'available',
+                current.entitled - current.used - current.pending,
+              )
+              .withDetail('requested', days);
+          }
+        }
+
+        return tx.leaveRequest.create({
+          data: {
+            userId,
+            leaveTypeId: leaveType.id,
+            startDate,
+            endDate,
+            halfDay: dto.halfDay ?? false,
+            days,
+            reason: dto.reason ?? null,
+            approvalChain,
+            currentLevel: 0,
+            currentApproverId: approvalChain[0] ?? null,
+            factoryId: membership?.factoryId ?? null,
+            lineId: membership?.lineId ?? null,
+            teamId: membership?.teamId ?? null,
+            groupId: membership?.groupId ?? null,
+          },
+          include: LEAVE_REQUEST_INCLUDE,
+        });
+      });
+
+      if (useWorkflow) {
+        return this.toModel(await this.submitForApproval(requester, request));
+      }
+
+      await this.publish(EvtLeaveRequested, request, userId, {
+        approverId: request.currentApproverId,
+      });
+
+      this.logger.log(
+        `Leave request ${request.id} created by ${userId} for ${days} day(s)`,
+      );
+
+      return this.toModel(request);
+    } catch (error) {
+      this.logger.error(
+        `Create leave request error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to create leave request: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async approve(
+    requester: Requester,
+    id: string,
+    dto: LeaveDecisionDTO,
+  ): Promise<LeaveRequest> {
+    try {
+      const request = await this.getPendingForDecision(requester, id);
+
+      // Admin duyệt thì kết thúc luôn, không cần đi hết chuỗi
+      const isFinal =
+        this.isAdmin(requester) ||
+        request.currentLevel >= request.approvalChain.length - 1;
+      const nextLevel = request.currentLevel + 1;
+
+      const updated = await this.prisma.$transaction(async (tx) => {
+        await this.claimDecision(tx, request, {
+          ...(isFinal
+            ? {
+                status: LeaveStatus.APPROVED,
+                currentApproverId: null,
+                decidedAt: new Date(),
+              }
+            : {
+                currentLevel: nextLevel,
+                currentApproverId: request.approvalChain[nextLevel],
+              }),
+        });
+
+        await tx.leaveApproval.create({
+          data: {
+            leaveRequestId: request.id,
+            approverId: requester.sub,
+            level: request.currentLevel,
+            decision: LeaveStatus.APPROVED,
+            comment: dto.comment ?? null,
+          },
+        });
+
+        if (isFinal) {
+          await this.moveBalance(tx, request, {
+            pending: -request.days,
+            used: request.days,
+          });
+        }
+
+        return tx.leaveRequest.findUniqueOrThrow({
+          where: { id: request.id },
+          include: LEAVE_REQUEST_INCLUDE,
+        });
+      });
+
+      if (isFinal) {
+        await this.attendanceService.markOnLeave(
+          updated.userId,
+          this.workingDays(updated.startDate, updated.endDate),
+          requester.sub,
+        );
+        await this.publish(EvtLeaveApproved, updated, requester.sub, {
+          approverId: requester.sub,
+          comment: dto.comment ?? null,
+        });
+      } else {
+        // Chuyển lên cấp duyệt tiếp theo
+        await this.publish(EvtLeaveRequested, updated, requester.sub, {
+          approverId: updated.currentApproverId,
+        });
+      }
+
+      return this.toModel(updated);
+    } catch (error) {
+      this.logger.error(
+        `Approve leave request error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to approve leave request: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async reject(
+    requester: Requester,
+    id: string,
+    dto: LeaveRejectDTO,
+  ): Promise<LeaveRequest> {
+    try {
+      const request = await this.getPendingForDecision(requester, id);
+
+      const updated = await this.prisma.$transaction(async (tx) => {
+        await this.claimDecision(tx, request, {
+          status: LeaveStatus.REJECTED,
+          currentApproverId: null,
+          decidedAt: new Date(),
+        });
+
+        await tx.leaveApproval.create({
+          data: {
+            leaveRequestId: request.id,
+            approverId: requester.sub,
+            level: request.currentLevel,
+            decision: LeaveStatus.REJECTED,
+            comment: dto.comment,
+          },
+        });
+
+        await this.moveBalance(tx, request, { pending: -request.days });
+
+        return tx.leaveRequest.findUniqueOrThrow({
+          where: { id: request.id },
+          include: LEAVE_REQUEST_INCLUDE,
+        });
+      });
+
+      await this.publish(EvtLeaveRejected, updated, requester.sub, {
+        approverId: requester.sub,
+        comment: dto.comment,
+      });
+
+      return this.toModel(updated);
+    } catch (error) {
+      this.logger.error(
+        `Reject leave request error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to reject leave request: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async cancel(requester: Requester, id: string): Promise<LeaveRequest> {
+    try {
+      const request = await this.prisma.leaveRequest.findUnique({
+        where: { id },
+        include: LEAVE_REQUEST_INCLUDE,
+      });
+      if (!request) {
+        throw AppError.from(new Error('Leave request not found'), 404);
+      }
+
+      if (request.userId !== requester.sub && !this.isAdmin(requester)) {
+        throw AppError.from(
+          new Error('Only the requester can cancel this leave request'),
+          403,
+        );
+      }
+
+      // Đơn đã duyệt chỉ hủy được khi chưa tới ngày nghỉ
+      const wasApproved = request.status === LeaveStatus.APPROVED;
+      const cancellable =
+        request.status === LeaveStatus.PENDING ||
+        (wasApproved && request.startDate > toDateOnly());
+      if (!cancellable) {
+        throw AppError.from(
+          new Error('This leave request can no longer be cancelled'),
+          409,
+        ).withDetail('status', request.status);
+      }
+
+      const previousApproverId = request.currentApproverId;
+
+      const updated = await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.leaveRequest.updateMany({
+          where: { id, status: request.status },
+          data: {
+            status: LeaveStatus.CANCELLED,
+            currentApproverId: null,
+            decidedAt: new Date(),
+          },
+        });
+        if (count === 0) {
+          throw AppError.from(
+            new Error('Leave request was modified concurrently'),
+            409,
+          );
+        }
+
+        await this.moveBalance(
+          tx,
+          request,
+          wasApproved ? { used: -request.days } : { pending: -request.days },
+        );
+
+        return tx.leaveRequest.findUniqueOrThrow({
+          where: { id },
+          include: LEAVE_REQUEST_INCLUDE,
+        });
+      });
+
+      if (wasApproved) {
+        await this.attendanceService.clearOnLeave(
+          updated.userId,
+          this.workingDays(updated.startDate, updated.endDate),
+        );
+      }
+
+      if (!wasApproved && request.approvalInstanceId) {
+        await this.approvalService
+          .cancel(requester, request.approvalInstanceId)
+          .catch((error) =>
+            this.logger.warn(
+              `Cancel approval ${request.approvalInstanceId} failed: ${error.message}`,
+            ),
+          );
+      }
+
+      await this.publish(EvtLeaveCancelled, updated, requester.sub, {
+        approverId: previousApproverId,
+      });
+
+      return this.toModel(updated);
+    } catch (error) {
+      this.logger.error(
+        `Cancel leave request error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to cancel leave request: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async getRequest(requester: Requester, id: string): Promise<LeaveRequest> {
+    const request = await this.prisma.leaveRequest.findUnique({
+      where: { id },
+      include: LEAVE_REQUEST_INCLUDE,
+    });
+    if (!request) {
+      throw AppError.from(new Error('Leave request not found'), 404);
+    }
+
+    const canView =
+      request.userId === requester.sub ||
+      request.approvalChain.includes(requester.sub) ||
+      (await this.organizationService.isUserWithinScope(
+        requester,
+        request.userId,
+      ));
+    if (!canView) {
+      throw AppError.from(
+        new Error('You are not allowed to view this leave request'),
+        403,
+      );
+    }
+
+    return this.toModel(request);
+  }
+
+  async listRequests(
+    requester: Requester,
+    cond: LeaveRequestCondDTO,
+  ): Promise<Paginated<LeaveRequest>> {
+    try {
+      const where: Prisma.LeaveRequestWhereInput = {};
+      if (cond.userId) where.userId = cond.userId;
+      if (cond.leaveTypeId) where.leaveTypeId = cond.leaveTypeId;
+      if (cond.status) where.status = cond.status;
+      // Lọc theo khoảng thời gian giao với [from, to]
+      if (cond.from) where.endDate = { gte: parseDateOnly(cond.from) };
+      if (cond.to) where.startDate = { lte: parseDateOnly(cond.to) };
+
+      // Người không quản lý đơn vị nào chỉ xem được đơn của chính mình
+      const scope = this.organizationService.getScopeFilter(requester);
+
+      return this.paginate(
+        { AND: [where, scope ?? { userId: requester.sub }] },
+        cond.page,
+        cond.limit,
+      );
+    } catch (error) {
+      this.logger.error(
+        `List leave requests error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to list leave requests: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async listPendingApprovals(
+    requester: Requester,
+    page: number,
+    limit: number,
+  ): Promise<Paginated<LeaveRequest>> {
+    // Đơn không có ai trong chuỗi duyệt sẽ chờ admin
+    const approverFilter: Prisma.LeaveRequestWhereInput = this.isAdmin(
+      requester,
+    )
+      ? {
+          OR: [
+            { currentApproverId: requester.sub },
+            { currentApproverId: null },
+          ],
+        }
+      : { currentApproverId: requester.sub };
+
+    // Đơn đi theo quy trình chung nằm trong danh sách task của module approval
+    return this.paginate(
+      {
+        status: LeaveStatus.PENDING,
+        approvalInstanceId: null,
+        ...approverFilter,
+      },
+      page,
+      limit,
+    );
+  }
+
+  async getBalances(
+    requester: Requester,
+    userId: string,
+    year: number,
+  ): Promise<LeaveBalance[]> {
+    try {
+      if (
+        userId !== requester.sub &&
+        !(await this.organizationService.isUserWithinScope(requester, userId))
+      ) {
+        throw AppError.from(
+          new Error('User belongs to a unit outside of your management scope'),
+          403,
+        );
+      }
+
+      // Khởi tạo số dư cho các loại nghỉ có hạn mức mà user chưa có bản ghi
+      const leaveTypes = await this.prisma.leaveType.findMany({
+        where: { isActive: true, deletedAt: null, annualQuota: { not: null } },
+        select: { id: true },
+      });
+      await this.prisma.$transaction(async (tx) => {
+        for (const leaveType of leaveTypes) {
+          await this.getOrCreateBalance(tx, userId, leaveType.id, year);
+        }
+      });
+
+      return this.prisma.leaveBalance.findMany({
+        where: { userId, year },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Get leave balances error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to get leave balances: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async upsertBalance(dto: LeaveBalanceUpsertDTO): Promise<LeaveBalance> {
+    try {
+      const [user, leaveType] = await Promise.all([
+        this.prisma.user.count({ where: { id: dto.userId } }),
+        this.prisma.leaveType.count({
+          where: { id: dto.leaveTypeId, deletedAt: null },
+        }),
+      ]);
+      if (!user) {
+        throw AppError.from(new Error('User not found'), 404);
+      }
+      if (!leaveType) {
+        throw AppError.from(new Error('Leave type not found'), 404);
+      }
+
+      return await this.prisma.leaveBalance.upsert({
+        where: {
+          userId_leaveTypeId_year: {
+            userId: dto.userId,
+            leaveTypeId: dto.leaveTypeId,
+            year: dto.year,
+          },
+        },
+        create: {
+          userId: dto.userId,
+          leaveTypeId: dto.leaveTypeId,
+          year: dto.year,
+          entitled: dto.entitled,
+        },
+        update: { entitled: dto.entitled },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Upsert leave balance error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to update leave balance: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  // ===== Helpers =====
+
+  private isAdmin(requester: Requester): boolean {
+    return (
+      requester.role === UserRole.ADMIN ||
+      requester.role === UserRole.SUPER_ADMIN
+    );
+  }
+
+  /**
+   * Chuỗi duyệt: trưởng group → trưởng team → quản lý line, bỏ qua cấp trống và
+   * chính người xin nghỉ. Quản lý line xin nghỉ thì quản lý nhà máy duyệt;
+   * không còn ai thì chuỗi rỗng và admin duyệt.
+   */
+  private async buildApprovalChain(userId: string): Promise<string[]> {
+    const membership = await this.organizationService.getMembership(userId);
+    if (!membership) {
+      return [];
+    }
+
+    const [group, team, line, factory] = await Promise.all([
+      membership.groupId
+        ? this.prisma.group.findUnique({
+            where: { id: membership.groupId },
+            select: { leaderId: true },
+          })
+        : null,
+      membership.teamId
+        ? this.prisma.team.findUnique({
+            where: { id: membership.teamId },
+            select: { leaderId: true },
+          })
+        : null,
+      membership.lineId
+        ? this.prisma.line.findUnique({
+            where: { id: membership.lineId },
+            select: { leaderId: true },
+          })
+        : null,
+      this.prisma.factory.findUnique({
+        where: { id: membership.factoryId },
+        select: { leaderId: true },
+      }),
+    ]);
+
+    const chain: string[] = [];
+    for (const leaderId of [group?.leaderId, team?.leaderId, line?.leaderId]) {
+      if (leaderId && leaderId !== userId && !chain.includes(leaderId)) {
+        chain.push(leaderId);
+      }
+    }
+
+    if (
+      chain.length === 0 &&
+      factory?.leaderId &&
+      factory.leaderId !== userId
+    ) {
+      chain.push(factory.leaderId);
+    }
+
+    return chain;
+  }
+
+  private async getPendingForDecision(
+    requester: Requester,
+    id: string,
+  ): Promise<LeaveRequestRow> {
+    const request = await this.prisma.leaveRequest.findUnique({
+      where: { id },
+      include: LEAVE_REQUEST_INCLUDE,
+    });
+    if (!request) {
+      throw AppError.from(new Error('Leave request not found'), 404);
+    }
+
+    if (request.status !== LeaveStatus.PENDING) {
+      throw AppError.from(
+        new Error('Leave request has already been decided'),
+        409,
+      ).withDetail('status', request.status);
+    }
+
+    if (request.approvalInstanceId) {
+      throw AppError.from(
+        new Error(
+          'This leave request is decided through its approval workflow',
+        ),
+        409,
+      ).withDetail('approvalInstanceId', request.approvalInstanceId);
+    }
+
+    if (request.userId === requester.sub) {
+      throw AppError.from(
+        new Error('You cannot decide on your own leave request'),
+        403,
+      );
+    }
+
+    if (
+      request.currentApproverId !== requester.sub &&
+      !this.isAdmin(requester)
+    ) {
+      throw AppError.from(
+        new Error('This leave request is not awaiting your approval'),
+        403,
+      );
+    }
+
+    return request;
+  }
+
+  private async submitForApproval(
+    requester: Requester,
+    request: LeaveRequestRow,
+  ): Promise<LeaveRequestRow> {
+    let instanceId: string;
+    try {
+      const instance = await this.approvalService.submit(requester, {
+        entityType: LEAVE_APPROVAL_ENTITY,
+        entityId: request.id,
+        subjectUserId: request.userId,
+      });
+      instanceId = instance.id;
+    } catch (error) {
+      // Không mở được quy trình thì hủy đơn để trả lại số dư đang giữ
+      await this.prisma.$transaction(async (tx) => {
+        await tx.leaveRequest.update({
+          where: { id: request.id },
+          data: { status: LeaveStatus.CANCELLED, decidedAt: new Date() },
+        });
+        await this.moveBalance(tx, request, { pending: -request.days });
+      });
+      throw error;
+    }
+
+    return this.prisma.leaveRequest.update({
+      where: { id: request.id },
+      data: { approvalInstanceId: instanceId },
+      include: LEAVE_REQUEST_INCLUDE,
+    });
+  }
+
+  // Instance duyệt chung kết thúc: chốt đơn, chuyển số dư và báo như luồng duyệt cũ
+  private async onApprovalCompleted(instance: ApprovalInstance): Promise<void> {
+    const status = APPROVAL_OUTCOME[instance.status];
+    const request = await this.prisma.leaveRequest.findUnique({
+      where: { id: instance.entityId },
+      include: LEAVE_REQUEST_INCLUDE,
+    });
+    // Đơn đã bị hủy từ phía leave thì không còn gì để làm
+    if (!status || !request || request.status !== LeaveStatus.PENDING) {
+      return;
+    }
+
+    const decision = [...(instance.actions ?? [])]
+      .reverse()
+      .find((action) => DECISION_ACTIONS.includes(action.action));
+    const actorId = decision?.actorId ?? instance.requestedById;
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await this.claimDecision(tx, request, {
+        status,
+        currentApproverId: null,
+        decidedAt: new Date(),
+      });
+      await this.moveBalance(
+        tx,
+        request,
+        status === LeaveStatus.APPROVED
+          ? { pending: -request.days, used: request.days }
+          : { pending: -request.days },
+      );
+      return tx.leaveRequest.findUniqueOrThrow({
+        where: { id: request.id },
+        include: LEAVE_REQUEST_INCLUDE,
+      });
+    });
+
+    const extra = { approverId: actorId, comment: decision?.comment ?? null };
+    if (status === LeaveStatus.APPROVED) {
+      await this.attendanceService.markOnLeave(
+        updated.userId,
+        this.workingDays(updated.startDate, updated.endDate),
+        actorId,
+      );
+      await this.publish(EvtLeaveApproved, updated, actorId, extra);
+    } else if (status === LeaveStatus.REJECTED) {
+      await this.publish(EvtLeaveRejected, updated, actorId, extra);
+    } else {
+      await this.publish(EvtLeaveCancelled, updated, actorId, {
+        approverId: null,
+      });
+    }
+  }
+
+  // Cập nhật có điều kiện để hai người duyệt cùng lúc không ghi đè nhau
+  private async claimDecision(
+    tx: Tx,
+    request: LeaveRequestRow,
+    data: Prisma.LeaveRequestUpdateManyMutationInput,
+  ): Promise<void> {
+    const { count } = await tx.leaveRequest.updateMany({
+      where: {
+        id: request.id,
+        status: LeaveStatus.PENDING,
+        currentLevel: request.currentLevel,
+      },
+      data,
+    });
+    if (count === 0) {
+      throw AppError.from(
+        new Error('Leave request was modified concurrently'),
+        409,
+      );
+    }
+  }
+
+  private async getOrCreateBalance(
+    tx: Tx,
+    userId: string,
+    leaveTypeId: string,
+    year: number,
+  ) {
+    const leaveType = await tx.leaveType.findUniqueOrThrow({
+      where: { id: leaveTypeId },
+      select: { annualQuota: true },
+    });
+
+    return tx.leaveBalance.upsert({
+      where: { userId_leaveTypeId_year: { userId, leaveTypeId, year } },
+      create: {
+        userId,
+        leaveTypeId,
+        year,
+        entitled: leaveType.annualQuota ?? 0,
+      },
+      update: {},
+    });
+  }
+
+  private async moveBalance(
+    tx: Tx,
+    request: LeaveRequestRow,
+    delta: { pending?: number; used?: number },
+  ): Promise<void> {
+    await tx.leaveBalance.updateMany({
+      where: {
+        userId: request.userId,
+        leaveTypeId: request.leaveTypeId,
+        year: request.startDate.getUTCFullYear(),
+      },
+      data: {
+        ...(delta.pending && { pending: { increment: delta.pending } }),
+        ...(delta.used && { used: { increment: delta.used } }),
+      },
+    });
+  }
+
+  // Ngày làm việc trong khoảng [start, end]; nhà máy nghỉ Chủ nhật
+  private workingDays(start: Date, end: Date): Date[] {
+    const days: Date[] = [];
+    for (let d = start; d <= end; d = addDays(d, 1)) {
+      if (d.getUTCDay() !== 0) {
+        days.push(d);
+      }
+    }
+    return days;
+  }
+
+  private async paginate(
+    where: Prisma.LeaveRequestWhereInput,
+    page: number,
+    limit: number,
+  ): Promise<Paginated<LeaveRequest>> {
+    const safePage = Math.max(1, page || 1);
+    const safeLimit = Math.min(100, Math.max(1, limit || 20));
+
+    const [total, rows] = await Promise.all([
+      this.prisma.leaveRequest.count({ where }),
+      this.prisma.leaveRequest.findMany({
+        where,
+        include: LEAVE_REQUEST_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (safePage - 1) * safeLimit,
+        take: safeLimit,
+      }),
+    ]);
+
+    return {
+      data: rows.map((row) => this.toModel(row)),
+      paging: { page: safePage, limit: safeLimit, total },
+      total,
+    };
+  }
+
+  private async publish(
+    eventName: string,
+    request: LeaveRequestRow,
+    senderId: string,
+    extra: Pick<LeaveEventPayload, 'approverId' | 'comment'>,
+  ): Promise<void> {
+    const payload: LeaveEventPayload = {
+      leaveRequestId: request.id,
+      userId: request.userId,
+      leaveType: request.leaveType.code,
+      startDate: formatDateOnly(request.startDate),
+      endDate: formatDateOnly(request.endDate),
+      days: request.days,
+      status: request.status,
+      ...extra,
+    };
+
+    try {
+      await this.eventPublisher.publish(
+        new LeaveEvent(eventName, payload, { senderId }),
+      );
+    } catch (error) {
+      // Đơn đã lưu; lỗi phát event không được làm hỏng request
+      this.logger.warn(
+        `Failed to publish ${eventName} for ${request.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private toModel(row: LeaveRequestRow): LeaveRequest {
+    return row as LeaveRequest;
+  }
+}
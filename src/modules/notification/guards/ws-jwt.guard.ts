@@ -7,7 +7,7 @@ import {
 } from '@nestjs/common';
 import { WsException } from '@nestjs/websockets';
 import { TOKEN_SERVICE } from '../../auth/auth.di-token';
-import { ITokenService } from '../../auth/auth.interface';
+import { ITokenService } from '../../auth/auth.port';
 import { Socket } from 'socket.io';
 
 @Injectable()
@@ -25,17 +25,12 @@ export class WsJwtGuard implements CanActivate {
         throw new WsException('Missing token');
       }
 
-      const payload = await this.tokenService.verifyToken(token);
+      // verifyAccessToken trả null cả khi token đã bị thu hồi (blacklist)
+      const payload = await this.tokenService.verifyAccessToken(token);
       if (!payload) {
         throw new WsException('Invalid token');
       }
 
-      // Check if token is blacklisted
-      const isBlacklisted = await this.tokenService.isTokenBlacklisted(token);
-      if (isBlacklisted) {
-        throw new WsException('Token has been invalidated');
-      }
-
       return true;
     } catch (error) {
       throw new WsException(error.message);
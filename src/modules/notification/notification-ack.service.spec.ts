@@ -0,0 +1,172 @@
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+} from '@prisma/client';
+import { NotificationAckService } from './notification-ack.service';
+import {
+  ACK_MAX_ATTEMPTS,
+  REPLAY_LIMIT,
+  VISIBLE_IN_APP,
+} from './notification.constants';
+
+describe('NotificationAckService', () => {
+  const prisma = {
+    notification: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    notificationDelivery: { updateMany: jest.fn() },
+    announcementRecipient: { updateMany: jest.fn() },
+  };
+  const service = new NotificationAckService(prisma as any);
+
+  const now = new Date('2026-10-19T08:00:00.000Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(now);
+    prisma.notification.findMany.mockResolvedValue([]);
+    prisma.notificationDelivery.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('acknowledges only the in-app deliveries of the user', async () => {
+    await expect(
+      service.acknowledge('user-1', ['notification-1']),
+    ).resolves.toBe(1);
+
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+      where: {
+        notificationId: { in: ['notification-1'] },
+        channel: NotificationChannel.IN_APP,
+        ackedAt: null,
+        notification: { userId: 'user-1' },
+      },
+      data: {
+        ackedAt: now,
+        status: NotificationDeliveryStatus.SENT,
+        error: null,
+      },
+    });
+  });
+
+  it('acknowledges and records the receipt when a notification is read', async () => {
+    prisma.notification.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.markAsRead('user-1', 'notification-1')).resolves.toBe(
+      true,
+    );
+
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.announcementRecipient.updateMany).toHaveBeenCalledWith({
+      where: {
+        notificationId: 'notification-1',
+        userId: 'user-1',
+        readAt: null,
+      },
+      data: { readAt: now },
+    });
+  });
+
+  it('does not acknowledge a notification of another user on read', async () => {
+    prisma.notification.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.markAsRead('user-2', 'notification-1')).resolves.toBe(
+      false,
+    );
+
+    expect(prisma.notificationDelivery.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('replays every notification after the cursor, oldest first', async () => {
+    const anchor = { id: 'notification-5', createdAt: new Date(2026, 9, 18) };
+    prisma.notification.findFirst.mockResolvedValue(anchor);
+
+    await service.findMissed('user-1', 'notification-5');
+
+    expect(prisma.notification.findFirst).toHaveBeenCalledWith({
+      where: { id: 'notification-5', userId: 'user-1' },
+      select: { id: true, createdAt: true },
+    });
+    expect(prisma.notification.findMany).toHaveBeenCalledWith({
+      where: {
+        AND: [
+          { userId: 'user-1' },
+          VISIBLE_IN_APP,
+          {
+            OR: [
+              { createdAt: { gt: anchor.createdAt } },
+              { createdAt: anchor.createdAt, id: { gt: anchor.id } },
+            ],
+          },
+        ],
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: REPLAY_LIMIT + 1,
+    });
+  });
+
+  it('replays recent unacknowledged notifications without a known cursor', async () => {
+    prisma.notification.findFirst.mockResolvedValue(null);
+
+    await service.findMissed('user-1', 'notification-of-someone-else');
+
+    const [{ where }] = prisma.notification.findMany.mock.calls[0];
+    expect(where.AND[2]).toEqual({
+      createdAt: { gte: new Date('2026-10-12T08:00:00.000Z') },
+      deliveries: {
+        some: { channel: NotificationChannel.IN_APP, ackedAt: null },
+      },
+    });
+  });
+
+  it('reports when more notifications are left to replay', async () => {
+    prisma.notification.findMany.mockResolvedValue(
+      Array.from({ length: REPLAY_LIMIT + 1 }, (_, i) => ({ id: `n-${i}` })),
+    );
+
+    const { notifications, hasMore } = await service.findMissed('user-1');
+
+    expect(notifications).toHaveLength(REPLAY_LIMIT);
+    expect(hasMore).toBe(true);
+  });
+
+  it('claims a retry only while the delivery is still due', async () => {
+    prisma.notificationDelivery.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await expect(service.claimRetry('notification-1')).resolves.toBe(true);
+    await expect(service.claimRetry('notification-1')).resolves.toBe(false);
+
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+      where: {
+        notificationId: 'notification-1',
+        channel: NotificationChannel.IN_APP,
+        status: NotificationDeliveryStatus.SENT,
+        ackedAt: null,
+        attempts: { lt: ACK_MAX_ATTEMPTS },
+        lastAttemptAt: { lt: new Date('2026-10-19T07:59:30.000Z') },
+      },
+      data: { attempts: { increment: 1 }, lastAttemptAt: now },
+    });
+  });
+
+  it('fails deliveries that ran out of attempts', async () => {
+    await service.markExhausted();
+
+    expect(prisma.notificationDelivery.updateMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        status: NotificationDeliveryStatus.SENT,
+        ackedAt: null,
+        attempts: { gte: ACK_MAX_ATTEMPTS },
+      }),
+      data: {
+        status: NotificationDeliveryStatus.FAILED,
+        error: `Not acknowledged after ${ACK_MAX_ATTEMPTS} attempts`,
+      },
+    });
+  });
+});
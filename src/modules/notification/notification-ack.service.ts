@@ -0,0 +1,174 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../../share/prisma.service';
+import {
+  ACK_MAX_ATTEMPTS,
+  ACK_RETRY_DELAY_SECONDS,
+  REPLAY_LIMIT,
+  REPLAY_WINDOW_DAYS,
+  VISIBLE_IN_APP,
+} from './notification.constants';
+
+// Trạng thái ack của kênh in-app; gateway dùng trực tiếp nên không phụ thuộc gateway
+@Injectable()
+export class NotificationAckService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Client xác nhận đã nhận; trả về số thông báo vừa được ack
+  async acknowledge(
+    userId: string,
+    notificationIds: string[],
+  ): Promise<number> {
+    const { count } = await this.prisma.notificationDelivery.updateMany({
+      where: {
+        notificationId: { in: notificationIds },
+        channel: NotificationChannel.IN_APP,
+        ackedAt: null,
+        notification: { userId },
+      },
+      data: {
+        ackedAt: new Date(),
+        // Thông báo đã hết lượt gửi lại (FAILED) nhưng client vẫn nhận được qua replay
+        status: NotificationDeliveryStatus.SENT,
+        error: null,
+      },
+    });
+    return count;
+  }
+
+  // Đã đọc thì chắc chắn đã nhận; thông báo của announcement thì ghi luôn read receipt
+  async markAsRead(userId: string, notificationId: string): Promise<boolean> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { id: notificationId, userId },
+      data: { isRead: true },
+    });
+    if (count > 0) {
+      await this.acknowledge(userId, [notificationId]);
+      await this.prisma.announcementRecipient.updateMany({
+        where: { notificationId, userId, readAt: null },
+        data: { readAt: new Date() },
+      });
+    }
+    return count > 0;
+  }
+
+  /**
+   * Thông báo client bỏ lỡ, cũ trước mới sau.
+   * Có cursor (id thông báo cuối client đã thấy): mọi thông báo sau nó.
+   * Không có hoặc cursor lạ: thông báo chưa ack trong REPLAY_WINDOW_DAYS ngày.
+   */
+  async findMissed(
+    userId: string,
+    cursor?: string | null,
+  ): Promise<{ notifications: Notification[]; hasMore: boolean }> {
+    const anchor = cursor
+      ? await this.prisma.notification.findFirst({
+          where: { id: cursor, userId },
+          select: { id: true, createdAt: true },
+        })
+      : null;
+
+    let condition: Prisma.NotificationWhereInput;
+    if (anchor) {
+      condition = {
+        OR: [
+          { createdAt: { gt: anchor.createdAt } },
+          { createdAt: anchor.createdAt, id: { gt: anchor.id } },
+        ],
+      };
+    } else {
+      const since = new Date();
+      since.setDate(since.getDate() - REPLAY_WINDOW_DAYS);
+      condition = {
+        createdAt: { gte: since },
+        deliveries: {
+          some: { channel: NotificationChannel.IN_APP, ackedAt: null },
+        },
+      };
+    }
+
+    const rows = await this.prisma.notification.findMany({
+      where: { AND: [{ userId }, VISIBLE_IN_APP, condition] },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: REPLAY_LIMIT + 1,
+    });
+
+    return {
+      notifications: rows.slice(0, REPLAY_LIMIT),
+      hasMore: rows.length > REPLAY_LIMIT,
+    };
+  }
+
+  // Ghi nhận một lần gửi (replay) cho các thông báo chưa ack
+  async recordAttempts(notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+    await this.prisma.notificationDelivery.updateMany({
+      where: {
+        notificationId: { in: notificationIds },
+        channel: NotificationChannel.IN_APP,
+        ackedAt: null,
+      },
+      data: { attempts: { increment: 1 }, lastAttemptAt: new Date() },
+    });
+  }
+
+  // Thông báo đã gửi nhưng quá hạn chờ ack và còn lượt gửi lại
+  async findRetryable(limit: number): Promise<Notification[]> {
+    return this.prisma.notification.findMany({
+      where: {
+        deliveries: { some: this.retryableDelivery() },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Giành quyền gửi lại một thông báo: nhiều replica cùng chạy job,
+   * chỉ instance cập nhật được lastAttemptAt mới gửi
+   */
+  async claimRetry(notificationId: string): Promise<boolean> {
+    const { count } = await this.prisma.notificationDelivery.updateMany({
+      where: { notificationId, ...this.retryableDelivery() },
+      data: { attempts: { increment: 1 }, lastAttemptAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  // Hết lượt gửi lại: FAILED, client vẫn nhận qua replay khi kết nối lại
+  async markExhausted(): Promise<number> {
+    const { count } = await this.prisma.notificationDelivery.updateMany({
+      where: {
+        channel: NotificationChannel.IN_APP,
+        status: NotificationDeliveryStatus.SENT,
+        ackedAt: null,
+        attempts: { gte: ACK_MAX_ATTEMPTS },
+        lastAttemptAt: { lt: this.retryBefore() },
+      },
+      data: {
+        status: NotificationDeliveryStatus.FAILED,
+        error: `Not acknowledged after ${ACK_MAX_ATTEMPTS} attempts`,
+      },
+    });
+    return count;
+  }
+
+  private retryableDelivery(): Prisma.NotificationDeliveryWhereInput {
+    return {
+      channel: NotificationChannel.IN_APP,
+      status: NotificationDeliveryStatus.SENT,
+      ackedAt: null,
+      attempts: { lt: ACK_MAX_ATTEMPTS },
+      lastAttemptAt: { lt: this.retryBefore() },
+    };
+  }
+
+  private retryBefore(): Date {
+    return new Date(Date.now() - ACK_RETRY_DELAY_SECONDS * 1000);
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationType,
+} from '@prisma/client';
+import { NotificationDispatcher } from './notification-dispatcher.service';
+
+describe('NotificationDispatcher', () => {
+  const prisma = {
+    notificationSetting: { findUnique: jest.fn(), findMany: jest.fn() },
+    notification: { create: jest.fn() },
+    notificationDelivery: { update: jest.fn() },
+    user: { findUnique: jest.fn() },
+    device: { findMany: jest.fn() },
+  };
+  const gateway = { sendToUser: jest.fn() };
+  const emailService = { sendNotificationEmail: jest.fn() };
+  const pushSender = { send: jest.fn() };
+  const dispatcher = new NotificationDispatcher(
+    prisma as any,
+    gateway as any,
+    emailService as any,
+    pushSender as any,
+  );
+
+  const draft = {
+    userId: 'user-1',
+    title: 'Leave approved',
+    content: 'Your leave was approved',
+    type: NotificationType.ACCOUNT,
+  };
+  const statuses = (deliveries: { channel: string; status: string }[]) =>
+    Object.fromEntries(deliveries.map((d) => [d.channel, d.status]));
+  const createdStatuses = () =>
+    statuses(
+      prisma.notification.create.mock.calls[0][0].data.deliveries.create,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.notificationSetting.findUnique.mockResolvedValue(null);
+    prisma.notification.create.mockImplementation(({ data }) => ({
+      ...data,
+      createdAt: new Date(),
+    }));
+    prisma.user.findUnique.mockResolvedValue({
+      email: 'user@example.com',
+      name: 'User',
+    });
+    prisma.device.findMany.mockResolvedValue([{ pushToken: 'push-1' }]);
+  });
+
+  it('sends through every channel when the user has no settings', async () => {
+    const { notification, deliveries } = await dispatcher.dispatch(draft);
+
+    expect(notification).not.toBeNull();
+    expect(statuses(deliveries)).toEqual({
+      IN_APP: NotificationDeliveryStatus.SENT,
+      EMAIL: NotificationDeliveryStatus.SENT,
+      PUSH: NotificationDeliveryStatus.SENT,
+    });
+    expect(pushSender.send).toHaveBeenCalledWith(
+      ['push-1'],
+      expect.objectContaining({ title: draft.title }),
+    );
+  });
+
+  it('skips the channels the user turned off for the type', async () => {
+    prisma.notificationSetting.findUnique.mockResolvedValue({
+      inApp: true,
+      email: false,
+      push: false,
+    });
+
+    const { deliveries } = await dispatcher.dispatch(draft);
+
+    expect(prisma.notificationSetting.findUnique).toHaveBeenCalledWith({
+      where: {
+        userId_notificationType: {
+          userId: 'user-1',
+          notificationType: NotificationType.ACCOUNT,
+        },
+      },
+    });
+    expect(createdStatuses()).toEqual({
+      IN_APP: NotificationDeliveryStatus.PENDING,
+      EMAIL: NotificationDeliveryStatus.SKIPPED,
+      PUSH: NotificationDeliveryStatus.SKIPPED,
+    });
+    expect(statuses(deliveries).IN_APP).toBe(NotificationDeliveryStatus.SENT);
+    expect(emailService.sendNotificationEmail).not.toHaveBeenCalled();
+    expect(pushSender.send).not.toHaveBeenCalled();
+  });
+
+  it('stores nothing when every channel is off', async () => {
+    prisma.notificationSetting.findUnique.mockResolvedValue({
+      inApp: false,
+      email: false,
+      push: false,
+    });
+
+    const { notification, deliveries } = await dispatcher.dispatch(draft);
+
+    expect(notification).toBeNull();
+    expect(deliveries).toHaveLength(3);
+    expect(prisma.notification.create).not.toHaveBeenCalled();
+    expect(gateway.sendToUser).not.toHaveBeenCalled();
+  });
+
+  it('limits delivery to the requested channels within the preferences', async () => {
+    prisma.notificationSetting.findUnique.mockResolvedValue({
+      inApp: false,
+      email: true,
+      push: true,
+    });
+
+    const { deliveries } = await dispatcher.dispatch({
+      ...draft,
+      channels: [NotificationChannel.IN_APP, NotificationChannel.EMAIL],
+    });
+
+    expect(statuses(deliveries)).toEqual({
+      IN_APP: NotificationDeliveryStatus.SKIPPED,
+      EMAIL: NotificationDeliveryStatus.SENT,
+      PUSH: NotificationDeliveryStatus.SKIPPED,
+    });
+  });
+
+  it('records a failed channel without blocking the others', async () => {
+    emailService.sendNotificationEmail.mockRejectedValueOnce(
+      new Error('SMTP down'),
+    );
+
+    const { deliveries } = await dispatcher.dispatch(draft);
+
+    expect(statuses(deliveries)).toEqual({
+      IN_APP: NotificationDeliveryStatus.SENT,
+      EMAIL: NotificationDeliveryStatus.FAILED,
+      PUSH: NotificationDeliveryStatus.SENT,
+    });
+    expect(prisma.notificationDelivery.update).toHaveBeenCalledWith({
+      where: {
+        notificationId_channel: {
+          notificationId: expect.any(String),
+          channel: NotificationChannel.EMAIL,
+        },
+      },
+      data: expect.objectContaining({
+        status: NotificationDeliveryStatus.FAILED,
+        error: 'SMTP down',
+        attempts: { increment: 1 },
+      }),
+    });
+  });
+
+  it('skips push when the user has no registered device', async () => {
+    prisma.device.findMany.mockResolvedValue([]);
+
+    const { deliveries } = await dispatcher.dispatch(draft);
+
+    expect(statuses(deliveries).PUSH).toBe(NotificationDeliveryStatus.SKIPPED);
+    expect(pushSender.send).not.toHaveBeenCalled();
+  });
+
+  it('lists a preference for every type, defaulting to all channels on', async () => {
+    prisma.notificationSetting.findMany.mockResolvedValue([
+      {
+        notificationType: NotificationType.MARKETING,
+        inApp: false,
+        email: false,
+        push: false,
+      },
+    ]);
+
+    const preferences = await dispatcher.getPreferences('user-1');
+
+    expect(preferences).toHaveLength(Object.values(NotificationType).length);
+    expect(preferences).toContainEqual({
+      notificationType: NotificationType.MARKETING,
+      inApp: false,
+      email: false,
+      push: false,
+    });
+    expect(preferences).toContainEqual({
+      notificationType: NotificationType.SECURITY,
+      inApp: true,
+      email: true,
+      push: true,
+    });
+  });
+});
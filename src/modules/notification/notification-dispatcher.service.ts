@@ -0,0 +1,245 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  Notification,
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationSetting,
+  NotificationType,
+} from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
+import { PrismaService } from '../../share/prisma.service';
+import { EMAIL_SERVICE } from '../email/email.di-token';
+import { IEmailService } from '../email/email.port';
+import { NOTIFICATION_NEW_EVENT } from './notification.constants';
+import { PUSH_SENDER } from './notification.di-token';
+import { NotificationGateway } from './notification.gateway';
+import {
+  ChannelPreference,
+  DeliveryResult,
+  DispatchResult,
+  INotificationDispatcher,
+  IPushSender,
+  NotificationDraft,
+} from './notification.port';
+
+const CHANNELS: NotificationChannel[] = [
+  NotificationChannel.IN_APP,
+  NotificationChannel.EMAIL,
+  NotificationChannel.PUSH,
+];
+
+// Cột error là TEXT nhưng không cần lưu cả stack trace của provider
+const MAX_ERROR_LENGTH = 1000;
+
+@Injectable()
+export class NotificationDispatcher implements INotificationDispatcher {
+  private readonly logger = new Logger(NotificationDispatcher.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationGateway: NotificationGateway,
+    @Inject(EMAIL_SERVICE) private readonly emailService: IEmailService,
+    @Inject(PUSH_SENDER) private readonly pushSender: IPushSender,
+  ) {}
+
+  async getPreferences(userId: string): Promise<ChannelPreference[]> {
+    const rows = await this.prisma.notificationSetting.findMany({
+      where: { userId },
+    });
+    const byType = new Map(rows.map((row) => [row.notificationType, row]));
+
+    return Object.values(NotificationType).map((notificationType) =>
+      this.toPreference(notificationType, byType.get(notificationType)),
+    );
+  }
+
+  async dispatch(draft: NotificationDraft): Promise<DispatchResult> {
+    const preference = await this.getPreference(draft.userId, draft.type);
+    const allowed = (channel: NotificationChannel) =>
+      !draft.channels || draft.channels.includes(channel);
+    const enabled: Record<NotificationChannel, boolean> = {
+      [NotificationChannel.IN_APP]:
+        preference.inApp && allowed(NotificationChannel.IN_APP),
+      [NotificationChannel.EMAIL]:
+        preference.email && allowed(NotificationChannel.EMAIL),
+      [NotificationChannel.PUSH]:
+        preference.push && allowed(NotificationChannel.PUSH),
+    };
+
+    // User tắt hết kênh của loại này: không lưu gì cả
+    if (!CHANNELS.some((channel) => enabled[channel])) {
+      this.logger.debug(
+        `All channels disabled for ${draft.type} by user ${draft.userId}, skipping`,
+      );
+      return {
+        notification: null,
+        deliveries: CHANNELS.map((channel) => ({
+          channel,
+          status: NotificationDeliveryStatus.SKIPPED,
+        })),
+      };
+    }
+
+    const notification = await this.prisma.notification.create({
+      data: {
+        id: draft.id || uuidv4(),
+        userId: draft.userId,
+        title: draft.title,
+        content: draft.content,
+        type: draft.type,
+        data: draft.data || {},
+        isRead: false,
+        deliveries: {
+          create: CHANNELS.map((channel) => ({
+            channel,
+            status: enabled[channel]
+              ? NotificationDeliveryStatus.PENDING
+              : NotificationDeliveryStatus.SKIPPED,
+          })),
+        },
+      },
+    });
+
+    // Các kênh độc lập nhau: email lỗi không chặn in-app/push
+    const deliveries = await Promise.all(
+      CHANNELS.map((channel) =>
+        enabled[channel]
+          ? this.deliver(channel, notification)
+          : Promise.resolve({
+              channel,
+              status: NotificationDeliveryStatus.SKIPPED,
+            }),
+      ),
+    );
+
+    return { notification, deliveries };
+  }
+
+  private async getPreference(
+    userId: string,
+    notificationType: NotificationType,
+  ): Promise<ChannelPreference> {
+    const row = await this.prisma.notificationSetting.findUnique({
+      where: { userId_notificationType: { userId, notificationType } },
+    });
+    return this.toPreference(notificationType, row);
+  }
+
+  // Chưa có dòng cài đặt nghĩa là bật tất cả các kênh
+  private toPreference(
+    notificationType: NotificationType,
+    row?: Pick<NotificationSetting, 'inApp' | 'email' | 'push'> | null,
+  ): ChannelPreference {
+    return {
+      notificationType,
+      inApp: row?.inApp ?? true,
+      email: row?.email ?? true,
+      push: row?.push ?? true,
+    };
+  }
+
+  private async deliver(
+    channel: NotificationChannel,
+    notification: Notification,
+  ): Promise<DeliveryResult> {
+    let result: DeliveryResult;
+    try {
+      const status = await this.sendVia(channel, notification);
+      result = { channel, status };
+    } catch (error) {
+      this.logger.warn(
+        `Deliver notification ${notification.id} via ${channel} failed: ${error.message}`,
+      );
+      result = {
+        channel,
+        status: NotificationDeliveryStatus.FAILED,
+        error: String(error.message ?? error).slice(0, MAX_ERROR_LENGTH),
+      };
+    }
+
+    try {
+      await this.prisma.notificationDelivery.update({
+        where: {
+          notificationId_channel: {
+            notificationId: notification.id,
+            channel,
+          },
+        },
+        data: {
+          status: result.status,
+          error: result.error ?? null,
+          sentAt:
+            result.status === NotificationDeliveryStatus.SENT
+              ? new Date()
+              : null,
+          ...(result.status !== NotificationDeliveryStatus.SKIPPED && {
+            attempts: { increment: 1 },
+            lastAttemptAt: new Date(),
+          }),
+        },
+      });
+    } catch (error) {
+      // Thông báo đã gửi đi; chỉ mất trạng thái, không làm hỏng luồng chính
+      this.logger.error(
+        `Record delivery ${notification.id}/${channel} error: ${error.message}`,
+      );
+    }
+
+    return result;
+  }
+
+  // Trả về SENT khi đã gửi, SKIPPED khi kênh không có đích nhận
+  private async sendVia(
+    channel: NotificationChannel,
+    notification: Notification,
+  ): Promise<NotificationDeliveryStatus> {
+    switch (channel) {
+      case NotificationChannel.IN_APP:
+        this.notificationGateway.sendToUser(
+          notification.userId,
+          NOTIFICATION_NEW_EVENT,
+          notification,
+        );
+        return NotificationDeliveryStatus.SENT;
+
+      case NotificationChannel.EMAIL: {
+        const user = await this.prisma.user.findUnique({
+          where: { id: notification.userId },
+          select: { email: true, name: true },
+        });
+        if (!user?.email) {
+          return NotificationDeliveryStatus.SKIPPED;
+        }
+        await this.emailService.sendNotificationEmail(
+          user.email,
+          user.name,
+          notification.title,
+          notification.content,
+        );
+        return NotificationDeliveryStatus.SENT;
+      }
+
+      case NotificationChannel.PUSH: {
+        const devices = await this.prisma.device.findMany({
+          where: { userId: notification.userId, pushToken: { not: null } },
+          select: { pushToken: true },
+        });
+        const tokens = devices
+          .map((device) => device.pushToken)
+          .filter((token): token is string => !!token);
+        if (tokens.length === 0) {
+          return NotificationDeliveryStatus.SKIPPED;
+        }
+        await this.pushSender.send(tokens, {
+          title: notification.title,
+          body: notification.content,
+          data: {
+            notificationId: notification.id,
+            type: notification.type,
+          },
+        });
+        return NotificationDeliveryStatus.SENT;
+      }
+    }
+  }
+}
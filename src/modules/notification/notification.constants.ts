@@ -0,0 +1,28 @@
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  Prisma,
+} from '@prisma/client';
+
+// Thông báo user đã tắt kênh in-app vẫn được lưu để ghi trạng thái email/push,
+// nhưng không hiện trong hộp thư thông báo
+export const VISIBLE_IN_APP: Prisma.NotificationWhereInput = {
+  deliveries: {
+    none: {
+      channel: NotificationChannel.IN_APP,
+      status: NotificationDeliveryStatus.SKIPPED,
+    },
+  },
+};
+
+// Event client nhận thông báo mới và phải ack lại
+export const NOTIFICATION_NEW_EVENT = 'notification:new';
+
+// Số thông báo tối đa gửi bù mỗi lần client kết nối lại
+export const REPLAY_LIMIT = 100;
+// Không có cursor thì chỉ gửi bù thông báo chưa ack trong khoảng này
+export const REPLAY_WINDOW_DAYS = 7;
+
+// Gửi lại thông báo chưa ack sau khoảng này, tối đa số lần này
+export const ACK_RETRY_DELAY_SECONDS = 30;
+export const ACK_MAX_ATTEMPTS = 5;
@@ -5,14 +5,16 @@ import {
   Post,
   Delete,
   Param,
+  Put,
   Query,
+  Body,
   UseGuards,
   Request,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
 import { NotificationService } from './notification.service';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RemoteAuthGuard } from '../../share/guard';
 import { ReqWithRequester } from '../../share';
 import {
   ApiTags,
@@ -21,10 +23,17 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { UuidZodValidationPipe } from '../../share/pipes/uuid-validation.pipe';
+import { ZodValidationPipe } from '../../share/pipes/zod-validation.pipe';
+import {
+  NotificationPresenceQueryDTO,
+  notificationPresenceQueryDTOSchema,
+  NotificationSettingsUpdateDTO,
+  notificationSettingsUpdateDTOSchema,
+} from './notification.dto';
 
 @ApiTags('notifications')
 @Controller('notifications')
-@UseGuards(JwtAuthGuard)
+@UseGuards(RemoteAuthGuard)
 @ApiBearerAuth('JWT-auth')
 export class NotificationController {
   constructor(private readonly notificationService: NotificationService) {}
@@ -61,6 +70,54 @@ export class NotificationController {
     return { success: true, data: { count } };
   }
 
+  @ApiOperation({ summary: 'Get online status and last seen of users' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns presence across all gateway instances',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Some users are outside of your organization scope',
+  })
+  @Get('presence')
+  async getPresence(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(notificationPresenceQueryDTOSchema))
+    query: NotificationPresenceQueryDTO,
+  ) {
+    const data = await this.notificationService.getPresence(
+      req.requester,
+      query.userIds,
+    );
+    return { success: true, data };
+  }
+
+  @ApiOperation({ summary: 'Get notification channel settings per type' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns in-app/email/push flags for every notification type',
+  })
+  @Get('settings')
+  async getSettings(@Request() req: ReqWithRequester) {
+    const data = await this.notificationService.getSettings(req.requester.sub);
+    return { success: true, data };
+  }
+
+  @ApiOperation({ summary: 'Update notification channel settings' })
+  @ApiResponse({ status: 200, description: 'Returns the updated settings' })
+  @Put('settings')
+  async updateSettings(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(notificationSettingsUpdateDTOSchema))
+    dto: NotificationSettingsUpdateDTO,
+  ) {
+    const data = await this.notificationService.updateSettings(
+      req.requester.sub,
+      dto,
+    );
+    return { success: true, data };
+  }
+
   @ApiOperation({ summary: 'Mark a notification as read' })
   @ApiResponse({ status: 200, description: 'Notification marked as read' })
   @Post(':id/read')
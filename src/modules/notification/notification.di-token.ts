@@ -0,0 +1,2 @@
+export const NOTIFICATION_DISPATCHER = Symbol('NOTIFICATION_DISPATCHER');
+export const PUSH_SENDER = Symbol('PUSH_SENDER');
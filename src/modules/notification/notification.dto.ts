@@ -0,0 +1,74 @@
+import { NotificationType } from '@prisma/client';
+import { z } from 'zod';
+import { REPLAY_LIMIT } from './notification.constants';
+
+export const notificationSettingItemSchema = z
+  .object({
+    notificationType: z.nativeEnum(NotificationType),
+    inApp: z.boolean().optional(),
+    email: z.boolean().optional(),
+    push: z.boolean().optional(),
+  })
+  .refine(
+    (item) =>
+      item.inApp !== undefined ||
+      item.email !== undefined ||
+      item.push !== undefined,
+    { message: 'Cần ít nhất một kênh (inApp, email, push) để cập nhật' },
+  );
+
+export const notificationSettingsUpdateDTOSchema = z.object({
+  settings: z
+    .array(notificationSettingItemSchema)
+    .min(1, 'Danh sách cài đặt không được để trống')
+    .refine(
+      (items) =>
+        new Set(items.map((item) => item.notificationType)).size ===
+        items.length,
+      { message: 'Mỗi loại thông báo chỉ được xuất hiện một lần' },
+    ),
+});
+
+export type NotificationSettingsUpdateDTO = z.infer<
+  typeof notificationSettingsUpdateDTOSchema
+>;
+
+// ?userIds=a,b,c — giới hạn số user mỗi lần hỏi để fetchSockets không quá nặng
+export const notificationPresenceQueryDTOSchema = z.object({
+  userIds: z
+    .string()
+    .transform((value) =>
+      Array.from(
+        new Set(
+          value
+            .split(',')
+            .map((id) => id.trim())
+            .filter(Boolean),
+        ),
+      ),
+    )
+    .pipe(
+      z
+        .array(z.string())
+        .min(1, 'Cần ít nhất một userId')
+        .max(100, 'Tối đa 100 userId mỗi lần'),
+    ),
+});
+
+export type NotificationPresenceQueryDTO = z.infer<
+  typeof notificationPresenceQueryDTOSchema
+>;
+
+// Client ack một (notificationId) hoặc nhiều (notificationIds, sau replay) thông báo
+export const notificationAckDTOSchema = z.union([
+  z
+    .object({ notificationId: z.string().min(1) })
+    .transform(({ notificationId }) => ({
+      notificationIds: [notificationId],
+    })),
+  z.object({
+    notificationIds: z.array(z.string().min(1)).min(1).max(REPLAY_LIMIT),
+  }),
+]);
+
+export type NotificationAckDTO = z.infer<typeof notificationAckDTOSchema>;
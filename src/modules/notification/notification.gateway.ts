@@ -9,9 +9,36 @@ import {
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Inject, Logger, UseGuards } from '@nestjs/common';
+import { REDIS_CACHE_SERVICE } from '../../common/redis/redis.constants';
+import { RedisCacheService } from '../../common/redis/redis-cache.service';
 import { TOKEN_SERVICE } from '../auth/auth.di-token';
-import { ITokenService } from '../auth/auth.interface';
+import { ITokenService } from '../auth/auth.port';
+import { OrgPath, OrgUnitType } from '../organization/organization.model';
 import { WsJwtGuard } from './guards/ws-jwt.guard';
+import { NotificationAckService } from './notification-ack.service';
+import { NOTIFICATION_NEW_EVENT } from './notification.constants';
+import { notificationAckDTOSchema } from './notification.dto';
+import { UserPresence } from './notification.port';
+
+const LAST_SEEN_KEY_PREFIX = 'presence:last-seen:';
+// Giữ "last seen" 90 ngày; quá hạn coi như chưa từng online
+const LAST_SEEN_TTL_SECONDS = 90 * 24 * 60 * 60;
+const PRESENCE_EVENT = 'presence:update';
+
+// Room đơn vị của một user, từ cấp cao (factory) tới cấp thấp nhất (group)
+export function orgRooms(path: Partial<OrgPath>): string[] {
+  return [
+    path.factoryId && `factory:${path.factoryId}`,
+    path.lineId && `line:${path.lineId}`,
+    path.teamId && `team:${path.teamId}`,
+    path.groupId && `group:${path.groupId}`,
+  ].filter((room): room is string => !!room);
+}
+
+// Presence chỉ báo cho đồng nghiệp trong đơn vị nhỏ nhất của user, không phát toàn server
+export function presenceRoom(path: Partial<OrgPath>): string | null {
+  return orgRooms(path).at(-1) ?? null;
+}
 
 @WebSocketGateway({
   cors: {
@@ -26,10 +53,11 @@ export class NotificationGateway
   server: Server;
 
   private readonly logger = new Logger(NotificationGateway.name);
-  private userSockets: Map<string, Set<string>> = new Map();
 
   constructor(
     @Inject(TOKEN_SERVICE) private readonly tokenService: ITokenService,
+    @Inject(REDIS_CACHE_SERVICE) private readonly cache: RedisCacheService,
+    private readonly ackService: NotificationAckService,
   ) {}
 
   async handleConnection(client: Socket) {
@@ -42,7 +70,7 @@ export class NotificationGateway
         return;
       }
 
-      const payload = await this.tokenService.verifyToken(token);
+      const payload = await this.tokenService.verifyAccessToken(token);
       if (!payload) {
         this.logger.warn('Connection attempt with invalid token');
         client.disconnect();
@@ -52,67 +80,146 @@ export class NotificationGateway
       // Add client to user's socket set
       const userId = payload.sub;
       client.data.userId = userId;
+      client.data.sessionId = payload.sid;
 
-      // Add to rooms based on organizational structure
-      client.join(`user:${userId}`);
-
-      if (payload.factoryId) {
-        client.join(`factory:${payload.factoryId}`);
-      }
-      if (payload.lineId) {
-        client.join(`line:${payload.lineId}`);
-      }
-      if (payload.teamId) {
-        client.join(`team:${payload.teamId}`);
-      }
-      if (payload.groupId) {
-        client.join(`group:${payload.groupId}`);
-      }
+      // Add to rooms based on organizational structure; room session:* để ngắt khi session bị thu hồi
+      client.join([
+        `user:${userId}`,
+        `session:${payload.sid}`,
+        ...orgRooms(payload),
+      ]);
 
-      // Keep track of user's socket connections
-      if (!this.userSockets.has(userId)) {
-        this.userSockets.set(userId, new Set());
-      }
-      this.userSockets.get(userId).add(client.id);
+      // Presence dùng chung cả cluster: room user:* đi qua Redis adapter
+      const unitRoom = presenceRoom(payload);
+      client.data.presenceRooms = [
+        `user:${userId}`,
+        ...(unitRoom ? [unitRoom] : []),
+      ];
+      const lastSeen = await this.touchLastSeen(userId);
+      this.server
+        .to(client.data.presenceRooms)
+        .emit(PRESENCE_EVENT, { userId, online: true, lastSeen });
 
       this.logger.log(`Client connected: ${client.id} for user: ${userId}`);
+
+      // Gửi bù thông báo bỏ lỡ, cursor = id thông báo cuối client đã thấy
+      const cursor = client.handshake.auth.cursor;
+      await this.replayMissed(
+        client,
+        userId,
+        typeof cursor === 'string' ? cursor : null,
+      );
     } catch (error) {
       this.logger.error(`Socket connection error: ${error.message}`);
       client.disconnect();
     }
   }
 
-  handleDisconnect(client: Socket) {
+  async handleDisconnect(client: Socket) {
     const userId = client.data.userId;
     if (userId) {
-      const sockets = this.userSockets.get(userId);
-      if (sockets) {
-        sockets.delete(client.id);
-        if (sockets.size === 0) {
-          this.userSockets.delete(userId);
+      try {
+        // Socket đã rời room khi tới đây; còn socket khác (ở node nào cũng được) thì vẫn online
+        const remaining = await this.server.in(`user:${userId}`).fetchSockets();
+        if (remaining.length === 0) {
+          const lastSeen = await this.touchLastSeen(userId);
+          this.server
+            .to(client.data.presenceRooms ?? `user:${userId}`)
+            .emit(PRESENCE_EVENT, { userId, online: false, lastSeen });
         }
+      } catch (error) {
+        this.logger.warn(
+          `Update presence for user ${userId} failed: ${error.message}`,
+        );
       }
     }
     this.logger.log(`Client disconnected: ${client.id}`);
   }
 
+  // Trạng thái online/last seen của các user trên toàn cluster
+  async getPresence(userIds: string[]): Promise<UserPresence[]> {
+    const sockets = await this.server
+      .in(userIds.map((userId) => `user:${userId}`))
+      .fetchSockets();
+    const online = new Set(sockets.map((socket) => socket.data.userId));
+
+    return Promise.all(
+      userIds.map(async (userId) => {
+        const lastSeen = await this.cache.get<string>(
+          `${LAST_SEEN_KEY_PREFIX}${userId}`,
+        );
+        return {
+          userId,
+          online: online.has(userId),
+          lastSeen: lastSeen ? new Date(lastSeen) : null,
+        };
+      }),
+    );
+  }
+
+  private async replayMissed(
+    client: Socket,
+    userId: string,
+    cursor: string | null,
+  ) {
+    try {
+      const { notifications, hasMore } = await this.ackService.findMissed(
+        userId,
+        cursor,
+      );
+      for (const notification of notifications) {
+        client.emit(NOTIFICATION_NEW_EVENT, notification);
+      }
+      await this.ackService.recordAttempts(
+        notifications.map((notification) => notification.id),
+      );
+
+      // hasMore: client gọi GET /notifications để lấy phần còn lại
+      client.emit('notification:replayed', {
+        count: notifications.length,
+        hasMore,
+        cursor: notifications.at(-1)?.id ?? cursor,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Replay notifications for user ${userId} failed: ${error.message}`,
+      );
+    }
+  }
+
+  private async touchLastSeen(userId: string): Promise<Date> {
+    const now = new Date();
+    await this.cache.set(
+      `${LAST_SEEN_KEY_PREFIX}${userId}`,
+      now.toISOString(),
+      LAST_SEEN_TTL_SECONDS,
+    );
+    return now;
+  }
+
   // Send notification to specific user
   sendToUser(userId: string, event: string, data: any) {
     this.server.to(`user:${userId}`).emit(event, data);
     this.logger.debug(`Sent ${event} to user ${userId}`);
   }
 
-  // Send notification to all users in an organizational unit
-  sendToOrganizationalUnit(
-    unitType: string,
-    unitId: string,
-    event: string,
-    data: any,
-  ) {
-    this.server.to(`${unitType}:${unitId}`).emit(event, data);
+  // Send notification to all users in an organizational unit (mọi node)
+  sendToUnit(unitType: OrgUnitType, unitId: string, event: string, data: any) {
+    this.server.to(`${unitType.toLowerCase()}:${unitId}`).emit(event, data);
     this.logger.debug(`Sent ${event} to ${unitType} ${unitId}`);
   }
 
+  // Ngắt mọi socket (ở node nào cũng được) của các session đã bị thu hồi
+  disconnectSessions(sessionIds: string[]) {
+    if (sessionIds.length === 0) {
+      return;
+    }
+    this.server
+      .in(sessionIds.map((sessionId) => `session:${sessionId}`))
+      .disconnectSockets(true);
+    this.logger.debug(`Disconnected sockets of ${sessionIds.length} sessions`);
+  }
+
   // Broadcast to all connected clients
   broadcast(event: string, data: any) {
     this.server.emit(event, data);
@@ -122,13 +229,39 @@ export class NotificationGateway
   // Listen for read/unread status changes
   @UseGuards(WsJwtGuard)
   @SubscribeMessage('notification:read')
-  handleNotificationRead(client: Socket, payload: { notificationId: string }) {
+  async handleNotificationRead(
+    client: Socket,
+    payload: { notificationId: string },
+  ) {
     try {
-      // Update business logic for read notification
+      const updated = await this.ackService.markAsRead(
+        client.data.userId,
+        payload.notificationId,
+      );
       this.logger.log(
         `Notification ${payload.notificationId} marked as read by ${client.data.userId}`,
       );
-      return { success: true };
+      return { success: updated };
+    } catch (error) {
+      throw new WsException(error.message);
+    }
+  }
+
+  // Client xác nhận đã nhận notification:new; chưa ack sẽ được gửi lại
+  @UseGuards(WsJwtGuard)
+  @SubscribeMessage('notification:ack')
+  async handleNotificationAck(client: Socket, payload: unknown) {
+    const parsed = notificationAckDTOSchema.safeParse(payload);
+    if (!parsed.success) {
+      throw new WsException('Invalid ack payload');
+    }
+
+    try {
+      const count = await this.ackService.acknowledge(
+        client.data.userId,
+        parsed.data.notificationIds,
+      );
+      return { success: true, count };
     } catch (error) {
       throw new WsException(error.message);
     }
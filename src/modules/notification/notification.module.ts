@@ -1,16 +1,60 @@
 // src/modules/notification/notification.module.ts
 import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { NotificationGateway } from './notification.gateway';
 import { PrismaService } from '../../share/prisma.service';
+import { ShareModule } from '../../share/module';
+import { AuthModule } from '../auth/auth.module';
+import { EmailModule } from '../email/email.module';
 import { UserModule } from '../user/user.module';
+import { OrganizationModule } from '../organization/organization.module';
 import { RedisModule } from '../../common/redis';
 import { NotificationService } from './notification.service';
 import { NotificationController } from './notification.controller';
+import { NotificationDispatcher } from './notification-dispatcher.service';
+import { NotificationAckService } from './notification-ack.service';
+import { NOTIFICATION_DISPATCHER, PUSH_SENDER } from './notification.di-token';
+import { WsJwtGuard } from './guards/ws-jwt.guard';
+import { ConsolePushSender } from './push/console-push.sender';
+import { HttpPushSender } from './push/http-push.sender';
 
 @Module({
-  imports: [UserModule, RedisModule],
-  providers: [NotificationService, NotificationGateway, PrismaService],
+  imports: [
+    ConfigModule,
+    ShareModule,
+    UserModule,
+    OrganizationModule,
+    RedisModule,
+    AuthModule,
+    EmailModule,
+  ],
+  providers: [
+    NotificationService,
+    NotificationGateway,
+    NotificationAckService,
+    WsJwtGuard,
+    PrismaService,
+    {
+      provide: NOTIFICATION_DISPATCHER,
+      useClass: NotificationDispatcher,
+    },
+    {
+      provide: PUSH_SENDER,
+      useFactory: (configService: ConfigService) => {
+        const gatewayUrl = configService.get<string>('PUSH_GATEWAY_URL');
+        if (gatewayUrl) {
+          return new HttpPushSender(
+            gatewayUrl,
+            configService.get<string>('PUSH_GATEWAY_API_KEY'),
+          );
+        } else {
+          return new ConsolePushSender();
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
   controllers: [NotificationController],
-  exports: [NotificationService],
+  exports: [NotificationService, NotificationGateway, NOTIFICATION_DISPATCHER],
 })
 export class NotificationModule {}
@@ -0,0 +1,59 @@
+import {
+  Notification,
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationType,
+} from '@prisma/client';
+
+// Cờ bật/tắt từng kênh của một loại thông báo
+export interface ChannelPreference {
+  notificationType: NotificationType;
+  inApp: boolean;
+  email: boolean;
+  push: boolean;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+// Gửi push tới các token thiết bị; throw khi provider từ chối
+export interface IPushSender {
+  send(tokens: string[], message: PushMessage): Promise<void>;
+}
+
+export interface NotificationDraft {
+  id?: string;
+  userId: string;
+  title: string;
+  content: string;
+  type: NotificationType;
+  data?: any;
+  // Chỉ gửi qua các kênh này (vẫn theo cài đặt của user); bỏ trống = mọi kênh
+  channels?: NotificationChannel[];
+}
+
+export interface DeliveryResult {
+  channel: NotificationChannel;
+  status: NotificationDeliveryStatus;
+  error?: string | null;
+}
+
+export interface DispatchResult {
+  notification: Notification | null;
+  deliveries: DeliveryResult[];
+}
+
+export interface UserPresence {
+  userId: string;
+  online: boolean;
+  lastSeen: Date | null;
+}
+
+export interface INotificationDispatcher {
+  // Lưu thông báo rồi gửi qua các kênh user cho phép; null khi user tắt hết kênh
+  dispatch(draft: NotificationDraft): Promise<DispatchResult>;
+  getPreferences(userId: string): Promise<ChannelPreference[]>;
+}
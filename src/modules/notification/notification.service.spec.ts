@@ -0,0 +1,259 @@
+import { AppError, Requester, UserRole } from '../../share';
+import { EvtLeaveApproved, EvtSuspiciousLogin } from '../../share/event';
+import { NotificationService } from './notification.service';
+
+describe('NotificationService event handlers', () => {
+  const handlers = new Map<string, (message: string) => Promise<void>>();
+  const redisPublisher = {
+    subscribe: jest.fn(
+      async (channel: string, handler: (message: string) => Promise<void>) => {
+        handlers.set(channel, handler);
+      },
+    ),
+  };
+  const dispatcher = {
+    dispatch: jest.fn().mockResolvedValue({ notification: null }),
+  };
+  // SET NX: lần đầu giành được, các replica sau nhận null
+  const claimed = new Set<string>();
+  const redisClient = {
+    set: jest.fn(async (key: string) => {
+      if (claimed.has(key)) {
+        return null;
+      }
+      claimed.add(key);
+      return 'OK';
+    }),
+  };
+
+  new NotificationService(
+    {} as any,
+    {} as any,
+    {} as any,
+    redisPublisher as any,
+    dispatcher as any,
+    redisClient as any,
+    {} as any,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    claimed.clear();
+  });
+
+  const deliver = async (channel: string, message: object) => {
+    // Mỗi replica đều nhận cùng một message pub/sub
+    await handlers.get(channel)!(JSON.stringify(message));
+    await handlers.get(channel)!(JSON.stringify(message));
+  };
+
+  it('alerts a suspicious login only once across replicas', async () => {
+    await deliver(EvtSuspiciousLogin, {
+      id: 'event-1',
+      eventName: EvtSuspiciousLogin,
+      payload: {
+        userId: 'user-1',
+        loginEventId: 'login-1',
+        device: 'Chrome on Windows',
+        location: 'Hanoi, VN',
+        reasons: ['new_device'],
+      },
+    });
+
+    expect(dispatcher.dispatch).toHaveBeenCalledTimes(1);
+    expect(redisClient.set).toHaveBeenCalledWith(
+      `notification:event:${EvtSuspiciousLogin}:event-1`,
+      '1',
+      'EX',
+      expect.any(Number),
+      'NX',
+    );
+  });
+
+  it('notifies a leave decision only once across replicas', async () => {
+    await deliver(EvtLeaveApproved, {
+      id: 'event-2',
+      eventName: EvtLeaveApproved,
+      payload: {
+        leaveRequestId: 'leave-1',
+        userId: 'user-2',
+        approverId: 'manager-1',
+        leaveType: 'ANNUAL',
+        status: 'APPROVED',
+        startDate: '2026-10-20',
+        endDate: '2026-10-21',
+        days: 2,
+      },
+    });
+
+    expect(dispatcher.dispatch).toHaveBeenCalledTimes(1);
+    expect(dispatcher.dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-2' }),
+    );
+  });
+
+  it('still notifies when the claim cannot be recorded', async () => {
+    redisClient.set.mockRejectedValueOnce(new Error('connection lost'));
+
+    await handlers.get(EvtLeaveApproved)!(
+      JSON.stringify({
+        id: 'event-3',
+        payload: {
+          leaveRequestId: 'leave-2',
+          userId: 'user-3',
+          leaveType: 'ANNUAL',
+          status: 'APPROVED',
+          startDate: '2026-10-22',
+          endDate: '2026-10-22',
+          days: 1,
+        },
+      }),
+    );
+
+    expect(dispatcher.dispatch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('NotificationService.getPresence', () => {
+  const prisma = { orgMembership: { findMany: jest.fn() } };
+  const gateway = {
+    getPresence: jest.fn(async (userIds: string[]) =>
+      userIds.map((userId) => ({ userId, online: true, lastSeen: null })),
+    ),
+  };
+  const organizationService = { getScopeFilter: jest.fn() };
+  const service = new NotificationService(
+    prisma as any,
+    gateway as any,
+    {} as any,
+    { subscribe: jest.fn() } as any,
+    {} as any,
+    {} as any,
+    organizationService as any,
+  );
+
+  const worker = {
+    sub: 'worker-1',
+    role: UserRole.WORKER,
+    factoryId: 'factory-1',
+    lineId: 'line-1',
+    teamId: 'team-1',
+  } as Requester;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    organizationService.getScopeFilter.mockReturnValue(null);
+    prisma.orgMembership.findMany.mockResolvedValue([
+      {
+        userId: 'teammate',
+        factoryId: 'factory-1',
+        lineId: 'line-1',
+        teamId: 'team-1',
+        groupId: null,
+      },
+      {
+        userId: 'other-team',
+        factoryId: 'factory-1',
+        lineId: 'line-1',
+        teamId: 'team-2',
+        groupId: null,
+      },
+    ]);
+  });
+
+  it('returns presence of the requester and colleagues in the same unit', async () => {
+    const result = await service.getPresence(worker, ['worker-1', 'teammate']);
+
+    expect(result.map((item) => item.userId)).toEqual(['worker-1', 'teammate']);
+  });
+
+  it('rejects users outside the shared units and management scope', async () => {
+    const error = (await service
+      .getPresence(worker, ['teammate', 'other-team', 'unknown'])
+      .catch((e) => e)) as AppError;
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(403);
+    expect(gateway.getPresence).not.toHaveBeenCalled();
+  });
+
+  it('lets managers see everyone in their scope', async () => {
+    organizationService.getScopeFilter.mockReturnValue({ lineId: 'line-1' });
+
+    const result = await service.getPresence(
+      { ...worker, role: UserRole.LINE_MANAGER, teamId: undefined },
+      ['teammate', 'other-team'],
+    );
+
+    expect(result).toHaveLength(2);
+  });
+});
+
+describe('NotificationService.retryUnacknowledged', () => {
+  const gateway = {
+    getPresence: jest.fn(),
+    sendToUser: jest.fn(),
+  };
+  const ackService = {
+    findRetryable: jest.fn(),
+    claimRetry: jest.fn(),
+    markExhausted: jest.fn(),
+  };
+  const service = new NotificationService(
+    {} as any,
+    gateway as any,
+    ackService as any,
+    { subscribe: jest.fn() } as any,
+    {} as any,
+    {} as any,
+    {} as any,
+  );
+
+  const notification = (id: string, userId: string) => ({ id, userId });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ackService.claimRetry.mockResolvedValue(true);
+    ackService.markExhausted.mockResolvedValue(0);
+    gateway.getPresence.mockResolvedValue([
+      { userId: 'online', online: true, lastSeen: null },
+      { userId: 'offline', online: false, lastSeen: null },
+    ]);
+  });
+
+  it('re-sends unacknowledged notifications to online users only', async () => {
+    ackService.findRetryable.mockResolvedValue([
+      notification('notification-1', 'online'),
+      notification('notification-2', 'offline'),
+    ]);
+
+    await expect(service.retryUnacknowledged()).resolves.toBe(1);
+
+    expect(ackService.claimRetry).toHaveBeenCalledTimes(1);
+    expect(gateway.sendToUser).toHaveBeenCalledWith(
+      'online',
+      'notification:new',
+      notification('notification-1', 'online'),
+    );
+  });
+
+  it('leaves notifications claimed by another replica alone', async () => {
+    ackService.findRetryable.mockResolvedValue([
+      notification('notification-1', 'online'),
+    ]);
+    ackService.claimRetry.mockResolvedValue(false);
+
+    await expect(service.retryUnacknowledged()).resolves.toBe(0);
+
+    expect(gateway.sendToUser).not.toHaveBeenCalled();
+  });
+
+  it('fails deliveries that ran out of attempts on every run', async () => {
+    ackService.findRetryable.mockResolvedValue([]);
+
+    await service.retryUnacknowledged();
+
+    expect(gateway.getPresence).not.toHaveBeenCalled();
+    expect(ackService.markExhausted).toHaveBeenCalledTimes(1);
+  });
+});
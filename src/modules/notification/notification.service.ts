@@ -1,11 +1,93 @@
 // src/modules/notification/notification.service.ts
 import { Injectable, Logger, Inject } from '@nestjs/common';
 import { PrismaService } from '../../share/prisma.service';
-import { NotificationGateway } from './notification.gateway';
-import { NotificationType } from '@prisma/client';
-import { REDIS_PUBLISHER } from '../../common/redis/redis.constants';
+import { AppError, Requester } from '../../share';
+import { ORGANIZATION_SERVICE } from '../organization/organization.di-token';
+import { IOrganizationService } from '../organization/organization.port';
+import {
+  NotificationGateway,
+  orgRooms,
+  presenceRoom,
+} from './notification.gateway';
+import { NotificationChannel, NotificationType } from '@prisma/client';
+import Redis from 'ioredis';
+import {
+  REDIS_CLIENT,
+  REDIS_PUBLISHER,
+} from '../../common/redis/redis.constants';
 import { IRedisPublisher } from '../../common/redis/redis.interfaces';
-import { v4 as uuidv4 } from 'uuid';
+import {
+  EvtLeaveApproved,
+  EvtLeaveCancelled,
+  EvtLeaveRejected,
+  EvtLeaveRequested,
+  EvtSessionRevoked,
+  EvtSuspiciousLogin,
+  LeaveEventPayload,
+  SessionRevokedPayload,
+  SuspiciousLoginPayload,
+} from '../../share/event';
+import { NotificationAckService } from './notification-ack.service';
+import {
+  NOTIFICATION_NEW_EVENT,
+  VISIBLE_IN_APP,
+} from './notification.constants';
+import { NOTIFICATION_DISPATCHER } from './notification.di-token';
+import { NotificationSettingsUpdateDTO } from './notification.dto';
+import {
+  ChannelPreference,
+  INotificationDispatcher,
+  UserPresence,
+} from './notification.port';
+
+// Nội dung thông báo cho từng event nghỉ phép: gửi cho ai và nói gì
+const LEAVE_NOTIFICATIONS: Record<
+  string,
+  {
+    recipient: (payload: LeaveEventPayload) => string | null;
+    title: string;
+    content: (payload: LeaveEventPayload) => string;
+  }
+> = {
+  [EvtLeaveRequested]: {
+    recipient: (payload) => payload.approverId,
+    title: 'Leave request awaiting approval',
+    content: (payload) =>
+      `A ${payload.leaveType} request for ${payload.days} day(s) from ${payload.startDate} to ${payload.endDate} needs your approval`,
+  },
+  [EvtLeaveCancelled]: {
+    recipient: (payload) => payload.approverId,
+    title: 'Leave request cancelled',
+    content: (payload) =>
+      `The ${payload.leaveType} request from ${payload.startDate} to ${payload.endDate} has been cancelled`,
+  },
+  [EvtLeaveApproved]: {
+    recipient: (payload) => payload.userId,
+    title: 'Leave request approved',
+    content: (payload) =>
+      `Your ${payload.leaveType} request from ${payload.startDate} to ${payload.endDate} has been approved`,
+  },
+  [EvtLeaveRejected]: {
+    recipient: (payload) => payload.userId,
+    title: 'Leave request rejected',
+    content: (payload) =>
+      `Your ${payload.leaveType} request from ${payload.startDate} to ${payload.endDate} was rejected` +
+      (payload.comment ? `: ${payload.comment}` : ''),
+  },
+};
+
+// Pub/sub gửi event tới mọi replica; event id được giành bằng SET NX để chỉ một replica xử lý
+const EVENT_CLAIM_PREFIX = 'notification:event:';
+const EVENT_CLAIM_TTL = 24 * 60 * 60;
+
+// Mô tả dấu hiệu rủi ro đăng nhập trong thông báo
+const LOGIN_RISK_LABELS: Record<string, string> = {
+  new_device: 'a device not used before',
+  new_network: 'a new network',
+  new_country: 'a new country',
+  impossible_travel: 'a location too far from your previous sign-in',
+  unusual_hour: 'an unusual time',
+};
 
 @Injectable()
 export class NotificationService {
@@ -14,10 +96,106 @@ export class NotificationService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly notificationGateway: NotificationGateway,
+    private readonly ackService: NotificationAckService,
     @Inject(REDIS_PUBLISHER) private readonly redisPublisher: IRedisPublisher,
+    @Inject(NOTIFICATION_DISPATCHER)
+    private readonly dispatcher: INotificationDispatcher,
+    @Inject(REDIS_CLIENT) private readonly redisClient: Redis,
+    @Inject(ORGANIZATION_SERVICE)
+    private readonly organizationService: IOrganizationService,
   ) {
     // Subscribe to notification events
     this.subscribeToNotificationEvents();
+    this.subscribeToLeaveEvents();
+    this.subscribeToSecurityEvents();
+  }
+
+  private async subscribeToSecurityEvents() {
+    await this.redisPublisher.subscribe(EvtSuspiciousLogin, async (message) => {
+      try {
+        const event = JSON.parse(message);
+        if (!(await this.claimEvent(EvtSuspiciousLogin, event.id))) {
+          return;
+        }
+        const payload: SuspiciousLoginPayload = event.payload;
+        const signals = payload.reasons
+          .map((reason) => LOGIN_RISK_LABELS[reason] ?? reason)
+          .join(', ');
+
+        // Email cảnh báo (kèm link "không phải tôi") đã do auth gửi
+        await this.dispatcher.dispatch({
+          userId: payload.userId,
+          title: 'New sign-in to your account',
+          content:
+            `Signed in from ${payload.device}, ${payload.location}` +
+            (signals ? ` (${signals})` : '') +
+            `. If this wasn't you, sign out all sessions and change your password.`,
+          type: NotificationType.SECURITY,
+          data: {
+            kind: 'login',
+            event: EvtSuspiciousLogin,
+            loginEventId: payload.loginEventId,
+            reasons: payload.reasons,
+          },
+          channels: [NotificationChannel.IN_APP, NotificationChannel.PUSH],
+        });
+      } catch (error) {
+        this.logger.error(
+          `Error processing ${EvtSuspiciousLogin} event: ${error.message}`,
+        );
+      }
+    });
+
+    await this.redisPublisher.subscribe(EvtSessionRevoked, async (message) => {
+      try {
+        const event = JSON.parse(message);
+        if (!(await this.claimEvent(EvtSessionRevoked, event.id))) {
+          return;
+        }
+        const payload: SessionRevokedPayload = event.payload;
+        this.notificationGateway.disconnectSessions(payload.sessionIds);
+      } catch (error) {
+        this.logger.error(
+          `Error processing ${EvtSessionRevoked} event: ${error.message}`,
+        );
+      }
+    });
+  }
+
+  private async subscribeToLeaveEvents() {
+    for (const [eventName, template] of Object.entries(LEAVE_NOTIFICATIONS)) {
+      await this.redisPublisher.subscribe(eventName, async (message) => {
+        try {
+          const event = JSON.parse(message);
+          if (!(await this.claimEvent(eventName, event.id))) {
+            return;
+          }
+          const payload: LeaveEventPayload = event.payload;
+          // Đơn không có người duyệt (chờ admin) thì không có ai để báo
+          const recipientId = template.recipient(payload);
+          if (!recipientId) {
+            return;
+          }
+
+          await this.createNotification(
+            recipientId,
+            template.title,
+            template.content(payload),
+            NotificationType.SYSTEM,
+            {
+              kind: 'leave',
+              event: eventName,
+              leaveRequestId: payload.leaveRequestId,
+              status: payload.status,
+            },
+          );
+        } catch (error) {
+          this.logger.error(
+            `Error processing ${eventName} event: ${error.message}`,
+          );
+        }
+      });
+    }
   }
 
   private async subscribeToNotificationEvents() {
@@ -40,17 +218,43 @@ export class NotificationService {
     );
   }
 
+  // false khi replica khác đã nhận xử lý event này
+  private async claimEvent(
+    eventName: string,
+    eventId: string | undefined,
+  ): Promise<boolean> {
+    if (!eventId) {
+      return true;
+    }
+    try {
+      const claimed = await this.redisClient.set(
+        `${EVENT_CLAIM_PREFIX}${eventName}:${eventId}`,
+        '1',
+        'EX',
+        EVENT_CLAIM_TTL,
+        'NX',
+      );
+      return claimed === 'OK';
+    } catch (error) {
+      // Redis lỗi: thà gửi trùng còn hơn mất thông báo bảo mật/nghỉ phép
+      this.logger.error(
+        `Claim ${eventName} event ${eventId} error: ${error.message}`,
+      );
+      return true;
+    }
+  }
+
   async getUserNotifications(userId: string, page = 1, limit = 10) {
     try {
       const [notifications, totalCount] = await Promise.all([
         this.prisma.notification.findMany({
-          where: { userId },
+          where: { userId, ...VISIBLE_IN_APP },
           orderBy: { createdAt: 'desc' },
           skip: (page - 1) * limit,
           take: limit,
         }),
         this.prisma.notification.count({
-          where: { userId },
+          where: { userId, ...VISIBLE_IN_APP },
         }),
       ]);
 
@@ -72,6 +276,7 @@ export class NotificationService {
         where: {
           userId,
           isRead: false,
+          ...VISIBLE_IN_APP,
         },
       });
       return count;
@@ -83,15 +288,7 @@ export class NotificationService {
 
   async markAsRead(userId: string, notificationId: string) {
     try {
-      await this.prisma.notification.updateMany({
-        where: {
-          id: notificationId,
-          userId,
-        },
-        data: {
-          isRead: true,
-        },
-      });
+      await this.ackService.markAsRead(userId, notificationId);
       return { success: true };
     } catch (error) {
       this.logger.error(`Error marking notification as read: ${error.message}`);
@@ -101,15 +298,27 @@ export class NotificationService {
 
   async markAllAsRead(userId: string) {
     try {
-      await this.prisma.notification.updateMany({
-        where: {
-          userId,
-          isRead: false,
-        },
-        data: {
-          isRead: true,
-        },
-      });
+      const readAt = new Date();
+      await this.prisma.$transaction([
+        // Read receipt của announcement đi theo thông báo tương ứng
+        this.prisma.announcementRecipient.updateMany({
+          where: {
+            userId,
+            readAt: null,
+            notification: { isRead: false },
+          },
+          data: { readAt },
+        }),
+        this.prisma.notification.updateMany({
+          where: {
+            userId,
+            isRead: false,
+          },
+          data: {
+            isRead: true,
+          },
+        }),
+      ]);
       return { success: true };
     } catch (error) {
       this.logger.error(
@@ -127,24 +336,14 @@ export class NotificationService {
     data?: any,
   ) {
     try {
-      const notification = await this.prisma.notification.create({
-        data: {
-          id: uuidv4(),
-          userId,
-          title,
-          content,
-          type,
-          data: data || {},
-          isRead: false,
-        },
-      });
-
-      // Send real-time notification
-      this.notificationGateway.sendToUser(
+      // Gửi qua các kênh theo cài đặt của user; null nếu user tắt hết
+      const { notification } = await this.dispatcher.dispatch({
         userId,
-        'notification:new',
-        notification,
-      );
+        title,
+        content,
+        type,
+        data,
+      });
 
       return notification;
     } catch (error) {
@@ -169,27 +368,140 @@ export class NotificationService {
         return;
       }
 
-      // Create the notification in the database
-      const newNotification = await this.prisma.notification.create({
-        data: {
-          id: notification.id || uuidv4(),
-          userId: notification.userId,
-          title: notification.title,
-          content: notification.content,
-          type: notification.type,
-          data: notification.data || {},
-          isRead: false,
-        },
+      await this.dispatcher.dispatch({
+        id: notification.id,
+        userId: notification.userId,
+        title: notification.title,
+        content: notification.content,
+        type: notification.type,
+        data: notification.data,
+      });
+    } catch (error) {
+      this.logger.error(`Error processing notification: ${error.message}`);
+    }
+  }
+
+  // Chỉ xem được presence của người mình quản lý hoặc cùng đơn vị (cùng room nhận presence:update)
+  async getPresence(
+    requester: Requester,
+    userIds: string[],
+  ): Promise<UserPresence[]> {
+    try {
+      const scope = this.organizationService.getScopeFilter(requester);
+      const sharedRooms = new Set(orgRooms(requester));
+      const memberships = await this.prisma.orgMembership.findMany({
+        where: { userId: { in: userIds } },
+      });
+      const pathByUser = new Map(memberships.map((m) => [m.userId, m]));
+
+      const outOfScope = userIds.filter((userId) => {
+        if (userId === requester.sub) {
+          return false;
+        }
+        const path = pathByUser.get(userId);
+        if (!path) {
+          return !scope || Object.keys(scope).length > 0;
+        }
+        const room = presenceRoom(path);
+        if (room && sharedRooms.has(room)) {
+          return false;
+        }
+        return (
+          !scope ||
+          Object.entries(scope).some(
+            ([field, id]) => path[field as keyof typeof scope] !== id,
+          )
+        );
       });
+      if (outOfScope.length > 0) {
+        throw AppError.from(
+          new Error('Some users are outside of your organization scope'),
+          403,
+        ).withDetail('userIds', outOfScope);
+      }
+
+      return await this.notificationGateway.getPresence(userIds);
+    } catch (error) {
+      this.logger.error(`Error getting presence: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // Gửi lại thông báo in-app chưa được ack; trả về số thông báo đã gửi lại
+  async retryUnacknowledged(batchSize = 200): Promise<number> {
+    try {
+      const pending = await this.ackService.findRetryable(batchSize);
+      let retried = 0;
+
+      if (pending.length > 0) {
+        // User offline không gửi lại (không tốn lượt), sẽ nhận qua replay khi kết nối
+        const presence = await this.notificationGateway.getPresence([
+          ...new Set(pending.map((notification) => notification.userId)),
+        ]);
+        const online = new Set(
+          presence.filter((item) => item.online).map((item) => item.userId),
+        );
+
+        for (const notification of pending) {
+          if (!online.has(notification.userId)) continue;
+          if (!(await this.ackService.claimRetry(notification.id))) continue;
 
-      // Send real-time notification
-      this.notificationGateway.sendToUser(
-        notification.userId,
-        'notification:new',
-        newNotification,
+          this.notificationGateway.sendToUser(
+            notification.userId,
+            NOTIFICATION_NEW_EVENT,
+            notification,
+          );
+          retried++;
+        }
+      }
+
+      const exhausted = await this.ackService.markExhausted();
+      if (exhausted > 0) {
+        this.logger.warn(
+          `${exhausted} notification(s) not acknowledged after max attempts`,
+        );
+      }
+
+      return retried;
+    } catch (error) {
+      this.logger.error(
+        `Error retrying unacknowledged notifications: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  async getSettings(userId: string): Promise<ChannelPreference[]> {
+    try {
+      return await this.dispatcher.getPreferences(userId);
+    } catch (error) {
+      this.logger.error(
+        `Error getting notification settings: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+
+  async updateSettings(
+    userId: string,
+    dto: NotificationSettingsUpdateDTO,
+  ): Promise<ChannelPreference[]> {
+    try {
+      await this.prisma.$transaction(
+        dto.settings.map(({ notificationType, inApp, email, push }) =>
+          this.prisma.notificationSetting.upsert({
+            where: { userId_notificationType: { userId, notificationType } },
+            create: { userId, notificationType, inApp, email, push },
+            update: { inApp, email, push },
+          }),
+        ),
       );
+      return await this.dispatcher.getPreferences(userId);
     } catch (error) {
-      this.logger.error(`Error processing notification: ${error.message}`);
+      this.logger.error(
+        `Error updating notification settings: ${error.message}`,
+      );
+      throw error;
     }
   }
 
@@ -0,0 +1,16 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IPushSender, PushMessage } from '../notification.port';
+
+// Dùng khi chưa cấu hình push gateway: chỉ log ra console
+@Injectable()
+export class ConsolePushSender implements IPushSender {
+  private readonly logger = new Logger(ConsolePushSender.name);
+
+  async send(tokens: string[], message: PushMessage): Promise<void> {
+    this.logger.log(`
+      [Push] ${message.title}
+      Tokens: ${tokens.length}
+      Body: ${message.body}
+    `);
+  }
+}
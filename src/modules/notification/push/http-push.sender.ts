@@ -0,0 +1,31 @@
+import { Logger } from '@nestjs/common';
+import axios from 'axios';
+import { IPushSender, PushMessage } from '../notification.port';
+
+// Đẩy push qua một gateway HTTP (FCM/APNs proxy) nhận { tokens, notification, data }
+export class HttpPushSender implements IPushSender {
+  private readonly logger = new Logger(HttpPushSender.name);
+
+  constructor(
+    private readonly gatewayUrl: string,
+    private readonly apiKey?: string,
+  ) {}
+
+  async send(tokens: string[], message: PushMessage): Promise<void> {
+    await axios.post(
+      this.gatewayUrl,
+      {
+        tokens,
+        notification: { title: message.title, body: message.body },
+        data: message.data ?? {},
+      },
+      {
+        timeout: 10000,
+        headers: this.apiKey
+          ? { Authorization: `Bearer ${this.apiKey}` }
+          : undefined,
+      },
+    );
+    this.logger.debug(`Push sent to ${tokens.length} device(s)`);
+  }
+}
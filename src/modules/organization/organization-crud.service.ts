@@ -0,0 +1,228 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import { BaseCrudService } from 'src/core/crud/base/base-crud.service';
+import { CRUD_OPTIONS } from 'src/core/crud/decorators/crud-endpoint.decorator';
+import { CrudControllerOptions } from 'src/core/crud/interfaces/crud-options.interface';
+import { ICrudRepository } from 'src/core/crud/interfaces/crud.interface';
+import { AppError, Requester } from 'src/share';
+import { PrismaService } from 'src/share/prisma.service';
+import {
+  FACTORY_REPOSITORY,
+  GROUP_REPOSITORY,
+  LINE_REPOSITORY,
+  TEAM_REPOSITORY,
+} from './organization.di-token';
+import {
+  FactoryCreateDTO,
+  FactoryUpdateDTO,
+  GroupCreateDTO,
+  GroupUpdateDTO,
+  LineCreateDTO,
+  LineUpdateDTO,
+  TeamCreateDTO,
+  TeamUpdateDTO,
+} from './organization.dto';
+import { Factory, Group, Line, Team } from './organization.model';
+
+type ParentField = 'factoryId' | 'lineId' | 'teamId';
+
+/**
+ * Service CRUD dùng chung cho các cấp đơn vị:
+ * kiểm tra đơn vị cha tồn tại, mã không trùng trong cùng đơn vị cha,
+ * và không cho xóa đơn vị còn đơn vị con hoặc thành viên
+ */
+abstract class OrgUnitCrudService<
+  T extends { id: string; code: string },
+  C,
+  U,
+> extends BaseCrudService<T, C, U> {
+  constructor(
+    entityName: string,
+    repository: ICrudRepository<T, C, U>,
+    protected readonly prisma: PrismaService,
+    private readonly parentField: ParentField | null,
+    options?: CrudControllerOptions<T, C, U>,
+  ) {
+    super(entityName, repository, options);
+  }
+
+  /** Kiểm tra đơn vị cha có tồn tại không */
+  protected abstract parentExists(parentId: string): Promise<boolean>;
+
+  /** Đếm số đơn vị con và thành viên trực thuộc */
+  protected abstract countDependents(
+    id: string,
+  ): Promise<{ children: number; members: number }>;
+
+  protected async validateCreate(requester: Requester, dto: C): Promise<void> {
+    const parentId = this.parentField ? (dto as any)[this.parentField] : null;
+    if (this.parentField && !(await this.parentExists(parentId))) {
+      throw AppError.from(
+        new Error(`Parent of ${this.entityName} not found`),
+        404,
+      ).withDetail(this.parentField, parentId);
+    }
+
+    await super.validateCreate(requester, dto);
+  }
+
+  protected async checkDuplicates(dto: any): Promise<void> {
+    await this.assertCodeAvailable(dto.code, this.scopeOf(dto));
+  }
+
+  protected async validateFieldConstraints(
+    dto: any,
+    existingEntity: T,
+  ): Promise<void> {
+    if (dto.code && dto.code !== existingEntity.code) {
+      await this.assertCodeAvailable(dto.code, this.scopeOf(existingEntity));
+    }
+  }
+
+  protected async checkRelatedEntities(entity: T): Promise<void> {
+    const { children, members } = await this.countDependents(entity.id);
+    if (children > 0 || members > 0) {
+      throw AppError.from(
+        new Error(
+          `Cannot delete ${this.entityName} that still has sub-units or members; move or merge them first`,
+        ),
+        409,
+      )
+        .withDetail('children', children)
+        .withDetail('members', members);
+    }
+  }
+
+  private scopeOf(source: any): Record<string, string> {
+    return this.parentField
+      ? { [this.parentField]: source[this.parentField] }
+      : {};
+  }
+
+  private async assertCodeAvailable(
+    code: string | undefined,
+    scope: Record<string, string>,
+  ): Promise<void> {
+    if (!code) {
+      return;
+    }
+
+    const existing = await this.repository.findByCond({ code, ...scope });
+    if (existing) {
+      throw AppError.from(
+        new Error(`${this.entityName} with code '${code}' already exists`),
+        409,
+      );
+    }
+  }
+}
+
+@Injectable()
+export class FactoryService extends OrgUnitCrudService<
+  Factory,
+  FactoryCreateDTO,
+  FactoryUpdateDTO
+> {
+  constructor(
+    @Inject(FACTORY_REPOSITORY)
+    repository: ICrudRepository<Factory, FactoryCreateDTO, FactoryUpdateDTO>,
+    prisma: PrismaService,
+    @Optional() @Inject(CRUD_OPTIONS) options?: CrudControllerOptions,
+  ) {
+    super('Factory', repository, prisma, null, options);
+  }
+
+  protected async parentExists(): Promise<boolean> {
+    return true;
+  }
+
+  protected async countDependents(id: string) {
+    const [children, members] = await Promise.all([
+      this.prisma.line.count({ where: { factoryId: id } }),
+      this.prisma.orgMembership.count({ where: { factoryId: id } }),
+    ]);
+    return { children, members };
+  }
+}
+
+@Injectable()
+export class LineService extends OrgUnitCrudService<
+  Line,
+  LineCreateDTO,
+  LineUpdateDTO
+> {
+  constructor(
+    @Inject(LINE_REPOSITORY)
+    repository: ICrudRepository<Line, LineCreateDTO, LineUpdateDTO>,
+    prisma: PrismaService,
+    @Optional() @Inject(CRUD_OPTIONS) options?: CrudControllerOptions,
+  ) {
+    super('Line', repository, prisma, 'factoryId', options);
+  }
+
+  protected async parentExists(parentId: string): Promise<boolean> {
+    return (await this.prisma.factory.count({ where: { id: parentId } })) > 0;
+  }
+
+  protected async countDependents(id: string) {
+    const [children, members] = await Promise.all([
+      this.prisma.team.count({ where: { lineId: id } }),
+      this.prisma.orgMembership.count({ where: { lineId: id } }),
+    ]);
+    return { children, members };
+  }
+}
+
+@Injectable()
+export class TeamService extends OrgUnitCrudService<
+  Team,
+  TeamCreateDTO,
+  TeamUpdateDTO
+> {
+  constructor(
+    @Inject(TEAM_REPOSITORY)
+    repository: ICrudRepository<Team, TeamCreateDTO, TeamUpdateDTO>,
+    prisma: PrismaService,
+    @Optional() @Inject(CRUD_OPTIONS) options?: CrudControllerOptions,
+  ) {
+    super('Team', repository, prisma, 'lineId', options);
+  }
+
+  protected async parentExists(parentId: string): Promise<boolean> {
+    return (await this.prisma.line.count({ where: { id: parentId } })) > 0;
+  }
+
+  protected async countDependents(id: string) {
+    const [children, members] = await Promise.all([
+      this.prisma.group.count({ where: { teamId: id } }),
+      this.prisma.orgMembership.count({ where: { teamId: id } }),
+    ]);
+    return { children, members };
+  }
+}
+
+@Injectable()
+export class GroupService extends OrgUnitCrudService<
+  Group,
+  GroupCreateDTO,
+  GroupUpdateDTO
+> {
+  constructor(
+    @Inject(GROUP_REPOSITORY)
+    repository: ICrudRepository<Group, GroupCreateDTO, GroupUpdateDTO>,
+    prisma: PrismaService,
+    @Optional() @Inject(CRUD_OPTIONS) options?: CrudControllerOptions,
+  ) {
+    super('Group', repository, prisma, 'teamId', options);
+  }
+
+  protected async parentExists(parentId: string): Promise<boolean> {
+    return (await this.prisma.team.count({ where: { id: parentId } })) > 0;
+  }
+
+  protected async countDependents(id: string) {
+    const members = await this.prisma.orgMembership.count({
+      where: { groupId: id },
+    });
+    return { children: 0, members };
+  }
+}
@@ -0,0 +1,227 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Param,
+  Post,
+  Put,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AppError, ReqWithRequester, UserRole } from 'src/share';
+import { RemoteAuthGuard, Roles, RolesGuard } from 'src/share/guard';
+import { ZodValidationPipe } from 'src/share/pipes/zod-validation.pipe';
+import { ORGANIZATION_SERVICE } from './organization.di-token';
+import {
+  AssignLeaderDTO,
+  assignLeaderDTOSchema,
+  AssignMembershipDTO,
+  assignMembershipDTOSchema,
+  MergeOrgUnitDTO,
+  mergeOrgUnitDTOSchema,
+  MoveOrgUnitDTO,
+  moveOrgUnitDTOSchema,
+  orgUnitTypeSchema,
+} from './organization.dto';
+import { OrgUnitType } from './organization.model';
+import { IOrganizationService } from './organization.port';
+
+@ApiTags('Organization')
+@ApiBearerAuth()
+@Controller('organization')
+@UseGuards(RemoteAuthGuard, RolesGuard)
+export class OrganizationHttpController {
+  constructor(
+    @Inject(ORGANIZATION_SERVICE)
+    private readonly organizationService: IOrganizationService,
+  ) {}
+
+  @Post('units/:unitType/:id/move')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.FACTORY_MANAGER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Move a line, team or group to another parent' })
+  @ApiParam({ name: 'unitType', enum: OrgUnitType })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Unit moved' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Code conflict' })
+  async moveUnit(
+    @Request() req: ReqWithRequester,
+    @Param('unitType', new ZodValidationPipe(orgUnitTypeSchema))
+    unitType: OrgUnitType,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(moveOrgUnitDTOSchema)) dto: MoveOrgUnitDTO,
+  ) {
+    await this.organizationService.moveUnit(
+      req.requester,
+      unitType,
+      id,
+      dto.targetParentId,
+    );
+    return { success: true, data: true };
+  }
+
+  @Post('units/:unitType/:id/merge')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.FACTORY_MANAGER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Merge a unit into another unit of the same level' })
+  @ApiParam({ name: 'unitType', enum: OrgUnitType })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Units merged' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Code conflict' })
+  async mergeUnits(
+    @Request() req: ReqWithRequester,
+    @Param('unitType', new ZodValidationPipe(orgUnitTypeSchema))
+    unitType: OrgUnitType,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(mergeOrgUnitDTOSchema)) dto: MergeOrgUnitDTO,
+  ) {
+    await this.organizationService.mergeUnits(
+      req.requester,
+      unitType,
+      id,
+      dto.targetId,
+    );
+    return { success: true, data: true };
+  }
+
+  @Put('units/:unitType/:id/leader')
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.SUPER_ADMIN,
+    UserRole.FACTORY_MANAGER,
+    UserRole.LINE_MANAGER,
+    UserRole.TEAM_LEADER,
+  )
+  @ApiOperation({ summary: 'Assign or clear the leader of a unit' })
+  @ApiParam({ name: 'unitType', enum: OrgUnitType })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Leader updated' })
+  async assignLeader(
+    @Request() req: ReqWithRequester,
+    @Param('unitType', new ZodValidationPipe(orgUnitTypeSchema))
+    unitType: OrgUnitType,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(assignLeaderDTOSchema)) dto: AssignLeaderDTO,
+  ) {
+    await this.organizationService.assignLeader(
+      req.requester,
+      unitType,
+      id,
+      dto.userId,
+    );
+    return { success: true, data: true };
+  }
+
+  @Get('units/:unitType/:id/members')
+  @ApiOperation({ summary: 'List members of a unit and its sub-units' })
+  @ApiParam({ name: 'unitType', enum: OrgUnitType })
+  async listMembers(
+    @Request() req: ReqWithRequester,
+    @Param('unitType', new ZodValidationPipe(orgUnitTypeSchema))
+    unitType: OrgUnitType,
+    @Param('id') id: string,
+    @Query('page') page = 1,
+    @Query('limit') limit = 20,
+  ) {
+    await this.assertWithinScope(req, unitType, id);
+
+    const result = await this.organizationService.listMembers(
+      unitType,
+      id,
+      +page,
+      +limit,
+    );
+    return { success: true, ...result };
+  }
+
+  @Post('memberships')
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.SUPER_ADMIN,
+    UserRole.FACTORY_MANAGER,
+    UserRole.LINE_MANAGER,
+    UserRole.TEAM_LEADER,
+  )
+  @ApiOperation({ summary: 'Assign a user to an organization unit' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'User assigned' })
+  async assignMembership(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(assignMembershipDTOSchema))
+    dto: AssignMembershipDTO,
+  ) {
+    const membership = await this.organizationService.assignMembership(
+      req.requester,
+      dto.userId,
+      dto.unitType,
+      dto.unitId,
+    );
+    return { success: true, data: membership };
+  }
+
+  @Get('memberships/:userId')
+  @ApiOperation({ summary: 'Get the organization membership of a user' })
+  async getMembership(
+    @Request() req: ReqWithRequester,
+    @Param('userId') userId: string,
+  ) {
+    const membership = await this.organizationService.getMembership(userId);
+
+    // Người dùng luôn xem được membership của chính mình
+    if (
+      membership &&
+      req.requester.sub !== userId &&
+      !(await this.organizationService.isUserWithinScope(req.requester, userId))
+    ) {
+      throw AppError.from(
+        new Error('User belongs to a unit outside of your management scope'),
+        403,
+      );
+    }
+
+    return { success: true, data: membership };
+  }
+
+  @Delete('memberships/:userId')
+  @Roles(
+    UserRole.ADMIN,
+    UserRole.SUPER_ADMIN,
+    UserRole.FACTORY_MANAGER,
+    UserRole.LINE_MANAGER,
+    UserRole.TEAM_LEADER,
+  )
+  @ApiOperation({ summary: 'Remove a user from the organization' })
+  async removeMembership(
+    @Request() req: ReqWithRequester,
+    @Param('userId') userId: string,
+  ) {
+    await this.organizationService.removeMembership(req.requester, userId);
+    return { success: true, data: true };
+  }
+
+  private async assertWithinScope(
+    req: ReqWithRequester,
+    unitType: OrgUnitType,
+    id: string,
+  ): Promise<void> {
+    const allowed = await this.organizationService.isWithinScope(
+      req.requester,
+      unitType,
+      id,
+    );
+    if (!allowed) {
+      throw AppError.from(
+        new Error('Unit is outside of your management scope'),
+        403,
+      );
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { BasePrismaRepository } from 'src/core/crud/base/base-prisma.repository';
+import { PrismaService } from 'src/share/prisma.service';
+import {
+  FactoryCreateDTO,
+  FactoryUpdateDTO,
+  GroupCreateDTO,
+  GroupUpdateDTO,
+  LineCreateDTO,
+  LineUpdateDTO,
+  TeamCreateDTO,
+  TeamUpdateDTO,
+} from './organization.dto';
+import { Factory, Group, Line, Team } from './organization.model';
+
+/**
+ * Repository dùng chung cho các cấp đơn vị; chỉ khác nhau ở field cha
+ */
+abstract class OrgUnitPrismaRepository<T, C, U> extends BasePrismaRepository<
+  T,
+  C,
+  U
+> {
+  constructor(
+    entityName: string,
+    prismaModel: any,
+    prisma: PrismaService,
+    private readonly parentField: 'factoryId' | 'lineId' | 'teamId' | null,
+  ) {
+    super(entityName, prismaModel, prisma);
+  }
+
+  protected _toModel(data: any): T {
+    return { ...data } as T;
+  }
+
+  protected _conditionsToWhereClause(conditions: any): any {
+    const where: Record<string, any> = {};
+
+    if (conditions.id) where.id = conditions.id;
+    if (conditions.code) where.code = conditions.code;
+    if (conditions.name) {
+      where.name = {
+        contains: conditions.name,
+        mode: Prisma.QueryMode.insensitive,
+      };
+    }
+    if (conditions.isActive !== undefined) {
+      where.isActive =
+        conditions.isActive === true || conditions.isActive === 'true';
+    }
+    if (conditions.leaderId) where.leaderId = conditions.leaderId;
+    if (this.parentField && conditions[this.parentField]) {
+      where[this.parentField] = conditions[this.parentField];
+    }
+
+    return where;
+  }
+}
+
+@Injectable()
+export class FactoryPrismaRepository extends OrgUnitPrismaRepository<
+  Factory,
+  FactoryCreateDTO,
+  FactoryUpdateDTO
+> {
+  constructor(prisma: PrismaService) {
+    super('Factory', prisma.factory, prisma, null);
+  }
+}
+
+@Injectable()
+export class LinePrismaRepository extends OrgUnitPrismaRepository<
+  Line,
+  LineCreateDTO,
+  LineUpdateDTO
+> {
+  constructor(prisma: PrismaService) {
+    super('Line', prisma.line, prisma, 'factoryId');
+  }
+}
+
+@Injectable()
+export class TeamPrismaRepository extends OrgUnitPrismaRepository<
+  Team,
+  TeamCreateDTO,
+  TeamUpdateDTO
+> {
+  constructor(prisma: PrismaService) {
+    super('Team', prisma.team, prisma, 'lineId');
+  }
+}
+
+@Injectable()
+export class GroupPrismaRepository extends OrgUnitPrismaRepository<
+  Group,
+  GroupCreateDTO,
+  GroupUpdateDTO
+> {
+  constructor(prisma: PrismaService) {
+    super('Group', prisma.group, prisma, 'teamId');
+  }
+}
@@ -0,0 +1,9 @@
+export const FACTORY_REPOSITORY = Symbol('FACTORY_REPOSITORY');
+export const FACTORY_SERVICE = Symbol('FACTORY_SERVICE');
+export const LINE_REPOSITORY = Symbol('LINE_REPOSITORY');
+export const LINE_SERVICE = Symbol('LINE_SERVICE');
+export const TEAM_REPOSITORY = Symbol('TEAM_REPOSITORY');
+export const TEAM_SERVICE = Symbol('TEAM_SERVICE');
+export const GROUP_REPOSITORY = Symbol('GROUP_REPOSITORY');
+export const GROUP_SERVICE = Symbol('GROUP_SERVICE');
+export const ORGANIZATION_SERVICE = Symbol('ORGANIZATION_SERVICE');
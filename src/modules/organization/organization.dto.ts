@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { OrgUnitType } from './organization.model';
+
+const orgUnitCreateBaseSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Mã đơn vị không được để trống')
+    .max(50, 'Mã đơn vị tối đa 50 ký tự'),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Tên đơn vị không được để trống')
+    .max(200, 'Tên đơn vị tối đa 200 ký tự'),
+  description: z.string().max(1000).optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+// Điều kiện lọc dùng chung, nhận giá trị từ query string
+const orgUnitCondBaseSchema = z.object({
+  code: z.string().optional(),
+  name: z.string().optional(),
+  isActive: z
+    .union([z.boolean(), z.enum(['true', 'false'])])
+    .transform((v) => v === true || v === 'true')
+    .optional(),
+  leaderId: z.string().optional(),
+});
+
+// ===== Factory =====
+export const factoryCreateDTOSchema = orgUnitCreateBaseSchema.extend({
+  address: z.string().max(500).optional().nullable(),
+});
+
+export type FactoryCreateDTO = z.infer<typeof factoryCreateDTOSchema>;
+
+export const factoryUpdateDTOSchema = factoryCreateDTOSchema.partial();
+
+export type FactoryUpdateDTO = z.infer<typeof factoryUpdateDTOSchema>;
+
+export const factoryCondDTOSchema = orgUnitCondBaseSchema;
+
+export type FactoryCondDTO = z.infer<typeof factoryCondDTOSchema>;
+
+// ===== Line =====
+// Đổi đơn vị cha phải dùng thao tác move để cập nhật cả membership
+export const lineCreateDTOSchema = orgUnitCreateBaseSchema.extend({
+  factoryId: z.string().uuid('Factory ID không hợp lệ'),
+});
+
+export type LineCreateDTO = z.infer<typeof lineCreateDTOSchema>;
+
+export const lineUpdateDTOSchema = orgUnitCreateBaseSchema.partial();
+
+export type LineUpdateDTO = z.infer<typeof lineUpdateDTOSchema>;
+
+export const lineCondDTOSchema = orgUnitCondBaseSchema.extend({
+  factoryId: z.string().optional(),
+});
+
+export type LineCondDTO = z.infer<typeof lineCondDTOSchema>;
+
+// ===== Team =====
+export const teamCreateDTOSchema = orgUnitCreateBaseSchema.extend({
+  lineId: z.string().uuid('Line ID không hợp lệ'),
+});
+
+export type TeamCreateDTO = z.infer<typeof teamCreateDTOSchema>;
+
+export const teamUpdateDTOSchema = orgUnitCreateBaseSchema.partial();
+
+export type TeamUpdateDTO = z.infer<typeof teamUpdateDTOSchema>;
+
+export const teamCondDTOSchema = orgUnitCondBaseSchema.extend({
+  lineId: z.string().optional(),
+});
+
+export type TeamCondDTO = z.infer<typeof teamCondDTOSchema>;
+
+// ===== Group =====
+export const groupCreateDTOSchema = orgUnitCreateBaseSchema.extend({
+  teamId: z.string().uuid('Team ID không hợp lệ'),
+});
+
+export type GroupCreateDTO = z.infer<typeof groupCreateDTOSchema>;
+
+export const groupUpdateDTOSchema = orgUnitCreateBaseSchema.partial();
+
+export type GroupUpdateDTO = z.infer<typeof groupUpdateDTOSchema>;
+
+export const groupCondDTOSchema = orgUnitCondBaseSchema.extend({
+  teamId: z.string().optional(),
+});
+
+export type GroupCondDTO = z.infer<typeof groupCondDTOSchema>;
+
+// ===== Thao tác trên cây =====
+// Nhận cả chữ thường trên URL (vd. /units/line/:id)
+export const orgUnitTypeSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? value.toUpperCase() : value),
+  z.nativeEnum(OrgUnitType),
+);
+
+// Chuyển một đơn vị sang đơn vị cha khác (factory không có cha nên không move được)
+export const moveOrgUnitDTOSchema = z.object({
+  targetParentId: z.string().uuid('Parent ID không hợp lệ'),
+});
+
+export type MoveOrgUnitDTO = z.infer<typeof moveOrgUnitDTOSchema>;
+
+// Gộp đơn vị nguồn vào đơn vị đích cùng cấp; đơn vị nguồn bị xóa sau khi gộp
+export const mergeOrgUnitDTOSchema = z.object({
+  targetId: z.string().uuid('Target ID không hợp lệ'),
+});
+
+export type MergeOrgUnitDTO = z.infer<typeof mergeOrgUnitDTOSchema>;
+
+export const assignMembershipDTOSchema = z.object({
+  userId: z.string().min(1, 'User ID không được để trống'),
+  unitType: orgUnitTypeSchema,
+  unitId: z.string().uuid('Unit ID không hợp lệ'),
+});
+
+export type AssignMembershipDTO = z.infer<typeof assignMembershipDTOSchema>;
+
+// userId = null để bỏ trưởng đơn vị
+export const assignLeaderDTOSchema = z.object({
+  userId: z.string().min(1).nullable(),
+});
+
+export type AssignLeaderDTO = z.infer<typeof assignLeaderDTOSchema>;
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+
+// Cấp đơn vị trong cây tổ chức, theo thứ tự từ cao xuống thấp
+export enum OrgUnitType {
+  FACTORY = 'FACTORY',
+  LINE = 'LINE',
+  TEAM = 'TEAM',
+  GROUP = 'GROUP',
+}
+
+// Tên entity CRUD của các cấp, cũng là tag cache response
+export const ORG_UNIT_ENTITIES = ['Factory', 'Line', 'Team', 'Group'];
+
+const orgUnitBaseSchema = z.object({
+  id: z.string().uuid(),
+  code: z.string().min(1, 'Mã đơn vị không được để trống'),
+  name: z.string().min(1, 'Tên đơn vị không được để trống'),
+  description: z.string().nullable(),
+  isActive: z.boolean(),
+  leaderId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Factory model
+export const factorySchema = orgUnitBaseSchema.extend({
+  address: z.string().nullable(),
+});
+
+export type Factory = z.infer<typeof factorySchema>;
+
+// Line model
+export const lineSchema = orgUnitBaseSchema.extend({
+  factoryId: z.string().uuid(),
+});
+
+export type Line = z.infer<typeof lineSchema>;
+
+// Team model
+export const teamSchema = orgUnitBaseSchema.extend({
+  lineId: z.string().uuid(),
+});
+
+export type Team = z.infer<typeof teamSchema>;
+
+// Group model
+export const groupSchema = orgUnitBaseSchema.extend({
+  teamId: z.string().uuid(),
+});
+
+export type Group = z.infer<typeof groupSchema>;
+
+// Vị trí của user trong cây tổ chức (đường dẫn tổ tiên đầy đủ)
+export const orgMembershipSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string(),
+  factoryId: z.string().uuid(),
+  lineId: z.string().uuid().nullable(),
+  teamId: z.string().uuid().nullable(),
+  groupId: z.string().uuid().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type OrgMembership = z.infer<typeof orgMembershipSchema>;
+
+// Đường dẫn của một đơn vị hoặc một user trong cây
+export interface OrgPath {
+  factoryId: string;
+  lineId: string | null;
+  teamId: string | null;
+  groupId: string | null;
+}
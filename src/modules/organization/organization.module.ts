@@ -0,0 +1,271 @@
+import { Module } from '@nestjs/common';
+import { HTTP_CONTROLLER } from 'src/constant';
+import { createCrudModule } from 'src/core/crud/factories/create-crud-module.factory';
+import {
+  CrudControllerOptions,
+  CrudFilterFieldOptions,
+  CrudIncludeOptions,
+  CrudTransferColumn,
+} from 'src/core/crud/interfaces/crud-options.interface';
+import { UserRole } from 'src/share';
+import { ShareModule } from 'src/share/module';
+import { OrganizationHttpController } from './organization-http.controller';
+import {
+  FactoryService,
+  GroupService,
+  LineService,
+  TeamService,
+} from './organization-crud.service';
+import {
+  FactoryPrismaRepository,
+  GroupPrismaRepository,
+  LinePrismaRepository,
+  TeamPrismaRepository,
+} from './organization-prisma.repo';
+import {
+  FACTORY_REPOSITORY,
+  FACTORY_SERVICE,
+  GROUP_REPOSITORY,
+  GROUP_SERVICE,
+  LINE_REPOSITORY,
+  LINE_SERVICE,
+  ORGANIZATION_SERVICE,
+  TEAM_REPOSITORY,
+  TEAM_SERVICE,
+} from './organization.di-token';
+import {
+  factoryCondDTOSchema,
+  factoryCreateDTOSchema,
+  factoryUpdateDTOSchema,
+  groupCondDTOSchema,
+  groupCreateDTOSchema,
+  groupUpdateDTOSchema,
+  lineCondDTOSchema,
+  lineCreateDTOSchema,
+  lineUpdateDTOSchema,
+  teamCondDTOSchema,
+  teamCreateDTOSchema,
+  teamUpdateDTOSchema,
+} from './organization.dto';
+import {
+  factorySchema,
+  groupSchema,
+  lineSchema,
+  ORG_UNIT_ENTITIES,
+  teamSchema,
+} from './organization.model';
+import { OrganizationService } from './organization.service';
+
+const ADMIN_ROLES = [UserRole.ADMIN, UserRole.SUPER_ADMIN];
+
+// Field lọc chung của mọi cấp; leader là User (id dạng cuid, không phải uuid)
+const ORG_UNIT_FILTERS: Record<string, CrudFilterFieldOptions> = {
+  code: { operators: ['eq', 'in', 'contains'] },
+  name: { operators: ['eq', 'contains'] },
+  isActive: { type: 'boolean', operators: ['eq'] },
+  leaderId: { operators: ['eq', 'in'] },
+  leaderName: { path: 'leader.name', operators: ['contains'] },
+  createdAt: { type: 'date', operators: ['gte', 'lte', 'between'] },
+  updatedAt: { type: 'date', operators: ['gte', 'lte', 'between'] },
+};
+
+// Lọc theo đơn vị cấp trên qua quan hệ, vd. tổ theo nhà máy: team.line.factoryId
+const parentFilter = (path?: string): CrudFilterFieldOptions => ({
+  type: 'uuid',
+  operators: ['eq', 'in'],
+  ...(path && { path }),
+});
+
+// Field đọc được qua ?fields= và các quan hệ nhúng qua ?include=
+const ORG_UNIT_FIELDS = [
+  'code',
+  'name',
+  'description',
+  'isActive',
+  'leaderId',
+  'createdAt',
+  'updatedAt',
+];
+const UNIT_SUMMARY: CrudIncludeOptions = { fields: ['id', 'code', 'name'] };
+const UNIT_CHILDREN: CrudIncludeOptions = {
+  fields: ['id', 'code', 'name', 'isActive'],
+  take: 100,
+};
+// Chỉ thông tin công khai của trưởng đơn vị, không bao giờ nhúng cả bản ghi User
+const LEADER_INCLUDE: CrudIncludeOptions = {
+  fields: ['id', 'name', 'email', 'image'],
+};
+
+// Cột import/export chung; cột riêng (đơn vị cha, địa chỉ) thêm sau name
+const orgUnitColumns = (
+  extra: CrudTransferColumn[] = [],
+): CrudTransferColumn[] => [
+  { field: 'id', readonly: true },
+  { field: 'code' },
+  { field: 'name' },
+  ...extra,
+  { field: 'description' },
+  { field: 'isActive', type: 'boolean' },
+  { field: 'createdAt', type: 'date', readonly: true },
+];
+
+// Cây tổ chức được đọc rất nhiều, ít thay đổi. Response có thể nhúng cấp
+// trên/dưới (include) nên ghi ở cấp nào cũng làm mất cache của mọi cấp
+const orgUnitCache = (entityName: string) => ({
+  enabled: true,
+  ttl: 300,
+  tags: ORG_UNIT_ENTITIES.filter((entity) => entity !== entityName),
+});
+
+// Mọi người dùng đăng nhập được đọc cây tổ chức, chỉ admin được sửa cấu trúc
+const orgUnitControllerOptions = (
+  entityName: string,
+  tag: string,
+  parentFilters: Record<string, CrudFilterFieldOptions> = {},
+  columns: CrudTransferColumn[] = orgUnitColumns(),
+): CrudControllerOptions => ({
+  entityName,
+  query: {
+    filters: { ...ORG_UNIT_FILTERS, ...parentFilters },
+    sortable: ['code', 'name', 'createdAt', 'updatedAt'],
+    defaultSort: 'code',
+  },
+  endpoints: {
+    getAll: { enabled: true, cache: orgUnitCache(entityName) },
+    getOne: { enabled: true, cache: orgUnitCache(entityName) },
+    count: { enabled: true, cache: orgUnitCache(entityName) },
+    create: { enabled: true, roles: ADMIN_ROLES },
+    update: { enabled: true, roles: ADMIN_ROLES },
+    delete: { enabled: true, roles: ADMIN_ROLES },
+  },
+  transfer: { columns },
+  swagger: { tags: [tag] },
+});
+
+@Module({
+  imports: [
+    ShareModule,
+    createCrudModule({
+      moduleName: 'Factory',
+      path: HTTP_CONTROLLER.FACTORY,
+      modelType: factorySchema,
+      createDtoType: factoryCreateDTOSchema,
+      updateDtoType: factoryUpdateDTOSchema,
+      filterDtoType: factoryCondDTOSchema,
+      serviceClass: FactoryService,
+      repositoryClass: FactoryPrismaRepository,
+      serviceToken: FACTORY_SERVICE,
+      repositoryToken: FACTORY_REPOSITORY,
+      controllerOptions: orgUnitControllerOptions(
+        'Factory',
+        'Factories',
+        {},
+        orgUnitColumns([{ field: 'address' }]),
+      ),
+      selection: {
+        fields: [...ORG_UNIT_FIELDS, 'address'],
+        include: { leader: LEADER_INCLUDE, lines: UNIT_CHILDREN },
+      },
+      imports: [ShareModule],
+    }),
+    createCrudModule({
+      moduleName: 'Line',
+      path: HTTP_CONTROLLER.LINE,
+      modelType: lineSchema,
+      createDtoType: lineCreateDTOSchema,
+      updateDtoType: lineUpdateDTOSchema,
+      filterDtoType: lineCondDTOSchema,
+      serviceClass: LineService,
+      repositoryClass: LinePrismaRepository,
+      serviceToken: LINE_SERVICE,
+      repositoryToken: LINE_REPOSITORY,
+      controllerOptions: orgUnitControllerOptions(
+        'Line',
+        'Lines',
+        { factoryId: parentFilter() },
+        orgUnitColumns([{ field: 'factoryId' }]),
+      ),
+      selection: {
+        fields: [...ORG_UNIT_FIELDS, 'factoryId'],
+        include: {
+          leader: LEADER_INCLUDE,
+          factory: UNIT_SUMMARY,
+          teams: UNIT_CHILDREN,
+        },
+      },
+      imports: [ShareModule],
+    }),
+    createCrudModule({
+      moduleName: 'Team',
+      path: HTTP_CONTROLLER.TEAM,
+      modelType: teamSchema,
+      createDtoType: teamCreateDTOSchema,
+      updateDtoType: teamUpdateDTOSchema,
+      filterDtoType: teamCondDTOSchema,
+      serviceClass: TeamService,
+      repositoryClass: TeamPrismaRepository,
+      serviceToken: TEAM_SERVICE,
+      repositoryToken: TEAM_REPOSITORY,
+      controllerOptions: orgUnitControllerOptions(
+        'Team',
+        'Teams',
+        {
+          lineId: parentFilter(),
+          factoryId: parentFilter('line.factoryId'),
+        },
+        orgUnitColumns([{ field: 'lineId' }]),
+      ),
+      selection: {
+        fields: [...ORG_UNIT_FIELDS, 'lineId'],
+        include: {
+          leader: LEADER_INCLUDE,
+          line: UNIT_SUMMARY,
+          'line.factory': UNIT_SUMMARY,
+          groups: UNIT_CHILDREN,
+        },
+      },
+      imports: [ShareModule],
+    }),
+    createCrudModule({
+      moduleName: 'Group',
+      path: HTTP_CONTROLLER.GROUP,
+      modelType: groupSchema,
+      createDtoType: groupCreateDTOSchema,
+      updateDtoType: groupUpdateDTOSchema,
+      filterDtoType: groupCondDTOSchema,
+      serviceClass: GroupService,
+      repositoryClass: GroupPrismaRepository,
+      serviceToken: GROUP_SERVICE,
+      repositoryToken: GROUP_REPOSITORY,
+      controllerOptions: orgUnitControllerOptions(
+        'Group',
+        'Groups',
+        {
+          teamId: parentFilter(),
+          lineId: parentFilter('team.lineId'),
+          factoryId: parentFilter('team.line.factoryId'),
+        },
+        orgUnitColumns([{ field: 'teamId' }]),
+      ),
+      selection: {
+        fields: [...ORG_UNIT_FIELDS, 'teamId'],
+        include: {
+          leader: LEADER_INCLUDE,
+          team: UNIT_SUMMARY,
+          'team.line': UNIT_SUMMARY,
+          'team.line.factory': UNIT_SUMMARY,
+        },
+      },
+      imports: [ShareModule],
+    }),
+  ],
+  controllers: [OrganizationHttpController],
+  providers: [
+    {
+      provide: ORGANIZATION_SERVICE,
+      useClass: OrganizationService,
+    },
+  ],
+  exports: [ORGANIZATION_SERVICE],
+})
+export class OrganizationModule {}
@@ -0,0 +1,60 @@
+import { Paginated, Requester } from 'src/share';
+import { OrgMembership, OrgPath, OrgUnitType } from './organization.model';
+
+export interface OrgMemberView {
+  userId: string;
+  name: string | null;
+  email: string;
+  path: OrgPath;
+}
+
+// Service thao tác trên cây tổ chức (CRUD từng cấp do createCrudModule đảm nhiệm)
+export interface IOrganizationService {
+  moveUnit(
+    requester: Requester,
+    unitType: OrgUnitType,
+    unitId: string,
+    targetParentId: string,
+  ): Promise<void>;
+  mergeUnits(
+    requester: Requester,
+    unitType: OrgUnitType,
+    sourceId: string,
+    targetId: string,
+  ): Promise<void>;
+
+  // Membership
+  assignMembership(
+    requester: Requester,
+    userId: string,
+    unitType: OrgUnitType,
+    unitId: string,
+  ): Promise<OrgMembership>;
+  removeMembership(requester: Requester, userId: string): Promise<void>;
+  getMembership(userId: string): Promise<OrgMembership | null>;
+  listMembers(
+    unitType: OrgUnitType,
+    unitId: string,
+    page: number,
+    limit: number,
+  ): Promise<Paginated<OrgMemberView>>;
+
+  // Leader
+  assignLeader(
+    requester: Requester,
+    unitType: OrgUnitType,
+    unitId: string,
+    userId: string | null,
+  ): Promise<void>;
+
+  // Phạm vi quản lý
+  resolvePath(unitType: OrgUnitType, unitId: string): Promise<OrgPath>;
+  isWithinScope(
+    requester: Requester,
+    unitType: OrgUnitType,
+    unitId: string,
+  ): Promise<boolean>;
+  // Điều kiện lọc theo phạm vi quản lý: {} = toàn quyền, null = không quản lý đơn vị nào
+  getScopeFilter(requester: Requester): Partial<OrgPath> | null;
+  isUserWithinScope(requester: Requester, userId: string): Promise<boolean>;
+}
@@ -0,0 +1,89 @@
+import { AppError, Requester, UserRole } from '../../share';
+import { OrgUnitType } from './organization.model';
+import { OrganizationService } from './organization.service';
+
+describe('OrganizationService.assignLeader', () => {
+  const team = {
+    id: 'team-1',
+    code: 'T1',
+    leaderId: null,
+    lineId: 'line-1',
+    line: { factoryId: 'factory-1' },
+  };
+  const tx = {
+    team: {
+      update: jest.fn(),
+      count: jest.fn().mockResolvedValue(1),
+    },
+    orgMembership: { upsert: jest.fn() },
+    role: { upsert: jest.fn().mockResolvedValue({ id: 'role-1' }) },
+    userRole: { upsert: jest.fn(), deleteMany: jest.fn() },
+  };
+  const prisma = {
+    team: { findUnique: jest.fn().mockResolvedValue(team) },
+    user: { count: jest.fn().mockResolvedValue(1) },
+    orgMembership: { findUnique: jest.fn() },
+    $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  };
+  const service = new OrganizationService(prisma as any);
+
+  const lineManager = {
+    sub: 'manager-1',
+    role: UserRole.LINE_MANAGER,
+    factoryId: 'factory-1',
+    lineId: 'line-1',
+  } as Requester;
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('rejects pulling a user out of a unit outside the requester scope', async () => {
+    prisma.orgMembership.findUnique.mockResolvedValue({
+      userId: 'user-2',
+      factoryId: 'factory-2',
+      lineId: 'line-9',
+      teamId: null,
+      groupId: null,
+    });
+
+    const error = (await service
+      .assignLeader(lineManager, OrgUnitType.TEAM, 'team-1', 'user-2')
+      .catch((e) => e)) as AppError;
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(403);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('assigns a leader who already belongs to the requester scope', async () => {
+    prisma.orgMembership.findUnique.mockResolvedValue({
+      userId: 'user-3',
+      factoryId: 'factory-1',
+      lineId: 'line-1',
+      teamId: null,
+      groupId: null,
+    });
+
+    await service.assignLeader(
+      lineManager,
+      OrgUnitType.TEAM,
+      'team-1',
+      'user-3',
+    );
+
+    expect(tx.team.update).toHaveBeenCalledWith({
+      where: { id: 'team-1' },
+      data: { leaderId: 'user-3' },
+    });
+    expect(tx.orgMembership.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: {
+          factoryId: 'factory-1',
+          lineId: 'line-1',
+          teamId: 'team-1',
+          groupId: null,
+        },
+      }),
+    );
+    expect(tx.userRole.upsert).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,724 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { AppError, Paginated, Requester, UserRole } from 'src/share';
+import { REDIS_CACHE_SERVICE } from 'src/common/redis/redis.constants';
+import { RedisCacheService } from 'src/common/redis/redis-cache.service';
+import { invalidateCrudCache } from 'src/core/crud/utils/crud-cache.utils';
+import { PrismaService } from 'src/share/prisma.service';
+import {
+  OrgMembership,
+  OrgPath,
+  OrgUnitType,
+  ORG_UNIT_ENTITIES,
+} from './organization.model';
+import { IOrganizationService, OrgMemberView } from './organization.port';
+
+type Tx = Prisma.TransactionClient;
+
+type ParentField = 'factoryId' | 'lineId' | 'teamId';
+
+// Cột chung của factory/line/team/group mà service dùng; cột cha tùy cấp
+type OrgUnitRecord = {
+  id: string;
+  code: string;
+  leaderId: string | null;
+} & Partial<Record<ParentField, string>>;
+
+type OrgUnitWhere = {
+  id?: string;
+  leaderId?: string;
+  code?: { in: string[] };
+} & Partial<Record<ParentField, string>>;
+
+// Delegate Prisma rút gọn, đủ cho các thao tác dùng chung giữa bốn bảng đơn vị
+interface OrgUnitDelegate {
+  findUnique(args: { where: { id: string } }): Promise<OrgUnitRecord | null>;
+  findMany(args: {
+    where: OrgUnitWhere;
+    select: { code: true };
+  }): Promise<{ code: string }[]>;
+  count(args: { where: OrgUnitWhere }): Promise<number>;
+  update(args: {
+    where: { id: string };
+    data: { leaderId?: string | null } & Partial<Record<ParentField, string>>;
+  }): Promise<unknown>;
+  updateMany(args: {
+    where: OrgUnitWhere;
+    data: Partial<Record<ParentField, string>>;
+  }): Promise<{ count: number }>;
+  delete(args: { where: { id: string } }): Promise<unknown>;
+}
+
+interface OrgUnitMeta {
+  model: 'factory' | 'line' | 'team' | 'group';
+  level: number;
+  parentType: OrgUnitType | null;
+  parentField: ParentField | null;
+  childType: OrgUnitType | null;
+  // Field tương ứng trong OrgMembership
+  pathField: keyof OrgPath;
+  leaderRole: UserRole;
+}
+
+const UNIT_META: Record<OrgUnitType, OrgUnitMeta> = {
+  [OrgUnitType.FACTORY]: {
+    model: 'factory',
+    level: 0,
+    parentType: null,
+    parentField: null,
+    childType: OrgUnitType.LINE,
+    pathField: 'factoryId',
+    leaderRole: UserRole.FACTORY_MANAGER,
+  },
+  [OrgUnitType.LINE]: {
+    model: 'line',
+    level: 1,
+    parentType: OrgUnitType.FACTORY,
+    parentField: 'factoryId',
+    childType: OrgUnitType.TEAM,
+    pathField: 'lineId',
+    leaderRole: UserRole.LINE_MANAGER,
+  },
+  [OrgUnitType.TEAM]: {
+    model: 'team',
+    level: 2,
+    parentType: OrgUnitType.LINE,
+    parentField: 'lineId',
+    childType: OrgUnitType.GROUP,
+    pathField: 'teamId',
+    leaderRole: UserRole.TEAM_LEADER,
+  },
+  [OrgUnitType.GROUP]: {
+    model: 'group',
+    level: 3,
+    parentType: OrgUnitType.TEAM,
+    parentField: 'teamId',
+    childType: null,
+    pathField: 'groupId',
+    leaderRole: UserRole.GROUP_LEADER,
+  },
+};
+
+// Cấp đơn vị mà mỗi vai trò quản lý (ADMIN/SUPER_ADMIN quản lý toàn bộ)
+const ROLE_SCOPE: Partial<Record<UserRole, OrgUnitType>> = {
+  [UserRole.FACTORY_MANAGER]: OrgUnitType.FACTORY,
+  [UserRole.LINE_MANAGER]: OrgUnitType.LINE,
+  [UserRole.TEAM_LEADER]: OrgUnitType.TEAM,
+  [UserRole.GROUP_LEADER]: OrgUnitType.GROUP,
+};
+
+function unitDelegate(
+  client: Tx | PrismaService,
+  unitType: OrgUnitType,
+): OrgUnitDelegate {
+  return client[UNIT_META[unitType].model];
+}
+
+@Injectable()
+export class OrganizationService implements IOrganizationService {
+  private readonly logger = new Logger(OrganizationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Optional()
+    @Inject(REDIS_CACHE_SERVICE)
+    private readonly cacheService?: RedisCacheService,
+  ) {}
+
+  async moveUnit(
+    requester: Requester,
+    unitType: OrgUnitType,
+    unitId: string,
+    targetParentId: string,
+  ): Promise<void> {
+    try {
+      const meta = UNIT_META[unitType];
+      if (!meta.parentType || !meta.parentField) {
+        throw AppError.from(new Error(`${unitType} cannot be moved`), 400);
+      }
+
+      const unit = await this.getUnit(this.prisma, unitType, unitId);
+      if (unit[meta.parentField] === targetParentId) {
+        return;
+      }
+
+      await this.assertCanManage(requester, unitType, unitId);
+      await this.assertCanManage(requester, meta.parentType, targetParentId);
+
+      const parentPath = await this.resolvePath(
+        meta.parentType,
+        targetParentId,
+      );
+
+      await this.assertCodesAvailable(unitType, targetParentId, [unit.code]);
+
+      await this.prisma.$transaction(async (tx) => {
+        await unitDelegate(tx, unitType).update({
+          where: { id: unitId },
+          data: { [meta.parentField!]: targetParentId },
+        });
+
+        // Cập nhật đường dẫn tổ tiên của mọi thành viên nằm dưới đơn vị này
+        await tx.orgMembership.updateMany({
+          where: { [meta.pathField]: unitId },
+          data: this.ancestorData(parentPath, meta.parentType!),
+        });
+      });
+
+      await invalidateCrudCache(this.cacheService, ...ORG_UNIT_ENTITIES);
+
+      this.logger.log(
+        `Moved ${unitType} ${unitId} to ${meta.parentType} ${targetParentId} by ${requester.sub}`,
+      );
+    } catch (error) {
+      this.logger.error(`Move unit error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to move unit: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async mergeUnits(
+    requester: Requester,
+    unitType: OrgUnitType,
+    sourceId: string,
+    targetId: string,
+  ): Promise<void> {
+    try {
+      if (sourceId === targetId) {
+        throw AppError.from(new Error('Cannot merge a unit into itself'), 400);
+      }
+
+      const meta = UNIT_META[unitType];
+      const source = await this.getUnit(this.prisma, unitType, sourceId);
+      await this.getUnit(this.prisma, unitType, targetId);
+
+      await this.assertCanManage(requester, unitType, sourceId);
+      await this.assertCanManage(requester, unitType, targetId);
+
+      const targetPath = await this.resolvePath(unitType, targetId);
+
+      // Đơn vị con của nguồn sẽ chuyển sang đích nên mã không được trùng
+      const childMeta = meta.childType ? UNIT_META[meta.childType] : null;
+      if (meta.childType && childMeta) {
+        const children = await unitDelegate(
+          this.prisma,
+          meta.childType,
+        ).findMany({
+          where: { [childMeta.parentField!]: sourceId },
+          select: { code: true },
+        });
+        await this.assertCodesAvailable(
+          meta.childType,
+          targetId,
+          children.map((c) => c.code),
+        );
+      }
+
+      await this.prisma.$transaction(async (tx) => {
+        if (meta.childType && childMeta) {
+          await unitDelegate(tx, meta.childType).updateMany({
+            where: { [childMeta.parentField!]: sourceId },
+            data: { [childMeta.parentField!]: targetId },
+          });
+        }
+
+        await tx.orgMembership.updateMany({
+          where: { [meta.pathField]: sourceId },
+          data: this.ancestorData(targetPath, unitType),
+        });
+
+        await unitDelegate(tx, unitType).delete({ where: { id: sourceId } });
+
+        // Trưởng đơn vị nguồn có thể không còn dẫn dắt đơn vị nào cùng cấp
+        if (source.leaderId) {
+          await this.syncLeaderRole(tx, unitType, source.leaderId);
+        }
+      });
+
+      await invalidateCrudCache(this.cacheService, ...ORG_UNIT_ENTITIES);
+
+      this.logger.log(
+        `Merged ${unitType} ${sourceId} into ${targetId} by ${requester.sub}`,
+      );
+    } catch (error) {
+      this.logger.error(`Merge units error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to merge units: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async assignMembership(
+    requester: Requester,
+    userId: string,
+    unitType: OrgUnitType,
+    unitId: string,
+  ): Promise<OrgMembership> {
+    try {
+      await this.assertUserExists(userId);
+
+      if (!(await this.isWithinScope(requester, unitType, unitId))) {
+        throw AppError.from(
+          new Error('Unit is outside of your management scope'),
+          403,
+        );
+      }
+
+      // Chuyển user ra khỏi đơn vị cũ cũng cần quyền trên đơn vị cũ
+      await this.assertCanReleaseMember(requester, userId);
+
+      const path = await this.resolvePath(unitType, unitId);
+
+      const membership = await this.prisma.orgMembership.upsert({
+        where: { userId },
+        create: { userId, ...path },
+        update: path,
+      });
+
+      this.logger.log(
+        `Assigned user ${userId} to ${unitType} ${unitId} by ${requester.sub}`,
+      );
+
+      return membership;
+    } catch (error) {
+      this.logger.error(
+        `Assign membership error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to assign membership: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async removeMembership(requester: Requester, userId: string): Promise<void> {
+    try {
+      const membership = await this.getMembership(userId);
+      if (!membership) {
+        throw AppError.from(new Error('Membership not found'), 404);
+      }
+
+      await this.assertCanReleaseMember(requester, userId);
+
+      await this.prisma.orgMembership.delete({ where: { userId } });
+    } catch (error) {
+      this.logger.error(
+        `Remove membership error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to remove membership: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async getMembership(userId: string): Promise<OrgMembership | null> {
+    return this.prisma.orgMembership.findUnique({ where: { userId } });
+  }
+
+  async listMembers(
+    unitType: OrgUnitType,
+    unitId: string,
+    page: number,
+    limit: number,
+  ): Promise<Paginated<OrgMemberView>> {
+    try {
+      const meta = UNIT_META[unitType];
+      await this.getUnit(this.prisma, unitType, unitId);
+
+      const safePage = Math.max(1, page || 1);
+      const safeLimit = Math.min(100, Math.max(1, limit || 20));
+      const where = { [meta.pathField]: unitId };
+
+      const [total, memberships] = await Promise.all([
+        this.prisma.orgMembership.count({ where }),
+        this.prisma.orgMembership.findMany({
+          where,
+          include: { user: { select: { id: true, name: true, email: true } } },
+          orderBy: { createdAt: 'asc' },
+          skip: (safePage - 1) * safeLimit,
+          take: safeLimit,
+        }),
+      ]);
+
+      return {
+        data: memberships.map((m) => ({
+          userId: m.userId,
+          name: m.user.name,
+          email: m.user.email,
+          path: {
+            factoryId: m.factoryId,
+            lineId: m.lineId,
+            teamId: m.teamId,
+            groupId: m.groupId,
+          },
+        })),
+        paging: { page: safePage, limit: safeLimit, total },
+        total,
+      };
+    } catch (error) {
+      this.logger.error(`List members error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to list members: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async assignLeader(
+    requester: Requester,
+    unitType: OrgUnitType,
+    unitId: string,
+    userId: string | null,
+  ): Promise<void> {
+    try {
+      const unit = await this.getUnit(this.prisma, unitType, unitId);
+
+      await this.assertCanManage(requester, unitType, unitId);
+
+      const previousLeaderId: string | null = unit.leaderId;
+      if (previousLeaderId === userId) {
+        return;
+      }
+
+      if (userId) {
+        await this.assertUserExists(userId);
+        // Đưa trưởng mới vào đơn vị = chuyển khỏi đơn vị cũ, cần quyền như assignMembership
+        await this.assertCanReleaseMember(requester, userId);
+      }
+
+      const path = await this.resolvePath(unitType, unitId);
+
+      await this.prisma.$transaction(async (tx) => {
+        await unitDelegate(tx, unitType).update({
+          where: { id: unitId },
+          data: { leaderId: userId },
+        });
+
+        if (userId) {
+          // Trưởng đơn vị là thành viên của chính đơn vị đó
+          await tx.orgMembership.upsert({
+            where: { userId },
+            create: { userId, ...path },
+            update: path,
+          });
+          await this.syncLeaderRole(tx, unitType, userId);
+        }
+
+        if (previousLeaderId) {
+          await this.syncLeaderRole(tx, unitType, previousLeaderId);
+        }
+      });
+
+      await invalidateCrudCache(this.cacheService, ...ORG_UNIT_ENTITIES);
+
+      this.logger.log(
+        `Set leader of ${unitType} ${unitId} to ${userId ?? 'none'} by ${requester.sub}`,
+      );
+    } catch (error) {
+      this.logger.error(`Assign leader error: ${error.message}`, error.stack);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to assign leader: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async resolvePath(unitType: OrgUnitType, unitId: string): Promise<OrgPath> {
+    switch (unitType) {
+      case OrgUnitType.FACTORY: {
+        await this.getUnit(this.prisma, unitType, unitId);
+        return { factoryId: unitId, lineId: null, teamId: null, groupId: null };
+      }
+      case OrgUnitType.LINE: {
+        const line = await this.prisma.line.findUnique({
+          where: { id: unitId },
+        });
+        if (!line) {
+          throw this.unitNotFound(unitType, unitId);
+        }
+        return {
+          factoryId: line.factoryId,
+          lineId: unitId,
+          teamId: null,
+          groupId: null,
+        };
+      }
+      case OrgUnitType.TEAM: {
+        const team = await this.prisma.team.findUnique({
+          where: { id: unitId },
+          include: { line: { select: { factoryId: true } } },
+        });
+        if (!team) {
+          throw this.unitNotFound(unitType, unitId);
+        }
+        return {
+          factoryId: team.line.factoryId,
+          lineId: team.lineId,
+          teamId: unitId,
+          groupId: null,
+        };
+      }
+      case OrgUnitType.GROUP: {
+        const group = await this.prisma.group.findUnique({
+          where: { id: unitId },
+          include: {
+            team: {
+              select: { lineId: true, line: { select: { factoryId: true } } },
+            },
+          },
+        });
+        if (!group) {
+          throw this.unitNotFound(unitType, unitId);
+        }
+        return {
+          factoryId: group.team.line.factoryId,
+          lineId: group.team.lineId,
+          teamId: group.teamId,
+          groupId: unitId,
+        };
+      }
+      default:
+        throw AppError.from(new Error(`Unknown unit type ${unitType}`), 400);
+    }
+  }
+
+  async isWithinScope(
+    requester: Requester,
+    unitType: OrgUnitType,
+    unitId: string,
+  ): Promise<boolean> {
+    if (this.isAdmin(requester)) {
+      return true;
+    }
+
+    const scopeType = requester.role ? ROLE_SCOPE[requester.role] : undefined;
+    if (!scopeType) {
+      return false;
+    }
+
+    const scopeField = UNIT_META[scopeType].pathField;
+    const scopeId = requester[scopeField];
+    if (!scopeId) {
+      return false;
+    }
+
+    const path = await this.resolvePath(unitType, unitId);
+    return path[scopeField] === scopeId;
+  }
+
+  getScopeFilter(requester: Requester): Partial<OrgPath> | null {
+    if (this.isAdmin(requester)) {
+      return {};
+    }
+
+    const scopeType = requester.role ? ROLE_SCOPE[requester.role] : undefined;
+    if (!scopeType) {
+      return null;
+    }
+
+    const scopeField = UNIT_META[scopeType].pathField;
+    const scopeId = requester[scopeField];
+    return scopeId ? { [scopeField]: scopeId } : null;
+  }
+
+  async isUserWithinScope(
+    requester: Requester,
+    userId: string,
+  ): Promise<boolean> {
+    const filter = this.getScopeFilter(requester);
+    if (!filter) {
+      return false;
+    }
+
+    const membership = await this.getMembership(userId);
+    if (!membership) {
+      // User chưa thuộc đơn vị nào chỉ admin mới quản lý
+      return Object.keys(filter).length === 0;
+    }
+
+    return Object.entries(filter).every(
+      ([field, id]) => membership[field as keyof OrgPath] === id,
+    );
+  }
+
+  // ===== Helpers =====
+
+  private isAdmin(requester: Requester): boolean {
+    return (
+      requester.role === UserRole.ADMIN ||
+      requester.role === UserRole.SUPER_ADMIN
+    );
+  }
+
+  /**
+   * Người quản lý chỉ thao tác cấu trúc trên các đơn vị nằm dưới cấp của mình
+   * (vd. LINE_MANAGER gán trưởng team/group trong line, không gán được line manager)
+   */
+  private async assertCanManage(
+    requester: Requester,
+    unitType: OrgUnitType,
+    unitId: string,
+  ): Promise<void> {
+    if (this.isAdmin(requester)) {
+      return;
+    }
+
+    const scopeType = requester.role ? ROLE_SCOPE[requester.role] : undefined;
+    const isBelow =
+      !!scopeType && UNIT_META[unitType].level > UNIT_META[scopeType].level;
+
+    if (!isBelow || !(await this.isWithinScope(requester, unitType, unitId))) {
+      throw AppError.from(
+        new Error('Unit is outside of your management scope'),
+        403,
+      )
+        .withDetail('unitType', unitType)
+        .withDetail('unitId', unitId);
+    }
+  }
+
+  private async assertCanReleaseMember(
+    requester: Requester,
+    userId: string,
+  ): Promise<void> {
+    const current = await this.getMembership(userId);
+    if (!current) {
+      return;
+    }
+
+    if (!(await this.isUserWithinScope(requester, userId))) {
+      throw AppError.from(
+        new Error('User belongs to a unit outside of your management scope'),
+        403,
+      );
+    }
+  }
+
+  private async getUnit(
+    client: Tx | PrismaService,
+    unitType: OrgUnitType,
+    unitId: string,
+  ): Promise<OrgUnitRecord> {
+    const unit = await unitDelegate(client, unitType).findUnique({
+      where: { id: unitId },
+    });
+
+    if (!unit) {
+      throw this.unitNotFound(unitType, unitId);
+    }
+
+    return unit;
+  }
+
+  private unitNotFound(unitType: OrgUnitType, unitId: string): AppError {
+    return AppError.from(new Error(`${unitType} not found`), 404).withDetail(
+      'unitId',
+      unitId,
+    );
+  }
+
+  private async assertUserExists(userId: string): Promise<void> {
+    const count = await this.prisma.user.count({ where: { id: userId } });
+    if (count === 0) {
+      throw AppError.from(new Error('User not found'), 404);
+    }
+  }
+
+  private async assertCodesAvailable(
+    unitType: OrgUnitType,
+    parentId: string,
+    codes: string[],
+  ): Promise<void> {
+    const meta = UNIT_META[unitType];
+    if (!meta.parentField || codes.length === 0) {
+      return;
+    }
+
+    const conflicts = await unitDelegate(this.prisma, unitType).findMany({
+      where: { [meta.parentField]: parentId, code: { in: codes } },
+      select: { code: true },
+    });
+
+    if (conflicts.length > 0) {
+      throw AppError.from(
+        new Error(`${unitType} code already exists in the target unit`),
+        409,
+      ).withDetail(
+        'codes',
+        conflicts.map((c) => c.code),
+      );
+    }
+  }
+
+  /**
+   * Đường dẫn tổ tiên tính đến cấp `upTo` (bao gồm), dùng để cập nhật membership
+   */
+  private ancestorData(
+    path: OrgPath,
+    upTo: OrgUnitType,
+  ): Record<string, string | null> {
+    const data: Record<string, string | null> = {};
+    for (const type of Object.values(OrgUnitType)) {
+      const meta = UNIT_META[type];
+      if (meta.level <= UNIT_META[upTo].level) {
+        data[meta.pathField] = path[meta.pathField];
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Đồng bộ vai trò trưởng đơn vị: cấp vai trò nếu user đang dẫn dắt ít nhất
+   * một đơn vị cùng cấp, thu hồi nếu không còn
+   */
+  private async syncLeaderRole(
+    tx: Tx,
+    unitType: OrgUnitType,
+    userId: string,
+  ): Promise<void> {
+    const meta = UNIT_META[unitType];
+    const ledCount = await unitDelegate(tx, unitType).count({
+      where: { leaderId: userId },
+    });
+
+    const role = await tx.role.upsert({
+      where: { name: meta.leaderRole },
+      create: { name: meta.leaderRole },
+      update: {},
+    });
+
+    if (ledCount > 0) {
+      await tx.userRole.upsert({
+        where: { userId_roleId: { userId, roleId: role.id } },
+        create: { userId, roleId: role.id },
+        update: {},
+      });
+    } else {
+      await tx.userRole.deleteMany({ where: { userId, roleId: role.id } });
+    }
+  }
+}
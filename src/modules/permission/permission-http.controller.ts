@@ -11,7 +11,7 @@ import {
   Request,
   UseGuards,
 } from '@nestjs/common';
-import { ReqWithRequester, UserRole } from 'src/share';
+import { IfMatch, ReqWithRequester, UserRole } from 'src/share';
 import { RemoteAuthGuard, Roles, RolesGuard } from 'src/share/guard';
 import { ZodValidationPipe } from 'src/share/pipes/zod-validation.pipe';
 import { PaginationDTO } from '../user/user.dto';
@@ -159,8 +159,9 @@ export class PermissionHttpController {
     @Param('id', UuidZodValidationPipe) id: string,
     @Body(new ZodValidationPipe(updatePermissionDTOSchema))
     dto: UpdatePermissionDTO,
+    @IfMatch() expectedVersion?: Date,
   ) {
-    await this.permissionService.updatePermission(id, dto);
+    await this.permissionService.updatePermission(id, dto, expectedVersion);
     return { message: 'Quyền đã được cập nhật thành công' };
   }
 
@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Prisma } from '@prisma/client';
-import { AppError } from 'src/share';
+import { AppError, preconditionFailed } from 'src/share';
 import { PrismaService } from 'src/share/prisma.service';
 import { PaginationDTO } from '../user/user.dto';
 import { PermissionCondDTO } from './permission.dto';
@@ -188,7 +188,11 @@ export class PermissionPrismaRepository implements IPermissionRepository {
     }
   }
 
-  async update(id: string, dto: Partial<Permission>): Promise<void> {
+  async update(
+    id: string,
+    dto: Partial<Permission>,
+    expectedUpdatedAt?: Date,
+  ): Promise<void> {
     try {
       const updateData: Prisma.PermissionUpdateInput = {};
 
@@ -202,10 +206,22 @@ export class PermissionPrismaRepository implements IPermissionRepository {
       if (dto.updatedAt) updateData.updatedAt = dto.updatedAt;
 
       await this.prisma.permission.update({
-        where: { id },
+        where: {
+          id,
+          ...(expectedUpdatedAt && { updatedAt: expectedUpdatedAt }),
+        },
         data: updateData,
       });
     } catch (error) {
+      if (error.code === 'P2025' && expectedUpdatedAt) {
+        const current = await this.prisma.permission.findUnique({
+          where: { id },
+          select: { updatedAt: true },
+        });
+        if (current) {
+          throw preconditionFailed('Permission', current.updatedAt);
+        }
+      }
       this.logger.error(
         `Error updating permission: ${error.message}`,
         error.stack,
@@ -27,7 +27,12 @@ export interface IPermissionRepository {
     total: number;
   }>;
   create(permission: Permission): Promise<void>;
-  update(id: string, dto: Partial<Permission>): Promise<void>;
+  // Có expectedUpdatedAt: chỉ ghi khi bản ghi chưa bị sửa từ lúc client đọc (412 nếu không)
+  update(
+    id: string,
+    dto: Partial<Permission>,
+    expectedUpdatedAt?: Date,
+  ): Promise<void>;
   delete(id: string): Promise<void>;
 
   // Quản lý phân quyền
@@ -60,7 +65,11 @@ export interface IPermissionRepository {
 export interface IPermissionService {
   // CRUD Permissions
   createPermission(dto: CreatePermissionDTO): Promise<string>;
-  updatePermission(id: string, dto: UpdatePermissionDTO): Promise<void>;
+  updatePermission(
+    id: string,
+    dto: UpdatePermissionDTO,
+    expectedVersion?: Date,
+  ): Promise<void>;
   deletePermission(id: string): Promise<void>;
   getPermission(id: string): Promise<Permission>;
   getPermissionByCode(code: string): Promise<Permission>;
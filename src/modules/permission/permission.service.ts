@@ -1,6 +1,6 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
 import { v4 } from 'uuid';
-import { AppError, Requester, UserRole } from 'src/share';
+import { AppError, assertVersion, Requester, UserRole } from 'src/share';
 import { PaginationDTO } from '../user/user.dto';
 import { IUserRepository } from '../user/user.port';
 import { USER_REPOSITORY } from '../user/user.di-token';
@@ -85,7 +85,11 @@ export class PermissionService implements IPermissionService {
     }
   }
 
-  async updatePermission(id: string, dto: UpdatePermissionDTO): Promise<void> {
+  async updatePermission(
+    id: string,
+    dto: UpdatePermissionDTO,
+    expectedVersion?: Date,
+  ): Promise<void> {
     try {
       // Kiểm tra permission tồn tại
       const existingPermission = await this.permissionRepo.get(id);
@@ -93,6 +97,13 @@ export class PermissionService implements IPermissionService {
         throw AppError.from(ErrPermissionNotFound, 404);
       }
 
+      // Admin khác đã sửa quyền sau khi client này đọc
+      assertVersion(
+        'Permission',
+        existingPermission.updatedAt,
+        expectedVersion,
+      );
+
       // Kiểm tra code mới có trùng với code khác không
       if (dto.code && dto.code !== existingPermission.code) {
         const permissionWithSameCode = await this.permissionRepo.getByCode(
@@ -104,10 +115,14 @@ export class PermissionService implements IPermissionService {
       }
 
       // Cập nhật permission
-      await this.permissionRepo.update(id, {
-        ...dto,
-        updatedAt: new Date(),
-      });
+      await this.permissionRepo.update(
+        id,
+        {
+          ...dto,
+          updatedAt: new Date(),
+        },
+        expectedVersion,
+      );
 
       // Xóa cache
       await this.invalidatePermissionsCache();
@@ -0,0 +1,213 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { HTTP_CONTROLLER } from 'src/constant';
+import { ReqWithRequester, UserRole } from 'src/share';
+import { RemoteAuthGuard, Roles, RolesGuard } from 'src/share/guard';
+import { ZodValidationPipe } from 'src/share/pipes/zod-validation.pipe';
+import { PRODUCTION_SERVICE } from './production.di-token';
+import {
+  ProductionAggregateQueryDTO,
+  productionAggregateQueryDTOSchema,
+  ProductionApproveDTO,
+  productionApproveDTOSchema,
+  ProductionRecordCondDTO,
+  productionRecordCondDTOSchema,
+  ProductionRecordCreateDTO,
+  productionRecordCreateDTOSchema,
+  ProductionRecordUpdateDTO,
+  productionRecordUpdateDTOSchema,
+  ProductionRejectDTO,
+  productionRejectDTOSchema,
+} from './production.dto';
+import { IProductionService } from './production.port';
+
+const LEADER_ROLES = [
+  UserRole.ADMIN,
+  UserRole.SUPER_ADMIN,
+  UserRole.FACTORY_MANAGER,
+  UserRole.LINE_MANAGER,
+  UserRole.TEAM_LEADER,
+  UserRole.GROUP_LEADER,
+];
+
+@ApiTags('Production')
+@ApiBearerAuth()
+@Controller(HTTP_CONTROLLER.PRODUCTION)
+@UseGuards(RemoteAuthGuard, RolesGuard)
+export class ProductionHttpController {
+  constructor(
+    @Inject(PRODUCTION_SERVICE)
+    private readonly productionService: IProductionService,
+  ) {}
+
+  @Post('records')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Record output for yourself or a member of your unit',
+  })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Record created' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Record for this user, date, shift and product exists',
+  })
+  async createRecord(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(productionRecordCreateDTOSchema))
+    dto: ProductionRecordCreateDTO,
+  ) {
+    const data = await this.productionService.createRecord(req.requester, dto);
+    return { success: true, data };
+  }
+
+  @Post('records/approve')
+  @Roles(...LEADER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Approve and lock pending production records' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Some records are outside of your management scope',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Some records are not pending',
+  })
+  async approve(
+    @Request() req: ReqWithRequester,
+    @Body(new ZodValidationPipe(productionApproveDTOSchema))
+    dto: ProductionApproveDTO,
+  ) {
+    const data = await this.productionService.approve(req.requester, dto);
+    return { success: true, data };
+  }
+
+  @Get('records/me')
+  @ApiOperation({ summary: 'List your own production records' })
+  async listMine(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(productionRecordCondDTOSchema))
+    cond: ProductionRecordCondDTO,
+  ) {
+    const result = await this.productionService.list(req.requester, {
+      ...cond,
+      userId: req.requester.sub,
+    });
+    return { success: true, ...result };
+  }
+
+  @Get('records')
+  @ApiOperation({
+    summary: 'List production records within your management scope',
+  })
+  async list(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(productionRecordCondDTOSchema))
+    cond: ProductionRecordCondDTO,
+  ) {
+    const result = await this.productionService.list(req.requester, cond);
+    return { success: true, ...result };
+  }
+
+  @Get('records/:id')
+  @ApiOperation({ summary: 'Get a production record' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Not found' })
+  async getRecord(@Request() req: ReqWithRequester, @Param('id') id: string) {
+    const data = await this.productionService.getRecord(req.requester, id);
+    return { success: true, data };
+  }
+
+  @Patch('records/:id')
+  @ApiOperation({
+    summary: 'Correct a pending or rejected record and resubmit it',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Record is approved and locked',
+  })
+  async updateRecord(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(productionRecordUpdateDTOSchema))
+    dto: ProductionRecordUpdateDTO,
+  ) {
+    const data = await this.productionService.updateRecord(
+      req.requester,
+      id,
+      dto,
+    );
+    return { success: true, data };
+  }
+
+  @Delete('records/:id')
+  @ApiOperation({ summary: 'Delete a record that is not yet approved' })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Record is approved and locked',
+  })
+  async deleteRecord(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+  ) {
+    await this.productionService.deleteRecord(req.requester, id);
+    return { success: true };
+  }
+
+  @Post('records/:id/reject')
+  @Roles(...LEADER_ROLES)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a pending production record' })
+  async reject(
+    @Request() req: ReqWithRequester,
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(productionRejectDTOSchema))
+    dto: ProductionRejectDTO,
+  ) {
+    const data = await this.productionService.reject(req.requester, id, dto);
+    return { success: true, data };
+  }
+
+  @Post('records/:id/reopen')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unlock an approved record for correction' })
+  async reopen(@Request() req: ReqWithRequester, @Param('id') id: string) {
+    const data = await this.productionService.reopen(req.requester, id);
+    return { success: true, data };
+  }
+
+  @Get('aggregates')
+  @Roles(...LEADER_ROLES)
+  @ApiOperation({
+    summary: 'Daily or weekly output and efficiency per organization unit',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Unit is outside of your management scope',
+  })
+  async aggregate(
+    @Request() req: ReqWithRequester,
+    @Query(new ZodValidationPipe(productionAggregateQueryDTOSchema))
+    query: ProductionAggregateQueryDTO,
+  ) {
+    const data = await this.productionService.aggregate(req.requester, query);
+    return { success: true, data };
+  }
+}
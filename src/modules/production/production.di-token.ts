@@ -0,0 +1 @@
+export const PRODUCTION_SERVICE = Symbol('PRODUCTION_SERVICE');
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { OrgUnitType } from '../organization/organization.model';
+import { ProductionPeriod, ProductionRecordStatus } from './production.model';
+
+// Ngày dạng YYYY-MM-DD, hiểu theo giờ nhà máy
+const dateOnlySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Ngày phải có dạng YYYY-MM-DD');
+
+const quantitiesSchema = z.object({
+  quantity: z.number().int().min(0, 'Sản lượng không được âm'),
+  targetQuantity: z.number().int().min(0, 'Chỉ tiêu không được âm'),
+  defectQuantity: z.number().int().min(0, 'Số lỗi không được âm').optional(),
+  note: z.string().max(500).optional().nullable(),
+});
+
+export const productionRecordCreateDTOSchema = quantitiesSchema
+  .extend({
+    // Bỏ trống = ghi cho chính mình; trưởng đơn vị ghi thay cho thành viên
+    userId: z.string().optional(),
+    date: dateOnlySchema,
+    shiftId: z.string().uuid('Shift ID không hợp lệ'),
+    productCode: z
+      .string()
+      .trim()
+      .min(1, 'Mã sản phẩm không được để trống')
+      .max(50, 'Mã sản phẩm tối đa 50 ký tự'),
+  })
+  .refine((dto) => (dto.defectQuantity ?? 0) <= dto.quantity, {
+    message: 'Số lỗi không được vượt quá sản lượng',
+    path: ['defectQuantity'],
+  });
+
+export type ProductionRecordCreateDTO = z.infer<
+  typeof productionRecordCreateDTOSchema
+>;
+
+// Chỉ sửa được số liệu; đổi ngày/ca/sản phẩm thì xóa và ghi lại
+export const productionRecordUpdateDTOSchema = quantitiesSchema.partial();
+
+export type ProductionRecordUpdateDTO = z.infer<
+  typeof productionRecordUpdateDTOSchema
+>;
+
+export const productionApproveDTOSchema = z.object({
+  ids: z
+    .array(z.string().uuid())
+    .min(1, 'Cần ít nhất một bản ghi')
+    .max(500, 'Tối đa 500 bản ghi mỗi lần duyệt')
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: 'Danh sách bản ghi bị trùng',
+    }),
+});
+
+export type ProductionApproveDTO = z.infer<typeof productionApproveDTOSchema>;
+
+export const productionRejectDTOSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Lý do từ chối không được để trống')
+    .max(500),
+});
+
+export type ProductionRejectDTO = z.infer<typeof productionRejectDTOSchema>;
+
+export const productionRecordCondDTOSchema = z.object({
+  userId: z.string().optional(),
+  shiftId: z.string().optional(),
+  productCode: z.string().optional(),
+  status: z.nativeEnum(ProductionRecordStatus).optional(),
+  from: dateOnlySchema.optional(),
+  to: dateOnlySchema.optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ProductionRecordCondDTO = z.infer<
+  typeof productionRecordCondDTOSchema
+>;
+
+export const productionAggregateQueryDTOSchema = z
+  .object({
+    unitType: z.nativeEnum(OrgUnitType),
+    // Bỏ trống = mọi đơn vị cấp này trong phạm vi quản lý
+    unitId: z.string().uuid().optional(),
+    period: z.nativeEnum(ProductionPeriod).default(ProductionPeriod.DAY),
+    from: dateOnlySchema,
+    to: dateOnlySchema,
+    // Mặc định chỉ tính bản ghi đã duyệt
+    includePending: z
+      .union([z.boolean(), z.enum(['true', 'false'])])
+      .transform((v) => v === true || v === 'true')
+      .optional(),
+  })
+  .refine((dto) => dto.to >= dto.from, {
+    message: 'Ngày kết thúc phải sau hoặc bằng ngày bắt đầu',
+    path: ['to'],
+  });
+
+export type ProductionAggregateQueryDTO = z.infer<
+  typeof productionAggregateQueryDTOSchema
+>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+
+// Giá trị trùng với enum ProductionRecordStatus trong schema.prisma
+export enum ProductionRecordStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+}
+
+// ProductionRecord model
+export const productionRecordSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string(),
+  date: z.date(),
+  shiftId: z.string().uuid(),
+  productCode: z.string().min(1, 'Mã sản phẩm không được để trống'),
+  quantity: z.number().int().nonnegative(),
+  targetQuantity: z.number().int().nonnegative(),
+  defectQuantity: z.number().int().nonnegative(),
+  efficiency: z.number().nullable(),
+  note: z.string().nullable(),
+  status: z.nativeEnum(ProductionRecordStatus),
+  recordedById: z.string(),
+  approvedById: z.string().nullable(),
+  approvedAt: z.date().nullable(),
+  rejectReason: z.string().nullable(),
+  factoryId: z.string().nullable(),
+  lineId: z.string().nullable(),
+  teamId: z.string().nullable(),
+  groupId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ProductionRecord = z.infer<typeof productionRecordSchema> & {
+  shift?: { code: string };
+};
+
+// Kỳ tổng hợp sản lượng
+export enum ProductionPeriod {
+  DAY = 'day',
+  WEEK = 'week',
+}
+
+// Một dòng tổng hợp: một đơn vị trong một ngày (hoặc một tuần)
+export interface ProductionAggregate {
+  unitId: string;
+  // Ngày (YYYY-MM-DD) hoặc thứ Hai đầu tuần ISO
+  periodStart: string;
+  // 'YYYY-MM-DD' hoặc 'YYYY-Www'
+  period: string;
+  quantity: number;
+  targetQuantity: number;
+  defectQuantity: number;
+  efficiency: number | null;
+  defectRate: number | null;
+  recordCount: number;
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { RedisModule } from 'src/common/redis';
+import { ShareModule } from 'src/share/module';
+import { OrganizationModule } from '../organization/organization.module';
+import { ProductionHttpController } from './production-http.controller';
+import { PRODUCTION_SERVICE } from './production.di-token';
+import { ProductionService } from './production.service';
+
+@Module({
+  imports: [ShareModule, RedisModule, OrganizationModule],
+  controllers: [ProductionHttpController],
+  providers: [
+    {
+      provide: PRODUCTION_SERVICE,
+      useClass: ProductionService,
+    },
+  ],
+  exports: [PRODUCTION_SERVICE],
+})
+export class ProductionModule {}
@@ -0,0 +1,46 @@
+import { Paginated, Requester } from 'src/share';
+import {
+  ProductionAggregateQueryDTO,
+  ProductionApproveDTO,
+  ProductionRecordCondDTO,
+  ProductionRecordCreateDTO,
+  ProductionRecordUpdateDTO,
+  ProductionRejectDTO,
+} from './production.dto';
+import { ProductionAggregate, ProductionRecord } from './production.model';
+
+export interface IProductionService {
+  createRecord(
+    requester: Requester,
+    dto: ProductionRecordCreateDTO,
+  ): Promise<ProductionRecord>;
+  // Bản ghi đã duyệt bị khóa, không sửa/xóa được
+  updateRecord(
+    requester: Requester,
+    id: string,
+    dto: ProductionRecordUpdateDTO,
+  ): Promise<ProductionRecord>;
+  deleteRecord(requester: Requester, id: string): Promise<void>;
+
+  approve(
+    requester: Requester,
+    dto: ProductionApproveDTO,
+  ): Promise<ProductionRecord[]>;
+  reject(
+    requester: Requester,
+    id: string,
+    dto: ProductionRejectDTO,
+  ): Promise<ProductionRecord>;
+  // Admin mở khóa bản ghi đã duyệt để sửa lại
+  reopen(requester: Requester, id: string): Promise<ProductionRecord>;
+
+  getRecord(requester: Requester, id: string): Promise<ProductionRecord>;
+  list(
+    requester: Requester,
+    cond: ProductionRecordCondDTO,
+  ): Promise<Paginated<ProductionRecord>>;
+  aggregate(
+    requester: Requester,
+    query: ProductionAggregateQueryDTO,
+  ): Promise<ProductionAggregate[]>;
+}
@@ -0,0 +1,322 @@
+import { AppError, Requester, UserRole } from '../../share';
+import { OrgUnitType } from '../organization/organization.model';
+import { ProductionPeriod, ProductionRecordStatus } from './production.model';
+import { ProductionService } from './production.service';
+
+describe('ProductionService approval', () => {
+  const tx = { productionRecord: { updateMany: jest.fn() } };
+  const prisma = {
+    productionRecord: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+  };
+  const organizationService = { getScopeFilter: jest.fn() };
+  const eventPublisher = { publish: jest.fn() };
+  const service = new ProductionService(
+    prisma as any,
+    organizationService as any,
+    eventPublisher as any,
+  );
+
+  const leader = { sub: 'leader-1', role: UserRole.TEAM_LEADER } as Requester;
+  const record = (id: string, overrides: object = {}) => ({
+    id,
+    userId: 'worker-1',
+    date: new Date('2026-10-01T00:00:00Z'),
+    productCode: 'P-1',
+    quantity: 100,
+    targetQuantity: 100,
+    defectQuantity: 0,
+    efficiency: 100,
+    status: ProductionRecordStatus.PENDING,
+    recordedById: 'worker-1',
+    factoryId: 'factory-1',
+    lineId: 'line-1',
+    teamId: 'team-1',
+    groupId: null,
+    shift: { code: 'DAY' },
+    ...overrides,
+  });
+  const approveError = async (ids: string[], requester = leader) =>
+    (await service.approve(requester, { ids }).catch((e) => e)) as AppError;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    organizationService.getScopeFilter.mockReturnValue({ teamId: 'team-1' });
+    tx.productionRecord.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('approves pending records in the leader unit and locks them', async () => {
+    prisma.productionRecord.findMany
+      .mockResolvedValueOnce([record('record-1')])
+      .mockResolvedValueOnce([
+        record('record-1', { status: ProductionRecordStatus.APPROVED }),
+      ]);
+
+    const approved = await service.approve(leader, { ids: ['record-1'] });
+
+    expect(approved).toHaveLength(1);
+    expect(tx.productionRecord.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: ['record-1'] },
+        status: ProductionRecordStatus.PENDING,
+      },
+      data: expect.objectContaining({
+        status: ProductionRecordStatus.APPROVED,
+        approvedById: 'leader-1',
+      }),
+    });
+    expect(eventPublisher.publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails when another approver changed the records first', async () => {
+    prisma.productionRecord.findMany.mockResolvedValue([
+      record('record-1'),
+      record('record-2'),
+    ]);
+
+    const error = await approveError(['record-1', 'record-2']);
+
+    expect(error.getStatusCode()).toBe(409);
+    expect(error.message).toBe('Production records were modified concurrently');
+    expect(eventPublisher.publish).not.toHaveBeenCalled();
+  });
+
+  it('rejects records that are no longer pending', async () => {
+    prisma.productionRecord.findMany.mockResolvedValue([
+      record('record-1', { status: ProductionRecordStatus.APPROVED }),
+    ]);
+
+    const error = await approveError(['record-1']);
+
+    expect(error.getStatusCode()).toBe(409);
+    expect(error.toJSON().details).toMatchObject({ ids: ['record-1'] });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('reports missing records', async () => {
+    prisma.productionRecord.findMany.mockResolvedValue([record('record-1')]);
+
+    const error = await approveError(['record-1', 'record-2']);
+
+    expect(error.getStatusCode()).toBe(404);
+    expect(error.toJSON().details).toMatchObject({ ids: ['record-2'] });
+  });
+
+  it('forbids leaders from approving their own record', async () => {
+    prisma.productionRecord.findMany.mockResolvedValue([
+      record('record-1', { userId: 'leader-1' }),
+    ]);
+
+    const error = await approveError(['record-1']);
+
+    expect(error.getStatusCode()).toBe(403);
+    expect(error.message).toBe('You cannot approve your own production record');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('forbids approving records outside of the leader unit', async () => {
+    prisma.productionRecord.findMany.mockResolvedValue([
+      record('record-1', { teamId: 'team-2' }),
+    ]);
+
+    const error = await approveError(['record-1']);
+
+    expect(error.getStatusCode()).toBe(403);
+    expect(error.toJSON().details).toMatchObject({ id: 'record-1' });
+  });
+
+  it('lets administrators approve any record, including their own', async () => {
+    const admin = { sub: 'admin-1', role: UserRole.ADMIN } as Requester;
+    prisma.productionRecord.findMany
+      .mockResolvedValueOnce([
+        record('record-1', { userId: 'admin-1', teamId: 'team-9' }),
+      ])
+      .mockResolvedValueOnce([record('record-1')]);
+
+    await expect(
+      service.approve(admin, { ids: ['record-1'] }),
+    ).resolves.toHaveLength(1);
+  });
+
+  it('locks approved records against edits and deletes', async () => {
+    prisma.productionRecord.findUnique.mockResolvedValue(
+      record('record-1', { status: ProductionRecordStatus.APPROVED }),
+    );
+    const worker = { sub: 'worker-1', role: UserRole.WORKER } as Requester;
+
+    const updateError = (await service
+      .updateRecord(worker, 'record-1', { quantity: 90 })
+      .catch((e) => e)) as AppError;
+    const deleteError = (await service
+      .deleteRecord(worker, 'record-1')
+      .catch((e) => e)) as AppError;
+
+    expect(updateError.getStatusCode()).toBe(409);
+    expect(deleteError.getStatusCode()).toBe(409);
+    expect(prisma.productionRecord.updateMany).not.toHaveBeenCalled();
+    expect(prisma.productionRecord.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('keeps the lock when the record is approved during an edit', async () => {
+    prisma.productionRecord.findUnique.mockResolvedValue(record('record-1'));
+    prisma.productionRecord.updateMany.mockResolvedValue({ count: 0 });
+    const worker = { sub: 'worker-1', role: UserRole.WORKER } as Requester;
+
+    const error = (await service
+      .updateRecord(worker, 'record-1', { quantity: 90 })
+      .catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(409);
+    expect(prisma.productionRecord.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: 'record-1',
+          status: { not: ProductionRecordStatus.APPROVED },
+        },
+      }),
+    );
+  });
+
+  it('only lets administrators reopen approved records', async () => {
+    const error = (await service
+      .reopen(leader, 'record-1')
+      .catch((e) => e)) as AppError;
+
+    expect(error.getStatusCode()).toBe(403);
+    expect(prisma.productionRecord.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProductionService.aggregate', () => {
+  const prisma = { productionRecord: { groupBy: jest.fn() } };
+  const organizationService = {
+    getScopeFilter: jest.fn(),
+    isWithinScope: jest.fn(),
+  };
+  const service = new ProductionService(
+    prisma as any,
+    organizationService as any,
+    { publish: jest.fn() } as any,
+  );
+
+  const leader = { sub: 'leader-1', role: UserRole.TEAM_LEADER } as Requester;
+  const query = {
+    from: '2026-10-05',
+    to: '2026-10-11',
+    unitType: OrgUnitType.TEAM,
+    period: ProductionPeriod.DAY,
+    includePending: false,
+  };
+  const group = (date: string, teamId: string, sums: number[]) => ({
+    date: new Date(`${date}T00:00:00Z`),
+    teamId,
+    _sum: {
+      quantity: sums[0],
+      targetQuantity: sums[1],
+      defectQuantity: sums[2],
+    },
+    _count: { _all: 1 },
+  });
+  const aggregateError = async (overrides: object) =>
+    (await service
+      .aggregate(leader, { ...query, ...overrides } as any)
+      .catch((e) => e)) as AppError;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    organizationService.getScopeFilter.mockReturnValue({ lineId: 'line-1' });
+    organizationService.isWithinScope.mockResolvedValue(true);
+  });
+
+  it('sums approved records per unit and day inside the leader scope', async () => {
+    prisma.productionRecord.groupBy.mockResolvedValue([
+      group('2026-10-06', 'team-2', [50, 100, 10]),
+      group('2026-10-05', 'team-1', [90, 100, 9]),
+    ]);
+
+    const rows = await service.aggregate(leader, query as any);
+
+    expect(prisma.productionRecord.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        by: ['date', 'teamId'],
+        where: {
+          AND: [
+            { lineId: 'line-1' },
+            { teamId: { not: null } },
+            {
+              date: {
+                gte: new Date('2026-10-05T00:00:00Z'),
+                lte: new Date('2026-10-11T00:00:00Z'),
+              },
+            },
+            { status: ProductionRecordStatus.APPROVED },
+          ],
+        },
+      }),
+    );
+    expect(rows.map((row) => [row.unitId, row.period])).toEqual([
+      ['team-1', '2026-10-05'],
+      ['team-2', '2026-10-06'],
+    ]);
+    expect(rows[0]).toMatchObject({ efficiency: 81, defectRate: 10 });
+  });
+
+  it('merges days into ISO weeks', async () => {
+    prisma.productionRecord.groupBy.mockResolvedValue([
+      group('2026-10-05', 'team-1', [90, 100, 0]),
+      group('2026-10-09', 'team-1', [110, 100, 10]),
+    ]);
+
+    const rows = await service.aggregate(leader, {
+      ...query,
+      period: ProductionPeriod.WEEK,
+    } as any);
+
+    expect(rows).toEqual([
+      {
+        unitId: 'team-1',
+        periodStart: '2026-10-05',
+        period: '2026-W41',
+        quantity: 200,
+        targetQuantity: 200,
+        defectQuantity: 10,
+        efficiency: 95,
+        defectRate: 5,
+        recordCount: 2,
+      },
+    ]);
+  });
+
+  it('rejects requesters who do not manage any unit', async () => {
+    organizationService.getScopeFilter.mockReturnValue(null);
+
+    const error = await aggregateError({});
+
+    expect(error.getStatusCode()).toBe(403);
+    expect(prisma.productionRecord.groupBy).not.toHaveBeenCalled();
+  });
+
+  it('rejects a unit outside of the leader scope', async () => {
+    organizationService.isWithinScope.mockResolvedValue(false);
+
+    const error = await aggregateError({ unitId: 'team-9' });
+
+    expect(error.getStatusCode()).toBe(403);
+    expect(organizationService.isWithinScope).toHaveBeenCalledWith(
+      leader,
+      OrgUnitType.TEAM,
+      'team-9',
+    );
+  });
+
+  it('rejects ranges longer than the aggregation limit', async () => {
+    const error = await aggregateError({ from: '2026-01-01' });
+
+    expect(error.getStatusCode()).toBe(400);
+  });
+});
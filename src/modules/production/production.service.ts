@@ -0,0 +1,766 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  addDays,
+  formatDateOnly,
+  isoWeek,
+  parseDateOnly,
+  startOfIsoWeek,
+} from 'src/common/utils/date-only';
+import { AppError, Paginated, Requester, UserRole } from 'src/share';
+import { EVENT_PUBLISHER } from 'src/share/di-token';
+import {
+  EvtProductionRecordApproved,
+  EvtProductionRecordCreated,
+  ProductionRecordEvent,
+  ProductionRecordEventPayload,
+} from 'src/share/event';
+import { IEventPublisher } from 'src/share/interface';
+import { PrismaService } from 'src/share/prisma.service';
+import { ORGANIZATION_SERVICE } from '../organization/organization.di-token';
+import { OrgPath, OrgUnitType } from '../organization/organization.model';
+import { IOrganizationService } from '../organization/organization.port';
+import {
+  ProductionAggregateQueryDTO,
+  ProductionApproveDTO,
+  ProductionRecordCondDTO,
+  ProductionRecordCreateDTO,
+  ProductionRecordUpdateDTO,
+  ProductionRejectDTO,
+} from './production.dto';
+import {
+  ProductionAggregate,
+  ProductionPeriod,
+  ProductionRecord,
+  ProductionRecordStatus,
+} from './production.model';
+import { IProductionService } from './production.port';
+
+const PRODUCTION_INCLUDE = {
+  shift: { select: { code: true } },
+} satisfies Prisma.ProductionRecordInclude;
+
+type ProductionRecordRow = Prisma.ProductionRecordGetPayload<{
+  include: typeof PRODUCTION_INCLUDE;
+}>;
+
+type OrgSnapshot = { [K in keyof OrgPath]: string | null };
+
+const EMPTY_ORG_PATH: OrgSnapshot = {
+  factoryId: null,
+  lineId: null,
+  teamId: null,
+  groupId: null,
+};
+
+// Cột snapshot tương ứng với từng cấp đơn vị
+const UNIT_FIELD: Record<OrgUnitType, keyof OrgPath> = {
+  [OrgUnitType.FACTORY]: 'factoryId',
+  [OrgUnitType.LINE]: 'lineId',
+  [OrgUnitType.TEAM]: 'teamId',
+  [OrgUnitType.GROUP]: 'groupId',
+};
+
+// Giới hạn khoảng ngày khi tổng hợp để truy vấn không quét quá nhiều dữ liệu
+const MAX_AGGREGATE_DAYS = 92;
+
+@Injectable()
+export class ProductionService implements IProductionService {
+  private readonly logger = new Logger(ProductionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(ORGANIZATION_SERVICE)
+    private readonly organizationService: IOrganizationService,
+    @Inject(EVENT_PUBLISHER)
+    private readonly eventPublisher: IEventPublisher,
+  ) {}
+
+  async createRecord(
+    requester: Requester,
+    dto: ProductionRecordCreateDTO,
+  ): Promise<ProductionRecord> {
+    try {
+      const userId = dto.userId ?? requester.sub;
+      if (
+        userId !== requester.sub &&
+        !(await this.organizationService.isUserWithinScope(requester, userId))
+      ) {
+        throw AppError.from(
+          new Error('User belongs to a unit outside of your management scope'),
+          403,
+        );
+      }
+
+      const shift = await this.prisma.shift.findUnique({
+        where: { id: dto.shiftId },
+        select: { isActive: true, deletedAt: true },
+      });
+      if (!shift || !shift.isActive || shift.deletedAt) {
+        throw AppError.from(new Error('Shift not found'), 404).withDetail(
+          'shiftId',
+          dto.shiftId,
+        );
+      }
+
+      const defectQuantity = dto.defectQuantity ?? 0;
+      const orgPath = await this.getOrgSnapshot(userId);
+
+      const record = await this.prisma.productionRecord.create({
+        data: {
+          userId,
+          date: parseDateOnly(dto.date),
+          shiftId: dto.shiftId,
+          productCode: dto.productCode,
+          quantity: dto.quantity,
+          targetQuantity: dto.targetQuantity,
+          defectQuantity,
+          efficiency: this.computeEfficiency(
+            dto.quantity,
+            defectQuantity,
+            dto.targetQuantity,
+          ),
+          note: dto.note ?? null,
+          recordedById: requester.sub,
+          ...orgPath,
+        },
+        include: PRODUCTION_INCLUDE,
+      });
+
+      await this.publish(EvtProductionRecordCreated, record, requester.sub);
+
+      return this.toModel(record);
+    } catch (error) {
+      this.logger.error(
+        `Create production record error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw AppError.from(
+          new Error(
+            'A production record for this user, date, shift and product already exists',
+          ),
+          409,
+        );
+      }
+      throw AppError.from(
+        new Error(`Failed to create production record: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async updateRecord(
+    requester: Requester,
+    id: string,
+    dto: ProductionRecordUpdateDTO,
+  ): Promise<ProductionRecord> {
+    try {
+      const record = await this.getEditableRecord(requester, id);
+
+      const quantity = dto.quantity ?? record.quantity;
+      const targetQuantity = dto.targetQuantity ?? record.targetQuantity;
+      const defectQuantity = dto.defectQuantity ?? record.defectQuantity;
+      if (defectQuantity > quantity) {
+        throw AppError.from(
+          new Error('Defect quantity cannot exceed quantity'),
+          400,
+        );
+      }
+
+      // Sửa bản ghi bị từ chối sẽ gửi lại để duyệt
+      const { count } = await this.prisma.productionRecord.updateMany({
+        where: { id, status: { not: ProductionRecordStatus.APPROVED } },
+        data: {
+          quantity,
+          targetQuantity,
+          defectQuantity,
+          efficiency: this.computeEfficiency(
+            quantity,
+            defectQuantity,
+            targetQuantity,
+          ),
+          ...(dto.note !== undefined && { note: dto.note }),
+          status: ProductionRecordStatus.PENDING,
+          rejectReason: null,
+        },
+      });
+      if (count === 0) {
+        throw this.lockedError();
+      }
+
+      return this.toModel(await this.findRecord(id));
+    } catch (error) {
+      this.logger.error(
+        `Update production record error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to update production record: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async deleteRecord(requester: Requester, id: string): Promise<void> {
+    try {
+      await this.getEditableRecord(requester, id);
+
+      const { count } = await this.prisma.productionRecord.deleteMany({
+        where: { id, status: { not: ProductionRecordStatus.APPROVED } },
+      });
+      if (count === 0) {
+        throw this.lockedError();
+      }
+    } catch (error) {
+      this.logger.error(
+        `Delete production record error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to delete production record: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async approve(
+    requester: Requester,
+    dto: ProductionApproveDTO,
+  ): Promise<ProductionRecord[]> {
+    try {
+      const records = await this.prisma.productionRecord.findMany({
+        where: { id: { in: dto.ids } },
+        select: {
+          id: true,
+          userId: true,
+          status: true,
+          factoryId: true,
+          lineId: true,
+          teamId: true,
+          groupId: true,
+        },
+      });
+
+      const found = new Set(records.map((r) => r.id));
+      const missing = dto.ids.filter((id) => !found.has(id));
+      if (missing.length > 0) {
+        throw AppError.from(
+          new Error('Production records not found'),
+          404,
+        ).withDetail('ids', missing);
+      }
+
+      const notPending = records
+        .filter((r) => r.status !== ProductionRecordStatus.PENDING)
+        .map((r) => r.id);
+      if (notPending.length > 0) {
+        throw AppError.from(
+          new Error('Only pending production records can be approved'),
+          409,
+        ).withDetail('ids', notPending);
+      }
+
+      for (const record of records) {
+        this.assertCanDecide(requester, record);
+      }
+
+      const approvedAt = new Date();
+      await this.prisma.$transaction(async (tx) => {
+        // Có điều kiện status để hai người duyệt cùng lúc không ghi đè nhau
+        const { count } = await tx.productionRecord.updateMany({
+          where: {
+            id: { in: dto.ids },
+            status: ProductionRecordStatus.PENDING,
+          },
+          data: {
+            status: ProductionRecordStatus.APPROVED,
+            approvedById: requester.sub,
+            approvedAt,
+          },
+        });
+        if (count !== dto.ids.length) {
+          throw AppError.from(
+            new Error('Production records were modified concurrently'),
+            409,
+          );
+        }
+      });
+
+      const approved = await this.prisma.productionRecord.findMany({
+        where: { id: { in: dto.ids } },
+        include: PRODUCTION_INCLUDE,
+        orderBy: [{ date: 'asc' }, { userId: 'asc' }],
+      });
+
+      for (const record of approved) {
+        await this.publish(EvtProductionRecordApproved, record, requester.sub);
+      }
+
+      return approved.map((record) => this.toModel(record));
+    } catch (error) {
+      this.logger.error(
+        `Approve production records error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to approve production records: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async reject(
+    requester: Requester,
+    id: string,
+    dto: ProductionRejectDTO,
+  ): Promise<ProductionRecord> {
+    try {
+      const record = await this.findRecord(id);
+      if (record.status !== ProductionRecordStatus.PENDING) {
+        throw AppError.from(
+          new Error('Only pending production records can be rejected'),
+          409,
+        ).withDetail('status', record.status);
+      }
+      this.assertCanDecide(requester, record);
+
+      const { count } = await this.prisma.productionRecord.updateMany({
+        where: { id, status: ProductionRecordStatus.PENDING },
+        data: {
+          status: ProductionRecordStatus.REJECTED,
+          rejectReason: dto.reason,
+        },
+      });
+      if (count === 0) {
+        throw AppError.from(
+          new Error('Production record was modified concurrently'),
+          409,
+        );
+      }
+
+      return this.toModel(await this.findRecord(id));
+    } catch (error) {
+      this.logger.error(
+        `Reject production record error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to reject production record: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async reopen(requester: Requester, id: string): Promise<ProductionRecord> {
+    try {
+      if (!this.isAdmin(requester)) {
+        throw AppError.from(
+          new Error('Only administrators can reopen approved records'),
+          403,
+        );
+      }
+
+      const { count } = await this.prisma.productionRecord.updateMany({
+        where: { id, status: ProductionRecordStatus.APPROVED },
+        data: {
+          status: ProductionRecordStatus.PENDING,
+          approvedById: null,
+          approvedAt: null,
+        },
+      });
+      if (count === 0) {
+        // Phân biệt không tồn tại với chưa được duyệt
+        const record = await this.findRecord(id);
+        throw AppError.from(
+          new Error('Only approved production records can be reopened'),
+          409,
+        ).withDetail('status', record.status);
+      }
+
+      this.logger.log(`Production record ${id} reopened by ${requester.sub}`);
+
+      return this.toModel(await this.findRecord(id));
+    } catch (error) {
+      this.logger.error(
+        `Reopen production record error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to reopen production record: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async getRecord(requester: Requester, id: string): Promise<ProductionRecord> {
+    const record = await this.findRecord(id);
+    if (record.userId !== requester.sub && !this.inScope(requester, record)) {
+      throw AppError.from(
+        new Error('You are not allowed to view this production record'),
+        403,
+      );
+    }
+    return this.toModel(record);
+  }
+
+  async list(
+    requester: Requester,
+    cond: ProductionRecordCondDTO,
+  ): Promise<Paginated<ProductionRecord>> {
+    try {
+      const where: Prisma.ProductionRecordWhereInput = {};
+      if (cond.userId) where.userId = cond.userId;
+      if (cond.shiftId) where.shiftId = cond.shiftId;
+      if (cond.productCode) where.productCode = cond.productCode;
+      if (cond.status) where.status = cond.status;
+      if (cond.from || cond.to) {
+        where.date = {
+          ...(cond.from && { gte: parseDateOnly(cond.from) }),
+          ...(cond.to && { lte: parseDateOnly(cond.to) }),
+        };
+      }
+
+      // Người không quản lý đơn vị nào chỉ xem được sản lượng của chính mình
+      const scope = this.organizationService.getScopeFilter(requester);
+      const scopedWhere: Prisma.ProductionRecordWhereInput = {
+        AND: [where, scope ?? { userId: requester.sub }],
+      };
+
+      const { page, limit } = cond;
+      const [total, rows] = await Promise.all([
+        this.prisma.productionRecord.count({ where: scopedWhere }),
+        this.prisma.productionRecord.findMany({
+          where: scopedWhere,
+          include: PRODUCTION_INCLUDE,
+          orderBy: [{ date: 'desc' }, { userId: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+      ]);
+
+      return {
+        data: rows.map((row) => this.toModel(row)),
+        paging: { page, limit, total },
+        total,
+      };
+    } catch (error) {
+      this.logger.error(
+        `List production records error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to list production records: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async aggregate(
+    requester: Requester,
+    query: ProductionAggregateQueryDTO,
+  ): Promise<ProductionAggregate[]> {
+    try {
+      const from = parseDateOnly(query.from);
+      const to = parseDateOnly(query.to);
+      if (to > addDays(from, MAX_AGGREGATE_DAYS - 1)) {
+        throw AppError.from(
+          new Error(
+            `Aggregation range cannot exceed ${MAX_AGGREGATE_DAYS} days`,
+          ),
+          400,
+        );
+      }
+
+      const scope = this.organizationService.getScopeFilter(requester);
+      if (!scope) {
+        throw AppError.from(
+          new Error('You do not manage any organization unit'),
+          403,
+        );
+      }
+
+      const field = UNIT_FIELD[query.unitType];
+      const unitFilter: Prisma.ProductionRecordWhereInput = {
+        [field]: { not: null },
+      };
+      if (query.unitId) {
+        const allowed = await this.organizationService.isWithinScope(
+          requester,
+          query.unitType,
+          query.unitId,
+        );
+        if (!allowed) {
+          throw AppError.from(
+            new Error('Unit is outside of your management scope'),
+            403,
+          );
+        }
+        unitFilter[field] = query.unitId;
+      }
+
+      const where: Prisma.ProductionRecordWhereInput = {
+        AND: [
+          scope,
+          unitFilter,
+          { date: { gte: from, lte: to } },
+          {
+            status: query.includePending
+              ? {
+                  in: [
+                    ProductionRecordStatus.APPROVED,
+                    ProductionRecordStatus.PENDING,
+                  ],
+                }
+              : ProductionRecordStatus.APPROVED,
+          },
+        ],
+      };
+
+      const groups = await this.prisma.productionRecord.groupBy({
+        by: ['date', field],
+        where,
+        _sum: { quantity: true, targetQuantity: true, defectQuantity: true },
+        _count: { _all: true },
+      });
+
+      // Gộp theo (đơn vị, kỳ); theo ngày thì mỗi nhóm đã là một dòng
+      const buckets = new Map<string, ProductionAggregate>();
+      for (const group of groups) {
+        const unitId = group[field] as string;
+        const periodStart =
+          query.period === ProductionPeriod.WEEK
+            ? startOfIsoWeek(group.date)
+            : group.date;
+        const key = `${unitId}|${formatDateOnly(periodStart)}`;
+
+        const bucket = buckets.get(key) ?? {
+          unitId,
+          periodStart: formatDateOnly(periodStart),
+          period: this.periodLabel(periodStart, query.period),
+          quantity: 0,
+          targetQuantity: 0,
+          defectQuantity: 0,
+          efficiency: null,
+          defectRate: null,
+          recordCount: 0,
+        };
+        bucket.quantity += group._sum.quantity ?? 0;
+        bucket.targetQuantity += group._sum.targetQuantity ?? 0;
+        bucket.defectQuantity += group._sum.defectQuantity ?? 0;
+        bucket.recordCount += group._count._all;
+        buckets.set(key, bucket);
+      }
+
+      return [...buckets.values()]
+        .map((bucket) => ({
+          ...bucket,
+          efficiency: this.computeEfficiency(
+            bucket.quantity,
+            bucket.defectQuantity,
+            bucket.targetQuantity,
+          ),
+          defectRate:
+            bucket.quantity > 0
+              ? this.round2((bucket.defectQuantity / bucket.quantity) * 100)
+              : null,
+        }))
+        .sort(
+          (a, b) =>
+            a.periodStart.localeCompare(b.periodStart) ||
+            a.unitId.localeCompare(b.unitId),
+        );
+    } catch (error) {
+      this.logger.error(
+        `Aggregate production error: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw AppError.from(
+        new Error(`Failed to aggregate production: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  // ===== Helpers =====
+
+  private isAdmin(requester: Requester): boolean {
+    return (
+      requester.role === UserRole.ADMIN ||
+      requester.role === UserRole.SUPER_ADMIN
+    );
+  }
+
+  // So snapshot đơn vị của bản ghi với phạm vi quản lý của requester
+  private inScope(requester: Requester, record: OrgSnapshot): boolean {
+    const scope = this.organizationService.getScopeFilter(requester);
+    if (!scope) {
+      return false;
+    }
+    return Object.entries(scope).every(
+      ([key, value]) => record[key as keyof OrgPath] === value,
+    );
+  }
+
+  private assertCanDecide(
+    requester: Requester,
+    record: OrgSnapshot & { id: string; userId: string },
+  ): void {
+    if (this.isAdmin(requester)) {
+      return;
+    }
+    if (record.userId === requester.sub) {
+      throw AppError.from(
+        new Error('You cannot approve your own production record'),
+        403,
+      ).withDetail('id', record.id);
+    }
+    if (!this.inScope(requester, record)) {
+      throw AppError.from(
+        new Error('Production record is outside of your management scope'),
+        403,
+      ).withDetail('id', record.id);
+    }
+  }
+
+  // Người ghi, người được ghi hoặc trưởng đơn vị được sửa khi chưa duyệt
+  private async getEditableRecord(
+    requester: Requester,
+    id: string,
+  ): Promise<ProductionRecordRow> {
+    const record = await this.findRecord(id);
+    if (record.status === ProductionRecordStatus.APPROVED) {
+      throw this.lockedError();
+    }
+
+    const canEdit =
+      record.userId === requester.sub ||
+      record.recordedById === requester.sub ||
+      this.inScope(requester, record);
+    if (!canEdit) {
+      throw AppError.from(
+        new Error('You are not allowed to modify this production record'),
+        403,
+      );
+    }
+
+    return record;
+  }
+
+  private async findRecord(id: string): Promise<ProductionRecordRow> {
+    const record = await this.prisma.productionRecord.findUnique({
+      where: { id },
+      include: PRODUCTION_INCLUDE,
+    });
+    if (!record) {
+      throw AppError.from(new Error('Production record not found'), 404);
+    }
+    return record;
+  }
+
+  private lockedError(): AppError {
+    return AppError.from(
+      new Error('Production record is approved and locked'),
+      409,
+    );
+  }
+
+  private async getOrgSnapshot(userId: string): Promise<OrgSnapshot> {
+    const membership = await this.organizationService.getMembership(userId);
+    if (!membership) {
+      return EMPTY_ORG_PATH;
+    }
+    return {
+      factoryId: membership.factoryId,
+      lineId: membership.lineId,
+      teamId: membership.teamId,
+      groupId: membership.groupId,
+    };
+  }
+
+  // Hiệu suất (%) = sản lượng đạt / chỉ tiêu; không có chỉ tiêu thì không tính
+  private computeEfficiency(
+    quantity: number,
+    defectQuantity: number,
+    targetQuantity: number,
+  ): number | null {
+    if (targetQuantity <= 0) {
+      return null;
+    }
+    return this.round2(((quantity - defectQuantity) / targetQuantity) * 100);
+  }
+
+  private round2(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private periodLabel(periodStart: Date, period: ProductionPeriod): string {
+    if (period === ProductionPeriod.DAY) {
+      return formatDateOnly(periodStart);
+    }
+    const { year, week } = isoWeek(periodStart);
+    return `${year}-W${String(week).padStart(2, '0')}`;
+  }
+
+  private async publish(
+    eventName: string,
+    record: ProductionRecordRow,
+    senderId: string,
+  ): Promise<void> {
+    const payload: ProductionRecordEventPayload = {
+      recordId: record.id,
+      userId: record.userId,
+      date: formatDateOnly(record.date),
+      shift: record.shift.code,
+      productCode: record.productCode,
+      quantity: record.quantity,
+      targetQuantity: record.targetQuantity,
+      defectQuantity: record.defectQuantity,
+      efficiency: record.efficiency,
+      status: record.status,
+      groupId: record.groupId,
+    };
+
+    try {
+      await this.eventPublisher.publish(
+        new ProductionRecordEvent(eventName, payload, { senderId }),
+      );
+    } catch (error) {
+      // Sản lượng đã lưu; lỗi phát event không được làm hỏng request
+      this.logger.warn(
+        `Failed to publish ${eventName} for ${record.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private toModel(row: ProductionRecordRow): ProductionRecord {
+    return row as ProductionRecord;
+  }
+}
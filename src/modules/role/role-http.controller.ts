@@ -18,7 +18,7 @@ import { IRoleService } from './role.port';
 import { RoleCondDTO, RoleDTO, roleDTOSchema } from './role.dto';
 import { PaginationDTO } from '../user/user.dto';
 import { RemoteAuthGuard, Roles, RolesGuard } from 'src/share/guard';
-import { ReqWithRequester, UserRole } from 'src/share';
+import { IfMatch, ReqWithRequester, UserRole } from 'src/share';
 import { ZodValidationPipe } from 'src/share/pipes/zod-validation.pipe';
 
 @Controller('roles')
@@ -83,8 +83,14 @@ export class RoleHttpController {
     @Param('id') id: string,
     @Request() req: ReqWithRequester,
     @Body(new ZodValidationPipe(roleDTOSchema)) dto: RoleDTO,
+    @IfMatch() expectedVersion?: Date,
   ) {
-    await this.roleService.updateRole(id, dto, req.requester.role);
+    await this.roleService.updateRole(
+      id,
+      dto,
+      req.requester.role,
+      expectedVersion,
+    );
     return { message: 'Vai trò đã được cập nhật thành công' };
   }
 
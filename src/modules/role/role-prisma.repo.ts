@@ -3,7 +3,7 @@ import { IRoleRepository } from './role.port';
 import { Role, RoleWithRelations } from './role.model';
 import { PaginationDTO } from '../user/user.dto';
 import { RoleCondDTO } from './role.dto';
-import { AppError } from 'src/share';
+import { AppError, preconditionFailed } from 'src/share';
 import { Prisma } from '@prisma/client';
 import { PrismaService } from 'src/share/prisma.service';
 
@@ -164,7 +164,11 @@ export class RolePrismaRepository implements IRoleRepository {
     }
   }
 
-  async update(id: string, dto: Partial<Role>): Promise<void> {
+  async update(
+    id: string,
+    dto: Partial<Role>,
+    expectedUpdatedAt?: Date,
+  ): Promise<void> {
     try {
       const updateData: Prisma.RoleUpdateInput = {};
 
@@ -177,10 +181,22 @@ export class RolePrismaRepository implements IRoleRepository {
       if (dto.updatedAt) updateData.updatedAt = dto.updatedAt;
 
       await this.prisma.role.update({
-        where: { id },
+        where: {
+          id,
+          ...(expectedUpdatedAt && { updatedAt: expectedUpdatedAt }),
+        },
         data: updateData,
       });
     } catch (error) {
+      if (error.code === 'P2025' && expectedUpdatedAt) {
+        const current = await this.prisma.role.findUnique({
+          where: { id },
+          select: { updatedAt: true },
+        });
+        if (current) {
+          throw preconditionFailed('Role', current.updatedAt);
+        }
+      }
       this.logger.error(`Error updating role: ${error.message}`, error.stack);
       throw AppError.from(
         new Error(`Lỗi khi cập nhật vai trò: ${error.message}`),
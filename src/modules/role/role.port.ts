@@ -17,7 +17,12 @@ export interface IRoleRepository {
     total: number;
   }>;
   insert(role: Role): Promise<void>;
-  update(id: string, dto: Partial<Role>): Promise<void>;
+  // Có expectedUpdatedAt: chỉ ghi khi bản ghi chưa bị sửa từ lúc client đọc (412 nếu không)
+  update(
+    id: string,
+    dto: Partial<Role>,
+    expectedUpdatedAt?: Date,
+  ): Promise<void>;
   delete(id: string): Promise<void>;
 
   // Thêm các phương thức để làm việc với quan hệ
@@ -27,7 +32,12 @@ export interface IRoleRepository {
 // Interface cho role service
 export interface IRoleService {
   createRole(dto: RoleDTO): Promise<string>;
-  updateRole(id: string, dto: RoleDTO, role?: UserRole): Promise<void>;
+  updateRole(
+    id: string,
+    dto: RoleDTO,
+    role?: UserRole,
+    expectedVersion?: Date,
+  ): Promise<void>;
   deleteRole(id: string): Promise<void>;
   getRole(id: string): Promise<Role>;
   getRoleWithRelations(id: string): Promise<RoleWithRelations>;
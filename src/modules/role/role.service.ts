@@ -1,6 +1,6 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
 import { v4 } from 'uuid';
-import { AppError, ErrNotFound, UserRole } from 'src/share';
+import { AppError, assertVersion, ErrNotFound, UserRole } from 'src/share';
 import { PaginationDTO } from '../user/user.dto';
 import { IRoleRepository, IRoleService } from './role.port';
 import { ROLE_REPOSITORY } from './role.di-token';
@@ -70,7 +70,12 @@ export class RoleService implements IRoleService {
     }
   }
 
-  async updateRole(id: string, dto: RoleDTO, role?: UserRole): Promise<void> {
+  async updateRole(
+    id: string,
+    dto: RoleDTO,
+    role?: UserRole,
+    expectedVersion?: Date,
+  ): Promise<void> {
     try {
       // Check if role exists
       const existingRole = await this.roleRepo.get(id);
@@ -78,6 +83,9 @@ export class RoleService implements IRoleService {
         throw AppError.from(ErrNotFound, 404);
       }
 
+      // Admin khác đã sửa vai trò sau khi client này đọc
+      assertVersion('Role', existingRole.updatedAt, expectedVersion);
+
       // If code is changed, check if it's unique
       if (dto.code && dto.code !== existingRole.code) {
         const duplicateCode = await this.roleRepo.getByCode(dto.code);
@@ -108,13 +116,17 @@ export class RoleService implements IRoleService {
           updatedAt: new Date(),
         };
 
-        await this.roleRepo.update(id, updateData);
+        await this.roleRepo.update(id, updateData, expectedVersion);
       } else {
         // For non-system roles, can update all fields
-        await this.roleRepo.update(id, {
-          ...dto,
-          updatedAt: new Date(),
-        });
+        await this.roleRepo.update(
+          id,
+          {
+            ...dto,
+            updatedAt: new Date(),
+          },
+          expectedVersion,
+        );
       }
 
       // Xóa tất cả cache liên quan đến roles
@@ -199,7 +199,41 @@ export class UserHttpController {
     return { success: true, message: 'User deleted successfully' };
   }
 
+  @Post(':id/2fa/reset')
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reset 2FA of a user (admin)',
+    description:
+      'Clears the TOTP secret and backup codes, untrusts devices and emails the user',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: HttpStatus.OK, description: '2FA reset successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'User not found' })
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Unauthorized' })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Forbidden' })
+  async reset2FA(
+    @Request() req: ReqWithRequester,
+    @Param('id', UuidZodValidationPipe) id: string,
+  ) {
+    await this.userService.reset2FA(req.requester, id);
+    return { success: true, message: '2FA has been reset successfully' };
+  }
+
   // 2FA Endpoints
+  @Get('me/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get 2FA status of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: '2FA status with number of unused backup codes',
+  })
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Unauthorized' })
+  async get2FAStatus(@Request() req: ReqWithRequester) {
+    const status = await this.userService.get2FAStatus(req.requester.sub);
+    return { success: true, data: status };
+  }
+
   @Post('me/2fa/setup')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Setup 2FA for the current user' })
@@ -221,7 +255,12 @@ export class UserHttpController {
   @ApiBody({
     schema: {
       type: 'object',
-      properties: { token: { type: 'string' } },
+      properties: {
+        token: {
+          type: 'string',
+          description: '6-digit TOTP code or a backup code (xxxxx-xxxxx)',
+        },
+      },
       required: ['token'],
     },
   })
@@ -238,15 +277,12 @@ export class UserHttpController {
     @Request() req: ReqWithRequester,
     @Body() body: { token: string },
   ) {
-    const isValid = await this.userService.verify2FA(
-      req.requester.sub,
-      body.token,
-    );
+    const { valid, method, backupCodesRemaining } =
+      await this.userService.verify2FACode(req.requester.sub, body.token);
     return {
-      success: isValid,
-      message: isValid
-        ? '2FA token verified successfully'
-        : 'Invalid 2FA token',
+      success: valid,
+      message: valid ? '2FA token verified successfully' : 'Invalid 2FA token',
+      data: { method, backupCodesRemaining },
     };
   }
 
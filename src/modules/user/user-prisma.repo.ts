@@ -231,7 +231,7 @@ export class UserPrismaRepository implements IUserRepository {
         await this.prisma.$transaction(async (tx) => {
           // Delete related records
           await tx.session.deleteMany({ where: { userId: id } });
-          await tx.biometricData.deleteMany({ where: { userId: id } });
+          await tx.webAuthnCredential.deleteMany({ where: { userId: id } });
           await tx.userRole.deleteMany({ where: { userId: id } });
           await tx.notification.deleteMany({ where: { userId: id } });
           await tx.notificationSetting.deleteMany({ where: { userId: id } });
@@ -396,6 +396,29 @@ export class UserPrismaRepository implements IUserRepository {
     }
   }
 
+  async replace2FASecret(
+    userId: string,
+    current: string,
+    next: string,
+  ): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.user.updateMany({
+        where: { id: userId, twoFactorSecret: current },
+        data: { twoFactorSecret: next },
+      });
+      return count === 1;
+    } catch (error) {
+      this.logger.error(
+        `Error updating 2FA secret for user ${userId}: ${error.message}`,
+        error.stack,
+      );
+      throw AppError.from(
+        new Error(`Failed to set 2FA secret: ${error.message}`),
+        500,
+      );
+    }
+  }
+
   async set2FABackupCodes(userId: string, codes: string[]): Promise<void> {
     try {
       await this.prisma.user.update({
@@ -432,6 +455,113 @@ export class UserPrismaRepository implements IUserRepository {
     }
   }
 
+  async claim2FAStep(userId: string, step: number): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.user.updateMany({
+        where: {
+          id: userId,
+          OR: [
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastUsedStep: step },
+      });
+      return count === 1;
+    } catch (error) {
+      this.logger.error(
+        `Error claiming 2FA step for user ${userId}: ${error.message}`,
+        error.stack,
+      );
+      throw AppError.from(
+        new Error(`Failed to verify 2FA code: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async replace2FABackupCodes(
+    userId: string,
+    current: string[],
+    remaining: string[],
+  ): Promise<boolean> {
+    try {
+      const { count } = await this.prisma.user.updateMany({
+        where: { id: userId, twoFactorBackupCodes: { equals: current } },
+        data: { twoFactorBackupCodes: remaining },
+      });
+      return count === 1;
+    } catch (error) {
+      this.logger.error(
+        `Error updating 2FA backup codes for user ${userId}: ${error.message}`,
+        error.stack,
+      );
+      throw AppError.from(
+        new Error(`Failed to set 2FA backup codes: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async reset2FA(userId: string): Promise<void> {
+    try {
+      await this.prisma.$transaction([
+        this.prisma.user.update({
+          where: { id: userId },
+          data: {
+            isTwoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorBackupCodes: [],
+            twoFactorLastUsedStep: null,
+          },
+        }),
+        // Thiết bị tin cậy sẽ bỏ qua 2FA mới nếu không reset
+        this.prisma.device.updateMany({
+          where: { userId, isTrusted: true },
+          data: { isTrusted: false, trustedAt: null },
+        }),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Error resetting 2FA for user ${userId}: ${error.message}`,
+        error.stack,
+      );
+      throw AppError.from(
+        new Error(`Failed to reset 2FA: ${error.message}`),
+        500,
+      );
+    }
+  }
+
+  async list2FACredentials(
+    afterId: string | null,
+    limit: number,
+  ): Promise<Pick<User, 'id' | 'twoFactorSecret' | 'twoFactorBackupCodes'>[]> {
+    try {
+      return await this.prisma.user.findMany({
+        where: {
+          ...(afterId ? { id: { gt: afterId } } : {}),
+          OR: [
+            { twoFactorSecret: { not: null } },
+            { twoFactorBackupCodes: { isEmpty: false } },
+          ],
+        },
+        select: { id: true, twoFactorSecret: true, twoFactorBackupCodes: true },
+        orderBy: { id: 'asc' },
+        take: limit,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error listing 2FA credentials: ${error.message}`,
+        error.stack,
+      );
+      throw AppError.from(
+        new Error(`Failed to list 2FA credentials: ${error.message}`),
+        500,
+      );
+    }
+  }
+
   async getUserRoles(
     userId: string,
   ): Promise<{ roleId: string; role: UserRole }[]> {
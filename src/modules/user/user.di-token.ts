@@ -1,2 +1,3 @@
 export const USER_REPOSITORY = Symbol('USER_REPOSITORY');
 export const USER_SERVICE = Symbol('USER_SERVICE');
+export const TWO_FACTOR_CIPHER = Symbol('TWO_FACTOR_CIPHER');
@@ -22,6 +22,7 @@ export const userSchema = z.object({
   isTwoFactorEnabled: z.boolean().default(false),
   twoFactorSecret: z.string().nullable(),
   twoFactorBackupCodes: z.array(z.string()),
+  twoFactorLastUsedStep: z.number().int().nullable(), // Bước TOTP đã dùng gần nhất, chống dùng lại mã
 
   // Timestamps
   createdAt: z.date(),
@@ -1,13 +1,20 @@
 import { Module } from '@nestjs/common';
-import { USER_REPOSITORY, USER_SERVICE } from './user.di-token';
+import {
+  TWO_FACTOR_CIPHER,
+  USER_REPOSITORY,
+  USER_SERVICE,
+} from './user.di-token';
 import { UserService } from './user.service';
 import { UserPrismaRepository } from './user-prisma.repo';
 import { UserHttpController } from './user-http.controller';
 import { PrismaService } from '../../share/prisma.service';
 import { RoleModule } from '../role/role.module';
+import { EmailModule } from '../email/email.module';
+import { config } from '../../share/config';
+import { createSecretCipher } from '../../share/secret-cipher';
 
 @Module({
-  imports: [RoleModule],
+  imports: [RoleModule, EmailModule],
   controllers: [UserHttpController],
   providers: [
     {
@@ -18,6 +25,11 @@ import { RoleModule } from '../role/role.module';
       provide: USER_SERVICE,
       useClass: UserService,
     },
+    {
+      provide: TWO_FACTOR_CIPHER,
+      useFactory: () =>
+        createSecretCipher(config.twoFactor.encryptionKeys, config.jwtSecret),
+    },
     PrismaService,
   ],
   exports: [USER_SERVICE, USER_REPOSITORY],
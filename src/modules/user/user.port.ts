@@ -32,8 +32,29 @@ export interface IUserRepository {
 
   // 2FA methods
   set2FASecret(userId: string, secret: string): Promise<void>;
+  // Thay secret nếu chưa bị request khác đổi; false khi đã đổi
+  replace2FASecret(
+    userId: string,
+    current: string,
+    next: string,
+  ): Promise<boolean>;
   set2FABackupCodes(userId: string, codes: string[]): Promise<void>;
   enable2FA(userId: string, enabled: boolean): Promise<void>;
+  // Ghi nhận bước TOTP đã dùng; false khi bước này (hoặc bước sau) đã được dùng
+  claim2FAStep(userId: string, step: number): Promise<boolean>;
+  // Thay danh sách backup code nếu chưa bị request khác đổi; false khi đã đổi
+  replace2FABackupCodes(
+    userId: string,
+    current: string[],
+    remaining: string[],
+  ): Promise<boolean>;
+  // Xóa secret, backup code, tắt 2FA và bỏ tin cậy mọi thiết bị
+  reset2FA(userId: string): Promise<void>;
+  // User có secret hoặc backup code, theo id tăng dần sau afterId
+  list2FACredentials(
+    afterId: string | null,
+    limit: number,
+  ): Promise<Pick<User, 'id' | 'twoFactorSecret' | 'twoFactorBackupCodes'>[]>;
 
   // Role methods
   getUserRoles(userId: string): Promise<{ roleId: string; role: UserRole }[]>;
@@ -72,8 +93,14 @@ export interface IUserService {
   // 2FA
   setup2FA(userId: string): Promise<{ secret: string; qrCodeUrl: string }>;
   verify2FA(userId: string, token: string): Promise<boolean>;
+  verify2FACode(userId: string, token: string): Promise<TwoFactorVerification>;
   enable2FA(userId: string, enabled: boolean): Promise<void>;
   generate2FABackupCodes(userId: string): Promise<string[]>;
+  get2FAStatus(userId: string): Promise<TwoFactorStatus>;
+  // Admin reset 2FA cho user mất thiết bị; user được báo qua email
+  reset2FA(requester: Requester, userId: string): Promise<void>;
+  // Mã hóa secret cũ bằng khóa hiện tại và hash backup code dạng plain text
+  migrate2FACredentials(): Promise<TwoFactorMigrationResult>;
 
   // Roles
   getUserRoles(userId: string): Promise<{ roleId: string; role: UserRole }[]>;
@@ -85,3 +112,20 @@ export interface IUserService {
     resourceId: string,
   ): Promise<boolean>;
 }
+
+export interface TwoFactorVerification {
+  valid: boolean;
+  method: 'totp' | 'backup_code' | null;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  configured: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorMigrationResult {
+  secretsEncrypted: number;
+  backupCodesHashed: number;
+}
@@ -0,0 +1,158 @@
+import * as bcrypt from 'bcrypt';
+import * as speakeasy from 'speakeasy';
+import { SecretCipher } from '../../share/secret-cipher';
+import { UserService } from './user.service';
+
+describe('UserService two-factor credentials', () => {
+  const oldCipher = new SecretCipher([{ id: 'k1', key: Buffer.alloc(32, 1) }]);
+  const cipher = new SecretCipher([
+    { id: 'k2', key: Buffer.alloc(32, 2) },
+    { id: 'k1', key: Buffer.alloc(32, 1) },
+  ]);
+  const userRepo = {
+    get: jest.fn(),
+    claim2FAStep: jest.fn(),
+    replace2FASecret: jest.fn(),
+    replace2FABackupCodes: jest.fn(),
+    list2FACredentials: jest.fn(),
+  };
+  const service = new UserService(
+    userRepo as any,
+    {} as any,
+    cipher,
+    {} as any,
+    {} as any,
+  );
+
+  const secret = speakeasy.generateSecret().base32;
+  const totp = () => speakeasy.totp({ secret, encoding: 'base32', step: 30 });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    userRepo.claim2FAStep.mockResolvedValue(true);
+    userRepo.replace2FASecret.mockResolvedValue(true);
+    userRepo.replace2FABackupCodes.mockResolvedValue(true);
+  });
+
+  describe('verify2FACode', () => {
+    beforeEach(() => {
+      userRepo.get.mockResolvedValue({
+        id: 'user-1',
+        twoFactorSecret: cipher.encrypt(secret),
+        twoFactorBackupCodes: [],
+      });
+    });
+
+    it('accepts a fresh TOTP code and claims its step', async () => {
+      const result = await service.verify2FACode('user-1', totp());
+
+      expect(result).toMatchObject({ valid: true, method: 'totp' });
+      expect(userRepo.claim2FAStep).toHaveBeenCalledWith(
+        'user-1',
+        expect.any(Number),
+      );
+      expect(userRepo.replace2FASecret).not.toHaveBeenCalled();
+    });
+
+    it('rejects a TOTP code whose step was already used', async () => {
+      userRepo.claim2FAStep.mockResolvedValue(false);
+
+      const result = await service.verify2FACode('user-1', totp());
+
+      expect(result).toMatchObject({ valid: false, method: null });
+    });
+
+    it('re-encrypts a plaintext secret with the current key on use', async () => {
+      userRepo.get.mockResolvedValue({
+        id: 'user-1',
+        twoFactorSecret: secret,
+        twoFactorBackupCodes: [],
+      });
+
+      await service.verify2FACode('user-1', totp());
+
+      expect(userRepo.replace2FASecret).toHaveBeenCalledWith(
+        'user-1',
+        secret,
+        expect.stringMatching(/^enc:k2:/),
+      );
+    });
+  });
+
+  describe('migrate2FACredentials', () => {
+    it('encrypts legacy secrets and hashes plaintext backup codes', async () => {
+      const hashed = await bcrypt.hash('abcde12345', 4);
+      const current = cipher.encrypt(secret);
+      userRepo.list2FACredentials.mockResolvedValueOnce([
+        {
+          id: 'plain',
+          twoFactorSecret: secret,
+          twoFactorBackupCodes: ['abcde12345', hashed],
+        },
+        {
+          id: 'old-key',
+          twoFactorSecret: oldCipher.encrypt(secret),
+          twoFactorBackupCodes: [],
+        },
+        {
+          id: 'migrated',
+          twoFactorSecret: current,
+          twoFactorBackupCodes: [hashed],
+        },
+      ]);
+
+      const result = await service.migrate2FACredentials();
+
+      expect(result).toEqual({ secretsEncrypted: 2, backupCodesHashed: 1 });
+      for (const id of ['plain', 'old-key']) {
+        const [, , next] = userRepo.replace2FASecret.mock.calls.find(
+          ([userId]) => userId === id,
+        );
+        expect(next).toMatch(/^enc:k2:/);
+        expect(cipher.decrypt(next)).toBe(secret);
+      }
+
+      expect(userRepo.replace2FABackupCodes).toHaveBeenCalledTimes(1);
+      const [userId, before, after] =
+        userRepo.replace2FABackupCodes.mock.calls[0];
+      expect(userId).toBe('plain');
+      expect(before).toEqual(['abcde12345', hashed]);
+      expect(after[1]).toBe(hashed);
+      expect(await bcrypt.compare('abcde12345', after[0])).toBe(true);
+    });
+
+    it('keeps going past users whose secret cannot be decrypted', async () => {
+      const unknownKey = new SecretCipher([
+        { id: 'gone', key: Buffer.alloc(32, 3) },
+      ]);
+      userRepo.list2FACredentials.mockResolvedValueOnce([
+        {
+          id: 'broken',
+          twoFactorSecret: unknownKey.encrypt(secret),
+          twoFactorBackupCodes: [],
+        },
+        { id: 'plain', twoFactorSecret: secret, twoFactorBackupCodes: [] },
+      ]);
+
+      const result = await service.migrate2FACredentials();
+
+      expect(result.secretsEncrypted).toBe(1);
+      expect(userRepo.replace2FASecret).toHaveBeenCalledWith(
+        'plain',
+        secret,
+        expect.any(String),
+      );
+    });
+
+    it('does not count rows changed by a concurrent request', async () => {
+      userRepo.replace2FASecret.mockResolvedValue(false);
+      userRepo.list2FACredentials.mockResolvedValueOnce([
+        { id: 'plain', twoFactorSecret: secret, twoFactorBackupCodes: [] },
+      ]);
+
+      const result = await service.migrate2FACredentials();
+
+      expect(result.secretsEncrypted).toBe(0);
+    });
+  });
+});
@@ -1,6 +1,12 @@
 // src/modules/user/user.service.ts
 import { Inject, Injectable, Logger } from '@nestjs/common';
-import { IUserService, IUserRepository } from './user.port';
+import {
+  IUserService,
+  IUserRepository,
+  TwoFactorMigrationResult,
+  TwoFactorStatus,
+  TwoFactorVerification,
+} from './user.port';
 import { User } from './user.model';
 import {
   CreateUserDto,
@@ -9,13 +15,38 @@ import {
   PaginationDto,
 } from './user.dto';
 import { Paginated, Requester, AppError, UserRole } from '../../share';
-import { randomBytes } from 'crypto';
+import { randomBytes, timingSafeEqual } from 'crypto';
 import * as bcrypt from 'bcrypt';
 import * as speakeasy from 'speakeasy';
 import * as QRCode from 'qrcode';
-import { USER_REPOSITORY } from './user.di-token';
+import { TWO_FACTOR_CIPHER, USER_REPOSITORY } from './user.di-token';
 import { ROLE_REPOSITORY } from '../role/role.di-token';
 import { IRoleRepository } from '../role/role.port';
+import { config } from '../../share/config';
+import { AUDIT_LOGGER } from '../../share/di-token';
+import { IAuditLogger } from '../../share/interface';
+import { SecretCipher } from '../../share/secret-cipher';
+import { EMAIL_SERVICE } from '../email/email.di-token';
+import { IEmailService } from '../email/email.port';
+import { AuditAction } from '../audit/audit.model';
+
+const TOTP_STEP_SECONDS = 30;
+// Crockford base32 (32 ký tự, không có i/l/o/u dễ nhầm); 10 ký tự = 50 bit
+const BACKUP_CODE_ALPHABET = '0123456789abcdefghjkmnpqrstvwxyz';
+const BACKUP_CODE_LENGTH = 10;
+const MIGRATION_BATCH_SIZE = 100;
+// Không bao giờ trả về trong profile
+const SENSITIVE_USER_FIELDS: (keyof User)[] = [
+  'password',
+  'resetToken',
+  'resetTokenExpires',
+  'twoFactorSecret',
+  'twoFactorBackupCodes',
+  'twoFactorLastUsedStep',
+];
+
+// Backup code dạng plain text từ trước khi lưu hash không có tiền tố bcrypt
+const isHashedBackupCode = (stored: string) => stored.startsWith('$2');
 
 @Injectable()
 export class UserService implements IUserService {
@@ -24,6 +55,9 @@ export class UserService implements IUserService {
   constructor(
     @Inject(USER_REPOSITORY) private readonly userRepo: IUserRepository,
     @Inject(ROLE_REPOSITORY) private readonly roleRepo: IRoleRepository,
+    @Inject(TWO_FACTOR_CIPHER) private readonly cipher: SecretCipher,
+    @Inject(EMAIL_SERVICE) private readonly emailService: IEmailService,
+    @Inject(AUDIT_LOGGER) private readonly auditLogger: IAuditLogger,
   ) {}
 
   async createUser(dto: CreateUserDto): Promise<string> {
@@ -60,6 +94,7 @@ export class UserService implements IUserService {
         isTwoFactorEnabled: false,
         twoFactorSecret: null,
         twoFactorBackupCodes: [],
+        twoFactorLastUsedStep: null,
         resetToken: null,
         resetTokenExpires: null,
         createdAt: new Date(),
@@ -166,15 +201,11 @@ export class UserService implements IUserService {
   }
 
   async getUserProfile(userId: string): Promise<User> {
-    const user = await this.getUser(userId);
+    const profile: Partial<User> = { ...(await this.getUser(userId)) };
     // Remove sensitive fields
-    const {
-      password,
-      resetToken,
-      resetTokenExpires,
-      twoFactorSecret,
-      ...profile
-    } = user;
+    for (const field of SENSITIVE_USER_FIELDS) {
+      delete profile[field];
+    }
     return profile as User;
   }
 
@@ -210,8 +241,11 @@ export class UserService implements IUserService {
       name: `YourApp:${userId}`,
     });
 
-    // Store the secret
-    await this.userRepo.set2FASecret(userId, secret.base32);
+    // Store the secret, encrypted at rest
+    await this.userRepo.set2FASecret(
+      userId,
+      this.cipher.encrypt(secret.base32),
+    );
 
     // Generate QR code
     const otpauth = secret.otpauth_url;
@@ -224,30 +258,38 @@ export class UserService implements IUserService {
   }
 
   async verify2FA(userId: string, token: string): Promise<boolean> {
+    const { valid } = await this.verify2FACode(userId, token);
+    return valid;
+  }
+
+  async verify2FACode(
+    userId: string,
+    token: string,
+  ): Promise<TwoFactorVerification> {
     const user = await this.getUser(userId);
 
     if (!user.twoFactorSecret) {
       throw AppError.from(new Error('2FA is not set up for this user'), 400);
     }
 
-    // Check if token is a backup code
-    if (user.twoFactorBackupCodes.includes(token)) {
-      // Remove the used backup code
-      const updatedBackupCodes = user.twoFactorBackupCodes.filter(
-        (code) => code !== token,
-      );
-      await this.userRepo.set2FABackupCodes(userId, updatedBackupCodes);
-      return true;
-    }
+    const code = token.replace(/[\s-]/g, '').toLowerCase();
+    const backupCodesRemaining = user.twoFactorBackupCodes.length;
 
-    // Verify TOTP token
-    const verified = speakeasy.totp.verify({
-      secret: user.twoFactorSecret,
-      encoding: 'base32',
-      token,
-    });
+    // Mã TOTP luôn là 6 chữ số; còn lại thử như backup code
+    if (/^\d{6}$/.test(code)) {
+      const valid = await this.verifyTotp(user, code);
+      return { valid, method: valid ? 'totp' : null, backupCodesRemaining };
+    }
 
-    return verified;
+    const remaining = await this.consumeBackupCode(user, code);
+    if (remaining === null) {
+      return { valid: false, method: null, backupCodesRemaining };
+    }
+    return {
+      valid: true,
+      method: 'backup_code',
+      backupCodesRemaining: remaining,
+    };
   }
 
   async enable2FA(userId: string, enabled: boolean): Promise<void> {
@@ -255,15 +297,91 @@ export class UserService implements IUserService {
   }
 
   async generate2FABackupCodes(userId: string): Promise<string[]> {
-    // Generate 8 backup codes
-    const backupCodes = Array.from({ length: 8 }, () =>
-      randomBytes(4).toString('hex'),
+    const backupCodes = Array.from(
+      { length: config.twoFactor.backupCodeCount },
+      () => this.generateBackupCode(),
     );
 
-    await this.userRepo.set2FABackupCodes(userId, backupCodes);
+    // Chỉ lưu hash; mã gốc chỉ trả về một lần này
+    const hashes = await Promise.all(
+      backupCodes.map((code) => bcrypt.hash(code.replace('-', ''), 10)),
+    );
+    await this.userRepo.set2FABackupCodes(userId, hashes);
     return backupCodes;
   }
 
+  async get2FAStatus(userId: string): Promise<TwoFactorStatus> {
+    const user = await this.getUser(userId);
+    return {
+      enabled: user.isTwoFactorEnabled,
+      configured: !!user.twoFactorSecret,
+      backupCodesRemaining: user.twoFactorBackupCodes.length,
+    };
+  }
+
+  async reset2FA(requester: Requester, userId: string): Promise<void> {
+    // Check permissions - only admins can reset another user's 2FA
+    if (
+      requester.role !== UserRole.ADMIN &&
+      requester.role !== UserRole.SUPER_ADMIN
+    ) {
+      throw AppError.from(
+        new Error('You do not have permission to reset 2FA'),
+        403,
+      );
+    }
+
+    const user = await this.getUser(userId);
+    await this.userRepo.reset2FA(userId);
+
+    await this.auditLogger.log({
+      actor: requester,
+      action: AuditAction.TWO_FACTOR_RESET,
+      entityType: 'User',
+      entityId: userId,
+      metadata: { wasEnabled: user.isTwoFactorEnabled },
+    });
+    await this.emailService.sendTwoFactorResetEmail(
+      user.email,
+      user.name,
+      new Date(),
+    );
+
+    this.logger.log(`2FA of user ${userId} reset by ${requester.sub}`);
+  }
+
+  async migrate2FACredentials(): Promise<TwoFactorMigrationResult> {
+    const result: TwoFactorMigrationResult = {
+      secretsEncrypted: 0,
+      backupCodesHashed: 0,
+    };
+
+    let afterId: string | null = null;
+    let hasMore = true;
+    while (hasMore) {
+      const users = await this.userRepo.list2FACredentials(
+        afterId,
+        MIGRATION_BATCH_SIZE,
+      );
+      hasMore = users.length === MIGRATION_BATCH_SIZE;
+      afterId = users[users.length - 1]?.id ?? null;
+
+      for (const user of users) {
+        try {
+          await this.migrate2FAUser(user, result);
+        } catch (error) {
+          // Secret mã hóa bằng khóa đã bỏ khỏi keyring: không dừng cả đợt
+          this.logger.error(
+            `Error migrating 2FA credentials of user ${user.id}: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+    }
+
+    return result;
+  }
+
   async getUserRoles(
     userId: string,
   ): Promise<{ roleId: string; role: UserRole }[]> {
@@ -294,4 +412,119 @@ export class UserService implements IUserService {
     // Default to denying access
     return false;
   }
+
+  // Helper methods
+
+  // Cho phép lệch config.twoFactor.window bước; mỗi bước chỉ dùng được một lần
+  private async verifyTotp(user: User, code: string): Promise<boolean> {
+    const storedSecret = user.twoFactorSecret as string;
+    const secret = this.cipher.decrypt(storedSecret);
+
+    const match = speakeasy.totp.verifyDelta({
+      secret,
+      encoding: 'base32',
+      token: code,
+      step: TOTP_STEP_SECONDS,
+      window: config.twoFactor.window,
+    });
+    if (!match) {
+      return false;
+    }
+
+    const step =
+      Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + match.delta;
+    if (!(await this.userRepo.claim2FAStep(user.id, step))) {
+      this.logger.warn(`Rejected reused TOTP code for user ${user.id}`);
+      return false;
+    }
+
+    // Secret cũ (chưa mã hóa hoặc khóa đã xoay) được mã hóa lại bằng khóa hiện tại
+    if (this.cipher.needsRotation(storedSecret)) {
+      await this.userRepo.replace2FASecret(
+        user.id,
+        storedSecret,
+        this.cipher.encrypt(secret),
+      );
+    }
+    return true;
+  }
+
+  // Ghi có điều kiện: user vừa setup lại hoặc dùng mã thì bỏ qua, lần chạy sau xử lý
+  private async migrate2FAUser(
+    user: Pick<User, 'id' | 'twoFactorSecret' | 'twoFactorBackupCodes'>,
+    result: TwoFactorMigrationResult,
+  ): Promise<void> {
+    const secret = user.twoFactorSecret;
+    if (secret && this.cipher.needsRotation(secret)) {
+      const rotated = await this.userRepo.replace2FASecret(
+        user.id,
+        secret,
+        this.cipher.encrypt(this.cipher.decrypt(secret)),
+      );
+      if (rotated) {
+        result.secretsEncrypted++;
+      }
+    }
+
+    const codes = user.twoFactorBackupCodes;
+    if (!codes.every(isHashedBackupCode)) {
+      const hashed = await Promise.all(
+        codes.map((code) =>
+          isHashedBackupCode(code) ? code : bcrypt.hash(code, 10),
+        ),
+      );
+      if (await this.userRepo.replace2FABackupCodes(user.id, codes, hashed)) {
+        result.backupCodesHashed++;
+      }
+    }
+  }
+
+  // Trả về số backup code còn lại sau khi dùng, null khi mã không hợp lệ
+  private async consumeBackupCode(
+    user: User,
+    code: string,
+  ): Promise<number | null> {
+    if (!code) {
+      return null;
+    }
+
+    for (const stored of user.twoFactorBackupCodes) {
+      if (!(await this.matchesBackupCode(code, stored))) {
+        continue;
+      }
+
+      const remaining = user.twoFactorBackupCodes.filter(
+        (hash) => hash !== stored,
+      );
+      // Hai request dùng cùng lúc: chỉ request ghi trước được chấp nhận
+      const burned = await this.userRepo.replace2FABackupCodes(
+        user.id,
+        user.twoFactorBackupCodes,
+        remaining,
+      );
+      return burned ? remaining.length : null;
+    }
+    return null;
+  }
+
+  private async matchesBackupCode(
+    code: string,
+    stored: string,
+  ): Promise<boolean> {
+    if (isHashedBackupCode(stored)) {
+      return bcrypt.compare(code, stored);
+    }
+    // Backup code dạng plain text từ trước khi lưu hash
+    const a = Buffer.from(code);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  private generateBackupCode(): string {
+    const code = Array.from(
+      randomBytes(BACKUP_CODE_LENGTH),
+      (byte) => BACKUP_CODE_ALPHABET[byte & 31],
+    ).join('');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
 }
@@ -123,3 +123,11 @@ export const ErrTokenInvalid = AppError.from(
   new Error('Token is invalid'),
   401,
 );
+export const ErrRefreshTokenReused = AppError.from(
+  new Error('Refresh token reuse detected, the session has been revoked'),
+  401,
+).withDetail('reason', 'refresh_token_reused');
+export const ErrSessionRevoked = AppError.from(
+  new Error('Session is no longer active, please sign in again'),
+  401,
+).withDetail('reason', 'session_revoked');
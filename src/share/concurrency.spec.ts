@@ -0,0 +1,118 @@
+import { AppError } from './app-error';
+import { assertVersion, parseIfMatch } from './concurrency';
+import { BasePrismaRepository } from '../core/crud/base/base-prisma.repository';
+
+class ItemRepository extends BasePrismaRepository<any, any, any> {
+  protected _toModel(data: any) {
+    return data;
+  }
+
+  protected _conditionsToWhereClause(conditions: any) {
+    return conditions;
+  }
+}
+
+describe('parseIfMatch', () => {
+  const version = new Date('2026-10-19T08:00:00.000Z');
+
+  it('accepts ISO dates, epoch milliseconds and quoted ETags', () => {
+    expect(parseIfMatch(version.toISOString())).toEqual(version);
+    expect(parseIfMatch(String(version.getTime()))).toEqual(version);
+    expect(parseIfMatch(`W/"${version.toISOString()}"`)).toEqual(version);
+    expect(parseIfMatch([`"${version.getTime()}"`])).toEqual(version);
+  });
+
+  it('skips the check without a header or with a wildcard', () => {
+    expect(parseIfMatch(undefined)).toBeUndefined();
+    expect(parseIfMatch(' * ')).toBeUndefined();
+  });
+
+  it('rejects values that are not a version', () => {
+    const error = (() => {
+      try {
+        return parseIfMatch('"abc"');
+      } catch (e) {
+        return e;
+      }
+    })() as AppError;
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(400);
+  });
+});
+
+describe('assertVersion', () => {
+  const current = new Date('2026-10-19T08:00:00.000Z');
+
+  it('fails with 412 and the current version when the record moved on', () => {
+    let error: AppError | undefined;
+    try {
+      assertVersion('Role', current, new Date('2026-10-19T07:59:59.000Z'));
+    } catch (e) {
+      error = e as AppError;
+    }
+
+    expect(error?.getStatusCode()).toBe(412);
+    expect(error?.toJSON().details).toMatchObject({
+      currentVersion: current.toISOString(),
+    });
+  });
+
+  it('passes when the versions match or none was sent', () => {
+    expect(() =>
+      assertVersion('Role', current, new Date(current)),
+    ).not.toThrow();
+    expect(() => assertVersion('Role', current, undefined)).not.toThrow();
+  });
+});
+
+describe('BasePrismaRepository.update with If-Match', () => {
+  const current = new Date('2026-10-19T08:00:00.000Z');
+  const model = {
+    $name: 'Item',
+    fields: { updatedAt: {} },
+    findFirst: jest.fn().mockResolvedValue({ id: 'item-1' }),
+    findUnique: jest.fn().mockResolvedValue({ updatedAt: current }),
+    update: jest.fn(),
+  };
+  const repository = new ItemRepository('Item', model, {} as any);
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('writes only when updatedAt still matches', async () => {
+    const expected = new Date(current);
+
+    await repository.update(
+      'item-1',
+      { name: 'x' },
+      { expectedUpdatedAt: expected },
+    );
+
+    expect(model.update).toHaveBeenCalledWith({
+      where: { id: 'item-1', updatedAt: expected },
+      data: expect.objectContaining({ updatedAt: expect.any(Date) }),
+    });
+  });
+
+  it('reports 412 when a concurrent write changed the record first', async () => {
+    model.update.mockRejectedValueOnce(
+      Object.assign(new Error('Record to update not found'), {
+        code: 'P2025',
+      }),
+    );
+
+    const error = (await repository
+      .update(
+        'item-1',
+        { name: 'x' },
+        { expectedUpdatedAt: new Date('2026-10-19T07:00:00.000Z') },
+      )
+      .catch((e) => e)) as AppError;
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.getStatusCode()).toBe(412);
+    expect(error.toJSON().details).toMatchObject({
+      currentVersion: current.toISOString(),
+    });
+  });
+});
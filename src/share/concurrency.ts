@@ -0,0 +1,80 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AppError } from './app-error';
+
+/**
+ * Optimistic concurrency dựa trên updatedAt: client gửi lại updatedAt đã đọc
+ * (hoặc nguyên ETag của GET) qua header `If-Match`, bản ghi đã bị sửa sau đó
+ * thì trả 412 kèm phiên bản hiện tại
+ */
+
+// Phiên bản của bản ghi ở dạng trả cho client
+export const entityVersion = (updatedAt: Date): string =>
+  updatedAt.toISOString();
+
+// Ngăn cách phiên bản và hash nội dung trong ETag; không có trong ISO lẫn base64url
+const ETAG_VERSION_SEPARATOR = '~';
+
+// ETag của một bản ghi: If-None-Match so theo nội dung, If-Match đọc lại được updatedAt
+export const entityETag = (updatedAt: Date, contentHash: string): string =>
+  `W/"${entityVersion(updatedAt)}${ETAG_VERSION_SEPARATOR}${contentHash}"`;
+
+/**
+ * Parse `If-Match`: updatedAt dạng ISO hoặc epoch ms, hoặc ETag do GET trả về,
+ * có thể nằm trong dấu nháy (kể cả weak `W/"..."`). Không có header hoặc `*`
+ * nghĩa là không kiểm tra
+ */
+export function parseIfMatch(header?: string | string[]): Date | undefined {
+  const raw = (Array.isArray(header) ? header[0] : header)?.trim();
+  if (!raw || raw === '*') {
+    return undefined;
+  }
+
+  const value = raw
+    .replace(/^W\//, '')
+    .replace(/^"(.*)"$/, '$1')
+    .split(ETAG_VERSION_SEPARATOR)[0];
+  const version = /^\d+$/.test(value)
+    ? new Date(Number(value))
+    : new Date(value);
+  if (Number.isNaN(version.getTime())) {
+    throw AppError.from(
+      new Error('If-Match must be the ETag or updatedAt of the record'),
+      400,
+    );
+  }
+  return version;
+}
+
+export function preconditionFailed(
+  entityName: string,
+  currentUpdatedAt: Date,
+): AppError {
+  return AppError.from(
+    new Error(`${entityName} has been modified by another request`),
+    412,
+  ).withDetail('currentVersion', entityVersion(currentUpdatedAt));
+}
+
+/**
+ * Kiểm tra sớm trước khi ghi; repository vẫn phải ghi có điều kiện
+ * vì bản ghi có thể bị sửa giữa lúc kiểm tra và lúc ghi
+ */
+export function assertVersion(
+  entityName: string,
+  currentUpdatedAt: Date | null | undefined,
+  expected?: Date,
+): void {
+  if (
+    expected &&
+    currentUpdatedAt &&
+    currentUpdatedAt.getTime() !== expected.getTime()
+  ) {
+    throw preconditionFailed(entityName, currentUpdatedAt);
+  }
+}
+
+// Phiên bản client mong đợi từ header If-Match, undefined nếu không gửi
+export const IfMatch = createParamDecorator(
+  (_: unknown, ctx: ExecutionContext): Date | undefined =>
+    parseIfMatch(ctx.switchToHttp().getRequest().headers['if-match']),
+);
@@ -6,9 +6,28 @@ dotenv.config({
 
 const port = process.env.PORT || '3000';
 
+// Giá trị 'trust proxy' của Express: "true", số hop, hoặc danh sách IP/subnet của proxy
+function parseTrustProxy(value?: string): boolean | number | string[] {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  if (/^\d+$/.test(value)) {
+    return parseInt(value);
+  }
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
 export const config = {
   envName: process.env.NODE_ENV,
   port,
+  // Mặc định không tin X-Forwarded-For; đặt TRUST_PROXY khi chạy sau reverse proxy
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
   jwtSecret: process.env.JWT_SECRET_KEY || '200L@b.io',
   rpc: {
     jwtSecret: process.env.JWT_SECRET_KEY || '200L@b.io',
@@ -47,6 +66,97 @@ export const config = {
     host: process.env.DB_HOST,
     port: process.env.DB_PORT,
   },
+  loginLockout: {
+    // Số lần sai trong cửa sổ thời gian trước khi khóa
+    accountThreshold: parseInt(
+      process.env.LOGIN_LOCKOUT_ACCOUNT_THRESHOLD || '5',
+    ),
+    ipThreshold: parseInt(process.env.LOGIN_LOCKOUT_IP_THRESHOLD || '20'),
+    windowSeconds: parseInt(process.env.LOGIN_LOCKOUT_WINDOW || '900'),
+    // Thời gian khóa tăng gấp đôi sau mỗi lần khóa liên tiếp
+    baseLockSeconds: parseInt(process.env.LOGIN_LOCKOUT_BASE || '60'),
+    maxLockSeconds: parseInt(process.env.LOGIN_LOCKOUT_MAX || '86400'),
+  },
+  trustedDevice: {
+    // Số ngày thiết bị tin cậy được bỏ qua 2FA kể từ lúc được tin cậy
+    windowDays: parseInt(process.env.TRUSTED_DEVICE_DAYS || '30'),
+  },
+  twoFactor: {
+    // Keyring mã hóa secret TOTP: "keyId:base64,keyId:base64", khóa đầu dùng để mã hóa
+    encryptionKeys: process.env.TWO_FACTOR_ENCRYPTION_KEYS || '',
+    // Số bước 30 giây lệch cho phép mỗi phía khi kiểm tra mã TOTP
+    window: parseInt(process.env.TWO_FACTOR_WINDOW || '1'),
+    backupCodeCount: parseInt(process.env.TWO_FACTOR_BACKUP_CODES || '10'),
+  },
+  loginRisk: {
+    // Điểm rủi ro từ đó gửi cảnh báo / bắt buộc 2FA (nếu user đã bật 2FA)
+    alertScore: parseInt(process.env.LOGIN_RISK_ALERT_SCORE || '20'),
+    stepUpScore: parseInt(process.env.LOGIN_RISK_STEP_UP_SCORE || '50'),
+    // Số lần đăng nhập gần nhất dùng làm mốc so sánh
+    historySize: parseInt(process.env.LOGIN_RISK_HISTORY_SIZE || '50'),
+    // Di chuyển nhanh hơn mức này giữa hai lần đăng nhập = impossible travel
+    maxTravelSpeedKmh: parseInt(process.env.LOGIN_RISK_MAX_SPEED_KMH || '900'),
+    // Cần đủ lịch sử mới xét giờ đăng nhập bất thường
+    minHourHistory: parseInt(process.env.LOGIN_RISK_MIN_HOUR_HISTORY || '10'),
+    // Hạn của link "không phải tôi" trong email cảnh báo
+    reportTokenHours: parseInt(process.env.LOGIN_REPORT_TOKEN_HOURS || '72'),
+  },
+  session: {
+    // Khoảng tối thiểu giữa hai lần ghi lastUsedAt/IP của một session
+    touchIntervalSeconds: parseInt(process.env.SESSION_TOUCH_INTERVAL || '60'),
+    // Thao tác nhạy cảm (passkey...) cần đăng nhập/xác thực lại trong khoảng này
+    reauthWindowSeconds: parseInt(
+      process.env.SESSION_REAUTH_WINDOW_SECONDS || '300',
+    ),
+  },
+  webauthn: {
+    // Relying party ID = domain của frontend (không gồm scheme/port)
+    rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+    rpName: process.env.WEBAUTHN_RP_NAME || process.env.APP_NAME || 'Your App',
+    // Origin được phép gọi navigator.credentials, phân tách bằng dấu phẩy
+    origins: (
+      process.env.WEBAUTHN_ORIGINS ||
+      process.env.APP_URL ||
+      'http://localhost:3000'
+    )
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean),
+    challengeTtlSeconds: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL || '300'),
+  },
+  geoip: {
+    // File .mmdb (MaxMind GeoLite2-City, DB-IP City Lite...); trống = không tra vị trí
+    databasePath: process.env.GEOIP_DATABASE_PATH || '',
+  },
+  oauth: {
+    // Danh sách client ID (audience) được chấp nhận, phân tách bằng dấu phẩy
+    google: {
+      clientIds: (process.env.GOOGLE_CLIENT_IDS || '')
+        .split(',')
+        .filter(Boolean),
+      jwksUri:
+        process.env.GOOGLE_JWKS_URI ||
+        'https://www.googleapis.com/oauth2/v3/certs',
+    },
+    apple: {
+      clientIds: (process.env.APPLE_CLIENT_IDS || '')
+        .split(',')
+        .filter(Boolean),
+      jwksUri:
+        process.env.APPLE_JWKS_URI || 'https://appleid.apple.com/auth/keys',
+    },
+    facebook: {
+      clientIds: (process.env.FACEBOOK_APP_IDS || '')
+        .split(',')
+        .filter(Boolean),
+      jwksUri:
+        process.env.FACEBOOK_JWKS_URI ||
+        'https://limited.facebook.com/.well-known/oauth/openid/jwks/',
+    },
+    jwksCacheTtl: parseInt(process.env.OAUTH_JWKS_CACHE_TTL || '3600'),
+    // Thời hạn nonce do server cấp cho social login (giây)
+    nonceTtlSeconds: parseInt(process.env.OAUTH_NONCE_TTL || '600'),
+  },
   upload: {
     type: 'local',
     path: 'uploads',
@@ -41,6 +41,8 @@ export const pagingDTOSchema = z.object({
 });
 export interface PagingDTO extends z.infer<typeof pagingDTOSchema> {
   total?: number;
+  // Cursor cho trang kế tiếp; null khi đã hết dữ liệu
+  nextCursor?: string | null;
 }
 
 export type Paginated<E> = {
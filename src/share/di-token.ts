@@ -4,3 +4,5 @@ export const POST_RPC = Symbol('POST_RPC');
 export const USER_RPC = Symbol('USER_RPC');
 export const REMOTE_AUTH_GUARD = Symbol('REMOTE_AUTH_GUARD');
 export const MESSAGE_SERVICE = Symbol('MESSAGE_SERVICE');
+export const AUDIT_LOGGER = Symbol('AUDIT_LOGGER');
+export const SESSION_VALIDATOR = Symbol('SESSION_VALIDATOR');
@@ -4,10 +4,13 @@ export const EvtAttendanceUpdated = 'AttendanceUpdated';
 export const EvtLeaveRequested = 'LeaveRequested';
 export const EvtLeaveApproved = 'LeaveApproved';
 export const EvtLeaveRejected = 'LeaveRejected';
+export const EvtLeaveCancelled = 'LeaveCancelled';
 export const EvtProductionRecordCreated = 'ProductionRecordCreated';
 export const EvtProductionRecordApproved = 'ProductionRecordApproved';
 export const EvtApprovalRequested = 'ApprovalRequested';
 export const EvtApprovalCompleted = 'ApprovalCompleted';
+export const EvtSuspiciousLogin = 'SuspiciousLogin';
+export const EvtSessionRevoked = 'SessionRevoked';
 
 export type AttendanceEventPayload = {
   userId: string;
@@ -23,3 +26,81 @@ export class AttendanceEvent<
 }
 
 // Tương tự cho các event khác
+
+export type LeaveEventPayload = {
+  leaveRequestId: string;
+  userId: string;
+  // Người cần xử lý tiếp (Requested) hoặc người vừa quyết định (Approved/Rejected)
+  approverId: string | null;
+  leaveType: string;
+  startDate: string;
+  endDate: string;
+  days: number;
+  status: string;
+  comment?: string | null;
+};
+
+export class LeaveEvent<T extends LeaveEventPayload> extends AppEvent<T> {}
+
+export type ProductionRecordEventPayload = {
+  recordId: string;
+  userId: string;
+  date: string;
+  shift: string;
+  productCode: string;
+  quantity: number;
+  targetQuantity: number;
+  defectQuantity: number;
+  efficiency: number | null;
+  status: string;
+  groupId: string | null;
+};
+
+export class ProductionRecordEvent<
+  T extends ProductionRecordEventPayload,
+> extends AppEvent<T> {}
+
+// Task duyệt mới mở, được ủy quyền hoặc được chuyển lên (escalate)
+export type ApprovalRequestedPayload = {
+  instanceId: string;
+  taskId: string;
+  entityType: string;
+  entityId: string;
+  role: string;
+  assigneeId: string | null;
+  dueAt: string | null;
+};
+
+export type ApprovalCompletedPayload = {
+  instanceId: string;
+  entityType: string;
+  entityId: string;
+  status: string;
+  requestedById: string;
+  subjectUserId: string | null;
+};
+
+export class ApprovalEvent<
+  T extends ApprovalRequestedPayload | ApprovalCompletedPayload,
+> extends AppEvent<T> {}
+
+// Đăng nhập có dấu hiệu rủi ro (thiết bị lạ, vị trí bất thường...)
+export type SuspiciousLoginPayload = {
+  userId: string;
+  loginEventId: string;
+  device: string;
+  location: string;
+  ipAddress: string | null;
+  reasons: string[];
+  riskScore: number;
+};
+
+// Session bị thu hồi: socket realtime gắn với session phải ngắt ngay
+export type SessionRevokedPayload = {
+  userId: string;
+  sessionIds: string[];
+};
+
+export class SecurityEvent<
+  T extends SuspiciousLoginPayload | SessionRevokedPayload,
+> extends AppEvent<T> {}
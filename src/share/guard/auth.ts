@@ -6,9 +6,10 @@ import {
   Logger,
   UnauthorizedException,
 } from '@nestjs/common';
-import { TOKEN_INTROSPECTOR } from '../di-token';
-import { ITokenIntrospect } from '../interface';
+import { SESSION_VALIDATOR, TOKEN_INTROSPECTOR } from '../di-token';
+import { ISessionValidator, ITokenIntrospect } from '../interface';
 import { extractTokenFromRequest } from 'src/common/utils/token-extractor';
+import { extractRequestContext } from 'src/common/utils/request-context';
 
 // @Injectable()
 // export class RemoteAuthGuard implements CanActivate {
@@ -69,6 +70,9 @@ export class RemoteAuthGuard implements CanActivate {
   private readonly logger = new Logger(RemoteAuthGuard.name);
   constructor(
     @Inject(TOKEN_INTROSPECTOR) private readonly introspector: ITokenIntrospect,
+    // AuthModule là global nên module nào dùng guard cũng có
+    @Inject(SESSION_VALIDATOR)
+    private readonly sessionValidator: ISessionValidator,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -100,6 +104,19 @@ export class RemoteAuthGuard implements CanActivate {
         throw new UnauthorizedException('Token không hợp lệ hoặc đã hết hạn');
       }
 
+      // Access token bắt buộc gắn session; thiếu sid hoặc session bị thu hồi thì từ chối
+      if (
+        !payload.sid ||
+        !(await this.sessionValidator.validate(
+          payload.sid,
+          extractRequestContext(request),
+        ))
+      ) {
+        throw new UnauthorizedException(
+          'Phiên đăng nhập đã bị thu hồi, vui lòng đăng nhập lại',
+        );
+      }
+
       // Set user info in request
       request['requester'] = {
         sub: payload.sub,
@@ -109,6 +126,7 @@ export class RemoteAuthGuard implements CanActivate {
         lineId: payload.lineId,
         teamId: payload.teamId,
         groupId: payload.groupId,
+        sid: payload.sid,
       };
       return true;
     } catch (error) {
@@ -1,12 +1,12 @@
 import { Provider } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { SwaggerAuthGuard } from './swagger-auth.guard';
-import { TOKEN_INTROSPECTOR } from '../di-token';
+import { SESSION_VALIDATOR, TOKEN_INTROSPECTOR } from '../di-token';
 
 export const SwaggerAuthGuardProvider: Provider = {
   provide: SwaggerAuthGuard,
-  useFactory: (reflector: Reflector, tokenIntrospector) => {
-    return new SwaggerAuthGuard(reflector, tokenIntrospector);
+  useFactory: (reflector: Reflector, tokenIntrospector, sessionValidator) => {
+    return new SwaggerAuthGuard(reflector, tokenIntrospector, sessionValidator);
   },
-  inject: [Reflector, TOKEN_INTROSPECTOR],
+  inject: [Reflector, TOKEN_INTROSPECTOR, SESSION_VALIDATOR],
 };
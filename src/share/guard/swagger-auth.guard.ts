@@ -5,8 +5,8 @@ import {
   UnauthorizedException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { ITokenIntrospect } from '../interface';
-import { TOKEN_INTROSPECTOR } from '../di-token';
+import { ISessionValidator, ITokenIntrospect } from '../interface';
+import { SESSION_VALIDATOR, TOKEN_INTROSPECTOR } from '../di-token';
 import { RemoteAuthGuard } from './auth';
 import { IS_PUBLIC_KEY } from '../../common/decorators/public.decorator';
 import { extractTokenFromRequest } from '../../common/utils/token-extractor';
@@ -16,8 +16,9 @@ export class SwaggerAuthGuard extends RemoteAuthGuard {
   constructor(
     @Inject(Reflector) private readonly reflector: Reflector,
     @Inject(TOKEN_INTROSPECTOR) introspector: ITokenIntrospect,
+    @Inject(SESSION_VALIDATOR) sessionValidator: ISessionValidator,
   ) {
-    super(introspector);
+    super(introspector, sessionValidator);
   }
   async canActivate(context: ExecutionContext): Promise<boolean> {
     try {
@@ -1,4 +1,5 @@
 export * from './app-error';
+export * from './concurrency';
 export * from './config';
 export * from './data-model';
 export * from './interface';
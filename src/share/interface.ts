@@ -20,6 +20,8 @@ export interface TokenPayload {
   lineId?: string;
   teamId?: string;
   groupId?: string;
+  // Session của access token
+  sid?: string;
 }
 
 export interface Requester extends TokenPayload {}
@@ -51,6 +53,14 @@ export interface ITokenIntrospect {
   introspect(token: string): Promise<TokenIntrospectResult>;
   isTokenBlacklisted(token: string): Promise<boolean>;
 }
+
+// Kiểm tra session của access token còn hiệu lực và ghi nhận hoạt động (AuthModule cung cấp)
+export interface ISessionValidator {
+  validate(
+    sessionId: string,
+    context?: { ipAddress: string | null } | null,
+  ): Promise<boolean>;
+}
 export interface IPostRpc {
   findById(id: string): Promise<Post | null>;
   findByIds(ids: Array<string>): Promise<Array<Post>>;
@@ -74,3 +84,21 @@ export type EventHandler = (msg: string) => void;
 export interface IEventPublisher {
   publish<T>(event: AppEvent<T>): Promise<void>;
 }
+
+// Một bản ghi audit; before/after là snapshot entity (đã bỏ field nhạy cảm khi ghi)
+export interface AuditEntry {
+  actor?: Requester | null;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface IAuditLogger {
+  // Không bao giờ throw: lỗi ghi audit không được làm hỏng nghiệp vụ chính
+  log(entry: AuditEntry): Promise<void>;
+}
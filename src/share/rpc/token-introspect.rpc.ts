@@ -10,22 +10,21 @@ export class TokenIntrospectRPCClient implements ITokenIntrospect {
 
   async introspect(token: string): Promise<TokenIntrospectResult> {
     try {
+      // Refresh token ký cùng secret, không được dùng thay access token
+      if (this.decodePayload(token)?.type === 'refresh') {
+        throw new Error('Refresh token cannot be used as an access token');
+      }
+
       const { data } = await axios.post(`${this.url}`, { token });
-      const { sub, role, roleId } = data.data;
-      // Decode JWT token để lấy role nếu service không trả về
+      const { sub, role, roleId, factoryId, lineId, teamId, groupId, sid } =
+        data.data;
+      // Decode JWT token để lấy role/sid nếu service không trả về
       let extractedRole = role;
-      if (!extractedRole && token) {
-        try {
-          const parts = token.split('.');
-          if (parts.length === 3) {
-            const payload = JSON.parse(
-              Buffer.from(parts[1], 'base64').toString('utf8'),
-            );
-            extractedRole = payload.role;
-          }
-        } catch (e) {
-          console.error('Error extracting role from token:', e);
-        }
+      let extractedSid = sid;
+      if (!extractedRole || !extractedSid) {
+        const payload = this.decodePayload(token);
+        extractedRole = extractedRole || payload?.role;
+        extractedSid = extractedSid || payload?.sid;
       }
 
       return {
@@ -33,6 +32,12 @@ export class TokenIntrospectRPCClient implements ITokenIntrospect {
           sub,
           role: extractedRole, // Sử dụng role từ token nếu service không trả về
           roleId,
+          // Phạm vi tổ chức từ membership, dùng cho các kiểm tra theo đơn vị
+          factoryId,
+          lineId,
+          teamId,
+          groupId,
+          sid: extractedSid,
         },
         isOk: true,
       };
@@ -45,6 +50,19 @@ export class TokenIntrospectRPCClient implements ITokenIntrospect {
     }
   }
 
+  private decodePayload(token: string): Record<string, any> | null {
+    try {
+      const parts = token.split('.');
+      if (parts.length !== 3) {
+        return null;
+      }
+      return JSON.parse(Buffer.from(parts[1], 'base64').toString('utf8'));
+    } catch (e) {
+      console.error('Error extracting claims from token:', e);
+      return null;
+    }
+  }
+
   /**
    * Checks if the token is blacklisted in the remote service
    * @param token The token to check
@@ -0,0 +1,117 @@
+import { Logger } from '@nestjs/common';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+
+// enc:<keyId>:<iv>:<authTag>:<ciphertext> (base64url); giá trị không có tiền tố là dữ liệu cũ chưa mã hóa
+const PREFIX = 'enc';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+export interface CipherKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Mã hóa bí mật lưu trong DB (AES-256-GCM) theo keyring: khóa đầu tiên dùng để
+ * mã hóa, các khóa còn lại chỉ để giải mã dữ liệu cũ trong lúc xoay khóa
+ */
+export class SecretCipher {
+  private readonly keys: Map<string, Buffer>;
+  private readonly activeKey: CipherKey;
+
+  constructor(keys: CipherKey[]) {
+    if (keys.length === 0) {
+      throw new Error('SecretCipher requires at least one key');
+    }
+    this.activeKey = keys[0];
+    this.keys = new Map(keys.map((entry) => [entry.id, entry.key]));
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.activeKey.key, iv);
+    // Gắn keyId vào AAD để không tráo được phần header
+    cipher.setAAD(Buffer.from(this.activeKey.id));
+    const data = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+    return [
+      PREFIX,
+      this.activeKey.id,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      data.toString('base64url'),
+    ].join(':');
+  }
+
+  decrypt(value: string): string {
+    const parts = value.split(':');
+    if (parts[0] !== PREFIX || parts.length !== 5) {
+      return value;
+    }
+
+    const [, keyId, iv, tag, data] = parts;
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown encryption key: ${keyId}`);
+    }
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      key,
+      Buffer.from(iv, 'base64url'),
+    );
+    decipher.setAAD(Buffer.from(keyId));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(data, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  // Chưa mã hóa hoặc mã hóa bằng khóa cũ: nên ghi lại bằng khóa hiện tại
+  needsRotation(value: string): boolean {
+    return !value.startsWith(`${PREFIX}:${this.activeKey.id}:`);
+  }
+}
+
+/**
+ * Keyring từ chuỗi "keyId:base64Key,keyId:base64Key" (khóa 32 byte, khóa đầu là khóa hiện tại).
+ * Không cấu hình thì suy ra từ fallbackSecret để môi trường dev vẫn chạy được
+ */
+export function createSecretCipher(
+  spec: string,
+  fallbackSecret: string,
+): SecretCipher {
+  const keys = spec
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator <= 0 || key.length !== 32) {
+        throw new Error(
+          `Invalid encryption key "${id || entry}": expected keyId:base64 of 32 bytes`,
+        );
+      }
+      return { id, key };
+    });
+
+  if (keys.length === 0) {
+    new Logger('SecretCipher').warn(
+      'No encryption keys configured, deriving one from the JWT secret',
+    );
+    keys.push({
+      id: 'default',
+      key: createHash('sha256').update(fallbackSecret).digest(),
+    });
+  }
+  return new SecretCipher(keys);
+}